@@ -3,6 +3,9 @@ const path = require('path');
 const isDev = process.env.NODE_ENV === 'development';
 const Database = require('better-sqlite3');
 const fs = require('fs');
+const os = require('os');
+const crypto = require('crypto');
+const zlib = require('zlib');
 const log = require('electron-log');
 const { autoUpdater } = require('electron-updater');
 const { format } = require('date-fns');
@@ -34,6 +37,17 @@ let db;
 let isActivated = false;
 let activeTransactions = 0;
 
+// Number patterns accept {PREFIX}, {YYYY}, {YY} and {SEQ:n} (sequence padded to n digits).
+// Sequences restart at startNumber each year when the pattern contains the year.
+const defaultNumberingSettings = {
+  factures: { prefix: 'FA', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' },
+  devis: { prefix: 'DV', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' },
+  bonsLivraison: { prefix: 'BL', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' },
+  commandesFournisseur: { prefix: 'CF', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' },
+  avoirs: { prefix: 'AV', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' },
+  bonsReception: { prefix: 'BR', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' }
+};
+
 // Initialize database with better error handling
 function initDatabase() {
   try {
@@ -58,8 +72,8 @@ function initDatabase() {
     db.pragma('foreign_keys = ON');
     db.pragma('busy_timeout = 5000'); // Set busy timeout to 5 seconds
     
-    // Check and update database schema
-    updateDatabaseSchema();
+    // Bring the schema up to date
+    runMigrations();
     
     // Insert sample data if tables are empty
     const clientCount = db.prepare('SELECT COUNT(*) as count FROM clients').get();
@@ -84,351 +98,960 @@ function initDatabase() {
   }
 }
 
-function updateDatabaseSchema() {
-  try {
-    log.info('Updating database schema...');
-    
-    // Create tables with complete schema
-    const createTablesSQL = `
-      CREATE TABLE IF NOT EXISTS clients (
-        id TEXT PRIMARY KEY,
-        code TEXT UNIQUE NOT NULL,
-        nom TEXT NOT NULL,
-        adresse TEXT DEFAULT '',
-        codePostal TEXT DEFAULT '',
-        ville TEXT DEFAULT '',
-        telephone TEXT DEFAULT '',
-        email TEXT DEFAULT '',
-        siret TEXT DEFAULT '',
-        matriculeFiscal TEXT DEFAULT '',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
+// Tables as they were when schema versioning was introduced, later changes are migrations
+function createInitialSchema() {
+  // Create tables with complete schema
+  const createTablesSQL = `
+    CREATE TABLE IF NOT EXISTS clients (
+      id TEXT PRIMARY KEY,
+      code TEXT UNIQUE NOT NULL,
+      nom TEXT NOT NULL,
+      adresse TEXT DEFAULT '',
+      codePostal TEXT DEFAULT '',
+      ville TEXT DEFAULT '',
+      telephone TEXT DEFAULT '',
+      email TEXT DEFAULT '',
+      siret TEXT DEFAULT '',
+      matriculeFiscal TEXT DEFAULT '',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
 
-      CREATE TABLE IF NOT EXISTS fournisseurs (
-        id TEXT PRIMARY KEY,
-        nom TEXT NOT NULL,
-        adresse TEXT DEFAULT '',
-        codePostal TEXT DEFAULT '',
-        ville TEXT DEFAULT '',
-        telephone TEXT DEFAULT '',
-        email TEXT DEFAULT '',
-        siret TEXT DEFAULT '',
-        matriculeFiscal TEXT DEFAULT '',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
+    CREATE TABLE IF NOT EXISTS fournisseurs (
+      id TEXT PRIMARY KEY,
+      nom TEXT NOT NULL,
+      adresse TEXT DEFAULT '',
+      codePostal TEXT DEFAULT '',
+      ville TEXT DEFAULT '',
+      telephone TEXT DEFAULT '',
+      email TEXT DEFAULT '',
+      siret TEXT DEFAULT '',
+      matriculeFiscal TEXT DEFAULT '',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
 
-      CREATE TABLE IF NOT EXISTS produits (
-        id TEXT PRIMARY KEY,
-        ref TEXT,
-        nom TEXT NOT NULL,
-        description TEXT DEFAULT '',
-        prixUnitaire REAL NOT NULL,
-        tva REAL DEFAULT 19,
-        fodecApplicable BOOLEAN DEFAULT 0,
-        tauxFodec REAL DEFAULT 1,
-        stock INTEGER DEFAULT 0,
-        type TEXT DEFAULT 'vente',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
+    CREATE TABLE IF NOT EXISTS produits (
+      id TEXT PRIMARY KEY,
+      ref TEXT,
+      nom TEXT NOT NULL,
+      description TEXT DEFAULT '',
+      prixUnitaire REAL NOT NULL,
+      tva REAL DEFAULT 19,
+      fodecApplicable BOOLEAN DEFAULT 0,
+      tauxFodec REAL DEFAULT 1,
+      stock INTEGER DEFAULT 0,
+      type TEXT DEFAULT 'vente',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
 
-      CREATE TABLE IF NOT EXISTS factures (
-        id TEXT PRIMARY KEY,
-        numero TEXT UNIQUE NOT NULL,
-        date TEXT NOT NULL,
-        dateEcheance TEXT NOT NULL,
-        clientId TEXT NOT NULL,
-        totalHT REAL NOT NULL,
-        totalFodec REAL DEFAULT 0,
-        totalTVA REAL NOT NULL,
-        totalTTC REAL NOT NULL,
-        statut TEXT DEFAULT 'brouillon',
-        notes TEXT DEFAULT '',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (clientId) REFERENCES clients (id)
-      );
+    CREATE TABLE IF NOT EXISTS factures (
+      id TEXT PRIMARY KEY,
+      numero TEXT UNIQUE NOT NULL,
+      date TEXT NOT NULL,
+      dateEcheance TEXT NOT NULL,
+      clientId TEXT NOT NULL,
+      totalHT REAL NOT NULL,
+      totalFodec REAL DEFAULT 0,
+      totalTVA REAL NOT NULL,
+      totalCharges REAL DEFAULT 0,
+      charges TEXT DEFAULT '[]',
+      totalTTC REAL NOT NULL,
+      statut TEXT DEFAULT 'brouillon',
+      notes TEXT DEFAULT '',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (clientId) REFERENCES clients (id)
+    );
 
-      CREATE TABLE IF NOT EXISTS lignes_facture (
-        id TEXT PRIMARY KEY,
-        factureId TEXT NOT NULL,
-        produitId TEXT NOT NULL,
-        quantite INTEGER NOT NULL,
-        prixUnitaire REAL NOT NULL,
-        remise REAL DEFAULT 0,
-        montantHT REAL NOT NULL,
-        montantTTC REAL NOT NULL,
-        FOREIGN KEY (factureId) REFERENCES factures (id),
-        FOREIGN KEY (produitId) REFERENCES produits (id)
-      );
+    CREATE TABLE IF NOT EXISTS lignes_facture (
+      id TEXT PRIMARY KEY,
+      factureId TEXT NOT NULL,
+      produitId TEXT NOT NULL,
+      quantite INTEGER NOT NULL,
+      prixUnitaire REAL NOT NULL,
+      remise REAL DEFAULT 0,
+      montantHT REAL NOT NULL,
+      montantTTC REAL NOT NULL,
+      FOREIGN KEY (factureId) REFERENCES factures (id),
+      FOREIGN KEY (produitId) REFERENCES produits (id)
+    );
 
-      CREATE TABLE IF NOT EXISTS devis (
-        id TEXT PRIMARY KEY,
-        numero TEXT UNIQUE NOT NULL,
-        date TEXT NOT NULL,
-        dateValidite TEXT NOT NULL,
-        clientId TEXT NOT NULL,
-        totalHT REAL NOT NULL,
-        totalFodec REAL DEFAULT 0,
-        totalTVA REAL NOT NULL,
-        totalTTC REAL NOT NULL,
-        statut TEXT DEFAULT 'brouillon',
-        notes TEXT DEFAULT '',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (clientId) REFERENCES clients (id)
-      );
+    CREATE TABLE IF NOT EXISTS devis (
+      id TEXT PRIMARY KEY,
+      numero TEXT UNIQUE NOT NULL,
+      date TEXT NOT NULL,
+      dateValidite TEXT NOT NULL,
+      clientId TEXT NOT NULL,
+      totalHT REAL NOT NULL,
+      totalFodec REAL DEFAULT 0,
+      totalTVA REAL NOT NULL,
+      totalTTC REAL NOT NULL,
+      statut TEXT DEFAULT 'brouillon',
+      notes TEXT DEFAULT '',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (clientId) REFERENCES clients (id)
+    );
 
-      CREATE TABLE IF NOT EXISTS lignes_devis (
-        id TEXT PRIMARY KEY,
-        devisId TEXT NOT NULL,
-        produitId TEXT NOT NULL,
-        quantite INTEGER NOT NULL,
-        prixUnitaire REAL NOT NULL,
-        remise REAL DEFAULT 0,
-        montantHT REAL NOT NULL,
-        montantTTC REAL NOT NULL,
-        FOREIGN KEY (devisId) REFERENCES devis (id),
-        FOREIGN KEY (produitId) REFERENCES produits (id)
-      );
+    CREATE TABLE IF NOT EXISTS lignes_devis (
+      id TEXT PRIMARY KEY,
+      devisId TEXT NOT NULL,
+      produitId TEXT NOT NULL,
+      quantite INTEGER NOT NULL,
+      prixUnitaire REAL NOT NULL,
+      remise REAL DEFAULT 0,
+      montantHT REAL NOT NULL,
+      montantTTC REAL NOT NULL,
+      FOREIGN KEY (devisId) REFERENCES devis (id),
+      FOREIGN KEY (produitId) REFERENCES produits (id)
+    );
 
-      CREATE TABLE IF NOT EXISTS bons_livraison (
-        id TEXT PRIMARY KEY,
-        numero TEXT UNIQUE NOT NULL,
-        date TEXT NOT NULL,
-        clientId TEXT NOT NULL,
-        statut TEXT DEFAULT 'prepare',
-        factureId TEXT,
-        notes TEXT DEFAULT '',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (clientId) REFERENCES clients (id),
-        FOREIGN KEY (factureId) REFERENCES factures (id)
-      );
+    CREATE TABLE IF NOT EXISTS bons_livraison (
+      id TEXT PRIMARY KEY,
+      numero TEXT UNIQUE NOT NULL,
+      date TEXT NOT NULL,
+      clientId TEXT NOT NULL,
+      statut TEXT DEFAULT 'prepare',
+      factureId TEXT,
+      notes TEXT DEFAULT '',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (clientId) REFERENCES clients (id),
+      FOREIGN KEY (factureId) REFERENCES factures (id)
+    );
 
-      CREATE TABLE IF NOT EXISTS lignes_bon_livraison (
-        id TEXT PRIMARY KEY,
-        bonLivraisonId TEXT NOT NULL,
-        produitId TEXT NOT NULL,
-        quantite INTEGER NOT NULL,
-        FOREIGN KEY (bonLivraisonId) REFERENCES bons_livraison (id),
-        FOREIGN KEY (produitId) REFERENCES produits (id)
-      );
+    CREATE TABLE IF NOT EXISTS lignes_bon_livraison (
+      id TEXT PRIMARY KEY,
+      bonLivraisonId TEXT NOT NULL,
+      produitId TEXT NOT NULL,
+      quantite INTEGER NOT NULL,
+      FOREIGN KEY (bonLivraisonId) REFERENCES bons_livraison (id),
+      FOREIGN KEY (produitId) REFERENCES produits (id)
+    );
 
-      CREATE TABLE IF NOT EXISTS commandes_fournisseur (
-        id TEXT PRIMARY KEY,
-        numero TEXT UNIQUE NOT NULL,
-        date TEXT NOT NULL,
-        dateReception TEXT NOT NULL,
-        fournisseurId TEXT NOT NULL,
-        totalHT REAL NOT NULL,
-        totalFodec REAL DEFAULT 0,
-        totalTVA REAL NOT NULL,
-        totalTTC REAL NOT NULL,
-        statut TEXT DEFAULT 'brouillon',
-        notes TEXT DEFAULT '',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (fournisseurId) REFERENCES fournisseurs (id)
-      );
+    CREATE TABLE IF NOT EXISTS lignes_livraison_facturees (
+      id TEXT PRIMARY KEY,
+      bonLivraisonId TEXT NOT NULL,
+      ligneBonLivraisonId TEXT NOT NULL,
+      factureId TEXT NOT NULL,
+      ligneFactureId TEXT,
+      quantite REAL NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (bonLivraisonId) REFERENCES bons_livraison (id),
+      FOREIGN KEY (factureId) REFERENCES factures (id)
+    );
 
-      CREATE TABLE IF NOT EXISTS lignes_commande_fournisseur (
-        id TEXT PRIMARY KEY,
-        commandeId TEXT NOT NULL,
-        produitId TEXT NOT NULL,
-        quantite INTEGER NOT NULL,
-        prixUnitaire REAL NOT NULL,
-        remise REAL DEFAULT 0,
-        montantHT REAL NOT NULL,
-        montantTTC REAL NOT NULL,
-        FOREIGN KEY (commandeId) REFERENCES commandes_fournisseur (id),
-        FOREIGN KEY (produitId) REFERENCES produits (id)
-      );
+    CREATE TABLE IF NOT EXISTS commandes_fournisseur (
+      id TEXT PRIMARY KEY,
+      numero TEXT UNIQUE NOT NULL,
+      date TEXT NOT NULL,
+      dateReception TEXT NOT NULL,
+      fournisseurId TEXT NOT NULL,
+      totalHT REAL NOT NULL,
+      totalFodec REAL DEFAULT 0,
+      totalTVA REAL NOT NULL,
+      totalTTC REAL NOT NULL,
+      statut TEXT DEFAULT 'brouillon',
+      notes TEXT DEFAULT '',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (fournisseurId) REFERENCES fournisseurs (id)
+    );
 
-      CREATE TABLE IF NOT EXISTS payments (
-        id TEXT PRIMARY KEY,
-        factureId TEXT NOT NULL,
-        factureNumero TEXT NOT NULL,
-        clientId TEXT NOT NULL,
-        clientNom TEXT NOT NULL,
-        montant REAL NOT NULL,
-        montantFacture REAL NOT NULL,
-        date TEXT NOT NULL,
-        methode TEXT NOT NULL,
-        reference TEXT DEFAULT '',
-        notes TEXT DEFAULT '',
-        statut TEXT DEFAULT 'valide',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (factureId) REFERENCES factures (id),
-        FOREIGN KEY (clientId) REFERENCES clients (id)
-      );
+    CREATE TABLE IF NOT EXISTS lignes_commande_fournisseur (
+      id TEXT PRIMARY KEY,
+      commandeId TEXT NOT NULL,
+      produitId TEXT NOT NULL,
+      quantite INTEGER NOT NULL,
+      prixUnitaire REAL NOT NULL,
+      remise REAL DEFAULT 0,
+      montantHT REAL NOT NULL,
+      montantTTC REAL NOT NULL,
+      FOREIGN KEY (commandeId) REFERENCES commandes_fournisseur (id),
+      FOREIGN KEY (produitId) REFERENCES produits (id)
+    );
 
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL
-      );
+    CREATE TABLE IF NOT EXISTS bons_reception (
+      id TEXT PRIMARY KEY,
+      numero TEXT UNIQUE NOT NULL,
+      date TEXT NOT NULL,
+      commandeId TEXT NOT NULL,
+      fournisseurId TEXT NOT NULL,
+      cloture BOOLEAN DEFAULT 0,
+      ecart BOOLEAN DEFAULT 0,
+      notes TEXT DEFAULT '',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (commandeId) REFERENCES commandes_fournisseur (id),
+      FOREIGN KEY (fournisseurId) REFERENCES fournisseurs (id)
+    );
 
-      CREATE TABLE IF NOT EXISTS taxes (
-        id TEXT PRIMARY KEY,
-        nom TEXT NOT NULL,
-        type TEXT NOT NULL,
-        valeur REAL NOT NULL,
-        calculationBase TEXT NOT NULL,
-        applicableDocuments TEXT NOT NULL,
-        ordre INTEGER NOT NULL,
-        actif BOOLEAN DEFAULT 1
-      );
-      
-      CREATE TABLE IF NOT EXISTS stock_movements (
-        id TEXT PRIMARY KEY,
-        produitId TEXT NOT NULL,
-        produitNom TEXT NOT NULL,
-        produitRef TEXT,
-        type TEXT NOT NULL,
-        quantite INTEGER NOT NULL,
-        date TEXT NOT NULL,
-        source TEXT NOT NULL,
-        sourceId TEXT,
-        sourceNumero TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (produitId) REFERENCES produits (id)
-      );
+    CREATE TABLE IF NOT EXISTS lignes_bon_reception (
+      id TEXT PRIMARY KEY,
+      bonReceptionId TEXT NOT NULL,
+      ligneCommandeId TEXT NOT NULL,
+      produitId TEXT NOT NULL,
+      quantiteCommandee REAL NOT NULL,
+      quantiteRecue REAL NOT NULL,
+      ecart REAL DEFAULT 0,
+      FOREIGN KEY (bonReceptionId) REFERENCES bons_reception (id),
+      FOREIGN KEY (produitId) REFERENCES produits (id)
+    );
 
-      CREATE TABLE IF NOT EXISTS tax_groups (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL,
-        value REAL NOT NULL,
-        calculationBase TEXT NOT NULL,
-        order_index INTEGER NOT NULL,
-        isAutoCreated BOOLEAN DEFAULT 0,
-        isActive BOOLEAN DEFAULT 1
-      );
-    `;
+    CREATE TABLE IF NOT EXISTS factures_fournisseur (
+      id TEXT PRIMARY KEY,
+      numero TEXT NOT NULL,
+      date TEXT NOT NULL,
+      dateEcheance TEXT NOT NULL,
+      fournisseurId TEXT NOT NULL,
+      totalHT REAL NOT NULL,
+      totalFodec REAL DEFAULT 0,
+      totalTVA REAL NOT NULL,
+      timbre REAL DEFAULT 0,
+      totalTTC REAL NOT NULL,
+      statut TEXT DEFAULT 'a_payer',
+      notes TEXT DEFAULT '',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (fournisseurId) REFERENCES fournisseurs (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS lignes_facture_fournisseur (
+      id TEXT PRIMARY KEY,
+      factureFournisseurId TEXT NOT NULL,
+      commandeId TEXT,
+      produitId TEXT NOT NULL,
+      quantite REAL NOT NULL,
+      prixUnitaire REAL NOT NULL,
+      remise REAL DEFAULT 0,
+      montantHT REAL NOT NULL,
+      montantFodec REAL DEFAULT 0,
+      baseTVA REAL DEFAULT 0,
+      montantTVA REAL DEFAULT 0,
+      montantTTC REAL NOT NULL,
+      FOREIGN KEY (factureFournisseurId) REFERENCES factures_fournisseur (id),
+      FOREIGN KEY (produitId) REFERENCES produits (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS paiements_fournisseur (
+      id TEXT PRIMARY KEY,
+      factureFournisseurId TEXT NOT NULL,
+      factureNumero TEXT NOT NULL,
+      fournisseurId TEXT NOT NULL,
+      fournisseurNom TEXT NOT NULL,
+      montant REAL NOT NULL,
+      montantFacture REAL NOT NULL,
+      date TEXT NOT NULL,
+      methode TEXT NOT NULL,
+      reference TEXT DEFAULT '',
+      notes TEXT DEFAULT '',
+      statut TEXT DEFAULT 'valide',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (factureFournisseurId) REFERENCES factures_fournisseur (id),
+      FOREIGN KEY (fournisseurId) REFERENCES fournisseurs (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS payments (
+      id TEXT PRIMARY KEY,
+      factureId TEXT NOT NULL,
+      factureNumero TEXT NOT NULL,
+      clientId TEXT NOT NULL,
+      clientNom TEXT NOT NULL,
+      montant REAL NOT NULL,
+      montantFacture REAL NOT NULL,
+      tauxRetenue REAL DEFAULT 0,
+      montantRetenue REAL DEFAULT 0,
+      date TEXT NOT NULL,
+      methode TEXT NOT NULL,
+      reference TEXT DEFAULT '',
+      notes TEXT DEFAULT '',
+      statut TEXT DEFAULT 'valide',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (factureId) REFERENCES factures (id),
+      FOREIGN KEY (clientId) REFERENCES clients (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS avoirs (
+      id TEXT PRIMARY KEY,
+      numero TEXT UNIQUE NOT NULL,
+      date TEXT NOT NULL,
+      factureId TEXT NOT NULL,
+      clientId TEXT NOT NULL,
+      totalHT REAL NOT NULL,
+      totalFodec REAL DEFAULT 0,
+      totalTVA REAL NOT NULL,
+      totalTTC REAL NOT NULL,
+      motif TEXT DEFAULT '',
+      restockage BOOLEAN DEFAULT 1,
+      statut TEXT DEFAULT 'valide',
+      notes TEXT DEFAULT '',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (factureId) REFERENCES factures (id),
+      FOREIGN KEY (clientId) REFERENCES clients (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS lignes_avoir (
+      id TEXT PRIMARY KEY,
+      avoirId TEXT NOT NULL,
+      ligneFactureId TEXT,
+      produitId TEXT NOT NULL,
+      quantite INTEGER NOT NULL,
+      prixUnitaire REAL NOT NULL,
+      remise REAL DEFAULT 0,
+      montantHT REAL NOT NULL,
+      montantFodec REAL DEFAULT 0,
+      baseTVA REAL DEFAULT 0,
+      montantTVA REAL DEFAULT 0,
+      montantTTC REAL NOT NULL,
+      FOREIGN KEY (avoirId) REFERENCES avoirs (id),
+      FOREIGN KEY (produitId) REFERENCES produits (id)
+    );
 
-    // Execute table creation
-    db.exec(createTablesSQL);
-    log.info('Database tables created successfully');
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
 
-    // Check and add missing columns
-    addMissingColumns();
+    CREATE TABLE IF NOT EXISTS taxes (
+      id TEXT PRIMARY KEY,
+      nom TEXT NOT NULL,
+      type TEXT NOT NULL,
+      valeur REAL NOT NULL,
+      calculationBase TEXT NOT NULL,
+      applicableDocuments TEXT NOT NULL,
+      ordre INTEGER NOT NULL,
+      actif BOOLEAN DEFAULT 1
+    );
     
-  } catch (error) {
-    log.error('Error updating database schema:', error);
-    throw error;
+    CREATE TABLE IF NOT EXISTS stock_movements (
+      id TEXT PRIMARY KEY,
+      produitId TEXT NOT NULL,
+      produitNom TEXT NOT NULL,
+      produitRef TEXT,
+      type TEXT NOT NULL,
+      quantite INTEGER NOT NULL,
+      date TEXT NOT NULL,
+      source TEXT NOT NULL,
+      sourceId TEXT,
+      sourceNumero TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (produitId) REFERENCES produits (id)
+    );
+
+    CREATE TABLE IF NOT EXISTS tax_groups (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL,
+      value REAL NOT NULL,
+      calculationBase TEXT NOT NULL,
+      order_index INTEGER NOT NULL,
+      isAutoCreated BOOLEAN DEFAULT 0,
+      isActive BOOLEAN DEFAULT 1
+    );
+  `;
+
+  // Execute table creation
+  db.exec(createTablesSQL);
+  log.info('Database tables created successfully');
+}
+
+// Ordered schema migrations. Each one runs once per database in its own transaction and is
+// recorded in schema_version; released migrations must never change, add a new one instead.
+// Databases created before versioning start at version 0, so the first migrations are idempotent.
+const migrations = [
+  { version: 1, name: 'Schéma initial', up: createInitialSchema },
+  { version: 2, name: 'Colonnes ajoutées avant le versionnement', up: addMissingColumns },
+  // Move credit notes stored as "AV-" factures into the avoirs table
+  { version: 3, name: 'Avoirs enregistrés comme factures', up: migrateLegacyAvoirs },
+  // Delivery notes linked to a facture by older versions are fully invoiced
+  { version: 4, name: 'Facturation des bons de livraison', up: migrateLegacyBlFacturation },
+  { version: 5, name: 'Taux de taxes figés sur les lignes', up: freezeLineTaxRates },
+  { version: 6, name: 'Compteurs de numérotation par exercice', up: createNumberingCounters },
+  { version: 7, name: 'Journal d\'audit', up: createAuditLog },
+  { version: 8, name: 'Comptes utilisateurs', up: createUserAccounts },
+  { version: 9, name: 'Devises et taux de change', up: createDocumentCurrencies },
+  { version: 10, name: 'Remises globales et frais des documents', up: addDocumentAdjustments },
+  { version: 11, name: 'Listes de prix', up: createPriceLists },
+  { version: 12, name: 'Verrouillage des factures validées', up: lockValidatedInvoices },
+  { version: 13, name: 'Remises, frais et charges des avoirs', up: addAvoirAdjustments },
+  { version: 14, name: 'Prix saisis manuellement', up: addPrixManuel },
+  { version: 15, name: 'Remises et frais des factures fournisseur', up: addFactureFournisseurAdjustments }
+];
+
+const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+// Version of an open database, 0 when it predates versioning
+function getSchemaVersion(database) {
+  const table = database.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'").get();
+  if (!table) {
+    return 0;
+  }
+  return database.prepare('SELECT MAX(version) as version FROM schema_version').get().version || 0;
+}
+
+// Copy the database before migrating it, so a failed or unwanted upgrade can be rolled back
+function backupBeforeMigration(fromVersion) {
+  const backupDir = path.join(app.getPath('userData'), 'backups');
+  if (!fs.existsSync(backupDir)) {
+    fs.mkdirSync(backupDir, { recursive: true });
+  }
+
+  const backupPath = path.join(
+    backupDir,
+    `facturation_before_migration_v${fromVersion}_to_v${LATEST_SCHEMA_VERSION}_${format(new Date(), 'yyyyMMdd_HHmmss')}.db`
+  );
+  db.prepare('VACUUM INTO ?').run(backupPath);
+  log.info('Database backed up before migration:', backupPath);
+  return backupPath;
+}
+
+// Bring the open database up to the latest schema version
+function runMigrations() {
+  const currentVersion = getSchemaVersion(db);
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(`La base de données (version ${currentVersion}) a été créée par une version plus récente de l'application`);
+  }
+
+  const pending = migrations.filter(migration => migration.version > currentVersion);
+  if (pending.length === 0) {
+    return;
   }
+
+  // A brand-new database has nothing worth backing up
+  const hasTables = db.prepare("SELECT COUNT(*) as count FROM sqlite_master WHERE type = 'table' AND name = 'clients'").get().count > 0;
+  if (hasTables) {
+    backupBeforeMigration(currentVersion);
+  }
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const recordVersion = db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)');
+  for (const migration of pending) {
+    log.info(`Applying migration ${migration.version}: ${migration.name}`);
+    db.transaction(() => {
+      migration.up();
+      recordVersion.run(migration.version, migration.name);
+    })();
+  }
+
+  log.info(`Database schema migrated from version ${currentVersion} to ${LATEST_SCHEMA_VERSION}`);
 }
 
 function addMissingColumns() {
-  try {
-    // First, ensure settings table exists
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL
-      );
-    `);
-    
-    // Helper function to safely add column if it doesn't exist
-    const addColumnIfNotExists = (tableName, columnName, columnDefinition) => {
-      try {
-        const tableInfo = db.prepare(`PRAGMA table_info(${tableName})`).all();
-        const hasColumn = tableInfo.some(col => col.name === columnName);
-        
-        if (!hasColumn) {
-          log.info(`Adding '${columnName}' column to ${tableName} table`);
-          db.exec(`ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${columnDefinition}`);
-        }
-      } catch (error) {
-        log.error(`Error adding column ${columnName} to ${tableName}:`, error);
-      }
-    };
-    
-    // Add missing columns to clients table
-    addColumnIfNotExists('clients', 'code', 'TEXT');
-    addColumnIfNotExists('clients', 'matriculeFiscal', 'TEXT DEFAULT ""');
+  // First, ensure settings table exists
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `);
+  
+  // Helper function to add a column if it doesn't exist
+  const addColumnIfNotExists = (tableName, columnName, columnDefinition) => {
+    const tableInfo = db.prepare(`PRAGMA table_info(${tableName})`).all();
+    const hasColumn = tableInfo.some(col => col.name === columnName);
     
-    // Update existing clients with generated codes if needed
-    try {
-      const clientsWithoutCode = db.prepare("SELECT id FROM clients WHERE code IS NULL OR code = ''").all();
-      if (clientsWithoutCode.length > 0) {
-        const updateClient = db.prepare("UPDATE clients SET code = ? WHERE id = ?");
-        clientsWithoutCode.forEach((client, index) => {
-          const code = `CL${String(index + 1).padStart(4, '0')}`;
-          updateClient.run(code, client.id);
-        });
-        
-        // Create unique index if it doesn't exist
-        db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_clients_code ON clients(code)`);
-      }
-    } catch (error) {
-      log.error('Error updating client codes:', error);
+    if (!hasColumn) {
+      log.info(`Adding '${columnName}' column to ${tableName} table`);
+      db.exec(`ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${columnDefinition}`);
+      return true;
     }
+    return false;
+  };
+  
+  // Add missing columns to clients table
+  addColumnIfNotExists('clients', 'code', 'TEXT');
+  addColumnIfNotExists('clients', 'matriculeFiscal', 'TEXT DEFAULT ""');
+  
+  // Update existing clients with generated codes if needed
+  const clientsWithoutCode = db.prepare("SELECT id FROM clients WHERE code IS NULL OR code = ''").all();
+  if (clientsWithoutCode.length > 0) {
+    const updateClient = db.prepare("UPDATE clients SET code = ? WHERE id = ?");
+    clientsWithoutCode.forEach((client, index) => {
+      const code = `CL${String(index + 1).padStart(4, '0')}`;
+      updateClient.run(code, client.id);
+    });
     
-    // Add missing columns to fournisseurs table
-    addColumnIfNotExists('fournisseurs', 'matriculeFiscal', 'TEXT DEFAULT ""');
-    
-    // Add missing columns to produits table
-    addColumnIfNotExists('produits', 'ref', 'TEXT');
-    addColumnIfNotExists('produits', 'type', 'TEXT DEFAULT "vente"');
-    addColumnIfNotExists('produits', 'fodecApplicable', 'BOOLEAN DEFAULT 0');
-    addColumnIfNotExists('produits', 'tauxFodec', 'REAL DEFAULT 1');
-    
-    // Add missing columns to factures table
-    addColumnIfNotExists('factures', 'totalFodec', 'REAL DEFAULT 0');
-    
-    // Add missing columns to devis table
-    addColumnIfNotExists('devis', 'totalFodec', 'REAL DEFAULT 0');
-    
-    // Add missing columns to commandes_fournisseur table
-    addColumnIfNotExists('commandes_fournisseur', 'totalFodec', 'REAL DEFAULT 0');
-    
-    // Add missing columns to lignes_facture table
-    addColumnIfNotExists('lignes_facture', 'montantFodec', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_facture', 'baseTVA', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_facture', 'montantTVA', 'REAL DEFAULT 0');
-    
-    // Add missing columns to lignes_devis table
-    addColumnIfNotExists('lignes_devis', 'montantFodec', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_devis', 'baseTVA', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_devis', 'montantTVA', 'REAL DEFAULT 0');
-    
-    // Add missing columns to lignes_bon_livraison table
-    addColumnIfNotExists('lignes_bon_livraison', 'prixUnitaire', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_bon_livraison', 'remise', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_bon_livraison', 'montantHT', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_bon_livraison', 'montantFodec', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_bon_livraison', 'baseTVA', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_bon_livraison', 'montantTVA', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_bon_livraison', 'montantTTC', 'REAL DEFAULT 0');
-    
-    // Add missing columns to lignes_commande_fournisseur table
-    addColumnIfNotExists('lignes_commande_fournisseur', 'montantFodec', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_commande_fournisseur', 'baseTVA', 'REAL DEFAULT 0');
-    addColumnIfNotExists('lignes_commande_fournisseur', 'montantTVA', 'REAL DEFAULT 0');
-    
-    // Add missing columns to bons_livraison table
-    addColumnIfNotExists('bons_livraison', 'totalHT', 'REAL DEFAULT 0');
-    addColumnIfNotExists('bons_livraison', 'totalFodec', 'REAL DEFAULT 0');
-    addColumnIfNotExists('bons_livraison', 'totalTVA', 'REAL DEFAULT 0');
-    addColumnIfNotExists('bons_livraison', 'totalTTC', 'REAL DEFAULT 0');
-    
-    // Add missing columns to tax_groups table
-    addColumnIfNotExists('tax_groups', 'applicableDocuments', 'TEXT DEFAULT "[]"');
-    
-    // Update existing tax groups with default applicable documents
-    try {
-      db.exec(`
-        UPDATE tax_groups 
-        SET applicableDocuments = '["factures","devis","bonsLivraison","commandesFournisseur"]' 
-        WHERE applicableDocuments = '[]' OR applicableDocuments IS NULL
-      `);
-    } catch (error) {
-      log.error('Error updating tax groups:', error);
+    // Create unique index if it doesn't exist
+    db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_clients_code ON clients(code)`);
+  }
+  
+  // Add missing columns to fournisseurs table
+  addColumnIfNotExists('fournisseurs', 'matriculeFiscal', 'TEXT DEFAULT ""');
+  
+  // Add missing columns to produits table
+  addColumnIfNotExists('produits', 'ref', 'TEXT');
+  addColumnIfNotExists('produits', 'type', 'TEXT DEFAULT "vente"');
+  addColumnIfNotExists('produits', 'fodecApplicable', 'BOOLEAN DEFAULT 0');
+  addColumnIfNotExists('produits', 'tauxFodec', 'REAL DEFAULT 1');
+  
+  // Add missing columns to factures table
+  addColumnIfNotExists('factures', 'totalFodec', 'REAL DEFAULT 0');
+  // Invoices saved before the charges were stored keep their totals and no charges
+  addColumnIfNotExists('factures', 'totalCharges', 'REAL DEFAULT 0');
+  addColumnIfNotExists('factures', 'charges', "TEXT DEFAULT '[]'");
+  
+  // Add missing columns to devis table
+  addColumnIfNotExists('devis', 'totalFodec', 'REAL DEFAULT 0');
+  
+  // Add missing columns to commandes_fournisseur table
+  addColumnIfNotExists('commandes_fournisseur', 'totalFodec', 'REAL DEFAULT 0');
+  addColumnIfNotExists('commandes_fournisseur', 'factureFournisseurId', 'TEXT');
+  
+  // Add missing columns to lignes_facture table
+  addColumnIfNotExists('lignes_facture', 'montantFodec', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_facture', 'baseTVA', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_facture', 'montantTVA', 'REAL DEFAULT 0');
+  
+  // Add missing columns to lignes_devis table
+  addColumnIfNotExists('lignes_devis', 'montantFodec', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_devis', 'baseTVA', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_devis', 'montantTVA', 'REAL DEFAULT 0');
+  
+  // Add missing columns to lignes_bon_livraison table
+  addColumnIfNotExists('lignes_bon_livraison', 'prixUnitaire', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_bon_livraison', 'remise', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_bon_livraison', 'montantHT', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_bon_livraison', 'montantFodec', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_bon_livraison', 'baseTVA', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_bon_livraison', 'montantTVA', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_bon_livraison', 'montantTTC', 'REAL DEFAULT 0');
+  
+  // Add missing columns to lignes_commande_fournisseur table
+  addColumnIfNotExists('lignes_commande_fournisseur', 'montantFodec', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_commande_fournisseur', 'baseTVA', 'REAL DEFAULT 0');
+  addColumnIfNotExists('lignes_commande_fournisseur', 'montantTVA', 'REAL DEFAULT 0');
+  
+  // Add missing columns to bons_livraison table
+  addColumnIfNotExists('bons_livraison', 'totalHT', 'REAL DEFAULT 0');
+  addColumnIfNotExists('bons_livraison', 'totalFodec', 'REAL DEFAULT 0');
+  addColumnIfNotExists('bons_livraison', 'totalTVA', 'REAL DEFAULT 0');
+  addColumnIfNotExists('bons_livraison', 'totalTTC', 'REAL DEFAULT 0');
+  
+  // Link delivery notes and invoices to the devis they come from
+  addColumnIfNotExists('bons_livraison', 'devisId', 'TEXT');
+  addColumnIfNotExists('factures', 'devisId', 'TEXT');
+  if (addColumnIfNotExists('lignes_bon_livraison', 'ligneDevisId', 'TEXT')) {
+    linkLegacyDevisConversions();
+  }
+  
+  // Add missing columns to payments table
+  addColumnIfNotExists('payments', 'tauxRetenue', 'REAL DEFAULT 0');
+  addColumnIfNotExists('payments', 'montantRetenue', 'REAL DEFAULT 0');
+  
+  // Add missing columns to tax_groups table
+  addColumnIfNotExists('tax_groups', 'applicableDocuments', 'TEXT DEFAULT "[]"');
+  
+  // Update existing tax groups with default applicable documents
+  db.exec(`
+    UPDATE tax_groups 
+    SET applicableDocuments = '["factures","devis","bonsLivraison","commandesFournisseur"]' 
+    WHERE applicableDocuments = '[]' OR applicableDocuments IS NULL
+  `);
+  
+  log.info('Missing columns added successfully');
+}
+
+// Older devis conversions copied the devis line ids onto the new document lines
+function linkLegacyDevisConversions() {
+  db.exec(`
+    UPDATE lignes_bon_livraison SET ligneDevisId = id
+    WHERE id IN (SELECT id FROM lignes_devis);
+
+    UPDATE bons_livraison SET devisId = (
+      SELECT ld.devisId FROM lignes_bon_livraison lbl
+      JOIN lignes_devis ld ON ld.id = lbl.ligneDevisId
+      WHERE lbl.bonLivraisonId = bons_livraison.id
+      LIMIT 1
+    )
+    WHERE devisId IS NULL;
+
+    UPDATE factures SET devisId = (
+      SELECT ld.devisId FROM lignes_facture lf
+      JOIN lignes_devis ld ON ld.id = lf.id
+      WHERE lf.factureId = factures.id
+      LIMIT 1
+    )
+    WHERE devisId IS NULL;
+
+    UPDATE devis SET statut = 'livre'
+    WHERE statut = 'accepte' AND id IN (SELECT devisId FROM bons_livraison);
+  `);
+  log.info('Linked existing delivery notes and invoices to their devis');
+}
+
+function migrateLegacyBlFacturation() {
+  const result = db.prepare(`
+    INSERT INTO lignes_livraison_facturees (id, bonLivraisonId, ligneBonLivraisonId, factureId, quantite)
+    SELECT lower(hex(randomblob(16))), bl.id, lbl.id, bl.factureId, lbl.quantite
+    FROM bons_livraison bl
+    JOIN lignes_bon_livraison lbl ON lbl.bonLivraisonId = bl.id
+    JOIN factures f ON f.id = bl.factureId
+    WHERE NOT EXISTS (SELECT 1 FROM lignes_livraison_facturees llf WHERE llf.bonLivraisonId = bl.id)
+  `).run();
+  if (result.changes > 0) {
+    log.info(`Recorded ${result.changes} invoiced delivery line(s) from legacy factureId links`);
+  }
+}
+
+function migrateLegacyAvoirs() {
+  // Older versions stored credit notes as factures with an "AV-" numero and negative lines
+  const legacyAvoirs = db.prepare("SELECT * FROM factures WHERE numero LIKE 'AV-%'").all();
+  if (legacyAvoirs.length === 0) {
+    return;
+  }
+
+  log.info(`Migrating ${legacyAvoirs.length} legacy avoir(s) to the avoirs table`);
+
+  const findOriginal = db.prepare('SELECT id FROM factures WHERE numero = ?');
+  const selectLignes = db.prepare('SELECT * FROM lignes_facture WHERE factureId = ?');
+  const insertAvoir = db.prepare(`
+    INSERT INTO avoirs
+    (id, numero, date, factureId, clientId, totalHT, totalFodec, totalTVA, totalTTC, motif, restockage, statut, notes)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertLigne = db.prepare(`
+    INSERT INTO lignes_avoir
+    (id, avoirId, ligneFactureId, produitId, quantite, prixUnitaire, remise, montantHT, montantFodec, baseTVA, montantTVA, montantTTC)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  for (const legacy of legacyAvoirs) {
+    const match = (legacy.notes || '').match(/Avoir pour la facture ([A-Z0-9-]+)/);
+    const original = match ? findOriginal.get(match[1]) : null;
+
+    if (!original) {
+      log.warn(`Legacy avoir ${legacy.numero} has no identifiable original invoice, skipping`);
+      continue;
     }
-    
-    log.info('Missing columns added successfully');
-    
-  } catch (error) {
-    log.error('Error adding missing columns:', error);
+
+    insertAvoir.run(
+      legacy.id,
+      legacy.numero,
+      legacy.date,
+      original.id,
+      legacy.clientId,
+      Math.abs(legacy.totalHT),
+      Math.abs(legacy.totalFodec || 0),
+      Math.abs(legacy.totalTVA),
+      Math.abs(legacy.totalTTC),
+      '',
+      0, // Legacy avoirs never moved stock
+      'valide',
+      legacy.notes || ''
+    );
+
+    for (const ligne of selectLignes.all(legacy.id)) {
+      insertLigne.run(
+        ligne.id,
+        legacy.id,
+        null,
+        ligne.produitId,
+        Math.abs(ligne.quantite),
+        ligne.prixUnitaire,
+        ligne.remise || 0,
+        Math.abs(ligne.montantHT),
+        Math.abs(ligne.montantFodec || 0),
+        Math.abs(ligne.baseTVA || 0),
+        Math.abs(ligne.montantTVA || 0),
+        Math.abs(ligne.montantTTC)
+      );
+    }
+
+    db.prepare('DELETE FROM payments WHERE factureId = ?').run(legacy.id);
+    db.prepare('DELETE FROM lignes_facture WHERE factureId = ?').run(legacy.id);
+    db.prepare('DELETE FROM factures WHERE id = ?').run(legacy.id);
+  }
+  log.info('Legacy avoirs migrated successfully');
+}
+
+// Document lines keep the TVA and FODEC rates they were computed with, so later product
+// rate changes don't alter saved documents. Existing lines get the current product rates,
+// and lines saved before the tax amounts were stored get them computed from those rates.
+function freezeLineTaxRates() {
+  const tables = [
+    'lignes_facture',
+    'lignes_devis',
+    'lignes_bon_livraison',
+    'lignes_commande_fournisseur',
+    'lignes_avoir',
+    'lignes_facture_fournisseur'
+  ];
+
+  for (const table of tables) {
+    db.exec(`
+      ALTER TABLE ${table} ADD COLUMN tauxTVA REAL DEFAULT 0;
+      ALTER TABLE ${table} ADD COLUMN tauxFodec REAL DEFAULT 0;
+
+      UPDATE ${table} SET
+        tauxTVA = COALESCE((SELECT p.tva FROM produits p WHERE p.id = ${table}.produitId), 0),
+        tauxFodec = COALESCE((
+          SELECT CASE WHEN p.fodecApplicable THEN p.tauxFodec ELSE 0 END
+          FROM produits p WHERE p.id = ${table}.produitId
+        ), 0);
+
+      UPDATE ${table} SET
+        montantFodec = montantHT * tauxFodec / 100,
+        baseTVA = montantHT * (1 + tauxFodec / 100),
+        montantTVA = montantHT * (1 + tauxFodec / 100) * tauxTVA / 100
+      WHERE COALESCE(baseTVA, 0) = 0 AND COALESCE(montantTVA, 0) = 0 AND montantHT != 0;
+    `);
+  }
+  log.info('Froze the tax rates of existing document lines');
+}
+
+// Sequences move from the numbering setting to one counter row per document type and year,
+// and numbers of deleted documents are kept so the gaps they leave can be justified
+function createNumberingCounters() {
+  db.exec(`
+    CREATE TABLE numbering_counters (
+      documentType TEXT NOT NULL,
+      annee INTEGER NOT NULL, -- 0 for sequences that never restart
+      nextNumber INTEGER NOT NULL,
+      PRIMARY KEY (documentType, annee)
+    );
+
+    CREATE TABLE numeros_annules (
+      id TEXT PRIMARY KEY,
+      documentType TEXT NOT NULL,
+      numero TEXT NOT NULL,
+      documentId TEXT,
+      motif TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const result = db.prepare('SELECT value FROM settings WHERE key = ?').get('numbering');
+  if (!result) {
+    return;
+  }
+
+  // Former settings held the current number and whether the year is part of the number
+  const legacySettings = JSON.parse(result.value);
+  const settings = {};
+  const insertCounter = db.prepare('INSERT INTO numbering_counters (documentType, annee, nextNumber) VALUES (?, ?, ?)');
+  for (const [documentType, legacy] of Object.entries({ ...defaultNumberingSettings, ...legacySettings })) {
+    const pattern = legacy.pattern || (legacy.includeYear === false ? '{PREFIX}-{SEQ:3}' : '{PREFIX}-{YYYY}-{SEQ:3}');
+    settings[documentType] = { prefix: legacy.prefix, startNumber: legacy.startNumber || 1, pattern };
+    if (legacy.currentNumber) {
+      insertCounter.run(documentType, getNumberingYear(pattern, new Date()), legacy.currentNumber);
+    }
+  }
+  db.prepare('UPDATE settings SET value = ? WHERE key = ?').run(JSON.stringify(settings), 'numbering');
+}
+
+function createAuditLog() {
+  db.exec(`
+    CREATE TABLE audit_log (
+      id TEXT PRIMARY KEY,
+      entityType TEXT NOT NULL,
+      entityId TEXT NOT NULL,
+      action TEXT NOT NULL,
+      utilisateur TEXT,
+      avant TEXT, -- JSON state before the change, NULL on creation
+      apres TEXT, -- JSON state after the change, NULL on deletion
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX idx_audit_log_entity ON audit_log (entityType, entityId);
+  `);
+}
+
+// Accounts replace the single application password, and the records users create
+// keep the account that created them
+function createUserAccounts() {
+  db.exec(`
+    CREATE TABLE utilisateurs (
+      id TEXT PRIMARY KEY,
+      login TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      nom TEXT NOT NULL,
+      role TEXT NOT NULL,
+      passwordHash TEXT NOT NULL,
+      salt TEXT NOT NULL,
+      actif BOOLEAN DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const stampedTables = [
+    'factures', 'devis', 'bons_livraison', 'commandes_fournisseur', 'bons_reception', 'avoirs',
+    'factures_fournisseur', 'payments', 'paiements_fournisseur', 'stock_movements'
+  ];
+  for (const table of stampedTables) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN utilisateur TEXT`);
+  }
+
+  // The former application password becomes the one of an administrator account
+  const result = db.prepare('SELECT value FROM settings WHERE key = ?').get('appPassword');
+  if (result) {
+    insertUser({ id: crypto.randomUUID(), login: 'admin', nom: 'Administrateur', role: 'admin', actif: true }, result.value);
+    db.prepare('DELETE FROM settings WHERE key = ?').run('appPassword');
+  }
+}
+
+// Factures, devis and supplier orders are issued in a currency, with the rate that converts
+// their amounts to dinars. Existing documents are in dinars.
+function createDocumentCurrencies() {
+  for (const table of ['factures', 'devis', 'commandes_fournisseur']) {
+    db.exec(`
+      ALTER TABLE ${table} ADD COLUMN devise TEXT DEFAULT 'TND';
+      ALTER TABLE ${table} ADD COLUMN tauxChange REAL DEFAULT 1;
+    `);
+  }
+
+  // Dinars for one unit of the currency, from the given date
+  db.exec(`
+    CREATE TABLE taux_change (
+      id TEXT PRIMARY KEY,
+      devise TEXT NOT NULL,
+      date TEXT NOT NULL,
+      taux REAL NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (devise, date)
+    );
+  `);
+}
+
+// Factures, devis and supplier orders can carry a global discount and fees. The frais and the
+// share of both per tax rate are stored as JSON, like the document charges.
+function addDocumentAdjustments() {
+  for (const table of ['factures', 'devis', 'commandes_fournisseur']) {
+    db.exec(`
+      ALTER TABLE ${table} ADD COLUMN remiseType TEXT;
+      ALTER TABLE ${table} ADD COLUMN remiseValeur REAL DEFAULT 0;
+      ALTER TABLE ${table} ADD COLUMN montantRemise REAL DEFAULT 0;
+      ALTER TABLE ${table} ADD COLUMN frais TEXT DEFAULT '[]';
+      ALTER TABLE ${table} ADD COLUMN totalFrais REAL DEFAULT 0;
+      ALTER TABLE ${table} ADD COLUMN ajustements TEXT DEFAULT '[]';
+    `);
   }
 }
 
+// Named price lists with per-product prices by minimum quantity; each client can have a default list
+function createPriceLists() {
+  db.exec(`
+    CREATE TABLE listes_prix (
+      id TEXT PRIMARY KEY,
+      nom TEXT NOT NULL UNIQUE,
+      description TEXT,
+      pourcentage REAL DEFAULT 0,
+      dateDebut TEXT,
+      dateFin TEXT,
+      actif INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE prix_liste (
+      id TEXT PRIMARY KEY,
+      listeId TEXT NOT NULL REFERENCES listes_prix(id) ON DELETE CASCADE,
+      produitId TEXT NOT NULL REFERENCES produits(id) ON DELETE CASCADE,
+      quantiteMin REAL NOT NULL DEFAULT 1,
+      type TEXT NOT NULL CHECK (type IN ('prix', 'pourcentage')),
+      valeur REAL NOT NULL,
+      UNIQUE (listeId, produitId, quantiteMin)
+    );
+
+    ALTER TABLE clients ADD COLUMN listePrixId TEXT REFERENCES listes_prix(id) ON DELETE SET NULL;
+  `);
+}
+
+// Credit notes carry their share of the invoice's global discount, fees and charges
+function addAvoirAdjustments() {
+  db.exec(`
+    ALTER TABLE avoirs ADD COLUMN montantRemise REAL DEFAULT 0;
+    ALTER TABLE avoirs ADD COLUMN frais TEXT DEFAULT '[]';
+    ALTER TABLE avoirs ADD COLUMN totalFrais REAL DEFAULT 0;
+    ALTER TABLE avoirs ADD COLUMN ajustements TEXT DEFAULT '[]';
+    ALTER TABLE avoirs ADD COLUMN totalCharges REAL DEFAULT 0;
+    ALTER TABLE avoirs ADD COLUMN charges TEXT DEFAULT '[]';
+  `);
+}
+
+// Lines whose unit price was typed by hand keep it when the quantity, client or date changes.
+// Of the lines saved before, only those whose price differs from the catalogue price converted to
+// the document currency (3 decimals for the dinar, 2 for the others) were typed by hand or come
+// from a price list, and keep their price.
+function addPrixManuel() {
+  db.exec(`
+    ALTER TABLE lignes_facture ADD COLUMN prixManuel INTEGER DEFAULT 0;
+    ALTER TABLE lignes_devis ADD COLUMN prixManuel INTEGER DEFAULT 0;
+
+    UPDATE lignes_facture SET prixManuel = 1
+    WHERE factureId IN (SELECT id FROM factures WHERE statut = 'brouillon')
+      AND EXISTS (
+        SELECT 1 FROM produits p, factures f
+        WHERE p.id = lignes_facture.produitId AND f.id = lignes_facture.factureId
+          AND ROUND(lignes_facture.prixUnitaire, CASE WHEN COALESCE(f.devise, 'TND') = 'TND' THEN 3 ELSE 2 END)
+            != ROUND(p.prixUnitaire / COALESCE(NULLIF(f.tauxChange, 0), 1), CASE WHEN COALESCE(f.devise, 'TND') = 'TND' THEN 3 ELSE 2 END)
+      );
+
+    UPDATE lignes_devis SET prixManuel = 1
+    WHERE EXISTS (
+      SELECT 1 FROM produits p, devis d
+      WHERE p.id = lignes_devis.produitId AND d.id = lignes_devis.devisId
+        AND ROUND(lignes_devis.prixUnitaire, CASE WHEN COALESCE(d.devise, 'TND') = 'TND' THEN 3 ELSE 2 END)
+          != ROUND(p.prixUnitaire / COALESCE(NULLIF(d.tauxChange, 0), 1), CASE WHEN COALESCE(d.devise, 'TND') = 'TND' THEN 3 ELSE 2 END)
+    );
+  `);
+}
+
+// Share of the invoiced orders' global discounts and fees per rate pair, for the deductible TVA
+function addFactureFournisseurAdjustments() {
+  db.exec(`
+    ALTER TABLE factures_fournisseur ADD COLUMN ajustements TEXT DEFAULT '[]';
+  `);
+}
+
+// Validated invoices only change through their status, whatever writes to the database. The
+// columns listed are the content of the invoice; a status can't go back to draft.
+function lockValidatedInvoices() {
+  db.exec(`
+    CREATE TRIGGER factures_validees_modification
+    BEFORE UPDATE OF numero, date, dateEcheance, clientId, totalHT, totalFodec, totalTVA, totalCharges, charges,
+      totalTTC, notes, devisId, devise, tauxChange, remiseType, remiseValeur, montantRemise, frais, totalFrais, ajustements
+    ON factures
+    WHEN OLD.statut != 'brouillon'
+    BEGIN
+      SELECT RAISE(ABORT, 'Facture validée : elle ne peut plus être modifiée, établissez un avoir');
+    END;
+
+    CREATE TRIGGER factures_validees_statut
+    BEFORE UPDATE OF statut ON factures
+    WHEN OLD.statut != 'brouillon' AND NEW.statut = 'brouillon'
+    BEGIN
+      SELECT RAISE(ABORT, 'Facture validée : elle ne peut pas redevenir un brouillon');
+    END;
+
+    CREATE TRIGGER factures_validees_suppression
+    BEFORE DELETE ON factures
+    WHEN OLD.statut != 'brouillon'
+    BEGIN
+      SELECT RAISE(ABORT, 'Facture validée : elle ne peut pas être supprimée, établissez un avoir');
+    END;
+
+    CREATE TRIGGER lignes_facture_validee_ajout
+    BEFORE INSERT ON lignes_facture
+    WHEN (SELECT statut FROM factures WHERE id = NEW.factureId) != 'brouillon'
+    BEGIN
+      SELECT RAISE(ABORT, 'Facture validée : ses lignes ne peuvent plus être modifiées');
+    END;
+
+    CREATE TRIGGER lignes_facture_validee_modification
+    BEFORE UPDATE ON lignes_facture
+    WHEN (SELECT statut FROM factures WHERE id = OLD.factureId) != 'brouillon'
+      OR (SELECT statut FROM factures WHERE id = NEW.factureId) != 'brouillon'
+    BEGIN
+      SELECT RAISE(ABORT, 'Facture validée : ses lignes ne peuvent plus être modifiées');
+    END;
+
+    CREATE TRIGGER lignes_facture_validee_suppression
+    BEFORE DELETE ON lignes_facture
+    WHEN (SELECT statut FROM factures WHERE id = OLD.factureId) != 'brouillon'
+    BEGIN
+      SELECT RAISE(ABORT, 'Facture validée : ses lignes ne peuvent plus être modifiées');
+    END;
+  `);
+}
+
 function insertSampleData() {
   try {
     const { v4: uuidv4 } = require('uuid');
@@ -551,13 +1174,6 @@ function initializeDefaultSettings() {
     const settingsExist = db.prepare('SELECT COUNT(*) as count FROM settings').get();
     
     if (settingsExist.count === 0) {
-      const defaultNumberingSettings = {
-        factures: { prefix: 'FA', startNumber: 1, currentNumber: 1, includeYear: true },
-        devis: { prefix: 'DV', startNumber: 1, currentNumber: 1, includeYear: true },
-        bonsLivraison: { prefix: 'BL', startNumber: 1, currentNumber: 1, includeYear: true },
-        commandesFournisseur: { prefix: 'CF', startNumber: 1, currentNumber: 1, includeYear: true }
-      };
-
       const defaultCompanyInfo = {
         nom: 'Votre Entreprise',
         adresse: '123 Avenue de la République',
@@ -744,33 +1360,70 @@ autoUpdater.on('update-downloaded', (info) => {
 app.whenReady().then(() => {
   initDatabase();
   createWindow();
+  scheduleAutomaticBackups();
 });
 
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
-    if (db) {
-      try {
-        db.close();
-      } catch (error) {
-        log.error('Error closing database:', error);
-      }
-    }
     app.quit();
   }
 });
 
+// Quitting waits for the backup on quit, the database is closed afterwards
+let quitBackupDone = false;
+app.on('before-quit', (event) => {
+  if (quitBackupDone || !db || !db.open) {
+    return;
+  }
+  quitBackupDone = true;
+
+  const settings = getBackupSettings();
+  if (!settings.enabled || !settings.onQuit) {
+    return;
+  }
+
+  event.preventDefault();
+  createBackup('fermeture')
+    .catch(error => log.error('Backup on quit failed:', error))
+    .finally(() => app.quit());
+});
+
+app.on('will-quit', () => {
+  if (db && db.open) {
+    try {
+      db.close();
+    } catch (error) {
+      log.error('Error closing database:', error);
+    }
+  }
+});
+
 app.on('activate', () => {
   if (BrowserWindow.getAllWindows().length === 0) {
     createWindow();
   }
 });
 
+// Accounts, audit log and numbering are only read through their handlers: password hashes
+// stay in the main process and each handler checks the pages allowed to see the rest
+const handlerOnlyTables = ['utilisateurs', 'audit_log', 'numbering_counters', 'numeros_annules'];
+
 // Enhanced IPC handlers with better error handling
 ipcMain.handle('db-query', async (event, query, params = []) => {
   try {
     if (!db) {
       throw new Error('Database not initialized');
     }
+    // Reads need an open session, and the tables served by their own handlers are never
+    // queried directly. Data is written through the handlers checking the permissions of
+    // each page, raw SQL only reads, except for the settings pages.
+    assertSessionOuverte();
+    if (handlerOnlyTables.some(table => new RegExp(`\\b${table}\\b`, 'i').test(query))) {
+      throw new Error('Accès refusé : ces données ne sont lisibles que par leurs écrans');
+    }
+    if (!db.prepare(query).readonly) {
+      assertPermission('parametres');
+    }
     
     log.info('Executing query:', query, 'with params:', params);
     
@@ -818,41 +1471,452 @@ ipcMain.handle('db-query', async (event, query, params = []) => {
   }
 });
 
-ipcMain.handle('get-factures', async () => {
-  try {
-    if (!db) {
-      throw new Error('Database not initialized');
-    }
-    
-    const factures = db.prepare(`
-      SELECT f.*, c.code as clientCode, c.nom as clientNom, c.adresse, c.codePostal, c.ville, c.telephone, c.email, c.matriculeFiscal
-      FROM factures f
-      JOIN clients c ON f.clientId = c.id
-      ORDER BY f.created_at DESC
-    `).all();
+// Repository layer: entity-level endpoints with prepared statements, so the renderer
+// does not build SQL for these entities and multi-table writes stay in one place
 
-    // For each facture, load its lines
-    for (const facture of factures) {
-      const lignes = db.prepare(`
-        SELECT lf.*, p.ref, p.nom, p.description, p.prixUnitaire, p.tva, p.fodecApplicable, p.tauxFodec, p.stock, p.type
-        FROM lignes_facture lf
-        JOIN produits p ON lf.produitId = p.id
-        WHERE lf.factureId = ?
-      `).all(facture.id);
-      
-      facture.lignes = lignes.map(ligne => ({
-        id: ligne.id,
-        produit: {
-          id: ligne.produitId,
-          ref: ligne.ref,
-          nom: ligne.nom,
-          description: ligne.description,
-          prixUnitaire: ligne.prixUnitaire,
-          tva: ligne.tva,
-          fodecApplicable: Boolean(ligne.fodecApplicable),
-          tauxFodec: ligne.tauxFodec || 1,
-          stock: ligne.stock,
-          type: ligne.type || 'vente'
+const clientColumns = ['id', 'code', 'nom', 'adresse', 'codePostal', 'ville', 'telephone', 'email', 'siret', 'matriculeFiscal', 'listePrixId'];
+
+const toClient = (row) => ({
+  id: row.id,
+  code: row.code,
+  nom: row.nom,
+  adresse: row.adresse || '',
+  codePostal: row.codePostal || '',
+  ville: row.ville || '',
+  telephone: row.telephone || '',
+  email: row.email || '',
+  siret: row.siret || '',
+  matriculeFiscal: row.matriculeFiscal || '',
+  listePrixId: row.listePrixId || null
+});
+
+// User accounts: password hashes never leave the main process, the renderer only
+// receives the session and the pages it may open
+
+const userRoles = ['admin', 'vente', 'stock', 'comptable'];
+
+// Pages each role can open, also checked by the handlers that write their data
+const rolePermissions = {
+  admin: ['dashboard', 'factures', 'devis', 'bons-livraison', 'commandes-fournisseur', 'factures-fournisseur', 'paiements', 'clients', 'fournisseurs', 'produits', 'stock', 'rapport', 'parametres'],
+  vente: ['dashboard', 'factures', 'devis', 'bons-livraison', 'paiements', 'clients', 'produits'],
+  stock: ['dashboard', 'bons-livraison', 'commandes-fournisseur', 'fournisseurs', 'produits', 'stock'],
+  comptable: ['dashboard', 'factures', 'factures-fournisseur', 'paiements', 'clients', 'fournisseurs', 'rapport']
+};
+
+let currentUser = null;
+
+// Failed logins by identifier: after LOGIN_MAX_ATTEMPTS failures the identifier is locked,
+// for a delay doubling with each further failure
+const LOGIN_MAX_ATTEMPTS = 5;
+const LOGIN_LOCK_MS = 30 * 1000;
+const LOGIN_MAX_LOCK_MS = 15 * 60 * 1000;
+const loginFailures = new Map();
+
+// Seconds left before the identifier may try again, 0 when it isn't locked
+function loginLockRemaining(login) {
+  const failures = loginFailures.get(login);
+  return failures ? Math.max(0, Math.ceil((failures.lockedUntil - Date.now()) / 1000)) : 0;
+}
+
+function recordLoginFailure(login) {
+  const failures = loginFailures.get(login) || { count: 0, lockedUntil: 0 };
+  failures.count += 1;
+  if (failures.count >= LOGIN_MAX_ATTEMPTS) {
+    const delay = Math.min(LOGIN_LOCK_MS * 2 ** (failures.count - LOGIN_MAX_ATTEMPTS), LOGIN_MAX_LOCK_MS);
+    failures.lockedUntil = Date.now() + delay;
+    log.warn(`Login locked for ${delay / 1000}s after ${failures.count} failed attempts:`, login);
+  }
+  loginFailures.set(login, failures);
+}
+
+const toUtilisateur = (row) => ({
+  id: row.id,
+  login: row.login,
+  nom: row.nom,
+  role: row.role,
+  actif: Boolean(row.actif)
+});
+
+function hashPassword(password, salt) {
+  return crypto.scryptSync(password, salt, 64).toString('hex');
+}
+
+function verifyPassword(password, row) {
+  const hash = Buffer.from(hashPassword(password, row.salt), 'hex');
+  return crypto.timingSafeEqual(hash, Buffer.from(row.passwordHash, 'hex'));
+}
+
+function insertUser(user, password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  db.prepare(`
+    INSERT INTO utilisateurs (id, login, nom, role, passwordHash, salt, actif)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(user.id, user.login, user.nom, user.role, hashPassword(password, salt), salt, user.actif ? 1 : 0);
+}
+
+// Until an account exists the application stays open, as it was without a password
+function getSession() {
+  const usersEnabled = db.prepare('SELECT COUNT(*) as count FROM utilisateurs WHERE actif = 1').get().count > 0;
+  const user = usersEnabled ? currentUser : null;
+  return {
+    usersEnabled,
+    user,
+    pages: user ? rolePermissions[user.role] : usersEnabled ? [] : rolePermissions.admin,
+    utilisateur: getAuditUser()
+  };
+}
+
+// Throws unless the session may open one of the given pages
+function assertPermission(...pages) {
+  const { pages: allowed } = getSession();
+  if (!pages.some(page => allowed.includes(page))) {
+    throw new Error('Accès refusé : votre profil ne permet pas cette opération');
+  }
+}
+
+// Throws until a user has logged in, when accounts are enabled
+function assertSessionOuverte() {
+  if (getSession().pages.length === 0) {
+    throw new Error('Accès refusé : veuillez vous connecter');
+  }
+}
+
+// Name recorded in the audit log and on the records created from this session
+function getAuditUser() {
+  return currentUser ? currentUser.login : os.userInfo().username;
+}
+
+function recordAudit(entityType, entityId, action, avant, apres) {
+  db.prepare(`
+    INSERT INTO audit_log (id, entityType, entityId, action, utilisateur, avant, apres)
+    VALUES (lower(hex(randomblob(16))), ?, ?, ?, ?, ?, ?)
+  `).run(
+    entityType,
+    entityId,
+    action,
+    getAuditUser(),
+    avant ? JSON.stringify(avant) : null,
+    apres ? JSON.stringify(apres) : null
+  );
+}
+
+// Global discount and fees of a stored document row, see documentAdjustments
+const parseDocumentAdjustments = (row) => ({
+  remiseGlobale: row.remiseType ? { type: row.remiseType, valeur: row.remiseValeur || 0 } : undefined,
+  montantRemise: row.montantRemise || 0,
+  frais: JSON.parse(row.frais || '[]'),
+  totalFrais: row.totalFrais || 0,
+  ajustements: JSON.parse(row.ajustements || '[]')
+});
+
+// Stored state of an invoice as recorded in the audit log, undefined when it doesn't exist
+const getFactureSnapshot = (factureId) => {
+  const facture = db.prepare('SELECT * FROM factures WHERE id = ?').get(factureId);
+  if (!facture) {
+    return undefined;
+  }
+  return {
+    ...facture,
+    charges: JSON.parse(facture.charges || '[]'),
+    ...parseDocumentAdjustments(facture),
+    lignes: db.prepare('SELECT * FROM lignes_facture WHERE factureId = ? ORDER BY id').all(factureId)
+  };
+};
+
+// Invoices are locked once they leave the draft status: changes go through credit notes
+const assertFactureModifiable = (facture) => {
+  if (facture && facture.statut !== 'brouillon') {
+    throw new Error(`La facture ${facture.numero} est validée et ne peut plus être modifiée ni supprimée. Établissez un avoir pour l'annuler.`);
+  }
+};
+
+// Remove a draft invoice with its lines, payments and credit notes; delivery notes are unlinked.
+// The numbers of the invoice and its credit notes are recorded as voided.
+const deleteFactureRows = (factureId) => {
+  const facture = getFactureSnapshot(factureId);
+  assertFactureModifiable(facture);
+
+  db.prepare('SELECT id, numero FROM avoirs WHERE factureId = ?').all(factureId)
+    .forEach(avoir => recordVoidedNumber('avoirs', avoir.numero, avoir.id, 'Avoir supprimé avec sa facture'));
+  if (facture) {
+    recordVoidedNumber('factures', facture.numero, factureId, 'Facture supprimée');
+    recordAudit('facture', factureId, 'suppression', facture, null);
+  }
+
+  db.prepare('DELETE FROM payments WHERE factureId = ?').run(factureId);
+  db.prepare('DELETE FROM lignes_avoir WHERE avoirId IN (SELECT id FROM avoirs WHERE factureId = ?)').run(factureId);
+  db.prepare('DELETE FROM avoirs WHERE factureId = ?').run(factureId);
+  db.prepare('UPDATE bons_livraison SET factureId = NULL WHERE factureId = ?').run(factureId);
+  db.prepare('DELETE FROM lignes_livraison_facturees WHERE factureId = ?').run(factureId);
+  db.prepare('DELETE FROM lignes_facture WHERE factureId = ?').run(factureId);
+  db.prepare('DELETE FROM factures WHERE id = ?').run(factureId);
+};
+
+ipcMain.handle('list-clients', async () => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('clients', 'factures', 'devis', 'bons-livraison');
+
+    return db.prepare('SELECT * FROM clients ORDER BY code ASC').all().map(toClient);
+  } catch (error) {
+    log.error('Error listing clients:', error);
+    return [];
+  }
+});
+
+ipcMain.handle('save-client', async (event, client) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('clients');
+
+    const duplicate = db.prepare('SELECT id FROM clients WHERE code = ? AND id != ?').get(client.code, client.id);
+    if (duplicate) {
+      return { success: false, error: 'Ce code client existe déjà. Veuillez en choisir un autre.' };
+    }
+
+    const data = toClient(client);
+    db.prepare(`
+      INSERT INTO clients (${clientColumns.join(', ')})
+      VALUES (${clientColumns.map(column => '@' + column).join(', ')})
+      ON CONFLICT(id) DO UPDATE SET
+        ${clientColumns.filter(column => column !== 'id').map(column => `${column} = excluded.${column}`).join(', ')}
+    `).run(data);
+
+    return { success: true, client: data };
+  } catch (error) {
+    log.error('Error saving client:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Documents keep their numbers and their stock movements: a client can't be deleted while any
+// of its documents is recorded
+const clientDocumentTables = ['factures', 'avoirs', 'payments', 'devis', 'bons_livraison'];
+
+ipcMain.handle('delete-client', async (event, clientId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('clients');
+
+    const used = clientDocumentTables.some(table => db.prepare(`SELECT 1 FROM ${table} WHERE clientId = ? LIMIT 1`).get(clientId));
+    if (used) {
+      return { success: false, error: 'Ce client a des documents enregistrés et ne peut pas être supprimé' };
+    }
+
+    db.prepare('DELETE FROM clients WHERE id = ?').run(clientId);
+    return { success: true };
+  } catch (error) {
+    log.error('Error deleting client:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+const produitColumns = ['id', 'ref', 'nom', 'description', 'prixUnitaire', 'tva', 'fodecApplicable', 'tauxFodec', 'type'];
+
+// The stock of a product only changes through stock movements: a stock entered in the form is
+// reached with a manual adjustment
+ipcMain.handle('save-produit', async (event, produit) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('produits');
+
+    if (produit.ref) {
+      const duplicate = db.prepare('SELECT id FROM produits WHERE ref = ? AND id != ?').get(produit.ref, produit.id);
+      if (duplicate) {
+        return { success: false, error: 'Cette référence produit existe déjà. Veuillez en choisir une autre.' };
+      }
+    }
+
+    db.transaction(() => {
+      const data = {
+        id: produit.id,
+        ref: produit.ref || null,
+        nom: produit.nom,
+        description: produit.description || '',
+        prixUnitaire: produit.prixUnitaire,
+        tva: produit.tva,
+        fodecApplicable: produit.fodecApplicable ? 1 : 0,
+        tauxFodec: produit.tauxFodec,
+        type: produit.type
+      };
+      db.prepare(`
+        INSERT INTO produits (${produitColumns.join(', ')})
+        VALUES (${produitColumns.map(column => '@' + column).join(', ')})
+        ON CONFLICT(id) DO UPDATE SET
+          ${produitColumns.filter(column => column !== 'id').map(column => `${column} = excluded.${column}`).join(', ')}
+      `).run(data);
+
+      const stored = db.prepare('SELECT stock FROM produits WHERE id = ?').get(produit.id);
+      const ecart = (produit.stock || 0) - (stored.stock || 0);
+      if (ecart !== 0) {
+        if (!getSession().pages.includes('stock')) {
+          throw new Error('Accès refusé : votre profil ne permet pas de modifier le stock');
+        }
+        const result = applyStockMovement({
+          id: crypto.randomUUID(),
+          produitId: produit.id,
+          produitNom: produit.nom,
+          produitRef: produit.ref,
+          type: ecart > 0 ? 'entree' : 'sortie',
+          quantite: Math.abs(ecart),
+          date: new Date().toISOString(),
+          source: 'ajustement_manuel',
+          sourceId: '',
+          sourceNumero: 'Ajustement manuel'
+        });
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+      }
+    })();
+
+    return { success: true };
+  } catch (error) {
+    log.error('Error saving produit:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+const fournisseurColumns = ['id', 'nom', 'adresse', 'codePostal', 'ville', 'telephone', 'email', 'siret', 'matriculeFiscal'];
+
+ipcMain.handle('save-fournisseur', async (event, fournisseur) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('fournisseurs');
+
+    const data = Object.fromEntries(fournisseurColumns.map(column => [column, fournisseur[column] || '']));
+    db.prepare(`
+      INSERT INTO fournisseurs (${fournisseurColumns.join(', ')})
+      VALUES (${fournisseurColumns.map(column => '@' + column).join(', ')})
+      ON CONFLICT(id) DO UPDATE SET
+        ${fournisseurColumns.filter(column => column !== 'id').map(column => `${column} = excluded.${column}`).join(', ')}
+    `).run(data);
+
+    return { success: true };
+  } catch (error) {
+    log.error('Error saving fournisseur:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Same for a supplier and its orders, receptions, invoices and payments
+const fournisseurDocumentTables = ['commandes_fournisseur', 'bons_reception', 'factures_fournisseur', 'paiements_fournisseur'];
+
+ipcMain.handle('delete-fournisseur', async (event, fournisseurId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('fournisseurs');
+
+    const used = fournisseurDocumentTables.some(table => db.prepare(`SELECT 1 FROM ${table} WHERE fournisseurId = ? LIMIT 1`).get(fournisseurId));
+    if (used) {
+      return { success: false, error: 'Ce fournisseur a des documents enregistrés et ne peut pas être supprimé' };
+    }
+
+    db.prepare('DELETE FROM fournisseurs WHERE id = ?').run(fournisseurId);
+    return { success: true };
+  } catch (error) {
+    log.error('Error deleting fournisseur:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Products on document lines are part of those documents and can't be deleted
+const produitLineTables = [
+  'lignes_facture', 'lignes_avoir', 'lignes_devis', 'lignes_bon_livraison',
+  'lignes_commande_fournisseur', 'lignes_bon_reception', 'lignes_facture_fournisseur'
+];
+
+ipcMain.handle('delete-produit', async (event, produitId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('produits');
+
+    const used = produitLineTables.some(table => db.prepare(`SELECT 1 FROM ${table} WHERE produitId = ? LIMIT 1`).get(produitId));
+    if (used) {
+      return { success: false, error: 'Ce produit figure sur des documents et ne peut pas être supprimé' };
+    }
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM stock_movements WHERE produitId = ?').run(produitId);
+      db.prepare('DELETE FROM produits WHERE id = ?').run(produitId);
+    })();
+    return { success: true };
+  } catch (error) {
+    log.error('Error deleting produit:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('list-factures', async (event, filter = {}) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures');
+
+    const conditions = [];
+    const params = {};
+    if (filter.clientId) {
+      conditions.push('f.clientId = @clientId');
+      params.clientId = filter.clientId;
+    }
+    if (filter.statut) {
+      conditions.push('f.statut = @statut');
+      params.statut = filter.statut;
+    }
+    if (filter.dateDebut) {
+      conditions.push('f.date >= @dateDebut');
+      params.dateDebut = filter.dateDebut;
+    }
+    if (filter.dateFin) {
+      conditions.push('f.date <= @dateFin');
+      params.dateFin = filter.dateFin;
+    }
+
+    const factures = db.prepare(`
+      SELECT f.*, c.code as clientCode, c.nom as clientNom, c.adresse, c.codePostal, c.ville, c.telephone, c.email, c.matriculeFiscal, c.listePrixId
+      FROM factures f
+      JOIN clients c ON f.clientId = c.id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY f.created_at DESC
+    `).all(params);
+
+    const selectLignes = db.prepare(`
+      SELECT lf.*, p.ref, p.nom, p.description, p.prixUnitaire as produitPrix, p.stock, p.type
+      FROM lignes_facture lf
+      JOIN produits p ON lf.produitId = p.id
+      WHERE lf.factureId = ?
+    `);
+
+    // For each facture, load its lines
+    for (const facture of factures) {
+      facture.lignes = selectLignes.all(facture.id).map(ligne => ({
+        id: ligne.id,
+        produit: {
+          id: ligne.produitId,
+          ref: ligne.ref,
+          nom: ligne.nom,
+          description: ligne.description,
+          prixUnitaire: ligne.produitPrix,
+          tva: ligne.tauxTVA,
+          fodecApplicable: ligne.tauxFodec > 0,
+          tauxFodec: ligne.tauxFodec || 1,
+          stock: ligne.stock,
+          type: ligne.type || 'vente'
         },
         quantite: ligne.quantite,
         prixUnitaire: ligne.prixUnitaire,
@@ -861,55 +1925,14 @@ ipcMain.handle('get-factures', async () => {
         montantFodec: ligne.montantFodec || 0,
         baseTVA: ligne.baseTVA || 0,
         montantTVA: ligne.montantTVA || 0,
-        montantTTC: ligne.montantTTC
+        montantTTC: ligne.montantTTC,
+        prixManuel: Boolean(ligne.prixManuel)
       }));
       
-      // Load taxes for this facture
-      const taxesResult = db.prepare(`
-        SELECT * FROM taxes 
-        WHERE actif = 1 AND json_extract(applicableDocuments, '$') LIKE '%factures%'
-        ORDER BY ordre ASC
-      `).all();
-      
-      // Calculate taxes
-      const taxes = [];
-      let totalTaxes = 0;
-      let runningTotal = facture.totalHT;
-      
-      if (taxesResult && taxesResult.length > 0) {
-        for (const tax of taxesResult) {
-          const applicableDocuments = JSON.parse(tax.applicableDocuments);
-          if (!applicableDocuments.includes('factures')) continue;
-          
-          let base;
-          let montant;
-          
-          if (tax.type === 'fixed') {
-            base = 0;
-            montant = tax.valeur;
-          } else {
-            if (tax.calculationBase === 'totalHT') {
-              base = facture.totalHT;
-            } else {
-              base = runningTotal;
-            }
-            montant = (base * tax.valeur) / 100;
-          }
-          
-          taxes.push({
-            taxId: tax.id,
-            nom: tax.nom,
-            base,
-            montant
-          });
-          
-          runningTotal += montant;
-          totalTaxes += montant;
-        }
-      }
-      
-      facture.taxes = taxes;
-      facture.totalTaxes = totalTaxes;
+      // Document-level charges stored with the facture
+      facture.charges = JSON.parse(facture.charges || '[]');
+      facture.totalCharges = facture.totalCharges || 0;
+      Object.assign(facture, parseDocumentAdjustments(facture));
     }
 
     return factures.map(facture => ({
@@ -925,90 +1948,1656 @@ ipcMain.handle('get-factures', async () => {
         ville: facture.ville,
         telephone: facture.telephone,
         email: facture.email,
-        matriculeFiscal: facture.matriculeFiscal
+        matriculeFiscal: facture.matriculeFiscal,
+        listePrixId: facture.listePrixId || undefined
       }
     }));
   } catch (error) {
-    log.error('Error getting factures:', error);
+    log.error('Error listing factures:', error);
     return [];
   }
 });
 
-// Stock movement tracking with better error handling
-ipcMain.handle('track-stock-movement', async (event, movement) => {
+// Tables, numbering sequence and column values of the documents saved through save-document
+const toISOString = (date) => new Date(date).toISOString();
+
+const ligneAmounts = (ligne) => ({
+  produitId: ligne.produit.id,
+  quantite: ligne.quantite,
+  prixUnitaire: ligne.prixUnitaire,
+  remise: ligne.remise || 0,
+  montantHT: ligne.montantHT,
+  montantFodec: ligne.montantFodec || 0,
+  baseTVA: ligne.baseTVA || 0,
+  montantTVA: ligne.montantTVA || 0,
+  montantTTC: ligne.montantTTC,
+  // Rates the amounts were computed with, kept when the product rates change
+  tauxTVA: ligne.produit.tva || 0,
+  tauxFodec: ligne.produit.fodecApplicable ? ligne.produit.tauxFodec || 0 : 0
+});
+
+// Global discount and fees of factures, devis and supplier orders
+const documentAdjustments = (document) => ({
+  remiseType: document.remiseGlobale ? document.remiseGlobale.type : null,
+  remiseValeur: document.remiseGlobale ? document.remiseGlobale.valeur : 0,
+  montantRemise: document.montantRemise || 0,
+  frais: JSON.stringify(document.frais || []),
+  totalFrais: document.totalFrais || 0,
+  ajustements: JSON.stringify(document.ajustements || [])
+});
+
+const documentDefinitions = {
+  facture: {
+    numbering: 'factures',
+    page: 'factures',
+    table: 'factures',
+    linesTable: 'lignes_facture',
+    parentKey: 'factureId',
+    header: (facture) => ({
+      date: toISOString(facture.date),
+      dateEcheance: toISOString(facture.dateEcheance),
+      clientId: facture.client.id,
+      totalHT: facture.totalHT,
+      totalFodec: facture.totalFodec || 0,
+      totalTVA: facture.totalTVA,
+      totalCharges: facture.totalCharges || 0,
+      charges: JSON.stringify(facture.charges || []),
+      totalTTC: facture.totalTTC,
+      statut: facture.statut,
+      devisId: facture.devisId || null,
+      notes: facture.notes || '',
+      devise: facture.devise || 'TND',
+      tauxChange: facture.tauxChange || 1,
+      ...documentAdjustments(facture)
+    }),
+    line: (ligne) => ({ ...ligneAmounts(ligne), prixManuel: ligne.prixManuel ? 1 : 0 }),
+    // Validated invoices are locked and every change is recorded in the audit log
+    audit: { entityType: 'facture', snapshot: getFactureSnapshot, assertModifiable: assertFactureModifiable },
+    // Delivered quantities the invoice covers, rewritten on every save: the links given when it is
+    // made from delivery notes, or else the stored ones, kept for the lines still on the invoice
+    // and within their quantities. Links older than the line tracking cover a whole delivery note.
+    afterSave: (facture) => {
+      const livraisons = facture.livraisons || db.prepare(`
+        SELECT bonLivraisonId, ligneBonLivraisonId, ligneFactureId, quantite FROM lignes_livraison_facturees
+        WHERE factureId = ? ORDER BY created_at, rowid
+      `).all(facture.id);
+      db.prepare('DELETE FROM lignes_livraison_facturees WHERE factureId = ?').run(facture.id);
+
+      const insertLien = db.prepare(`
+        INSERT INTO lignes_livraison_facturees (id, bonLivraisonId, ligneBonLivraisonId, factureId, ligneFactureId, quantite)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      // Quantities have three decimals, apportioned in thousandths
+      const restants = new Map(facture.lignes.map(ligne => [ligne.id, toMillimes(ligne.quantite)]));
+      for (const livraison of livraisons) {
+        let quantite = livraison.quantite;
+        if (livraison.ligneFactureId) {
+          const restant = restants.get(livraison.ligneFactureId) || 0;
+          const millimes = Math.min(toMillimes(livraison.quantite), restant);
+          if (millimes <= 0) {
+            continue;
+          }
+          restants.set(livraison.ligneFactureId, restant - millimes);
+          quantite = millimes / 1000;
+        }
+        insertLien.run(crypto.randomUUID(), livraison.bonLivraisonId, livraison.ligneBonLivraisonId, facture.id, livraison.ligneFactureId || null, quantite);
+      }
+    }
+  },
+  devis: {
+    numbering: 'devis',
+    page: 'devis',
+    table: 'devis',
+    linesTable: 'lignes_devis',
+    parentKey: 'devisId',
+    header: (devis) => ({
+      date: toISOString(devis.date),
+      dateValidite: toISOString(devis.dateValidite),
+      clientId: devis.client.id,
+      totalHT: devis.totalHT,
+      totalFodec: devis.totalFodec || 0,
+      totalTVA: devis.totalTaxes,
+      totalTTC: devis.totalTTC,
+      statut: devis.statut,
+      notes: devis.notes || '',
+      devise: devis.devise || 'TND',
+      tauxChange: devis.tauxChange || 1,
+      ...documentAdjustments(devis)
+    }),
+    line: (ligne) => ({ ...ligneAmounts(ligne), prixManuel: ligne.prixManuel ? 1 : 0 }),
+    // Accepted, refused or cancelled by hand, delivered as its delivery notes are saved
+    statuts: {
+      pages: ['devis', 'bons-livraison'],
+      values: ['brouillon', 'envoye', 'accepte', 'refuse', 'expire', 'partiellement_livre', 'livre', 'annule']
+    },
+    // Delivery notes and draft invoices created from the devis are kept, validated invoices
+    // can't lose their link
+    deletion: {
+      motif: 'Devis supprimé',
+      beforeDelete: (devis) => {
+        const facture = db.prepare("SELECT numero FROM factures WHERE devisId = ? AND statut != 'brouillon'").get(devis.id);
+        if (facture) {
+          throw new Error(`Le devis ${devis.numero} a été facturé par la facture validée ${facture.numero} et ne peut plus être supprimé`);
+        }
+        db.prepare('UPDATE lignes_bon_livraison SET ligneDevisId = NULL WHERE ligneDevisId IN (SELECT id FROM lignes_devis WHERE devisId = ?)').run(devis.id);
+        db.prepare('UPDATE bons_livraison SET devisId = NULL WHERE devisId = ?').run(devis.id);
+        db.prepare('UPDATE factures SET devisId = NULL WHERE devisId = ?').run(devis.id);
+      }
+    }
+  },
+  bonLivraison: {
+    numbering: 'bonsLivraison',
+    page: 'bons-livraison',
+    table: 'bons_livraison',
+    linesTable: 'lignes_bon_livraison',
+    parentKey: 'bonLivraisonId',
+    header: (bonLivraison) => ({
+      date: toISOString(bonLivraison.date),
+      clientId: bonLivraison.client.id,
+      statut: bonLivraison.statut,
+      devisId: bonLivraison.devisId || null,
+      factureId: bonLivraison.factureId || null,
+      notes: bonLivraison.notes || '',
+      totalHT: bonLivraison.totalHT || 0,
+      totalFodec: bonLivraison.totalFodec || 0,
+      totalTVA: bonLivraison.totalTaxes || 0,
+      totalTTC: bonLivraison.totalTTC || 0
+    }),
+    line: (ligne) => ({ ...ligneAmounts(ligne), ligneDevisId: ligne.ligneDevisId || null }),
+    deletion: {
+      motif: 'Bon de livraison supprimé',
+      beforeDelete: (bonLivraison) => {
+        const facturee = db.prepare('SELECT COUNT(*) as count FROM lignes_livraison_facturees WHERE bonLivraisonId = ?').get(bonLivraison.id).count > 0;
+        if (facturee || bonLivraison.factureId) {
+          throw new Error(`Le bon de livraison ${bonLivraison.numero} est déjà facturé : supprimez d'abord la ou les factures liées`);
+        }
+      }
+    }
+  },
+  // The invoice link of a supplier order is set by the supplier invoice, not by this save
+  commandeFournisseur: {
+    numbering: 'commandesFournisseur',
+    page: 'commandes-fournisseur',
+    table: 'commandes_fournisseur',
+    linesTable: 'lignes_commande_fournisseur',
+    parentKey: 'commandeId',
+    header: (commande) => ({
+      date: toISOString(commande.date),
+      dateReception: toISOString(commande.dateReception),
+      fournisseurId: commande.fournisseur.id,
+      totalHT: commande.totalHT,
+      totalFodec: commande.totalFodec || 0,
+      totalTVA: commande.totalTaxes,
+      totalTTC: commande.totalTTC,
+      statut: commande.statut,
+      notes: commande.notes || '',
+      devise: commande.devise || 'TND',
+      tauxChange: commande.tauxChange || 1,
+      ...documentAdjustments(commande)
+    }),
+    line: ligneAmounts,
+    // Quantities may have changed on a partially received order
+    afterSave: (commande) => {
+      if (db.prepare('SELECT COUNT(*) as count FROM bons_reception WHERE commandeId = ?').get(commande.id).count > 0) {
+        refreshStoredCommandeReceptionStatut(commande.id);
+      }
+    },
+    // Received as its receptions are saved
+    statuts: {
+      pages: ['commandes-fournisseur'],
+      values: ['brouillon', 'envoyee', 'confirmee', 'partiellement_recue', 'recue', 'annulee']
+    },
+    // Received goods are already in stock and invoiced orders are part of the payables
+    deletion: {
+      motif: 'Commande fournisseur supprimée',
+      beforeDelete: (commande) => {
+        if (commande.factureFournisseurId) {
+          throw new Error(`La commande ${commande.numero} est déjà facturée : supprimez d'abord la facture fournisseur`);
+        }
+        if (db.prepare('SELECT COUNT(*) as count FROM bons_reception WHERE commandeId = ?').get(commande.id).count > 0) {
+          throw new Error(`La commande ${commande.numero} a des réceptions : supprimez d'abord ses bons de réception`);
+        }
+      }
+    }
+  },
+  bonReception: {
+    numbering: 'bonsReception',
+    page: 'commandes-fournisseur',
+    table: 'bons_reception',
+    linesTable: 'lignes_bon_reception',
+    parentKey: 'bonReceptionId',
+    header: (bonReception) => ({
+      date: toISOString(bonReception.date),
+      commandeId: bonReception.commandeId,
+      fournisseurId: bonReception.fournisseur.id,
+      cloture: bonReception.cloture ? 1 : 0,
+      ecart: bonReception.ecart ? 1 : 0,
+      notes: bonReception.notes || ''
+    }),
+    line: (ligne) => ({
+      ligneCommandeId: ligne.ligneCommandeId,
+      produitId: ligne.produit.id,
+      quantiteCommandee: ligne.quantiteCommandee,
+      quantiteRecue: ligne.quantiteRecue,
+      ecart: ligne.ecart || 0
+    }),
+    // The order status follows its receptions
+    afterSave: (bonReception) => refreshStoredCommandeReceptionStatut(bonReception.commandeId),
+    // The received quantities leave the stock through the movements given with the deletion
+    deletion: {
+      motif: 'Bon de réception supprimé',
+      beforeDelete: (bonReception) => {
+        const commande = db.prepare('SELECT factureFournisseurId FROM commandes_fournisseur WHERE id = ?').get(bonReception.commandeId);
+        if (commande && commande.factureFournisseurId) {
+          throw new Error('Cette commande est facturée, ses réceptions ne peuvent plus être supprimées');
+        }
+      },
+      afterDelete: (bonReception) => refreshStoredCommandeReceptionStatut(bonReception.commandeId)
+    }
+  },
+  avoir: {
+    numbering: 'avoirs',
+    page: 'factures',
+    table: 'avoirs',
+    linesTable: 'lignes_avoir',
+    parentKey: 'avoirId',
+    header: (avoir) => ({
+      date: toISOString(avoir.date),
+      factureId: avoir.factureId,
+      clientId: avoir.client.id,
+      totalHT: avoir.totalHT,
+      totalFodec: avoir.totalFodec || 0,
+      totalTVA: avoir.totalTVA,
+      montantRemise: avoir.montantRemise || 0,
+      frais: JSON.stringify(avoir.frais || []),
+      totalFrais: avoir.totalFrais || 0,
+      ajustements: JSON.stringify(avoir.ajustements || []),
+      totalCharges: avoir.totalCharges || 0,
+      charges: JSON.stringify(avoir.charges || []),
+      totalTTC: avoir.totalTTC,
+      motif: avoir.motif || '',
+      restockage: avoir.restockage ? 1 : 0,
+      statut: avoir.statut,
+      notes: avoir.notes || ''
+    }),
+    line: (ligne) => ({ ...ligneAmounts(ligne), ligneFactureId: ligne.ligneFactureId || null }),
+    // Checked once its lines are written: only validated invoices are credited, their lines only,
+    // never beyond the invoiced quantities. The invoice status follows in the same transaction.
+    afterSave: (avoir) => {
+      const facture = db.prepare('SELECT numero, statut FROM factures WHERE id = ?').get(avoir.factureId);
+      if (!facture) {
+        throw new Error('Facture introuvable');
+      }
+      if (facture.statut === 'brouillon') {
+        throw new Error(`La facture ${facture.numero} est un brouillon : validez-la avant d'établir un avoir`);
+      }
+      const lignesEtrangeres = db.prepare(`
+        SELECT COUNT(*) as count FROM lignes_avoir
+        WHERE avoirId = ? AND (ligneFactureId IS NULL OR ligneFactureId NOT IN (SELECT id FROM lignes_facture WHERE factureId = ?))
+      `).get(avoir.id, avoir.factureId).count;
+      if (lignesEtrangeres > 0) {
+        throw new Error(`L'avoir ne peut créditer que les lignes de la facture ${facture.numero}`);
+      }
+      // Quantities have three decimals, compared in thousandths like the amounts
+      const lignes = db.prepare(`
+        SELECT p.nom, lf.quantite,
+               COALESCE((
+                 SELECT SUM(la.quantite) FROM lignes_avoir la
+                 JOIN avoirs a ON la.avoirId = a.id
+                 WHERE la.ligneFactureId = lf.id AND a.statut != 'annule'
+               ), 0) as quantiteCreditee
+        FROM lignes_facture lf
+        JOIN produits p ON lf.produitId = p.id
+        WHERE lf.factureId = ?
+      `).all(avoir.factureId);
+      const depassee = lignes.find(ligne => toMillimes(ligne.quantiteCreditee) > toMillimes(ligne.quantite));
+      if (depassee) {
+        throw new Error(`${depassee.nom} : la quantité créditée dépasse la quantité facturée restant à créditer`);
+      }
+      refreshStoredFactureStatut(avoir.factureId);
+    }
+  }
+};
+
+// Save a document, its lines, the stock movements it causes and its number in one
+// transaction: either everything is written or nothing is, and no number is burned
+ipcMain.handle('save-document', async (event, type, document, stockMovements = []) => {
   try {
     if (!db) {
       throw new Error('Database not initialized');
     }
-    
-    // Get stock settings
-    const settingsResult = db.prepare('SELECT value FROM settings WHERE key = ?').get('stockSettings');
-    const stockSettings = settingsResult ? JSON.parse(settingsResult.value) : { allowNegativeStock: true };
-    
-    // Check if negative stock is allowed
-    if (!stockSettings.allowNegativeStock && movement.type === 'sortie') {
-      const product = db.prepare('SELECT stock FROM produits WHERE id = ?').get(movement.produitId);
-      if (product && (product.stock < movement.quantite)) {
-        return { 
-          success: false, 
-          error: 'Stock insuffisant et stock négatif non autorisé',
-          currentStock: product.stock
-        };
+
+    const definition = documentDefinitions[type];
+    if (!definition) {
+      throw new Error(`Unknown document type: ${type}`);
+    }
+    assertPermission(definition.page);
+
+    const saved = db.transaction(() => {
+      const { audit } = definition;
+      const avant = audit ? audit.snapshot(document.id) : undefined;
+      if (audit) {
+        audit.assertModifiable(avant);
+      }
+
+      // New documents always get their number from the counter, existing ones keep theirs
+      const stored = db.prepare(`SELECT numero FROM ${definition.table} WHERE id = ?`).get(document.id);
+      const numero = stored ? stored.numero : takeDocumentNumber(definition.numbering, document.date);
+
+      // The account that created the document stays recorded when it is edited later
+      const header = { id: document.id, numero, ...definition.header(document), utilisateur: getAuditUser() };
+      const headerColumns = Object.keys(header);
+      // Validated invoices are locked by triggers: their lines are written while they are still
+      // drafts, and the status is set last
+      db.prepare(`
+        INSERT INTO ${definition.table} (${headerColumns.join(', ')})
+        VALUES (${headerColumns.map(column => '@' + column).join(', ')})
+        ON CONFLICT(id) DO UPDATE SET
+          ${headerColumns.filter(column => column !== 'id' && column !== 'utilisateur').map(column => `${column} = excluded.${column}`).join(', ')}
+      `).run(audit ? { ...header, statut: 'brouillon' } : header);
+
+      db.prepare(`DELETE FROM ${definition.linesTable} WHERE ${definition.parentKey} = ?`).run(document.id);
+      for (const ligne of document.lignes) {
+        const row = { id: ligne.id, [definition.parentKey]: document.id, ...definition.line(ligne) };
+        const lineColumns = Object.keys(row);
+        db.prepare(`
+          INSERT INTO ${definition.linesTable} (${lineColumns.join(', ')})
+          VALUES (${lineColumns.map(column => '@' + column).join(', ')})
+        `).run(row);
+      }
+      if (definition.afterSave) {
+        definition.afterSave(document);
+      }
+      if (audit && header.statut !== 'brouillon') {
+        db.prepare(`UPDATE ${definition.table} SET statut = ? WHERE id = ?`).run(header.statut, document.id);
+      }
+
+      for (const movement of stockMovements) {
+        const result = applyStockMovement({ ...movement, sourceId: document.id, sourceNumero: numero });
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+      }
+
+      if (audit) {
+        const action = !avant ? 'creation' : document.statut !== avant.statut ? 'validation' : 'modification';
+        recordAudit(audit.entityType, document.id, action, avant, audit.snapshot(document.id));
       }
+
+      return { ...document, numero };
+    })();
+
+    return { success: true, document: saved };
+  } catch (error) {
+    log.error(`Error saving ${type}:`, error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Status of a devis or a supplier order changed without saving the document
+ipcMain.handle('update-document-statut', async (event, type, documentId, statut) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    const definition = documentDefinitions[type];
+    if (!definition || !definition.statuts) {
+      throw new Error(`Unsupported document type for status update: ${type}`);
+    }
+    assertPermission(...definition.statuts.pages);
+    if (!definition.statuts.values.includes(statut)) {
+      throw new Error(`Unknown status: ${statut}`);
+    }
+
+    db.prepare(`UPDATE ${definition.table} SET statut = ? WHERE id = ?`).run(statut, documentId);
+    return { success: true };
+  } catch (error) {
+    log.error(`Error updating ${type} statut:`, error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Delete a devis, delivery note, supplier order or reception with its lines and the stock
+// movements undoing it, in one transaction. Its number is recorded as voided.
+ipcMain.handle('delete-document', async (event, type, documentId, stockMovements = []) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    const definition = documentDefinitions[type];
+    if (!definition || !definition.deletion) {
+      throw new Error(`Unsupported document type for deletion: ${type}`);
+    }
+    assertPermission(definition.page);
+
+    db.transaction(() => {
+      const document = db.prepare(`SELECT * FROM ${definition.table} WHERE id = ?`).get(documentId);
+      if (!document) {
+        return;
+      }
+      definition.deletion.beforeDelete(document);
+
+      for (const movement of stockMovements) {
+        const result = applyStockMovement({ ...movement, sourceId: documentId, sourceNumero: document.numero });
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+      }
+
+      db.prepare(`DELETE FROM ${definition.linesTable} WHERE ${definition.parentKey} = ?`).run(documentId);
+      db.prepare(`DELETE FROM ${definition.table} WHERE id = ?`).run(documentId);
+      if (definition.deletion.afterDelete) {
+        definition.deletion.afterDelete(document);
+      }
+      recordVoidedNumber(definition.numbering, document.numero, documentId, definition.deletion.motif);
+    })();
+
+    return { success: true };
+  } catch (error) {
+    log.error(`Error deleting ${type}:`, error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('delete-facture', async (event, factureId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures');
+
+    db.transaction(() => deleteFactureRows(factureId))();
+    return { success: true };
+  } catch (error) {
+    log.error('Error deleting facture:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Status changes from payments and credit notes, the only changes a validated invoice accepts
+ipcMain.handle('update-facture-statut', async (event, factureId, statut) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures', 'paiements');
+
+    db.transaction(() => {
+      const avant = getFactureSnapshot(factureId);
+      if (!avant || avant.statut === statut) {
+        return;
+      }
+      db.prepare('UPDATE factures SET statut = ? WHERE id = ?').run(statut, factureId);
+      recordAudit('facture', factureId, 'statut', avant, getFactureSnapshot(factureId));
+    })();
+    return { success: true };
+  } catch (error) {
+    log.error('Error updating facture statut:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Audit trail of a record, most recent change first
+ipcMain.handle('list-audit-log', async (event, entityType, entityId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures');
+
+    return db.prepare(`
+      SELECT * FROM audit_log
+      WHERE entityType = ? AND entityId = ?
+      ORDER BY created_at DESC, rowid DESC
+    `).all(entityType, entityId).map(entry => ({
+      ...entry,
+      avant: entry.avant ? JSON.parse(entry.avant) : null,
+      apres: entry.apres ? JSON.parse(entry.apres) : null
+    }));
+  } catch (error) {
+    log.error('Error listing audit log:', error);
+    return [];
+  }
+});
+
+ipcMain.handle('get-session', async () => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    return getSession();
+  } catch (error) {
+    log.error('Error getting session:', error);
+    throw error;
+  }
+});
+
+ipcMain.handle('login', async (event, login, password) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    const identifiant = String(login || '').trim();
+    const remaining = loginLockRemaining(identifiant);
+    if (remaining > 0) {
+      return { success: false, error: `Trop de tentatives échouées, réessayez dans ${remaining} secondes` };
+    }
+
+    const row = db.prepare('SELECT * FROM utilisateurs WHERE login = ? AND actif = 1').get(identifiant);
+    if (!row || !verifyPassword(String(password || ''), row)) {
+      recordLoginFailure(identifiant);
+      return { success: false, error: 'Identifiant ou mot de passe incorrect' };
+    }
+
+    loginFailures.delete(identifiant);
+    currentUser = toUtilisateur(row);
+    log.info('User logged in:', currentUser.login);
+    return { success: true, session: getSession() };
+  } catch (error) {
+    log.error('Error logging in:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('logout', async () => {
+  if (currentUser) {
+    log.info('User logged out:', currentUser.login);
+  }
+  currentUser = null;
+  return { success: true };
+});
+
+ipcMain.handle('list-users', async () => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    return db.prepare('SELECT * FROM utilisateurs ORDER BY login ASC').all().map(toUtilisateur);
+  } catch (error) {
+    log.error('Error listing users:', error);
+    return [];
+  }
+});
+
+// The password is only changed when a new one is given. An active administrator must
+// always remain, and the first account created becomes the session user.
+ipcMain.handle('save-user', async (event, user, password) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    if (!userRoles.includes(user.role)) {
+      throw new Error(`Unknown role: ${user.role}`);
+    }
+    const duplicate = db.prepare('SELECT id FROM utilisateurs WHERE login = ? AND id != ?').get(user.login, user.id);
+    if (duplicate) {
+      return { success: false, error: 'Cet identifiant est déjà utilisé. Veuillez en choisir un autre.' };
+    }
+    const existing = db.prepare('SELECT id FROM utilisateurs WHERE id = ?').get(user.id);
+    if ((!existing || password) && (!password || password.length < 4)) {
+      return { success: false, error: 'Le mot de passe doit contenir au moins 4 caractères' };
+    }
+
+    const firstAccount = !getSession().usersEnabled;
+    const saved = db.transaction(() => {
+      if (existing) {
+        db.prepare('UPDATE utilisateurs SET login = ?, nom = ?, role = ?, actif = ? WHERE id = ?')
+          .run(user.login, user.nom, user.role, user.actif ? 1 : 0, user.id);
+        if (password) {
+          const salt = crypto.randomBytes(16).toString('hex');
+          db.prepare('UPDATE utilisateurs SET passwordHash = ?, salt = ? WHERE id = ?').run(hashPassword(password, salt), salt, user.id);
+        }
+      } else {
+        insertUser(user, password);
+      }
+
+      const admins = db.prepare("SELECT COUNT(*) as count FROM utilisateurs WHERE role = 'admin' AND actif = 1").get().count;
+      if (admins === 0) {
+        throw new Error('Au moins un administrateur actif est nécessaire');
+      }
+      return toUtilisateur(db.prepare('SELECT * FROM utilisateurs WHERE id = ?').get(user.id));
+    })();
+
+    if (firstAccount || (currentUser && currentUser.id === saved.id)) {
+      currentUser = saved.actif ? saved : null;
+    }
+    return { success: true, user: saved, session: getSession() };
+  } catch (error) {
+    log.error('Error saving user:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('delete-user', async (event, userId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    if (currentUser && currentUser.id === userId) {
+      return { success: false, error: 'Vous ne pouvez pas supprimer votre propre compte' };
+    }
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM utilisateurs WHERE id = ?').run(userId);
+      const remaining = db.prepare('SELECT COUNT(*) as count FROM utilisateurs').get().count;
+      const admins = db.prepare("SELECT COUNT(*) as count FROM utilisateurs WHERE role = 'admin' AND actif = 1").get().count;
+      if (remaining > 0 && admins === 0) {
+        throw new Error('Au moins un administrateur actif est nécessaire');
+      }
+    })();
+    return { success: true };
+  } catch (error) {
+    log.error('Error deleting user:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('list-exchange-rates', async () => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    return db.prepare('SELECT id, devise, date, taux FROM taux_change ORDER BY date DESC, devise ASC').all();
+  } catch (error) {
+    log.error('Error listing exchange rates:', error);
+    return [];
+  }
+});
+
+// Rate in force for a currency on a date: the latest one recorded on or before it
+ipcMain.handle('get-exchange-rate', async (event, devise, date) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    if (devise === 'TND') {
+      return { devise, date, taux: 1 };
+    }
+    return db.prepare(`
+      SELECT id, devise, date, taux FROM taux_change
+      WHERE devise = ? AND date <= ?
+      ORDER BY date DESC
+      LIMIT 1
+    `).get(devise, date) || null;
+  } catch (error) {
+    log.error('Error getting exchange rate:', error);
+    return null;
+  }
+});
+
+// A second rate for the same currency and date replaces the first one
+ipcMain.handle('save-exchange-rate', async (event, rate) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    if (!(rate.taux > 0)) {
+      return { success: false, error: 'Le taux de change doit être supérieur à zéro' };
+    }
+    db.prepare(`
+      INSERT INTO taux_change (id, devise, date, taux)
+      VALUES (@id, @devise, @date, @taux)
+      ON CONFLICT(devise, date) DO UPDATE SET taux = excluded.taux
+    `).run({ id: rate.id, devise: rate.devise, date: rate.date, taux: rate.taux });
+    return { success: true };
+  } catch (error) {
+    log.error('Error saving exchange rate:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('delete-exchange-rate', async (event, rateId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    db.prepare('DELETE FROM taux_change WHERE id = ?').run(rateId);
+    return { success: true };
+  } catch (error) {
+    log.error('Error deleting exchange rate:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('list-price-lists', async () => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres', 'clients', 'factures', 'devis', 'bons-livraison');
+
+    const selectPrix = db.prepare(`
+      SELECT id, produitId, quantiteMin, type, valeur FROM prix_liste
+      WHERE listeId = ?
+      ORDER BY produitId, quantiteMin
+    `);
+    return db.prepare('SELECT * FROM listes_prix ORDER BY nom').all().map(liste => ({
+      id: liste.id,
+      nom: liste.nom,
+      description: liste.description || '',
+      pourcentage: liste.pourcentage || 0,
+      dateDebut: liste.dateDebut || undefined,
+      dateFin: liste.dateFin || undefined,
+      actif: Boolean(liste.actif),
+      prix: selectPrix.all(liste.id)
+    }));
+  } catch (error) {
+    log.error('Error listing price lists:', error);
+    return [];
+  }
+});
+
+// The list and its prices are replaced together
+ipcMain.handle('save-price-list', async (event, liste) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    const duplicate = db.prepare('SELECT id FROM listes_prix WHERE nom = ? AND id != ?').get(liste.nom, liste.id);
+    if (duplicate) {
+      return { success: false, error: 'Une liste de prix porte déjà ce nom' };
+    }
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO listes_prix (id, nom, description, pourcentage, dateDebut, dateFin, actif)
+        VALUES (@id, @nom, @description, @pourcentage, @dateDebut, @dateFin, @actif)
+        ON CONFLICT(id) DO UPDATE SET
+          nom = excluded.nom, description = excluded.description, pourcentage = excluded.pourcentage,
+          dateDebut = excluded.dateDebut, dateFin = excluded.dateFin, actif = excluded.actif
+      `).run({
+        id: liste.id,
+        nom: liste.nom,
+        description: liste.description || '',
+        pourcentage: liste.pourcentage || 0,
+        dateDebut: liste.dateDebut || null,
+        dateFin: liste.dateFin || null,
+        actif: liste.actif ? 1 : 0
+      });
+
+      db.prepare('DELETE FROM prix_liste WHERE listeId = ?').run(liste.id);
+      const insertPrix = db.prepare(`
+        INSERT INTO prix_liste (id, listeId, produitId, quantiteMin, type, valeur)
+        VALUES (@id, @listeId, @produitId, @quantiteMin, @type, @valeur)
+      `);
+      for (const prix of liste.prix) {
+        insertPrix.run({ ...prix, listeId: liste.id });
+      }
+    })();
+    return { success: true };
+  } catch (error) {
+    log.error('Error saving price list:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Clients of a deleted list go back to the product prices
+ipcMain.handle('delete-price-list', async (event, listeId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    db.prepare('DELETE FROM listes_prix WHERE id = ?').run(listeId);
+    return { success: true };
+  } catch (error) {
+    log.error('Error deleting price list:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('get-avoirs', async () => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures');
+
+    const avoirs = db.prepare(`
+      SELECT a.*, f.numero as factureNumero,
+             c.code as clientCode, c.nom as clientNom, c.adresse, c.codePostal, c.ville, c.telephone, c.email, c.matriculeFiscal
+      FROM avoirs a
+      JOIN factures f ON a.factureId = f.id
+      JOIN clients c ON a.clientId = c.id
+      ORDER BY a.created_at DESC
+    `).all();
+
+    const selectLignes = db.prepare(`
+      SELECT la.*, p.ref, p.nom, p.description, p.prixUnitaire as produitPrix, p.stock, p.type
+      FROM lignes_avoir la
+      JOIN produits p ON la.produitId = p.id
+      WHERE la.avoirId = ?
+    `);
+
+    return avoirs.map(avoir => ({
+      ...avoir,
+      date: new Date(avoir.date),
+      restockage: Boolean(avoir.restockage),
+      frais: JSON.parse(avoir.frais || '[]'),
+      ajustements: JSON.parse(avoir.ajustements || '[]'),
+      charges: JSON.parse(avoir.charges || '[]'),
+      client: {
+        id: avoir.clientId,
+        code: avoir.clientCode,
+        nom: avoir.clientNom,
+        adresse: avoir.adresse,
+        codePostal: avoir.codePostal,
+        ville: avoir.ville,
+        telephone: avoir.telephone,
+        email: avoir.email,
+        matriculeFiscal: avoir.matriculeFiscal
+      },
+      lignes: selectLignes.all(avoir.id).map(ligne => ({
+        id: ligne.id,
+        ligneFactureId: ligne.ligneFactureId,
+        produit: {
+          id: ligne.produitId,
+          ref: ligne.ref,
+          nom: ligne.nom,
+          description: ligne.description,
+          prixUnitaire: ligne.produitPrix,
+          tva: ligne.tauxTVA,
+          fodecApplicable: ligne.tauxFodec > 0,
+          tauxFodec: ligne.tauxFodec || 1,
+          stock: ligne.stock,
+          type: ligne.type || 'vente'
+        },
+        quantite: ligne.quantite,
+        prixUnitaire: ligne.prixUnitaire,
+        remise: ligne.remise,
+        montantHT: ligne.montantHT,
+        montantFodec: ligne.montantFodec || 0,
+        baseTVA: ligne.baseTVA || 0,
+        montantTVA: ligne.montantTVA || 0,
+        montantTTC: ligne.montantTTC
+      }))
+    }));
+  } catch (error) {
+    log.error('Error getting avoirs:', error);
+    return [];
+  }
+});
+
+// Amounts compared in millimes, below one millime they are equal
+const toMillimes = (amount) => Math.round((amount || 0) * 1000);
+
+// Status of a validated invoice from its credit notes, payments and withholdings, the rules of
+// refreshFactureStatut in the renderer: fully credited invoices are cancelled, settled ones paid
+function refreshStoredFactureStatut(factureId) {
+  const balance = db.prepare(`
+    SELECT f.statut, f.totalTTC,
+           COALESCE((SELECT SUM(a.totalTTC) FROM avoirs a WHERE a.factureId = f.id AND a.statut != 'annule'), 0) as totalAvoirs,
+           COALESCE((SELECT SUM(p.montant + COALESCE(p.montantRetenue, 0)) FROM payments p WHERE p.factureId = f.id AND p.statut = 'valide'), 0) as totalRegle
+    FROM factures f WHERE f.id = ?
+  `).get(factureId);
+  if (!balance || balance.statut === 'brouillon') {
+    return;
+  }
+
+  const totalTTC = toMillimes(balance.totalTTC);
+  let statut = balance.statut;
+  if (toMillimes(balance.totalAvoirs) >= totalTTC) {
+    statut = 'annulee';
+  } else if (toMillimes(balance.totalAvoirs) + toMillimes(balance.totalRegle) >= totalTTC) {
+    statut = 'payee';
+  } else if (statut === 'payee' || statut === 'annulee') {
+    statut = 'envoyee';
+  }
+
+  if (statut !== balance.statut) {
+    const avant = getFactureSnapshot(factureId);
+    db.prepare('UPDATE factures SET statut = ? WHERE id = ?').run(statut, factureId);
+    recordAudit('facture', factureId, 'statut', avant, getFactureSnapshot(factureId));
+  }
+}
+
+// Cancel a credit note in one transaction: restocked quantities leave the stock again, the
+// invoice status follows and both changes are recorded in the audit log
+ipcMain.handle('cancel-avoir', async (event, avoirId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures');
+
+    db.transaction(() => {
+      const avoir = db.prepare('SELECT * FROM avoirs WHERE id = ?').get(avoirId);
+      if (!avoir || avoir.statut === 'annule') {
+        return;
+      }
+      db.prepare("UPDATE avoirs SET statut = 'annule' WHERE id = ?").run(avoirId);
+
+      // Take the restocked quantities back out
+      if (avoir.restockage) {
+        const lignes = db.prepare(`
+          SELECT la.produitId, la.quantite, p.nom, p.ref
+          FROM lignes_avoir la
+          JOIN produits p ON la.produitId = p.id
+          WHERE la.avoirId = ?
+        `).all(avoirId);
+        for (const ligne of lignes) {
+          const result = applyStockMovement({
+            id: crypto.randomUUID(),
+            produitId: ligne.produitId,
+            produitNom: ligne.nom,
+            produitRef: ligne.ref,
+            type: 'sortie',
+            quantite: ligne.quantite,
+            date: new Date().toISOString(),
+            source: 'avoir',
+            sourceId: avoir.id,
+            sourceNumero: avoir.numero
+          });
+          if (!result.success) {
+            throw new Error(result.error);
+          }
+        }
+      }
+
+      recordAudit('avoir', avoirId, 'annulation', avoir, { ...avoir, statut: 'annule' });
+      // The invoice is no longer fully credited
+      refreshStoredFactureStatut(avoir.factureId);
+    })();
+
+    return { success: true };
+  } catch (error) {
+    log.error('Error cancelling avoir:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Set the supplier invoice status from its validated payments
+function refreshStoredFactureFournisseurStatut(factureFournisseurId) {
+  const balance = db.prepare(`
+    SELECT ff.statut, ff.totalTTC,
+           COALESCE((SELECT SUM(p.montant) FROM paiements_fournisseur p WHERE p.factureFournisseurId = ff.id AND p.statut = 'valide'), 0) as totalPaye
+    FROM factures_fournisseur ff WHERE ff.id = ?
+  `).get(factureFournisseurId);
+  if (!balance || balance.statut === 'annulee') {
+    return;
+  }
+
+  let statut = 'a_payer';
+  if (toMillimes(balance.totalPaye) >= toMillimes(balance.totalTTC)) {
+    statut = 'payee';
+  } else if (toMillimes(balance.totalPaye) > 0) {
+    statut = 'partiellement_payee';
+  }
+
+  if (statut !== balance.statut) {
+    db.prepare('UPDATE factures_fournisseur SET statut = ? WHERE id = ?').run(statut, factureFournisseurId);
+  }
+}
+
+// Status of a supplier order from the quantities of its receptions. A closed reception ends the
+// order, one without receptions goes back to confirmed. Quantities have three decimals.
+function refreshStoredCommandeReceptionStatut(commandeId) {
+  const commande = db.prepare('SELECT statut FROM commandes_fournisseur WHERE id = ?').get(commandeId);
+  if (!commande || commande.statut === 'annulee') {
+    return;
+  }
+
+  const receptions = db.prepare('SELECT cloture FROM bons_reception WHERE commandeId = ?').all(commandeId);
+  const lignes = db.prepare(`
+    SELECT lcf.quantite,
+           COALESCE((
+             SELECT SUM(lbr.quantiteRecue) FROM lignes_bon_reception lbr
+             JOIN bons_reception br ON lbr.bonReceptionId = br.id
+             WHERE lbr.ligneCommandeId = lcf.id AND br.commandeId = lcf.commandeId
+           ), 0) as quantiteRecue
+    FROM lignes_commande_fournisseur lcf
+    WHERE lcf.commandeId = ?
+  `).all(commandeId);
+
+  let statut = commande.statut;
+  if (receptions.length === 0) {
+    if (statut === 'partiellement_recue' || statut === 'recue') {
+      statut = 'confirmee';
+    }
+  } else if (receptions.some(reception => reception.cloture) ||
+             lignes.every(ligne => toMillimes(ligne.quantiteRecue) >= toMillimes(ligne.quantite))) {
+    statut = 'recue';
+  } else {
+    statut = 'partiellement_recue';
+  }
+
+  if (statut !== commande.statut) {
+    db.prepare('UPDATE commandes_fournisseur SET statut = ? WHERE id = ?').run(statut, commandeId);
+  }
+}
+
+// Payments are recorded with the invoice as stored and the session user, an edited payment keeps
+// the user who recorded it. The invoice status follows in the same transaction.
+ipcMain.handle('save-payment', async (event, payment) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('paiements');
+
+    db.transaction(() => {
+      const facture = db.prepare(`
+        SELECT f.id, f.numero, f.statut, f.totalTTC, f.clientId, c.nom as clientNom,
+               COALESCE((SELECT SUM(a.totalTTC) FROM avoirs a WHERE a.factureId = f.id AND a.statut != 'annule'), 0) as totalAvoirs,
+               COALESCE((SELECT SUM(p.montant + COALESCE(p.montantRetenue, 0)) FROM payments p
+                         WHERE p.factureId = f.id AND p.statut = 'valide' AND p.id != ?), 0) as totalRegle
+        FROM factures f
+        JOIN clients c ON f.clientId = c.id
+        WHERE f.id = ?
+      `).get(payment.id, payment.factureId);
+      if (!facture) {
+        throw new Error('Facture introuvable');
+      }
+      if (facture.statut === 'brouillon' || facture.statut === 'annulee') {
+        throw new Error(`La facture ${facture.numero} n'est pas à régler`);
+      }
+
+      const montantRetenue = payment.tauxRetenue > 0 ? payment.montantRetenue || 0 : 0;
+      if (!(payment.montant > 0) || montantRetenue < 0) {
+        throw new Error('Le montant doit être supérieur à 0');
+      }
+      const resteAPayer = toMillimes(facture.totalTTC) - toMillimes(facture.totalAvoirs) - toMillimes(facture.totalRegle);
+      if (payment.statut === 'valide' && toMillimes(payment.montant) + toMillimes(montantRetenue) > resteAPayer) {
+        throw new Error('Le montant réglé (paiement + retenue) ne peut pas être supérieur au reste à payer');
+      }
+
+      const existing = db.prepare('SELECT utilisateur FROM payments WHERE id = ?').get(payment.id);
+      db.prepare(`
+        INSERT OR REPLACE INTO payments
+        (id, factureId, factureNumero, clientId, clientNom, montant, montantFacture, tauxRetenue, montantRetenue, date, methode, reference, notes, statut, utilisateur)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        payment.id,
+        facture.id,
+        facture.numero,
+        facture.clientId,
+        facture.clientNom,
+        payment.montant,
+        facture.totalTTC,
+        payment.tauxRetenue || 0,
+        montantRetenue,
+        toISOString(payment.date),
+        payment.methode,
+        payment.reference || null,
+        payment.notes || null,
+        payment.statut,
+        existing ? existing.utilisateur : getAuditUser()
+      );
+
+      refreshStoredFactureStatut(facture.id);
+    })();
+
+    return { success: true };
+  } catch (error) {
+    log.error('Error saving payment:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('delete-payment', async (event, paymentId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('paiements');
+
+    db.transaction(() => {
+      const payment = db.prepare('SELECT factureId FROM payments WHERE id = ?').get(paymentId);
+      if (!payment) {
+        return;
+      }
+      db.prepare('DELETE FROM payments WHERE id = ?').run(paymentId);
+      refreshStoredFactureStatut(payment.factureId);
+    })();
+
+    return { success: true };
+  } catch (error) {
+    log.error('Error deleting payment:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Invoice of received supplier orders, the orders are marked as invoiced
+ipcMain.handle('create-facture-fournisseur', async (event, factureFournisseur) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures-fournisseur', 'commandes-fournisseur');
+
+    db.transaction(() => {
+      const existing = db.prepare('SELECT id FROM factures_fournisseur WHERE fournisseurId = ? AND numero = ?')
+        .get(factureFournisseur.fournisseur.id, factureFournisseur.numero);
+      if (existing) {
+        throw new Error(`La facture ${factureFournisseur.numero} de ce fournisseur est déjà enregistrée`);
+      }
+      for (const commande of factureFournisseur.commandes) {
+        const stored = db.prepare('SELECT numero, factureFournisseurId FROM commandes_fournisseur WHERE id = ?').get(commande.id);
+        if (!stored || stored.factureFournisseurId) {
+          throw new Error(`La commande ${commande.numero} est déjà facturée`);
+        }
+      }
+
+      db.prepare(`
+        INSERT INTO factures_fournisseur
+        (id, numero, date, dateEcheance, fournisseurId, totalHT, totalFodec, totalTVA, timbre, totalTTC, ajustements, statut, notes, utilisateur)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'a_payer', ?, ?)
+      `).run(
+        factureFournisseur.id,
+        factureFournisseur.numero,
+        toISOString(factureFournisseur.date),
+        toISOString(factureFournisseur.dateEcheance),
+        factureFournisseur.fournisseur.id,
+        factureFournisseur.totalHT,
+        factureFournisseur.totalFodec || 0,
+        factureFournisseur.totalTVA,
+        factureFournisseur.timbre || 0,
+        factureFournisseur.totalTTC,
+        JSON.stringify(factureFournisseur.ajustements || []),
+        factureFournisseur.notes || '',
+        getAuditUser()
+      );
+
+      const insertLigne = db.prepare(`
+        INSERT INTO lignes_facture_fournisseur
+        (id, factureFournisseurId, commandeId, produitId, quantite, prixUnitaire, remise, montantHT, montantFodec, baseTVA, montantTVA, montantTTC, tauxTVA, tauxFodec)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const ligne of factureFournisseur.lignes) {
+        insertLigne.run(
+          ligne.id,
+          factureFournisseur.id,
+          ligne.commandeId || null,
+          ligne.produit.id,
+          ligne.quantite,
+          ligne.prixUnitaire,
+          ligne.remise || 0,
+          ligne.montantHT,
+          ligne.montantFodec,
+          ligne.baseTVA,
+          ligne.montantTVA,
+          ligne.montantTTC,
+          ligne.produit.tva,
+          ligne.produit.fodecApplicable ? ligne.produit.tauxFodec : 0
+        );
+      }
+
+      for (const commande of factureFournisseur.commandes) {
+        db.prepare('UPDATE commandes_fournisseur SET factureFournisseurId = ? WHERE id = ?').run(factureFournisseur.id, commande.id);
+      }
+      refreshStoredFactureFournisseurStatut(factureFournisseur.id);
+    })();
+
+    return { success: true };
+  } catch (error) {
+    log.error('Error creating supplier invoice:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// A supplier invoice with validated payments can't be cancelled or deleted
+const assertFactureFournisseurSansPaiement = (factureFournisseurId) => {
+  const paye = db.prepare("SELECT COUNT(*) as count FROM paiements_fournisseur WHERE factureFournisseurId = ? AND statut = 'valide'").get(factureFournisseurId);
+  if (paye.count > 0) {
+    throw new Error('Cette facture a des paiements, supprimez-les d\'abord');
+  }
+};
+
+ipcMain.handle('cancel-facture-fournisseur', async (event, factureFournisseurId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures-fournisseur');
+
+    db.transaction(() => {
+      assertFactureFournisseurSansPaiement(factureFournisseurId);
+      db.prepare("UPDATE factures_fournisseur SET statut = 'annulee' WHERE id = ?").run(factureFournisseurId);
+    })();
+
+    return { success: true };
+  } catch (error) {
+    log.error('Error cancelling supplier invoice:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Deleting the invoice releases its orders so they can be invoiced again
+ipcMain.handle('delete-facture-fournisseur', async (event, factureFournisseurId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures-fournisseur');
+
+    db.transaction(() => {
+      assertFactureFournisseurSansPaiement(factureFournisseurId);
+      db.prepare('DELETE FROM paiements_fournisseur WHERE factureFournisseurId = ?').run(factureFournisseurId);
+      db.prepare('DELETE FROM lignes_facture_fournisseur WHERE factureFournisseurId = ?').run(factureFournisseurId);
+      db.prepare('UPDATE commandes_fournisseur SET factureFournisseurId = NULL WHERE factureFournisseurId = ?').run(factureFournisseurId);
+      db.prepare('DELETE FROM factures_fournisseur WHERE id = ?').run(factureFournisseurId);
+    })();
+
+    return { success: true };
+  } catch (error) {
+    log.error('Error deleting supplier invoice:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('save-paiement-fournisseur', async (event, paiement) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures-fournisseur');
+
+    db.transaction(() => {
+      const facture = db.prepare(`
+        SELECT ff.id, ff.numero, ff.statut, ff.totalTTC, ff.fournisseurId, f.nom as fournisseurNom,
+               COALESCE((SELECT SUM(p.montant) FROM paiements_fournisseur p
+                         WHERE p.factureFournisseurId = ff.id AND p.statut = 'valide' AND p.id != ?), 0) as totalPaye
+        FROM factures_fournisseur ff
+        JOIN fournisseurs f ON ff.fournisseurId = f.id
+        WHERE ff.id = ?
+      `).get(paiement.id, paiement.factureFournisseurId);
+      if (!facture) {
+        throw new Error('Facture fournisseur introuvable');
+      }
+      if (facture.statut === 'annulee') {
+        throw new Error(`La facture fournisseur ${facture.numero} est annulée`);
+      }
+      if (!(paiement.montant > 0)) {
+        throw new Error('Le montant doit être supérieur à 0');
+      }
+      if (paiement.statut === 'valide' && toMillimes(paiement.montant) > toMillimes(facture.totalTTC) - toMillimes(facture.totalPaye)) {
+        throw new Error('Le montant ne peut pas être supérieur au reste à payer');
+      }
+
+      const existing = db.prepare('SELECT utilisateur FROM paiements_fournisseur WHERE id = ?').get(paiement.id);
+      db.prepare(`
+        INSERT OR REPLACE INTO paiements_fournisseur
+        (id, factureFournisseurId, factureNumero, fournisseurId, fournisseurNom, montant, montantFacture, date, methode, reference, notes, statut, utilisateur)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        paiement.id,
+        facture.id,
+        facture.numero,
+        facture.fournisseurId,
+        facture.fournisseurNom,
+        paiement.montant,
+        facture.totalTTC,
+        toISOString(paiement.date),
+        paiement.methode,
+        paiement.reference || null,
+        paiement.notes || null,
+        paiement.statut,
+        existing ? existing.utilisateur : getAuditUser()
+      );
+
+      refreshStoredFactureFournisseurStatut(facture.id);
+    })();
+
+    return { success: true };
+  } catch (error) {
+    log.error('Error saving supplier payment:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('delete-paiement-fournisseur', async (event, paiementId) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures-fournisseur');
+
+    db.transaction(() => {
+      const paiement = db.prepare('SELECT factureFournisseurId FROM paiements_fournisseur WHERE id = ?').get(paiementId);
+      if (!paiement) {
+        return;
+      }
+      db.prepare('DELETE FROM paiements_fournisseur WHERE id = ?').run(paiementId);
+      refreshStoredFactureFournisseurStatut(paiement.factureFournisseurId);
+    })();
+
+    return { success: true };
+  } catch (error) {
+    log.error('Error deleting supplier payment:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Counter key of a number pattern: the year for yearly sequences, 0 when the year is not in the number
+function getNumberingYear(pattern, date) {
+  return /\{YY(YY)?\}/.test(pattern) ? date.getFullYear() : 0;
+}
+
+function formatDocumentNumber(settings, date, sequence) {
+  return settings.pattern.replace(/\{(PREFIX|YYYY|YY|SEQ)(?::(\d+))?\}/g, (token, name, width) => {
+    switch (name) {
+      case 'PREFIX': return settings.prefix;
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return String(date.getFullYear()).slice(-2);
+      default: return String(sequence).padStart(Number(width || 1), '0');
+    }
+  });
+}
+
+// Settings, counter key and next sequence of a document type for a document date
+function getNumberingState(documentType, date) {
+  const result = db.prepare('SELECT value FROM settings WHERE key = ?').get('numbering');
+  const settings = { ...defaultNumberingSettings[documentType], ...(result ? JSON.parse(result.value)[documentType] : {}) };
+  const annee = getNumberingYear(settings.pattern, date);
+  const counter = db.prepare('SELECT nextNumber FROM numbering_counters WHERE documentType = ? AND annee = ?').get(documentType, annee);
+
+  return { settings, annee, sequence: counter ? counter.nextNumber : settings.startNumber };
+}
+
+// Next number of a document sequence. Must run inside the transaction saving the document
+// so a number is only consumed when the document is written, which keeps sequences gap-free.
+function takeDocumentNumber(documentType, documentDate) {
+  const date = new Date(documentDate || Date.now());
+  const { settings, annee, sequence } = getNumberingState(documentType, date);
+
+  db.prepare(`
+    INSERT INTO numbering_counters (documentType, annee, nextNumber) VALUES (?, ?, ?)
+    ON CONFLICT(documentType, annee) DO UPDATE SET nextNumber = excluded.nextNumber
+  `).run(documentType, annee, sequence + 1);
+
+  return formatDocumentNumber(settings, date, sequence);
+}
+
+// Keep track of a number that was issued and no longer belongs to any document
+function recordVoidedNumber(documentType, numero, documentId, motif) {
+  db.prepare(`
+    INSERT INTO numeros_annules (id, documentType, numero, documentId, motif)
+    VALUES (lower(hex(randomblob(16))), ?, ?, ?, ?)
+  `).run(documentType, numero, documentId, motif);
+}
+
+// Number the next document of a type would get, without reserving it
+ipcMain.handle('preview-document-number', async (event, documentType, documentDate) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    const date = new Date(documentDate || Date.now());
+    const { settings, sequence } = getNumberingState(documentType, date);
+    return formatDocumentNumber(settings, date, sequence);
+  } catch (error) {
+    log.error('Error previewing document number:', error);
+    return '';
+  }
+});
+
+ipcMain.handle('list-voided-numbers', async () => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    return db.prepare('SELECT * FROM numeros_annules ORDER BY created_at DESC').all();
+  } catch (error) {
+    log.error('Error listing voided numbers:', error);
+    return [];
+  }
+});
+
+// Update the product stock and record the movement
+function applyStockMovement(movement) {
+  // Get stock settings
+  const settingsResult = db.prepare('SELECT value FROM settings WHERE key = ?').get('stockSettings');
+  const stockSettings = settingsResult ? JSON.parse(settingsResult.value) : { allowNegativeStock: true };
+  
+  // Check if negative stock is allowed
+  if (!stockSettings.allowNegativeStock && movement.type === 'sortie') {
+    const product = db.prepare('SELECT stock FROM produits WHERE id = ?').get(movement.produitId);
+    if (product && (product.stock < movement.quantite)) {
+      return { 
+        success: false, 
+        error: 'Stock insuffisant et stock négatif non autorisé',
+        currentStock: product.stock
+      };
+    }
+  }
+  
+  // Update product stock
+  const updateStmt = db.prepare(`
+    UPDATE produits 
+    SET stock = stock ${movement.type === 'entree' ? '+' : '-'} ? 
+    WHERE id = ?
+  `);
+  
+  updateStmt.run(movement.quantite, movement.produitId);
+  
+  // Record movement
+  const insertStmt = db.prepare(`
+    INSERT INTO stock_movements 
+    (id, produitId, produitNom, produitRef, type, quantite, date, source, sourceId, sourceNumero, utilisateur)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  
+  insertStmt.run(
+    movement.id,
+    movement.produitId,
+    movement.produitNom,
+    movement.produitRef || null,
+    movement.type,
+    movement.quantite,
+    movement.date,
+    movement.source,
+    movement.sourceId,
+    movement.sourceNumero,
+    getAuditUser()
+  );
+  
+  return { success: true };
+}
+
+// Columns an import may write and the page it belongs to
+const importDefinitions = {
+  clients: {
+    table: 'clients',
+    page: 'clients',
+    columns: ['code', 'nom', 'adresse', 'codePostal', 'ville', 'telephone', 'email', 'siret', 'matriculeFiscal'],
+    defaults: {}
+  },
+  produits: {
+    table: 'produits',
+    page: 'produits',
+    columns: ['ref', 'nom', 'description', 'prixUnitaire', 'tva', 'fodecApplicable', 'tauxFodec', 'type'],
+    defaults: { tva: 19, fodecApplicable: 0, tauxFodec: 1, stock: 0 }
+  }
+};
+
+// Import the rows in a single transaction: a failing row imports nothing. Imported stock
+// quantities go through stock movements, from the current stock of the product.
+ipcMain.handle('import-records', async (event, type, records) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    const definition = importDefinitions[type];
+    if (!definition) {
+      throw new Error(`Unknown import type: ${type}`);
+    }
+    assertPermission(definition.page);
+    if (records.some(record => record.stock !== undefined)) {
+      assertPermission('stock');
+    }
+
+    const counts = db.transaction(() => {
+      let imported = 0;
+      let updated = 0;
+      records.forEach(record => {
+        try {
+          const columns = {};
+          definition.columns
+            .filter(column => record.columns[column] !== undefined)
+            .forEach(column => { columns[column] = record.columns[column]; });
+          const names = Object.keys(columns);
+
+          let id = record.existingId;
+          if (id) {
+            if (names.length > 0) {
+              db.prepare(`UPDATE ${definition.table} SET ${names.map(name => `${name} = ?`).join(', ')} WHERE id = ?`)
+                .run(...names.map(name => columns[name]), id);
+            }
+            updated++;
+          } else {
+            id = crypto.randomUUID();
+            const data = { ...definition.defaults, ...columns, id };
+            const insertNames = Object.keys(data);
+            db.prepare(`INSERT INTO ${definition.table} (${insertNames.join(', ')}) VALUES (${insertNames.map(() => '?').join(', ')})`)
+              .run(...insertNames.map(name => data[name]));
+            imported++;
+          }
+
+          if (type === 'produits' && record.stock !== undefined) {
+            const produit = db.prepare('SELECT nom, ref, stock FROM produits WHERE id = ?').get(id);
+            const ecart = record.stock - (produit.stock || 0);
+            if (ecart !== 0) {
+              const result = applyStockMovement({
+                id: crypto.randomUUID(),
+                produitId: id,
+                produitNom: produit.nom,
+                produitRef: produit.ref,
+                type: ecart > 0 ? 'entree' : 'sortie',
+                quantite: Math.abs(ecart),
+                date: new Date().toISOString(),
+                source: 'import',
+                sourceId: null,
+                sourceNumero: null
+              });
+              if (!result.success) {
+                throw new Error(result.error);
+              }
+            }
+          }
+        } catch (error) {
+          throw new Error(`Ligne ${record.rowNumber}: ${error.message}`);
+        }
+      });
+      return { imported, updated };
+    })();
+
+    log.info(`Imported ${counts.imported} and updated ${counts.updated} ${type}`);
+    return { success: true, ...counts };
+  } catch (error) {
+    log.error('Error importing records:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Stock movement tracking with better error handling
+ipcMain.handle('track-stock-movement', async (event, movement) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('stock', 'factures', 'commandes-fournisseur');
+    
+    return applyStockMovement(movement);
+  } catch (error) {
+    log.error('Error tracking stock movement:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('save-pdf', async (event, pdfData, filename) => {
+  try {
+    const result = await dialog.showSaveDialog(mainWindow, {
+      defaultPath: filename,
+      filters: [
+        { name: 'PDF Files', extensions: ['pdf'] }
+      ]
+    });
+
+    if (!result.canceled) {
+      fs.writeFileSync(result.filePath, Buffer.from(pdfData));
+      return { success: true, path: result.filePath };
+    }
+    return { success: false };
+  } catch (error) {
+    log.error('Error saving PDF:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('save-excel', async (event, excelData, filename) => {
+  try {
+    const result = await dialog.showSaveDialog(mainWindow, {
+      defaultPath: filename,
+      filters: [
+        { name: 'Excel Files', extensions: ['xlsx'] }
+      ]
+    });
+
+    if (!result.canceled) {
+      fs.writeFileSync(result.filePath, Buffer.from(excelData));
+      return { success: true, path: result.filePath };
     }
-    
-    // Update product stock
-    const updateStmt = db.prepare(`
-      UPDATE produits 
-      SET stock = stock ${movement.type === 'entree' ? '+' : '-'} ? 
-      WHERE id = ?
-    `);
-    
-    updateStmt.run(movement.quantite, movement.produitId);
-    
-    // Record movement
-    const insertStmt = db.prepare(`
-      INSERT INTO stock_movements 
-      (id, produitId, produitNom, produitRef, type, quantite, date, source, sourceId, sourceNumero)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-    
-    insertStmt.run(
-      movement.id,
-      movement.produitId,
-      movement.produitNom,
-      movement.produitRef || null,
-      movement.type,
-      movement.quantite,
-      movement.date,
-      movement.source,
-      movement.sourceId,
-      movement.sourceNumero
-    );
-    
-    return { success: true };
+    return { success: false };
   } catch (error) {
-    log.error('Error tracking stock movement:', error);
+    log.error('Error saving Excel file:', error);
     return { success: false, error: error.message };
   }
 });
 
-ipcMain.handle('save-pdf', async (event, pdfData, filename) => {
+// The TEIF export is written unsigned and checked by TTN when it is submitted. Only validated
+// invoices are exported, drafts can still change.
+ipcMain.handle('save-teif', async (event, factureId, xmlContent, filename) => {
   try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('factures');
+
+    const facture = db.prepare('SELECT numero, statut FROM factures WHERE id = ?').get(factureId);
+    if (!facture) {
+      throw new Error('Facture introuvable');
+    }
+    if (facture.statut === 'brouillon') {
+      throw new Error(`La facture ${facture.numero} est un brouillon : validez-la avant de l'exporter au format TEIF`);
+    }
+
     const result = await dialog.showSaveDialog(mainWindow, {
       defaultPath: filename,
       filters: [
-        { name: 'PDF Files', extensions: ['pdf'] }
+        { name: 'XML Files', extensions: ['xml'] }
       ]
     });
 
     if (!result.canceled) {
-      fs.writeFileSync(result.filePath, Buffer.from(pdfData));
+      fs.writeFileSync(result.filePath, xmlContent, 'utf8');
       return { success: true, path: result.filePath };
     }
     return { success: false };
   } catch (error) {
-    log.error('Error saving PDF:', error);
+    log.error('Error saving TEIF:', error);
     return { success: false, error: error.message };
   }
 });
@@ -1038,23 +3627,224 @@ ipcMain.handle('get-app-version', () => {
 });
 
 // Database backup and restore
+// Backups: copies taken with the SQLite backup API, on demand, on a schedule and on quit.
+// Each copy is checked for integrity and listed in a history file kept next to the
+// database rather than in it, so that restoring a backup does not rewrite the history.
+
+const defaultBackupSettings = {
+  enabled: true,
+  folder: '', // empty for the backups folder of the application data
+  frequency: 'daily', // 'daily', 'weekly' or 'none'
+  onQuit: true,
+  keepCount: 7, // automatic backups kept for each kind, the most recent ones
+  keepDays: 90 // automatic backups older than this are removed, 0 to keep them
+};
+
+const backupIntervals = {
+  daily: { type: 'quotidienne', days: 1 },
+  weekly: { type: 'hebdomadaire', days: 7 }
+};
+
+const getBackupHistoryPath = () => path.join(app.getPath('userData'), 'backup-history.json');
+
+function getBackupSettings() {
+  const result = db.prepare('SELECT value FROM settings WHERE key = ?').get('backupSettings');
+  return { ...defaultBackupSettings, ...(result ? JSON.parse(result.value) : {}) };
+}
+
+function getBackupFolder(settings) {
+  return settings.folder || path.join(app.getPath('userData'), 'backups');
+}
+
+function readBackupHistory() {
+  const historyPath = getBackupHistoryPath();
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+  try {
+    return JSON.parse(fs.readFileSync(historyPath, 'utf8'));
+  } catch (error) {
+    log.error('Unreadable backup history, starting a new one:', error);
+    return [];
+  }
+}
+
+function writeBackupHistory(entries) {
+  fs.writeFileSync(getBackupHistoryPath(), JSON.stringify(entries, null, 2), 'utf8');
+}
+
+// Result of SQLite's integrity check on a backup file
+function checkBackupIntegrity(backupPath) {
+  let backupDb;
+  try {
+    backupDb = new Database(backupPath, { readonly: true, fileMustExist: true });
+    const result = backupDb.pragma('integrity_check', { simple: true });
+    return result === 'ok' ? { integrite: true } : { integrite: false, erreur: String(result) };
+  } catch (error) {
+    return { integrite: false, erreur: error.message };
+  } finally {
+    if (backupDb) {
+      backupDb.close();
+    }
+  }
+}
+
+// Remove the automatic backups of a kind beyond the retention rules, always keeping the latest
+function pruneBackups(type, settings) {
+  const now = Date.now();
+  const history = readBackupHistory();
+  const expired = history
+    .filter(entry => entry.type === type)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .filter((entry, index) => index > 0 && (
+      index >= settings.keepCount ||
+      (settings.keepDays > 0 && now - new Date(entry.date).getTime() > settings.keepDays * 24 * 60 * 60 * 1000)
+    ));
+
+  for (const entry of expired) {
+    try {
+      if (fs.existsSync(entry.path)) {
+        fs.unlinkSync(entry.path);
+      }
+      log.info('Expired backup removed:', entry.path);
+    } catch (error) {
+      log.error('Error removing expired backup:', entry.path, error);
+    }
+  }
+  writeBackupHistory(history.filter(entry => !expired.includes(entry)));
+}
+
+// Copy the open database, check the copy and record it in the history
+async function createBackup(type, backupPath) {
+  const settings = getBackupSettings();
+  if (!backupPath) {
+    const folder = getBackupFolder(settings);
+    if (!fs.existsSync(folder)) {
+      fs.mkdirSync(folder, { recursive: true });
+    }
+    backupPath = path.join(folder, `facturation_${type}_${format(new Date(), 'yyyyMMdd_HHmmss')}.db`);
+  }
+
+  await db.backup(backupPath);
+
+  const entry = {
+    id: crypto.randomUUID(),
+    path: backupPath,
+    type,
+    date: new Date().toISOString(),
+    taille: fs.statSync(backupPath).size,
+    schemaVersion: getSchemaVersion(db),
+    ...checkBackupIntegrity(backupPath)
+  };
+  writeBackupHistory([...readBackupHistory(), entry]);
+  log.info(`Backup ${type} created:`, backupPath, entry.integrite ? 'integrity ok' : entry.erreur);
+
+  if (type !== 'manuelle') {
+    pruneBackups(type, settings);
+  }
+  return entry;
+}
+
+// Take the daily or weekly backup when the last one is old enough
+async function runScheduledBackup() {
+  try {
+    if (!db || !db.open) {
+      return;
+    }
+    const settings = getBackupSettings();
+    const interval = backupIntervals[settings.frequency];
+    if (!settings.enabled || !interval) {
+      return;
+    }
+
+    const last = readBackupHistory()
+      .filter(entry => entry.type === interval.type && fs.existsSync(entry.path))
+      .map(entry => new Date(entry.date).getTime())
+      .sort((a, b) => b - a)[0];
+    if (!last || Date.now() - last >= interval.days * 24 * 60 * 60 * 1000) {
+      await createBackup(interval.type);
+    }
+  } catch (error) {
+    log.error('Scheduled backup failed:', error);
+  }
+}
+
+// Checked shortly after start and then every hour, so a computer that is not left on
+// still gets its backups
+function scheduleAutomaticBackups() {
+  setTimeout(runScheduledBackup, 60 * 1000);
+  setInterval(runScheduledBackup, 60 * 60 * 1000);
+}
+
+function waitForActiveTransactions() {
+  return new Promise(resolve => {
+    if (activeTransactions === 0) {
+      resolve(true);
+      return;
+    }
+    const checkInterval = setInterval(() => {
+      if (activeTransactions === 0) {
+        clearInterval(checkInterval);
+        resolve(true);
+      }
+    }, 100);
+  });
+}
+
+// Replace facturation.db by a checked backup file and reopen it. When the backup cannot be
+// opened or migrated, the database saved just before is put back.
+async function replaceDatabase(backupPath) {
+  // Back up the current database first, the restoration can be undone from the history
+  const previous = await createBackup('avant_restauration');
+  if (!previous.integrite) {
+    throw new Error(`La sauvegarde des données actuelles a échoué : ${previous.erreur}`);
+  }
+
+  const userDataPath = app.getPath('userData');
+  const dbPath = path.join(userDataPath, 'facturation.db');
+
+  const openDatabaseFrom = (sourcePath) => {
+    // Close current database connection
+    if (db.open) {
+      db.close();
+    }
+
+    // Copy the backup file to the database location
+    fs.copyFileSync(sourcePath, dbPath);
+
+    // Reopen the database
+    db = new Database(dbPath, { verbose: log.info });
+
+    // Enable foreign keys and WAL mode
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    db.pragma('busy_timeout = 5000'); // Set busy timeout to 5 seconds
+
+    // Upgrade a backup taken by an older version
+    runMigrations();
+  };
+
+  try {
+    openDatabaseFrom(backupPath);
+  } catch (error) {
+    log.error('Restored database could not be opened, putting the previous one back:', error);
+    openDatabaseFrom(previous.path);
+    throw new Error(`La restauration a échoué, vos données actuelles ont été remises en place : ${error.message}`);
+  }
+
+  // The restored database has its own accounts
+  currentUser = null;
+}
+
 ipcMain.handle('backup-database', async (event) => {
   try {
     if (!db) {
       throw new Error('Database not initialized');
     }
+    assertPermission('parametres');
     
     // Wait for any active transactions to complete
-    if (activeTransactions > 0) {
-      await new Promise(resolve => {
-        const checkInterval = setInterval(() => {
-          if (activeTransactions === 0) {
-            clearInterval(checkInterval);
-            resolve(true);
-          }
-        }, 100);
-      });
-    }
+    await waitForActiveTransactions();
     
     const result = await dialog.showSaveDialog(mainWindow, {
       title: 'Sauvegarder la base de données',
@@ -1068,23 +3858,10 @@ ipcMain.handle('backup-database', async (event) => {
       return { success: false };
     }
     
-    const userDataPath = app.getPath('userData');
-    const dbPath = path.join(userDataPath, 'facturation.db');
-    
-    // Create a backup using better-sqlite3 backup API
-    const backupDb = new Database(result.filePath, { fileMustExist: false });
-    
-    // Backup the database
-    db.backup(backupDb)
-      .then(() => {
-        log.info('Database backup completed successfully');
-        backupDb.close();
-      })
-      .catch(err => {
-        log.error('Database backup failed:', err);
-        backupDb.close();
-        throw err;
-      });
+    const entry = await createBackup('manuelle', result.filePath);
+    if (!entry.integrite) {
+      return { success: false, path: result.filePath, error: `La sauvegarde est corrompue : ${entry.erreur}` };
+    }
     
     return { success: true, path: result.filePath };
   } catch (error) {
@@ -1093,37 +3870,93 @@ ipcMain.handle('backup-database', async (event) => {
   }
 });
 
-ipcMain.handle('restore-database', async (event) => {
+// Backup into the configured folder, without asking for a path
+ipcMain.handle('run-backup', async () => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    const entry = await createBackup('manuelle');
+    return { success: entry.integrite, entry, error: entry.erreur };
+  } catch (error) {
+    log.error('Error running backup:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Backups still on disk, most recent first
+ipcMain.handle('list-backups', async () => {
+  try {
+    assertPermission('parametres');
+
+    return readBackupHistory()
+      .filter(entry => fs.existsSync(entry.path))
+      .sort((a, b) => b.date.localeCompare(a.date));
+  } catch (error) {
+    log.error('Error listing backups:', error);
+    return [];
+  }
+});
+
+ipcMain.handle('choose-backup-folder', async () => {
+  try {
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'Dossier des sauvegardes automatiques',
+      properties: ['openDirectory', 'createDirectory']
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false };
+    }
+    return { success: true, path: result.filePaths[0] };
+  } catch (error) {
+    log.error('Error choosing backup folder:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Restore the given backup from the history, or one picked in a dialog
+ipcMain.handle('restore-database', async (event, selectedPath) => {
   try {
     if (!db) {
       throw new Error('Database not initialized');
     }
+    assertPermission('parametres');
     
     // Wait for any active transactions to complete
-    if (activeTransactions > 0) {
-      await new Promise(resolve => {
-        const checkInterval = setInterval(() => {
-          if (activeTransactions === 0) {
-            clearInterval(checkInterval);
-            resolve(true);
-          }
-        }, 100);
+    await waitForActiveTransactions();
+    
+    let backupPath = selectedPath;
+    if (!backupPath) {
+      const result = await dialog.showOpenDialog(mainWindow, {
+        title: 'Restaurer la base de données',
+        filters: [
+          { name: 'Database Files', extensions: ['db'] }
+        ],
+        properties: ['openFile']
       });
+      
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false };
+      }
+      
+      backupPath = result.filePaths[0];
     }
     
-    const result = await dialog.showOpenDialog(mainWindow, {
-      title: 'Restaurer la base de données',
-      filters: [
-        { name: 'Database Files', extensions: ['db'] }
-      ],
-      properties: ['openFile']
-    });
-    
-    if (result.canceled || result.filePaths.length === 0) {
-      return { success: false };
+    const integrity = checkBackupIntegrity(backupPath);
+    if (!integrity.integrite) {
+      return { success: false, error: `Cette sauvegarde est corrompue : ${integrity.erreur}` };
     }
     
-    const backupPath = result.filePaths[0];
+    // Refuse backups made by a newer version, older ones are migrated once restored
+    const backupDb = new Database(backupPath, { readonly: true, fileMustExist: true });
+    const backupVersion = getSchemaVersion(backupDb);
+    backupDb.close();
+    if (backupVersion > LATEST_SCHEMA_VERSION) {
+      return { success: false, error: 'Cette sauvegarde provient d\'une version plus récente de l\'application' };
+    }
     
     // Confirm restoration
     const confirmResult = await dialog.showMessageBox(mainWindow, {
@@ -1139,26 +3972,7 @@ ipcMain.handle('restore-database', async (event) => {
       return { success: false };
     }
     
-    // Close current database connection
-    db.close();
-    
-    const userDataPath = app.getPath('userData');
-    const dbPath = path.join(userDataPath, 'facturation.db');
-    
-    // Create a backup of the current database before restoring
-    const currentBackupPath = path.join(userDataPath, `facturation_before_restore_${Date.now()}.db`);
-    fs.copyFileSync(dbPath, currentBackupPath);
-    
-    // Copy the backup file to the database location
-    fs.copyFileSync(backupPath, dbPath);
-    
-    // Reopen the database
-    db = new Database(dbPath, { verbose: log.info });
-    
-    // Enable foreign keys and WAL mode
-    db.pragma('journal_mode = WAL');
-    db.pragma('foreign_keys = ON');
-    db.pragma('busy_timeout = 5000'); // Set busy timeout to 5 seconds
+    await replaceDatabase(backupPath);
     
     return { success: true };
   } catch (error) {
@@ -1167,6 +3981,173 @@ ipcMain.handle('restore-database', async (event) => {
   }
 });
 
+// Encrypted archives: the database and its manifest in one password-protected file that can
+// be moved to another computer. Layout: magic, salt, IV and GCM tag, then the encrypted gzip
+// of the manifest length (4 bytes), the manifest JSON and the database.
+
+const ARCHIVE_MAGIC = Buffer.from('FPBAK1');
+
+const deriveArchiveKey = (password, salt) => crypto.scryptSync(password, salt, 32);
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest('hex');
+
+async function createBackupArchive(password) {
+  const tempPath = path.join(os.tmpdir(), `facturation_archive_${Date.now()}.db`);
+  try {
+    await db.backup(tempPath);
+    const database = fs.readFileSync(tempPath);
+
+    const manifest = {
+      format: 1,
+      appVersion: app.getVersion(),
+      schemaVersion: getSchemaVersion(db),
+      date: new Date().toISOString(),
+      taille: database.length,
+      checksum: sha256(database)
+    };
+    const manifestData = Buffer.from(JSON.stringify(manifest), 'utf8');
+    const manifestLength = Buffer.alloc(4);
+    manifestLength.writeUInt32BE(manifestData.length);
+    const payload = zlib.gzipSync(Buffer.concat([manifestLength, manifestData, database]));
+
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', deriveArchiveKey(password, salt), iv);
+    const encrypted = Buffer.concat([cipher.update(payload), cipher.final()]);
+
+    return { manifest, archive: Buffer.concat([ARCHIVE_MAGIC, salt, iv, cipher.getAuthTag(), encrypted]) };
+  } finally {
+    if (fs.existsSync(tempPath)) {
+      fs.unlinkSync(tempPath);
+    }
+  }
+}
+
+// Decrypt an archive and check its checksum and version, returns the manifest and the database
+function readBackupArchive(archive, password) {
+  const headerLength = ARCHIVE_MAGIC.length + 16 + 12 + 16;
+  if (archive.length <= headerLength || !archive.subarray(0, ARCHIVE_MAGIC.length).equals(ARCHIVE_MAGIC)) {
+    throw new Error('Ce fichier n\'est pas une archive de sauvegarde Facturation Pro');
+  }
+  const salt = archive.subarray(ARCHIVE_MAGIC.length, ARCHIVE_MAGIC.length + 16);
+  const iv = archive.subarray(ARCHIVE_MAGIC.length + 16, ARCHIVE_MAGIC.length + 28);
+  const tag = archive.subarray(ARCHIVE_MAGIC.length + 28, headerLength);
+
+  let payload;
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', deriveArchiveKey(password, salt), iv);
+    decipher.setAuthTag(tag);
+    payload = zlib.gunzipSync(Buffer.concat([decipher.update(archive.subarray(headerLength)), decipher.final()]));
+  } catch (error) {
+    throw new Error('Mot de passe incorrect ou archive endommagée');
+  }
+
+  const manifestLength = payload.readUInt32BE(0);
+  const manifest = JSON.parse(payload.subarray(4, 4 + manifestLength).toString('utf8'));
+  const database = payload.subarray(4 + manifestLength);
+
+  if (database.length !== manifest.taille || sha256(database) !== manifest.checksum) {
+    throw new Error('La somme de contrôle ne correspond pas : l\'archive est endommagée');
+  }
+  if (manifest.schemaVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(`Cette archive provient d'une version plus récente de l'application (${manifest.appVersion})`);
+  }
+  return { manifest, database };
+}
+
+ipcMain.handle('export-backup-archive', async (event, password) => {
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    if (!password || password.length < 8) {
+      return { success: false, error: 'Le mot de passe de l\'archive doit contenir au moins 8 caractères' };
+    }
+
+    await waitForActiveTransactions();
+
+    const result = await dialog.showSaveDialog(mainWindow, {
+      title: 'Exporter une archive chiffrée',
+      defaultPath: `facturation_${format(new Date(), 'yyyy-MM-dd')}.fpbak`,
+      filters: [
+        { name: 'Archive de sauvegarde', extensions: ['fpbak'] }
+      ]
+    });
+
+    if (result.canceled) {
+      return { success: false };
+    }
+
+    const { manifest, archive } = await createBackupArchive(password);
+    fs.writeFileSync(result.filePath, archive);
+    log.info('Encrypted backup archive exported:', result.filePath);
+
+    return { success: true, path: result.filePath, manifest };
+  } catch (error) {
+    log.error('Error exporting backup archive:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('restore-backup-archive', async (event, password) => {
+  const tempPath = path.join(os.tmpdir(), `facturation_restore_${Date.now()}.db`);
+  try {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    assertPermission('parametres');
+
+    await waitForActiveTransactions();
+
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'Restaurer une archive chiffrée',
+      filters: [
+        { name: 'Archive de sauvegarde', extensions: ['fpbak'] }
+      ],
+      properties: ['openFile']
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false };
+    }
+
+    const { manifest, database } = readBackupArchive(fs.readFileSync(result.filePaths[0]), password);
+    fs.writeFileSync(tempPath, database);
+
+    const integrity = checkBackupIntegrity(tempPath);
+    if (!integrity.integrite) {
+      return { success: false, error: `Cette sauvegarde est corrompue : ${integrity.erreur}` };
+    }
+
+    const confirmResult = await dialog.showMessageBox(mainWindow, {
+      type: 'warning',
+      title: 'Confirmer la restauration',
+      message: 'Êtes-vous sûr de vouloir restaurer cette archive ?',
+      detail: `Sauvegarde du ${new Date(manifest.date).toLocaleString('fr-FR')}, créée par la version ${manifest.appVersion}.\n` +
+        'Cette opération remplacera toutes vos données actuelles.',
+      buttons: ['Restaurer', 'Annuler'],
+      cancelId: 1
+    });
+
+    if (confirmResult.response === 1) {
+      return { success: false };
+    }
+
+    await replaceDatabase(tempPath);
+    log.info('Encrypted backup archive restored:', result.filePaths[0]);
+
+    return { success: true, manifest };
+  } catch (error) {
+    log.error('Error restoring backup archive:', error);
+    return { success: false, error: error.message };
+  } finally {
+    if (fs.existsSync(tempPath)) {
+      fs.unlinkSync(tempPath);
+    }
+  }
+});
+
 // Activation system
 ipcMain.handle('activate-app', async (event, activationCode) => {
   try {
@@ -11,11 +11,317 @@ contextBridge.exposeInMainWorld('electronAPI', {
       throw error;
     }
   },
-  getFactures: async () => {
+  // Entity repositories
+  listClients: async () => {
     try {
-      return await ipcRenderer.invoke('get-factures');
+      return await ipcRenderer.invoke('list-clients');
     } catch (error) {
-      console.error('Error in getFactures:', error);
+      console.error('Error in listClients:', error);
+      throw error;
+    }
+  },
+  saveClient: async (client) => {
+    try {
+      return await ipcRenderer.invoke('save-client', client);
+    } catch (error) {
+      console.error('Error in saveClient:', error);
+      throw error;
+    }
+  },
+  deleteClient: async (clientId) => {
+    try {
+      return await ipcRenderer.invoke('delete-client', clientId);
+    } catch (error) {
+      console.error('Error in deleteClient:', error);
+      throw error;
+    }
+  },
+  deleteProduit: async (produitId) => {
+    try {
+      return await ipcRenderer.invoke('delete-produit', produitId);
+    } catch (error) {
+      console.error('Error in deleteProduit:', error);
+      throw error;
+    }
+  },
+  saveProduit: async (produit) => {
+    try {
+      return await ipcRenderer.invoke('save-produit', produit);
+    } catch (error) {
+      console.error('Error in saveProduit:', error);
+      throw error;
+    }
+  },
+  saveFournisseur: async (fournisseur) => {
+    try {
+      return await ipcRenderer.invoke('save-fournisseur', fournisseur);
+    } catch (error) {
+      console.error('Error in saveFournisseur:', error);
+      throw error;
+    }
+  },
+  deleteFournisseur: async (fournisseurId) => {
+    try {
+      return await ipcRenderer.invoke('delete-fournisseur', fournisseurId);
+    } catch (error) {
+      console.error('Error in deleteFournisseur:', error);
+      throw error;
+    }
+  },
+  listFactures: async (filter) => {
+    try {
+      return await ipcRenderer.invoke('list-factures', filter);
+    } catch (error) {
+      console.error('Error in listFactures:', error);
+      throw error;
+    }
+  },
+  saveDocument: async (type, document, stockMovements) => {
+    try {
+      return await ipcRenderer.invoke('save-document', type, document, stockMovements);
+    } catch (error) {
+      console.error('Error in saveDocument:', error);
+      throw error;
+    }
+  },
+  previewDocumentNumber: async (documentType, documentDate) => {
+    try {
+      return await ipcRenderer.invoke('preview-document-number', documentType, documentDate);
+    } catch (error) {
+      console.error('Error in previewDocumentNumber:', error);
+      throw error;
+    }
+  },
+  listVoidedNumbers: async () => {
+    try {
+      return await ipcRenderer.invoke('list-voided-numbers');
+    } catch (error) {
+      console.error('Error in listVoidedNumbers:', error);
+      throw error;
+    }
+  },
+  deleteDocument: async (type, documentId, stockMovements) => {
+    try {
+      return await ipcRenderer.invoke('delete-document', type, documentId, stockMovements);
+    } catch (error) {
+      console.error('Error in deleteDocument:', error);
+      throw error;
+    }
+  },
+  updateDocumentStatut: async (type, documentId, statut) => {
+    try {
+      return await ipcRenderer.invoke('update-document-statut', type, documentId, statut);
+    } catch (error) {
+      console.error('Error in updateDocumentStatut:', error);
+      throw error;
+    }
+  },
+  deleteFacture: async (factureId) => {
+    try {
+      return await ipcRenderer.invoke('delete-facture', factureId);
+    } catch (error) {
+      console.error('Error in deleteFacture:', error);
+      throw error;
+    }
+  },
+  updateFactureStatut: async (factureId, statut) => {
+    try {
+      return await ipcRenderer.invoke('update-facture-statut', factureId, statut);
+    } catch (error) {
+      console.error('Error in updateFactureStatut:', error);
+      throw error;
+    }
+  },
+  listAuditLog: async (entityType, entityId) => {
+    try {
+      return await ipcRenderer.invoke('list-audit-log', entityType, entityId);
+    } catch (error) {
+      console.error('Error in listAuditLog:', error);
+      throw error;
+    }
+  },
+  // User accounts
+  getSession: async () => {
+    try {
+      return await ipcRenderer.invoke('get-session');
+    } catch (error) {
+      console.error('Error in getSession:', error);
+      throw error;
+    }
+  },
+  login: async (login, password) => {
+    try {
+      return await ipcRenderer.invoke('login', login, password);
+    } catch (error) {
+      console.error('Error in login:', error);
+      throw error;
+    }
+  },
+  logout: async () => {
+    try {
+      return await ipcRenderer.invoke('logout');
+    } catch (error) {
+      console.error('Error in logout:', error);
+      throw error;
+    }
+  },
+  listUsers: async () => {
+    try {
+      return await ipcRenderer.invoke('list-users');
+    } catch (error) {
+      console.error('Error in listUsers:', error);
+      throw error;
+    }
+  },
+  saveUser: async (user, password) => {
+    try {
+      return await ipcRenderer.invoke('save-user', user, password);
+    } catch (error) {
+      console.error('Error in saveUser:', error);
+      throw error;
+    }
+  },
+  deleteUser: async (userId) => {
+    try {
+      return await ipcRenderer.invoke('delete-user', userId);
+    } catch (error) {
+      console.error('Error in deleteUser:', error);
+      throw error;
+    }
+  },
+  listExchangeRates: async () => {
+    try {
+      return await ipcRenderer.invoke('list-exchange-rates');
+    } catch (error) {
+      console.error('Error in listExchangeRates:', error);
+      throw error;
+    }
+  },
+  getExchangeRate: async (devise, date) => {
+    try {
+      return await ipcRenderer.invoke('get-exchange-rate', devise, date);
+    } catch (error) {
+      console.error('Error in getExchangeRate:', error);
+      throw error;
+    }
+  },
+  saveExchangeRate: async (rate) => {
+    try {
+      return await ipcRenderer.invoke('save-exchange-rate', rate);
+    } catch (error) {
+      console.error('Error in saveExchangeRate:', error);
+      throw error;
+    }
+  },
+  deleteExchangeRate: async (rateId) => {
+    try {
+      return await ipcRenderer.invoke('delete-exchange-rate', rateId);
+    } catch (error) {
+      console.error('Error in deleteExchangeRate:', error);
+      throw error;
+    }
+  },
+  listPriceLists: async () => {
+    try {
+      return await ipcRenderer.invoke('list-price-lists');
+    } catch (error) {
+      console.error('Error in listPriceLists:', error);
+      throw error;
+    }
+  },
+  savePriceList: async (liste) => {
+    try {
+      return await ipcRenderer.invoke('save-price-list', liste);
+    } catch (error) {
+      console.error('Error in savePriceList:', error);
+      throw error;
+    }
+  },
+  deletePriceList: async (listeId) => {
+    try {
+      return await ipcRenderer.invoke('delete-price-list', listeId);
+    } catch (error) {
+      console.error('Error in deletePriceList:', error);
+      throw error;
+    }
+  },
+  getAvoirs: async () => {
+    try {
+      return await ipcRenderer.invoke('get-avoirs');
+    } catch (error) {
+      console.error('Error in getAvoirs:', error);
+      throw error;
+    }
+  },
+  cancelAvoir: async (avoirId) => {
+    try {
+      return await ipcRenderer.invoke('cancel-avoir', avoirId);
+    } catch (error) {
+      console.error('Error in cancelAvoir:', error);
+      throw error;
+    }
+  },
+  savePayment: async (payment) => {
+    try {
+      return await ipcRenderer.invoke('save-payment', payment);
+    } catch (error) {
+      console.error('Error in savePayment:', error);
+      throw error;
+    }
+  },
+  deletePayment: async (paymentId) => {
+    try {
+      return await ipcRenderer.invoke('delete-payment', paymentId);
+    } catch (error) {
+      console.error('Error in deletePayment:', error);
+      throw error;
+    }
+  },
+  createFactureFournisseur: async (factureFournisseur) => {
+    try {
+      return await ipcRenderer.invoke('create-facture-fournisseur', factureFournisseur);
+    } catch (error) {
+      console.error('Error in createFactureFournisseur:', error);
+      throw error;
+    }
+  },
+  cancelFactureFournisseur: async (factureFournisseurId) => {
+    try {
+      return await ipcRenderer.invoke('cancel-facture-fournisseur', factureFournisseurId);
+    } catch (error) {
+      console.error('Error in cancelFactureFournisseur:', error);
+      throw error;
+    }
+  },
+  deleteFactureFournisseur: async (factureFournisseurId) => {
+    try {
+      return await ipcRenderer.invoke('delete-facture-fournisseur', factureFournisseurId);
+    } catch (error) {
+      console.error('Error in deleteFactureFournisseur:', error);
+      throw error;
+    }
+  },
+  savePaiementFournisseur: async (paiement) => {
+    try {
+      return await ipcRenderer.invoke('save-paiement-fournisseur', paiement);
+    } catch (error) {
+      console.error('Error in savePaiementFournisseur:', error);
+      throw error;
+    }
+  },
+  deletePaiementFournisseur: async (paiementId) => {
+    try {
+      return await ipcRenderer.invoke('delete-paiement-fournisseur', paiementId);
+    } catch (error) {
+      console.error('Error in deletePaiementFournisseur:', error);
+      throw error;
+    }
+  },
+  importRecords: async (type, records) => {
+    try {
+      return await ipcRenderer.invoke('import-records', type, records);
+    } catch (error) {
+      console.error('Error in importRecords:', error);
       throw error;
     }
   },
@@ -35,12 +341,33 @@ contextBridge.exposeInMainWorld('electronAPI', {
       throw error;
     }
   },
+  saveExcel: async (excelData, filename) => {
+    try {
+      return await ipcRenderer.invoke('save-excel', excelData, filename);
+    } catch (error) {
+      console.error('Error in saveExcel:', error);
+      throw error;
+    }
+  },
+  saveTEIF: async (factureId, xmlContent, filename) => {
+    try {
+      return await ipcRenderer.invoke('save-teif', factureId, xmlContent, filename);
+    } catch (error) {
+      console.error('Error in saveTEIF:', error);
+      throw error;
+    }
+  },
   // Add methods for checking for updates manually
   checkForUpdates: () => ipcRenderer.invoke('check-for-updates'),
   getAppVersion: () => ipcRenderer.invoke('get-app-version'),
   // Add methods for database backup and restore
   backupDatabase: () => ipcRenderer.invoke('backup-database'),
-  restoreDatabase: () => ipcRenderer.invoke('restore-database'),
+  restoreDatabase: (backupPath) => ipcRenderer.invoke('restore-database', backupPath),
+  runBackup: () => ipcRenderer.invoke('run-backup'),
+  listBackups: () => ipcRenderer.invoke('list-backups'),
+  chooseBackupFolder: () => ipcRenderer.invoke('choose-backup-folder'),
+  exportBackupArchive: (password) => ipcRenderer.invoke('export-backup-archive', password),
+  restoreBackupArchive: (password) => ipcRenderer.invoke('restore-backup-archive', password),
   // Add methods for activation
   activateApp: (activationCode) => ipcRenderer.invoke('activate-app', activationCode),
   checkActivation: () => ipcRenderer.invoke('check-activation'),
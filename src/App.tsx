@@ -5,6 +5,7 @@ import FacturesList from './components/FacturesList';
 import DevisList from './components/DevisList';
 import BonLivraisonList from './components/BonLivraisonList';
 import CommandeFournisseurList from './components/CommandeFournisseurList';
+import FacturesFournisseurList from './components/FacturesFournisseurList';
 import PaymentsList from './components/PaymentsList';
 import ClientsList from './components/ClientsList';
 import FournisseursList from './components/FournisseursList';
@@ -13,20 +14,21 @@ import StockPage from './components/StockPage';
 import Rapport from './components/Rapport';
 import Settings from './components/Settings';
 import ActivationDialog from './components/ActivationDialog';
-import PasswordProtection from './components/PasswordProtection';
-import { Facture, Devis, BonLivraison, CommandeFournisseur } from './types';
+import LoginScreen from './components/LoginScreen';
+import { Facture, Devis, BonLivraison, CommandeFournisseur, Session } from './types';
 import { useDatabase } from './hooks/useDatabase';
 import { NotificationProvider } from './contexts/NotificationContext';
+import { SessionProvider } from './contexts/SessionContext';
+import { loadAppSettings } from './utils/appSettings';
 
 function App() {
   const [currentPage, setCurrentPage] = useState('dashboard');
   const [isLoading, setIsLoading] = useState(true);
   const [dbError, setDbError] = useState<string | null>(null);
   const [showActivation, setShowActivation] = useState(false);
-  const [showPasswordProtection, setShowPasswordProtection] = useState(false);
-  const [isPasswordChecked, setIsPasswordChecked] = useState(false);
+  const [session, setSession] = useState<Session | null>(null);
   const [activationStatus, setActivationStatus] = useState<any>(null);
-  const { isReady, isActivated, checkActivation, dbError: databaseError } = useDatabase();
+  const { isReady, isActivated, checkActivation, getSession, logout, query, dbError: databaseError } = useDatabase();
 
   useEffect(() => {
     // Check if database is ready
@@ -37,8 +39,8 @@ function App() {
           console.log('Activation required:', result);
           setShowActivation(true);
         } else {
-          // Check password protection after activation
-          checkPasswordProtection();
+          // Load the user session after activation
+          refreshSession();
         }
         setIsLoading(false);
       }).catch(error => {
@@ -59,33 +61,33 @@ function App() {
     }
   }, [isReady, databaseError]);
 
-  const checkPasswordProtection = async () => {
+  // Preferences are read before the pages format their amounts, once the database may be read
+  const openSession = async (nextSession: Session) => {
+    if (nextSession.pages.length > 0) {
+      await loadAppSettings(query).catch(error => {
+        console.error('Error loading settings:', error);
+      });
+    }
+    setSession(nextSession);
+  };
+
+  const refreshSession = async () => {
     try {
-      if (typeof window !== 'undefined' && window.electronAPI) {
-        const result = await window.electronAPI.dbQuery('SELECT value FROM settings WHERE key = ?', ['appPassword']);
-        if (result.length > 0) {
-          setShowPasswordProtection(true);
-        } else {
-          setIsPasswordChecked(true);
-        }
-      } else {
-        // For web version
-        const savedPassword = localStorage.getItem('appPassword');
-        if (savedPassword) {
-          setShowPasswordProtection(true);
-        } else {
-          setIsPasswordChecked(true);
-        }
-      }
+      await openSession(await getSession());
     } catch (error) {
-      console.error('Error checking password protection:', error);
-      setIsPasswordChecked(true);
+      console.error('Error loading session:', error);
+      setDbError("Erreur lors du chargement de la session. Veuillez redémarrer l'application.");
     }
   };
 
-  const handlePasswordUnlock = () => {
-    setShowPasswordProtection(false);
-    setIsPasswordChecked(true);
+  const handleLogout = async () => {
+    try {
+      await logout();
+      setCurrentPage('dashboard');
+      await refreshSession();
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
   };
 
   // Check for demo expiration periodically
@@ -156,8 +158,11 @@ function App() {
     console.log('Delete commande fournisseur:', id);
   };
 
+  // Pages outside the user's profile fall back to the dashboard
+  const page = session?.pages.includes(currentPage) ? currentPage : 'dashboard';
+
   const renderCurrentPage = () => {
-    switch (currentPage) {
+    switch (page) {
       case 'dashboard':
         return <Dashboard onPageChange={setCurrentPage} />;
       case 'factures':
@@ -192,6 +197,8 @@ function App() {
             onDelete={handleDeleteCommandeFournisseur}
           />
         );
+      case 'factures-fournisseur':
+        return <FacturesFournisseurList />;
       case 'paiements':
         return <PaymentsList />;
       case 'clients':
@@ -249,11 +256,11 @@ function App() {
     return <ActivationDialog isOpen={true} onClose={() => setShowActivation(false)} />;
   }
 
-  if (showPasswordProtection) {
-    return <PasswordProtection isOpen={true} onUnlock={handlePasswordUnlock} />;
+  if (session?.usersEnabled && !session.user) {
+    return <LoginScreen isOpen={true} onLogin={openSession} />;
   }
 
-  if (!isPasswordChecked) {
+  if (!session) {
     return (
       <div className="flex items-center justify-center h-screen bg-gray-100">
         <div className="text-center p-8 bg-white rounded-lg shadow-lg">
@@ -266,11 +273,13 @@ function App() {
   }
 
   return (
-    <NotificationProvider>
-      <Layout currentPage={currentPage} onPageChange={setCurrentPage}>
-        {renderCurrentPage()}
-      </Layout>
-    </NotificationProvider>
+    <SessionProvider session={session} refreshSession={refreshSession} logout={handleLogout}>
+      <NotificationProvider>
+        <Layout currentPage={page} onPageChange={setCurrentPage}>
+          {renderCurrentPage()}
+        </Layout>
+      </NotificationProvider>
+    </SessionProvider>
   );
 }
 
@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, History } from 'lucide-react';
+import { AuditLogEntry } from '../types';
+import { useDatabase } from '../hooks/useDatabase';
+import { useNotification } from '../contexts/NotificationContext';
+
+interface AuditLogDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entityType: AuditLogEntry['entityType'];
+  entityId: string | null;
+  title: string;
+}
+
+const ACTION_LABELS: Record<AuditLogEntry['action'], string> = {
+  creation: 'Création',
+  modification: 'Modification',
+  validation: 'Validation',
+  statut: 'Changement de statut',
+  suppression: 'Suppression'
+};
+
+// Recorded fields shown in the change details, in display order
+const FIELD_LABELS: Record<string, string> = {
+  numero: 'Numéro',
+  date: 'Date',
+  dateEcheance: 'Échéance',
+  statut: 'Statut',
+  totalHT: 'Total HT',
+  totalFodec: 'FODEC',
+  totalTVA: 'TVA',
+  totalCharges: 'Charges',
+  totalTTC: 'Total TTC',
+  devise: 'Devise',
+  tauxChange: 'Taux de change',
+  notes: 'Notes'
+};
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (field === 'date' || field === 'dateEcheance') return new Date(String(value)).toLocaleDateString('fr-FR');
+  if (typeof value === 'number') return value.toFixed(3);
+  return String(value);
+};
+
+const countLignes = (state: Record<string, unknown>) => Array.isArray(state.lignes) ? state.lignes.length : 0;
+
+// Human readable differences between the recorded states
+const getChanges = (entry: AuditLogEntry) => {
+  const { avant, apres } = entry;
+  if (!avant || !apres) return [];
+
+  const changes = Object.keys(FIELD_LABELS)
+    .filter(field => JSON.stringify(avant[field]) !== JSON.stringify(apres[field]))
+    .map(field => `${FIELD_LABELS[field]} : ${formatValue(field, avant[field])} → ${formatValue(field, apres[field])}`);
+
+  if (JSON.stringify(avant.lignes) !== JSON.stringify(apres.lignes)) {
+    changes.push(`Lignes : ${countLignes(avant)} → ${countLignes(apres)} (contenu modifié)`);
+  }
+  return changes;
+};
+
+const AuditLogDialog: React.FC<AuditLogDialogProps> = ({ isOpen, onClose, entityType, entityId, title }) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const { listAuditLog, isReady } = useDatabase();
+  const { showNotification } = useNotification();
+
+  const loadEntries = useCallback(async () => {
+    if (!entityId) return;
+
+    setLoading(true);
+    try {
+      setEntries(await listAuditLog(entityType, entityId));
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      showNotification('Erreur lors du chargement de l\'historique', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, entityId, listAuditLog, showNotification]);
+
+  useEffect(() => {
+    if (isOpen && isReady && entityId) {
+      loadEntries();
+    }
+  }, [isOpen, isReady, entityId, loadEntries]);
+
+  if (!isOpen || !entityId) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold flex items-center">
+            <History className="w-6 h-6 mr-2 text-gray-600" />
+            {title}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-80px)]">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">Aucune modification enregistrée</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 border">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Utilisateur</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Détails</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {entries.map(entry => (
+                  <tr key={entry.id} className="align-top">
+                    <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">
+                      {new Date(`${entry.created_at.replace(' ', 'T')}Z`).toLocaleString('fr-FR')}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{entry.utilisateur}</td>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">{ACTION_LABELS[entry.action] || entry.action}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">
+                      {getChanges(entry).map(change => (
+                        <div key={change}>{change}</div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogDialog;
@@ -0,0 +1,432 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Save, RefreshCw, FileText, User, Package } from 'lucide-react';
+import { Avoir, LigneAvoir, Facture, DocumentStockMovement, Produit } from '../types';
+import { formatCurrency } from '../utils/currency';
+import { calculateAvoirTotals, LigneACrediter } from '../utils/productTaxCalculator';
+import { getQuantiteRestante } from '../utils/money';
+import { useDatabase } from '../hooks/useDatabase';
+import { useNotification } from '../contexts/NotificationContext';
+import { v4 as uuidv4 } from 'uuid';
+
+interface AvoirFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (avoir: Avoir) => void;
+  facture: Facture | null;
+}
+
+// Invoice line with its product and the quantity already credited
+interface LigneFactureRow {
+  id: string;
+  produitId: string;
+  ref: string;
+  nom: string;
+  description: string;
+  stock: number;
+  type: Produit['type'] | null;
+  produitPrix: number;
+  tauxTVA: number;
+  tauxFodec: number;
+  quantite: number;
+  prixUnitaire: number;
+  remise: number | null;
+  montantHT: number;
+  montantFodec: number | null;
+  baseTVA: number | null;
+  montantTVA: number | null;
+  montantTTC: number;
+  quantiteCreditee: number;
+}
+
+const MOTIFS = [
+  'Retour de marchandise',
+  'Erreur de facturation',
+  'Remise commerciale',
+  'Annulation de la facture'
+];
+
+const AvoirForm: React.FC<AvoirFormProps> = ({ isOpen, onClose, onSave, facture }) => {
+  const [numero, setNumero] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [motif, setMotif] = useState(MOTIFS[0]);
+  const [restockage, setRestockage] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [lignes, setLignes] = useState<LigneACrediter[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { query, saveDocument, previewDocumentNumber, isElectron, isReady } = useDatabase();
+  const { showNotification } = useNotification();
+
+  // Invoice lines with the quantities already credited by previous credit notes
+  const loadLignes = useCallback(async () => {
+    if (!facture || !isElectron) return;
+
+    try {
+      const result = await query(`
+        SELECT lf.*, p.ref, p.nom, p.description, p.stock, p.type,
+               p.prixUnitaire as produitPrix,
+               COALESCE((
+                 SELECT SUM(la.quantite) FROM lignes_avoir la
+                 JOIN avoirs a ON la.avoirId = a.id
+                 WHERE la.ligneFactureId = lf.id AND a.statut != 'annule'
+               ), 0) as quantiteCreditee
+        FROM lignes_facture lf
+        JOIN produits p ON lf.produitId = p.id
+        WHERE lf.factureId = ?
+      `, [facture.id]);
+
+      setLignes(result.map((ligne: LigneFactureRow) => {
+        const restant = getQuantiteRestante(ligne.quantite, ligne.quantiteCreditee);
+        return {
+          ligneFacture: {
+            id: ligne.id,
+            produit: {
+              id: ligne.produitId,
+              ref: ligne.ref,
+              nom: ligne.nom,
+              description: ligne.description,
+              prixUnitaire: ligne.produitPrix,
+              tva: ligne.tauxTVA,
+              fodecApplicable: ligne.tauxFodec > 0,
+              tauxFodec: ligne.tauxFodec || 1,
+              stock: ligne.stock,
+              type: ligne.type || 'vente'
+            },
+            quantite: ligne.quantite,
+            prixUnitaire: ligne.prixUnitaire,
+            remise: ligne.remise || 0,
+            montantHT: ligne.montantHT,
+            montantFodec: ligne.montantFodec || 0,
+            baseTVA: ligne.baseTVA || 0,
+            montantTVA: ligne.montantTVA || 0,
+            montantTTC: ligne.montantTTC
+          },
+          quantiteFacturee: ligne.quantite,
+          quantiteCreditee: ligne.quantiteCreditee,
+          quantite: restant
+        };
+      }));
+    } catch (error) {
+      console.error('Error loading facture lines:', error);
+      showNotification('Erreur lors du chargement des lignes de la facture', 'error');
+    }
+  }, [facture, isElectron, query, showNotification]);
+
+  useEffect(() => {
+    if (isOpen && isReady && facture) {
+      setDate(new Date().toISOString().split('T')[0]);
+      setMotif(MOTIFS[0]);
+      setRestockage(true);
+      setNotes('');
+      previewDocumentNumber('avoirs').then(setNumero);
+      loadLignes();
+    }
+  }, [isOpen, isReady, facture, previewDocumentNumber, loadLignes]);
+
+  const handleQuantiteChange = (index: number, value: number) => {
+    setLignes(prev => prev.map((ligne, i) => {
+      if (i !== index) return ligne;
+      const restant = getQuantiteRestante(ligne.quantiteFacturee, ligne.quantiteCreditee);
+      return { ...ligne, quantite: Math.min(Math.max(0, value || 0), restant) };
+    }));
+  };
+
+  // The credit note takes its share of the invoice's global discount, fees and charges
+  const totals = calculateAvoirTotals(facture || {}, lignes);
+  const lignesAvoir: LigneAvoir[] = totals.lignes.map(ligne => ({
+    ...ligne,
+    id: uuidv4(),
+    ligneFactureId: ligne.id
+  }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (isSubmitting || !isReady || !facture) return;
+
+    if (lignesAvoir.length === 0) {
+      showNotification('Veuillez indiquer au moins une quantité à créditer', 'warning');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const avoir: Avoir = {
+        id: uuidv4(),
+        numero: '', // Numbered when the save is committed
+        date: new Date(date),
+        factureId: facture.id,
+        factureNumero: facture.numero,
+        client: facture.client,
+        lignes: lignesAvoir,
+        totalHT: totals.totalHT,
+        totalFodec: totals.totalFodec,
+        totalTVA: totals.totalTVA,
+        montantRemise: totals.montantRemise,
+        frais: totals.frais,
+        totalFrais: totals.totalFrais,
+        ajustements: totals.ajustements,
+        charges: totals.charges,
+        totalCharges: totals.totalCharges,
+        totalTTC: totals.totalTTC,
+        motif,
+        restockage,
+        statut: 'valide',
+        notes: notes.trim() || undefined
+      };
+
+      // Returned goods go back into stock
+      const stockMovements: DocumentStockMovement[] = restockage
+        ? avoir.lignes.map(ligne => ({
+            id: uuidv4(),
+            produitId: ligne.produit.id,
+            produitNom: ligne.produit.nom,
+            produitRef: ligne.produit.ref,
+            type: 'entree',
+            quantite: ligne.quantite,
+            date: avoir.date.toISOString(),
+            source: 'avoir'
+          }))
+        : [];
+
+      const result = await saveDocument('avoir', avoir, stockMovements);
+      if (!result.success || !result.document) {
+        throw new Error(result.error || "Erreur lors de la sauvegarde de l'avoir");
+      }
+
+      showNotification(`Avoir ${result.document.numero} créé avec succès`, 'success');
+      onSave(result.document);
+    } catch (error) {
+      console.error('Error saving avoir:', error);
+      showNotification("Erreur lors de la sauvegarde de l'avoir: " + (error instanceof Error ? error.message : 'Erreur inconnue'), 'error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !facture) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold flex items-center">
+            <RefreshCw className="w-6 h-6 mr-2 text-red-600" />
+            Nouvel avoir {numero && <span className="ml-2 text-gray-500">{numero}</span>}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            disabled={isSubmitting}
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 overflow-y-auto max-h-[calc(90vh-140px)]">
+          <div className="space-y-6">
+            {/* Original invoice */}
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex items-center">
+                  <FileText className="w-5 h-5 text-red-600 mr-2" />
+                  <div>
+                    <h4 className="font-medium text-red-900">Facture {facture.numero}</h4>
+                    <p className="text-sm text-red-700">
+                      <User className="w-4 h-4 inline mr-1" />
+                      {facture.client.nom}
+                    </p>
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="text-lg font-bold text-red-700">
+                    {formatCurrency(facture.totalTTC)}
+                  </div>
+                  <div className="text-xs text-red-600">Montant facturé</div>
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Date de l'avoir *
+                </label>
+                <input
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  required
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Motif *
+                </label>
+                <select
+                  value={motif}
+                  onChange={(e) => setMotif(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  disabled={isSubmitting}
+                >
+                  {MOTIFS.map(m => (
+                    <option key={m} value={m}>{m}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Lines to credit */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Lignes à créditer</h3>
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Produit</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Facturé</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Déjà crédité</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">À créditer</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Prix unitaire</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {lignes.map((ligne, index) => {
+                      const restant = getQuantiteRestante(ligne.quantiteFacturee, ligne.quantiteCreditee);
+                      return (
+                        <tr key={ligne.ligneFacture.id} className={restant <= 0 ? 'bg-gray-50 text-gray-400' : ''}>
+                          <td className="px-4 py-2 text-sm">
+                            <div className="flex items-center">
+                              <Package className="w-4 h-4 mr-2 text-gray-400" />
+                              <div>
+                                <div className="font-medium">{ligne.ligneFacture.produit.nom}</div>
+                                {ligne.ligneFacture.produit.ref && (
+                                  <div className="text-xs text-gray-500">{ligne.ligneFacture.produit.ref}</div>
+                                )}
+                              </div>
+                            </div>
+                          </td>
+                          <td className="px-4 py-2 text-sm text-right">{ligne.quantiteFacturee}</td>
+                          <td className="px-4 py-2 text-sm text-right">{ligne.quantiteCreditee}</td>
+                          <td className="px-4 py-2 text-right">
+                            <input
+                              type="number"
+                              value={ligne.quantite}
+                              onChange={(e) => handleQuantiteChange(index, parseInt(e.target.value))}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                              min="0"
+                              max={restant}
+                              disabled={isSubmitting || restant <= 0}
+                            />
+                          </td>
+                          <td className="px-4 py-2 text-sm text-right">{formatCurrency(ligne.ligneFacture.prixUnitaire)}</td>
+                        </tr>
+                      );
+                    })}
+                    {lignes.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="px-4 py-4 text-center text-sm text-gray-500">
+                          Aucune ligne sur cette facture
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={restockage}
+                onChange={(e) => setRestockage(e.target.checked)}
+                className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+                disabled={isSubmitting}
+              />
+              <span className="text-sm text-gray-700">Remettre les quantités créditées en stock</span>
+            </label>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                placeholder="Notes additionnelles..."
+                disabled={isSubmitting}
+              />
+            </div>
+
+            {/* Totals */}
+            <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+              {!!totals.montantRemise && (
+                <div className="flex justify-between">
+                  <span>Remise globale</span>
+                  <span>-{formatCurrency(totals.montantRemise)}</span>
+                </div>
+              )}
+              {!!totals.totalFrais && (
+                <div className="flex justify-between">
+                  <span>Frais</span>
+                  <span>{formatCurrency(totals.totalFrais)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span>Total HT</span>
+                <span>{formatCurrency(totals.totalHT)}</span>
+              </div>
+              {totals.totalFodec > 0 && (
+                <div className="flex justify-between">
+                  <span>FODEC</span>
+                  <span>{formatCurrency(totals.totalFodec)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span>TVA</span>
+                <span>{formatCurrency(totals.totalTVA)}</span>
+              </div>
+              {(totals.charges || []).map(charge => (
+                <div key={charge.taxId} className="flex justify-between">
+                  <span>{charge.nom}</span>
+                  <span>{formatCurrency(charge.montant)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-bold text-red-700 text-base pt-1 border-t">
+                <span>Total avoir TTC</span>
+                <span>{formatCurrency(totals.totalTTC)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-4 mt-6 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              disabled={isSubmitting}
+            >
+              Annuler
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isSubmitting || !isReady || lignesAvoir.length === 0}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {isSubmitting ? 'Enregistrement...' : "Enregistrer l'avoir"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AvoirForm;
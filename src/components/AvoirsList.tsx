@@ -1,27 +1,30 @@
 import React, { useState, useEffect } from 'react';
-import { X, FileDown, Printer, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, RefreshCw } from 'lucide-react';
-import { Facture } from '../types';
-import { generateFacturePDF } from '../utils/pdfGenerator';
+import { X, FileDown, Printer, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, RefreshCw, Ban } from 'lucide-react';
+import { Avoir } from '../types';
+import { generateAvoirPDF } from '../utils/pdfGenerator';
 import { formatCurrency } from '../utils/currency';
 import { useDatabase } from '../hooks/useDatabase';
+import { useNotification } from '../contexts/NotificationContext';
 
 interface AvoirsListProps {
   isOpen: boolean;
   onClose: () => void;
+  onChange?: () => void;
 }
 
 type SortField = 'numero' | 'date' | 'totalTTC' | 'client';
 type SortDirection = 'asc' | 'desc';
 
-const AvoirsList: React.FC<AvoirsListProps> = ({ isOpen, onClose }) => {
-  const [avoirs, setAvoirs] = useState<Facture[]>([]);
+const AvoirsList: React.FC<AvoirsListProps> = ({ isOpen, onClose, onChange }) => {
+  const [avoirs, setAvoirs] = useState<Avoir[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [sortField, setSortField] = useState<SortField>('numero');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [loading, setLoading] = useState(true);
   
-  const { getFactures, savePDF, isElectron, isReady } = useDatabase();
+  const { getAvoirs, cancelAvoir, savePDF, isElectron, isReady } = useDatabase();
+  const { showNotification } = useNotification();
 
   useEffect(() => {
     if (isOpen && isReady) {
@@ -33,23 +36,11 @@ const AvoirsList: React.FC<AvoirsListProps> = ({ isOpen, onClose }) => {
     setLoading(true);
     try {
       if (isElectron) {
-        const data = await getFactures();
-        // Filter to only include avoirs (credit notes) which start with AV-
-        const avoirsData = data.filter(f => f.numero.startsWith('AV-'));
-        setAvoirs(avoirsData);
+        const data = await getAvoirs();
+        setAvoirs(data);
       } else {
-        // Load from localStorage for web version
-        const savedFactures = localStorage.getItem('factures');
-        if (savedFactures) {
-          const parsedFactures = JSON.parse(savedFactures).map((f: any) => ({
-            ...f,
-            date: new Date(f.date),
-            dateEcheance: new Date(f.dateEcheance)
-          }));
-          // Filter to only include avoirs (credit notes) which start with AV-
-          const avoirsData = parsedFactures.filter((f: any) => f.numero.startsWith('AV-'));
-          setAvoirs(avoirsData);
-        }
+        // Credit notes are only stored in the desktop database
+        setAvoirs([]);
       }
     } catch (error) {
       console.error('Error loading avoirs:', error);
@@ -101,7 +92,8 @@ const AvoirsList: React.FC<AvoirsListProps> = ({ isOpen, onClose }) => {
   const filteredAvoirs = sortedAvoirs.filter(avoir => {
     const matchesSearch = avoir.numero.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          avoir.client.nom.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         (avoir.notes && avoir.notes.toLowerCase().includes(searchTerm.toLowerCase()));
+                         avoir.factureNumero.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (avoir.motif && avoir.motif.toLowerCase().includes(searchTerm.toLowerCase()));
     const matchesStatus = statusFilter === 'all' || avoir.statut === statusFilter;
     return matchesSearch && matchesStatus;
   });
@@ -126,27 +118,23 @@ const AvoirsList: React.FC<AvoirsListProps> = ({ isOpen, onClose }) => {
 
   const getStatusColor = (statut: string) => {
     switch (statut) {
-      case 'brouillon': return 'bg-gray-100 text-gray-800';
-      case 'envoyee': return 'bg-blue-100 text-blue-800';
-      case 'payee': return 'bg-green-100 text-green-800';
-      case 'annulee': return 'bg-red-100 text-red-800';
+      case 'valide': return 'bg-green-100 text-green-800';
+      case 'annule': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
   const getStatusLabel = (statut: string) => {
     switch (statut) {
-      case 'brouillon': return 'Brouillon';
-      case 'envoyee': return 'Envoyé';
-      case 'payee': return 'Payé';
-      case 'annulee': return 'Annulé';
+      case 'valide': return 'Validé';
+      case 'annule': return 'Annulé';
       default: return statut;
     }
   };
 
-  const handleDownloadPDF = async (avoir: Facture) => {
+  const handleDownloadPDF = async (avoir: Avoir) => {
     try {
-      const doc = await generateFacturePDF(avoir);
+      const doc = await generateAvoirPDF(avoir);
       const pdfData = doc.output('arraybuffer');
       
       if (isElectron) {
@@ -160,9 +148,9 @@ const AvoirsList: React.FC<AvoirsListProps> = ({ isOpen, onClose }) => {
     }
   };
 
-  const handlePrint = async (avoir: Facture) => {
+  const handlePrint = async (avoir: Avoir) => {
     try {
-      const doc = await generateFacturePDF(avoir);
+      const doc = await generateAvoirPDF(avoir);
       doc.autoPrint();
       window.open(doc.output('bloburl'), '_blank');
     } catch (error) {
@@ -171,12 +159,23 @@ const AvoirsList: React.FC<AvoirsListProps> = ({ isOpen, onClose }) => {
     }
   };
 
-  // Get original invoice number from notes
-  const getOriginalInvoiceNumber = (notes?: string): string => {
-    if (!notes) return '-';
-    
-    const match = notes.match(/Avoir pour la facture ([A-Z0-9-]+)/);
-    return match ? match[1] : '-';
+  const handleCancel = async (avoir: Avoir) => {
+    if (!window.confirm(`Annuler l'avoir ${avoir.numero} ?`)) return;
+
+    try {
+      // The main process takes restocked quantities back out and updates the invoice status
+      const result = await cancelAvoir(avoir.id);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      showNotification(`Avoir ${avoir.numero} annulé`, 'success');
+      loadAvoirs();
+      onChange?.();
+    } catch (error) {
+      console.error('Error cancelling avoir:', error);
+      showNotification("Erreur lors de l'annulation de l'avoir", 'error');
+    }
   };
 
   if (!isOpen) return null;
@@ -216,10 +215,8 @@ const AvoirsList: React.FC<AvoirsListProps> = ({ isOpen, onClose }) => {
                   className="pl-10 pr-8 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
                 >
                   <option value="all">Tous les statuts</option>
-                  <option value="brouillon">Brouillon</option>
-                  <option value="envoyee">Envoyé</option>
-                  <option value="payee">Payé</option>
-                  <option value="annulee">Annulé</option>
+                  <option value="valide">Validé</option>
+                  <option value="annule">Annulé</option>
                 </select>
               </div>
               <button
@@ -235,10 +232,10 @@ const AvoirsList: React.FC<AvoirsListProps> = ({ isOpen, onClose }) => {
               <div className="flex items-start">
                 <RefreshCw className="w-5 h-5 text-red-600 mr-3 mt-0.5" />
                 <div>
-                  <h3 className="font-medium text-red-900">Avoirs (factures d'annulation)</h3>
+                  <h3 className="font-medium text-red-900">Avoirs</h3>
                   <p className="text-sm text-red-700 mt-1">
-                    Les avoirs sont des factures négatives qui annulent ou remboursent partiellement une facture existante.
-                    Ils sont identifiés par le préfixe "AV-" dans leur numéro.
+                    Un avoir crédite tout ou partie des lignes d'une facture. Son montant est déduit du reste à payer
+                    de la facture et du solde du client ; une facture entièrement créditée passe au statut annulé.
                   </p>
                 </div>
               </div>
@@ -335,8 +332,9 @@ const AvoirsList: React.FC<AvoirsListProps> = ({ isOpen, onClose }) => {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {avoir.date.toLocaleDateString('fr-FR')}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-blue-600">
-                        {getOriginalInvoiceNumber(avoir.notes)}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="text-blue-600">{avoir.factureNumero}</div>
+                        {avoir.motif && <div className="text-gray-500 text-xs">{avoir.motif}</div>}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-red-600 font-medium">
                         {formatCurrency(avoir.totalTTC)}
@@ -362,6 +360,15 @@ const AvoirsList: React.FC<AvoirsListProps> = ({ isOpen, onClose }) => {
                           >
                             <Printer className="w-4 h-4" />
                           </button>
+                          {avoir.statut === 'valide' && (
+                            <button
+                              onClick={() => handleCancel(avoir)}
+                              className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
+                              title="Annuler l'avoir"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -0,0 +1,507 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Save, Upload, Download, FolderOpen, RotateCcw, CheckCircle, AlertTriangle, HardDrive, Lock, X } from 'lucide-react';
+import { BackupEntry, BackupSettings as BackupSettingsData } from '../types';
+import { useDatabase } from '../hooks/useDatabase';
+import { useNotification } from '../contexts/NotificationContext';
+
+// Same defaults as the main process, which takes the backups
+const defaultBackupSettings: BackupSettingsData = {
+  enabled: true,
+  folder: '',
+  frequency: 'daily',
+  onQuit: true,
+  keepCount: 7,
+  keepDays: 90
+};
+
+const typeLabels: Record<BackupEntry['type'], string> = {
+  manuelle: 'Manuelle',
+  quotidienne: 'Quotidienne',
+  hebdomadaire: 'Hebdomadaire',
+  fermeture: 'À la fermeture',
+  avant_restauration: 'Avant restauration'
+};
+
+const formatTaille = (taille: number) =>
+  taille >= 1024 * 1024 ? `${(taille / (1024 * 1024)).toFixed(1)} Mo` : `${Math.ceil(taille / 1024)} Ko`;
+
+const BackupSettings: React.FC = () => {
+  const [settings, setSettings] = useState<BackupSettingsData>(defaultBackupSettings);
+  const [backups, setBackups] = useState<BackupEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [archiveMode, setArchiveMode] = useState<'export' | 'restore' | null>(null);
+  const [archivePassword, setArchivePassword] = useState('');
+  const [archiveConfirm, setArchiveConfirm] = useState('');
+
+  const { query, backupDatabase, restoreDatabase, runBackup, listBackups, chooseBackupFolder, exportBackupArchive, restoreBackupArchive, isReady } = useDatabase();
+  const { showNotification } = useNotification();
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setBackups(await listBackups());
+    } catch (error) {
+      console.error('Error loading backups:', error);
+    }
+  }, [listBackups]);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const result = await query('SELECT value FROM settings WHERE key = ?', ['backupSettings']);
+      if (result.length > 0) {
+        setSettings({ ...defaultBackupSettings, ...JSON.parse(result[0].value) });
+      }
+      await loadBackups();
+    } catch (error) {
+      console.error('Error loading backup settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [query, loadBackups]);
+
+  useEffect(() => {
+    if (isReady) {
+      loadSettings();
+    }
+  }, [isReady, loadSettings]);
+
+  const saveSettings = async () => {
+    if (settings.keepCount < 1) {
+      showNotification('Au moins une sauvegarde automatique doit être conservée', 'warning');
+      return;
+    }
+
+    try {
+      await query(
+        'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+        ['backupSettings', JSON.stringify(settings)]
+      );
+      showNotification('Paramètres de sauvegarde enregistrés avec succès', 'success');
+    } catch (error) {
+      console.error('Error saving backup settings:', error);
+      showNotification('Erreur lors de la sauvegarde des paramètres de sauvegarde', 'error');
+    }
+  };
+
+  const handleChooseFolder = async () => {
+    try {
+      const result = await chooseBackupFolder();
+      if (result.success && result.path) {
+        setSettings(prev => ({ ...prev, folder: result.path || '' }));
+      }
+    } catch (error) {
+      console.error('Error choosing backup folder:', error);
+      showNotification('Erreur lors du choix du dossier', 'error');
+    }
+  };
+
+  const handleRunBackup = async () => {
+    setIsRunning(true);
+    try {
+      const result = await runBackup();
+      if (result.success) {
+        showNotification('Sauvegarde créée et vérifiée avec succès', 'success');
+      } else {
+        showNotification(result.error || 'Erreur lors de la sauvegarde', 'error');
+      }
+      loadBackups();
+    } catch (error) {
+      console.error('Error running backup:', error);
+      showNotification('Erreur lors de la sauvegarde de la base de données', 'error');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleBackupAs = async () => {
+    try {
+      const result = await backupDatabase();
+      if (result.success) {
+        showNotification(`Sauvegarde créée avec succès dans: ${result.path}`, 'success');
+      } else if (result.error) {
+        showNotification(result.error, 'error');
+      }
+      loadBackups();
+    } catch (error) {
+      console.error('Error backing up database:', error);
+      showNotification('Erreur lors de la sauvegarde de la base de données', 'error');
+    }
+  };
+
+  const handleRestore = async (backup?: BackupEntry) => {
+    try {
+      const result = await restoreDatabase(backup?.path);
+      if (result.success) {
+        showNotification('Base de données restaurée avec succès. L\'application va redémarrer.', 'success');
+        window.location.reload();
+      } else if (result.error) {
+        showNotification(result.error, 'error');
+      } else {
+        showNotification('Restauration annulée', 'warning');
+      }
+    } catch (error) {
+      console.error('Error restoring database:', error);
+      showNotification('Erreur lors de la restauration de la base de données', 'error');
+    }
+  };
+
+  const openArchiveDialog = (mode: 'export' | 'restore') => {
+    setArchivePassword('');
+    setArchiveConfirm('');
+    setArchiveMode(mode);
+  };
+
+  const handleArchive = async () => {
+    if (archiveMode === 'export' && archivePassword !== archiveConfirm) {
+      showNotification('Les mots de passe ne correspondent pas', 'warning');
+      return;
+    }
+
+    try {
+      if (archiveMode === 'export') {
+        const result = await exportBackupArchive(archivePassword);
+        if (result.success) {
+          setArchiveMode(null);
+          showNotification(`Archive chiffrée exportée dans: ${result.path}`, 'success');
+        } else if (result.error) {
+          showNotification(result.error, 'error');
+        }
+      } else {
+        const result = await restoreBackupArchive(archivePassword);
+        if (result.success) {
+          setArchiveMode(null);
+          showNotification('Archive restaurée avec succès. L\'application va redémarrer.', 'success');
+          window.location.reload();
+        } else if (result.error) {
+          showNotification(result.error, 'error');
+        }
+      }
+    } catch (error) {
+      console.error('Error with backup archive:', error);
+      showNotification('Erreur lors du traitement de l\'archive chiffrée', 'error');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Manual backup and restore */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Sauvegarde et restauration</h3>
+
+        <div className="flex flex-wrap gap-4">
+          <button
+            onClick={handleRunBackup}
+            disabled={isRunning}
+            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center disabled:opacity-50"
+          >
+            <HardDrive className="w-4 h-4 mr-2" />
+            {isRunning ? 'Sauvegarde...' : 'Sauvegarder maintenant'}
+          </button>
+
+          <button
+            onClick={handleBackupAs}
+            className="bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Sauvegarder sous...
+          </button>
+
+          <button
+            onClick={() => handleRestore()}
+            className="bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 transition-colors flex items-center"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Restaurer depuis un fichier...
+          </button>
+        </div>
+
+        <div className="mt-6 border-t pt-4">
+          <h4 className="font-medium text-gray-900 mb-1">Archive chiffrée</h4>
+          <p className="text-sm text-gray-500 mb-3">
+            Base de données et manifeste (version, date, somme de contrôle) protégés par un mot de passe,
+            pour transférer vos données vers un autre poste ou les conserver hors de l'entreprise.
+          </p>
+          <div className="flex flex-wrap gap-4">
+            <button
+              onClick={() => openArchiveDialog('export')}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center"
+            >
+              <Lock className="w-4 h-4 mr-2" />
+              Exporter une archive chiffrée...
+            </button>
+            <button
+              onClick={() => openArchiveDialog('restore')}
+              className="bg-white text-orange-700 border border-orange-300 px-4 py-2 rounded-lg hover:bg-orange-50 transition-colors flex items-center"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Restaurer une archive chiffrée...
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-sm text-yellow-800">
+            <strong>Important :</strong> La restauration remplacera toutes vos données actuelles.
+            Une sauvegarde de la base actuelle est créée avant chaque restauration.
+          </p>
+        </div>
+      </div>
+
+      {/* Automatic backups */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Sauvegardes automatiques</h3>
+
+        <div className="space-y-4">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => setSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">Activer les sauvegardes automatiques</span>
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Fréquence
+              </label>
+              <select
+                value={settings.frequency}
+                onChange={(e) => setSettings(prev => ({ ...prev, frequency: e.target.value as BackupSettingsData['frequency'] }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={!settings.enabled}
+              >
+                <option value="daily">Tous les jours</option>
+                <option value="weekly">Toutes les semaines</option>
+                <option value="none">Aucune planification</option>
+              </select>
+            </div>
+
+            <div className="flex items-end">
+              <label className="flex items-center pb-2">
+                <input
+                  type="checkbox"
+                  checked={settings.onQuit}
+                  onChange={(e) => setSettings(prev => ({ ...prev, onQuit: e.target.checked }))}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  disabled={!settings.enabled}
+                />
+                <span className="ml-2 text-sm text-gray-700">Sauvegarder à la fermeture de l'application</span>
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Dossier des sauvegardes
+            </label>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={settings.folder}
+                readOnly
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-gray-50 text-sm"
+                placeholder="Dossier de l'application (par défaut)"
+              />
+              <button
+                onClick={handleChooseFolder}
+                className="px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors flex items-center"
+              >
+                <FolderOpen className="w-4 h-4 mr-1" />
+                Choisir
+              </button>
+              {settings.folder && (
+                <button
+                  onClick={() => setSettings(prev => ({ ...prev, folder: '' }))}
+                  className="px-3 py-2 text-gray-600 hover:text-gray-800"
+                >
+                  Par défaut
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Nombre de sauvegardes conservées
+              </label>
+              <input
+                type="number"
+                value={settings.keepCount}
+                onChange={(e) => setSettings(prev => ({ ...prev, keepCount: parseInt(e.target.value) || 0 }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                min="1"
+              />
+              <p className="text-xs text-gray-500 mt-1">Pour chaque type de sauvegarde automatique</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Durée de conservation (jours)
+              </label>
+              <input
+                type="number"
+                value={settings.keepDays}
+                onChange={(e) => setSettings(prev => ({ ...prev, keepDays: parseInt(e.target.value) || 0 }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                min="0"
+              />
+              <p className="text-xs text-gray-500 mt-1">0 pour conserver sans limite de durée. La plus récente est toujours conservée.</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <button
+            onClick={saveSettings}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Enregistrer
+          </button>
+        </div>
+      </div>
+
+      {/* History */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Historique des sauvegardes</h3>
+
+        {backups.length === 0 ? (
+          <p className="text-sm text-gray-500">Aucune sauvegarde disponible</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 border">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Taille</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Intégrité</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Fichier</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {backups.map(backup => (
+                <tr key={backup.id}>
+                  <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">
+                    {new Date(backup.date).toLocaleString('fr-FR')}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{typeLabels[backup.type] || backup.type}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">{formatTaille(backup.taille)}</td>
+                  <td className="px-4 py-2 text-sm">
+                    {backup.integrite ? (
+                      <span className="inline-flex items-center text-green-700">
+                        <CheckCircle className="w-4 h-4 mr-1" />
+                        Vérifiée
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center text-red-700" title={backup.erreur}>
+                        <AlertTriangle className="w-4 h-4 mr-1" />
+                        Corrompue
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 break-all">{backup.path}</td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => handleRestore(backup)}
+                      disabled={!backup.integrite}
+                      className="text-orange-600 hover:text-orange-800 p-1 hover:bg-orange-50 rounded transition-colors disabled:opacity-30"
+                      title="Restaurer cette sauvegarde"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Archive password */}
+      {archiveMode && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-xl font-semibold">
+                {archiveMode === 'export' ? 'Exporter une archive chiffrée' : 'Restaurer une archive chiffrée'}
+              </h2>
+              <button
+                onClick={() => setArchiveMode(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Mot de passe de l'archive
+                </label>
+                <input
+                  type="password"
+                  value={archivePassword}
+                  onChange={(e) => setArchivePassword(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder={archiveMode === 'export' ? 'Au moins 8 caractères' : ''}
+                  autoFocus
+                />
+              </div>
+
+              {archiveMode === 'export' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Confirmer le mot de passe
+                    </label>
+                    <input
+                      type="password"
+                      value={archiveConfirm}
+                      onChange={(e) => setArchiveConfirm(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Ce mot de passe ne peut pas être récupéré : sans lui, l'archive ne pourra pas être restaurée.
+                  </p>
+                </>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-4 p-6 border-t bg-gray-50">
+              <button
+                onClick={() => setArchiveMode(null)}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Annuler
+              </button>
+              <button
+                onClick={handleArchive}
+                disabled={!archivePassword}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center disabled:opacity-50"
+              >
+                <Lock className="w-4 h-4 mr-2" />
+                {archiveMode === 'export' ? 'Exporter' : 'Restaurer'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupSettings;
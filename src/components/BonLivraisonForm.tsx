@@ -2,9 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { X, Plus, Trash2, Save, User, Package, Search, Truck, Store, Calculator } from 'lucide-react';
 import { Client, Produit, LigneDocument, BonLivraison, TaxGroup, TaxGroupSummary } from '../types';
 import { useDatabase } from '../hooks/useDatabase';
+import { useAppSetting } from '../hooks/useAppSetting';
 import { formatCurrency, calculateTTC } from '../utils/currency';
-import { calculateTaxesByGroup, loadTaxGroups, ensureTaxGroupForProduct } from '../utils/productTaxCalculator';
-import { getNextDocumentNumber } from '../utils/numberGenerator';
+import { calculateTaxesByGroup, loadTaxGroups, ensureTaxGroupForProduct, calculateProductTaxes, calculateDocumentTotals } from '../utils/productTaxCalculator';
+import { sumMoney } from '../utils/money';
+import { getQuantitesFacturees } from '../utils/livraisonFacturation';
+import { refreshDevisStatut } from '../utils/devisLivraison';
 import { v4 as uuidv4 } from 'uuid';
 import ClientForm from './ClientForm';
 import ProduitForm from './ProduitForm';
@@ -49,14 +52,15 @@ const BonLivraisonForm: React.FC<BonLivraisonFormProps> = ({ isOpen, onClose, on
   const [editingProduit, setEditingProduit] = useState<Produit | null>(null);
   const [newProductType, setNewProductType] = useState<'vente' | 'achat'>('vente');
 
-  const { query, isElectron, isReady } = useDatabase();
+  const { query, saveDocument, updateDocumentStatut, previewDocumentNumber, isElectron, isReady } = useDatabase();
+  const { roundingPolicy } = useAppSetting('invoiceSettings');
   const { showNotification } = useNotification();
 
   const generateNumero = async () => {
     if (!isReady) return;
     
     try {
-      const numero = await getNextDocumentNumber('bonsLivraison', isElectron, query, false);
+      const numero = await previewDocumentNumber('bonsLivraison');
       setFormData(prev => ({ ...prev, numero }));
     } catch (error) {
       console.error('Error generating numero:', error);
@@ -218,57 +222,17 @@ const BonLivraisonForm: React.FC<BonLivraisonFormProps> = ({ isOpen, onClose, on
       const newLignes = [...lignes];
       newLignes[existingLineIndex].quantite += 1;
       
-      // Recalculate amounts with proper FODEC logic
-      const ligne = newLignes[existingLineIndex];
-      const montantHT = ligne.quantite * ligne.prixUnitaire * (1 - (ligne.remise || 0) / 100);
-      ligne.montantHT = montantHT;
-      
-      // Calculate FODEC
-      const montantFodec = ligne.produit.fodecApplicable ? 
-        montantHT * ((ligne.produit.tauxFodec || 1) / 100) : 0;
-      ligne.montantFodec = montantFodec;
-      
-      // Calculate TVA base (HT + FODEC)
-      const baseTVA = montantHT + montantFodec;
-      ligne.baseTVA = baseTVA;
-      
-      // Calculate TVA
-      const montantTVA = baseTVA * (ligne.produit.tva / 100);
-      ligne.montantTVA = montantTVA;
-      
-      // Calculate TTC
-      ligne.montantTTC = montantHT + montantFodec + montantTVA;
-      
+      newLignes[existingLineIndex] = calculateProductTaxes(newLignes[existingLineIndex]);
       setLignes(newLignes);
     } else {
       // Calculate amounts with proper FODEC logic for new line
-      const montantHT = produit.prixUnitaire;
-      
-      // Calculate FODEC
-      const montantFodec = produit.fodecApplicable ? 
-        montantHT * ((produit.tauxFodec || 1) / 100) : 0;
-      
-      // Calculate TVA base (HT + FODEC)
-      const baseTVA = montantHT + montantFodec;
-      
-      // Calculate TVA
-      const montantTVA = baseTVA * (produit.tva / 100);
-      
-      // Calculate TTC
-      const montantTTC = montantHT + montantFodec + montantTVA;
-      
-      const newLigne: LigneDocument = {
+      const newLigne = calculateProductTaxes({
         id: uuidv4(),
         produit,
         quantite: 1,
         prixUnitaire: produit.prixUnitaire,
-        remise: 0,
-        montantHT,
-        montantFodec,
-        baseTVA,
-        montantTVA,
-        montantTTC
-      };
+        remise: 0
+      });
       setLignes([...lignes, newLigne]);
     }
     
@@ -293,25 +257,7 @@ const BonLivraisonForm: React.FC<BonLivraisonFormProps> = ({ isOpen, onClose, on
       (ligne as any)[field] = value;
     }
 
-    // Recalculate amounts with proper FODEC logic
-    const montantHT = ligne.quantite * ligne.prixUnitaire * (1 - (ligne.remise || 0) / 100);
-    ligne.montantHT = montantHT;
-    
-    // Calculate FODEC
-    const montantFodec = ligne.produit.fodecApplicable ? 
-      montantHT * ((ligne.produit.tauxFodec || 1) / 100) : 0;
-    ligne.montantFodec = montantFodec;
-    
-    // Calculate TVA base (HT + FODEC)
-    const baseTVA = montantHT + montantFodec;
-    ligne.baseTVA = baseTVA;
-    
-    // Calculate TVA
-    const montantTVA = baseTVA * (ligne.produit.tva / 100);
-    ligne.montantTVA = montantTVA;
-    
-    // Calculate TTC
-    ligne.montantTTC = montantHT + montantFodec + montantTVA;
+    newLignes[index] = calculateProductTaxes(ligne);
 
     setLignes(newLignes);
   };
@@ -321,72 +267,15 @@ const BonLivraisonForm: React.FC<BonLivraisonFormProps> = ({ isOpen, onClose, on
   };
 
   const calculateTotals = () => {
-    // Calculate totals from product lines (taxes already included)
-    const totalHT = lignes.reduce((sum, ligne) => sum + ligne.montantHT, 0);
-    const totalFodec = lignes.reduce((sum, ligne) => sum + (ligne.montantFodec || 0), 0);
-    const totalTVA = lignes.reduce((sum, ligne) => sum + (ligne.montantTVA || 0), 0);
-    const totalTTC = lignes.reduce((sum, ligne) => sum + ligne.montantTTC, 0);
-    
-    // Create tax summary for display
-    const taxSummary = [];
-    
-    // Add FODEC summary if applicable
-    if (totalFodec > 0) {
-      const fodecGroups = new Map();
-      lignes.forEach(ligne => {
-        if (ligne.produit.fodecApplicable && ligne.montantFodec > 0) {
-          const rate = ligne.produit.tauxFodec;
-          if (!fodecGroups.has(rate)) {
-            fodecGroups.set(rate, { baseAmount: 0, taxAmount: 0 });
-          }
-          const group = fodecGroups.get(rate);
-          group.baseAmount += ligne.montantHT;
-          group.taxAmount += ligne.montantFodec;
-        }
-      });
-      
-      fodecGroups.forEach((group, rate) => {
-        taxSummary.push({
-          type: 'FODEC',
-          rate,
-          baseAmount: group.baseAmount,
-          taxAmount: group.taxAmount
-        });
-      });
-    }
-    
-    // Add TVA summary if applicable
-    if (totalTVA > 0) {
-      const tvaGroups = new Map();
-      lignes.forEach(ligne => {
-        if (ligne.produit.tva > 0) {
-          const rate = ligne.produit.tva;
-          if (!tvaGroups.has(rate)) {
-            tvaGroups.set(rate, { baseAmount: 0, taxAmount: 0 });
-          }
-          const group = tvaGroups.get(rate);
-          group.baseAmount += ligne.baseTVA || (ligne.montantHT + (ligne.montantFodec || 0));
-          group.taxAmount += ligne.montantTVA;
-        }
-      });
-      
-      tvaGroups.forEach((group, rate) => {
-        taxSummary.push({
-          type: 'TVA',
-          rate,
-          baseAmount: group.baseAmount,
-          taxAmount: group.taxAmount
-        });
-      });
-    }
-    
-    return { 
-      totalHT, 
+    const { totalHT, totalFodec, totalTVA, totalTTC, taxSummary } = calculateDocumentTotals(lignes, [], { policy: roundingPolicy });
+
+    return {
+      totalHT,
       totalFodec,
       totalTVA,
-      totalTaxes: totalFodec + totalTVA, 
-      taxSummary, 
-      totalTTC 
+      totalTaxes: sumMoney([totalFodec, totalTVA]),
+      taxSummary,
+      totalTTC
     };
   };
 
@@ -399,19 +288,30 @@ const BonLivraisonForm: React.FC<BonLivraisonFormProps> = ({ isOpen, onClose, on
     }
 
     try {
-      // Increment document number only when actually saving
-      const finalNumero = await getNextDocumentNumber('bonsLivraison', isElectron, query, true);
-      
+      // Invoiced quantities cannot be removed from the delivery note
+      if (bonLivraison) {
+        const quantitesFacturees = await getQuantitesFacturees(bonLivraison.id, query);
+        for (const [ligneId, quantiteFacturee] of Array.from(quantitesFacturees)) {
+          const ligne = lignes.find(l => l.id === ligneId);
+          if (!ligne || ligne.quantite < quantiteFacturee) {
+            const produit = ligne?.produit.nom || bonLivraison.lignes.find(l => l.id === ligneId)?.produit.nom || '';
+            showNotification(`La quantité de "${produit}" ne peut pas être inférieure à la quantité déjà facturée (${quantiteFacturee})`, 'warning');
+            return;
+          }
+        }
+      }
+
       // Calculate totals for display purposes
       const { totalHT, totalTaxes, taxGroupsSummary, totalTTC } = calculateTotals();
 
       const bonLivraisonData: BonLivraison = {
         id: bonLivraison?.id || uuidv4(),
-        numero: bonLivraison?.numero || finalNumero, // Use existing numero for edits, new numero for new bons
+        numero: bonLivraison?.numero || '', // New bons are numbered when the save is committed
         date: new Date(formData.date),
         client: selectedClient,
         lignes,
         statut: formData.statut,
+        devisId: bonLivraison?.devisId,
         factureId: formData.factureId || undefined,
         notes: formData.notes,
         totalHT,
@@ -420,52 +320,18 @@ const BonLivraisonForm: React.FC<BonLivraisonFormProps> = ({ isOpen, onClose, on
         totalTTC
       };
 
-      // Save bon de livraison to database
-      await query(
-        `INSERT OR REPLACE INTO bons_livraison 
-         (id, numero, date, clientId, statut, factureId, notes, totalHT, totalFodec, totalTVA, totalTTC)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          bonLivraisonData.id,
-          bonLivraisonData.numero,
-          bonLivraisonData.date.toISOString(),
-          bonLivraisonData.client.id,
-          bonLivraisonData.statut,
-          bonLivraisonData.factureId || null,
-          bonLivraisonData.notes || '',
-          bonLivraisonData.totalHT,
-          bonLivraisonData.totalFodec || 0,
-          bonLivraisonData.totalTaxes || 0,
-          bonLivraisonData.totalTTC
-        ]
-      );
-
-      // Delete existing lines
-      await query('DELETE FROM lignes_bon_livraison WHERE bonLivraisonId = ?', [bonLivraisonData.id]);
-
-      // Save lines
-      for (const ligne of lignes) {
-        await query(
-          `INSERT INTO lignes_bon_livraison 
-           (id, bonLivraisonId, produitId, quantite, prixUnitaire, remise, montantHT, montantFodec, baseTVA, montantTVA, montantTTC)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            ligne.id,
-            bonLivraisonData.id,
-            ligne.produit.id,
-            ligne.quantite,
-            ligne.prixUnitaire,
-            ligne.remise || 0,
-            ligne.montantHT,
-            ligne.montantFodec || 0,
-            ligne.baseTVA || 0,
-            ligne.montantTVA || 0,
-            ligne.montantTTC
-          ]
-        );
+      // Header, lines and numbering are written in one transaction
+      const result = await saveDocument('bonLivraison', bonLivraisonData);
+      if (!result.success || !result.document) {
+        throw new Error(result.error);
+      }
+
+      // Delivered quantities of the devis may have changed
+      if (bonLivraisonData.devisId) {
+        await refreshDevisStatut(bonLivraisonData.devisId, query, updateDocumentStatut);
       }
 
-      onSave(bonLivraisonData);
+      onSave(result.document);
       onClose();
       
     } catch (error) {
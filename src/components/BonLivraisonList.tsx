@@ -1,12 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Eye, Edit, Trash2, FileDown, Printer, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, CheckSquare, Square, RefreshCw, FileText, Receipt, Truck, X } from 'lucide-react';
+import { Plus, Eye, Edit, Trash2, FileDown, Printer, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, CheckSquare, Square, RefreshCw, FileText, Receipt, Truck, X, ListChecks } from 'lucide-react';
 import { BonLivraison, Facture, LigneDocument } from '../types';
 import { generateBonLivraisonPDF } from '../utils/pdfGenerator';
 import { formatCurrency } from '../utils/currency';
 import { useDatabase } from '../hooks/useDatabase';
-import { getNextDocumentNumber } from '../utils/numberGenerator';
+import { useAppSetting } from '../hooks/useAppSetting';
+import { calculateDocumentTotals, loadDocumentCharges } from '../utils/productTaxCalculator';
+import { getResteAFacturer, getStatutFacturation } from '../utils/livraisonFacturation';
+import { refreshDevisStatut } from '../utils/devisLivraison';
+import { DocumentChain as DocumentChainData, getDocumentChainKey, loadDocumentChains } from '../utils/documentChain';
 import { v4 as uuidv4 } from 'uuid';
 import BonLivraisonForm from './BonLivraisonForm';
+import DocumentChain from './DocumentChain';
 import { useNotification } from '../contexts/NotificationContext';
 
 interface BonLivraisonListProps {
@@ -33,11 +38,15 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
   const [isConversionMode, setIsConversionMode] = useState(false);
   const [showConversionModal, setShowConversionModal] = useState(false);
   const [isConverting, setIsConverting] = useState(false);
+  const [quantitesAFacturer, setQuantitesAFacturer] = useState<Record<string, number>>({});
+  const [showResteAFacturer, setShowResteAFacturer] = useState(false);
+  const [documentChains, setDocumentChains] = useState<Map<string, DocumentChainData>>(new Map());
   
   // Error handling
   const [pdfError, setPdfError] = useState<string | null>(null);
   
-  const { query, savePDF, isReady } = useDatabase();
+  const { query, saveDocument, deleteDocument, updateDocumentStatut, savePDF, isReady } = useDatabase();
+  const { roundingPolicy } = useAppSetting('invoiceSettings');
   const { showNotification } = useNotification();
 
   useEffect(() => {
@@ -91,35 +100,42 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
       // Load lines for each bon de livraison
       for (const bon of bonsData) {
         const lignesResult = await query(`
-          SELECT lbl.*, p.ref, p.nom, p.description, p.prixUnitaire, p.tva, p.fodecApplicable, p.tauxFodec, p.stock, p.type
+          SELECT lbl.*, p.ref, p.nom, p.description, p.prixUnitaire as produitPrix, p.stock, p.type,
+                 COALESCE((SELECT SUM(llf.quantite) FROM lignes_livraison_facturees llf WHERE llf.ligneBonLivraisonId = lbl.id), 0) as quantiteFacturee
           FROM lignes_bon_livraison lbl
           JOIN produits p ON lbl.produitId = p.id
           WHERE lbl.bonLivraisonId = ?
         `, [bon.id]);
         
-        bon.lignes = lignesResult.map((ligne: any) => ({
-          id: ligne.id,
-          produit: {
-            id: ligne.produitId,
-            ref: ligne.ref,
-            nom: ligne.nom,
-            description: ligne.description,
-            prixUnitaire: ligne.prixUnitaire,
-            tva: ligne.tva,
-            fodecApplicable: Boolean(ligne.fodecApplicable),
-            tauxFodec: ligne.tauxFodec || 1,
-            stock: ligne.stock,
-            type: ligne.type
-          },
-          quantite: ligne.quantite,
-          prixUnitaire: ligne.prixUnitaire,
-          remise: 0,
-          montantHT: ligne.montantHT || (ligne.prixUnitaire * ligne.quantite),
-          montantFodec: ligne.montantFodec || 0,
-          baseTVA: ligne.baseTVA || 0,
-          montantTVA: ligne.montantTVA || 0,
-          montantTTC: ligne.montantTTC || (ligne.prixUnitaire * ligne.quantite * (1 + ligne.tva / 100))
-        }));
+        bon.lignes = lignesResult.map((ligne: any) => {
+          // Older delivery notes did not store the line price
+          const prixUnitaire = ligne.prixUnitaire || ligne.produitPrix;
+          return {
+            id: ligne.id,
+            produit: {
+              id: ligne.produitId,
+              ref: ligne.ref,
+              nom: ligne.nom,
+              description: ligne.description,
+              prixUnitaire: ligne.produitPrix,
+              tva: ligne.tauxTVA,
+              fodecApplicable: ligne.tauxFodec > 0,
+              tauxFodec: ligne.tauxFodec || 1,
+              stock: ligne.stock,
+              type: ligne.type
+            },
+            quantite: ligne.quantite,
+            quantiteFacturee: ligne.quantiteFacturee,
+            ligneDevisId: ligne.ligneDevisId || undefined,
+            prixUnitaire,
+            remise: ligne.remise || 0,
+            montantHT: ligne.montantHT || (prixUnitaire * ligne.quantite),
+            montantFodec: ligne.montantFodec || 0,
+            baseTVA: ligne.baseTVA || 0,
+            montantTVA: ligne.montantTVA || 0,
+            montantTTC: ligne.montantTTC || (prixUnitaire * ligne.quantite * (1 + ligne.tauxTVA / 100))
+          };
+        });
         
         // Use stored totals or calculate if missing
         if (!bon.totalHT) {
@@ -140,6 +156,7 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
       }
       
       setBonsLivraison(bonsData);
+      setDocumentChains(await loadDocumentChains(query));
     } catch (error) {
       console.error('Error loading bons de livraison:', error);
       alert('Erreur lors du chargement des bons de livraison');
@@ -227,6 +244,35 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
     }
   };
 
+  const getFacturationColor = (bon: BonLivraison) => {
+    switch (getStatutFacturation(bon)) {
+      case 'facture': return 'bg-green-100 text-green-800';
+      case 'partiel': return 'bg-orange-100 text-orange-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getFacturationLabel = (bon: BonLivraison) => {
+    switch (getStatutFacturation(bon)) {
+      case 'facture': return 'Facturé';
+      case 'partiel': return 'Partiellement facturé';
+      default: return 'Non facturé';
+    }
+  };
+
+  // Delivered lines not fully invoiced yet
+  const lignesResteAFacturer = React.useMemo(() => (
+    filteredBons.flatMap(bon => bon.lignes
+      .filter(ligne => getResteAFacturer(ligne) > 0)
+      .map(ligne => ({
+        bon,
+        ligne,
+        reste: getResteAFacturer(ligne),
+        montantHT: getResteAFacturer(ligne) * ligne.prixUnitaire * (1 - (ligne.remise || 0) / 100)
+      }))
+    )
+  ), [filteredBons]);
+
   // Conversion functionality
   const toggleConversionMode = () => {
     setIsConversionMode(!isConversionMode);
@@ -243,11 +289,14 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
     setSelectedBons(newSelected);
   };
 
+  // Fully invoiced delivery notes cannot be selected
+  const bonsAFacturer = filteredBons.filter(b => getStatutFacturation(b) !== 'facture');
+
   const selectAllBons = () => {
-    if (selectedBons.size === filteredBons.length) {
+    if (selectedBons.size === bonsAFacturer.length) {
       setSelectedBons(new Set());
     } else {
-      setSelectedBons(new Set(filteredBons.map(b => b.id)));
+      setSelectedBons(new Set(bonsAFacturer.map(b => b.id)));
     }
   };
 
@@ -275,9 +324,25 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
       return;
     }
 
+    // Invoice everything still to be invoiced by default
+    const quantites: Record<string, number> = {};
+    getSelectedBonsData().forEach(bon => {
+      bon.lignes.forEach(ligne => {
+        quantites[ligne.id] = getResteAFacturer(ligne);
+      });
+    });
+    setQuantitesAFacturer(quantites);
     setShowConversionModal(true);
   };
 
+  const handleQuantiteAFacturerChange = (ligne: LigneDocument, value: string) => {
+    const quantite = parseFloat(value);
+    setQuantitesAFacturer(prev => ({
+      ...prev,
+      [ligne.id]: isNaN(quantite) ? 0 : Math.min(Math.max(0, quantite), getResteAFacturer(ligne))
+    }));
+  };
+
   const handleConversion = async () => {
     if (selectedBons.size === 0) return;
 
@@ -290,7 +355,7 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
       setIsConversionMode(false);
       setSelectedBons(new Set());
       
-      showNotification(`${selectedData.length} bon(s) de livraison converti(s) avec succès en une seule facture`, 'success');
+      showNotification(`${selectedData.length} bon(s) de livraison facturé(s) avec succès dans une seule facture`, 'success');
       
       // Reload bons to reflect any changes
       loadBonsLivraison();
@@ -303,193 +368,68 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
     }
   };
 
-  // CRITICAL: New function to convert multiple delivery notes to a single invoice
+  // Invoice the selected quantities of one or several delivery notes of the same client
   const convertToSingleFacture = async (bonsData: BonLivraison[]) => {
-    // Load all delivery note lines and consolidate them
-    const allLignes: LigneDocument[] = [];
+    const lignesFacture = new Map<string, LigneDocument>();
+    const liens: { bonLivraisonId: string; ligneBonLivraisonId: string; ligneKey: string; quantite: number }[] = [];
     const bonNumbers: string[] = [];
-    
-    for (const bon of bonsData) {
-      bonNumbers.push(bon.numero);
-      
-      // Load lignes from database
-      const lignesResult = await query(`
-        SELECT lbl.*, p.ref, p.nom, p.description, p.prixUnitaire, p.tva, p.fodecApplicable, p.tauxFodec, p.stock, p.type
-        FROM lignes_bon_livraison lbl
-        JOIN produits p ON lbl.produitId = p.id
-        WHERE lbl.bonLivraisonId = ?
-      `, [bon.id]);
-      
-      const bonLignes = lignesResult.map((ligne: any) => ({
-        id: ligne.id,
-        produit: {
-          id: ligne.produitId,
-          ref: ligne.ref,
-          nom: ligne.nom,
-          description: ligne.description,
-          prixUnitaire: ligne.prixUnitaire,
-          tva: ligne.tva,
-          fodecApplicable: Boolean(ligne.fodecApplicable),
-          tauxFodec: ligne.tauxFodec || 1,
-          stock: ligne.stock
-        },
-        quantite: ligne.quantite,
-        prixUnitaire: ligne.prixUnitaire,
-        remise: 0,
-        montantHT: ligne.montantHT || (ligne.quantite * ligne.prixUnitaire),
-        montantFodec: ligne.montantFodec || 0,
-        baseTVA: ligne.baseTVA || 0,
-        montantTVA: ligne.montantTVA || 0,
-        montantTTC: ligne.montantTTC || (ligne.quantite * ligne.prixUnitaire * (1 + ligne.tva / 100))
-      }));
-      
-      allLignes.push(...bonLignes);
-    }
 
-    // CRITICAL: Consolidate duplicate products by summing quantities
-    const consolidatedLignes: LigneDocument[] = [];
-    const productMap = new Map<string, LigneDocument>();
+    for (const bon of bonsData) {
+      for (const ligne of bon.lignes) {
+        const quantite = Math.min(quantitesAFacturer[ligne.id] || 0, getResteAFacturer(ligne));
+        if (quantite <= 0) continue;
 
-    for (const ligne of allLignes) {
-      const productId = ligne.produit.id;
-      
-      if (productMap.has(productId)) {
-        // Product already exists, sum the quantities
-        const existingLigne = productMap.get(productId)!;
-        existingLigne.quantite += ligne.quantite;
-        
-        // Recalculate amounts based on new quantity using new tax logic
-        const montantHT = existingLigne.quantite * existingLigne.prixUnitaire * (1 - (existingLigne.remise || 0) / 100);
-        
-        // Calculate FODEC
-        const montantFodec = existingLigne.produit.fodecApplicable ? 
-          montantHT * (existingLigne.produit.tauxFodec / 100) : 0;
-        
-        // Calculate TVA base (HT + FODEC)
-        const baseTVA = montantHT + montantFodec;
-        
-        // Calculate TVA
-        const montantTVA = baseTVA * (existingLigne.produit.tva / 100);
-        
-        // Calculate TTC
-        const montantTTC = montantHT + montantFodec + montantTVA;
-        
-        // Update ligne with new calculations
-        existingLigne.montantHT = montantHT;
-        existingLigne.montantFodec = montantFodec;
-        existingLigne.baseTVA = baseTVA;
-        existingLigne.montantTVA = montantTVA;
-        existingLigne.montantTTC = montantTTC;
-      } else {
-        // New product, add to map with new ID and proper tax calculations
-        const montantHT = ligne.quantite * ligne.prixUnitaire * (1 - (ligne.remise || 0) / 100);
-        
-        // Calculate FODEC
-        const montantFodec = ligne.produit.fodecApplicable ? 
-          montantHT * (ligne.produit.tauxFodec / 100) : 0;
-        
-        // Calculate TVA base (HT + FODEC)
-        const baseTVA = montantHT + montantFodec;
-        
-        // Calculate TVA
-        const montantTVA = baseTVA * (ligne.produit.tva / 100);
-        
-        // Calculate TTC
-        const montantTTC = montantHT + montantFodec + montantTVA;
-        
-        const consolidatedLigne: LigneDocument = {
-          id: uuidv4(), // New ID for the consolidated line
-          produit: ligne.produit,
-          quantite: ligne.quantite,
-          prixUnitaire: ligne.prixUnitaire,
-          remise: ligne.remise || 0,
-          montantHT,
-          montantFodec,
-          baseTVA,
-          montantTVA,
-          montantTTC
-        };
-        productMap.set(productId, consolidatedLigne);
+        // Identical products at the same price are merged with their quantities added
+        const ligneKey = `${ligne.produit.id}_${ligne.prixUnitaire}_${ligne.remise || 0}`;
+        const existingLigne = lignesFacture.get(ligneKey);
+        if (existingLigne) {
+          existingLigne.quantite += quantite;
+        } else {
+          lignesFacture.set(ligneKey, { ...ligne, id: uuidv4(), quantite, quantiteFacturee: undefined });
+        }
+        liens.push({ bonLivraisonId: bon.id, ligneBonLivraisonId: ligne.id, ligneKey, quantite });
+      }
+      if (liens.some(lien => lien.bonLivraisonId === bon.id)) {
+        bonNumbers.push(bon.numero);
       }
     }
 
-    // Convert map to array
-    consolidatedLignes.push(...productMap.values());
+    if (lignesFacture.size === 0) {
+      throw new Error('Aucune quantité à facturer');
+    }
 
-    // Generate single invoice number
-    const factureNumero = await getNextDocumentNumber('factures', true, query);
-    
-    // Calculate totals from consolidated lignes using new tax logic
-    const totalHT = consolidatedLignes.reduce((sum, ligne) => sum + ligne.montantHT, 0);
-    const totalFodec = consolidatedLignes.reduce((sum, ligne) => sum + (ligne.montantFodec || 0), 0);
-    const totalTVA = consolidatedLignes.reduce((sum, ligne) => sum + (ligne.montantTVA || 0), 0);
-    const totalTTC = consolidatedLignes.reduce((sum, ligne) => sum + ligne.montantTTC, 0);
-    
-    // CRITICAL: Do NOT copy old taxes - they will be recalculated automatically
-    // The taxes are already calculated in the ligne amounts above
-    
-    // Create notes with all delivery note numbers
-    const notesText = `Converti des bons de livraison : ${bonNumbers.join(', ')}`;
+    // Taxes and invoice charges (timbre fiscal) are calculated on the invoiced quantities
+    const totals = calculateDocumentTotals(Array.from(lignesFacture.values()), await loadDocumentCharges('factures', query), {
+      policy: roundingPolicy
+    });
     
     const facture: Facture = {
       id: uuidv4(),
-      numero: factureNumero,
+      numero: '', // Numbered when the save is committed
       date: new Date(),
       dateEcheance: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
       client: bonsData[0].client, // All bons have the same client
-      lignes: consolidatedLignes,
-      totalHT,
-      totalFodec,
-      totalTVA,
-      totalTTC,
+      lignes: totals.lignes,
+      totalHT: totals.totalHT,
+      totalFodec: totals.totalFodec,
+      totalTVA: totals.totalTVA,
+      charges: totals.charges,
+      totalCharges: totals.totalCharges,
+      totalTTC: totals.totalTTC,
       statut: 'brouillon',
-      notes: notesText
+      notes: `Facturé depuis les bons de livraison : ${bonNumbers.join(', ')}`,
+      // Delivered quantities this invoice covers, recorded with the invoice
+      livraisons: liens.map(lien => ({
+        bonLivraisonId: lien.bonLivraisonId,
+        ligneBonLivraisonId: lien.ligneBonLivraisonId,
+        ligneFactureId: lignesFacture.get(lien.ligneKey)!.id,
+        quantite: lien.quantite
+      }))
     };
 
-    // Save the single consolidated facture
-    await query(
-      `INSERT INTO factures 
-       (id, numero, date, dateEcheance, clientId, totalHT, totalTVA, totalTTC, statut, notes)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        facture.id,
-        facture.numero,
-        facture.date.toISOString(),
-        facture.dateEcheance.toISOString(),
-        facture.client.id,
-        facture.totalHT,
-        facture.totalTVA,
-        facture.totalTTC,
-        facture.statut,
-        facture.notes
-      ]
-    );
-
-    // Save consolidated facture lines
-    for (const ligne of facture.lignes) {
-      await query(
-        `INSERT INTO lignes_facture 
-         (id, factureId, produitId, quantite, prixUnitaire, remise, montantHT, montantTTC)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          ligne.id,
-          facture.id,
-          ligne.produit.id,
-          ligne.quantite,
-          ligne.prixUnitaire,
-          ligne.remise || 0,
-          ligne.montantHT,
-          ligne.montantTTC
-        ]
-      );
-    }
-    
-    // Update the bons de livraison to link them to the new facture
-    for (const bon of bonsData) {
-      await query(
-        `UPDATE bons_livraison SET factureId = ? WHERE id = ?`,
-        [facture.id, bon.id]
-      );
+    const result = await saveDocument('facture', facture);
+    if (!result.success) {
+      throw new Error(result.error || 'Erreur lors de la sauvegarde de la facture');
     }
   };
 
@@ -556,10 +496,24 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
   const handleDelete = async (id: string) => {
     if (!isReady) return;
     
+    const bon = bonsLivraison.find(bl => bl.id === id);
+    if (bon && getStatutFacturation(bon) !== 'non_facture') {
+      showNotification('Ce bon de livraison est déjà facturé : supprimez d\'abord la ou les factures liées', 'warning');
+      return;
+    }
+    
     if (window.confirm('Êtes-vous sûr de vouloir supprimer ce bon de livraison ?')) {
       try {
-        await query('DELETE FROM lignes_bon_livraison WHERE bonLivraisonId = ?', [id]);
-        await query('DELETE FROM bons_livraison WHERE id = ?', [id]);
+        const result = await deleteDocument('bonLivraison', id);
+        if (!result.success) {
+          showNotification(result.error || 'Erreur lors de la suppression du bon de livraison', 'error');
+          return;
+        }
+        
+        // The deleted quantities are to be delivered again
+        if (bon?.devisId) {
+          await refreshDevisStatut(bon.devisId, query, updateDocumentStatut);
+        }
         
         setBonsLivraison(bonsLivraison.filter(bl => bl.id !== id));
       } catch (error) {
@@ -625,6 +579,17 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
             </button>
           </div>
           <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowResteAFacturer(!showResteAFacturer)}
+              className={`px-4 py-2 rounded-lg transition-colors duration-200 flex items-center space-x-2 ${
+                showResteAFacturer 
+                  ? 'bg-orange-600 text-white hover:bg-orange-700' 
+                  : 'bg-orange-100 text-orange-700 hover:bg-orange-200'
+              }`}
+            >
+              <ListChecks className="w-4 h-4" />
+              <span>Reste à facturer</span>
+            </button>
             <button
               onClick={toggleConversionMode}
               className={`px-4 py-2 rounded-lg transition-colors duration-200 flex items-center space-x-2 ${
@@ -634,7 +599,7 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
               }`}
             >
               <RefreshCw className="w-4 h-4" />
-              <span>{isConversionMode ? 'Annuler conversion' : 'Convertir en facture'}</span>
+              <span>{isConversionMode ? 'Annuler facturation' : 'Facturer'}</span>
             </button>
             <button
               onClick={handleCreateNew}
@@ -683,13 +648,13 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
                   onClick={selectAllBons}
                   className="flex items-center space-x-2 text-blue-700 hover:text-blue-900"
                 >
-                  {selectedBons.size === filteredBons.length ? (
+                  {selectedBons.size === bonsAFacturer.length ? (
                     <CheckSquare className="w-4 h-4" />
                   ) : (
                     <Square className="w-4 h-4" />
                   )}
                   <span>
-                    {selectedBons.size === filteredBons.length ? 'Tout désélectionner' : 'Tout sélectionner'}
+                    {selectedBons.size === bonsAFacturer.length ? 'Tout désélectionner' : 'Tout sélectionner'}
                   </span>
                 </button>
                 <span className="text-blue-700 font-medium">
@@ -708,7 +673,7 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
                   className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
                 >
                   <RefreshCw className="w-4 h-4" />
-                  <span>Convertir en facture unique</span>
+                  <span>Facturer la sélection</span>
                 </button>
               )}
             </div>
@@ -738,6 +703,56 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
           </div>
         </div>
 
+        {/* Reste à facturer */}
+        {showResteAFacturer && (
+          <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+            <div className="px-6 py-4 border-b flex items-center justify-between">
+              <div className="flex items-center">
+                <ListChecks className="w-5 h-5 mr-2 text-orange-600" />
+                <h3 className="text-lg font-medium text-gray-900">Reste à facturer</h3>
+              </div>
+              <span className="text-sm font-medium text-orange-700">
+                Total HT : {formatCurrency(lignesResteAFacturer.reduce((sum, item) => sum + item.montantHT, 0))}
+              </span>
+            </div>
+            {lignesResteAFacturer.length > 0 ? (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bon de livraison</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Produit</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Livré</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Facturé</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Reste</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Montant HT</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {lignesResteAFacturer.map(({ bon, ligne, reste, montantHT }) => (
+                    <tr key={ligne.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-orange-600">
+                        {bon.numero}
+                        <div className="text-xs text-gray-500">{bon.date.toLocaleDateString('fr-FR')}</div>
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{bon.client.nom}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{ligne.produit.nom}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900">{ligne.quantite}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-green-600">{ligne.quantiteFacturee || 0}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right font-medium text-orange-600">{reste}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(montantHT)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                Toutes les livraisons sont facturées
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Table */}
         <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
           <table className="min-w-full divide-y divide-gray-200">
@@ -749,7 +764,7 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
                       onClick={selectAllBons}
                       className="text-blue-600 hover:text-blue-800"
                     >
-                      {selectedBons.size === filteredBons.length ? (
+                      {selectedBons.size === bonsAFacturer.length ? (
                         <CheckSquare className="w-5 h-5" />
                       ) : (
                         <Square className="w-5 h-5" />
@@ -785,7 +800,7 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
                   </div>
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Facture liée
+                  Facturation
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Statut
@@ -810,7 +825,9 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
                     <td className="px-6 py-4 whitespace-nowrap">
                       <button
                         onClick={() => toggleBonSelection(bon.id)}
-                        className="text-blue-600 hover:text-blue-800"
+                        className="text-blue-600 hover:text-blue-800 disabled:text-gray-300 disabled:cursor-not-allowed"
+                        disabled={getStatutFacturation(bon) === 'facture'}
+                        title={getStatutFacturation(bon) === 'facture' ? 'Entièrement facturé' : undefined}
                       >
                         {selectedBons.has(bon.id) ? (
                           <CheckSquare className="w-5 h-5" />
@@ -822,6 +839,7 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
                   )}
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-orange-600">
                     {bon.numero}
+                    <DocumentChain chain={documentChains.get(getDocumentChainKey('bonLivraison', bon.id))} currentId={bon.id} />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     <div>
@@ -833,7 +851,9 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
                     {bon.date.toLocaleDateString('fr-FR')}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {bon.factureId || '-'}
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getFacturationColor(bon)}`}>
+                      {getFacturationLabel(bon)}
+                    </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(bon.statut)}`}>
@@ -902,9 +922,9 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
       {/* Conversion Modal */}
       {showConversionModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-hidden">
             <div className="flex items-center justify-between p-6 border-b">
-              <h2 className="text-xl font-semibold">Convertir en facture unique</h2>
+              <h2 className="text-xl font-semibold">Facturer les livraisons</h2>
               <button 
                 onClick={() => setShowConversionModal(false)}
                 className="text-gray-400 hover:text-gray-600"
@@ -913,37 +933,68 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
               </button>
             </div>
 
-            <div className="p-6">
+            <div className="p-6 overflow-y-auto max-h-[calc(90vh-80px)]">
               <div className="mb-4">
                 <p className="text-gray-700 mb-2">
-                  Vous allez convertir <strong>{selectedBons.size} bon(s) de livraison</strong> en une seule facture pour le client :
+                  Une seule facture sera créée pour <strong>{selectedBons.size} bon(s) de livraison</strong> du client :
                 </p>
                 <p className="font-medium text-gray-900">
                   {getSelectedBonsData()[0]?.client.nom}
                 </p>
               </div>
 
+              <div className="mb-6 border rounded-lg overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">BL</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Produit</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Livré</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Déjà facturé</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">À facturer</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {getSelectedBonsData().flatMap(bon => bon.lignes
+                      .filter(ligne => getResteAFacturer(ligne) > 0)
+                      .map(ligne => (
+                        <tr key={ligne.id}>
+                          <td className="px-4 py-2 text-sm text-orange-600">{bon.numero}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">{ligne.produit.nom}</td>
+                          <td className="px-4 py-2 text-sm text-right">{ligne.quantite}</td>
+                          <td className="px-4 py-2 text-sm text-right text-green-600">{ligne.quantiteFacturee || 0}</td>
+                          <td className="px-4 py-2 text-right">
+                            <input
+                              type="number"
+                              value={quantitesAFacturer[ligne.id] ?? 0}
+                              onChange={(e) => handleQuantiteAFacturerChange(ligne, e.target.value)}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded text-right text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              min="0"
+                              max={getResteAFacturer(ligne)}
+                              step="any"
+                              disabled={isConverting}
+                            />
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
               <div className="mb-6">
                 <div className="flex items-start p-4 bg-blue-50 border border-blue-200 rounded-lg">
                   <Receipt className="w-6 h-6 text-blue-600 mr-3 mt-0.5" />
                   <div>
-                    <p className="font-medium text-blue-900 mb-1">Consolidation intelligente</p>
+                    <p className="font-medium text-blue-900 mb-1">Facturation partielle</p>
                     <p className="text-sm text-blue-700">
-                      • Tous les produits seront regroupés dans une seule facture<br/>
-                      • Les produits identiques seront fusionnés avec leurs quantités additionnées<br/>
-                      • Les prix unitaires des produits seront utilisés pour calculer les montants
+                      • Les produits identiques au même prix sont fusionnés avec leurs quantités additionnées<br/>
+                      • Les quantités non facturées restent disponibles pour une prochaine facture
                     </p>
                   </div>
                 </div>
               </div>
 
-              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-6">
-                <p className="text-sm text-amber-800">
-                  <strong>Exemple :</strong> Si vous avez 2 bons avec le même produit (3 unités + 2 unités), 
-                  la facture contiendra une seule ligne avec 5 unités de ce produit.
-                </p>
-              </div>
-
               <div className="flex justify-end space-x-4">
                 <button
                   onClick={() => setShowConversionModal(false)}
@@ -954,18 +1005,18 @@ const BonLivraisonList: React.FC<BonLivraisonListProps> = ({ onCreateNew, onEdit
                 </button>
                 <button
                   onClick={handleConversion}
-                  disabled={isConverting}
+                  disabled={isConverting || !Object.values(quantitesAFacturer).some(q => q > 0)}
                   className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isConverting ? (
                     <>
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                      Conversion...
+                      Facturation...
                     </>
                   ) : (
                     <>
                       <RefreshCw className="w-4 h-4 mr-2" />
-                      Convertir en facture unique
+                      Créer la facture
                     </>
                   )}
                 </button>
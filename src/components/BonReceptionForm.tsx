@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Save, PackageCheck, AlertTriangle } from 'lucide-react';
+import { BonReception, CommandeFournisseur, DocumentStockMovement } from '../types';
+import { getEcartReception, getQuantitesRecues, getResteARecevoir } from '../utils/receptionCommande';
+import { useDatabase } from '../hooks/useDatabase';
+import { useNotification } from '../contexts/NotificationContext';
+import { v4 as uuidv4 } from 'uuid';
+
+interface BonReceptionFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (bonReception: BonReception) => void;
+  commande: CommandeFournisseur | null;
+}
+
+const BonReceptionForm: React.FC<BonReceptionFormProps> = ({ isOpen, onClose, onSave, commande }) => {
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [cloture, setCloture] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [quantitesDejaRecues, setQuantitesDejaRecues] = useState<Map<string, number>>(new Map());
+  const [quantites, setQuantites] = useState<Record<string, number>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { query, saveDocument, isReady } = useDatabase();
+  const { showNotification } = useNotification();
+
+  // Default to receiving everything still expected
+  const loadQuantitesRecues = useCallback(async () => {
+    if (!commande) return;
+
+    try {
+      const dejaRecues = await getQuantitesRecues(commande.id, query);
+      setQuantitesDejaRecues(dejaRecues);
+      setQuantites(Object.fromEntries(commande.lignes.map(ligne => [
+        ligne.id,
+        getResteARecevoir({ quantite: ligne.quantite, quantiteRecue: dejaRecues.get(ligne.id) })
+      ])));
+      setDate(new Date().toISOString().split('T')[0]);
+      setCloture(false);
+      setNotes('');
+    } catch (error) {
+      console.error('Error loading received quantities:', error);
+      showNotification('Erreur lors du chargement des quantités reçues', 'error');
+    }
+  }, [commande, query, showNotification]);
+
+  useEffect(() => {
+    if (isOpen && isReady && commande) {
+      loadQuantitesRecues();
+    }
+  }, [isOpen, isReady, commande, loadQuantitesRecues]);
+
+  const getEcart = (ligneId: string, quantiteCommandee: number) =>
+    getEcartReception(quantiteCommandee, (quantitesDejaRecues.get(ligneId) || 0) + (quantites[ligneId] || 0), cloture);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (isSubmitting || !isReady || !commande) return;
+
+    if (Object.values(quantites).some(quantite => quantite < 0)) {
+      showNotification('Les quantités reçues ne peuvent pas être négatives', 'warning');
+      return;
+    }
+    if (!cloture && !Object.values(quantites).some(quantite => quantite > 0)) {
+      showNotification('Saisissez au moins une quantité reçue', 'warning');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const bonReceptionId = uuidv4();
+
+      // Lines with nothing received are only kept when they record a missing quantity
+      const lignes = commande.lignes
+        .map(ligne => ({
+          id: uuidv4(),
+          ligneCommandeId: ligne.id,
+          produit: ligne.produit,
+          quantiteCommandee: ligne.quantite,
+          quantiteRecue: quantites[ligne.id] || 0,
+          ecart: getEcart(ligne.id, ligne.quantite)
+        }))
+        .filter(ligne => ligne.quantiteRecue > 0 || ligne.ecart !== 0);
+
+      const bonReception: BonReception = {
+        id: bonReceptionId,
+        numero: '', // Numbered when the save is committed
+        date: new Date(date),
+        commandeId: commande.id,
+        commandeNumero: commande.numero,
+        fournisseur: commande.fournisseur,
+        lignes,
+        cloture,
+        ecart: lignes.some(ligne => ligne.ecart !== 0),
+        notes: notes.trim() || undefined
+      };
+
+      // Received goods enter the stock in the same transaction as the reception
+      const stockMovements: DocumentStockMovement[] = lignes
+        .filter(ligne => ligne.quantiteRecue > 0)
+        .map(ligne => ({
+          id: uuidv4(),
+          produitId: ligne.produit.id,
+          produitNom: ligne.produit.nom,
+          produitRef: ligne.produit.ref,
+          type: 'entree',
+          quantite: ligne.quantiteRecue,
+          date: bonReception.date.toISOString(),
+          source: 'bon_reception'
+        }));
+
+      const result = await saveDocument('bonReception', bonReception, stockMovements);
+      if (!result.success || !result.document) {
+        throw new Error(result.error);
+      }
+      const numero = result.document.numero;
+
+      if (bonReception.ecart) {
+        showNotification(`Bon de réception ${numero} enregistré avec des écarts sur la commande`, 'warning');
+      } else {
+        showNotification(`Bon de réception ${numero} enregistré`, 'success');
+      }
+      onSave(result.document);
+    } catch (error) {
+      console.error('Error saving bon de réception:', error);
+      showNotification('Erreur lors de la sauvegarde du bon de réception', 'error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !commande) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold flex items-center">
+            <PackageCheck className="w-6 h-6 mr-2 text-purple-600" />
+            Réception de la commande {commande.numero}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            disabled={isSubmitting}
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 overflow-y-auto max-h-[calc(90vh-140px)]">
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Fournisseur</label>
+                <div className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-gray-900">
+                  {commande.fournisseur.nom}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date de réception *</label>
+                <input
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  required
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            <div className="border rounded-lg overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Produit</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Commandé</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Déjà reçu</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Reste</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qté reçue</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Écart</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {commande.lignes.map(ligne => {
+                    const dejaRecue = quantitesDejaRecues.get(ligne.id) || 0;
+                    const ecart = getEcart(ligne.id, ligne.quantite);
+                    return (
+                      <tr key={ligne.id}>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {ligne.produit.nom}
+                          {ligne.produit.ref && <div className="text-xs text-gray-500">{ligne.produit.ref}</div>}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right text-gray-900">{ligne.quantite}</td>
+                        <td className="px-4 py-2 text-sm text-right text-gray-500">{dejaRecue}</td>
+                        <td className="px-4 py-2 text-sm text-right text-gray-500">
+                          {getResteARecevoir({ quantite: ligne.quantite, quantiteRecue: dejaRecue })}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <input
+                            type="number"
+                            value={quantites[ligne.id] ?? 0}
+                            onChange={(e) => {
+                              const parsedValue = parseFloat(e.target.value);
+                              setQuantites(prev => ({ ...prev, [ligne.id]: isNaN(parsedValue) ? 0 : parsedValue }));
+                            }}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                            min="0"
+                            step="1"
+                            disabled={isSubmitting}
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right">
+                          {ecart < 0 && (
+                            <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                              Manquant {-ecart}
+                            </span>
+                          )}
+                          {ecart > 0 && (
+                            <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-orange-100 text-orange-800">
+                              Excédent {ecart}
+                            </span>
+                          )}
+                          {ecart === 0 && <span className="text-gray-400">-</span>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <label className="flex items-start space-x-2">
+              <input
+                type="checkbox"
+                checked={cloture}
+                onChange={(e) => setCloture(e.target.checked)}
+                className="mt-1 h-4 w-4 text-purple-600 border-gray-300 rounded"
+                disabled={isSubmitting}
+              />
+              <span className="text-sm text-gray-700">
+                Réception finale
+                <span className="block text-xs text-gray-500">
+                  La commande est soldée, les quantités non reçues sont enregistrées comme manquantes.
+                </span>
+              </span>
+            </label>
+
+            {commande.lignes.some(ligne => getEcart(ligne.id, ligne.quantite) !== 0) && (
+              <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 flex items-center text-sm text-orange-800">
+                <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                Les quantités reçues diffèrent des quantités commandées. L'écart sera signalé sur la commande.
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder="Colis endommagé, livraison incomplète..."
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-4 mt-6 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              disabled={isSubmitting}
+            >
+              Annuler
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isSubmitting || !isReady}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {isSubmitting ? 'Enregistrement...' : 'Enregistrer la réception'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BonReceptionForm;
@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Trash2, PackageCheck, AlertTriangle } from 'lucide-react';
+import { BonReception, CommandeFournisseur, DocumentStockMovement, Produit } from '../types';
+import { useDatabase } from '../hooks/useDatabase';
+import { useNotification } from '../contexts/NotificationContext';
+import { v4 as uuidv4 } from 'uuid';
+
+interface BonsReceptionListProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChange?: () => void;
+  commande: CommandeFournisseur | null;
+}
+
+interface BonReceptionRow {
+  id: string;
+  numero: string;
+  date: string;
+  commandeId: string;
+  cloture: number;
+  ecart: number;
+  notes: string | null;
+}
+
+interface LigneBonReceptionRow {
+  id: string;
+  ligneCommandeId: string;
+  produitId: string;
+  ref: string;
+  nom: string;
+  prixUnitaire: number;
+  tva: number;
+  unite: string | null;
+  type: Produit['type'];
+  quantiteCommandee: number;
+  quantiteRecue: number;
+  ecart: number | null;
+}
+
+const BonsReceptionList: React.FC<BonsReceptionListProps> = ({ isOpen, onClose, onChange, commande }) => {
+  const [bonsReception, setBonsReception] = useState<BonReception[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const { query, deleteDocument, isReady } = useDatabase();
+  const { showNotification } = useNotification();
+
+  const loadBonsReception = useCallback(async () => {
+    if (!commande) return;
+
+    setLoading(true);
+    try {
+      const result = await query(
+        'SELECT * FROM bons_reception WHERE commandeId = ? ORDER BY date ASC, numero ASC',
+        [commande.id]
+      );
+
+      const bonsData = await Promise.all(result.map(async (br: BonReceptionRow) => {
+        const lignesResult = await query(`
+          SELECT lbr.*, p.ref, p.nom, p.prixUnitaire, p.tva, p.unite, p.type
+          FROM lignes_bon_reception lbr
+          JOIN produits p ON lbr.produitId = p.id
+          WHERE lbr.bonReceptionId = ?
+        `, [br.id]);
+
+        return {
+          id: br.id,
+          numero: br.numero,
+          date: new Date(br.date),
+          commandeId: br.commandeId,
+          commandeNumero: commande.numero,
+          fournisseur: commande.fournisseur,
+          cloture: Boolean(br.cloture),
+          ecart: Boolean(br.ecart),
+          notes: br.notes,
+          lignes: lignesResult.map((l: LigneBonReceptionRow) => ({
+            id: l.id,
+            ligneCommandeId: l.ligneCommandeId,
+            produit: {
+              id: l.produitId,
+              ref: l.ref,
+              nom: l.nom,
+              prixUnitaire: l.prixUnitaire,
+              tva: l.tva,
+              unite: l.unite,
+              type: l.type
+            },
+            quantiteCommandee: l.quantiteCommandee,
+            quantiteRecue: l.quantiteRecue,
+            ecart: l.ecart || 0
+          }))
+        };
+      }));
+
+      setBonsReception(bonsData);
+    } catch (error) {
+      console.error('Error loading bons de réception:', error);
+      showNotification('Erreur lors du chargement des bons de réception', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [commande, query, showNotification]);
+
+  useEffect(() => {
+    if (isOpen && isReady && commande) {
+      loadBonsReception();
+    }
+  }, [isOpen, isReady, commande, loadBonsReception]);
+
+  // Deleting a reception takes its quantities back out of the stock
+  const handleDelete = async (bonReception: BonReception) => {
+    if (!commande) return;
+
+    if (commande.factureFournisseurId) {
+      showNotification('Cette commande est facturée, ses réceptions ne peuvent plus être supprimées', 'warning');
+      return;
+    }
+    if (!window.confirm(`Supprimer le bon de réception ${bonReception.numero} ? Les quantités reçues seront retirées du stock.`)) return;
+
+    try {
+      const stockMovements: DocumentStockMovement[] = bonReception.lignes
+        .filter(l => l.quantiteRecue > 0)
+        .map(ligne => ({
+          id: uuidv4(),
+          produitId: ligne.produit.id,
+          produitNom: ligne.produit.nom,
+          produitRef: ligne.produit.ref,
+          type: 'sortie',
+          quantite: ligne.quantiteRecue,
+          date: new Date().toISOString(),
+          source: 'bon_reception'
+        }));
+      const result = await deleteDocument('bonReception', bonReception.id, stockMovements);
+      if (!result.success) {
+        throw new Error(result.error || 'Erreur lors de la suppression');
+      }
+
+      showNotification(`Bon de réception ${bonReception.numero} supprimé`, 'success');
+      loadBonsReception();
+      onChange?.();
+    } catch (error) {
+      console.error('Error deleting bon de réception:', error);
+      showNotification('Erreur lors de la suppression du bon de réception: ' + (error instanceof Error ? error.message : 'Erreur inconnue'), 'error');
+    }
+  };
+
+  if (!isOpen || !commande) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold flex items-center">
+            <PackageCheck className="w-6 h-6 mr-2 text-purple-600" />
+            Réceptions de la commande {commande.numero}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-80px)] space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+            </div>
+          ) : bonsReception.length === 0 ? (
+            <div className="text-center py-12">
+              <PackageCheck className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-500">Aucune réception enregistrée pour cette commande</p>
+            </div>
+          ) : (
+            bonsReception.map(bonReception => (
+              <div key={bonReception.id} className="border rounded-lg overflow-hidden">
+                <div className="flex items-center justify-between px-4 py-3 bg-gray-50 border-b">
+                  <div className="flex items-center space-x-3">
+                    <span className="font-medium text-purple-700">{bonReception.numero}</span>
+                    <span className="text-sm text-gray-500">{bonReception.date.toLocaleDateString('fr-FR')}</span>
+                    {bonReception.cloture && (
+                      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">
+                        Réception finale
+                      </span>
+                    )}
+                    {bonReception.ecart && (
+                      <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-orange-100 text-orange-800">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        Écart
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleDelete(bonReception)}
+                    className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
+                    title="Supprimer"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Produit</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Commandé</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Reçu</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Écart</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {bonReception.lignes.map(ligne => (
+                      <tr key={ligne.id}>
+                        <td className="px-4 py-2 text-sm text-gray-900">{ligne.produit.nom}</td>
+                        <td className="px-4 py-2 text-sm text-right text-gray-500">{ligne.quantiteCommandee}</td>
+                        <td className="px-4 py-2 text-sm text-right text-gray-900">{ligne.quantiteRecue}</td>
+                        <td className={`px-4 py-2 text-sm text-right ${
+                          ligne.ecart < 0 ? 'text-red-600' : ligne.ecart > 0 ? 'text-orange-600' : 'text-gray-400'
+                        }`}>
+                          {ligne.ecart < 0 ? `Manquant ${-ligne.ecart}` : ligne.ecart > 0 ? `Excédent ${ligne.ecart}` : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {bonReception.notes && (
+                  <div className="px-4 py-2 text-sm text-gray-500 border-t">{bonReception.notes}</div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BonsReceptionList;
@@ -1,13 +1,18 @@
-import React, { useState } from 'react';
-import { X, Upload, Download, FileText, AlertCircle, CheckCircle, Users, Package } from 'lucide-react';
-import { 
-  importClientsFromCSV, 
-  importProduitsFromCSV, 
-  generateClientCSVTemplate, 
+import React, { useState, useMemo } from 'react';
+import { X, Upload, Download, FileText, AlertCircle, CheckCircle, Users, Package, ArrowLeft, ArrowRight } from 'lucide-react';
+import {
+  readImportFile,
+  getImportFields,
+  guessColumnMapping,
+  validateImportRows,
+  importValidatedRows,
+  generateClientCSVTemplate,
   generateProduitCSVTemplate,
-  ImportResult 
+  ColumnMapping,
+  ImportResult,
+  ParsedImportFile
 } from '../utils/csvImporter';
-import { Client, Produit } from '../types';
+import { Client, ImportRecord, ImportRecordsResult, Produit } from '../types';
 
 interface CSVImportDialogProps {
   isOpen: boolean;
@@ -15,53 +20,117 @@ interface CSVImportDialogProps {
   type: 'clients' | 'produits';
   existingData: Client[] | Produit[];
   onImportComplete: (result: ImportResult) => void;
-  query?: (sql: string, params?: any[]) => Promise<any>;
+  importRecords?: (type: 'clients' | 'produits', records: ImportRecord[]) => Promise<ImportRecordsResult>;
 }
 
+type ImportStep = 'fichier' | 'colonnes' | 'apercu' | 'resultat';
+
+const STEPS: { id: ImportStep; label: string }[] = [
+  { id: 'fichier', label: 'Fichier' },
+  { id: 'colonnes', label: 'Colonnes' },
+  { id: 'apercu', label: 'Aperçu' },
+  { id: 'resultat', label: 'Résultat' }
+];
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ';': 'point-virgule',
+  ',': 'virgule',
+  '\t': 'tabulation',
+  '|': 'barre verticale'
+};
+
+// Rows rendered in the preview table; the import itself covers the whole file
+const PREVIEW_LIMIT = 200;
+
 const CSVImportDialog: React.FC<CSVImportDialogProps> = ({
   isOpen,
   onClose,
   type,
   existingData,
   onImportComplete,
-  query
+  importRecords
 }) => {
-  const [csvContent, setCsvContent] = useState('');
+  const [step, setStep] = useState<ImportStep>('fichier');
+  const [file, setFile] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [updateExisting, setUpdateExisting] = useState(true);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [fileError, setFileError] = useState('');
+  const [isReading, setIsReading] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [dragOver, setDragOver] = useState(false);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        setCsvContent(content);
-        setImportResult(null);
-      };
-      reader.readAsText(file, 'UTF-8');
-    } else {
-      alert('Veuillez sélectionner un fichier CSV valide');
+  const fields = getImportFields(type);
+  const keyField = type === 'clients' ? 'code' : 'ref';
+  const entityLabel = type === 'clients' ? 'clients' : 'produits';
+
+  const validatedRows = useMemo(
+    () => file && step !== 'fichier' ? validateImportRows(type, file, mapping, existingData) : [],
+    [file, mapping, existingData, type, step]
+  );
+
+  const summary = useMemo(() => {
+    const invalid = validatedRows.filter(row => row.errors.length > 0).length;
+    const existing = validatedRows.filter(row => row.errors.length === 0 && row.existingId).length;
+    return { invalid, existing, created: validatedRows.length - invalid - existing };
+  }, [validatedRows]);
+
+  const missingRequired = fields.filter(field => field.required && (mapping[field.key] ?? -1) < 0);
+  const previewRows = (errorsOnly ? validatedRows.filter(row => row.errors.length > 0) : validatedRows).slice(0, PREVIEW_LIMIT);
+  const mappedFields = fields.filter(field => (mapping[field.key] ?? -1) >= 0);
+
+  const resetWizard = () => {
+    setStep('fichier');
+    setFile(null);
+    setMapping({});
+    setErrorsOnly(false);
+    setFileError('');
+    setImportResult(null);
+  };
+
+  const handleClose = () => {
+    resetWizard();
+    onClose();
+  };
+
+  const loadFile = async (selected?: File) => {
+    if (!selected) return;
+
+    if (!/\.(csv|txt|xlsx|xls)$/i.test(selected.name)) {
+      setFileError('Veuillez sélectionner un fichier CSV ou Excel (.csv, .txt, .xlsx)');
+      return;
     }
+
+    setIsReading(true);
+    setFileError('');
+    try {
+      const parsed = await readImportFile(selected);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setFileError('Le fichier ne contient aucune ligne de données');
+        return;
+      }
+      setFile(parsed);
+      setMapping(guessColumnMapping(parsed.headers, fields));
+      setImportResult(null);
+      setStep('colonnes');
+    } catch (error: any) {
+      console.error('Error reading import file:', error);
+      setFileError(`Impossible de lire le fichier : ${error.message}`);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    loadFile(event.target.files?.[0]);
+    event.target.value = '';
   };
 
   const handleDrop = (event: React.DragEvent) => {
     event.preventDefault();
     setDragOver(false);
-    
-    const file = event.dataTransfer.files[0];
-    if (file && file.type === 'text/csv') {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        setCsvContent(content);
-        setImportResult(null);
-      };
-      reader.readAsText(file, 'UTF-8');
-    } else {
-      alert('Veuillez déposer un fichier CSV valide');
-    }
+    loadFile(event.dataTransfer.files[0]);
   };
 
   const handleDragOver = (event: React.DragEvent) => {
@@ -73,9 +142,23 @@ const CSVImportDialog: React.FC<CSVImportDialogProps> = ({
     setDragOver(false);
   };
 
+  const handleMappingChange = (fieldKey: string, column: number) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      // A column feeds a single field
+      Object.keys(next).forEach(key => {
+        if (column >= 0 && next[key] === column) {
+          next[key] = -1;
+        }
+      });
+      next[fieldKey] = column;
+      return next;
+    });
+  };
+
   const downloadTemplate = () => {
     const template = type === 'clients' ? generateClientCSVTemplate() : generateProduitCSVTemplate();
-    const blob = new Blob([template], { type: 'text/csv;charset=utf-8;' });
+    const blob = new Blob(['\uFEFF' + template], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
@@ -87,25 +170,16 @@ const CSVImportDialog: React.FC<CSVImportDialogProps> = ({
   };
 
   const handleImport = async () => {
-    if (!csvContent.trim()) {
-      alert('Veuillez charger un fichier CSV');
-      return;
-    }
+    if (!importRecords) return;
 
     setIsImporting(true);
     setImportResult(null);
 
     try {
-      let result: ImportResult;
-      
-      if (type === 'clients') {
-        result = await importClientsFromCSV(csvContent, existingData as Client[], query);
-      } else {
-        result = await importProduitsFromCSV(csvContent, existingData as Produit[], query);
-      }
-      
+      const result = await importValidatedRows(type, validatedRows, mapping, updateExisting, importRecords);
       setImportResult(result);
-      
+      setStep('resultat');
+
       if (result.success) {
         onImportComplete(result);
       }
@@ -113,291 +187,403 @@ const CSVImportDialog: React.FC<CSVImportDialogProps> = ({
       setImportResult({
         success: false,
         imported: 0,
+        updated: 0,
         errors: [`Erreur lors de l'importation: ${error.message}`],
         duplicates: 0,
         skipped: 0
       });
+      setStep('resultat');
     } finally {
       setIsImporting(false);
     }
   };
 
-  const getFormatInstructions = () => {
-    if (type === 'clients') {
-      return {
-        title: 'Format CSV pour les clients',
-        required: ['code', 'nom'],
-        optional: ['adresse', 'codePostal', 'ville', 'telephone', 'email', 'siret', 'matriculeFiscal'],
-        example: 'CL0001,"Entreprise ABC","123 Rue de la Paix",1000,Tunis,"+216 71 123 456","contact@abc.tn","12345678901234","123456789ABC"'
-      };
-    } else {
-      return {
-        title: 'Format CSV pour les produits',
-        required: ['nom', 'prixUnitaire', 'type'],
-        optional: ['ref', 'description', 'tva', 'stock'],
-        example: 'V0001,"Consultation","Conseil en informatique",500.000,19,0,vente',
-        notes: [
-          'Le type doit être "vente" ou "achat"',
-          'Le prix unitaire doit être un nombre (utilisez . pour les décimales)',
-          'La TVA doit être un pourcentage entre 0 et 100',
-          'Le stock doit être un nombre entier positif'
-        ]
-      };
-    }
-  };
-
-  const formatInfo = getFormatInstructions();
-
   if (!isOpen) return null;
 
+  const currentStepIndex = STEPS.findIndex(s => s.id === step);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-hidden">
         <div className="flex items-center justify-between p-6 border-b">
           <h2 className="text-xl font-semibold flex items-center">
             {type === 'clients' ? <Users className="w-6 h-6 mr-2 text-blue-600" /> : <Package className="w-6 h-6 mr-2 text-green-600" />}
-            Importer {type === 'clients' ? 'des clients' : 'des produits'} depuis CSV
+            Importer {type === 'clients' ? 'des clients' : 'des produits'} depuis CSV ou Excel
           </h2>
-          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600">
             <X className="w-6 h-6" />
           </button>
         </div>
 
-        <div className="p-6 overflow-y-auto max-h-[calc(90vh-140px)]">
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {/* Left Column - Upload and Import */}
-            <div className="space-y-6">
-              {/* Template Download */}
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <div className="flex items-center mb-3">
-                  <Download className="w-5 h-5 text-blue-600 mr-2" />
-                  <h3 className="font-medium text-blue-900">Télécharger le modèle</h3>
-                </div>
-                <p className="text-sm text-blue-700 mb-3">
-                  Téléchargez un fichier CSV modèle avec le format correct et des exemples de données.
-                </p>
-                <button
-                  onClick={downloadTemplate}
-                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center"
-                >
-                  <Download className="w-4 h-4 mr-2" />
-                  Télécharger le modèle CSV
-                </button>
-              </div>
+        {/* Steps */}
+        <div className="flex items-center px-6 py-3 border-b bg-gray-50 space-x-4">
+          {STEPS.map((s, index) => (
+            <div key={s.id} className="flex items-center">
+              <span className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium mr-2 ${
+                index < currentStepIndex ? 'bg-green-600 text-white' :
+                index === currentStepIndex ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-600'
+              }`}>
+                {index + 1}
+              </span>
+              <span className={`text-sm ${index === currentStepIndex ? 'font-medium text-gray-900' : 'text-gray-500'}`}>{s.label}</span>
+            </div>
+          ))}
+        </div>
 
-              {/* File Upload */}
-              <div className="space-y-4">
-                <h3 className="font-medium text-gray-900 flex items-center">
-                  <Upload className="w-5 h-5 mr-2" />
-                  Charger votre fichier CSV
-                </h3>
-                
-                <div
-                  className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
-                    dragOver 
-                      ? 'border-blue-500 bg-blue-50' 
-                      : 'border-gray-300 hover:border-gray-400'
-                  }`}
-                  onDrop={handleDrop}
-                  onDragOver={handleDragOver}
-                  onDragLeave={handleDragLeave}
-                >
-                  <Upload className="w-8 h-8 mx-auto text-gray-400 mb-2" />
-                  <p className="text-gray-600 mb-2">
-                    Glissez-déposez votre fichier CSV ici ou
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-210px)]">
+          {step === 'fichier' && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-6">
+                {/* Template Download */}
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                  <div className="flex items-center mb-3">
+                    <Download className="w-5 h-5 text-blue-600 mr-2" />
+                    <h3 className="font-medium text-blue-900">Télécharger le modèle</h3>
+                  </div>
+                  <p className="text-sm text-blue-700 mb-3">
+                    Téléchargez un fichier CSV modèle avec le format correct et des exemples de données.
                   </p>
-                  <label className="inline-block px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 cursor-pointer">
-                    Parcourir les fichiers
-                    <input
-                      type="file"
-                      accept=".csv"
-                      onChange={handleFileUpload}
-                      className="hidden"
-                    />
-                  </label>
+                  <button
+                    onClick={downloadTemplate}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Télécharger le modèle CSV
+                  </button>
                 </div>
 
-                {csvContent && (
-                  <div className="bg-green-50 border border-green-200 rounded-lg p-3">
-                    <div className="flex items-center">
-                      <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
-                      <span className="text-green-700 font-medium">Fichier CSV chargé</span>
-                    </div>
-                    <p className="text-sm text-green-600 mt-1">
-                      {csvContent.split('\n').length - 1} ligne(s) de données détectée(s)
-                    </p>
-                  </div>
-                )}
-              </div>
-
-              {/* Import Button */}
-              <button
-                onClick={handleImport}
-                disabled={!csvContent || isImporting}
-                className="w-full px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {isImporting ? (
-                  <>
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-                    Importation en cours...
-                  </>
-                ) : (
-                  <>
+                {/* File Upload */}
+                <div className="space-y-4">
+                  <h3 className="font-medium text-gray-900 flex items-center">
                     <Upload className="w-5 h-5 mr-2" />
-                    Importer les données
-                  </>
-                )}
-              </button>
+                    Charger votre fichier
+                  </h3>
 
-              {/* Import Results */}
-              {importResult && (
-                <div className={`rounded-lg p-4 ${
-                  importResult.success ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
-                }`}>
-                  <div className="flex items-center mb-2">
-                    {importResult.success ? (
-                      <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
+                  <div
+                    className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+                      dragOver
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-300 hover:border-gray-400'
+                    }`}
+                    onDrop={handleDrop}
+                    onDragOver={handleDragOver}
+                    onDragLeave={handleDragLeave}
+                  >
+                    {isReading ? (
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
                     ) : (
-                      <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
-                    )}
-                    <h4 className={`font-medium ${
-                      importResult.success ? 'text-green-900' : 'text-red-900'
-                    }`}>
-                      Résultat de l'importation
-                    </h4>
-                  </div>
-                  
-                  <div className={`text-sm space-y-1 ${
-                    importResult.success ? 'text-green-700' : 'text-red-700'
-                  }`}>
-                    <p>✅ Importés: {importResult.imported}</p>
-                    <p>🔄 Doublons: {importResult.duplicates}</p>
-                    <p>⏭️ Ignorés: {importResult.skipped}</p>
-                    
-                    {importResult.errors.length > 0 && (
-                      <div className="mt-3">
-                        <p className="font-medium">Erreurs:</p>
-                        <ul className="list-disc list-inside space-y-1 max-h-32 overflow-y-auto">
-                          {importResult.errors.slice(0, 10).map((error, index) => (
-                            <li key={index} className="text-xs">{error}</li>
-                          ))}
-                          {importResult.errors.length > 10 && (
-                            <li className="text-xs font-medium">
-                              ... et {importResult.errors.length - 10} autres erreurs
-                            </li>
-                          )}
-                        </ul>
-                      </div>
+                      <>
+                        <Upload className="w-8 h-8 mx-auto text-gray-400 mb-2" />
+                        <p className="text-gray-600 mb-2">
+                          Glissez-déposez votre fichier CSV ou Excel ici ou
+                        </p>
+                        <label className="inline-block px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 cursor-pointer">
+                          Parcourir les fichiers
+                          <input
+                            type="file"
+                            accept=".csv,.txt,.xlsx,.xls"
+                            onChange={handleFileUpload}
+                            className="hidden"
+                          />
+                        </label>
+                      </>
                     )}
                   </div>
-                </div>
-              )}
-            </div>
-
-            {/* Right Column - Format Instructions */}
-            <div className="space-y-6">
-              <div className="bg-gray-50 rounded-lg p-4">
-                <div className="flex items-center mb-3">
-                  <FileText className="w-5 h-5 text-gray-600 mr-2" />
-                  <h3 className="font-medium text-gray-900">{formatInfo.title}</h3>
-                </div>
 
-                <div className="space-y-4">
-                  <div>
-                    <h4 className="text-sm font-medium text-gray-700 mb-2">Colonnes obligatoires:</h4>
-                    <div className="flex flex-wrap gap-2">
-                      {formatInfo.required.map(field => (
-                        <span key={field} className="px-2 py-1 bg-red-100 text-red-800 text-xs rounded">
-                          {field}
-                        </span>
-                      ))}
+                  {fileError && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center text-sm text-red-700">
+                      <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+                      {fileError}
                     </div>
-                  </div>
+                  )}
+                </div>
+              </div>
 
-                  <div>
-                    <h4 className="text-sm font-medium text-gray-700 mb-2">Colonnes optionnelles:</h4>
-                    <div className="flex flex-wrap gap-2">
-                      {formatInfo.optional.map(field => (
-                        <span key={field} className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded">
-                          {field}
-                        </span>
-                      ))}
-                    </div>
+              {/* General Instructions */}
+              <div className="space-y-6">
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <div className="flex items-center mb-3">
+                    <FileText className="w-5 h-5 text-gray-600 mr-2" />
+                    <h3 className="font-medium text-gray-900">Champs disponibles</h3>
                   </div>
-
-                  <div>
-                    <h4 className="text-sm font-medium text-gray-700 mb-2">Exemple de ligne:</h4>
-                    <div className="bg-white p-2 rounded border text-xs font-mono break-all">
-                      {formatInfo.example}
-                    </div>
+                  <div className="flex flex-wrap gap-2">
+                    {fields.map(field => (
+                      <span
+                        key={field.key}
+                        className={`px-2 py-1 text-xs rounded ${field.required ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}`}
+                      >
+                        {field.label}{field.required ? ' *' : ''}
+                      </span>
+                    ))}
                   </div>
+                </div>
 
-                  {formatInfo.notes && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                  <div className="flex items-start">
+                    <AlertCircle className="w-5 h-5 text-yellow-600 mr-2 mt-0.5" />
                     <div>
-                      <h4 className="text-sm font-medium text-gray-700 mb-2">Notes importantes:</h4>
-                      <ul className="text-xs text-gray-600 space-y-1">
-                        {formatInfo.notes.map((note, index) => (
-                          <li key={index} className="flex items-start">
-                            <span className="text-yellow-500 mr-1">⚠️</span>
-                            {note}
-                          </li>
-                        ))}
+                      <h4 className="font-medium text-yellow-900 mb-2">Instructions générales</h4>
+                      <ul className="text-sm text-yellow-700 space-y-1">
+                        <li>• La première ligne doit contenir les en-têtes de colonnes</li>
+                        <li>• Le séparateur (; , ou tabulation) et l'encodage sont détectés automatiquement</li>
+                        <li>• Pour un classeur Excel, seule la première feuille est importée</li>
+                        <li>• Vous pourrez associer les colonnes et vérifier les lignes avant l'importation</li>
+                        <li>• Sauvegardez vos données avant l'importation</li>
                       </ul>
                     </div>
-                  )}
+                  </div>
                 </div>
               </div>
+            </div>
+          )}
 
-              {/* General Instructions */}
-              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                <div className="flex items-start">
-                  <AlertCircle className="w-5 h-5 text-yellow-600 mr-2 mt-0.5" />
-                  <div>
-                    <h4 className="font-medium text-yellow-900 mb-2">Instructions générales</h4>
-                    <ul className="text-sm text-yellow-700 space-y-1">
-                      <li>• La première ligne doit contenir les en-têtes de colonnes</li>
-                      <li>• Utilisez des guillemets pour les champs contenant des virgules</li>
-                      <li>• L'encodage du fichier doit être UTF-8</li>
-                      <li>• Les doublons seront automatiquement détectés et ignorés</li>
-                      <li>• Sauvegardez vos données avant l'importation</li>
-                    </ul>
-                  </div>
+          {step === 'colonnes' && file && (
+            <div className="space-y-4">
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+                <div className="flex items-center font-medium">
+                  <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
+                  {file.fileName}
                 </div>
+                <p className="mt-1">
+                  {file.rows.length} ligne(s) de données
+                  {file.format === 'csv'
+                    ? ` • séparateur : ${DELIMITER_LABELS[file.delimiter || ','] || file.delimiter} • encodage : ${file.encoding}`
+                    : ' • classeur Excel'}
+                </p>
               </div>
 
-              {/* CSV Preview */}
-              {csvContent && (
-                <div className="bg-white border rounded-lg p-4">
-                  <h4 className="font-medium text-gray-900 mb-2">Aperçu du fichier CSV</h4>
-                  <div className="bg-gray-50 p-3 rounded text-xs font-mono max-h-40 overflow-auto">
-                    {csvContent.split('\n').slice(0, 5).map((line, index) => (
-                      <div key={index} className={index === 0 ? 'font-bold text-blue-600' : 'text-gray-700'}>
-                        {line}
-                      </div>
-                    ))}
-                    {csvContent.split('\n').length > 5 && (
-                      <div className="text-gray-500 italic">
-                        ... et {csvContent.split('\n').length - 5} autres lignes
-                      </div>
-                    )}
-                  </div>
+              <p className="text-sm text-gray-600">
+                Associez chaque champ à une colonne du fichier. Les champs marqués * sont obligatoires.
+              </p>
+
+              <table className="min-w-full divide-y divide-gray-200 border">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Champ</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Colonne du fichier</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Exemple</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {fields.map(field => {
+                    const column = mapping[field.key] ?? -1;
+                    return (
+                      <tr key={field.key}>
+                        <td className="px-4 py-2 text-sm font-medium text-gray-900">
+                          {field.label}{field.required && <span className="text-red-600"> *</span>}
+                        </td>
+                        <td className="px-4 py-2">
+                          <select
+                            value={column}
+                            onChange={(e) => handleMappingChange(field.key, parseInt(e.target.value))}
+                            className={`w-full px-3 py-1.5 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                              field.required && column < 0 ? 'border-red-300' : 'border-gray-300'
+                            }`}
+                          >
+                            <option value={-1}>— Ne pas importer —</option>
+                            {file.headers.map((header, index) => (
+                              <option key={index} value={index}>{header || `Colonne ${index + 1}`}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500 truncate max-w-xs">
+                          {column >= 0 ? file.rows[0]?.[column] || '' : ''}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {missingRequired.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center text-sm text-red-700">
+                  <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+                  Champ(s) obligatoire(s) non associé(s) : {missingRequired.map(field => field.label).join(', ')}
                 </div>
               )}
             </div>
-          </div>
+          )}
+
+          {step === 'apercu' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+                  <p className="text-sm text-green-700">À créer</p>
+                  <p className="text-2xl font-semibold text-green-900">{summary.created}</p>
+                </div>
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                  <p className="text-sm text-blue-700">Existants ({keyField === 'code' ? 'même code' : 'même référence'})</p>
+                  <p className="text-2xl font-semibold text-blue-900">{summary.existing}</p>
+                </div>
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                  <p className="text-sm text-red-700">En erreur (ignorées)</p>
+                  <p className="text-2xl font-semibold text-red-900">{summary.invalid}</p>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={updateExisting}
+                    onChange={(e) => setUpdateExisting(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Mettre à jour les {entityLabel} existants au lieu de les ignorer
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={errorsOnly}
+                    onChange={(e) => setErrorsOnly(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Afficher uniquement les lignes en erreur
+                </label>
+              </div>
+
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ligne</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">État</th>
+                      {mappedFields.map(field => (
+                        <th key={field.key} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase whitespace-nowrap">{field.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {previewRows.map(row => (
+                      <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                        <td className="px-3 py-2 text-sm text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2 text-sm whitespace-nowrap">
+                          {row.errors.length > 0 ? (
+                            <span className="text-red-700">{row.errors.join(', ')}</span>
+                          ) : row.existingId ? (
+                            <span className="text-blue-700">{updateExisting ? 'Mise à jour' : 'Ignorée (existe déjà)'}</span>
+                          ) : (
+                            <span className="text-green-700">Nouveau</span>
+                          )}
+                        </td>
+                        {mappedFields.map(field => (
+                          <td key={field.key} className="px-3 py-2 text-sm text-gray-900 truncate max-w-xs">{row.values[field.key]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {(errorsOnly ? summary.invalid : validatedRows.length) > PREVIEW_LIMIT && (
+                <p className="text-sm text-gray-500 italic">
+                  Seules les {PREVIEW_LIMIT} premières lignes sont affichées ; toutes les lignes seront traitées.
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === 'resultat' && importResult && (
+            <div className={`rounded-lg p-4 ${
+              importResult.success ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+            }`}>
+              <div className="flex items-center mb-2">
+                {importResult.success ? (
+                  <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
+                ) : (
+                  <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+                )}
+                <h4 className={`font-medium ${
+                  importResult.success ? 'text-green-900' : 'text-red-900'
+                }`}>
+                  Résultat de l'importation
+                </h4>
+              </div>
+
+              <div className={`text-sm space-y-1 ${
+                importResult.success ? 'text-green-700' : 'text-red-700'
+              }`}>
+                <p>✅ Importés: {importResult.imported}</p>
+                <p>✏️ Mis à jour: {importResult.updated}</p>
+                <p>🔄 Doublons: {importResult.duplicates}</p>
+                <p>⏭️ Ignorés: {importResult.skipped}</p>
+
+                {importResult.errors.length > 0 && (
+                  <div className="mt-3">
+                    <p className="font-medium">Erreurs:</p>
+                    <ul className="list-disc list-inside space-y-1 max-h-48 overflow-y-auto">
+                      {importResult.errors.map((error, index) => (
+                        <li key={index} className="text-xs">{error}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
         </div>
 
-        <div className="flex justify-end space-x-4 p-6 border-t bg-gray-50">
-          <button
-            onClick={onClose}
-            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
-          >
-            Fermer
-          </button>
+        <div className="flex justify-between p-6 border-t bg-gray-50">
+          <div>
+            {(step === 'colonnes' || step === 'apercu') && (
+              <button
+                onClick={() => setStep(step === 'apercu' ? 'colonnes' : 'fichier')}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 flex items-center"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Retour
+              </button>
+            )}
+            {step === 'resultat' && (
+              <button
+                onClick={resetWizard}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Importer un autre fichier
+              </button>
+            )}
+          </div>
+          <div className="flex space-x-4">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Fermer
+            </button>
+            {step === 'colonnes' && (
+              <button
+                onClick={() => setStep('apercu')}
+                disabled={missingRequired.length > 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Aperçu
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </button>
+            )}
+            {step === 'apercu' && (
+              <button
+                onClick={handleImport}
+                disabled={isImporting || !importRecords || summary.created + (updateExisting ? summary.existing : 0) === 0}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                    Importation en cours...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="w-4 h-4 mr-2" />
+                    Importer {summary.created + (updateExisting ? summary.existing : 0)} ligne(s)
+                  </>
+                )}
+              </button>
+            )}
+          </div>
         </div>
       </div>
     </div>
   );
 };
 
-export default CSVImportDialog;
\ No newline at end of file
+export default CSVImportDialog;
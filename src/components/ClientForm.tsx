@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save } from 'lucide-react';
-import { Client } from '../types';
+import { Client, ListePrix } from '../types';
 import { useDatabase } from '../hooks/useDatabase';
 import { v4 as uuidv4 } from 'uuid';
 import { useNotification } from '../contexts/NotificationContext';
@@ -22,18 +22,21 @@ const ClientForm: React.FC<ClientFormProps> = ({ isOpen, onClose, onSave, client
     telephone: '',
     email: '',
     siret: '',
-    matriculeFiscal: ''
+    matriculeFiscal: '',
+    listePrixId: ''
   });
+  const [listesPrix, setListesPrix] = useState<ListePrix[]>([]);
 
   const [isCodeEditable, setIsCodeEditable] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { query, isReady } = useDatabase();
+  const { listClients, saveClient, listPriceLists, isReady } = useDatabase();
   const { showNotification } = useNotification();
 
   useEffect(() => {
     if (isOpen && isReady) {
       setError(null);
+      loadListesPrix();
       if (client) {
         setFormData({
           code: client.code,
@@ -44,7 +47,8 @@ const ClientForm: React.FC<ClientFormProps> = ({ isOpen, onClose, onSave, client
           telephone: client.telephone || '',
           email: client.email || '',
           siret: client.siret || '',
-          matriculeFiscal: client.matriculeFiscal || ''
+          matriculeFiscal: client.matriculeFiscal || '',
+          listePrixId: client.listePrixId || ''
         });
         setIsCodeEditable(false);
       } else {
@@ -58,19 +62,27 @@ const ClientForm: React.FC<ClientFormProps> = ({ isOpen, onClose, onSave, client
           telephone: '',
           email: '',
           siret: '',
-          matriculeFiscal: ''
+          matriculeFiscal: '',
+          listePrixId: ''
         });
         setIsCodeEditable(true);
       }
     }
   }, [client, isOpen, isReady]);
 
+  const loadListesPrix = async () => {
+    try {
+      setListesPrix(await listPriceLists());
+    } catch (error) {
+      console.error('Error loading price lists:', error);
+    }
+  };
+
   const generateClientCode = async () => {
     if (!isReady) return;
     
     try {
-      const result = await query('SELECT COUNT(*) as count FROM clients');
-      const count = result[0]?.count || 0;
+      const count = (await listClients()).length;
       const clientCode = `CL${String(count + 1).padStart(4, '0')}`;
       setFormData(prev => ({ ...prev, code: clientCode }));
     } catch (error) {
@@ -100,16 +112,6 @@ const ClientForm: React.FC<ClientFormProps> = ({ isOpen, onClose, onSave, client
         return;
       }
 
-      // Check if client code already exists (only for new clients)
-      if (!client) {
-        const existingClient = await query('SELECT id FROM clients WHERE code = ?', [formData.code.trim()]);
-        if (existingClient.length > 0) {
-          setError('Ce code client existe déjà. Veuillez en choisir un autre.');
-          setIsSubmitting(false);
-          return;
-        }
-      }
-
       const clientData: Client = {
         id: client?.id || uuidv4(),
         code: formData.code.trim(),
@@ -120,26 +122,16 @@ const ClientForm: React.FC<ClientFormProps> = ({ isOpen, onClose, onSave, client
         telephone: formData.telephone.trim(),
         email: formData.email.trim(),
         siret: formData.siret.trim(),
-        matriculeFiscal: formData.matriculeFiscal.trim()
+        matriculeFiscal: formData.matriculeFiscal.trim(),
+        listePrixId: formData.listePrixId || undefined
       };
 
-      await query(
-        `INSERT OR REPLACE INTO clients 
-         (id, code, nom, adresse, codePostal, ville, telephone, email, siret, matriculeFiscal)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          clientData.id,
-          clientData.code,
-          clientData.nom,
-          clientData.adresse,
-          clientData.codePostal,
-          clientData.ville,
-          clientData.telephone,
-          clientData.email,
-          clientData.siret,
-          clientData.matriculeFiscal
-        ]
-      );
+      // The main process rejects a code already used by another client
+      const result = await saveClient(clientData);
+      if (!result.success) {
+        setError(result.error || 'Erreur lors de la sauvegarde du client');
+        return;
+      }
 
       onSave(clientData);
       onClose();
@@ -319,6 +311,23 @@ const ClientForm: React.FC<ClientFormProps> = ({ isOpen, onClose, onSave, client
                 disabled={isSubmitting}
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Liste de prix
+              </label>
+              <select
+                value={formData.listePrixId}
+                onChange={(e) => handleChange('listePrixId', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isSubmitting}
+              >
+                <option value="">Prix des produits</option>
+                {listesPrix.map(liste => (
+                  <option key={liste.id} value={liste.id}>{liste.nom}{liste.actif ? '' : ' (inactive)'}</option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div className="flex justify-end space-x-4 mt-6">
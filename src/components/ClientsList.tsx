@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Search, User, Upload } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, User, Upload, BookOpen } from 'lucide-react';
 import { Client } from '../types';
 import { useDatabase } from '../hooks/useDatabase';
 import ClientForm from './ClientForm';
 import CSVImportDialog from './CSVImportDialog';
+import ReleveClientDialog from './ReleveClientDialog';
 import { ImportResult } from '../utils/csvImporter';
 import { useNotification } from '../contexts/NotificationContext';
 
@@ -14,7 +15,8 @@ const ClientsList: React.FC = () => {
   const [showForm, setShowForm] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
   const [showImportDialog, setShowImportDialog] = useState(false);
-  const { query, isReady } = useDatabase();
+  const [releveClient, setReleveClient] = useState<Client | null>(null);
+  const { listClients, deleteClient, importRecords, isReady } = useDatabase();
   const { showNotification } = useNotification();
 
   useEffect(() => {
@@ -39,7 +41,7 @@ const ClientsList: React.FC = () => {
     if (!isReady) return;
     
     try {
-      const result = await query('SELECT * FROM clients ORDER BY code ASC');
+      const result = await listClients();
       setClients(result);
     } catch (error) {
       console.error('Error loading clients:', error);
@@ -86,31 +88,15 @@ const ClientsList: React.FC = () => {
     
     if (window.confirm('Êtes-vous sûr de vouloir supprimer ce client ?')) {
       try {
-        // Delete all related documents first
-        const factures = await query('SELECT id FROM factures WHERE clientId = ?', [id]);
-        for (const facture of factures) {
-          await query('DELETE FROM payments WHERE factureId = ?', [facture.id]);
-          await query('DELETE FROM lignes_facture WHERE factureId = ?', [facture.id]);
+        // Refused while the client has documents
+        const result = await deleteClient(id);
+        if (!result.success) {
+          throw new Error(result.error);
         }
-        await query('DELETE FROM factures WHERE clientId = ?', [id]);
-        
-        const devis = await query('SELECT id FROM devis WHERE clientId = ?', [id]);
-        for (const devi of devis) {
-          await query('DELETE FROM lignes_devis WHERE devisId = ?', [devi.id]);
-        }
-        await query('DELETE FROM devis WHERE clientId = ?', [id]);
-        
-        const bonsLivraison = await query('SELECT id FROM bons_livraison WHERE clientId = ?', [id]);
-        for (const bon of bonsLivraison) {
-          await query('DELETE FROM lignes_bon_livraison WHERE bonLivraisonId = ?', [bon.id]);
-        }
-        await query('DELETE FROM bons_livraison WHERE clientId = ?', [id]);
-        
-        await query('DELETE FROM clients WHERE id = ?', [id]);
         setClients(clients.filter(c => c.id !== id));
       } catch (error) {
         console.error('Error deleting client:', error);
-        showNotification('Erreur lors de la suppression du client', 'error');
+        showNotification('Erreur lors de la suppression du client: ' + (error instanceof Error ? error.message : 'Erreur inconnue'), 'error');
       }
     }
   };
@@ -119,10 +105,9 @@ const ClientsList: React.FC = () => {
     if (result.success) {
       // Reload clients to show imported data
       loadClients();
-      setShowImportDialog(false);
       
-      // Show success message
-      showNotification(`Importation réussie! ${result.imported} client(s) importé(s), ${result.duplicates} doublon(s) ignoré(s), ${result.skipped} ligne(s) ignorée(s)`, 'success');
+      // Show success message, the dialog stays open on the detailed result
+      showNotification(`Importation réussie! ${result.imported} client(s) importé(s), ${result.updated} mis à jour, ${result.duplicates} doublon(s) ignoré(s), ${result.skipped} ligne(s) ignorée(s)`, 'success');
     }
   };
 
@@ -257,6 +242,13 @@ const ClientsList: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex items-center justify-end space-x-2">
+                      <button
+                        onClick={() => setReleveClient(client)}
+                        className="text-blue-600 hover:text-blue-900 p-1 hover:bg-blue-50 rounded transition-colors"
+                        title="Relevé de compte"
+                      >
+                        <BookOpen className="w-4 h-4" />
+                      </button>
                       <button
                         onClick={() => handleEdit(client)}
                         className="text-indigo-600 hover:text-indigo-900 p-1 hover:bg-indigo-50 rounded transition-colors"
@@ -309,6 +301,13 @@ const ClientsList: React.FC = () => {
         client={editingClient}
       />
 
+      {/* Account Statement Dialog */}
+      <ReleveClientDialog
+        isOpen={releveClient !== null}
+        onClose={() => setReleveClient(null)}
+        client={releveClient}
+      />
+
       {/* CSV Import Dialog */}
       <CSVImportDialog
         isOpen={showImportDialog}
@@ -316,7 +315,7 @@ const ClientsList: React.FC = () => {
         type="clients"
         existingData={clients}
         onImportComplete={handleImportComplete}
-        query={query}
+        importRecords={importRecords}
       />
     </>
   );
@@ -1,13 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { X, Plus, Trash2, Save, User, Package, Calculator, Search, ShoppingCart } from 'lucide-react';
-import { Fournisseur, Produit, LigneDocument, CommandeFournisseur, TaxGroup, TaxGroupSummary } from '../types';
+import { Fournisseur, Produit, LigneDocument, CommandeFournisseur, TaxGroup, TaxGroupSummary, RemiseGlobale, FraisDocument } from '../types';
 import { useDatabase } from '../hooks/useDatabase';
-import { formatCurrency, calculateTTC } from '../utils/currency';
-import { calculateTaxesByGroup, loadTaxGroups, ensureTaxGroupForProduct } from '../utils/productTaxCalculator';
-import { getNextDocumentNumber } from '../utils/numberGenerator';
+import { useAppSetting } from '../hooks/useAppSetting';
+import { formatCurrency, calculateTTC, formatDocumentAmount, fromBaseCurrency, isForeignCurrency, BASE_CURRENCY, getMoneyDecimals } from '../utils/currency';
+import { loadTaxGroups, ensureTaxGroupForProduct, calculateProductTaxes, calculateDocumentTotals } from '../utils/productTaxCalculator';
+import { sumMoney } from '../utils/money';
 import { v4 as uuidv4 } from 'uuid';
 import FournisseurForm from './FournisseurForm';
 import ProduitForm from './ProduitForm';
+import DocumentCurrencyFields from './DocumentCurrencyFields';
+import DocumentAdjustmentsFields from './DocumentAdjustmentsFields';
 import { useNotification } from '../contexts/NotificationContext';
 
 interface CommandeFournisseurFormProps {
@@ -24,8 +27,11 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
     dateReception: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     fournisseurId: '',
     notes: '',
-    statut: 'brouillon' as const
+    statut: 'brouillon' as const,
+    devise: BASE_CURRENCY,
+    tauxChange: 1
   });
+  const moneyDecimals = getMoneyDecimals(formData.devise);
 
   const [fournisseurs, setFournisseurs] = useState<Fournisseur[]>([]);
   const [produits, setProduits] = useState<Produit[]>([]);
@@ -33,6 +39,8 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
   const [selectedFournisseur, setSelectedFournisseur] = useState<Fournisseur | null>(null);
   const [taxGroups, setTaxGroups] = useState<TaxGroup[]>([]);
   const [taxGroupsSummary, setTaxGroupsSummary] = useState<TaxGroupSummary[]>([]);
+  const [remiseGlobale, setRemiseGlobale] = useState<RemiseGlobale | undefined>();
+  const [frais, setFrais] = useState<FraisDocument[]>([]);
   
   // Search states
   const [fournisseurSearchTerm, setFournisseurSearchTerm] = useState('');
@@ -49,14 +57,15 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
   const [editingProduit, setEditingProduit] = useState<Produit | null>(null);
   const [newProductType, setNewProductType] = useState<'vente' | 'achat'>('achat');
 
-  const { query, isElectron, isReady } = useDatabase();
+  const { query, saveDocument, previewDocumentNumber, isElectron, isReady } = useDatabase();
+  const { roundingPolicy } = useAppSetting('invoiceSettings');
   const { showNotification } = useNotification();
 
   const generateNumero = async () => {
     if (!isReady) return;
     
     try {
-      const numero = await getNextDocumentNumber('commandesFournisseur', isElectron, query, false);
+      const numero = await previewDocumentNumber('commandesFournisseur');
       setFormData(prev => ({ ...prev, numero }));
     } catch (error) {
       console.error('Error generating numero:', error);
@@ -76,12 +85,16 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
           dateReception: commande.dateReception.toISOString().split('T')[0],
           fournisseurId: commande.fournisseur.id,
           notes: commande.notes || '',
-          statut: commande.statut
+          statut: commande.statut,
+          devise: commande.devise || BASE_CURRENCY,
+          tauxChange: commande.tauxChange || 1
         });
         setSelectedFournisseur(commande.fournisseur);
         setFournisseurSearchTerm(commande.fournisseur.nom);
         setLignes(commande.lignes);
         setTaxGroupsSummary(commande.taxGroupsSummary || []);
+        setRemiseGlobale(commande.remiseGlobale);
+        setFrais(commande.frais || []);
       } else {
         generateNumero();
         // Reset form for new commande
@@ -91,12 +104,16 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
           dateReception: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
           fournisseurId: '',
           notes: '',
-          statut: 'brouillon'
+          statut: 'brouillon',
+          devise: BASE_CURRENCY,
+          tauxChange: 1
         });
         setSelectedFournisseur(null);
         setFournisseurSearchTerm('');
         setLignes([]);
         setTaxGroupsSummary([]);
+        setRemiseGlobale(undefined);
+        setFrais([]);
         setProductSearchTerm('');
         setShowProductDropdown(false);
       }
@@ -124,7 +141,7 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
   // Recalculate taxes when lines change
   useEffect(() => {
     recalculateTaxes();
-  }, [lignes, taxGroups]);
+  }, [lignes, taxGroups, remiseGlobale, frais]);
 
   const loadFournisseurs = async () => {
     if (!isReady) return;
@@ -187,9 +204,8 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
       return;
     }
 
-    // Calculate taxes by group
-    const { taxGroupsSummary, totalTaxes } = calculateTaxesByGroup(lignes, taxGroups);
-    setTaxGroupsSummary(taxGroupsSummary);
+    // Taxes by rate, including the share of the global discount and fees
+    setTaxGroupsSummary(calculateTotals().taxGroupsSummary);
   };
 
   // Filter fournisseurs based on search term
@@ -228,57 +244,18 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
       const newLignes = [...lignes];
       newLignes[existingLineIndex].quantite += 1;
       
-      // Recalculate amounts with proper FODEC logic
-      const ligne = newLignes[existingLineIndex];
-      const montantHT = ligne.quantite * ligne.prixUnitaire * (1 - (ligne.remise || 0) / 100);
-      ligne.montantHT = montantHT;
-      
-      // Calculate FODEC
-      const montantFodec = ligne.produit.fodecApplicable ? 
-        montantHT * ((ligne.produit.tauxFodec || 1) / 100) : 0;
-      ligne.montantFodec = montantFodec;
-      
-      // Calculate TVA base (HT + FODEC)
-      const baseTVA = montantHT + montantFodec;
-      ligne.baseTVA = baseTVA;
-      
-      // Calculate TVA
-      const montantTVA = baseTVA * (ligne.produit.tva / 100);
-      ligne.montantTVA = montantTVA;
-      
-      // Calculate TTC
-      ligne.montantTTC = montantHT + montantFodec + montantTVA;
-      
+      newLignes[existingLineIndex] = calculateProductTaxes(newLignes[existingLineIndex], moneyDecimals);
       setLignes(newLignes);
     } else {
-      // Calculate amounts with proper FODEC logic for new line
-      const montantHT = produit.prixUnitaire;
-      
-      // Calculate FODEC
-      const montantFodec = produit.fodecApplicable ? 
-        montantHT * ((produit.tauxFodec || 1) / 100) : 0;
-      
-      // Calculate TVA base (HT + FODEC)
-      const baseTVA = montantHT + montantFodec;
-      
-      // Calculate TVA
-      const montantTVA = baseTVA * (produit.tva / 100);
-      
-      // Calculate TTC
-      const montantTTC = montantHT + montantFodec + montantTVA;
-      
-      const newLigne: LigneDocument = {
+      // Calculate amounts with proper FODEC logic for new line, the dinar price converted to the order currency
+      const prixUnitaire = fromBaseCurrency(produit.prixUnitaire, formData.devise, formData.tauxChange);
+      const newLigne = calculateProductTaxes({
         id: uuidv4(),
         produit,
         quantite: 1,
-        prixUnitaire: produit.prixUnitaire,
-        remise: 0,
-        montantHT,
-        montantFodec,
-        baseTVA,
-        montantTVA,
-        montantTTC
-      };
+        prixUnitaire,
+        remise: 0
+      }, moneyDecimals);
       setLignes([...lignes, newLigne]);
     }
     
@@ -297,108 +274,51 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
       const produit = produits.find(p => p.id === value);
       if (produit) {
         ligne.produit = produit;
-        ligne.prixUnitaire = produit.prixUnitaire;
+        ligne.prixUnitaire = fromBaseCurrency(produit.prixUnitaire, formData.devise, formData.tauxChange);
       }
     } else {
       (ligne as any)[field] = value;
     }
 
-    // Recalculate amounts with proper FODEC logic
-    const montantHT = ligne.quantite * ligne.prixUnitaire * (1 - (ligne.remise || 0) / 100);
-    ligne.montantHT = montantHT;
-    
-    // Calculate FODEC
-    const montantFodec = ligne.produit.fodecApplicable ? 
-      montantHT * ((ligne.produit.tauxFodec || 1) / 100) : 0;
-    ligne.montantFodec = montantFodec;
-    
-    // Calculate TVA base (HT + FODEC)
-    const baseTVA = montantHT + montantFodec;
-    ligne.baseTVA = baseTVA;
-    
-    // Calculate TVA
-    const montantTVA = baseTVA * (ligne.produit.tva / 100);
-    ligne.montantTVA = montantTVA;
-    
-    // Calculate TTC
-    ligne.montantTTC = montantHT + montantFodec + montantTVA;
+    newLignes[index] = calculateProductTaxes(ligne, moneyDecimals);
 
     setLignes(newLignes);
   };
 
+  // Lines still at the catalogue price are converted at the new rate, prices typed by hand stay as entered
+  const handleCurrencyChange = (devise: string, tauxChange: number) => {
+    setLignes(lignes.map(ligne => {
+      const prixCatalogue = fromBaseCurrency(ligne.produit.prixUnitaire, formData.devise, formData.tauxChange);
+      return calculateProductTaxes(
+        ligne.prixUnitaire === prixCatalogue
+          ? { ...ligne, prixUnitaire: fromBaseCurrency(ligne.produit.prixUnitaire, devise, tauxChange) }
+          : ligne,
+        getMoneyDecimals(devise)
+      );
+    }));
+    setFormData(prev => ({ ...prev, devise, tauxChange }));
+  };
+
   const handleRemoveLigne = (index: number) => {
     setLignes(lignes.filter((_, i) => i !== index));
   };
 
   const calculateTotals = () => {
-    // Calculate totals from product lines with FODEC
-    const totalHT = lignes.reduce((sum, ligne) => sum + ligne.montantHT, 0);
-    const totalFodec = lignes.reduce((sum, ligne) => sum + (ligne.montantFodec || 0), 0);
-    const totalTVA = lignes.reduce((sum, ligne) => sum + (ligne.montantTVA || 0), 0);
-    const totalTTC = lignes.reduce((sum, ligne) => sum + ligne.montantTTC, 0);
-    
-    // Create tax summary for display
-    const taxSummary = [];
-    
-    // Add FODEC summary if applicable
-    if (totalFodec > 0) {
-      const fodecGroups = new Map();
-      lignes.forEach(ligne => {
-        if (ligne.produit.fodecApplicable && ligne.montantFodec > 0) {
-          const rate = ligne.produit.tauxFodec;
-          if (!fodecGroups.has(rate)) {
-            fodecGroups.set(rate, { baseAmount: 0, taxAmount: 0 });
-          }
-          const group = fodecGroups.get(rate);
-          group.baseAmount += ligne.montantHT;
-          group.taxAmount += ligne.montantFodec;
-        }
-      });
-      
-      fodecGroups.forEach((group, rate) => {
-        taxSummary.push({
-          type: 'FODEC',
-          rate,
-          groupName: `FODEC ${rate}%`,
-          baseAmount: group.baseAmount,
-          taxAmount: group.taxAmount
-        });
-      });
-    }
-    
-    // Add TVA summary if applicable
-    if (totalTVA > 0) {
-      const tvaGroups = new Map();
-      lignes.forEach(ligne => {
-        if (ligne.produit.tva > 0) {
-          const rate = ligne.produit.tva;
-          if (!tvaGroups.has(rate)) {
-            tvaGroups.set(rate, { baseAmount: 0, taxAmount: 0 });
-          }
-          const group = tvaGroups.get(rate);
-          group.baseAmount += ligne.baseTVA || (ligne.montantHT + (ligne.montantFodec || 0));
-          group.taxAmount += ligne.montantTVA;
-        }
-      });
-      
-      tvaGroups.forEach((group, rate) => {
-        taxSummary.push({
-          type: 'TVA',
-          rate,
-          groupName: `TVA ${rate}%`,
-          baseAmount: group.baseAmount,
-          taxAmount: group.taxAmount
-        });
-      });
-    }
-    
-    return { 
-      totalHT, 
+    const totals = calculateDocumentTotals(lignes, [], { devise: formData.devise, policy: roundingPolicy, remiseGlobale, frais });
+    const { totalHT, totalFodec, totalTVA, totalTTC, taxSummary } = totals;
+
+    return {
+      totalLignesHT: totals.totalLignesHT,
+      montantRemise: totals.montantRemise,
+      frais: totals.frais,
+      totalFrais: totals.totalFrais,
+      ajustements: totals.ajustements,
+      totalHT,
       totalFodec,
       totalTVA,
-      totalTaxes: totalFodec + totalTVA, 
-      taxGroupsSummary: taxSummary, 
-      totalTTC 
+      totalTaxes: sumMoney([totalFodec, totalTVA], moneyDecimals),
+      taxGroupsSummary: taxSummary.map(group => ({ ...group, groupName: `${group.type} ${group.rate}%` })),
+      totalTTC
     };
   };
 
@@ -410,15 +330,27 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
       return;
     }
 
+    if (isForeignCurrency(formData.devise) && !(formData.tauxChange > 0)) {
+      showNotification('Veuillez saisir le taux de change de la devise', 'warning');
+      return;
+    }
+
+    // Received lines are referenced by their bons de réception
+    const ligneRecueSupprimee = commande?.lignes.find(ligne =>
+      (ligne.quantiteRecue || 0) > 0 && !lignes.some(l => l.id === ligne.id)
+    );
+    if (ligneRecueSupprimee) {
+      showNotification(`La ligne "${ligneRecueSupprimee.produit.nom}" a déjà été réceptionnée et ne peut pas être supprimée`, 'warning');
+      return;
+    }
+
     try {
-      // Increment document number only when actually saving
-      const finalNumero = await getNextDocumentNumber('commandesFournisseur', isElectron, query, true);
-      
-      const { totalHT, totalTaxes, taxGroupsSummary, totalTTC } = calculateTotals();
+      const totals = calculateTotals();
+      const { totalHT, totalTaxes, taxGroupsSummary, totalTTC } = totals;
 
       const commandeData: CommandeFournisseur = {
         id: commande?.id || uuidv4(),
-        numero: commande?.numero || finalNumero, // Use existing numero for edits, new numero for new commandes
+        numero: commande?.numero || '', // New commandes are numbered when the save is committed
         date: new Date(formData.date),
         dateReception: new Date(formData.dateReception),
         fournisseur: selectedFournisseur,
@@ -426,57 +358,25 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
         totalHT,
         taxGroupsSummary,
         totalTaxes,
+        remiseGlobale,
+        montantRemise: totals.montantRemise,
+        frais: totals.frais,
+        totalFrais: totals.totalFrais,
+        ajustements: totals.ajustements,
         totalTTC,
         statut: formData.statut,
-        notes: formData.notes
+        notes: formData.notes,
+        devise: formData.devise,
+        tauxChange: isForeignCurrency(formData.devise) ? formData.tauxChange : 1
       };
 
-      // Save commande to database
-      await query(
-        `INSERT OR REPLACE INTO commandes_fournisseur 
-         (id, numero, date, dateReception, fournisseurId, totalHT, totalFodec, totalTVA, totalTTC, statut, notes)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          commandeData.id,
-          commandeData.numero,
-          commandeData.date.toISOString(),
-          commandeData.dateReception.toISOString(),
-          commandeData.fournisseur.id,
-          commandeData.totalHT,
-          commandeData.totalFodec,
-          commandeData.totalTaxes,
-          commandeData.totalTTC,
-          commandeData.statut,
-          commandeData.notes || ''
-        ]
-      );
-
-      // Delete existing lines
-      await query('DELETE FROM lignes_commande_fournisseur WHERE commandeId = ?', [commandeData.id]);
-
-      // Save lines
-      for (const ligne of lignes) {
-        await query(
-          `INSERT INTO lignes_commande_fournisseur 
-           (id, commandeId, produitId, quantite, prixUnitaire, remise, montantHT, montantFodec, baseTVA, montantTVA, montantTTC)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            ligne.id,
-            commandeData.id,
-            ligne.produit.id,
-            ligne.quantite,
-            ligne.prixUnitaire,
-            ligne.remise || 0,
-            ligne.montantHT,
-            ligne.montantFodec || 0,
-            ligne.baseTVA || 0,
-            ligne.montantTVA || 0,
-            ligne.montantTTC
-          ]
-        );
+      // Header, lines and numbering are written in one transaction
+      const result = await saveDocument('commandeFournisseur', commandeData);
+      if (!result.success || !result.document) {
+        throw new Error(result.error);
       }
 
-      onSave(commandeData);
+      onSave(result.document);
       onClose();
       
     } catch (error) {
@@ -532,7 +432,9 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
     setEditingProduit(null);
   };
 
-  const { totalHT, totalFodec, totalTVA, totalTaxes, totalTTC } = calculateTotals();
+  const { totalLignesHT, montantRemise, totalFrais, totalHT, totalFodec, totalTVA, totalTaxes, totalTTC } = calculateTotals();
+
+  const formatAmount = (amount: number) => formatDocumentAmount(amount, formData.devise);
 
   if (!isOpen) return null;
 
@@ -603,10 +505,18 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
                     <option value="brouillon">Brouillon</option>
                     <option value="envoyee">Envoyée</option>
                     <option value="confirmee">Confirmée</option>
+                    <option value="partiellement_recue" disabled>Partiellement reçue</option>
                     <option value="recue">Reçue</option>
                     <option value="annulee">Annulée</option>
                   </select>
                 </div>
+
+                <DocumentCurrencyFields
+                  devise={formData.devise}
+                  tauxChange={formData.tauxChange}
+                  date={formData.date}
+                  onChange={handleCurrencyChange}
+                />
               </div>
 
               {/* Right Column - Fournisseur with Search */}
@@ -881,17 +791,17 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
                             />
                           </td>
                           <td className="px-4 py-3 text-sm font-medium">
-                            {formatCurrency(ligne.montantHT)}
+                            {formatAmount(ligne.montantHT)}
                           </td>
                           <td className="px-4 py-3 text-sm font-medium">
                             {ligne.produit.fodecApplicable ? 
-                              formatCurrency(ligne.montantFodec || 0) : '-'}
+                              formatAmount(ligne.montantFodec || 0) : '-'}
                           </td>
                           <td className="px-4 py-3 text-sm font-medium">
-                            {formatCurrency(ligne.montantTVA || 0)}
+                            {formatAmount(ligne.montantTVA || 0)}
                           </td>
                           <td className="px-4 py-3 text-sm font-medium text-purple-600">
-                            {formatCurrency(ligne.montantTTC)}
+                            {formatAmount(ligne.montantTTC)}
                           </td>
                           <td className="px-4 py-3">
                             <button
@@ -916,21 +826,58 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
               )}
             </div>
 
+            {/* Global discount and fees */}
+            {lignes.length > 0 && (
+              <div className="mt-6">
+                <DocumentAdjustmentsFields
+                  remiseGlobale={remiseGlobale}
+                  frais={frais}
+                  devise={formData.devise}
+                  onChange={(nextRemise, nextFrais) => {
+                    setRemiseGlobale(nextRemise);
+                    setFrais(nextFrais);
+                  }}
+                />
+              </div>
+            )}
+
             {/* Totals */}
             {lignes.length > 0 && (
               <div className="mt-6 flex justify-end">
                 <div className="bg-purple-50 p-4 rounded-lg w-96">
                   <div className="space-y-2">
+                    {(montantRemise > 0 || totalFrais > 0) && (
+                      <>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">Total HT lignes:</span>
+                          <span>{formatAmount(totalLignesHT)}</span>
+                        </div>
+                        {montantRemise > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-600">
+                              Remise globale{remiseGlobale?.type === 'percentage' ? ` ${remiseGlobale.valeur}%` : ''}:
+                            </span>
+                            <span>-{formatAmount(montantRemise)}</span>
+                          </div>
+                        )}
+                        {frais.filter(item => item.montantHT > 0).map(item => (
+                          <div key={item.id} className="flex justify-between text-sm">
+                            <span className="text-gray-600">{item.libelle || 'Frais'}:</span>
+                            <span>{formatAmount(item.montantHT)}</span>
+                          </div>
+                        ))}
+                      </>
+                    )}
                     <div className="flex justify-between">
                       <span>Total HT:</span>
-                      <span>{formatCurrency(totalHT)}</span>
+                      <span>{formatAmount(totalHT)}</span>
                     </div>
                     
                     {/* FODEC summary */}
                     {totalFodec > 0 && (
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-600">Total FODEC:</span>
-                        <span>{formatCurrency(totalFodec)}</span>
+                        <span>{formatAmount(totalFodec)}</span>
                       </div>
                     )}
                     
@@ -938,7 +885,7 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
                     {totalTVA > 0 && (
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-600">Total TVA:</span>
-                        <span>{formatCurrency(totalTVA)}</span>
+                        <span>{formatAmount(totalTVA)}</span>
                       </div>
                     )}
                     
@@ -954,20 +901,20 @@ const CommandeFournisseurForm: React.FC<CommandeFournisseurFormProps> = ({ isOpe
                               <span className="text-gray-600">
                                 {group.groupName}:
                               </span>
-                              <span>{formatCurrency(group.taxAmount)}</span>
+                              <span>{formatAmount(group.taxAmount)}</span>
                             </div>
                           ))}
                         </div>
                         <div className="flex justify-between text-sm font-medium border-t pt-2">
                           <span>Total taxes:</span>
-                          <span>{formatCurrency(totalTaxes)}</span>
+                          <span>{formatAmount(totalTaxes)}</span>
                         </div>
                       </>
                     )}
                     
                     <div className="flex justify-between font-bold text-lg border-t pt-2">
                       <span>Total TTC:</span>
-                      <span className="text-purple-600">{formatCurrency(totalTTC)}</span>
+                      <span className="text-purple-600">{formatAmount(totalTTC)}</span>
                     </div>
                   </div>
                 </div>
@@ -1,10 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Eye, Edit, Trash2, FileDown, Printer, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
-import { CommandeFournisseur } from '../types';
+import { Plus, Eye, Edit, Trash2, FileDown, Printer, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, CheckSquare, Square, Receipt, X, PackageCheck, ClipboardList, AlertTriangle } from 'lucide-react';
+import { CommandeFournisseur, FactureFournisseur } from '../types';
 import { generateCommandeFournisseurPDF } from '../utils/pdfGenerator';
-import { formatCurrency } from '../utils/currency';
+import { BASE_CURRENCY, formatCurrency, formatDocumentAmount, isForeignCurrency, toBaseCurrency } from '../utils/currency';
 import { useDatabase } from '../hooks/useDatabase';
+import { useAppSetting } from '../hooks/useAppSetting';
+import { calculateDocumentTotals, loadDocumentCharges, parseDocumentAdjustments } from '../utils/productTaxCalculator';
+import { sumMoney } from '../utils/money';
+import { canReceiveCommande } from '../utils/receptionCommande';
+import { v4 as uuidv4 } from 'uuid';
 import CommandeFournisseurForm from './CommandeFournisseurForm';
+import BonReceptionForm from './BonReceptionForm';
+import BonsReceptionList from './BonsReceptionList';
 import { useNotification } from '../contexts/NotificationContext';
 
 interface CommandeFournisseurListProps {
@@ -26,10 +33,27 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
   const [showForm, setShowForm] = useState(false);
   const [editingCommande, setEditingCommande] = useState<CommandeFournisseur | null>(null);
   
+  // Goods receipts
+  const [receivingCommande, setReceivingCommande] = useState<CommandeFournisseur | null>(null);
+  const [receptionsCommande, setReceptionsCommande] = useState<CommandeFournisseur | null>(null);
+  
+  // Supplier invoice recording
+  const [selectedCommandes, setSelectedCommandes] = useState<Set<string>>(new Set());
+  const [isInvoicingMode, setIsInvoicingMode] = useState(false);
+  const [showInvoicingModal, setShowInvoicingModal] = useState(false);
+  const [isInvoicing, setIsInvoicing] = useState(false);
+  const [factureFournisseurData, setFactureFournisseurData] = useState({
+    numero: '',
+    date: new Date().toISOString().split('T')[0],
+    dateEcheance: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    timbre: 0
+  });
+  
   // Error handling
   const [pdfError, setPdfError] = useState<string | null>(null);
   
-  const { query, savePDF, isReady } = useDatabase();
+  const { query, deleteDocument, createFactureFournisseur, savePDF, isReady } = useDatabase();
+  const { roundingPolicy } = useAppSetting('invoiceSettings');
   const { showNotification } = useNotification();
 
   useEffect(() => {
@@ -55,7 +79,8 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
     try {
       setLoading(true);
       const result = await query(`
-        SELECT cf.*, f.nom as fournisseurNom, f.adresse, f.codePostal, f.ville, f.telephone, f.email
+        SELECT cf.*, f.nom as fournisseurNom, f.adresse, f.codePostal, f.ville, f.telephone, f.email,
+               EXISTS(SELECT 1 FROM bons_reception br WHERE br.commandeId = cf.id AND br.ecart = 1) as hasEcart
         FROM commandes_fournisseur cf
         JOIN fournisseurs f ON cf.fournisseurId = f.id
         ORDER BY cf.numero DESC
@@ -65,6 +90,8 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
         ...cf,
         date: new Date(cf.date),
         dateReception: new Date(cf.dateReception),
+        ...parseDocumentAdjustments(cf),
+        hasEcart: Boolean(cf.hasEcart),
         taxGroupsSummary: [],
         totalTaxes: 0,
         lignes: [],
@@ -82,7 +109,8 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
       // Load lines for each commande
       for (const commande of commandesData) {
         const lignesResult = await query(`
-          SELECT lcf.*, p.ref, p.nom, p.description, p.prixUnitaire, p.tva, p.fodecApplicable, p.tauxFodec, p.stock, p.type
+          SELECT lcf.*, p.ref, p.nom, p.description, p.prixUnitaire as produitPrix, p.stock, p.type,
+                 COALESCE((SELECT SUM(lbr.quantiteRecue) FROM lignes_bon_reception lbr WHERE lbr.ligneCommandeId = lcf.id), 0) as quantiteRecue
           FROM lignes_commande_fournisseur lcf
           JOIN produits p ON lcf.produitId = p.id
           WHERE lcf.commandeId = ?
@@ -95,9 +123,9 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
             ref: ligne.ref,
             nom: ligne.nom,
             description: ligne.description,
-            prixUnitaire: ligne.prixUnitaire,
-            tva: ligne.tva,
-            fodecApplicable: Boolean(ligne.fodecApplicable),
+            prixUnitaire: ligne.produitPrix,
+            tva: ligne.tauxTVA,
+            fodecApplicable: ligne.tauxFodec > 0,
             tauxFodec: ligne.tauxFodec || 1,
             stock: ligne.stock,
             type: ligne.type
@@ -109,7 +137,8 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
           montantFodec: ligne.montantFodec || 0,
           baseTVA: ligne.baseTVA || 0,
           montantTVA: ligne.montantTVA || 0,
-          montantTTC: ligne.montantTTC
+          montantTTC: ligne.montantTTC,
+          quantiteRecue: ligne.quantiteRecue
         }));
         
         // Ensure tax data exists
@@ -215,6 +244,7 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
       case 'brouillon': return 'bg-gray-100 text-gray-800';
       case 'envoyee': return 'bg-blue-100 text-blue-800';
       case 'confirmee': return 'bg-green-100 text-green-800';
+      case 'partiellement_recue': return 'bg-yellow-100 text-yellow-800';
       case 'recue': return 'bg-purple-100 text-purple-800';
       case 'annulee': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
@@ -226,12 +256,152 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
       case 'brouillon': return 'Brouillon';
       case 'envoyee': return 'Envoyée';
       case 'confirmee': return 'Confirmée';
+      case 'partiellement_recue': return 'Partiellement reçue';
       case 'recue': return 'Reçue';
       case 'annulee': return 'Annulée';
       default: return statut;
     }
   };
 
+  // Only received orders not invoiced yet can be recorded on a supplier invoice
+  const canInvoice = (commande: CommandeFournisseur) =>
+    commande.statut === 'recue' && !commande.factureFournisseurId;
+
+  const toggleInvoicingMode = () => {
+    setIsInvoicingMode(!isInvoicingMode);
+    setSelectedCommandes(new Set());
+  };
+
+  const toggleCommandeSelection = (commandeId: string) => {
+    const newSelected = new Set(selectedCommandes);
+    if (newSelected.has(commandeId)) {
+      newSelected.delete(commandeId);
+    } else {
+      newSelected.add(commandeId);
+    }
+    setSelectedCommandes(newSelected);
+  };
+
+  const getSelectedCommandesData = () => {
+    return filteredCommandes.filter(cf => selectedCommandes.has(cf.id));
+  };
+
+  // The received quantities are billed, closed orders included, and each order keeps its global
+  // discount and fees. Supplier invoices are kept in dinars like the payables and the deductible
+  // TVA, foreign-currency orders are converted at their rate.
+  const calculateCommandesTotals = (commandes: CommandeFournisseur[]) =>
+    commandes.map(commande => {
+      const enDinars = (amount: number) => toBaseCurrency(amount, commande.tauxChange);
+      const lignes = commande.lignes
+        .filter(ligne => (ligne.quantiteRecue || 0) > 0)
+        .map(ligne => ({
+          ...ligne,
+          id: uuidv4(),
+          quantite: ligne.quantiteRecue || 0,
+          prixUnitaire: enDinars(ligne.prixUnitaire)
+        }));
+      const remiseGlobale = commande.remiseGlobale?.type === 'fixed'
+        ? { ...commande.remiseGlobale, valeur: enDinars(commande.remiseGlobale.valeur) }
+        : commande.remiseGlobale;
+      const frais = (commande.frais || []).map(item => ({ ...item, montantHT: enDinars(item.montantHT) }));
+      const totals = calculateDocumentTotals(lignes, [], { policy: roundingPolicy, remiseGlobale, frais });
+      return { ...totals, lignes: totals.lignes.map(ligne => ({ ...ligne, commandeId: commande.id })) };
+    });
+
+  const handleStartInvoicing = async () => {
+    const selectedData = getSelectedCommandesData();
+    if (selectedData.length === 0) {
+      showNotification('Veuillez sélectionner au moins une commande reçue', 'warning');
+      return;
+    }
+
+    if (!selectedData.every(cf => cf.fournisseur.id === selectedData[0].fournisseur.id)) {
+      showNotification('Toutes les commandes sélectionnées doivent avoir le même fournisseur', 'warning');
+      return;
+    }
+
+    const devise = selectedData[0].devise || BASE_CURRENCY;
+    if (!selectedData.every(cf => (cf.devise || BASE_CURRENCY) === devise)) {
+      showNotification('Toutes les commandes sélectionnées doivent être dans la même devise', 'warning');
+      return;
+    }
+
+    const commandeNonRecue = selectedData.find(cf => !cf.lignes.some(ligne => (ligne.quantiteRecue || 0) > 0));
+    if (commandeNonRecue) {
+      showNotification(`Aucune quantité n'a été réceptionnée sur la commande ${commandeNonRecue.numero}`, 'warning');
+      return;
+    }
+
+    // Same fixed charges (timbre fiscal) as the sales invoices by default
+    const charges = await loadDocumentCharges('factures', query);
+    const timbre = sumMoney(charges.filter(charge => charge.type === 'fixed').map(charge => charge.valeur));
+
+    setFactureFournisseurData({
+      numero: '',
+      date: new Date().toISOString().split('T')[0],
+      dateEcheance: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      timbre
+    });
+    setShowInvoicingModal(true);
+  };
+
+  const handleCreateFactureFournisseur = async () => {
+    const selectedData = getSelectedCommandesData();
+    if (selectedData.length === 0) return;
+
+    if (!factureFournisseurData.numero.trim()) {
+      showNotification('Veuillez saisir le numéro de la facture fournisseur', 'warning');
+      return;
+    }
+
+    setIsInvoicing(true);
+    try {
+      const fournisseur = selectedData[0].fournisseur;
+
+      const commandesTotals = calculateCommandesTotals(selectedData);
+      const sumTotals = (field: 'totalHT' | 'totalFodec' | 'totalTVA' | 'totalTTC') =>
+        sumMoney(commandesTotals.map(totals => totals[field]));
+      const timbre = factureFournisseurData.timbre || 0;
+
+      const factureFournisseur: FactureFournisseur = {
+        id: uuidv4(),
+        numero: factureFournisseurData.numero.trim(),
+        date: new Date(factureFournisseurData.date),
+        dateEcheance: new Date(factureFournisseurData.dateEcheance),
+        fournisseur,
+        lignes: commandesTotals.flatMap(totals => totals.lignes),
+        commandes: selectedData.map(cf => ({ id: cf.id, numero: cf.numero })),
+        totalHT: sumTotals('totalHT'),
+        totalFodec: sumTotals('totalFodec'),
+        totalTVA: sumTotals('totalTVA'),
+        timbre,
+        totalTTC: sumMoney([sumTotals('totalTTC'), timbre]),
+        ajustements: commandesTotals.flatMap(totals => totals.ajustements),
+        statut: 'a_payer',
+        notes: `Commandes : ${selectedData.map(cf =>
+          isForeignCurrency(cf.devise) ? `${cf.numero} (${cf.devise} au taux ${cf.tauxChange})` : cf.numero
+        ).join(', ')}`
+      };
+
+      // Recorded with its lines and the invoiced orders in one transaction
+      const result = await createFactureFournisseur(factureFournisseur);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setShowInvoicingModal(false);
+      setIsInvoicingMode(false);
+      setSelectedCommandes(new Set());
+      showNotification(`Facture fournisseur ${factureFournisseur.numero} enregistrée`, 'success');
+      loadCommandes();
+    } catch (error) {
+      console.error('Error creating facture fournisseur:', error);
+      showNotification('Erreur lors de l\'enregistrement de la facture fournisseur: ' + (error instanceof Error ? error.message : 'Erreur inconnue'), 'error');
+    } finally {
+      setIsInvoicing(false);
+    }
+  };
+
   const handleDownloadPDF = async (commande: CommandeFournisseur) => {
     try {
       setPdfError(null);
@@ -295,10 +465,25 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
   const handleDelete = async (id: string) => {
     if (!isReady) return;
     
+    if (commandes.find(cf => cf.id === id)?.factureFournisseurId) {
+      showNotification('Cette commande est déjà facturée : supprimez d\'abord la facture fournisseur', 'warning');
+      return;
+    }
+    
+    // Received goods are already in stock
+    const receptions = await query('SELECT COUNT(*) as count FROM bons_reception WHERE commandeId = ?', [id]);
+    if (receptions[0]?.count > 0) {
+      showNotification('Cette commande a des réceptions : supprimez d\'abord ses bons de réception', 'warning');
+      return;
+    }
+    
     if (window.confirm('Êtes-vous sûr de vouloir supprimer cette commande fournisseur ?')) {
       try {
-        await query('DELETE FROM lignes_commande_fournisseur WHERE commandeId = ?', [id]);
-        await query('DELETE FROM commandes_fournisseur WHERE id = ?', [id]);
+        const result = await deleteDocument('commandeFournisseur', id);
+        if (!result.success) {
+          showNotification(result.error || 'Erreur lors de la suppression de la commande fournisseur', 'error');
+          return;
+        }
         
         setCommandes(commandes.filter(cf => cf.id !== id));
       } catch (error) {
@@ -354,6 +539,7 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
                 <option value="brouillon">Brouillon</option>
                 <option value="envoyee">Envoyée</option>
                 <option value="confirmee">Confirmée</option>
+                <option value="partiellement_recue">Partiellement reçue</option>
                 <option value="recue">Reçue</option>
                 <option value="annulee">Annulée</option>
               </select>
@@ -365,15 +551,49 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
               Actualiser
             </button>
           </div>
-          <button
-            onClick={handleCreateNew}
-            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors duration-200 flex items-center space-x-2"
-          >
-            <Plus className="w-5 h-5" />
-            <span>Nouvelle commande fournisseur</span>
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={toggleInvoicingMode}
+              className={`px-4 py-2 rounded-lg transition-colors duration-200 flex items-center space-x-2 ${
+                isInvoicingMode 
+                  ? 'bg-gray-600 text-white hover:bg-gray-700' 
+                  : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'
+              }`}
+            >
+              <Receipt className="w-4 h-4" />
+              <span>{isInvoicingMode ? 'Annuler' : 'Saisir une facture'}</span>
+            </button>
+            <button
+              onClick={handleCreateNew}
+              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors duration-200 flex items-center space-x-2"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Nouvelle commande fournisseur</span>
+            </button>
+          </div>
         </div>
 
+        {/* Invoicing Mode Bar */}
+        {isInvoicingMode && (
+          <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <span className="text-indigo-800 font-medium">
+                Sélectionnez les commandes reçues couvertes par la facture du fournisseur
+                {selectedCommandes.size > 0 && ` (${selectedCommandes.size} sélectionnée${selectedCommandes.size > 1 ? 's' : ''})`}
+              </span>
+              {selectedCommandes.size > 0 && (
+                <button
+                  onClick={handleStartInvoicing}
+                  className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors flex items-center space-x-2"
+                >
+                  <Receipt className="w-4 h-4" />
+                  <span>Enregistrer la facture</span>
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* PDF Error Message */}
         {pdfError && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -432,6 +652,9 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                {isInvoicingMode && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-12"></th>
+                )}
                 <th 
                   className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100 transition-colors"
                   onClick={() => handleSort('numero')}
@@ -487,9 +710,37 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {filteredCommandes.map((commande) => (
-                <tr key={commande.id} className="hover:bg-gray-50">
+                <tr 
+                  key={commande.id} 
+                  className={`hover:bg-gray-50 ${selectedCommandes.has(commande.id) ? 'bg-indigo-50' : ''}`}
+                >
+                  {isInvoicingMode && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => toggleCommandeSelection(commande.id)}
+                        className="text-indigo-600 hover:text-indigo-800 disabled:text-gray-300 disabled:cursor-not-allowed"
+                        disabled={!canInvoice(commande)}
+                        title={!canInvoice(commande) ? (commande.factureFournisseurId ? 'Déjà facturée' : 'Commande non reçue') : undefined}
+                      >
+                        {selectedCommandes.has(commande.id) ? (
+                          <CheckSquare className="w-5 h-5" />
+                        ) : (
+                          <Square className="w-5 h-5" />
+                        )}
+                      </button>
+                    </td>
+                  )}
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-purple-600">
                     {commande.numero}
+                    {commande.factureFournisseurId && (
+                      <div className="text-xs font-normal text-indigo-600">Facturée</div>
+                    )}
+                    {commande.hasEcart && (
+                      <div className="text-xs font-normal text-orange-600 flex items-center">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        Écart de réception
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     <div>
@@ -513,7 +764,7 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-medium">
-                    {formatCurrency(commande.totalTTC)}
+                    {formatDocumentAmount(commande.totalTTC, commande.devise)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(commande.statut)}`}>
@@ -522,6 +773,24 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex items-center justify-end space-x-2">
+                      {canReceiveCommande(commande) && (
+                        <button
+                          onClick={() => setReceivingCommande(commande)}
+                          className="text-green-600 hover:text-green-900 p-1 hover:bg-green-50 rounded transition-colors"
+                          title="Réceptionner"
+                        >
+                          <PackageCheck className="w-4 h-4" />
+                        </button>
+                      )}
+                      {(commande.statut === 'partiellement_recue' || commande.statut === 'recue') && (
+                        <button
+                          onClick={() => setReceptionsCommande(commande)}
+                          className="text-purple-600 hover:text-purple-900 p-1 hover:bg-purple-50 rounded transition-colors"
+                          title="Bons de réception"
+                        >
+                          <ClipboardList className="w-4 h-4" />
+                        </button>
+                      )}
                       <button
                         onClick={() => handleDownloadPDF(commande)}
                         className="text-purple-600 hover:text-purple-900 p-1 hover:bg-purple-50 rounded transition-colors"
@@ -576,6 +845,112 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
         </div>
       </div>
 
+      {/* Facture Fournisseur Modal */}
+      {showInvoicingModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-xl font-semibold">Facture fournisseur</h2>
+              <button 
+                onClick={() => setShowInvoicingModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <p className="text-gray-700 mb-1">
+                  <strong>{selectedCommandes.size} commande(s)</strong> du fournisseur :
+                </p>
+                <p className="font-medium text-gray-900">{getSelectedCommandesData()[0]?.fournisseur.nom}</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  Total TTC des quantités reçues : {formatCurrency(sumMoney(calculateCommandesTotals(getSelectedCommandesData()).map(totals => totals.totalTTC)))}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  N° de facture du fournisseur *
+                </label>
+                <input
+                  type="text"
+                  value={factureFournisseurData.numero}
+                  onChange={(e) => setFactureFournisseurData(prev => ({ ...prev, numero: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  disabled={isInvoicing}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Date de facture
+                  </label>
+                  <input
+                    type="date"
+                    value={factureFournisseurData.date}
+                    onChange={(e) => setFactureFournisseurData(prev => ({ ...prev, date: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    disabled={isInvoicing}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Échéance
+                  </label>
+                  <input
+                    type="date"
+                    value={factureFournisseurData.dateEcheance}
+                    onChange={(e) => setFactureFournisseurData(prev => ({ ...prev, dateEcheance: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    disabled={isInvoicing}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Timbre fiscal
+                </label>
+                <input
+                  type="number"
+                  value={factureFournisseurData.timbre}
+                  onChange={(e) => {
+                    const timbre = parseFloat(e.target.value);
+                    setFactureFournisseurData(prev => ({ ...prev, timbre: isNaN(timbre) ? 0 : timbre }));
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  step="0.001"
+                  min="0"
+                  disabled={isInvoicing}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-4 pt-2">
+                <button
+                  onClick={() => setShowInvoicingModal(false)}
+                  className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  disabled={isInvoicing}
+                >
+                  Annuler
+                </button>
+                <button
+                  onClick={handleCreateFactureFournisseur}
+                  disabled={isInvoicing || !factureFournisseurData.numero.trim()}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Receipt className="w-4 h-4 mr-2" />
+                  {isInvoicing ? 'Enregistrement...' : 'Enregistrer'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Commande Fournisseur Form Dialog */}
       <CommandeFournisseurForm
         isOpen={showForm}
@@ -586,6 +961,23 @@ const CommandeFournisseurList: React.FC<CommandeFournisseurListProps> = ({ onCre
         onSave={handleSave}
         commande={editingCommande}
       />
+
+      <BonReceptionForm
+        isOpen={!!receivingCommande}
+        onClose={() => setReceivingCommande(null)}
+        onSave={() => {
+          setReceivingCommande(null);
+          loadCommandes();
+        }}
+        commande={receivingCommande}
+      />
+
+      <BonsReceptionList
+        isOpen={!!receptionsCommande}
+        onClose={() => setReceptionsCommande(null)}
+        onChange={loadCommandes}
+        commande={receptionsCommande}
+      />
     </>
   );
 };
@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Download, FileSpreadsheet, RefreshCw, Landmark } from 'lucide-react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { formatCurrency } from '../utils/currency';
+import { DeclarationTVA as DeclarationTVAData, getDeclarationTVA, getDeclarationTVASections } from '../utils/tva';
+import { generateDeclarationTVAPDF } from '../utils/pdfGenerator';
+import { generateDeclarationTVAExcel } from '../utils/excelGenerator';
+import { useDatabase } from '../hooks/useDatabase';
+import { useNotification } from '../contexts/NotificationContext';
+
+// The declaration is usually filed for the previous month
+const getMoisPrecedent = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return format(date, 'yyyy-MM');
+};
+
+const DeclarationTVA: React.FC = () => {
+  const [mois, setMois] = useState(getMoisPrecedent());
+  const [creditAnterieur, setCreditAnterieur] = useState(0);
+  const [declaration, setDeclaration] = useState<DeclarationTVAData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const { query, isReady, isElectron, savePDF, saveExcel } = useDatabase();
+  const { showNotification } = useNotification();
+
+  const loadDeclaration = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [annee, moisNumero] = mois.split('-').map(Number);
+      setDeclaration(await getDeclarationTVA(annee, moisNumero, creditAnterieur, query));
+    } catch (error) {
+      console.error('Error loading TVA declaration:', error);
+      showNotification('Erreur lors du calcul de la déclaration de TVA', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [mois, creditAnterieur, query, showNotification]);
+
+  useEffect(() => {
+    if (isReady && mois) {
+      loadDeclaration();
+    }
+  }, [isReady, mois, creditAnterieur, loadDeclaration]);
+
+  const handleExportPDF = async () => {
+    if (!declaration) return;
+
+    try {
+      const doc = await generateDeclarationTVAPDF(declaration);
+      const result = await savePDF(new Uint8Array(doc.output('arraybuffer')), `Declaration_TVA_${mois}.pdf`);
+      if (result.success) {
+        showNotification('Déclaration exportée en PDF', 'success');
+      }
+    } catch (error) {
+      console.error('Error exporting TVA declaration PDF:', error);
+      showNotification('Erreur lors de l\'export PDF de la déclaration', 'error');
+    }
+  };
+
+  const handleExportExcel = async () => {
+    if (!declaration) return;
+
+    try {
+      const data = await generateDeclarationTVAExcel(declaration, isElectron, query);
+      const result = await saveExcel(data, `Declaration_TVA_${mois}.xlsx`);
+      if (result.success) {
+        showNotification('Déclaration exportée en Excel', 'success');
+      }
+    } catch (error) {
+      console.error('Error exporting TVA declaration Excel:', error);
+      showNotification('Erreur lors de l\'export Excel de la déclaration', 'error');
+    }
+  };
+
+  const periodeLabel = mois
+    ? format(new Date(`${mois}-01T00:00:00`), 'MMMM yyyy', { locale: fr })
+    : '';
+
+  return (
+    <div className="space-y-6">
+      {/* Month selector */}
+      <div className="flex items-center space-x-4 bg-gray-50 p-4 rounded-lg">
+        <span className="text-gray-700 font-medium">Mois déclaré:</span>
+        <input
+          type="month"
+          value={mois}
+          onChange={(e) => setMois(e.target.value)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <span className="text-gray-700 font-medium">Crédit de TVA reporté:</span>
+        <input
+          type="number"
+          value={creditAnterieur}
+          onChange={(e) => {
+            const parsedValue = parseFloat(e.target.value);
+            setCreditAnterieur(isNaN(parsedValue) ? 0 : parsedValue);
+          }}
+          className="w-32 px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          min="0"
+          step="0.001"
+        />
+        <button
+          onClick={loadDeclaration}
+          className="px-3 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors flex items-center space-x-1"
+        >
+          <RefreshCw className="w-4 h-4" />
+          <span>Actualiser</span>
+        </button>
+        <div className="ml-auto flex space-x-2">
+          <button
+            onClick={handleExportPDF}
+            disabled={!declaration}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center space-x-1 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>PDF</span>
+          </button>
+          <button
+            onClick={handleExportExcel}
+            disabled={!declaration}
+            className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors flex items-center space-x-1 disabled:opacity-50"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            <span>Excel</span>
+          </button>
+        </div>
+      </div>
+
+      {loading || !declaration ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <p className="text-sm font-medium text-gray-500">TVA collectée</p>
+              <p className="text-xl font-bold text-gray-900">{formatCurrency(declaration.totalTVACollectee)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <p className="text-sm font-medium text-gray-500">TVA déductible</p>
+              <p className="text-xl font-bold text-gray-900">{formatCurrency(declaration.totalTVADeductible)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <p className="text-sm font-medium text-gray-500">
+                {declaration.creditAReporter > 0 ? 'Crédit de TVA à reporter' : 'TVA à payer'}
+              </p>
+              <p className={`text-xl font-bold ${declaration.creditAReporter > 0 ? 'text-green-600' : 'text-orange-600'}`}>
+                {formatCurrency(declaration.creditAReporter > 0 ? declaration.creditAReporter : declaration.tvaAPayer)}
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <div className="flex items-center">
+                <div className="bg-blue-100 p-3 rounded-full">
+                  <Landmark className="w-6 h-6 text-blue-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-500">Total à payer</p>
+                  <p className="text-xl font-bold text-blue-700">{formatCurrency(declaration.totalAPayer)}</p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Declaration sections */}
+          <div className="bg-white rounded-lg shadow-sm border p-6 space-y-6">
+            <h3 className="text-lg font-semibold text-gray-800 capitalize">
+              Déclaration mensuelle - {periodeLabel}
+            </h3>
+            {getDeclarationTVASections(declaration).map(section => (
+              <div key={section.titre}>
+                <h4 className="text-sm font-semibold text-blue-700 uppercase mb-2">{section.titre}</h4>
+                <table className="min-w-full divide-y divide-gray-200 border">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {section.colonnes.map((colonne, index) => (
+                        <th
+                          key={colonne}
+                          className={`px-4 py-2 text-xs font-medium text-gray-500 uppercase ${index === 0 ? 'text-left' : 'text-right'}`}
+                        >
+                          {colonne}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {section.lignes.map((ligne, rowIndex) => (
+                      <tr key={rowIndex} className={String(ligne[0]).startsWith('Total') ? 'bg-gray-50 font-semibold' : ''}>
+                        {ligne.map((cell, index) => (
+                          <td
+                            key={index}
+                            className={`px-4 py-2 text-sm text-gray-900 ${index === 0 ? 'text-left' : 'text-right'}`}
+                          >
+                            {typeof cell === 'number' ? formatCurrency(cell) : cell}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DeclarationTVA;
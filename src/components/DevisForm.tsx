@@ -1,13 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { X, Plus, Trash2, Save, User, Package, Calculator, Search, ShoppingCart, Store } from 'lucide-react';
-import { Client, Produit, LigneDocument, Devis, TaxGroup, TaxGroupSummary } from '../types';
+import { Client, Produit, LigneDocument, Devis, TaxGroup, TaxGroupSummary, RemiseGlobale, FraisDocument, ListePrix } from '../types';
 import { useDatabase } from '../hooks/useDatabase';
-import { formatCurrency, calculateTTC } from '../utils/currency';
-import { calculateTaxesByGroup, loadTaxGroups, ensureTaxGroupForProduct } from '../utils/productTaxCalculator';
-import { getNextDocumentNumber } from '../utils/numberGenerator';
+import { useAppSetting } from '../hooks/useAppSetting';
+import { formatCurrency, calculateTTC, formatDocumentAmount, fromBaseCurrency, isForeignCurrency, BASE_CURRENCY, getMoneyDecimals } from '../utils/currency';
+import { loadTaxGroups, ensureTaxGroupForProduct, calculateProductTaxes, calculateDocumentTotals } from '../utils/productTaxCalculator';
+import { sumMoney } from '../utils/money';
+import { refreshDevisStatut } from '../utils/devisLivraison';
+import { resolvePrixUnitaire } from '../utils/priceLists';
 import { v4 as uuidv4 } from 'uuid';
 import ClientForm from './ClientForm';
 import ProduitForm from './ProduitForm';
+import DocumentCurrencyFields from './DocumentCurrencyFields';
+import DocumentAdjustmentsFields from './DocumentAdjustmentsFields';
 import { useNotification } from '../contexts/NotificationContext';
 
 interface DevisFormProps {
@@ -24,8 +29,11 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
     dateValidite: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     clientId: '',
     notes: '',
-    statut: 'brouillon' as const
+    statut: 'brouillon' as const,
+    devise: BASE_CURRENCY,
+    tauxChange: 1
   });
+  const moneyDecimals = getMoneyDecimals(formData.devise);
 
   const [clients, setClients] = useState<Client[]>([]);
   const [produits, setProduits] = useState<Produit[]>([]);
@@ -33,6 +41,9 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [taxGroups, setTaxGroups] = useState<TaxGroup[]>([]);
   const [taxGroupsSummary, setTaxGroupsSummary] = useState<TaxGroupSummary[]>([]);
+  const [remiseGlobale, setRemiseGlobale] = useState<RemiseGlobale | undefined>();
+  const [frais, setFrais] = useState<FraisDocument[]>([]);
+  const [listesPrix, setListesPrix] = useState<ListePrix[]>([]);
   
   // Search states
   const [clientSearchTerm, setClientSearchTerm] = useState('');
@@ -49,13 +60,15 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
   const [editingProduit, setEditingProduit] = useState<Produit | null>(null);
   const [newProductType, setNewProductType] = useState<'vente' | 'achat'>('vente');
 
-  const { query, isElectron, isReady } = useDatabase();
+  const { query, saveDocument, updateDocumentStatut, previewDocumentNumber, listPriceLists, isElectron, isReady } = useDatabase();
+  const { roundingPolicy } = useAppSetting('invoiceSettings');
   const { showNotification } = useNotification();
 
   useEffect(() => {
     if (isOpen && isReady) {
       loadClients();
       loadProduits();
+      loadListesPrix();
       loadTaxGroupsData();
       
       if (devis) {
@@ -65,12 +78,16 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
           dateValidite: devis.dateValidite.toISOString().split('T')[0],
           clientId: devis.client.id,
           notes: devis.notes || '',
-          statut: devis.statut
+          statut: devis.statut,
+          devise: devis.devise || BASE_CURRENCY,
+          tauxChange: devis.tauxChange || 1
         });
         setSelectedClient(devis.client);
         setClientSearchTerm(devis.client.nom);
         setLignes(devis.lignes);
         setTaxGroupsSummary(devis.taxGroupsSummary || []);
+        setRemiseGlobale(devis.remiseGlobale);
+        setFrais(devis.frais || []);
       } else {
         generateNumero();
         // Reset form for new devis
@@ -80,12 +97,16 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
           dateValidite: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
           clientId: '',
           notes: '',
-          statut: 'brouillon'
+          statut: 'brouillon',
+          devise: BASE_CURRENCY,
+          tauxChange: 1
         });
         setSelectedClient(null);
         setClientSearchTerm('');
         setLignes([]);
         setTaxGroupsSummary([]);
+        setRemiseGlobale(undefined);
+        setFrais([]);
         setProductSearchTerm('');
         setShowProductDropdown(false);
       }
@@ -113,7 +134,7 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
   // Recalculate taxes when lines change
   useEffect(() => {
     recalculateTaxes();
-  }, [lignes, taxGroups]);
+  }, [lignes, taxGroups, remiseGlobale, frais]);
 
   const loadClients = async () => {
     if (!isReady) return;
@@ -133,6 +154,64 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
     }
   };
 
+  const loadListesPrix = async () => {
+    if (!isReady || !isElectron) return;
+
+    try {
+      setListesPrix(await listPriceLists());
+    } catch (error) {
+      console.error('Error loading price lists:', error);
+    }
+  };
+
+  // Unit price of the client's price list in force at the document date, in the document currency
+  const getPrixUnitaire = (
+    produit: Produit,
+    quantite: number,
+    client: Client | null = selectedClient,
+    date: string = formData.date,
+    devise: string = formData.devise,
+    tauxChange: number = formData.tauxChange
+  ) => {
+    const liste = listesPrix.find(l => l.id === client?.listePrixId);
+    return fromBaseCurrency(resolvePrixUnitaire(produit, quantite, liste, date), devise, tauxChange);
+  };
+
+  // A new quantity can reach another quantity break, unless the price was typed by hand
+  const withQuantite = (ligne: LigneDocument, quantite: number): LigneDocument => ({
+    ...ligne,
+    quantite,
+    prixUnitaire: ligne.prixManuel ? ligne.prixUnitaire : getPrixUnitaire(ligne.produit, quantite)
+  });
+
+  // Lines priced from the price list follow the client, the date and the currency of the document
+  const repriceLignes = (
+    client: Client | null,
+    date: string,
+    devise: string = formData.devise,
+    tauxChange: number = formData.tauxChange
+  ) =>
+    lignes.map(ligne =>
+      calculateProductTaxes(
+        ligne.prixManuel
+          ? ligne
+          : { ...ligne, prixUnitaire: getPrixUnitaire(ligne.produit, ligne.quantite, client, date, devise, tauxChange) },
+        getMoneyDecimals(devise)
+      )
+    );
+
+  // Price lists have validity dates, another date can change the prices
+  const handleDateChange = (date: string) => {
+    setLignes(repriceLignes(selectedClient, date));
+    setFormData(prev => ({ ...prev, date }));
+  };
+
+  // Dinar prices are converted at the new rate, prices typed by hand stay as entered
+  const handleCurrencyChange = (devise: string, tauxChange: number) => {
+    setLignes(repriceLignes(selectedClient, formData.date, devise, tauxChange));
+    setFormData(prev => ({ ...prev, devise, tauxChange }));
+  };
+
   const loadProduits = async () => {
     if (!isReady) return;
     
@@ -174,7 +253,7 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
     if (!isReady) return;
     
     try {
-      const numero = await getNextDocumentNumber('devis', isElectron, query, false);
+      const numero = await previewDocumentNumber('devis');
       setFormData(prev => ({ ...prev, numero }));
     } catch (error) {
       console.error('Error generating numero:', error);
@@ -187,9 +266,8 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
       return;
     }
 
-    // Calculate taxes by group
-    const { taxGroupsSummary, totalTaxes } = calculateTaxesByGroup(lignes, taxGroups);
-    setTaxGroupsSummary(taxGroupsSummary);
+    // Taxes by rate, including the share of the global discount and fees
+    setTaxGroupsSummary(calculateTotals().taxGroupsSummary);
   };
 
   // Filter clients based on search term
@@ -210,6 +288,7 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
   };
 
   const handleClientSelect = (client: Client) => {
+    setLignes(repriceLignes(client, formData.date));
     setSelectedClient(client);
     setClientSearchTerm(client.nom);
     setFormData(prev => ({ ...prev, clientId: client.id }));
@@ -226,59 +305,20 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
     
     if (existingLineIndex !== -1) {
       const newLignes = [...lignes];
-      newLignes[existingLineIndex].quantite += 1;
-      
-      // Recalculate amounts with FODEC
       const ligne = newLignes[existingLineIndex];
-      const montantHT = ligne.quantite * ligne.prixUnitaire * (1 - (ligne.remise || 0) / 100);
-      ligne.montantHT = montantHT;
-      
-      // Calculate FODEC
-      const montantFodec = ligne.produit.fodecApplicable ? 
-        montantHT * (ligne.produit.tauxFodec / 100) : 0;
-      ligne.montantFodec = montantFodec;
-      
-      // Calculate TVA base (HT + FODEC)
-      const baseTVA = montantHT + montantFodec;
-      ligne.baseTVA = baseTVA;
-      
-      // Calculate TVA
-      const montantTVA = baseTVA * (ligne.produit.tva / 100);
-      ligne.montantTVA = montantTVA;
-      
-      // Calculate TTC
-      ligne.montantTTC = montantHT + montantFodec + montantTVA;
       
+      newLignes[existingLineIndex] = calculateProductTaxes(withQuantite(ligne, ligne.quantite + 1), moneyDecimals);
       setLignes(newLignes);
     } else {
-      // Calculate amounts with FODEC for new line
-      const montantHT = produit.prixUnitaire;
-      
-      // Calculate FODEC
-      const montantFodec = produit.fodecApplicable ? 
-        montantHT * (produit.tauxFodec / 100) : 0;
-      
-      // Calculate TVA base (HT + FODEC)
-      const baseTVA = montantHT + montantFodec;
-      
-      // Calculate TVA
-      const montantTVA = baseTVA * (produit.tva / 100);
-      
-      // Calculate TTC
-      const montantTTC = montantHT + montantFodec + montantTVA;
-      
-      const newLigne: LigneDocument = {
+      // Calculate amounts with FODEC for new line, at the client's price converted to the document currency
+      const prixUnitaire = getPrixUnitaire(produit, 1);
+      const newLigne = calculateProductTaxes({
         id: uuidv4(),
         produit,
         quantite: 1,
-        prixUnitaire: produit.prixUnitaire,
-        remise: 0,
-        montantHT,
-        montantFodec,
-        baseTVA,
-        montantTVA,
-        montantTTC
-      };
+        prixUnitaire,
+        remise: 0
+      }, moneyDecimals);
       setLignes([...lignes, newLigne]);
       
       // Ensure tax group exists for this product
@@ -297,33 +337,21 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
       const produit = produits.find(p => p.id === value);
       if (produit) {
         ligne.produit = produit;
-        ligne.prixUnitaire = produit.prixUnitaire;
+        ligne.prixUnitaire = getPrixUnitaire(produit, ligne.quantite);
+        ligne.prixManuel = false;
         // Ensure tax group exists for new product
         ensureTaxGroupForProduct(produit.tva, query);
       }
+    } else if (field === 'quantite') {
+      Object.assign(ligne, withQuantite(ligne, value));
+    } else if (field === 'prixUnitaire') {
+      ligne.prixUnitaire = value;
+      ligne.prixManuel = true;
     } else {
       (ligne as any)[field] = value;
     }
 
-    // Recalculate amounts with FODEC
-    const montantHT = ligne.quantite * ligne.prixUnitaire * (1 - (ligne.remise || 0) / 100);
-    ligne.montantHT = montantHT;
-    
-    // Calculate FODEC
-    const montantFodec = ligne.produit.fodecApplicable ? 
-      montantHT * (ligne.produit.tauxFodec / 100) : 0;
-    ligne.montantFodec = montantFodec;
-    
-    // Calculate TVA base (HT + FODEC)
-    const baseTVA = montantHT + montantFodec;
-    ligne.baseTVA = baseTVA;
-    
-    // Calculate TVA
-    const montantTVA = baseTVA * (ligne.produit.tva / 100);
-    ligne.montantTVA = montantTVA;
-    
-    // Calculate TTC
-    ligne.montantTTC = montantHT + montantFodec + montantTVA;
+    newLignes[index] = calculateProductTaxes(ligne, moneyDecimals);
 
     setLignes(newLignes);
   };
@@ -333,74 +361,21 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
   };
 
   const calculateTotals = () => {
-    // Calculate totals from product lines with FODEC
-    const totalHT = lignes.reduce((sum, ligne) => sum + ligne.montantHT, 0);
-    const totalFodec = lignes.reduce((sum, ligne) => sum + (ligne.montantFodec || 0), 0);
-    const totalTVA = lignes.reduce((sum, ligne) => sum + (ligne.montantTVA || 0), 0);
-    const totalTTC = lignes.reduce((sum, ligne) => sum + ligne.montantTTC, 0);
-    
-    // Create tax summary for display
-    const taxSummary = [];
-    
-    // Add FODEC summary if applicable
-    if (totalFodec > 0) {
-      const fodecGroups = new Map();
-      lignes.forEach(ligne => {
-        if (ligne.produit.fodecApplicable && ligne.montantFodec > 0) {
-          const rate = ligne.produit.tauxFodec;
-          if (!fodecGroups.has(rate)) {
-            fodecGroups.set(rate, { baseAmount: 0, taxAmount: 0 });
-          }
-          const group = fodecGroups.get(rate);
-          group.baseAmount += ligne.montantHT;
-          group.taxAmount += ligne.montantFodec;
-        }
-      });
-      
-      fodecGroups.forEach((group, rate) => {
-        taxSummary.push({
-          type: 'FODEC',
-          rate,
-          groupName: `FODEC ${rate}%`,
-          baseAmount: group.baseAmount,
-          taxAmount: group.taxAmount
-        });
-      });
-    }
-    
-    // Add TVA summary if applicable
-    if (totalTVA > 0) {
-      const tvaGroups = new Map();
-      lignes.forEach(ligne => {
-        if (ligne.produit.tva > 0) {
-          const rate = ligne.produit.tva;
-          if (!tvaGroups.has(rate)) {
-            tvaGroups.set(rate, { baseAmount: 0, taxAmount: 0 });
-          }
-          const group = tvaGroups.get(rate);
-          group.baseAmount += ligne.baseTVA || (ligne.montantHT + (ligne.montantFodec || 0));
-          group.taxAmount += ligne.montantTVA;
-        }
-      });
-      
-      tvaGroups.forEach((group, rate) => {
-        taxSummary.push({
-          type: 'TVA',
-          rate,
-          groupName: `TVA ${rate}%`,
-          baseAmount: group.baseAmount,
-          taxAmount: group.taxAmount
-        });
-      });
-    }
-    
-    return { 
-      totalHT, 
+    const totals = calculateDocumentTotals(lignes, [], { devise: formData.devise, policy: roundingPolicy, remiseGlobale, frais });
+    const { totalHT, totalFodec, totalTVA, totalTTC, taxSummary } = totals;
+
+    return {
+      totalLignesHT: totals.totalLignesHT,
+      montantRemise: totals.montantRemise,
+      frais: totals.frais,
+      totalFrais: totals.totalFrais,
+      ajustements: totals.ajustements,
+      totalHT,
       totalFodec,
       totalTVA,
-      totalTaxes: totalFodec + totalTVA, 
-      taxGroupsSummary: taxSummary, 
-      totalTTC 
+      totalTaxes: sumMoney([totalFodec, totalTVA], moneyDecimals),
+      taxGroupsSummary: taxSummary.map(group => ({ ...group, groupName: `${group.type} ${group.rate}%` })),
+      totalTTC
     };
   };
 
@@ -412,15 +387,27 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
       return;
     }
 
+    if (isForeignCurrency(formData.devise) && !(formData.tauxChange > 0)) {
+      showNotification('Veuillez saisir le taux de change de la devise', 'warning');
+      return;
+    }
+
+    // Delivered lines are referenced by their delivery notes
+    const ligneLivreeSupprimee = devis?.lignes.find(ligne =>
+      (ligne.quantiteLivree || 0) > 0 && !lignes.some(l => l.id === ligne.id)
+    );
+    if (ligneLivreeSupprimee) {
+      showNotification(`La ligne "${ligneLivreeSupprimee.produit.nom}" a déjà été livrée et ne peut pas être supprimée`, 'warning');
+      return;
+    }
+
     try {
-      // Increment document number only when actually saving
-      const finalNumero = await getNextDocumentNumber('devis', isElectron, query, true);
-      
-      const { totalHT, totalTaxes, taxGroupsSummary, totalTTC } = calculateTotals();
+      const totals = calculateTotals();
+      const { totalHT, totalTaxes, taxGroupsSummary, totalTTC } = totals;
 
       const devisData: Devis = {
         id: devis?.id || uuidv4(),
-        numero: devis?.numero || finalNumero, // Use existing numero for edits, new numero for new devis
+        numero: devis?.numero || '', // New devis are numbered when the save is committed
         date: new Date(formData.date),
         dateValidite: new Date(formData.dateValidite),
         client: selectedClient,
@@ -430,54 +417,30 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
         totalTVA,
         taxGroupsSummary,
         totalTaxes,
+        remiseGlobale,
+        montantRemise: totals.montantRemise,
+        frais: totals.frais,
+        totalFrais: totals.totalFrais,
+        ajustements: totals.ajustements,
         totalTTC,
         statut: formData.statut,
-        notes: formData.notes
+        notes: formData.notes,
+        devise: formData.devise,
+        tauxChange: isForeignCurrency(formData.devise) ? formData.tauxChange : 1
       };
 
-      // Save devis to database
-      await query(
-        `INSERT OR REPLACE INTO devis 
-         (id, numero, date, dateValidite, clientId, totalHT, totalFodec, totalTVA, totalTTC, statut, notes)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          devisData.id,
-          devisData.numero,
-          devisData.date.toISOString(),
-          devisData.dateValidite.toISOString(),
-          devisData.client.id,
-          devisData.totalHT,
-          devisData.totalFodec,
-          devisData.totalTaxes,
-          devisData.totalTTC,
-          devisData.statut,
-          devisData.notes || ''
-        ]
-      );
-
-      // Delete existing lines
-      await query('DELETE FROM lignes_devis WHERE devisId = ?', [devisData.id]);
-
-      // Save lines
-      for (const ligne of lignes) {
-        await query(
-          `INSERT INTO lignes_devis 
-           (id, devisId, produitId, quantite, prixUnitaire, remise, montantHT, montantTTC)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            ligne.id,
-            devisData.id,
-            ligne.produit.id,
-            ligne.quantite,
-            ligne.prixUnitaire,
-            ligne.remise || 0,
-            ligne.montantHT,
-            ligne.montantTTC
-          ]
-        );
+      // Header, lines and numbering are written in one transaction
+      const result = await saveDocument('devis', devisData);
+      if (!result.success || !result.document) {
+        throw new Error(result.error);
       }
 
-      onSave(devisData);
+      // Quantities may have changed on a partially delivered devis
+      if (devis) {
+        await refreshDevisStatut(devisData.id, query, updateDocumentStatut);
+      }
+
+      onSave(result.document);
       onClose();
       
     } catch (error) {
@@ -517,7 +480,9 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
     setEditingProduit(null);
   };
 
-  const { totalHT, totalFodec, totalTVA, totalTaxes, totalTTC } = calculateTotals();
+  const { totalLignesHT, montantRemise, totalFrais, totalHT, totalFodec, totalTVA, totalTaxes, totalTTC } = calculateTotals();
+
+  const formatAmount = (amount: number) => formatDocumentAmount(amount, formData.devise);
 
   if (!isOpen) return null;
 
@@ -559,7 +524,7 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
                     <input
                       type="date"
                       value={formData.date}
-                      onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+                      onChange={(e) => handleDateChange(e.target.value)}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 focus:border-transparent"
                     />
                   </div>
@@ -590,8 +555,18 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
                     <option value="accepte">Accepté</option>
                     <option value="refuse">Refusé</option>
                     <option value="expire">Expiré</option>
+                    <option value="partiellement_livre" disabled>Partiellement livré</option>
+                    <option value="livre" disabled>Livré</option>
+                    <option value="annule">Annulé</option>
                   </select>
                 </div>
+
+                <DocumentCurrencyFields
+                  devise={formData.devise}
+                  tauxChange={formData.tauxChange}
+                  date={formData.date}
+                  onChange={handleCurrencyChange}
+                />
               </div>
 
               {/* Right Column - Client with Search */}
@@ -867,17 +842,17 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
                             />
                           </td>
                           <td className="px-4 py-3 text-sm font-medium">
-                            {formatCurrency(ligne.montantHT)}
+                            {formatAmount(ligne.montantHT)}
                           </td>
                           <td className="px-4 py-3 text-sm font-medium">
                             {ligne.produit.fodecApplicable ? 
-                              formatCurrency(ligne.montantFodec || 0) : '-'}
+                              formatAmount(ligne.montantFodec || 0) : '-'}
                           </td>
                           <td className="px-4 py-3 text-sm font-medium">
-                            {formatCurrency(ligne.montantTVA || 0)}
+                            {formatAmount(ligne.montantTVA || 0)}
                           </td>
                           <td className="px-4 py-3 text-sm font-medium text-green-600">
-                            {formatCurrency(ligne.montantTTC)}
+                            {formatAmount(ligne.montantTTC)}
                           </td>
                           <td className="px-4 py-3">
                             <button
@@ -902,21 +877,58 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
               )}
             </div>
 
+            {/* Global discount and fees */}
+            {lignes.length > 0 && (
+              <div className="mt-6">
+                <DocumentAdjustmentsFields
+                  remiseGlobale={remiseGlobale}
+                  frais={frais}
+                  devise={formData.devise}
+                  onChange={(nextRemise, nextFrais) => {
+                    setRemiseGlobale(nextRemise);
+                    setFrais(nextFrais);
+                  }}
+                />
+              </div>
+            )}
+
             {/* Totals */}
             {lignes.length > 0 && (
               <div className="mt-6 flex justify-end">
                 <div className="bg-green-50 p-4 rounded-lg w-96">
                   <div className="space-y-2">
+                    {(montantRemise > 0 || totalFrais > 0) && (
+                      <>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">Total HT lignes:</span>
+                          <span>{formatAmount(totalLignesHT)}</span>
+                        </div>
+                        {montantRemise > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-600">
+                              Remise globale{remiseGlobale?.type === 'percentage' ? ` ${remiseGlobale.valeur}%` : ''}:
+                            </span>
+                            <span>-{formatAmount(montantRemise)}</span>
+                          </div>
+                        )}
+                        {frais.filter(item => item.montantHT > 0).map(item => (
+                          <div key={item.id} className="flex justify-between text-sm">
+                            <span className="text-gray-600">{item.libelle || 'Frais'}:</span>
+                            <span>{formatAmount(item.montantHT)}</span>
+                          </div>
+                        ))}
+                      </>
+                    )}
                     <div className="flex justify-between">
                       <span>Total HT:</span>
-                      <span>{formatCurrency(totalHT)}</span>
+                      <span>{formatAmount(totalHT)}</span>
                     </div>
                     
                     {/* FODEC summary */}
                     {totalFodec > 0 && (
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-600">Total FODEC:</span>
-                        <span>{formatCurrency(totalFodec)}</span>
+                        <span>{formatAmount(totalFodec)}</span>
                       </div>
                     )}
                     
@@ -924,7 +936,7 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
                     {totalTVA > 0 && (
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-600">Total TVA:</span>
-                        <span>{formatCurrency(totalTVA)}</span>
+                        <span>{formatAmount(totalTVA)}</span>
                       </div>
                     )}
                     
@@ -940,20 +952,20 @@ const DevisForm: React.FC<DevisFormProps> = ({ isOpen, onClose, onSave, devis })
                               <span className="text-gray-600">
                                 {group.groupName}:
                               </span>
-                              <span>{formatCurrency(group.taxAmount)}</span>
+                              <span>{formatAmount(group.taxAmount)}</span>
                             </div>
                           ))}
                         </div>
                         <div className="flex justify-between text-sm font-medium border-t pt-2">
                           <span>Total taxes:</span>
-                          <span>{formatCurrency(totalTaxes)}</span>
+                          <span>{formatAmount(totalTaxes)}</span>
                         </div>
                       </>
                     )}
                     
                     <div className="flex justify-between font-bold text-lg border-t pt-2">
                       <span>Total TTC:</span>
-                      <span className="text-green-600">{formatCurrency(totalTTC)}</span>
+                      <span className="text-green-600">{formatAmount(totalTTC)}</span>
                     </div>
                   </div>
                 </div>
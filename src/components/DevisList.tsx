@@ -1,12 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Eye, Edit, Trash2, FileDown, Printer, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, CheckSquare, Square, RefreshCw, FileText, Receipt, Truck, X } from 'lucide-react';
-import { Devis, Facture, BonLivraison, Client } from '../types';
+import { Plus, Eye, Edit, Trash2, FileDown, Printer, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, CheckSquare, Square, RefreshCw, FileText, Receipt, Truck, X, Ban } from 'lucide-react';
+import { Devis, Facture, BonLivraison, Client, LigneDocument } from '../types';
 import { generateDevisPDF } from '../utils/pdfGenerator';
-import { formatCurrency } from '../utils/currency';
+import { formatDocumentAmount, getMoneyDecimals } from '../utils/currency';
+import { sumMoney } from '../utils/money';
 import { useDatabase } from '../hooks/useDatabase';
-import { getNextDocumentNumber } from '../utils/numberGenerator';
+import { useAppSetting } from '../hooks/useAppSetting';
+import { calculateDocumentCharges, calculateDocumentTotals, loadDocumentCharges, convertDocumentCharges, parseDocumentAdjustments } from '../utils/productTaxCalculator';
+import { canDeliverDevis, getResteALivrer, refreshDevisStatut } from '../utils/devisLivraison';
+import { DocumentChain as DocumentChainData, getDocumentChainKey, loadDocumentChains } from '../utils/documentChain';
 import { v4 as uuidv4 } from 'uuid';
 import DevisForm from './DevisForm';
+import DocumentChain from './DocumentChain';
 import { useNotification } from '../contexts/NotificationContext';
 
 interface DevisListProps {
@@ -34,11 +39,14 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
   const [showConversionModal, setShowConversionModal] = useState(false);
   const [conversionType, setConversionType] = useState<'facture' | 'bonLivraison'>('facture');
   const [isConverting, setIsConverting] = useState(false);
+  const [quantitesALivrer, setQuantitesALivrer] = useState<Record<string, number>>({});
+  const [documentChains, setDocumentChains] = useState<Map<string, DocumentChainData>>(new Map());
   
   // Error handling
   const [pdfError, setPdfError] = useState<string | null>(null);
   
-  const { query, savePDF, isReady } = useDatabase();
+  const { query, saveDocument, deleteDocument, updateDocumentStatut, savePDF, isReady } = useDatabase();
+  const { roundingPolicy } = useAppSetting('invoiceSettings');
   const { showNotification } = useNotification();
 
   useEffect(() => {
@@ -64,7 +72,7 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
     try {
       setLoading(true);
       const result = await query(`
-        SELECT d.*, c.code as clientCode, c.nom as clientNom, c.adresse, c.codePostal, c.ville, c.telephone, c.email, c.matriculeFiscal
+        SELECT d.*, c.code as clientCode, c.nom as clientNom, c.adresse, c.codePostal, c.ville, c.telephone, c.email, c.matriculeFiscal, c.listePrixId
         FROM devis d
         JOIN clients c ON d.clientId = c.id
         ORDER BY d.numero DESC
@@ -74,6 +82,7 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
         ...d,
         date: new Date(d.date),
         dateValidite: new Date(d.dateValidite),
+        ...parseDocumentAdjustments(d),
         taxGroupsSummary: [],
         totalTaxes: 0,
         lignes: [],
@@ -86,14 +95,16 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
           ville: d.ville,
           telephone: d.telephone,
           email: d.email,
-          matriculeFiscal: d.matriculeFiscal
+          matriculeFiscal: d.matriculeFiscal,
+          listePrixId: d.listePrixId || undefined
         }
       }));
       
       // Load lines for each devis
       for (const d of devisData) {
         const lignesResult = await query(`
-          SELECT ld.*, p.ref, p.nom, p.description, p.prixUnitaire, p.tva, p.fodecApplicable, p.tauxFodec, p.stock, p.type
+          SELECT ld.*, p.ref, p.nom, p.description, p.prixUnitaire as produitPrix, p.stock, p.type,
+                 COALESCE((SELECT SUM(lbl.quantite) FROM lignes_bon_livraison lbl WHERE lbl.ligneDevisId = ld.id), 0) as quantiteLivree
           FROM lignes_devis ld
           JOIN produits p ON ld.produitId = p.id
           WHERE ld.devisId = ?
@@ -106,25 +117,28 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
             ref: ligne.ref,
             nom: ligne.nom,
             description: ligne.description,
-            prixUnitaire: ligne.prixUnitaire,
-            tva: ligne.tva,
-            fodecApplicable: Boolean(ligne.fodecApplicable),
+            prixUnitaire: ligne.produitPrix,
+            tva: ligne.tauxTVA,
+            fodecApplicable: ligne.tauxFodec > 0,
             tauxFodec: ligne.tauxFodec || 1,
             stock: ligne.stock,
             type: ligne.type
           },
           quantite: ligne.quantite,
+          quantiteLivree: ligne.quantiteLivree,
           prixUnitaire: ligne.prixUnitaire,
           remise: ligne.remise,
           montantHT: ligne.montantHT,
           montantFodec: ligne.montantFodec || 0,
           baseTVA: ligne.baseTVA || 0,
           montantTVA: ligne.montantTVA || 0,
-          montantTTC: ligne.montantTTC
+          montantTTC: ligne.montantTTC,
+          prixManuel: Boolean(ligne.prixManuel)
         }));
       }
       
       setDevis(devisData);
+      setDocumentChains(await loadDocumentChains(query));
     } catch (error) {
       console.error('Error loading devis:', error);
       alert('Erreur lors du chargement des devis');
@@ -209,6 +223,9 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
       case 'accepte': return 'bg-green-100 text-green-800';
       case 'refuse': return 'bg-red-100 text-red-800';
       case 'expire': return 'bg-orange-100 text-orange-800';
+      case 'partiellement_livre': return 'bg-yellow-100 text-yellow-800';
+      case 'livre': return 'bg-emerald-100 text-emerald-800';
+      case 'annule': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -220,10 +237,19 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
       case 'accepte': return 'Accepté';
       case 'refuse': return 'Refusé';
       case 'expire': return 'Expiré';
+      case 'partiellement_livre': return 'Partiellement livré';
+      case 'livre': return 'Livré';
+      case 'annule': return 'Annulé';
       default: return statut;
     }
   };
 
+  // Accepted devis no longer expire
+  const isExpired = (devis: Devis) =>
+    devis.dateValidite < new Date() && !['accepte', 'partiellement_livre', 'livre', 'annule'].includes(devis.statut);
+
+  const hasLivraisons = (devis: Devis) => devis.lignes.some(ligne => (ligne.quantiteLivree || 0) > 0);
+
   // Conversion functionality
   const toggleConversionMode = () => {
     setIsConversionMode(!isConversionMode);
@@ -272,9 +298,25 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
       return;
     }
 
+    // Deliver everything still to be delivered by default
+    const quantites: Record<string, number> = {};
+    getSelectedDevisData().forEach(d => {
+      d.lignes.forEach(ligne => {
+        quantites[ligne.id] = getResteALivrer(ligne);
+      });
+    });
+    setQuantitesALivrer(quantites);
     setShowConversionModal(true);
   };
 
+  const handleQuantiteALivrerChange = (ligne: LigneDocument, value: string) => {
+    const quantite = parseFloat(value);
+    setQuantitesALivrer(prev => ({
+      ...prev,
+      [ligne.id]: isNaN(quantite) ? 0 : Math.min(Math.max(0, quantite), getResteALivrer(ligne))
+    }));
+  };
+
   const handleConversion = async () => {
     if (selectedDevis.size === 0) return;
 
@@ -283,13 +325,29 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
       const selectedData = getSelectedDevisData();
       
       if (conversionType === 'facture') {
+        // Delivered quantities are invoiced from their delivery notes
+        const devisLivres = selectedData.filter(hasLivraisons);
+        if (devisLivres.length > 0) {
+          showNotification(`Devis déjà livré(s) : ${devisLivres.map(d => d.numero).join(', ')}. Facturez depuis les bons de livraison.`, 'warning');
+          return;
+        }
         await convertToFactures(selectedData);
+
+        // Update devis status to 'accepte' after successful conversion
+        await updateDevisStatus(selectedData, 'accepte');
       } else {
+        const devisNonLivrables = selectedData.filter(d => !canDeliverDevis(d));
+        if (devisNonLivrables.length > 0) {
+          showNotification(`Aucune quantité à livrer pour : ${devisNonLivrables.map(d => d.numero).join(', ')}`, 'warning');
+          return;
+        }
         await convertToBonsLivraison(selectedData);
-      }
 
-      // Update devis status to 'accepte' after successful conversion
-      await updateDevisStatus(selectedData, 'accepte');
+        // Partially or fully delivered depending on the remaining quantities
+        for (const d of selectedData) {
+          await refreshDevisStatut(d.id, query, updateDocumentStatut);
+        }
+      }
       
       setShowConversionModal(false);
       setIsConversionMode(false);
@@ -309,130 +367,114 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
   };
 
   const convertToFactures = async (devisData: Devis[]) => {
+    const chargeTaxes = await loadDocumentCharges('factures', query);
+
     for (const devis of devisData) {
-      const factureNumero = await getNextDocumentNumber('factures', true, query);
-      
-      // CRITICAL: Do NOT copy old taxes - use the devis calculated totals directly
-      // The taxes are already properly calculated in the devis
+      // CRITICAL: Do NOT copy old taxes - use the devis line totals directly
+      // and add the invoice charges (timbre fiscal)
+      const decimals = getMoneyDecimals(devis.devise);
+      const charges = calculateDocumentCharges(
+        convertDocumentCharges(chargeTaxes, devis.devise, devis.tauxChange),
+        devis.totalHT,
+        sumMoney([devis.totalFodec || 0, devis.totalTVA], decimals),
+        decimals
+      );
+      const totalCharges = sumMoney(charges.map(charge => charge.montant), decimals);
       
       const facture: Facture = {
         id: uuidv4(),
-        numero: factureNumero,
+        numero: '', // Numbered when the save is committed
         date: new Date(),
         dateEcheance: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
         client: devis.client,
-        lignes: devis.lignes,
+        // The prices agreed on the devis are kept when the invoice is edited
+        lignes: devis.lignes.map(ligne => ({ ...ligne, prixManuel: true })),
         totalHT: devis.totalHT,
         totalFodec: devis.totalFodec,
         totalTVA: devis.totalTVA,
-        totalTTC: devis.totalTTC,
+        remiseGlobale: devis.remiseGlobale,
+        montantRemise: devis.montantRemise,
+        frais: devis.frais,
+        totalFrais: devis.totalFrais,
+        ajustements: devis.ajustements,
+        charges,
+        totalCharges,
+        totalTTC: sumMoney([devis.totalHT, devis.totalFodec || 0, devis.totalTVA, totalCharges], decimals),
         statut: 'brouillon',
+        devisId: devis.id,
+        devise: devis.devise,
+        tauxChange: devis.tauxChange,
         notes: `Converti du devis ${devis.numero}${devis.notes ? ` - ${devis.notes}` : ''}`
       };
 
-      // Save facture
-      await query(
-        `INSERT INTO factures 
-         (id, numero, date, dateEcheance, clientId, totalHT, totalFodec, totalTVA, totalTTC, statut, notes)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          facture.id,
-          facture.numero,
-          facture.date.toISOString(),
-          facture.dateEcheance.toISOString(),
-          facture.client.id,
-          facture.totalHT,
-          facture.totalFodec,
-          facture.totalTVA,
-          facture.totalTTC,
-          facture.statut,
-          facture.notes
-        ]
-      );
-
-      // Save facture lines
-      for (const ligne of facture.lignes) {
-        await query(
-          `INSERT INTO lignes_facture 
-           (id, factureId, produitId, quantite, prixUnitaire, remise, montantHT, montantFodec, baseTVA, montantTVA, montantTTC)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            ligne.id,
-            facture.id,
-            ligne.produit.id,
-            ligne.quantite,
-            ligne.prixUnitaire,
-            ligne.remise || 0,
-            ligne.montantHT,
-            ligne.montantFodec || 0,
-            ligne.baseTVA || 0,
-            ligne.montantTVA || 0,
-            ligne.montantTTC
-          ]
-        );
+      const result = await saveDocument('facture', facture);
+      if (!result.success) {
+        throw new Error(result.error || 'Erreur lors de la sauvegarde de la facture');
       }
     }
   };
 
+  // One delivery note per devis with the quantities chosen in the conversion dialog
   const convertToBonsLivraison = async (devisData: Devis[]) => {
     for (const devis of devisData) {
-      const bonNumero = await getNextDocumentNumber('bonsLivraison', true, query);
+      const lignes = devis.lignes
+        .map(ligne => ({
+          ...ligne,
+          id: uuidv4(),
+          ligneDevisId: ligne.id,
+          quantite: Math.min(quantitesALivrer[ligne.id] || 0, getResteALivrer(ligne)),
+          quantiteLivree: undefined
+        }))
+        .filter(ligne => ligne.quantite > 0);
+      if (lignes.length === 0) continue;
+
+      const totals = calculateDocumentTotals(lignes, [], { policy: roundingPolicy });
       
       const bonLivraison: BonLivraison = {
         id: uuidv4(),
-        numero: bonNumero,
+        numero: '', // Numbered when the save is committed
         date: new Date(),
         client: devis.client,
-        lignes: devis.lignes,
+        lignes: totals.lignes,
         statut: 'prepare',
-        totalHT: devis.totalHT,
-        totalFodec: devis.totalFodec,
-        totalTVA: devis.totalTVA,
-        totalTTC: devis.totalTTC,
-        notes: `Converti du devis ${devis.numero}${devis.notes ? ` - ${devis.notes}` : ''}`
+        devisId: devis.id,
+        totalHT: totals.totalHT,
+        totalFodec: totals.totalFodec,
+        totalTVA: totals.totalTVA,
+        totalTTC: totals.totalTTC,
+        notes: `Livraison du devis ${devis.numero}${devis.notes ? ` - ${devis.notes}` : ''}`
       };
 
-      // Save bon de livraison
-      await query(
-        `INSERT INTO bons_livraison 
-         (id, numero, date, clientId, statut, totalHT, totalTVA, totalTTC, notes)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          bonLivraison.id,
-          bonLivraison.numero,
-          bonLivraison.date.toISOString(),
-          bonLivraison.client.id,
-          bonLivraison.statut,
-          bonLivraison.totalHT,
-          bonLivraison.totalTVA || 0,
-          bonLivraison.totalTTC,
-          bonLivraison.notes
-        ]
-      );
-
-      // Save bon de livraison lines
-      for (const ligne of bonLivraison.lignes) {
-        await query(
-          `INSERT INTO lignes_bon_livraison 
-           (id, bonLivraisonId, produitId, quantite)
-           VALUES (?, ?, ?, ?)`,
-          [
-            ligne.id,
-            bonLivraison.id,
-            ligne.produit.id,
-            ligne.quantite
-          ]
-        );
+      const result = await saveDocument('bonLivraison', bonLivraison);
+      if (!result.success) {
+        throw new Error(result.error || 'Erreur lors de la sauvegarde du bon de livraison');
       }
     }
   };
 
+  // The remaining quantities will not be delivered
+  const handleCancelReliquat = async (devis: Devis) => {
+    const message = hasLivraisons(devis)
+      ? `Annuler le reliquat du devis ${devis.numero} ? Les quantités restantes ne seront pas livrées.`
+      : `Annuler le devis ${devis.numero} ?`;
+    if (!window.confirm(message)) return;
+
+    try {
+      await updateDevisStatus([devis], 'annule');
+      showNotification(`Devis ${devis.numero} annulé`, 'success');
+      loadDevis();
+    } catch (error) {
+      console.error('Error cancelling devis:', error);
+      showNotification('Erreur lors de l\'annulation: ' + (error instanceof Error ? error.message : 'Erreur inconnue'), 'error');
+    }
+  };
+
   const updateDevisStatus = async (devisData: Devis[], newStatus: string) => {
     for (const devis of devisData) {
-      await query(
-        'UPDATE devis SET statut = ? WHERE id = ?',
-        [newStatus, devis.id]
-      );
+      const result = await updateDocumentStatut('devis', devis.id, newStatus);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
     }
   };
 
@@ -501,8 +543,12 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
     
     if (window.confirm('Êtes-vous sûr de vouloir supprimer ce devis ?')) {
       try {
-        await query('DELETE FROM lignes_devis WHERE devisId = ?', [id]);
-        await query('DELETE FROM devis WHERE id = ?', [id]);
+        // Delivery notes and invoices created from the devis are kept
+        const result = await deleteDocument('devis', id);
+        if (!result.success) {
+          showNotification(result.error || 'Erreur lors de la suppression du devis', 'error');
+          return;
+        }
         
         setDevis(devis.filter(d => d.id !== id));
       } catch (error) {
@@ -560,6 +606,9 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
                 <option value="accepte">Accepté</option>
                 <option value="refuse">Refusé</option>
                 <option value="expire">Expiré</option>
+                <option value="partiellement_livre">Partiellement livré</option>
+                <option value="livre">Livré</option>
+                <option value="annule">Annulé</option>
               </select>
             </div>
             <button
@@ -781,6 +830,7 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
                   )}
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-600">
                     {devis.numero}
+                    <DocumentChain chain={documentChains.get(getDocumentChainKey('devis', devis.id))} currentId={devis.id} />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     <div>
@@ -793,18 +843,18 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     <div className={`${
-                      devis.dateValidite < new Date() && devis.statut !== 'accepte' 
+                      isExpired(devis) 
                         ? 'text-red-600 font-medium' 
                         : ''
                     }`}>
                       {devis.dateValidite.toLocaleDateString('fr-FR')}
-                      {devis.dateValidite < new Date() && devis.statut !== 'accepte' && (
+                      {isExpired(devis) && (
                         <div className="text-xs text-red-500">Expiré</div>
                       )}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-medium">
-                    {formatCurrency(devis.totalTTC)}
+                    {formatDocumentAmount(devis.totalTTC, devis.devise)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(devis.statut)}`}>
@@ -834,6 +884,15 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
                       >
                         <Edit className="w-4 h-4" />
                       </button>
+                      {(devis.statut === 'accepte' || devis.statut === 'partiellement_livre') && (
+                        <button
+                          onClick={() => handleCancelReliquat(devis)}
+                          className="text-orange-600 hover:text-orange-900 p-1 hover:bg-orange-50 rounded transition-colors"
+                          title={devis.statut === 'partiellement_livre' ? 'Annuler le reliquat' : 'Annuler le devis'}
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
                       <button
                         onClick={() => handleDelete(devis.id)}
                         className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
@@ -870,7 +929,7 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
       {/* Conversion Modal */}
       {showConversionModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+          <div className={`bg-white rounded-lg shadow-xl w-full max-h-[90vh] overflow-y-auto ${conversionType === 'bonLivraison' ? 'max-w-3xl' : 'max-w-md'}`}>
             <div className="flex items-center justify-between p-6 border-b">
               <h2 className="text-xl font-semibold">Convertir les devis</h2>
               <button 
@@ -925,9 +984,52 @@ const DevisList: React.FC<DevisListProps> = ({ onCreateNew, onEdit, onDelete })
                 </div>
               </div>
 
+              {conversionType === 'bonLivraison' && (
+                <div className="mb-6 border rounded-lg overflow-hidden">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Devis</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Produit</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Commandé</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Déjà livré</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">À livrer</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {getSelectedDevisData().flatMap(d => d.lignes
+                        .filter(ligne => getResteALivrer(ligne) > 0)
+                        .map(ligne => (
+                          <tr key={ligne.id}>
+                            <td className="px-4 py-2 text-sm text-green-600">{d.numero}</td>
+                            <td className="px-4 py-2 text-sm text-gray-900">{ligne.produit.nom}</td>
+                            <td className="px-4 py-2 text-sm text-right">{ligne.quantite}</td>
+                            <td className="px-4 py-2 text-sm text-right text-orange-600">{ligne.quantiteLivree || 0}</td>
+                            <td className="px-4 py-2 text-right">
+                              <input
+                                type="number"
+                                value={quantitesALivrer[ligne.id] ?? 0}
+                                onChange={(e) => handleQuantiteALivrerChange(ligne, e.target.value)}
+                                className="w-24 px-2 py-1 border border-gray-300 rounded text-right text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                                min="0"
+                                max={getResteALivrer(ligne)}
+                                step="any"
+                                disabled={isConverting}
+                              />
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-6">
                 <p className="text-sm text-blue-800">
-                  <strong>Note :</strong> Après conversion, le statut des devis sera automatiquement mis à jour vers "Accepté".
+                  <strong>Note :</strong> {conversionType === 'facture'
+                    ? 'Après conversion, le statut des devis sera automatiquement mis à jour vers "Accepté".'
+                    : 'Les quantités non livrées restent en reliquat : le devis passe à "Partiellement livré" jusqu\'à la livraison complète.'}
                 </p>
               </div>
 
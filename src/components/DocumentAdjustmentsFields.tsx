@@ -0,0 +1,112 @@
+import React from 'react';
+import { Plus, Trash2, Percent } from 'lucide-react';
+import { FraisDocument, RemiseGlobale } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+interface DocumentAdjustmentsFieldsProps {
+  remiseGlobale?: RemiseGlobale;
+  frais: FraisDocument[];
+  devise: string; // Fixed discounts and fees are entered in the document currency
+  onChange: (remiseGlobale: RemiseGlobale | undefined, frais: FraisDocument[]) => void;
+}
+
+// Global discount and fees (shipping, packaging...) of a document, taxed at the rates of its lines
+const DocumentAdjustmentsFields: React.FC<DocumentAdjustmentsFieldsProps> = ({ remiseGlobale, frais, devise, onChange }) => {
+  const handleRemiseChange = (type: RemiseGlobale['type'] | '', valeur: number) => {
+    onChange(type ? { type, valeur } : undefined, frais);
+  };
+
+  const handleFraisChange = (index: number, changes: Partial<FraisDocument>) => {
+    onChange(remiseGlobale, frais.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleAddFrais = () => {
+    onChange(remiseGlobale, [...frais, { id: uuidv4(), libelle: '', montantHT: 0 }]);
+  };
+
+  const handleRemoveFrais = (index: number) => {
+    onChange(remiseGlobale, frais.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <div className="flex items-center mb-2">
+          <Percent className="w-4 h-4 mr-1 text-gray-600" />
+          <label className="text-sm font-medium text-gray-700">Remise globale</label>
+        </div>
+        <div className="flex space-x-2">
+          <select
+            value={remiseGlobale?.type || ''}
+            onChange={(e) => handleRemiseChange(e.target.value as RemiseGlobale['type'] | '', remiseGlobale?.valeur || 0)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Aucune</option>
+            <option value="percentage">Pourcentage</option>
+            <option value="fixed">Montant ({devise})</option>
+          </select>
+          {remiseGlobale && (
+            <input
+              type="number"
+              min="0"
+              max={remiseGlobale.type === 'percentage' ? 100 : undefined}
+              step={remiseGlobale.type === 'percentage' ? '0.1' : '0.001'}
+              value={remiseGlobale.valeur || ''}
+              onChange={(e) => handleRemiseChange(remiseGlobale.type, parseFloat(e.target.value) || 0)}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder={remiseGlobale.type === 'percentage' ? '%' : '0,000'}
+            />
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">Répartie sur les taux de TVA au prorata du HT des lignes</p>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-gray-700">Frais (transport, emballage...)</label>
+          <button
+            onClick={handleAddFrais}
+            className="text-blue-600 hover:text-blue-800 text-sm flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Ajouter des frais
+          </button>
+        </div>
+        <div className="space-y-2">
+          {frais.map((item, index) => (
+            <div key={item.id} className="flex space-x-2">
+              <input
+                type="text"
+                value={item.libelle}
+                onChange={(e) => handleFraisChange(index, { libelle: e.target.value })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Libellé"
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.001"
+                value={item.montantHT || ''}
+                onChange={(e) => handleFraisChange(index, { montantHT: parseFloat(e.target.value) || 0 })}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder={`HT (${devise})`}
+              />
+              <button
+                onClick={() => handleRemoveFrais(index)}
+                className="text-red-600 hover:text-red-800 p-2 hover:bg-red-50 rounded transition-colors"
+                title="Supprimer ces frais"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {frais.length === 0 && (
+            <p className="text-xs text-gray-500">Aucun frais. Ils sont soumis à la TVA des lignes, au prorata de leur HT.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentAdjustmentsFields;
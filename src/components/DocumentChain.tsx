@@ -0,0 +1,41 @@
+import React from 'react';
+import { FileText, Truck, Receipt, ArrowRight } from 'lucide-react';
+import { DocumentChain as DocumentChainData, DocumentChainRef } from '../utils/documentChain';
+
+interface DocumentChainProps {
+  chain?: DocumentChainData;
+  currentId: string;
+}
+
+const DocumentChain: React.FC<DocumentChainProps> = ({ chain, currentId }) => {
+  if (!chain) return null;
+
+  const steps: { refs: DocumentChainRef[]; icon: React.ReactNode; color: string }[] = [
+    { refs: chain.devis, icon: <FileText className="w-3 h-3" />, color: 'text-green-600' },
+    { refs: chain.bonsLivraison, icon: <Truck className="w-3 h-3" />, color: 'text-orange-600' },
+    { refs: chain.factures, icon: <Receipt className="w-3 h-3" />, color: 'text-blue-600' }
+  ].filter(step => step.refs.length > 0);
+
+  return (
+    <div className="flex items-center flex-wrap gap-1 mt-1 text-xs font-normal" title="Devis → Bons de livraison → Factures">
+      {steps.map((step, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && <ArrowRight className="w-3 h-3 text-gray-400" />}
+          <span className={`inline-flex items-center space-x-1 ${step.color}`}>
+            {step.icon}
+            <span>
+              {step.refs.map((ref, refIndex) => (
+                <React.Fragment key={ref.id}>
+                  {refIndex > 0 && ', '}
+                  <span className={ref.id === currentId ? 'font-semibold underline' : ''}>{ref.numero}</span>
+                </React.Fragment>
+              ))}
+            </span>
+          </span>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default DocumentChain;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { useDatabase } from '../hooks/useDatabase';
+import { DOCUMENT_CURRENCIES, BASE_CURRENCY, isForeignCurrency } from '../utils/currency';
+
+interface DocumentCurrencyFieldsProps {
+  devise: string;
+  tauxChange: number;
+  date: string; // Document date, used to look up the rate in force
+  onChange: (devise: string, tauxChange: number) => void;
+}
+
+// Currency of a document and its exchange rate, prefilled from the rates table
+const DocumentCurrencyFields: React.FC<DocumentCurrencyFieldsProps> = ({ devise, tauxChange, date, onChange }) => {
+  const [rateHint, setRateHint] = useState('');
+
+  const { getExchangeRate } = useDatabase();
+
+  const handleDeviseChange = async (nextDevise: string) => {
+    if (!isForeignCurrency(nextDevise)) {
+      setRateHint('');
+      onChange(BASE_CURRENCY, 1);
+      return;
+    }
+
+    try {
+      const rate = await getExchangeRate(nextDevise, date);
+      if (rate) {
+        setRateHint(`Taux du ${new Date(rate.date).toLocaleDateString('fr-FR')}`);
+        onChange(nextDevise, rate.taux);
+      } else {
+        setRateHint('Aucun taux enregistré pour cette devise, saisissez-le');
+        onChange(nextDevise, tauxChange === 1 ? 0 : tauxChange);
+      }
+    } catch (error) {
+      console.error('Error loading exchange rate:', error);
+      onChange(nextDevise, tauxChange);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Devise
+        </label>
+        <select
+          value={devise}
+          onChange={(e) => handleDeviseChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {DOCUMENT_CURRENCIES.map(currency => (
+            <option key={currency.code} value={currency.code}>{currency.code} - {currency.nom}</option>
+          ))}
+        </select>
+      </div>
+      {isForeignCurrency(devise) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Taux de change (1 {devise} = ? TND)
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="0.0001"
+            value={tauxChange || ''}
+            onChange={(e) => onChange(devise, parseFloat(e.target.value) || 0)}
+            className={`w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+              tauxChange > 0 ? 'border-gray-300' : 'border-red-300'
+            }`}
+          />
+          {rateHint && <p className="text-xs text-gray-500 mt-1">{rateHint}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentCurrencyFields;
@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2, Coins } from 'lucide-react';
+import { TauxChange } from '../types';
+import { useDatabase } from '../hooks/useDatabase';
+import { DOCUMENT_CURRENCIES, isForeignCurrency } from '../utils/currency';
+import { v4 as uuidv4 } from 'uuid';
+import { useNotification } from '../contexts/NotificationContext';
+
+const foreignCurrencies = DOCUMENT_CURRENCIES.filter(currency => isForeignCurrency(currency.code));
+
+const ExchangeRateSettings: React.FC = () => {
+  const [rates, setRates] = useState<TauxChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState({
+    devise: foreignCurrencies[0].code,
+    date: new Date().toISOString().split('T')[0],
+    taux: ''
+  });
+
+  const { listExchangeRates, saveExchangeRate, deleteExchangeRate, isReady } = useDatabase();
+  const { showNotification } = useNotification();
+
+  const loadRates = useCallback(async () => {
+    try {
+      setRates(await listExchangeRates());
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [listExchangeRates]);
+
+  useEffect(() => {
+    if (isReady) {
+      loadRates();
+    }
+  }, [isReady, loadRates]);
+
+  const handleAdd = async () => {
+    const taux = parseFloat(formData.taux.replace(',', '.'));
+    if (!formData.date || !(taux > 0)) {
+      showNotification('Veuillez saisir une date et un taux supérieur à zéro', 'warning');
+      return;
+    }
+
+    try {
+      const result = await saveExchangeRate({ id: uuidv4(), devise: formData.devise, date: formData.date, taux });
+      if (!result.success) {
+        showNotification(result.error || 'Erreur lors de l\'enregistrement du taux', 'error');
+        return;
+      }
+      setFormData(prev => ({ ...prev, taux: '' }));
+      loadRates();
+      showNotification('Taux de change enregistré', 'success');
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      showNotification('Erreur lors de l\'enregistrement du taux', 'error');
+    }
+  };
+
+  const handleDelete = async (rate: TauxChange) => {
+    if (window.confirm(`Supprimer le taux ${rate.devise} du ${new Date(rate.date).toLocaleDateString('fr-FR')} ?`)) {
+      try {
+        const result = await deleteExchangeRate(rate.id);
+        if (!result.success) {
+          showNotification(result.error || 'Erreur lors de la suppression du taux', 'error');
+          return;
+        }
+        loadRates();
+      } catch (error) {
+        console.error('Error deleting exchange rate:', error);
+        showNotification('Erreur lors de la suppression du taux', 'error');
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Taux de change</h3>
+        <p className="text-sm text-gray-600">
+          Valeur en dinars d'une unité de devise. Un document en devise reprend le dernier taux connu à sa date,
+          modifiable sur le document ; ce taux sert aux équivalents TND des rapports.
+        </p>
+      </div>
+
+      {/* New rate */}
+      <div className="bg-white rounded-lg shadow-sm border p-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Devise</label>
+            <select
+              value={formData.devise}
+              onChange={(e) => setFormData(prev => ({ ...prev, devise: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {foreignCurrencies.map(currency => (
+                <option key={currency.code} value={currency.code}>{currency.code} - {currency.nom}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Applicable à partir du</label>
+            <input
+              type="date"
+              value={formData.date}
+              onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">1 {formData.devise} = ? TND</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={formData.taux}
+              onChange={(e) => setFormData(prev => ({ ...prev, taux: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Ex: 3,3500"
+            />
+          </div>
+          <button
+            onClick={handleAdd}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Enregistrer le taux</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Rates Table */}
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Date
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Devise
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Taux (TND)
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rates.map(rate => (
+              <tr key={rate.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {new Date(rate.date).toLocaleDateString('fr-FR')}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{rate.devise}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{rate.taux.toFixed(4)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={() => handleDelete(rate)}
+                    className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
+                    title="Supprimer"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rates.length === 0 && (
+          <div className="text-center py-12">
+            <Coins className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500">Aucun taux de change enregistré</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExchangeRateSettings;
@@ -1,13 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { X, Plus, Trash2, Save, User, Package, Calculator, Search, ShoppingCart, Store } from 'lucide-react';
-import { Client, Produit, LigneDocument, Facture, TaxGroup, TaxGroupSummary } from '../types';
+import { Client, Produit, LigneDocument, Facture, Tax, RemiseGlobale, FraisDocument, ListePrix } from '../types';
 import { useDatabase } from '../hooks/useDatabase';
-import { formatCurrency, calculateTTC } from '../utils/currency';
-import { calculateTaxesByGroup, loadTaxGroups, ensureTaxGroupForProduct } from '../utils/productTaxCalculator';
-import { getNextDocumentNumber } from '../utils/numberGenerator';
+import { useAppSetting } from '../hooks/useAppSetting';
+import { formatCurrency, calculateTTC, formatDocumentAmount, fromBaseCurrency, isForeignCurrency, BASE_CURRENCY, getMoneyDecimals } from '../utils/currency';
+import { calculateDocumentTotals, calculateProductTaxes, loadDocumentCharges, ensureTaxGroupForProduct, convertDocumentCharges } from '../utils/productTaxCalculator';
+import { resolvePrixUnitaire } from '../utils/priceLists';
 import { v4 as uuidv4 } from 'uuid';
 import ClientForm from './ClientForm';
 import ProduitForm from './ProduitForm';
+import DocumentCurrencyFields from './DocumentCurrencyFields';
+import DocumentAdjustmentsFields from './DocumentAdjustmentsFields';
 import { useNotification } from '../contexts/NotificationContext';
 
 interface FactureFormProps {
@@ -15,17 +18,13 @@ interface FactureFormProps {
   onClose: () => void;
   onSave: (facture: Facture) => void;
   facture?: Facture;
-  isAvoir?: boolean;
-  originalFacture?: Facture;
 }
 
 const FactureForm: React.FC<FactureFormProps> = ({ 
   isOpen, 
   onClose, 
   onSave, 
-  facture, 
-  isAvoir = false,
-  originalFacture
+  facture
 }) => {
   const [formData, setFormData] = useState({
     numero: '',
@@ -33,16 +32,20 @@ const FactureForm: React.FC<FactureFormProps> = ({
     dateEcheance: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     clientId: '',
     notes: '',
-    statut: 'brouillon' as const
+    statut: 'brouillon' as const,
+    devise: BASE_CURRENCY,
+    tauxChange: 1
   });
+  const moneyDecimals = getMoneyDecimals(formData.devise);
 
   const [clients, setClients] = useState<Client[]>([]);
   const [produits, setProduits] = useState<Produit[]>([]);
   const [lignes, setLignes] = useState<LigneDocument[]>([]);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
-  const [taxGroups, setTaxGroups] = useState<TaxGroup[]>([]);
-  const [taxGroupsSummary, setTaxGroupsSummary] = useState<TaxGroupSummary[]>([]);
-  const [useEcheanceDate, setUseEcheanceDate] = useState(true);
+  const [chargeTaxes, setChargeTaxes] = useState<Tax[]>([]);
+  const [remiseGlobale, setRemiseGlobale] = useState<RemiseGlobale | undefined>();
+  const [frais, setFrais] = useState<FraisDocument[]>([]);
+  const [listesPrix, setListesPrix] = useState<ListePrix[]>([]);
   
   // Search states
   const [clientSearchTerm, setClientSearchTerm] = useState('');
@@ -59,15 +62,16 @@ const FactureForm: React.FC<FactureFormProps> = ({
   const [editingProduit, setEditingProduit] = useState<Produit | null>(null);
   const [newProductType, setNewProductType] = useState<'vente' | 'achat'>('vente');
 
-  const { query, isElectron, isReady } = useDatabase();
+  const { query, listClients, saveDocument, previewDocumentNumber, listPriceLists, isElectron, isReady } = useDatabase();
+  const { useEcheanceDate, roundingPolicy } = useAppSetting('invoiceSettings');
   const { showNotification } = useNotification();
 
   useEffect(() => {
     if (isOpen && isReady) {
       loadClients();
       loadProduits();
-      loadTaxGroupsData();
-      loadInvoiceSettings();
+      loadListesPrix();
+      loadChargeTaxes();
       
       if (facture) {
         setFormData({
@@ -76,42 +80,15 @@ const FactureForm: React.FC<FactureFormProps> = ({
           dateEcheance: facture.dateEcheance.toISOString().split('T')[0],
           clientId: facture.client.id,
           notes: facture.notes || '',
-          statut: facture.statut
+          statut: facture.statut,
+          devise: facture.devise || BASE_CURRENCY,
+          tauxChange: facture.tauxChange || 1
         });
         setSelectedClient(facture.client);
         setClientSearchTerm(facture.client.nom);
         setLignes(facture.lignes);
-        setTaxGroupsSummary(facture.taxGroupsSummary || []);
-      } else if (isAvoir && originalFacture) {
-        // For avoir, use original invoice data but with negative quantities
-        generateAvoirNumero(originalFacture.numero);
-        setFormData({
-          numero: '',  // Will be set by generateAvoirNumero
-          date: new Date().toISOString().split('T')[0],
-          dateEcheance: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          clientId: originalFacture.client.id,
-          notes: `Avoir pour la facture ${originalFacture.numero}`,
-          statut: 'brouillon'
-        });
-        setSelectedClient(originalFacture.client);
-        setClientSearchTerm(originalFacture.client.nom);
-        
-        // Create negative lines for the avoir
-        const avoirLignes = originalFacture.lignes.map(ligne => ({
-          ...ligne,
-          id: uuidv4(),  // Generate new IDs for the avoir lines
-          quantite: -ligne.quantite,  // Negative quantity
-          montantHT: -ligne.montantHT,
-          montantFodec: -(ligne.montantFodec || 0),
-          baseTVA: -(ligne.baseTVA || 0),
-          montantTVA: -(ligne.montantTVA || 0),
-          montantTTC: -ligne.montantTTC
-        }));
-        
-        setLignes(avoirLignes);
-        
-        // CRITICAL: Do NOT copy tax groups - they will be recalculated from the negative lines
-        setTaxGroupsSummary([]);
+        setRemiseGlobale(facture.remiseGlobale);
+        setFrais(facture.frais || []);
       } else {
         generateNumero();
         // Reset form for new invoice
@@ -121,17 +98,20 @@ const FactureForm: React.FC<FactureFormProps> = ({
           dateEcheance: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
           clientId: '',
           notes: '',
-          statut: 'brouillon'
+          statut: 'brouillon',
+          devise: BASE_CURRENCY,
+          tauxChange: 1
         });
         setSelectedClient(null);
         setClientSearchTerm('');
         setLignes([]);
-        setTaxGroupsSummary([]);
+        setRemiseGlobale(undefined);
+        setFrais([]);
         setProductSearchTerm('');
         setShowProductDropdown(false);
       }
     }
-  }, [isOpen, facture, isAvoir, originalFacture, isReady]);
+  }, [isOpen, facture, isReady]);
 
   // Update filtered products when search term changes
   useEffect(() => {
@@ -151,18 +131,13 @@ const FactureForm: React.FC<FactureFormProps> = ({
     }
   }, [productSearchTerm, produits]);
 
-  // Recalculate taxes when lines change
-  useEffect(() => {
-    recalculateTaxes();
-  }, [lignes, taxGroups]);
-
   const loadClients = async () => {
     if (!isReady) return;
     
     try {
       if (isElectron) {
-        const result = await query('SELECT * FROM clients ORDER BY nom');
-        setClients(result);
+        const result = await listClients();
+        setClients(result.sort((a, b) => a.nom.localeCompare(b.nom)));
       } else {
         const savedClients = localStorage.getItem('clients');
         if (savedClients) {
@@ -174,6 +149,64 @@ const FactureForm: React.FC<FactureFormProps> = ({
     }
   };
 
+  const loadListesPrix = async () => {
+    if (!isReady || !isElectron) return;
+
+    try {
+      setListesPrix(await listPriceLists());
+    } catch (error) {
+      console.error('Error loading price lists:', error);
+    }
+  };
+
+  // Unit price of the client's price list in force at the document date, in the document currency
+  const getPrixUnitaire = (
+    produit: Produit,
+    quantite: number,
+    client: Client | null = selectedClient,
+    date: string = formData.date,
+    devise: string = formData.devise,
+    tauxChange: number = formData.tauxChange
+  ) => {
+    const liste = listesPrix.find(l => l.id === client?.listePrixId);
+    return fromBaseCurrency(resolvePrixUnitaire(produit, quantite, liste, date), devise, tauxChange);
+  };
+
+  // A new quantity can reach another quantity break, unless the price was typed by hand
+  const withQuantite = (ligne: LigneDocument, quantite: number): LigneDocument => ({
+    ...ligne,
+    quantite,
+    prixUnitaire: ligne.prixManuel ? ligne.prixUnitaire : getPrixUnitaire(ligne.produit, quantite)
+  });
+
+  // Lines priced from the price list follow the client, the date and the currency of the document
+  const repriceLignes = (
+    client: Client | null,
+    date: string,
+    devise: string = formData.devise,
+    tauxChange: number = formData.tauxChange
+  ) =>
+    lignes.map(ligne =>
+      calculateProductTaxes(
+        ligne.prixManuel
+          ? ligne
+          : { ...ligne, prixUnitaire: getPrixUnitaire(ligne.produit, ligne.quantite, client, date, devise, tauxChange) },
+        getMoneyDecimals(devise)
+      )
+    );
+
+  // Price lists have validity dates, another date can change the prices
+  const handleDateChange = (date: string) => {
+    setLignes(repriceLignes(selectedClient, date));
+    setFormData(prev => ({ ...prev, date }));
+  };
+
+  // Dinar prices are converted at the new rate, prices typed by hand stay as entered
+  const handleCurrencyChange = (devise: string, tauxChange: number) => {
+    setLignes(repriceLignes(selectedClient, formData.date, devise, tauxChange));
+    setFormData(prev => ({ ...prev, devise, tauxChange }));
+  };
+
   const loadProduits = async () => {
     if (!isReady) return;
     
@@ -192,96 +225,23 @@ const FactureForm: React.FC<FactureFormProps> = ({
     }
   };
 
-  const loadTaxGroupsData = async () => {
-    if (!isReady) return;
-    
-    if (!isElectron) {
-      const savedTaxGroups = localStorage.getItem('taxGroups');
-      if (savedTaxGroups) {
-        setTaxGroups(JSON.parse(savedTaxGroups));
-      }
-      return;
-    }
-
-    try {
-      const groups = await loadTaxGroups(query);
-      setTaxGroups(groups);
-    } catch (error) {
-      console.error('Error loading tax groups:', error);
-    }
-  };
-
-  const loadInvoiceSettings = async () => {
-    if (!isReady) return;
-    
-    try {
-      if (isElectron) {
-        const result = await query('SELECT value FROM settings WHERE key = ?', ['invoiceSettings']);
-        if (result.length > 0) {
-          const settings = JSON.parse(result[0].value);
-          setUseEcheanceDate(settings.useEcheanceDate);
-        }
-      } else {
-        const savedSettings = localStorage.getItem('invoiceSettings');
-        if (savedSettings) {
-          const settings = JSON.parse(savedSettings);
-          setUseEcheanceDate(settings.useEcheanceDate);
-        }
-      }
-    } catch (error) {
-      console.error('Error loading invoice settings:', error);
-    }
+  // Document-level charges (timbre fiscal, ...) from the taxes settings
+  const loadChargeTaxes = async () => {
+    if (!isReady || !isElectron) return;
+    setChargeTaxes(await loadDocumentCharges('factures', query));
   };
 
   const generateNumero = async () => {
     if (!isReady) return;
     
     try {
-      const numero = await getNextDocumentNumber('factures', isElectron, query, false);
+      const numero = await previewDocumentNumber('factures');
       setFormData(prev => ({ ...prev, numero }));
     } catch (error) {
       console.error('Error generating numero:', error);
-      // Fallback to simple numbering
-      const year = new Date().getFullYear();
-      const count = Math.floor(Math.random() * 1000) + 1;
-      setFormData(prev => ({
-        ...prev,
-        numero: `FA-${year}-${String(count).padStart(3, '0')}`
-      }));
     }
   };
 
-  const generateAvoirNumero = async (originalNumero: string) => {
-    if (!isReady) return;
-    
-    try {
-      const numero = await getNextDocumentNumber('factures', isElectron, query, false);
-      // Add AV prefix to indicate this is an avoir
-      const avoirNumero = `AV-${numero}`;
-      setFormData(prev => ({ ...prev, numero: avoirNumero }));
-    } catch (error) {
-      console.error('Error generating avoir numero:', error);
-      // Fallback to simple numbering
-      const year = new Date().getFullYear();
-      const count = Math.floor(Math.random() * 1000) + 1;
-      setFormData(prev => ({
-        ...prev,
-        numero: `AV-FA-${year}-${String(count).padStart(3, '0')}`
-      }));
-    }
-  };
-
-  const recalculateTaxes = () => {
-    if (lignes.length === 0) {
-      setTaxGroupsSummary([]);
-      return;
-    }
-
-    // Calculate taxes by group
-    const { taxGroupsSummary, totalTaxes } = calculateTaxesByGroup(lignes, taxGroups);
-    setTaxGroupsSummary(taxGroupsSummary);
-  };
-
   // Filter clients based on search term
   const filteredClients = clients.filter(client =>
     client.nom.toLowerCase().includes(clientSearchTerm.toLowerCase()) ||
@@ -300,6 +260,7 @@ const FactureForm: React.FC<FactureFormProps> = ({
   };
 
   const handleClientSelect = (client: Client) => {
+    setLignes(repriceLignes(client, formData.date));
     setSelectedClient(client);
     setClientSearchTerm(client.nom);
     setFormData(prev => ({ ...prev, clientId: client.id }));
@@ -320,30 +281,20 @@ const FactureForm: React.FC<FactureFormProps> = ({
     if (existingLineIndex !== -1) {
       // If product exists, increase quantity
       const newLignes = [...lignes];
-      newLignes[existingLineIndex].quantite += 1;
-      
-      // Recalculate amounts
       const ligne = newLignes[existingLineIndex];
-      const montantHT = ligne.quantite * ligne.prixUnitaire;
-      ligne.montantHT = montantHT;
-      
-      // Calculate TTC based on product tax rate
-      ligne.montantTTC = montantHT * (1 + ligne.produit.tva / 100);
       
+      newLignes[existingLineIndex] = calculateProductTaxes(withQuantite(ligne, ligne.quantite + 1), moneyDecimals);
       setLignes(newLignes);
     } else {
-      // Add new line
-      const montantHT = produit.prixUnitaire;
-      
-      const newLigne: LigneDocument = {
+      // Add new line at the client's price, converted to the invoice currency
+      const prixUnitaire = getPrixUnitaire(produit, 1);
+      const newLigne = calculateProductTaxes({
         id: uuidv4(),
         produit,
         quantite: 1,
-        prixUnitaire: produit.prixUnitaire,
-        remise: 0,
-        montantHT,
-        montantTTC: montantHT * (1 + produit.tva / 100)
-      };
+        prixUnitaire,
+        remise: 0
+      }, moneyDecimals);
       setLignes([...lignes, newLigne]);
       
       // Ensure tax group exists for this product
@@ -363,20 +314,21 @@ const FactureForm: React.FC<FactureFormProps> = ({
       const produit = produits.find(p => p.id === value);
       if (produit) {
         ligne.produit = produit;
-        ligne.prixUnitaire = produit.prixUnitaire;
+        ligne.prixUnitaire = getPrixUnitaire(produit, ligne.quantite);
+        ligne.prixManuel = false;
         // Ensure tax group exists for new product
         ensureTaxGroupForProduct(produit.tva, query);
       }
+    } else if (field === 'quantite') {
+      Object.assign(ligne, withQuantite(ligne, value));
+    } else if (field === 'prixUnitaire') {
+      ligne.prixUnitaire = value;
+      ligne.prixManuel = true;
     } else {
       (ligne as any)[field] = value;
     }
 
-    // Recalculate amounts
-    const montantHT = ligne.quantite * ligne.prixUnitaire * (1 - ligne.remise / 100);
-    ligne.montantHT = montantHT;
-    
-    // Calculate TTC for this line based on product tax rate
-    ligne.montantTTC = montantHT * (1 + ligne.produit.tva / 100);
+    newLignes[index] = calculateProductTaxes(ligne, moneyDecimals);
 
     setLignes(newLignes);
   };
@@ -385,20 +337,15 @@ const FactureForm: React.FC<FactureFormProps> = ({
     setLignes(lignes.filter((_, i) => i !== index));
   };
 
-  const calculateTotals = () => {
-    const totalHT = lignes.reduce((sum, ligne) => sum + ligne.montantHT, 0);
-    
-    // Calculate taxes by group
-    const { taxGroupsSummary, totalTaxes } = calculateTaxesByGroup(lignes, taxGroups, 'factures');
-    const totalTTC = totalHT + totalTaxes;
-    
-    return { 
-      totalHT, 
-      totalTaxes,
-      taxGroupsSummary,
-      totalTTC 
-    };
-  };
+  const calculateTotals = () =>
+    calculateDocumentTotals(lignes, convertDocumentCharges(chargeTaxes, formData.devise, formData.tauxChange), {
+      devise: formData.devise,
+      policy: roundingPolicy,
+      remiseGlobale,
+      frais
+    });
+
+  const formatAmount = (amount: number) => formatDocumentAmount(amount, formData.devise);
 
   const handleSave = async () => {
     if (!isReady) return;
@@ -408,77 +355,46 @@ const FactureForm: React.FC<FactureFormProps> = ({
       return;
     }
 
+    if (isForeignCurrency(formData.devise) && !(formData.tauxChange > 0)) {
+      showNotification('Veuillez saisir le taux de change de la devise', 'warning');
+      return;
+    }
+
     try {
-      // Increment document number only when actually saving
-      const finalNumero = await getNextDocumentNumber('factures', isElectron, query, true);
-      
-      const { totalHT, totalTaxes, taxGroupsSummary, totalTTC } = calculateTotals();
+      const totals = calculateTotals();
 
       const factureData: Facture = {
         id: facture?.id || uuidv4(),
-        numero: facture?.numero || finalNumero, // Use existing numero for edits, new numero for new invoices
+        numero: facture?.numero || '', // New invoices are numbered when the save is committed
         date: new Date(formData.date),
         dateEcheance: new Date(formData.dateEcheance),
         client: selectedClient,
-        lignes,
-        totalHT,
-        taxGroupsSummary,
-        totalTaxes,
-        totalTTC,
+        lignes: totals.lignes,
+        totalHT: totals.totalHT,
+        totalFodec: totals.totalFodec,
+        totalTVA: totals.totalTVA,
+        remiseGlobale,
+        montantRemise: totals.montantRemise,
+        frais: totals.frais,
+        totalFrais: totals.totalFrais,
+        ajustements: totals.ajustements,
+        charges: totals.charges,
+        totalCharges: totals.totalCharges,
+        totalTTC: totals.totalTTC,
         statut: formData.statut,
-        notes: formData.notes
+        devisId: facture?.devisId,
+        notes: formData.notes,
+        devise: formData.devise,
+        tauxChange: isForeignCurrency(formData.devise) ? formData.tauxChange : 1
       };
 
-      // Save facture to database
-      await query(
-        `INSERT OR REPLACE INTO factures 
-         (id, numero, date, dateEcheance, clientId, totalHT, totalTVA, totalTTC, statut, notes)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          factureData.id,
-          factureData.numero,
-          factureData.date.toISOString(),
-          factureData.dateEcheance.toISOString(),
-          factureData.client.id,
-          factureData.totalHT,
-          factureData.totalTaxes,
-          factureData.totalTTC,
-          factureData.statut,
-          factureData.notes || ''
-        ]
-      );
-
-      // Delete existing lines
-      await query('DELETE FROM lignes_facture WHERE factureId = ?', [factureData.id]);
-
-      // Save lines
-      for (const ligne of lignes) {
-        await query(
-          `INSERT INTO lignes_facture 
-           (id, factureId, produitId, quantite, prixUnitaire, remise, montantHT, montantTTC)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            ligne.id,
-            factureData.id,
-            ligne.produit.id,
-            ligne.quantite,
-            ligne.prixUnitaire,
-            ligne.remise || 0,
-            ligne.montantHT,
-            ligne.montantTTC
-          ]
-        );
+      // Header, lines and numbering are written in one transaction
+      const result = await saveDocument('facture', factureData);
+      if (!result.success || !result.document) {
+        throw new Error(result.error);
       }
       
-      // If this is an avoir, update the original invoice status to 'annulee'
-      if (isAvoir && originalFacture) {
-        await query(
-          'UPDATE factures SET statut = ? WHERE id = ?',
-          ['annulee', originalFacture.id]
-        );
-      }
-
-      onSave(factureData);
+      onSave(result.document);
       onClose();
       
     } catch (error) {
@@ -522,8 +438,7 @@ const FactureForm: React.FC<FactureFormProps> = ({
     setEditingProduit(null);
   };
 
-  const { totalHT, totalTaxes, totalTTC } = calculateTotals();
-  const { totalFodec, totalTVA } = calculateTotals();
+  const { totalLignesHT, montantRemise, totalFrais, totalHT, charges, totalTTC, taxSummary } = calculateTotals();
 
   if (!isOpen) return null;
 
@@ -533,7 +448,7 @@ const FactureForm: React.FC<FactureFormProps> = ({
         <div className="bg-white rounded-lg shadow-xl w-full max-w-7xl max-h-[95vh] overflow-hidden">
           <div className="flex items-center justify-between p-6 border-b">
             <h2 className="text-xl font-semibold">
-              {isAvoir ? 'Créer un avoir' : facture ? 'Modifier la facture' : 'Nouvelle facture'}
+              {facture ? 'Modifier la facture' : 'Nouvelle facture'}
             </h2>
             <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
               <X className="w-6 h-6" />
@@ -546,7 +461,7 @@ const FactureForm: React.FC<FactureFormProps> = ({
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    {isAvoir ? "Numéro d'avoir" : "Numéro de facture"}
+                    Numéro de facture
                   </label>
                   <input
                     type="text"
@@ -565,7 +480,7 @@ const FactureForm: React.FC<FactureFormProps> = ({
                     <input
                       type="date"
                       value={formData.date}
-                      onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+                      onChange={(e) => handleDateChange(e.target.value)}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     />
                   </div>
@@ -599,6 +514,13 @@ const FactureForm: React.FC<FactureFormProps> = ({
                     <option value="annulee">Annulée</option>
                   </select>
                 </div>
+
+                <DocumentCurrencyFields
+                  devise={formData.devise}
+                  tauxChange={formData.tauxChange}
+                  date={formData.date}
+                  onChange={handleCurrencyChange}
+                />
               </div>
 
               {/* Right Column - Client with Search */}
@@ -631,12 +553,11 @@ const FactureForm: React.FC<FactureFormProps> = ({
                         onFocus={() => setShowClientDropdown(true)}
                         className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         placeholder="Rechercher un client..."
-                        readOnly={isAvoir && !!originalFacture}
                       />
                     </div>
                     
                     {/* Client Dropdown */}
-                    {showClientDropdown && clientSearchTerm && !isAvoir && (
+                    {showClientDropdown && clientSearchTerm && (
                       <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-y-auto">
                         {filteredClients.length > 0 ? (
                           filteredClients.map(client => (
@@ -698,99 +619,97 @@ const FactureForm: React.FC<FactureFormProps> = ({
             </div>
 
             {/* COMPACT: Product Search and Addition */}
-            {!isAvoir && (
-              <div className="border-t pt-6 mb-6">
-                <div className="flex items-center justify-between mb-3">
-                  <h3 className="text-lg font-medium flex items-center">
-                    <Store className="w-5 h-5 mr-2 text-green-600" />
-                    Ajouter des produits de vente
-                  </h3>
-                  <button
-                    onClick={() => {
-                      setEditingProduit(null);
-                      setNewProductType('vente');
-                      setShowProduitForm(true);
-                    }}
-                    className="text-green-600 hover:text-green-800 text-sm flex items-center"
-                  >
-                    <Store className="w-4 h-4 mr-1" />
-                    Nouveau produit de vente
-                  </button>
-                </div>
+            <div className="border-t pt-6 mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-medium flex items-center">
+                  <Store className="w-5 h-5 mr-2 text-green-600" />
+                  Ajouter des produits de vente
+                </h3>
+                <button
+                  onClick={() => {
+                    setEditingProduit(null);
+                    setNewProductType('vente');
+                    setShowProduitForm(true);
+                  }}
+                  className="text-green-600 hover:text-green-800 text-sm flex items-center"
+                >
+                  <Store className="w-4 h-4 mr-1" />
+                  Nouveau produit de vente
+                </button>
+              </div>
 
-                {/* COMPACT: Single line search with dropdown */}
-                <div className="relative mb-4">
-                  <div className="relative">
-                    <Search className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-                    <input
-                      type="text"
-                      value={productSearchTerm}
-                      onChange={(e) => handleProductSearch(e.target.value)}
-                      onFocus={() => setShowProductDropdown(true)}
-                      className="w-full pl-10 pr-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      placeholder="Rechercher et ajouter un produit de vente..."
-                    />
-                    <Store className="w-4 h-4 absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-                  </div>
+              {/* COMPACT: Single line search with dropdown */}
+              <div className="relative mb-4">
+                <div className="relative">
+                  <Search className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                  <input
+                    type="text"
+                    value={productSearchTerm}
+                    onChange={(e) => handleProductSearch(e.target.value)}
+                    onFocus={() => setShowProductDropdown(true)}
+                    className="w-full pl-10 pr-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Rechercher et ajouter un produit de vente..."
+                  />
+                  <Store className="w-4 h-4 absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                </div>
 
-                  {/* COMPACT: Product dropdown */}
-                  {showProductDropdown && (
-                    <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-64 overflow-y-auto">
-                      {filteredProducts.length > 0 ? (
-                        filteredProducts.slice(0, 8).map(produit => (
-                          <button
-                            key={produit.id}
-                            onClick={() => handleAddProduct(produit)}
-                            className="w-full px-4 py-3 text-left hover:bg-blue-50 focus:bg-blue-50 focus:outline-none border-b border-gray-100 last:border-b-0 group"
-                          >
-                            <div className="flex items-center justify-between">
-                              <div className="flex-1">
-                                <div className="flex items-center space-x-2">
-                                  <Store className="w-4 h-4 text-green-600" />
-                                  <div>
-                                    <div className="font-medium text-gray-900 group-hover:text-blue-700">
-                                      {produit.ref && (
-                                        <span className="text-xs text-gray-500 mr-2">[{produit.ref}]</span>
-                                      )}
-                                      {produit.nom}
-                                    </div>
-                                    <div className="text-sm text-gray-600">
-                                      {formatCurrency(produit.prixUnitaire)} • TVA {produit.tva}%
-                                    </div>
+                {/* COMPACT: Product dropdown */}
+                {showProductDropdown && (
+                  <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+                    {filteredProducts.length > 0 ? (
+                      filteredProducts.slice(0, 8).map(produit => (
+                        <button
+                          key={produit.id}
+                          onClick={() => handleAddProduct(produit)}
+                          className="w-full px-4 py-3 text-left hover:bg-blue-50 focus:bg-blue-50 focus:outline-none border-b border-gray-100 last:border-b-0 group"
+                        >
+                          <div className="flex items-center justify-between">
+                            <div className="flex-1">
+                              <div className="flex items-center space-x-2">
+                                <Store className="w-4 h-4 text-green-600" />
+                                <div>
+                                  <div className="font-medium text-gray-900 group-hover:text-blue-700">
+                                    {produit.ref && (
+                                      <span className="text-xs text-gray-500 mr-2">[{produit.ref}]</span>
+                                    )}
+                                    {produit.nom}
+                                  </div>
+                                  <div className="text-sm text-gray-600">
+                                    {formatCurrency(produit.prixUnitaire)} • TVA {produit.tva}%
                                   </div>
                                 </div>
                               </div>
-                              <Plus className="w-4 h-4 text-gray-400 group-hover:text-blue-600" />
                             </div>
-                          </button>
-                        ))
-                      ) : (
-                        <div className="px-4 py-6 text-center text-gray-500">
-                          <Store className="w-8 h-8 mx-auto mb-2 text-gray-300" />
-                          <p className="text-sm">Aucun produit de vente trouvé</p>
-                          <button
-                            onClick={() => {
-                              setEditingProduit(null);
-                              setNewProductType('vente');
-                              setShowProduitForm(true);
-                              setShowProductDropdown(false);
-                            }}
-                            className="mt-2 text-blue-600 hover:text-blue-800 text-sm"
-                          >
-                            Créer un nouveau produit de vente
-                          </button>
-                        </div>
-                      )}
-                    </div>
-                  )}
-                </div>
+                            <Plus className="w-4 h-4 text-gray-400 group-hover:text-blue-600" />
+                          </div>
+                        </button>
+                      ))
+                    ) : (
+                      <div className="px-4 py-6 text-center text-gray-500">
+                        <Store className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+                        <p className="text-sm">Aucun produit de vente trouvé</p>
+                        <button
+                          onClick={() => {
+                            setEditingProduit(null);
+                            setNewProductType('vente');
+                            setShowProduitForm(true);
+                            setShowProductDropdown(false);
+                          }}
+                          className="mt-2 text-blue-600 hover:text-blue-800 text-sm"
+                        >
+                          Créer un nouveau produit de vente
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
-            )}
+            </div>
 
             {/* Invoice Lines Table */}
             <div className="border-t pt-6">
               <h3 className="text-lg font-medium mb-4">
-                {isAvoir ? "Lignes de l'avoir" : "Lignes de facturation"} ({lignes.length})
+                Lignes de facturation ({lignes.length})
               </h3>
 
               {lignes.length > 0 ? (
@@ -819,11 +738,9 @@ const FactureForm: React.FC<FactureFormProps> = ({
                         <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
                           Total TTC
                         </th>
-                        {!isAvoir && (
-                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
-                            Actions
-                          </th>
-                        )}
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                          Actions
+                        </th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
@@ -850,8 +767,7 @@ const FactureForm: React.FC<FactureFormProps> = ({
                                 handleLigneChange(index, 'quantite', isNaN(parsedValue) ? null : parsedValue);
                               }}
                               className="w-20 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500"
-                              min={isAvoir ? undefined : "1"}
-                              readOnly={isAvoir}
+                              min="1"
                             />
                           </td>
                           <td className="px-4 py-3">
@@ -865,7 +781,6 @@ const FactureForm: React.FC<FactureFormProps> = ({
                               }}
                               className="w-24 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500"
                               step="0.001"
-                              readOnly={isAvoir}
                             />
                           </td>
                           <td className="px-4 py-3">
@@ -881,29 +796,26 @@ const FactureForm: React.FC<FactureFormProps> = ({
                               min="0"
                               max="100"
                               step="0.1"
-                              readOnly={isAvoir}
                             />
                           </td>
                           <td className="px-4 py-3 text-sm font-medium">
-                            {formatCurrency(ligne.montantHT)}
+                            {formatAmount(ligne.montantHT)}
                           </td>
                           <td className="px-4 py-3 text-sm font-medium text-blue-600">
                             {ligne.produit.tva}%
                           </td>
                           <td className="px-4 py-3 text-sm font-medium text-blue-600">
-                            {formatCurrency(ligne.montantTTC)}
+                            {formatAmount(ligne.montantTTC)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <button
+                              onClick={() => handleRemoveLigne(index)}
+                              className="text-red-600 hover:text-red-800 p-1 hover:bg-red-50 rounded transition-colors"
+                              title="Supprimer cette ligne"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
                           </td>
-                          {!isAvoir && (
-                            <td className="px-4 py-3">
-                              <button
-                                onClick={() => handleRemoveLigne(index)}
-                                className="text-red-600 hover:text-red-800 p-1 hover:bg-red-50 rounded transition-colors"
-                                title="Supprimer cette ligne"
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </button>
-                            </td>
-                          )}
                         </tr>
                       ))}
                     </tbody>
@@ -913,62 +825,92 @@ const FactureForm: React.FC<FactureFormProps> = ({
                 <div className="text-center py-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-300">
                   <Store className="w-8 h-8 mx-auto text-gray-400 mb-2" />
                   <p className="text-gray-500 text-sm">
-                    {isAvoir 
-                      ? "Aucune ligne dans l'avoir" 
-                      : "Aucun produit ajouté à la facture"}
+                    Aucun produit ajouté à la facture
                   </p>
-                  {!isAvoir && (
-                    <p className="text-xs text-gray-400">Utilisez la recherche ci-dessus pour ajouter des produits</p>
-                  )}
+                  <p className="text-xs text-gray-400">Utilisez la recherche ci-dessus pour ajouter des produits</p>
                 </div>
               )}
             </div>
 
+            {/* Global discount and fees */}
+            {lignes.length > 0 && (
+              <div className="mt-6">
+                <DocumentAdjustmentsFields
+                  remiseGlobale={remiseGlobale}
+                  frais={frais}
+                  devise={formData.devise}
+                  onChange={(nextRemise, nextFrais) => {
+                    setRemiseGlobale(nextRemise);
+                    setFrais(nextFrais);
+                  }}
+                />
+              </div>
+            )}
+
             {/* Totals */}
             {lignes.length > 0 && (
               <div className="mt-6 flex justify-end">
                 <div className="bg-gray-50 p-4 rounded-lg w-96">
                   <div className="space-y-2">
+                    {(montantRemise > 0 || totalFrais > 0) && (
+                      <>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">Total HT lignes:</span>
+                          <span>{formatAmount(totalLignesHT)}</span>
+                        </div>
+                        {montantRemise > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-600">
+                              Remise globale{remiseGlobale?.type === 'percentage' ? ` ${remiseGlobale.valeur}%` : ''}:
+                            </span>
+                            <span>-{formatAmount(montantRemise)}</span>
+                          </div>
+                        )}
+                        {frais.filter(item => item.montantHT > 0).map(item => (
+                          <div key={item.id} className="flex justify-between text-sm">
+                            <span className="text-gray-600">{item.libelle || 'Frais'}:</span>
+                            <span>{formatAmount(item.montantHT)}</span>
+                          </div>
+                        ))}
+                      </>
+                    )}
                     <div className="flex justify-between">
                       <span>Total HT:</span>
-                      <span>{formatCurrency(totalHT)}</span>
+                      <span>{formatAmount(totalHT)}</span>
                     </div>
                     
-                    {/* Tax groups summary */}
-                    {taxGroupsSummary.length > 0 && (
-                      <>
-                        <div className="border-t pt-2">
-                          <div className="flex items-center mb-2">
-                            <Calculator className="w-4 h-4 mr-1 text-gray-600" />
-                            <span className="text-sm font-medium text-gray-700">Taxes par groupe:</span>
-                          </div>
-                          {taxGroupsSummary.map((group, index) => (
-                            <div key={index} className="flex justify-between text-sm">
-                              <span className="text-gray-600">
-                                {group.groupName}:
-                              </span>
-                              <span>{formatCurrency(group.taxAmount)}</span>
-                            </div>
-                          ))}
+                    {/* FODEC and TVA by rate */}
+                    {taxSummary.length > 0 && (
+                      <div className="border-t pt-2">
+                        <div className="flex items-center mb-2">
+                          <Calculator className="w-4 h-4 mr-1 text-gray-600" />
+                          <span className="text-sm font-medium text-gray-700">Taxes:</span>
                         </div>
-                        <div className="flex justify-between text-sm font-medium border-t pt-2">
-                          <span>Total taxes:</span>
-                          <span>{formatCurrency(totalTaxes)}</span>
-                        </div>
-                      </>
+                        {taxSummary.map(group => (
+                          <div key={`${group.type}_${group.rate}`} className="flex justify-between text-sm">
+                            <span className="text-gray-600">
+                              {group.type} {group.rate}%:
+                            </span>
+                            <span>{formatAmount(group.taxAmount)}</span>
+                          </div>
+                        ))}
+                      </div>
                     )}
                     
-                    {taxGroupsSummary.length > 0 && (
-                      <div className="flex justify-between text-sm font-medium border-t pt-2">
-                        <span>Total taxes:</span>
-                        <span>{formatCurrency(totalTaxes)}</span>
+                    {/* Document-level charges */}
+                    {charges.map(charge => (
+                      <div key={charge.taxId} className="flex justify-between text-sm">
+                        <span className="text-gray-600">
+                          {charge.type === 'fixed' ? charge.nom : `${charge.nom} ${charge.taux}%`}:
+                        </span>
+                        <span>{formatAmount(charge.montant)}</span>
                       </div>
-                    )}
+                    ))}
                     
                     <div className="flex justify-between font-bold text-lg border-t pt-2">
                       <span>Total TTC:</span>
-                      <span className={isAvoir ? "text-red-600" : "text-blue-600"}>
-                        {formatCurrency(totalTTC)}
+                      <span className="text-blue-600">
+                        {formatAmount(totalTTC)}
                       </span>
                     </div>
                   </div>
@@ -986,10 +928,10 @@ const FactureForm: React.FC<FactureFormProps> = ({
             </button>
             <button
               onClick={handleSave}
-              className={`px-4 py-2 ${isAvoir ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'} text-white rounded-md flex items-center`}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md flex items-center"
             >
               <Save className="w-4 h-4 mr-2" />
-              {isAvoir ? "Enregistrer l'avoir" : "Enregistrer"}
+              Enregistrer
             </button>
           </div>
         </div>
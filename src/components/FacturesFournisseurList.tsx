@@ -0,0 +1,592 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Search, Filter, Trash2, Edit, CreditCard, Ban, FileText, AlertTriangle, DollarSign, Receipt } from 'lucide-react';
+import { FactureFournisseur, PaiementFournisseur, Produit } from '../types';
+import { formatCurrency } from '../utils/currency';
+import { FactureFournisseurBalance, getFacturesFournisseurBalances } from '../utils/payablesBalance';
+import { useDatabase } from '../hooks/useDatabase';
+import { useNotification } from '../contexts/NotificationContext';
+import PaiementFournisseurForm from './PaiementFournisseurForm';
+
+type ActiveTab = 'factures' | 'paiements';
+
+interface FactureFournisseurRow {
+  id: string;
+  numero: string;
+  date: string;
+  dateEcheance: string;
+  fournisseurId: string;
+  fournisseurNom: string;
+  adresse: string | null;
+  codePostal: string | null;
+  ville: string | null;
+  telephone: string | null;
+  email: string | null;
+  matriculeFiscal: string | null;
+  totalHT: number;
+  totalFodec: number;
+  totalTVA: number;
+  timbre: number | null;
+  totalTTC: number;
+  statut: FactureFournisseur['statut'];
+  notes?: string;
+}
+
+interface LigneFactureFournisseurRow {
+  id: string;
+  produitId: string;
+  ref: string;
+  nom: string;
+  produitPrix: number;
+  unite: string | null;
+  type: Produit['type'];
+  tauxTVA: number;
+  tauxFodec: number;
+  quantite: number;
+  prixUnitaire: number;
+  remise: number | null;
+  montantHT: number;
+  montantFodec: number | null;
+  baseTVA: number | null;
+  montantTVA: number | null;
+  montantTTC: number;
+}
+
+const FacturesFournisseurList: React.FC = () => {
+  const [factures, setFactures] = useState<FactureFournisseur[]>([]);
+  const [paiements, setPaiements] = useState<PaiementFournisseur[]>([]);
+  const [balances, setBalances] = useState<FactureFournisseurBalance[]>([]);
+  const [activeTab, setActiveTab] = useState<ActiveTab>('factures');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [loading, setLoading] = useState(true);
+  const [showPaiementForm, setShowPaiementForm] = useState(false);
+  const [selectedFacture, setSelectedFacture] = useState<FactureFournisseur | null>(null);
+  const [editingPaiement, setEditingPaiement] = useState<PaiementFournisseur | null>(null);
+
+  const { query, deletePaiementFournisseur, cancelFactureFournisseur, deleteFactureFournisseur, isReady } = useDatabase();
+  const { showNotification } = useNotification();
+
+  const loadData = useCallback(async () => {
+    if (!isReady) return;
+
+    try {
+      setLoading(true);
+      const result = await query(`
+        SELECT ff.*, f.nom as fournisseurNom, f.adresse, f.codePostal, f.ville, f.telephone, f.email, f.matriculeFiscal
+        FROM factures_fournisseur ff
+        JOIN fournisseurs f ON ff.fournisseurId = f.id
+        ORDER BY ff.date DESC
+      `);
+
+      const facturesData = await Promise.all(result.map(async (ff: FactureFournisseurRow) => {
+        const lignesResult = await query(`
+          SELECT lff.*, p.ref, p.nom, p.prixUnitaire as produitPrix, p.unite, p.type
+          FROM lignes_facture_fournisseur lff
+          JOIN produits p ON lff.produitId = p.id
+          WHERE lff.factureFournisseurId = ?
+        `, [ff.id]);
+        const commandesResult = await query(
+          'SELECT id, numero FROM commandes_fournisseur WHERE factureFournisseurId = ? ORDER BY numero',
+          [ff.id]
+        );
+
+        return {
+          ...ff,
+          date: new Date(ff.date),
+          dateEcheance: new Date(ff.dateEcheance),
+          fournisseur: {
+            id: ff.fournisseurId,
+            nom: ff.fournisseurNom,
+            adresse: ff.adresse || '',
+            codePostal: ff.codePostal || '',
+            ville: ff.ville || '',
+            telephone: ff.telephone || '',
+            email: ff.email || '',
+            matriculeFiscal: ff.matriculeFiscal || ''
+          },
+          lignes: lignesResult.map((l: LigneFactureFournisseurRow) => ({
+            id: l.id,
+            produit: {
+              id: l.produitId,
+              ref: l.ref,
+              nom: l.nom,
+              prixUnitaire: l.produitPrix,
+              tva: l.tauxTVA,
+              fodecApplicable: l.tauxFodec > 0,
+              tauxFodec: l.tauxFodec || 1,
+              unite: l.unite,
+              type: l.type
+            },
+            quantite: l.quantite,
+            prixUnitaire: l.prixUnitaire,
+            remise: l.remise || 0,
+            montantHT: l.montantHT,
+            montantFodec: l.montantFodec || 0,
+            baseTVA: l.baseTVA || l.montantHT,
+            montantTVA: l.montantTVA || 0,
+            montantTTC: l.montantTTC
+          })),
+          commandes: commandesResult,
+          timbre: ff.timbre || 0
+        };
+      }));
+
+      const paiementsResult = await query('SELECT * FROM paiements_fournisseur ORDER BY date DESC');
+
+      setFactures(facturesData);
+      setPaiements(paiementsResult.map((p: Omit<PaiementFournisseur, 'date'> & { date: string }) => ({ ...p, date: new Date(p.date) })));
+      setBalances(await getFacturesFournisseurBalances(query));
+    } catch (error) {
+      console.error('Error loading supplier invoices:', error);
+      showNotification('Erreur lors du chargement des factures fournisseur', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [isReady, query, showNotification]);
+
+  useEffect(() => {
+    if (isReady) {
+      loadData();
+    }
+  }, [isReady, loadData]);
+
+  useEffect(() => {
+    const handleFocus = () => {
+      if (isReady) {
+        loadData();
+      }
+    };
+
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, [isReady, loadData]);
+
+  const balancesByFacture = React.useMemo(
+    () => new Map(balances.map(b => [b.factureFournisseurId, b])),
+    [balances]
+  );
+
+  const getResteAPayer = (facture: FactureFournisseur) =>
+    balancesByFacture.get(facture.id)?.resteAPayer ?? 0;
+
+  const isOverdue = (facture: FactureFournisseur) =>
+    getResteAPayer(facture) > 0 && facture.dateEcheance.getTime() < Date.now();
+
+  const filteredFactures = factures.filter(facture => {
+    const matchesSearch = facture.numero.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         facture.fournisseur.nom.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         facture.commandes.some(c => c.numero.toLowerCase().includes(searchTerm.toLowerCase()));
+    const matchesStatus = statusFilter === 'all' || facture.statut === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  const filteredPaiements = paiements.filter(paiement =>
+    paiement.factureNumero.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    paiement.fournisseurNom.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (paiement.reference && paiement.reference.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  const stats = React.useMemo(() => {
+    const openBalances = balances.filter(b => b.resteAPayer > 0);
+    const overdueBalances = openBalances.filter(b => b.dateEcheance.getTime() < Date.now());
+    return {
+      totalDu: openBalances.reduce((sum, b) => sum + b.resteAPayer, 0),
+      countDu: openBalances.length,
+      totalEchu: overdueBalances.reduce((sum, b) => sum + b.resteAPayer, 0),
+      countEchu: overdueBalances.length,
+      totalPaye: paiements.filter(p => p.statut === 'valide').reduce((sum, p) => sum + p.montant, 0)
+    };
+  }, [balances, paiements]);
+
+  const getStatusColor = (statut: string) => {
+    switch (statut) {
+      case 'a_payer': return 'bg-yellow-100 text-yellow-800';
+      case 'partiellement_payee': return 'bg-orange-100 text-orange-800';
+      case 'payee': return 'bg-green-100 text-green-800';
+      case 'annulee': return 'bg-red-100 text-red-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getStatusLabel = (statut: string) => {
+    switch (statut) {
+      case 'a_payer': return 'À payer';
+      case 'partiellement_payee': return 'Partiellement payée';
+      case 'payee': return 'Payée';
+      case 'annulee': return 'Annulée';
+      default: return statut;
+    }
+  };
+
+  const getPaiementStatusLabel = (statut: string) => {
+    switch (statut) {
+      case 'valide': return 'Validé';
+      case 'en_attente': return 'En attente';
+      case 'annule': return 'Annulé';
+      default: return statut;
+    }
+  };
+
+  const getMethodLabel = (methode: string) => {
+    switch (methode) {
+      case 'especes': return 'Espèces';
+      case 'cheque': return 'Chèque';
+      case 'virement': return 'Virement';
+      case 'carte': return 'Carte bancaire';
+      case 'autre': return 'Autre';
+      default: return methode;
+    }
+  };
+
+  const handlePay = (facture: FactureFournisseur) => {
+    setSelectedFacture(facture);
+    setEditingPaiement(null);
+    setShowPaiementForm(true);
+  };
+
+  const handleEditPaiement = (paiement: PaiementFournisseur) => {
+    const facture = factures.find(f => f.id === paiement.factureFournisseurId);
+    if (!facture) {
+      showNotification('Facture fournisseur introuvable pour ce paiement', 'error');
+      return;
+    }
+    setSelectedFacture(facture);
+    setEditingPaiement(paiement);
+    setShowPaiementForm(true);
+  };
+
+  const handleSavePaiement = async () => {
+    setShowPaiementForm(false);
+    setSelectedFacture(null);
+    setEditingPaiement(null);
+    showNotification('Paiement fournisseur enregistré', 'success');
+    await loadData();
+  };
+
+  const handleDeletePaiement = async (paiement: PaiementFournisseur) => {
+    if (!window.confirm('Êtes-vous sûr de vouloir supprimer ce paiement ?')) return;
+
+    try {
+      const result = await deletePaiementFournisseur(paiement.id);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      await loadData();
+    } catch (error) {
+      console.error('Error deleting supplier payment:', error);
+      showNotification('Erreur lors de la suppression du paiement', 'error');
+    }
+  };
+
+  const handleCancel = async (facture: FactureFournisseur) => {
+    if ((balancesByFacture.get(facture.id)?.totalPaye || 0) > 0) {
+      showNotification('Cette facture a des paiements, supprimez-les avant de l\'annuler', 'warning');
+      return;
+    }
+    if (!window.confirm(`Annuler la facture fournisseur ${facture.numero} ? Sa TVA ne sera plus déductible.`)) return;
+
+    try {
+      const result = await cancelFactureFournisseur(facture.id);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      await loadData();
+    } catch (error) {
+      console.error('Error cancelling supplier invoice:', error);
+      showNotification('Erreur lors de l\'annulation de la facture fournisseur', 'error');
+    }
+  };
+
+  // Deleting the invoice releases its orders so they can be invoiced again
+  const handleDelete = async (facture: FactureFournisseur) => {
+    if ((balancesByFacture.get(facture.id)?.totalPaye || 0) > 0) {
+      showNotification('Cette facture a des paiements, supprimez-les avant de la supprimer', 'warning');
+      return;
+    }
+    if (!window.confirm(`Êtes-vous sûr de vouloir supprimer la facture fournisseur ${facture.numero} ?`)) return;
+
+    try {
+      const result = await deleteFactureFournisseur(facture.id);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      await loadData();
+    } catch (error) {
+      console.error('Error deleting supplier invoice:', error);
+      showNotification('Erreur lors de la suppression de la facture fournisseur', 'error');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div className="flex items-center space-x-4">
+            <div className="relative">
+              <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Rechercher par numéro, fournisseur ou commande..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent w-80"
+              />
+            </div>
+            {activeTab === 'factures' && (
+              <div className="relative">
+                <Filter className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value)}
+                  className="pl-10 pr-8 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                >
+                  <option value="all">Tous les statuts</option>
+                  <option value="a_payer">À payer</option>
+                  <option value="partiellement_payee">Partiellement payée</option>
+                  <option value="payee">Payée</option>
+                  <option value="annulee">Annulée</option>
+                </select>
+              </div>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setActiveTab('factures')}
+              className={`px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors ${
+                activeTab === 'factures' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <Receipt className="w-5 h-5" />
+              <span>Factures</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('paiements')}
+              className={`px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors ${
+                activeTab === 'paiements' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <CreditCard className="w-5 h-5" />
+              <span>Paiements fournisseurs</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Statistics Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <div className="flex items-center">
+              <div className="bg-indigo-500 p-3 rounded-lg">
+                <FileText className="w-6 h-6 text-white" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-600">Reste à payer</p>
+                <p className="text-xl font-bold text-indigo-600">{formatCurrency(stats.totalDu)}</p>
+                <p className="text-xs text-gray-500">{stats.countDu} facture(s)</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <div className="flex items-center">
+              <div className="bg-red-500 p-3 rounded-lg">
+                <AlertTriangle className="w-6 h-6 text-white" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-600">Échu</p>
+                <p className="text-xl font-bold text-red-600">{formatCurrency(stats.totalEchu)}</p>
+                <p className="text-xs text-gray-500">{stats.countEchu} facture(s) en retard</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <div className="flex items-center">
+              <div className="bg-green-500 p-3 rounded-lg">
+                <DollarSign className="w-6 h-6 text-white" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-600">Total payé</p>
+                <p className="text-xl font-bold text-green-600">{formatCurrency(stats.totalPaye)}</p>
+                <p className="text-xs text-gray-500">{paiements.length} paiement(s)</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {activeTab === 'factures' ? (
+          <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">N° fournisseur</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fournisseur</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Échéance</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total TTC</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payé</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Reste</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Statut</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredFactures.map((facture) => (
+                  <tr key={facture.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-indigo-600">
+                      {facture.numero}
+                      {facture.commandes.length > 0 && (
+                        <div className="text-xs text-gray-500">
+                          {facture.commandes.map(c => c.numero).join(', ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{facture.fournisseur.nom}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{facture.date.toLocaleDateString('fr-FR')}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${isOverdue(facture) ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                      {facture.dateEcheance.toLocaleDateString('fr-FR')}
+                      {isOverdue(facture) && <div className="text-xs">En retard</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {formatCurrency(facture.totalTTC)}
+                      <div className="text-xs text-gray-500">TVA: {formatCurrency(facture.totalTVA)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-600">
+                      {formatCurrency(balancesByFacture.get(facture.id)?.totalPaye || 0)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-orange-600">
+                      {formatCurrency(getResteAPayer(facture))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(facture.statut)}`}>
+                        {getStatusLabel(facture.statut)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex items-center justify-end space-x-2">
+                        {getResteAPayer(facture) > 0 && (
+                          <button
+                            onClick={() => handlePay(facture)}
+                            className="text-green-600 hover:text-green-900 p-1 hover:bg-green-50 rounded transition-colors"
+                            title="Enregistrer un paiement"
+                          >
+                            <CreditCard className="w-4 h-4" />
+                          </button>
+                        )}
+                        {facture.statut === 'a_payer' && (
+                          <button
+                            onClick={() => handleCancel(facture)}
+                            className="text-orange-600 hover:text-orange-900 p-1 hover:bg-orange-50 rounded transition-colors"
+                            title="Annuler la facture"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(facture)}
+                          className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
+                          title="Supprimer"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {filteredFactures.length === 0 && (
+              <div className="text-center py-12">
+                <Receipt className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+                <p className="text-gray-500">
+                  {searchTerm || statusFilter !== 'all'
+                    ? 'Aucune facture fournisseur trouvée avec ces critères'
+                    : 'Aucune facture fournisseur. Saisissez-les depuis les commandes reçues.'}
+                </p>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Facture</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fournisseur</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Montant</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Méthode</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Référence</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Statut</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredPaiements.map((paiement) => (
+                  <tr key={paiement.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{paiement.date.toLocaleDateString('fr-FR')}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-indigo-600">
+                      {paiement.factureNumero}
+                      <div className="text-xs text-gray-500">{formatCurrency(paiement.montantFacture)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{paiement.fournisseurNom}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">{formatCurrency(paiement.montant)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{getMethodLabel(paiement.methode)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{paiement.reference || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{getPaiementStatusLabel(paiement.statut)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button
+                          onClick={() => handleEditPaiement(paiement)}
+                          className="text-indigo-600 hover:text-indigo-900 p-1 hover:bg-indigo-50 rounded transition-colors"
+                          title="Modifier"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeletePaiement(paiement)}
+                          className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
+                          title="Supprimer"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {filteredPaiements.length === 0 && (
+              <div className="text-center py-12">
+                <CreditCard className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+                <p className="text-gray-500">Aucun paiement fournisseur enregistré</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <PaiementFournisseurForm
+        isOpen={showPaiementForm}
+        onClose={() => {
+          setShowPaiementForm(false);
+          setSelectedFacture(null);
+          setEditingPaiement(null);
+        }}
+        onSave={handleSavePaiement}
+        factureFournisseur={selectedFacture}
+        paiement={editingPaiement}
+      />
+    </>
+  );
+};
+
+export default FacturesFournisseurList;
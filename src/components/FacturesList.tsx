@@ -1,12 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Eye, Edit, Trash2, FileDown, Printer, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, CheckSquare, Square, Download, PrinterIcon, CreditCard, RefreshCw, X } from 'lucide-react';
-import { Facture } from '../types';
+import { Plus, Eye, Edit, Trash2, FileDown, Printer, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, CheckSquare, Square, Download, PrinterIcon, CreditCard, RefreshCw, X, FileCode, History } from 'lucide-react';
+import { Facture, Avoir } from '../types';
 import { generateFacturePDF, generateCombinedFacturesPDF } from '../utils/pdfGenerator';
-import { formatCurrency } from '../utils/currency';
+import { generateFactureTEIF } from '../utils/teifGenerator';
+import { formatDocumentAmount } from '../utils/currency';
 import { useDatabase } from '../hooks/useDatabase';
+import { DocumentChain as DocumentChainData, getDocumentChainKey, loadDocumentChains } from '../utils/documentChain';
 import FactureForm from './FactureForm';
+import DocumentChain from './DocumentChain';
 import PaymentForm from './PaymentForm';
+import AvoirForm from './AvoirForm';
 import AvoirsList from './AvoirsList';
+import AuditLogDialog from './AuditLogDialog';
 import { useNotification } from '../contexts/NotificationContext';
 
 interface FacturesListProps {
@@ -42,10 +47,16 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
   const [selectedFactureForAvoir, setSelectedFactureForAvoir] = useState<Facture | null>(null);
   const [showAvoirsList, setShowAvoirsList] = useState(false);
   
+  // Audit trail of the selected facture
+  const [auditFacture, setAuditFacture] = useState<Facture | null>(null);
+  
+  // Devis and delivery notes the factures come from
+  const [documentChains, setDocumentChains] = useState<Map<string, DocumentChainData>>(new Map());
+  
   // Error handling
   const [pdfError, setPdfError] = useState<string | null>(null);
   
-  const { getFactures, savePDF, isReady, query } = useDatabase();
+  const { listFactures, deleteFacture, savePDF, saveTEIF, isReady, query } = useDatabase();
   const { showNotification } = useNotification();
 
   useEffect(() => {
@@ -71,18 +82,8 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
     
     try {
       setLoading(true);
-      const data = await getFactures();
-      // Filter out avoirs (credit notes) which start with AV-
-      const regularFactures = data.filter(f => !f.numero.startsWith('AV-'));
-      
-      // Ensure each facture has proper tax data structure
-      const processedFactures = regularFactures.map(facture => ({
-        ...facture,
-        taxGroupsSummary: facture.taxGroupsSummary || [],
-        totalTaxes: facture.totalTaxes || 0
-      }));
-      
-      setFactures(processedFactures);
+      setFactures(await listFactures());
+      setDocumentChains(await loadDocumentChains(query));
     } catch (error) {
       console.error('Error loading factures:', error);
       alert('Erreur lors du chargement des factures');
@@ -315,6 +316,21 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
     }
   };
 
+  const handleExportTEIF = async (facture: Facture) => {
+    try {
+      const xml = await generateFactureTEIF(facture);
+      const result = await saveTEIF(facture.id, xml, `Facture_${facture.numero}.xml`);
+      if (result.success) {
+        showNotification(`Facture ${facture.numero} exportée au format TEIF (non signée, à valider par TTN)`, 'success');
+      } else if (result.error) {
+        showNotification(result.error, 'error');
+      }
+    } catch (error) {
+      console.error('Error exporting TEIF:', error);
+      showNotification('Erreur lors de l\'export TEIF: ' + (error instanceof Error ? error.message : 'Erreur inconnue'), 'error');
+    }
+  };
+
   const handlePrint = async (facture: Facture) => {
     try {
       setPdfError(null);
@@ -350,7 +366,7 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
     setShowAvoirForm(true);
   };
 
-  const handleAvoirSave = (avoir: Facture) => {
+  const handleAvoirSave = (avoir: Avoir) => {
     // Reload factures to reflect any changes
     setTimeout(() => {
       loadFactures();
@@ -400,11 +416,11 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
     
     if (window.confirm('Êtes-vous sûr de vouloir supprimer cette facture ?')) {
       try {
-        // Delete related records first
-        await query('DELETE FROM payments WHERE factureId = ?', [id]);
-        await query('UPDATE bons_livraison SET factureId = NULL WHERE factureId = ?', [id]);
-        await query('DELETE FROM lignes_facture WHERE factureId = ?', [id]);
-        await query('DELETE FROM factures WHERE id = ?', [id]);
+        // Payments, credit notes and delivery links are removed with it
+        const result = await deleteFacture(id);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
         
         setFactures(factures.filter(f => f.id !== id));
         
@@ -414,7 +430,7 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
         setSelectedFactures(newSelected);
       } catch (error) {
         console.error('Error deleting facture:', error);
-        alert('Erreur lors de la suppression de la facture');
+        showNotification('Erreur lors de la suppression de la facture: ' + (error instanceof Error ? error.message : 'Erreur inconnue'), 'error');
       }
     }
   };
@@ -700,6 +716,7 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
                   )}
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">
                     {facture.numero}
+                    <DocumentChain chain={documentChains.get(getDocumentChainKey('facture', facture.id))} currentId={facture.id} />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     <div>
@@ -723,7 +740,12 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-medium">
-                    {formatCurrency(facture.totalTTC)}
+                    {formatDocumentAmount(facture.totalTTC, facture.devise)}
+                    {(facture.totalCharges || 0) > 0 && (
+                      <div className="text-xs text-gray-500 font-normal">
+                        dont {(facture.charges || []).map(charge => charge.nom).join(', ') || 'charges'}: {formatDocumentAmount(facture.totalCharges || 0, facture.devise)}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(facture.statut)}`}>
@@ -741,13 +763,15 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
                           <CreditCard className="w-4 h-4" />
                         </button>
                       )}
-                      <button
-                        onClick={() => handleCreateAvoir(facture)}
-                        className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
-                        title="Créer un avoir"
-                      >
-                        <RefreshCw className="w-4 h-4" />
-                      </button>
+                      {facture.statut !== 'annulee' && facture.statut !== 'brouillon' && (
+                        <button
+                          onClick={() => handleCreateAvoir(facture)}
+                          className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
+                          title="Créer un avoir"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </button>
+                      )}
                       <button
                         onClick={() => handleDownloadPDF(facture)}
                         className="text-blue-600 hover:text-blue-900 p-1 hover:bg-blue-50 rounded transition-colors"
@@ -755,6 +779,15 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
                       >
                         <FileDown className="w-4 h-4" />
                       </button>
+                      {facture.statut !== 'brouillon' && (
+                        <button
+                          onClick={() => handleExportTEIF(facture)}
+                          className="text-purple-600 hover:text-purple-900 p-1 hover:bg-purple-50 rounded transition-colors"
+                          title="Exporter TEIF non signé (El Fatoora)"
+                        >
+                          <FileCode className="w-4 h-4" />
+                        </button>
+                      )}
                       <button
                         onClick={() => handlePrint(facture)}
                         className="text-green-600 hover:text-green-900 p-1 hover:bg-green-50 rounded transition-colors"
@@ -763,19 +796,31 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
                         <Printer className="w-4 h-4" />
                       </button>
                       <button
-                        onClick={() => handleEdit(facture)}
-                        className="text-indigo-600 hover:text-indigo-900 p-1 hover:bg-indigo-50 rounded transition-colors"
-                        title="Modifier"
+                        onClick={() => setAuditFacture(facture)}
+                        className="text-gray-600 hover:text-gray-900 p-1 hover:bg-gray-50 rounded transition-colors"
+                        title="Historique des modifications"
                       >
-                        <Edit className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(facture.id)}
-                        className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
-                        title="Supprimer"
-                      >
-                        <Trash2 className="w-4 h-4" />
+                        <History className="w-4 h-4" />
                       </button>
+                      {/* Validated invoices are locked, they are cancelled through a credit note */}
+                      {facture.statut === 'brouillon' && (
+                        <>
+                          <button
+                            onClick={() => handleEdit(facture)}
+                            className="text-indigo-600 hover:text-indigo-900 p-1 hover:bg-indigo-50 rounded transition-colors"
+                            title="Modifier"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(facture.id)}
+                            className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
+                            title="Supprimer"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -814,15 +859,14 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
       />
 
       {/* Avoir Form Dialog */}
-      <FactureForm
+      <AvoirForm
         isOpen={showAvoirForm}
         onClose={() => {
           setShowAvoirForm(false);
           setSelectedFactureForAvoir(null);
         }}
         onSave={handleAvoirSave}
-        isAvoir={true}
-        originalFacture={selectedFactureForAvoir}
+        facture={selectedFactureForAvoir}
       />
 
       {/* Payment Form Dialog */}
@@ -840,6 +884,15 @@ const FacturesList: React.FC<FacturesListProps> = ({ onCreateNew, onEdit, onDele
       <AvoirsList
         isOpen={showAvoirsList}
         onClose={() => setShowAvoirsList(false)}
+        onChange={loadFactures}
+      />
+
+      <AuditLogDialog
+        isOpen={auditFacture !== null}
+        onClose={() => setAuditFacture(null)}
+        entityType="facture"
+        entityId={auditFacture?.id || null}
+        title={`Historique de la facture ${auditFacture?.numero || ''}`}
       />
     </>
   );
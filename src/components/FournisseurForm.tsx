@@ -26,7 +26,7 @@ const FournisseurForm: React.FC<FournisseurFormProps> = ({ isOpen, onClose, onSa
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { query, isReady } = useDatabase();
+  const { saveFournisseur, isReady } = useDatabase();
   const { showNotification } = useNotification();
 
   useEffect(() => {
@@ -85,26 +85,9 @@ const FournisseurForm: React.FC<FournisseurFormProps> = ({ isOpen, onClose, onSa
         matriculeFiscal: formData.matriculeFiscal.trim()
       };
 
-      try {
-        await query(
-          `INSERT OR REPLACE INTO fournisseurs 
-           (id, nom, adresse, codePostal, ville, telephone, email, siret, matriculeFiscal)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            fournisseurData.id,
-            fournisseurData.nom,
-            fournisseurData.adresse,
-            fournisseurData.codePostal,
-            fournisseurData.ville,
-            fournisseurData.telephone,
-            fournisseurData.email,
-            fournisseurData.siret,
-            fournisseurData.matriculeFiscal
-          ]
-        );
-      } catch (dbError: any) {
-        console.error('Database error saving fournisseur:', dbError);
-        throw new Error(`Erreur de base de données: ${dbError.message || 'Erreur inconnue'}`);
+      const result = await saveFournisseur(fournisseurData);
+      if (!result.success) {
+        throw new Error(result.error || 'Erreur inconnue');
       }
 
       // Call the onSave callback with the fournisseur data
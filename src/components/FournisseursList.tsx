@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Search, Building2 } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, Building2, Clock } from 'lucide-react';
 import { Fournisseur } from '../types';
+import { formatCurrency } from '../utils/currency';
+import { FournisseurAging, getFacturesFournisseurBalances, getPayablesAging } from '../utils/payablesBalance';
 import { useDatabase } from '../hooks/useDatabase';
 import FournisseurForm from './FournisseurForm';
 import { useNotification } from '../contexts/NotificationContext';
@@ -11,7 +13,9 @@ const FournisseursList: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingFournisseur, setEditingFournisseur] = useState<Fournisseur | null>(null);
-  const { query, isReady } = useDatabase();
+  const [showAging, setShowAging] = useState(false);
+  const [aging, setAging] = useState<FournisseurAging[]>([]);
+  const { query, deleteFournisseur, isReady } = useDatabase();
   const { showNotification } = useNotification();
 
   useEffect(() => {
@@ -38,6 +42,7 @@ const FournisseursList: React.FC = () => {
     try {
       const result = await query('SELECT * FROM fournisseurs ORDER BY nom ASC');
       setFournisseurs(result);
+      setAging(getPayablesAging(await getFacturesFournisseurBalances(query)));
     } catch (error) {
       console.error('Error loading fournisseurs:', error);
       showNotification('Erreur lors du chargement des fournisseurs', 'error');
@@ -93,13 +98,11 @@ const FournisseursList: React.FC = () => {
     
     if (window.confirm('Êtes-vous sûr de vouloir supprimer ce fournisseur ?')) {
       try {
-        // Delete all related commandes first
-        const commandes = await query('SELECT id FROM commandes_fournisseur WHERE fournisseurId = ?', [id]);
-        for (const commande of commandes) {
-          await query('DELETE FROM lignes_commande_fournisseur WHERE commandeId = ?', [commande.id]);
+        // Refused while the supplier has documents
+        const result = await deleteFournisseur(id);
+        if (!result.success) {
+          throw new Error(result.error);
         }
-        await query('DELETE FROM commandes_fournisseur WHERE fournisseurId = ?', [id]);
-        await query('DELETE FROM fournisseurs WHERE id = ?', [id]);
         setFournisseurs(fournisseurs.filter(f => f.id !== id));
       } catch (error) {
         console.error('Error deleting fournisseur:', error);
@@ -113,6 +116,19 @@ const FournisseursList: React.FC = () => {
     setEditingFournisseur(null);
   };
 
+  const filteredAging = aging.filter(row =>
+    row.fournisseurNom.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const agingTotals = filteredAging.reduce((totals, row) => ({
+    nonEchu: totals.nonEchu + row.nonEchu,
+    jours30: totals.jours30 + row.jours30,
+    jours60: totals.jours60 + row.jours60,
+    jours90: totals.jours90 + row.jours90,
+    plus90: totals.plus90 + row.plus90,
+    total: totals.total + row.total
+  }), { nonEchu: 0, jours30: 0, jours60: 0, jours90: 0, plus90: 0, total: 0 });
+
   if (!isReady) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -154,6 +170,15 @@ const FournisseursList: React.FC = () => {
             >
               Actualiser
             </button>
+            <button
+              onClick={() => setShowAging(!showAging)}
+              className={`px-3 py-2 text-sm rounded-lg flex items-center space-x-1 transition-colors ${
+                showAging ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <Clock className="w-4 h-4" />
+              <span>Balance âgée</span>
+            </button>
           </div>
           <button
             onClick={handleCreateNew}
@@ -181,7 +206,54 @@ const FournisseursList: React.FC = () => {
           </div>
         </div>
 
-        {/* Table */}
+        {/* Payables aging */}
+        {showAging ? (
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fournisseur</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Non échu</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">1-30 j</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">31-60 j</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">61-90 j</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">&gt; 90 j</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total dû</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredAging.map(row => (
+                <tr key={row.fournisseurId} className="hover:bg-gray-50">
+                  <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{row.fournisseurNom}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(row.nonEchu)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-yellow-600">{formatCurrency(row.jours30)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-orange-600">{formatCurrency(row.jours60)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-red-500">{formatCurrency(row.jours90)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-red-700">{formatCurrency(row.plus90)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right font-medium text-purple-700">{formatCurrency(row.total)}</td>
+                </tr>
+              ))}
+              {filteredAging.length > 0 && (
+                <tr className="bg-gray-50 font-semibold">
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">Total</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(agingTotals.nonEchu)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-yellow-600">{formatCurrency(agingTotals.jours30)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-orange-600">{formatCurrency(agingTotals.jours60)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-red-500">{formatCurrency(agingTotals.jours90)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-red-700">{formatCurrency(agingTotals.plus90)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-purple-700">{formatCurrency(agingTotals.total)}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+          {filteredAging.length === 0 && (
+            <div className="text-center py-12">
+              <Clock className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-500">Aucune facture fournisseur impayée</p>
+            </div>
+          )}
+        </div>
+        ) : (
         <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
@@ -276,6 +348,7 @@ const FournisseursList: React.FC = () => {
             </div>
           )}
         </div>
+        )}
       </div>
 
       {/* Fournisseur Form Dialog */}
@@ -1,5 +1,6 @@
 import React, { ReactNode } from 'react';
 import { useDatabase } from '../hooks/useDatabase';
+import { useSession } from '../hooks/useSession';
 import { 
   FileText, 
   Receipt, 
@@ -12,7 +13,10 @@ import {
   Building2,
   BarChart3,
   CreditCard,
-  Boxes
+  Boxes,
+  FileInput,
+  LogOut,
+  UserCircle
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -24,12 +28,14 @@ interface LayoutProps {
 const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange }) => {
   const [activationStatus, setActivationStatus] = React.useState<any>(null);
   const { checkActivation } = useDatabase();
+  const { session, canAccess, logout } = useSession();
   const menuItems = [
     { id: 'dashboard', label: 'Tableau de bord', icon: Home },
     { id: 'factures', label: 'Factures', icon: Receipt },
     { id: 'devis', label: 'Devis', icon: FileText },
     { id: 'bons-livraison', label: 'Bons de livraison', icon: Truck },
     { id: 'commandes-fournisseur', label: 'Commandes fournisseur', icon: ShoppingCart },
+    { id: 'factures-fournisseur', label: 'Factures fournisseur', icon: FileInput },
     { id: 'paiements', label: 'Paiements', icon: CreditCard },
     { id: 'clients', label: 'Clients', icon: Users },
     { id: 'fournisseurs', label: 'Fournisseurs', icon: Building2 },
@@ -37,7 +43,7 @@ const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange })
     { id: 'stock', label: 'Gestion Stock', icon: Boxes },
     { id: 'rapport', label: 'Rapports', icon: BarChart3 },
     { id: 'parametres', label: 'Paramètres', icon: Settings },
-  ];
+  ].filter(item => canAccess(item.id));
 
   React.useEffect(() => {
     const loadActivationStatus = async () => {
@@ -106,13 +112,30 @@ const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange })
             <h2 className="text-2xl font-semibold text-gray-800">
               {menuItems.find(item => item.id === currentPage)?.label}
             </h2>
-            <div className="text-sm text-gray-500">
-              {new Date().toLocaleDateString('fr-FR', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-              })}
+            <div className="flex items-center space-x-4">
+              <div className="text-sm text-gray-500">
+                {new Date().toLocaleDateString('fr-FR', {
+                  weekday: 'long',
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric'
+                })}
+              </div>
+              {session.user && (
+                <>
+                  <div className="flex items-center text-sm text-gray-700">
+                    <UserCircle className="w-5 h-5 mr-1 text-gray-500" />
+                    {session.user.nom}
+                  </div>
+                  <button
+                    onClick={logout}
+                    className="flex items-center text-sm text-gray-500 hover:text-red-600"
+                    title="Se déconnecter"
+                  >
+                    <LogOut className="w-4 h-4" />
+                  </button>
+                </>
+              )}
             </div>
           </div>
         </header>
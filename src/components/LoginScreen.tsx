@@ -1,19 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { Lock, Eye, EyeOff, Shield } from 'lucide-react';
+import { Session } from '../types';
 import { useDatabase } from '../hooks/useDatabase';
 
-interface PasswordProtectionProps {
+interface LoginScreenProps {
   isOpen: boolean;
-  onUnlock: () => void;
+  onLogin: (session: Session) => void;
 }
 
-const PasswordProtection: React.FC<PasswordProtectionProps> = ({ isOpen, onUnlock }) => {
+const LoginScreen: React.FC<LoginScreenProps> = ({ isOpen, onLogin }) => {
+  const [login, setLogin] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [attempts, setAttempts] = useState(0);
   const [isLocked, setIsLocked] = useState(false);
-  const { query, isReady } = useDatabase();
+  const { login: openSession } = useDatabase();
 
   useEffect(() => {
     if (attempts >= 3) {
@@ -33,50 +35,31 @@ const PasswordProtection: React.FC<PasswordProtectionProps> = ({ isOpen, onUnloc
       return;
     }
 
-    if (!password.trim()) {
-      setError('Veuillez entrer le mot de passe');
+    if (!login.trim() || !password.trim()) {
+      setError('Veuillez entrer votre identifiant et votre mot de passe');
       return;
     }
 
     try {
-      // Check master password first
-      if (password === 'TOPPACK') {
-        onUnlock();
+      // Passwords are checked by the main process, which keeps the session
+      const result = await openSession(login.trim(), password);
+      if (result.success && result.session) {
+        onLogin(result.session);
         return;
       }
 
-      // Check user-defined password
-      if (isReady && query) {
-        const result = await query('SELECT value FROM settings WHERE key = ?', ['appPassword']);
-        if (result.length > 0) {
-          const savedPassword = result[0].value;
-          if (password === savedPassword) {
-            onUnlock();
-            return;
-          }
-        }
-      } else {
-        // For web version, check localStorage
-        const savedPassword = localStorage.getItem('appPassword');
-        if (savedPassword && password === savedPassword) {
-          onUnlock();
-          return;
-        }
-      }
-
-      // If we get here, password is incorrect
-      setError('Mot de passe incorrect');
+      setError(result.error || 'Identifiant ou mot de passe incorrect');
       setAttempts(prev => prev + 1);
       setPassword('');
     } catch (error) {
-      console.error('Error checking password:', error);
+      console.error('Error logging in:', error);
       setError('Erreur lors de la vérification du mot de passe');
     }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
-      handleSubmit(e as any);
+      handleSubmit(e);
     }
   };
 
@@ -90,10 +73,28 @@ const PasswordProtection: React.FC<PasswordProtectionProps> = ({ isOpen, onUnloc
             <Lock className="w-10 h-10 text-blue-600" />
           </div>
           <h2 className="text-2xl font-bold text-gray-800 mb-2">Application Protégée</h2>
-          <p className="text-gray-600">Veuillez entrer le mot de passe pour accéder à Facturation Pro</p>
+          <p className="text-gray-600">Veuillez vous identifier pour accéder à Facturation Pro</p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Identifiant
+            </label>
+            <input
+              type="text"
+              value={login}
+              onChange={(e) => {
+                setLogin(e.target.value);
+                setError('');
+              }}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Entrez votre identifiant"
+              disabled={isLocked}
+              autoFocus
+            />
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Mot de passe
@@ -139,10 +140,10 @@ const PasswordProtection: React.FC<PasswordProtectionProps> = ({ isOpen, onUnloc
 
           <button
             type="submit"
-            disabled={isLocked || !password.trim()}
+            disabled={isLocked || !login.trim() || !password.trim()}
             className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
-            {isLocked ? 'Verrouillé...' : 'Déverrouiller'}
+            {isLocked ? 'Verrouillé...' : 'Se connecter'}
           </button>
         </form>
 
@@ -152,7 +153,7 @@ const PasswordProtection: React.FC<PasswordProtectionProps> = ({ isOpen, onUnloc
             <div>
               <p className="text-sm text-blue-800 font-medium">Information de sécurité</p>
               <p className="text-xs text-blue-700 mt-1">
-                Votre mot de passe protège l'accès à toutes vos données commerciales. 
+                Chaque utilisateur n'accède qu'aux pages autorisées par son profil. 
                 Après 3 tentatives incorrectes, l'accès sera temporairement bloqué.
               </p>
             </div>
@@ -163,4 +164,4 @@ const PasswordProtection: React.FC<PasswordProtectionProps> = ({ isOpen, onUnloc
   );
 };
 
-export default PasswordProtection;
\ No newline at end of file
+export default LoginScreen;
\ No newline at end of file
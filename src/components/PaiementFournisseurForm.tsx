@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Save, CreditCard, FileText, Building2, Calculator } from 'lucide-react';
+import { PaiementFournisseur, FactureFournisseur } from '../types';
+import { formatCurrency } from '../utils/currency';
+import { getFactureFournisseurBalance } from '../utils/payablesBalance';
+import { toMillimes } from '../utils/money';
+import { useDatabase } from '../hooks/useDatabase';
+import { useNotification } from '../contexts/NotificationContext';
+import { v4 as uuidv4 } from 'uuid';
+
+interface PaiementFournisseurFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (paiement: PaiementFournisseur) => void;
+  factureFournisseur: FactureFournisseur | null;
+  paiement?: PaiementFournisseur | null;
+}
+
+const PaiementFournisseurForm: React.FC<PaiementFournisseurFormProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  factureFournisseur,
+  paiement
+}) => {
+  const [formData, setFormData] = useState({
+    montant: 0,
+    date: new Date().toISOString().split('T')[0],
+    methode: 'virement' as PaiementFournisseur['methode'],
+    reference: '',
+    notes: '',
+    statut: 'valide' as PaiementFournisseur['statut']
+  });
+  const [resteAPayer, setResteAPayer] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { query, savePaiementFournisseur, isReady } = useDatabase();
+  const { showNotification } = useNotification();
+
+  // Outstanding amount, the edited payment itself still being available
+  const loadResteAPayer = useCallback(async () => {
+    if (!factureFournisseur) return;
+
+    try {
+      const balance = await getFactureFournisseurBalance(factureFournisseur.id, query);
+      const montantPaiement = paiement && paiement.statut === 'valide' ? paiement.montant : 0;
+      const reste = balance ? balance.resteAPayer + montantPaiement : factureFournisseur.totalTTC;
+      setResteAPayer(reste);
+
+      setFormData({
+        montant: paiement ? paiement.montant : Math.round(reste * 1000) / 1000,
+        date: (paiement ? paiement.date : new Date()).toISOString().split('T')[0],
+        methode: paiement?.methode || 'virement',
+        reference: paiement?.reference || '',
+        notes: paiement?.notes || '',
+        statut: paiement?.statut || 'valide'
+      });
+    } catch (error) {
+      console.error('Error loading supplier invoice balance:', error);
+      setResteAPayer(null);
+    }
+  }, [factureFournisseur, paiement, query]);
+
+  useEffect(() => {
+    if (isOpen && isReady && factureFournisseur) {
+      loadResteAPayer();
+    }
+  }, [isOpen, isReady, factureFournisseur, paiement, loadResteAPayer]);
+
+  const handleChange = (field: string, value: string | number) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (isSubmitting || !isReady || !factureFournisseur) return;
+
+    if (formData.montant <= 0) {
+      showNotification('Le montant doit être supérieur à 0', 'warning');
+      return;
+    }
+
+    const montantMax = resteAPayer ?? factureFournisseur.totalTTC;
+    if (formData.statut === 'valide' && toMillimes(formData.montant) > toMillimes(montantMax)) {
+      showNotification(`Le montant ne peut pas être supérieur au reste à payer (${formatCurrency(montantMax)})`, 'warning');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const paiementData: PaiementFournisseur = {
+        id: paiement?.id || uuidv4(),
+        factureFournisseurId: factureFournisseur.id,
+        factureNumero: factureFournisseur.numero,
+        fournisseurId: factureFournisseur.fournisseur.id,
+        fournisseurNom: factureFournisseur.fournisseur.nom,
+        montant: formData.montant,
+        montantFacture: factureFournisseur.totalTTC,
+        date: new Date(formData.date),
+        methode: formData.methode,
+        reference: formData.reference.trim() || undefined,
+        notes: formData.notes.trim() || undefined,
+        statut: formData.statut
+      };
+
+      // The main process stamps the user and updates the supplier invoice status
+      const result = await savePaiementFournisseur(paiementData);
+      if (!result.success) {
+        throw new Error(result.error || 'Erreur inconnue');
+      }
+
+      onSave(paiementData);
+    } catch (error) {
+      console.error('Error saving supplier payment:', error);
+      showNotification('Erreur lors de la sauvegarde du paiement: ' + (error instanceof Error ? error.message : 'Erreur inconnue'), 'error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen || !factureFournisseur) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold flex items-center">
+            <CreditCard className="w-6 h-6 mr-2 text-indigo-600" />
+            {paiement ? 'Modifier le paiement fournisseur' : 'Nouveau paiement fournisseur'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            disabled={isSubmitting}
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 overflow-y-auto max-h-[calc(90vh-140px)]">
+          <div className="space-y-6">
+            {/* Facture fournisseur */}
+            <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex items-center">
+                  <FileText className="w-5 h-5 text-indigo-600 mr-2" />
+                  <div>
+                    <h4 className="font-medium text-indigo-900">{factureFournisseur.numero}</h4>
+                    <p className="text-sm text-indigo-700">
+                      <Building2 className="w-4 h-4 inline mr-1" />
+                      {factureFournisseur.fournisseur.nom}
+                    </p>
+                    <p className="text-xs text-indigo-600">
+                      Échéance: {factureFournisseur.dateEcheance.toLocaleDateString('fr-FR')}
+                    </p>
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="text-lg font-bold text-indigo-700">
+                    {formatCurrency(factureFournisseur.totalTTC)}
+                  </div>
+                  <div className="text-xs text-indigo-600">Montant total</div>
+                  {resteAPayer !== null && resteAPayer < factureFournisseur.totalTTC && (
+                    <div className="text-sm font-medium text-orange-600 mt-1">
+                      Reste à payer: {formatCurrency(resteAPayer)}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Payment Details */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Montant du paiement *
+                </label>
+                <div className="relative">
+                  <Calculator className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                  <input
+                    type="number"
+                    value={formData.montant}
+                    onChange={(e) => {
+                      const parsedValue = parseFloat(e.target.value);
+                      handleChange('montant', isNaN(parsedValue) ? 0 : parsedValue);
+                    }}
+                    className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    step="0.001"
+                    min="0"
+                    max={resteAPayer ?? factureFournisseur.totalTTC}
+                    required
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Date du paiement *
+                </label>
+                <input
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => handleChange('date', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  required
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Méthode de paiement *
+                </label>
+                <select
+                  value={formData.methode}
+                  onChange={(e) => handleChange('methode', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  required
+                  disabled={isSubmitting}
+                >
+                  <option value="virement">Virement bancaire</option>
+                  <option value="cheque">Chèque</option>
+                  <option value="especes">Espèces</option>
+                  <option value="carte">Carte bancaire</option>
+                  <option value="autre">Autre</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Statut
+                </label>
+                <select
+                  value={formData.statut}
+                  onChange={(e) => handleChange('statut', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  disabled={isSubmitting}
+                >
+                  <option value="valide">Validé</option>
+                  <option value="en_attente">En attente</option>
+                  <option value="annule">Annulé</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Référence de paiement
+              </label>
+              <input
+                type="text"
+                value={formData.reference}
+                onChange={(e) => handleChange('reference', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="Numéro de chèque, référence virement, etc."
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => handleChange('notes', e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                placeholder="Notes additionnelles..."
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-4 mt-6 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              disabled={isSubmitting}
+            >
+              Annuler
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isSubmitting || !isReady}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {isSubmitting ? 'Enregistrement...' : 'Enregistrer le paiement'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PaiementFournisseurForm;
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save, Search, CreditCard, FileText, User, Calculator } from 'lucide-react';
 import { Payment, Facture, Client } from '../types';
-import { formatCurrency } from '../utils/currency';
+import { formatCurrency, formatDocumentAmount, getMoneyDecimals } from '../utils/currency';
+import { getFactureBalance } from '../utils/invoiceBalance';
+import { toMillimes } from '../utils/money';
+import { RETENUE_RATES, SEUIL_RETENUE, isRetenueApplicable, splitMontantBrut } from '../utils/retenueSource';
 import { useDatabase } from '../hooks/useDatabase';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -23,6 +26,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
   const [formData, setFormData] = useState({
     factureId: '',
     montant: 0,
+    tauxRetenue: 0,
+    montantRetenue: 0,
     date: new Date().toISOString().split('T')[0],
     methode: 'virement' as 'especes' | 'cheque' | 'virement' | 'carte' | 'autre',
     reference: '',
@@ -36,8 +41,9 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
   const [showFactureDropdown, setShowFactureDropdown] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [searchEnabled, setSearchEnabled] = useState(true);
+  const [resteAPayer, setResteAPayer] = useState<number | null>(null);
 
-  const { query, isElectron, isReady } = useDatabase();
+  const { query, savePayment, isElectron, isReady } = useDatabase();
 
   useEffect(() => {
     if (isOpen && isReady) {
@@ -48,6 +54,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
         setFormData({
           factureId: payment.factureId,
           montant: payment.montant,
+          tauxRetenue: payment.tauxRetenue || 0,
+          montantRetenue: payment.montantRetenue || 0,
           date: payment.date.toISOString().split('T')[0],
           methode: payment.methode,
           reference: payment.reference || '',
@@ -58,11 +66,14 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
         setSearchEnabled(false);
         // Load the selected facture details
         loadSelectedFacture(payment.factureId);
+        loadResteAPayer(payment.factureId, false);
       } else if (preselectedFacture) {
         // New payment with preselected facture
         setFormData({
           factureId: preselectedFacture.id,
           montant: preselectedFacture.totalTTC,
+          tauxRetenue: 0,
+          montantRetenue: 0,
           date: new Date().toISOString().split('T')[0],
           methode: 'virement',
           reference: '',
@@ -72,6 +83,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
         setSelectedFacture(preselectedFacture);
         setFactureSearchTerm(preselectedFacture.numero);
         setSearchEnabled(false);
+        loadResteAPayer(preselectedFacture.id, true);
       } else {
         // New payment without preselection
         resetForm();
@@ -84,6 +96,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     setFormData({
       factureId: '',
       montant: 0,
+      tauxRetenue: 0,
+      montantRetenue: 0,
       date: new Date().toISOString().split('T')[0],
       methode: 'virement',
       reference: '',
@@ -94,6 +108,36 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     setFactureSearchTerm('');
     setShowFactureDropdown(false);
     setSearchEnabled(true);
+    setResteAPayer(null);
+  };
+
+  // Outstanding amount of the invoice after credit notes and other payments
+  const loadResteAPayer = async (factureId: string, useAsAmount: boolean) => {
+    if (!isElectron) {
+      setResteAPayer(null);
+      return;
+    }
+
+    try {
+      const balance = await getFactureBalance(factureId, query);
+      if (!balance) return;
+
+      // The payment being edited is already counted in the balance
+      const reste = balance.resteAPayer +
+        (payment && payment.statut === 'valide' ? payment.montant + (payment.montantRetenue || 0) : 0);
+      setResteAPayer(reste);
+      if (useAsAmount) {
+        setFormData(prev => ({ ...prev, ...settleMontantBrut(reste, prev.tauxRetenue, balance.devise) }));
+      }
+    } catch (error) {
+      console.error('Error loading facture balance:', error);
+    }
+  };
+
+  // Net payment and withheld amount for a gross settlement
+  const settleMontantBrut = (montantBrut: number, tauxRetenue: number, devise?: string) => {
+    const { montantNet, montantRetenue } = splitMontantBrut(montantBrut, tauxRetenue, getMoneyDecimals(devise));
+    return { montant: montantNet, montantRetenue };
   };
 
   const loadFactures = async () => {
@@ -202,7 +246,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     setShowFactureDropdown(true);
     if (!value.trim()) {
       setSelectedFacture(null);
-      setFormData(prev => ({ ...prev, factureId: '', montant: 0 }));
+      setResteAPayer(null);
+      setFormData(prev => ({ ...prev, factureId: '', montant: 0, montantRetenue: 0 }));
     }
   };
 
@@ -212,9 +257,10 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     setFormData(prev => ({ 
       ...prev, 
       factureId: facture.id,
-      montant: facture.totalTTC // Default to full amount
+      ...settleMontantBrut(facture.totalTTC, prev.tauxRetenue, facture.devise) // Default to full amount
     }));
     setShowFactureDropdown(false);
+    loadResteAPayer(facture.id, true);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -232,8 +278,17 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
       return;
     }
 
-    if (formData.montant > selectedFacture.totalTTC) {
-      alert('Le montant ne peut pas être supérieur au montant de la facture');
+    if (formData.montantRetenue < 0) {
+      alert('Le montant retenu ne peut pas être négatif');
+      return;
+    }
+
+    // The withheld amount settles the invoice together with the payment
+    const montantMax = resteAPayer ?? selectedFacture.totalTTC;
+    if (toMillimes(formData.montant + formData.montantRetenue) > toMillimes(montantMax)) {
+      alert(resteAPayer !== null
+        ? `Le montant réglé (paiement + retenue) ne peut pas être supérieur au reste à payer (${formatDocumentAmount(resteAPayer, selectedFacture.devise)})`
+        : 'Le montant réglé (paiement + retenue) ne peut pas être supérieur au montant de la facture');
       return;
     }
 
@@ -248,6 +303,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
         clientNom: selectedFacture.client.nom,
         montant: formData.montant,
         montantFacture: selectedFacture.totalTTC,
+        tauxRetenue: formData.tauxRetenue,
+        montantRetenue: formData.tauxRetenue > 0 ? formData.montantRetenue : 0,
         date: new Date(formData.date),
         methode: formData.methode,
         reference: formData.reference.trim() || undefined,
@@ -257,29 +314,10 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
 
       // Save payment to database
       if (isElectron) {
-        await query(
-          `INSERT OR REPLACE INTO payments 
-           (id, factureId, factureNumero, clientId, clientNom, montant, montantFacture, date, methode, reference, notes, statut)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            paymentData.id,
-            paymentData.factureId,
-            paymentData.factureNumero,
-            paymentData.clientId,
-            paymentData.clientNom,
-            paymentData.montant,
-            paymentData.montantFacture,
-            paymentData.date.toISOString(),
-            paymentData.methode,
-            paymentData.reference || null,
-            paymentData.notes || null,
-            paymentData.statut
-          ]
-        );
-
-        // Update facture status if fully paid
-        if (paymentData.montant >= paymentData.montantFacture && paymentData.statut === 'valide') {
-          await query('UPDATE factures SET statut = ? WHERE id = ?', ['payee', paymentData.factureId]);
+        // The main process stamps the user and updates the facture status
+        const result = await savePayment(paymentData);
+        if (!result.success) {
+          throw new Error(result.error || 'Erreur lors de la sauvegarde du paiement');
         }
       } else {
         // Save to localStorage for web version
@@ -290,7 +328,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
         localStorage.setItem('payments', JSON.stringify(updatedPayments));
 
         // Update facture status in localStorage
-        if (paymentData.montant >= paymentData.montantFacture && paymentData.statut === 'valide') {
+        if (paymentData.montant + (paymentData.montantRetenue || 0) >= paymentData.montantFacture && paymentData.statut === 'valide') {
           const existingFactures = JSON.parse(localStorage.getItem('factures') || '[]');
           const updatedFactures = existingFactures.map((f: Facture) => 
             f.id === paymentData.factureId ? { ...f, statut: 'payee' } : f
@@ -303,7 +341,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
       resetForm();
     } catch (error) {
       console.error('Error saving payment:', error);
-      alert('Erreur lors de la sauvegarde du paiement');
+      alert(error instanceof Error ? error.message : 'Erreur lors de la sauvegarde du paiement');
     } finally {
       setIsSubmitting(false);
     }
@@ -313,6 +351,15 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  // Keep the gross settled amount and split it again with the new rate
+  const handleTauxRetenueChange = (tauxRetenue: number) => {
+    setFormData(prev => ({
+      ...prev,
+      tauxRetenue,
+      ...settleMontantBrut((prev.montant || 0) + prev.montantRetenue, tauxRetenue, selectedFacture?.devise)
+    }));
+  };
+
   const getMethodLabel = (methode: string) => {
     switch (methode) {
       case 'especes': return 'Espèces';
@@ -385,7 +432,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
                             </div>
                             <div className="text-right">
                               <div className="font-medium text-green-600">
-                                {formatCurrency(facture.totalTTC)}
+                                {formatDocumentAmount(facture.totalTTC, facture.devise)}
                               </div>
                               <div className={`text-xs ${
                                 facture.dateEcheance < new Date() ? 'text-red-500' : 'text-gray-500'
@@ -425,9 +472,14 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
                   </div>
                   <div className="text-right">
                     <div className="text-lg font-bold text-green-700">
-                      {formatCurrency(selectedFacture.totalTTC)}
+                      {formatDocumentAmount(selectedFacture.totalTTC, selectedFacture.devise)}
                     </div>
                     <div className="text-xs text-green-600">Montant total</div>
+                    {resteAPayer !== null && resteAPayer < selectedFacture.totalTTC && (
+                      <div className="text-sm font-medium text-orange-600 mt-1">
+                        Reste à payer: {formatDocumentAmount(resteAPayer, selectedFacture.devise)}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -452,14 +504,14 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
                     className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 focus:border-transparent"
                     step="0.001"
                     min="0"
-                    max={selectedFacture?.totalTTC}
+                    max={resteAPayer ?? selectedFacture?.totalTTC}
                     required
                     disabled={isSubmitting}
                   />
                 </div>
-                {selectedFacture && formData.montant > 0 && formData.montant < selectedFacture.totalTTC && (
+                {selectedFacture && formData.montant > 0 && toMillimes(formData.montant + formData.montantRetenue) < toMillimes(resteAPayer ?? selectedFacture.totalTTC) && (
                   <p className="text-xs text-orange-600 mt-1">
-                    Paiement partiel ({Math.round((formData.montant / selectedFacture.totalTTC) * 100)}%)
+                    Paiement partiel ({Math.round(((formData.montant + formData.montantRetenue) / selectedFacture.totalTTC) * 100)}%)
                   </p>
                 )}
               </div>
@@ -512,6 +564,51 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
                   <option value="annule">Annulé</option>
                 </select>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Retenue à la source
+                </label>
+                <select
+                  value={formData.tauxRetenue}
+                  onChange={(e) => handleTauxRetenueChange(parseFloat(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  disabled={isSubmitting}
+                >
+                  <option value={0}>Aucune</option>
+                  {RETENUE_RATES.map(rate => (
+                    <option key={rate} value={rate}>{rate.toString().replace('.', ',')} %</option>
+                  ))}
+                </select>
+                {selectedFacture && formData.tauxRetenue > 0 && !isRetenueApplicable(selectedFacture.totalTTC, selectedFacture.tauxChange) && (
+                  <p className="text-xs text-orange-600 mt-1">
+                    Facture inférieure à {formatCurrency(SEUIL_RETENUE)} : normalement non soumise à retenue
+                  </p>
+                )}
+              </div>
+
+              {formData.tauxRetenue > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Montant retenu
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.montantRetenue}
+                    onChange={(e) => {
+                      const parsedValue = parseFloat(e.target.value);
+                      handleChange('montantRetenue', isNaN(parsedValue) ? 0 : parsedValue);
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    step="0.001"
+                    min="0"
+                    disabled={isSubmitting}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Montant brut réglé : {formatDocumentAmount((formData.montant || 0) + formData.montantRetenue, selectedFacture?.devise)}
+                  </p>
+                </div>
+              )}
             </div>
 
             <div>
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, CreditCard, Eye, FileText, Calendar, DollarSign } from 'lucide-react';
-import { Payment, Facture } from '../types';
-import { formatCurrency } from '../utils/currency';
+import { Plus, Edit, Trash2, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, CreditCard, Eye, FileText, Calendar, DollarSign, RefreshCw, Users, Receipt } from 'lucide-react';
+import { Payment, Facture, Client } from '../types';
+import { formatCurrency, formatDocumentAmount, toBaseCurrency } from '../utils/currency';
+import { FactureBalance, getFacturesBalances, getClientBalances } from '../utils/invoiceBalance';
+import { sumMoney, toMillimes } from '../utils/money';
+import { generateCertificatRetenuePDF } from '../utils/pdfGenerator';
 import { useDatabase } from '../hooks/useDatabase';
 import PaymentForm from './PaymentForm';
 import { useNotification } from '../contexts/NotificationContext';
@@ -17,8 +20,9 @@ const PaymentsList: React.FC = () => {
   const [showForm, setShowForm] = useState(false);
   const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
   const [selectedFacture, setSelectedFacture] = useState<Facture | null>(null);
+  const [balances, setBalances] = useState<FactureBalance[]>([]);
   
-  const { query, isElectron } = useDatabase();
+  const { query, isElectron, savePDF, deletePayment } = useDatabase();
   const { showNotification } = useNotification();
 
   useEffect(() => {
@@ -39,6 +43,7 @@ const PaymentsList: React.FC = () => {
       if (isElectron) {
         const result = await query(`
           SELECT p.*, f.numero as factureNumero, f.totalTTC as montantFacture, 
+                 COALESCE(f.devise, 'TND') as devise, COALESCE(f.tauxChange, 1) as tauxChange,
                  c.nom as clientNom
           FROM payments p
           JOIN factures f ON p.factureId = f.id
@@ -51,6 +56,7 @@ const PaymentsList: React.FC = () => {
           date: new Date(p.date)
         }));
         setPayments(paymentsData);
+        setBalances(await getFacturesBalances(query));
       } else {
         const savedPayments = localStorage.getItem('payments');
         if (savedPayments) {
@@ -220,7 +226,11 @@ const PaymentsList: React.FC = () => {
     if (window.confirm('Êtes-vous sûr de vouloir supprimer ce paiement ?')) {
       try {
         if (isElectron) {
-          await query('DELETE FROM payments WHERE id = ?', [id]);
+          const result = await deletePayment(id);
+          if (!result.success) {
+            throw new Error(result.error);
+          }
+          setBalances(await getFacturesBalances(query));
         } else {
           const existingPayments = JSON.parse(localStorage.getItem('payments') || '[]');
           const updatedPayments = existingPayments.filter((p: any) => p.id !== id);
@@ -235,23 +245,75 @@ const PaymentsList: React.FC = () => {
     }
   };
 
-  // Calculate statistics
+  const handleCertificatRetenue = async (payment: Payment) => {
+    try {
+      let client: Client | undefined;
+      if (isElectron) {
+        const result = await query('SELECT * FROM clients WHERE id = ?', [payment.clientId]);
+        client = result[0];
+      } else {
+        const savedClients = JSON.parse(localStorage.getItem('clients') || '[]');
+        client = savedClients.find((c: Client) => c.id === payment.clientId);
+      }
+      if (!client) {
+        showNotification('Client introuvable pour ce paiement', 'error');
+        return;
+      }
+
+      const doc = await generateCertificatRetenuePDF(payment, client);
+      const filename = `Certificat_Retenue_${payment.factureNumero}.pdf`;
+
+      if (isElectron) {
+        const pdfData = doc.output('arraybuffer');
+        const result = await savePDF(new Uint8Array(pdfData), filename);
+        if (result.success) {
+          showNotification('Certificat de retenue enregistré', 'success');
+        }
+      } else {
+        doc.save(filename);
+      }
+    } catch (error) {
+      console.error('Error generating certificat de retenue:', error);
+      showNotification('Erreur lors de la génération du certificat de retenue', 'error');
+    }
+  };
+
+  // Calculate statistics, in dinars
   const stats = React.useMemo(() => {
-    const totalPayments = filteredPayments.reduce((sum, p) => sum + p.montant, 0);
+    const totalDinars = (list: Payment[]) => sumMoney(list.map(p => toBaseCurrency(p.montant, p.tauxChange)));
+    const totalPayments = totalDinars(filteredPayments);
     const validPayments = filteredPayments.filter(p => p.statut === 'valide');
-    const totalValidPayments = validPayments.reduce((sum, p) => sum + p.montant, 0);
+    const totalValidPayments = totalDinars(validPayments);
     const pendingPayments = filteredPayments.filter(p => p.statut === 'en_attente');
-    const totalPendingPayments = pendingPayments.reduce((sum, p) => sum + p.montant, 0);
+    const totalPendingPayments = totalDinars(pendingPayments);
+
+    const totalAvoirs = sumMoney(balances.map(b => toBaseCurrency(b.totalAvoirs, b.tauxChange)));
+    const openBalances = balances.filter(b => b.statut !== 'annulee' && b.statut !== 'brouillon');
+    const totalReste = sumMoney(openBalances.map(b => toBaseCurrency(b.resteAPayer, b.tauxChange)));
 
     return {
       totalPayments,
       totalValidPayments,
       totalPendingPayments,
+      totalAvoirs,
+      totalReste,
       countValid: validPayments.length,
       countPending: pendingPayments.length,
-      countTotal: filteredPayments.length
+      countTotal: filteredPayments.length,
+      countOpen: openBalances.filter(b => b.resteAPayer > 0).length
     };
-  }, [filteredPayments]);
+  }, [filteredPayments, balances]);
+
+  const balancesByFacture = React.useMemo(
+    () => new Map(balances.map(b => [b.factureId, b])),
+    [balances]
+  );
+
+  // Draft and cancelled invoices are not owed by the client
+  const clientBalances = React.useMemo(
+    () => getClientBalances(balances.filter(b => b.statut !== 'annulee' && b.statut !== 'brouillon')),
+    [balances]
+  );
 
   if (loading) {
     return (
@@ -322,7 +384,7 @@ const PaymentsList: React.FC = () => {
         </div>
 
         {/* Statistics Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
           <div className="bg-white rounded-lg shadow-sm border p-6">
             <div className="flex items-center">
               <div className="bg-green-500 p-3 rounded-lg">
@@ -376,6 +438,19 @@ const PaymentsList: React.FC = () => {
               </div>
             </div>
           </div>
+
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <div className="flex items-center">
+              <div className="bg-red-500 p-3 rounded-lg">
+                <RefreshCw className="w-6 h-6 text-white" />
+              </div>
+              <div className="ml-4">
+                <p className="text-sm font-medium text-gray-600">Reste à encaisser</p>
+                <p className="text-xl font-bold text-red-600">{formatCurrency(stats.totalReste)}</p>
+                <p className="text-xs text-gray-500">Avoirs: {formatCurrency(stats.totalAvoirs)}</p>
+              </div>
+            </div>
+          </div>
         </div>
 
         {/* Table */}
@@ -442,17 +517,27 @@ const PaymentsList: React.FC = () => {
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">
                     {payment.factureNumero}
                     <div className="text-xs text-gray-500">
-                      {formatCurrency(payment.montantFacture)}
+                      {formatDocumentAmount(payment.montantFacture, payment.devise)}
                     </div>
+                    {balancesByFacture.has(payment.factureId) && (
+                      <div className="text-xs text-orange-600">
+                        Reste: {formatDocumentAmount(balancesByFacture.get(payment.factureId)!.resteAPayer, payment.devise)}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {payment.clientNom}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                    {formatCurrency(payment.montant)}
-                    {payment.montant < payment.montantFacture && (
+                    {formatDocumentAmount(payment.montant, payment.devise)}
+                    {(payment.montantRetenue || 0) > 0 && (
+                      <div className="text-xs text-purple-600">
+                        Retenue {payment.tauxRetenue}%: {formatDocumentAmount(payment.montantRetenue || 0, payment.devise)}
+                      </div>
+                    )}
+                    {toMillimes(payment.montant + (payment.montantRetenue || 0)) < toMillimes(payment.montantFacture) && (
                       <div className="text-xs text-orange-600">
-                        Partiel ({Math.round((payment.montant / payment.montantFacture) * 100)}%)
+                        Partiel ({Math.round(((payment.montant + (payment.montantRetenue || 0)) / payment.montantFacture) * 100)}%)
                       </div>
                     )}
                   </td>
@@ -472,6 +557,15 @@ const PaymentsList: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex items-center justify-end space-x-2">
+                      {(payment.montantRetenue || 0) > 0 && (
+                        <button
+                          onClick={() => handleCertificatRetenue(payment)}
+                          className="text-purple-600 hover:text-purple-900 p-1 hover:bg-purple-50 rounded transition-colors"
+                          title="Certificat de retenue"
+                        >
+                          <Receipt className="w-4 h-4" />
+                        </button>
+                      )}
                       <button
                         onClick={() => handleEdit(payment)}
                         className="text-indigo-600 hover:text-indigo-900 p-1 hover:bg-indigo-50 rounded transition-colors"
@@ -511,6 +605,42 @@ const PaymentsList: React.FC = () => {
             </div>
           )}
         </div>
+
+        {/* Client balances */}
+        {clientBalances.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+            <div className="px-6 py-4 border-b flex items-center">
+              <Users className="w-5 h-5 mr-2 text-green-600" />
+              <h3 className="text-lg font-medium text-gray-900">Soldes clients</h3>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Facturé</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Avoirs</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payé</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Retenues</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Solde</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {clientBalances.map(client => (
+                  <tr key={client.clientId} className="hover:bg-gray-50">
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{client.clientNom}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(client.totalFacture)}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-red-600">{formatCurrency(client.totalAvoirs)}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-green-600">{formatCurrency(client.totalPaye)}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-purple-600">{formatCurrency(client.totalRetenues)}</td>
+                    <td className={`px-6 py-3 whitespace-nowrap text-sm text-right font-medium ${client.solde > 0 ? 'text-orange-600' : 'text-gray-500'}`}>
+                      {formatCurrency(client.solde)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
 
       {/* Payment Form Dialog */}
@@ -0,0 +1,362 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2, Save, Tags } from 'lucide-react';
+import { ListePrix, PrixListe, Produit } from '../types';
+import { useDatabase } from '../hooks/useDatabase';
+import { validateListePrix, isListePrixValide } from '../utils/priceLists';
+import { formatCurrency } from '../utils/currency';
+import { v4 as uuidv4 } from 'uuid';
+import { useNotification } from '../contexts/NotificationContext';
+
+const newListePrix = (): ListePrix => ({
+  id: uuidv4(),
+  nom: '',
+  description: '',
+  pourcentage: 0,
+  actif: true,
+  prix: []
+});
+
+const PriceListSettings: React.FC = () => {
+  const [listes, setListes] = useState<ListePrix[]>([]);
+  const [produits, setProduits] = useState<Produit[]>([]);
+  const [editing, setEditing] = useState<ListePrix | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const { query, listPriceLists, savePriceList, deletePriceList, isReady } = useDatabase();
+  const { showNotification } = useNotification();
+
+  const loadData = useCallback(async () => {
+    try {
+      const [listesResult, produitsResult] = await Promise.all([
+        listPriceLists(),
+        query("SELECT * FROM produits WHERE type = 'vente' ORDER BY nom")
+      ]);
+      setListes(listesResult);
+      setProduits(produitsResult);
+    } catch (error) {
+      console.error('Error loading price lists:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [listPriceLists, query]);
+
+  useEffect(() => {
+    if (isReady) {
+      loadData();
+    }
+  }, [isReady, loadData]);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const updateEditing = (changes: Partial<ListePrix>) => {
+    setEditing(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const updatePrix = (index: number, changes: Partial<PrixListe>) => {
+    if (!editing) return;
+    updateEditing({ prix: editing.prix.map((prix, i) => (i === index ? { ...prix, ...changes } : prix)) });
+  };
+
+  const handleAddPrix = () => {
+    if (!editing || produits.length === 0) return;
+    updateEditing({
+      prix: [...editing.prix, { id: uuidv4(), produitId: produits[0].id, quantiteMin: 1, type: 'prix', valeur: produits[0].prixUnitaire }]
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const errors = validateListePrix(editing);
+    if (errors.length > 0) {
+      showNotification(errors[0], 'warning');
+      return;
+    }
+
+    try {
+      const result = await savePriceList({ ...editing, nom: editing.nom.trim() });
+      if (!result.success) {
+        showNotification(result.error || 'Erreur lors de l\'enregistrement de la liste de prix', 'error');
+        return;
+      }
+      setEditing(null);
+      loadData();
+      showNotification('Liste de prix enregistrée', 'success');
+    } catch (error) {
+      console.error('Error saving price list:', error);
+      showNotification('Erreur lors de l\'enregistrement de la liste de prix', 'error');
+    }
+  };
+
+  const handleDelete = async (liste: ListePrix) => {
+    if (window.confirm(`Supprimer la liste de prix "${liste.nom}" ? Ses clients reviendront aux prix des produits.`)) {
+      try {
+        const result = await deletePriceList(liste.id);
+        if (!result.success) {
+          showNotification(result.error || 'Erreur lors de la suppression de la liste de prix', 'error');
+          return;
+        }
+        if (editing?.id === liste.id) {
+          setEditing(null);
+        }
+        loadData();
+      } catch (error) {
+        console.error('Error deleting price list:', error);
+        showNotification('Erreur lors de la suppression de la liste de prix', 'error');
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Listes de prix</h3>
+          <p className="text-sm text-gray-600">
+            Tarifs gros, détail ou contrat attribués aux clients. Les factures et devis d'un client reprennent
+            le prix de sa liste à la date du document, selon la quantité ; les autres clients gardent le prix du produit.
+          </p>
+        </div>
+        <button
+          onClick={() => setEditing(newListePrix())}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Nouvelle liste</span>
+        </button>
+      </div>
+
+      {/* Lists Table */}
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nom</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Validité</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Règle générale</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Prix</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {listes.map(liste => (
+              <tr key={liste.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => setEditing(liste)}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {liste.nom}
+                  {!isListePrixValide(liste, today) && (
+                    <span className="ml-2 text-xs text-gray-500">({liste.actif ? 'hors validité' : 'inactive'})</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                  {liste.dateDebut ? new Date(liste.dateDebut).toLocaleDateString('fr-FR') : '...'}
+                  {' - '}
+                  {liste.dateFin ? new Date(liste.dateFin).toLocaleDateString('fr-FR') : '...'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                  {liste.pourcentage ? `${liste.pourcentage > 0 ? '+' : ''}${liste.pourcentage}%` : 'Prix produit'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{liste.prix.length}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(liste);
+                    }}
+                    className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
+                    title="Supprimer"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {listes.length === 0 && (
+          <div className="text-center py-12">
+            <Tags className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500">Aucune liste de prix</p>
+          </div>
+        )}
+      </div>
+
+      {/* Edited list */}
+      {editing && (
+        <div className="bg-white rounded-lg shadow-sm border p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Nom</label>
+              <input
+                type="text"
+                value={editing.nom}
+                onChange={(e) => updateEditing({ nom: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Ex: Grossistes"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Autres produits (% du prix produit)</label>
+              <input
+                type="number"
+                step="0.1"
+                value={editing.pourcentage}
+                onChange={(e) => updateEditing({ pourcentage: parseFloat(e.target.value) || 0 })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">Négatif pour une remise, ex: -15</p>
+            </div>
+            <div className="flex items-center pt-6">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={editing.actif}
+                  onChange={(e) => updateEditing({ actif: e.target.checked })}
+                  className="mr-2"
+                />
+                Liste active
+              </label>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Valable du</label>
+              <input
+                type="date"
+                value={editing.dateDebut || ''}
+                onChange={(e) => updateEditing({ dateDebut: e.target.value || undefined })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Au</label>
+              <input
+                type="date"
+                value={editing.dateFin || ''}
+                onChange={(e) => updateEditing({ dateFin: e.target.value || undefined })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={editing.description || ''}
+                onChange={(e) => updateEditing({ description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {/* Product prices and quantity breaks */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700">Prix par produit et quantité minimale</label>
+              <button onClick={handleAddPrix} className="text-blue-600 hover:text-blue-800 text-sm flex items-center">
+                <Plus className="w-4 h-4 mr-1" />
+                Ajouter un prix
+              </button>
+            </div>
+            {editing.prix.length > 0 ? (
+              <table className="min-w-full border border-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Produit</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">À partir de (qté)</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Règle</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Valeur</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {editing.prix.map((prix, index) => {
+                    const produit = produits.find(p => p.id === prix.produitId);
+                    return (
+                      <tr key={prix.id}>
+                        <td className="px-4 py-2">
+                          <select
+                            value={prix.produitId}
+                            onChange={(e) => updatePrix(index, { produitId: e.target.value })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                          >
+                            {produits.map(p => (
+                              <option key={p.id} value={p.id}>{p.ref ? `${p.ref} - ` : ''}{p.nom}</option>
+                            ))}
+                          </select>
+                          {produit && <p className="text-xs text-gray-500 mt-1">Prix produit : {formatCurrency(produit.prixUnitaire)}</p>}
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            value={prix.quantiteMin}
+                            onChange={(e) => updatePrix(index, { quantiteMin: parseFloat(e.target.value) || 0 })}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <select
+                            value={prix.type}
+                            onChange={(e) => updatePrix(index, { type: e.target.value as PrixListe['type'] })}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm"
+                          >
+                            <option value="prix">Prix fixe (TND)</option>
+                            <option value="pourcentage">% du prix produit</option>
+                          </select>
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            step={prix.type === 'prix' ? '0.001' : '0.1'}
+                            value={prix.valeur}
+                            onChange={(e) => updatePrix(index, { valeur: parseFloat(e.target.value) || 0 })}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded text-sm"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <button
+                            onClick={() => updateEditing({ prix: editing.prix.filter((_, i) => i !== index) })}
+                            className="text-red-600 hover:text-red-800 p-1 hover:bg-red-50 rounded transition-colors"
+                            title="Supprimer ce prix"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-500">Tous les produits suivent la règle générale de la liste.</p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-4">
+            <button
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Annuler
+            </button>
+            <button
+              onClick={handleSave}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Enregistrer la liste
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceListSettings;
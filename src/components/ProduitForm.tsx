@@ -4,6 +4,7 @@ import { Produit } from '../types';
 import { useDatabase } from '../hooks/useDatabase';
 import { v4 as uuidv4 } from 'uuid';
 import { useNotification } from '../contexts/NotificationContext';
+import { getAppSetting } from '../utils/appSettings';
 
 interface ProduitFormProps {
   isOpen: boolean;
@@ -29,7 +30,7 @@ const ProduitForm: React.FC<ProduitFormProps> = ({ isOpen, onClose, onSave, prod
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
-  const { query, isReady } = useDatabase();
+  const { query, saveProduit, isReady } = useDatabase();
   const { showNotification } = useNotification();
 
   useEffect(() => {
@@ -51,15 +52,13 @@ const ProduitForm: React.FC<ProduitFormProps> = ({ isOpen, onClose, onSave, prod
       } else {
         // Generate product ref automatically for new products (optional)
         generateProductRef(defaultType);
-        // Load FODEC auto-enable setting
-        loadFodecAutoSetting(defaultType);
         setFormData({
           ref: '',
           nom: '',
           description: '',
           prixUnitaire: 0,
           tva: 19,
-          fodecApplicable: false,
+          fodecApplicable: getAppSetting('generalSettings').autoEnableFodec,
           tauxFodec: 1,
           stock: 0,
           type: defaultType
@@ -68,21 +67,6 @@ const ProduitForm: React.FC<ProduitFormProps> = ({ isOpen, onClose, onSave, prod
     }
   }, [produit, isOpen, defaultType, isReady]);
 
-  const loadFodecAutoSetting = async (type: 'vente' | 'achat') => {
-    if (!isReady) return;
-    
-    try {
-      const result = await query('SELECT value FROM settings WHERE key = ?', ['generalSettings']);
-      if (result.length > 0) {
-        const generalSettings = JSON.parse(result[0].value);
-        if (generalSettings.autoEnableFodec) {
-          setFormData(prev => ({ ...prev, fodecApplicable: true }));
-        }
-      }
-    } catch (error) {
-      console.error('Error loading FODEC auto setting:', error);
-    }
-  };
   const generateProductRef = async (type: 'vente' | 'achat') => {
     if (!isReady) return;
     
@@ -143,23 +127,12 @@ const ProduitForm: React.FC<ProduitFormProps> = ({ isOpen, onClose, onSave, prod
         type: formData.type
       };
 
-      await query(
-        `INSERT OR REPLACE INTO produits 
-         (id, ref, nom, description, prixUnitaire, tva, fodecApplicable, tauxFodec, stock, type)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          produitData.id,
-          produitData.ref || null,
-          produitData.nom,
-          produitData.description,
-          produitData.prixUnitaire,
-          produitData.tva,
-          produitData.fodecApplicable ? 1 : 0,
-          produitData.tauxFodec,
-          produitData.stock,
-          produitData.type
-        ]
-      );
+      const result = await saveProduit(produitData);
+      if (!result.success) {
+        setError(result.error || 'Erreur lors de la sauvegarde du produit');
+        setIsSubmitting(false);
+        return;
+      }
 
       onSave(produitData);
       
@@ -17,7 +17,7 @@ const ProduitsList: React.FC = () => {
   const [editingProduit, setEditingProduit] = useState<Produit | null>(null);
   const [newProductType, setNewProductType] = useState<'vente' | 'achat'>('vente');
   const [showImportDialog, setShowImportDialog] = useState(false);
-  const { query, isReady } = useDatabase();
+  const { query, deleteProduit, importRecords, isReady } = useDatabase();
   const { showNotification } = useNotification();
 
   useEffect(() => {
@@ -92,13 +92,12 @@ const ProduitsList: React.FC = () => {
     
     if (window.confirm('Êtes-vous sûr de vouloir supprimer ce produit ?')) {
       try {
-        // Delete all related document lines first
-        await query('DELETE FROM lignes_facture WHERE produitId = ?', [id]);
-        await query('DELETE FROM lignes_devis WHERE produitId = ?', [id]);
-        await query('DELETE FROM lignes_bon_livraison WHERE produitId = ?', [id]);
-        await query('DELETE FROM lignes_commande_fournisseur WHERE produitId = ?', [id]);
-        await query('DELETE FROM stock_movements WHERE produitId = ?', [id]);
-        await query('DELETE FROM produits WHERE id = ?', [id]);
+        // Products used on documents are refused, their lines stay as they were issued
+        const result = await deleteProduit(id);
+        if (!result.success) {
+          showNotification(result.error || 'Erreur lors de la suppression du produit', 'error');
+          return;
+        }
         setProduits(produits.filter(p => p.id !== id));
       } catch (error) {
         console.error('Error deleting produit:', error);
@@ -111,10 +110,9 @@ const ProduitsList: React.FC = () => {
     if (result.success) {
       // Reload products to show imported data
       loadProduits();
-      setShowImportDialog(false);
       
-      // Show success message
-      showNotification(`Importation réussie! ${result.imported} produit(s) importé(s), ${result.duplicates} doublon(s) ignoré(s), ${result.skipped} ligne(s) ignorée(s)`, 'success');
+      // Show success message, the dialog stays open on the detailed result
+      showNotification(`Importation réussie! ${result.imported} produit(s) importé(s), ${result.updated} mis à jour, ${result.duplicates} doublon(s) ignoré(s), ${result.skipped} ligne(s) ignorée(s)`, 'success');
     }
   };
 
@@ -446,7 +444,7 @@ const ProduitsList: React.FC = () => {
         type="produits"
         existingData={produits}
         onImportComplete={handleImportComplete}
-        query={query}
+        importRecords={importRecords}
       />
     </>
   );
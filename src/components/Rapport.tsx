@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { BarChart3, PieChart, LineChart, Calendar, TrendingUp, CreditCard, Package, RefreshCw, Download, Printer } from 'lucide-react';
+import { BarChart3, PieChart, LineChart, Calendar, TrendingUp, CreditCard, Package, RefreshCw, Download, Printer, Landmark } from 'lucide-react';
 import { formatCurrency } from '../utils/currency';
 import { useDatabase } from '../hooks/useDatabase';
 import { Chart as ChartJS, ArcElement, Tooltip, Legend, CategoryScale, LinearScale, PointElement, LineElement, BarElement, Title } from 'chart.js';
@@ -9,6 +9,9 @@ import { fr } from 'date-fns/locale';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { useNotification } from '../contexts/NotificationContext';
+import { getTVACollecteeParTaux, getTVADeductibleParTaux } from '../utils/tva';
+import { dinarsSQL, roundMoney, subtractMoney, sumMoney } from '../utils/money';
+import DeclarationTVA from './DeclarationTVA';
 
 // Register ChartJS components
 ChartJS.register(
@@ -23,8 +26,12 @@ ChartJS.register(
   Title
 );
 
+// Report amounts are dinar equivalents rounded to the millime per document: documents in a foreign
+// currency are converted with their own rate, and payments with the rate of the invoice they settle
+const TAUX_FACTURE_PAIEMENT = '(SELECT tauxChange FROM factures WHERE factures.id = payments.factureId)';
+
 const Rapport: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'ca' | 'produits' | 'clients' | 'paiements'>('ca');
+  const [activeTab, setActiveTab] = useState<'ca' | 'produits' | 'clients' | 'paiements' | 'declaration'>('ca');
   const [period, setPeriod] = useState<'month' | '3months' | '6months' | 'year'>('6months');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -56,15 +63,19 @@ const Rapport: React.FC = () => {
     totalClients: 0,
     totalProduits: 0,
     moyenneFacture: 0,
+    totalCharges: 0,
     facturesPayees: 0,
-    facturesEnRetard: 0
+    facturesEnRetard: 0,
+    tvaCollectee: 0,
+    tvaDeductible: 0
   });
   
   const { query, isReady, savePDF } = useDatabase();
   const { showNotification } = useNotification();
   
   useEffect(() => {
-    if (isReady) {
+    // The declaration tab loads its own data for the chosen month
+    if (isReady && activeTab !== 'declaration') {
       loadData();
     }
   }, [isReady, period, activeTab]);
@@ -130,14 +141,22 @@ const Rapport: React.FC = () => {
     try {
       // Total CA
       const caResult = await query(`
-        SELECT SUM(totalTTC) as total
+        SELECT SUM(${dinarsSQL('totalTTC')}) as total
         FROM factures
         WHERE date BETWEEN ? AND ? AND statut != 'annulee'
       `, [startDateStr, endDateStr]);
       
+      // Partial credit notes (fully credited invoices are already excluded as cancelled)
+      const avoirsResult = await query(`
+        SELECT SUM(${dinarsSQL('a.totalTTC', 'f.tauxChange')}) as total
+        FROM avoirs a
+        JOIN factures f ON a.factureId = f.id
+        WHERE a.date BETWEEN ? AND ? AND a.statut != 'annule' AND f.statut != 'annulee'
+      `, [startDateStr, endDateStr]);
+      
       // Total paiements
       const paiementsResult = await query(`
-        SELECT SUM(montant) as total
+        SELECT SUM(${dinarsSQL('montant', TAUX_FACTURE_PAIEMENT)}) as total
         FROM payments
         WHERE date BETWEEN ? AND ? AND statut = 'valide'
       `, [startDateStr, endDateStr]);
@@ -159,7 +178,14 @@ const Rapport: React.FC = () => {
       
       // Moyenne par facture
       const moyenneResult = await query(`
-        SELECT AVG(totalTTC) as moyenne, COUNT(*) as count
+        SELECT AVG(${dinarsSQL('totalTTC')}) as moyenne, COUNT(*) as count
+        FROM factures
+        WHERE date BETWEEN ? AND ? AND statut != 'annulee'
+      `, [startDateStr, endDateStr]);
+      
+      // Timbres fiscaux and other document charges included in the CA
+      const chargesResult = await query(`
+        SELECT SUM(${dinarsSQL('totalCharges')}) as total
         FROM factures
         WHERE date BETWEEN ? AND ? AND statut != 'annulee'
       `, [startDateStr, endDateStr]);
@@ -177,14 +203,21 @@ const Rapport: React.FC = () => {
         WHERE dateEcheance < date('now') AND statut != 'payee' AND statut != 'annulee'
       `);
       
+      // TVA collectée on sales net of credit notes, TVA déductible on supplier invoices
+      const tvaCollectee = await getTVACollecteeParTaux(startDateStr, endDateStr, query);
+      const tvaDeductible = await getTVADeductibleParTaux(startDateStr, endDateStr, query);
+      
       setStats({
-        totalCA: caResult[0]?.total || 0,
-        totalPaiements: paiementsResult[0]?.total || 0,
+        totalCA: subtractMoney(caResult[0]?.total || 0, avoirsResult[0]?.total || 0),
+        totalPaiements: roundMoney(paiementsResult[0]?.total || 0),
         totalClients: clientsResult[0]?.total || 0,
         totalProduits: produitsResult[0]?.total || 0,
-        moyenneFacture: moyenneResult[0]?.moyenne || 0,
+        moyenneFacture: roundMoney(moyenneResult[0]?.moyenne || 0),
+        totalCharges: roundMoney(chargesResult[0]?.total || 0),
         facturesPayees: facturesPayeesResult[0]?.count || 0,
-        facturesEnRetard: facturesEnRetardResult[0]?.count || 0
+        facturesEnRetard: facturesEnRetardResult[0]?.count || 0,
+        tvaCollectee: sumMoney(tvaCollectee.map(ligne => ligne.montant)),
+        tvaDeductible: sumMoney(tvaDeductible.map(ligne => ligne.montant))
       });
       
     } catch (error) {
@@ -211,14 +244,21 @@ const Rapport: React.FC = () => {
         const endOfMonthDate = endOfMonth(new Date(parseInt(year), parseInt(monthNum) - 1, 1)).toISOString();
         
         const result = await query(`
-          SELECT SUM(totalTTC) as total
+          SELECT SUM(${dinarsSQL('totalTTC')}) as total
           FROM factures
           WHERE date BETWEEN ? AND ? AND statut != 'annulee'
         `, [startOfMonthDate, endOfMonthDate]);
         
+        const avoirsResult = await query(`
+          SELECT SUM(${dinarsSQL('a.totalTTC', 'f.tauxChange')}) as total
+          FROM avoirs a
+          JOIN factures f ON a.factureId = f.id
+          WHERE a.date BETWEEN ? AND ? AND a.statut != 'annule' AND f.statut != 'annulee'
+        `, [startOfMonthDate, endOfMonthDate]);
+        
         return {
           month,
-          total: result[0]?.total || 0
+          total: subtractMoney(result[0]?.total || 0, avoirsResult[0]?.total || 0)
         };
       }));
       
@@ -298,7 +338,7 @@ const Rapport: React.FC = () => {
     try {
       // Get top 5 clients by total amount
       const topClientsResult = await query(`
-        SELECT c.nom, SUM(f.totalTTC) as total
+        SELECT c.nom, SUM(${dinarsSQL('f.totalTTC', 'f.tauxChange')}) as total
         FROM factures f
         JOIN clients c ON f.clientId = c.id
         WHERE f.date BETWEEN ? AND ? AND f.statut != 'annulee'
@@ -309,7 +349,7 @@ const Rapport: React.FC = () => {
       
       // Format data for chart
       const labels = topClientsResult.map(item => item.nom);
-      const data = topClientsResult.map(item => item.total);
+      const data = topClientsResult.map(item => roundMoney(item.total));
       
       setClientsData({
         labels,
@@ -346,7 +386,7 @@ const Rapport: React.FC = () => {
     try {
       // Get payments by method
       const paiementsResult = await query(`
-        SELECT methode, SUM(montant) as total
+        SELECT methode, SUM(${dinarsSQL('montant', TAUX_FACTURE_PAIEMENT)}) as total
         FROM payments
         WHERE date BETWEEN ? AND ? AND statut = 'valide'
         GROUP BY methode
@@ -362,7 +402,7 @@ const Rapport: React.FC = () => {
       };
       
       const labels = paiementsResult.map(item => methodLabels[item.methode as keyof typeof methodLabels] || item.methode);
-      const data = paiementsResult.map(item => item.total);
+      const data = paiementsResult.map(item => roundMoney(item.total));
       
       setPaiementsData({
         labels,
@@ -428,8 +468,12 @@ const Rapport: React.FC = () => {
         ['Clients actifs', stats.totalClients.toString()],
         ['Produits vendus', stats.totalProduits.toString()],
         ['Moyenne par facture', formatCurrency(stats.moyenneFacture)],
+        ['Droits de timbre et charges', formatCurrency(stats.totalCharges)],
         ['Factures payées', stats.facturesPayees.toString()],
-        ['Factures en retard', stats.facturesEnRetard.toString()]
+        ['Factures en retard', stats.facturesEnRetard.toString()],
+        ['TVA collectée', formatCurrency(stats.tvaCollectee)],
+        ['TVA déductible', formatCurrency(stats.tvaDeductible)],
+        ['TVA nette à payer', formatCurrency(stats.tvaCollectee - stats.tvaDeductible)]
       ];
       
       autoTable(doc, {
@@ -583,8 +627,12 @@ const Rapport: React.FC = () => {
         ['Clients actifs', stats.totalClients.toString()],
         ['Produits vendus', stats.totalProduits.toString()],
         ['Moyenne par facture', formatCurrency(stats.moyenneFacture)],
+        ['Droits de timbre et charges', formatCurrency(stats.totalCharges)],
         ['Factures payées', stats.facturesPayees.toString()],
-        ['Factures en retard', stats.facturesEnRetard.toString()]
+        ['Factures en retard', stats.facturesEnRetard.toString()],
+        ['TVA collectée', formatCurrency(stats.tvaCollectee)],
+        ['TVA déductible', formatCurrency(stats.tvaDeductible)],
+        ['TVA nette à payer', formatCurrency(stats.tvaCollectee - stats.tvaDeductible)]
       ];
       
       autoTable(doc, {
@@ -713,7 +761,8 @@ const Rapport: React.FC = () => {
     { id: 'ca', label: 'Chiffre d\'affaires', icon: TrendingUp, color: 'text-blue-600' },
     { id: 'produits', label: 'Produits', icon: Package, color: 'text-red-600' },
     { id: 'clients', label: 'Clients', icon: Calendar, color: 'text-orange-600' },
-    { id: 'paiements', label: 'Paiements', icon: CreditCard, color: 'text-green-600' }
+    { id: 'paiements', label: 'Paiements', icon: CreditCard, color: 'text-green-600' },
+    { id: 'declaration', label: 'Déclaration TVA', icon: Landmark, color: 'text-purple-600' }
   ];
   
   const periods = [
@@ -742,6 +791,7 @@ const Rapport: React.FC = () => {
           <h2 className="text-2xl font-bold text-gray-800">Rapports</h2>
           <p className="text-gray-600">Analysez les performances de votre entreprise</p>
         </div>
+        {activeTab !== 'declaration' && (
         <div className="flex space-x-3">
           <button
             onClick={handleExportPDF}
@@ -758,6 +808,7 @@ const Rapport: React.FC = () => {
             <span>Imprimer</span>
           </button>
         </div>
+        )}
       </div>
       
       {/* Tabs */}
@@ -782,6 +833,7 @@ const Rapport: React.FC = () => {
       </div>
       
       {/* Period selector */}
+      {activeTab !== 'declaration' && (
       <div className="flex items-center space-x-4 bg-gray-50 p-4 rounded-lg">
         <span className="text-gray-700 font-medium">Période:</span>
         <div className="flex space-x-2">
@@ -807,6 +859,7 @@ const Rapport: React.FC = () => {
           <span>Actualiser</span>
         </button>
       </div>
+      )}
       
       {/* Error message */}
       {error && (
@@ -816,7 +869,9 @@ const Rapport: React.FC = () => {
       )}
       
       {/* Loading indicator */}
-      {loading ? (
+      {activeTab === 'declaration' ? (
+        <DeclarationTVA />
+      ) : loading ? (
         <div className="flex items-center justify-center h-64">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
@@ -825,6 +880,10 @@ const Rapport: React.FC = () => {
         </div>
       ) : (
         <>
+          <p className="text-xs text-gray-500">
+            Montants en équivalent TND : les documents en devises sont convertis au taux de change enregistré sur chacun d'eux.
+          </p>
+
           {/* Stats cards */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="bg-white rounded-lg shadow-sm border p-4">
@@ -1054,6 +1113,10 @@ const Rapport: React.FC = () => {
                   <span className="text-gray-600">Moyenne par facture</span>
                   <span className="font-semibold">{formatCurrency(stats.moyenneFacture)}</span>
                 </div>
+                <div className="flex justify-between items-center pb-2 border-b border-gray-200">
+                  <span className="text-gray-600">Droits de timbre et charges</span>
+                  <span className="font-semibold">{formatCurrency(stats.totalCharges)}</span>
+                </div>
                 <div className="flex justify-between items-center pb-2 border-b border-gray-200">
                   <span className="text-gray-600">Factures payées</span>
                   <span className="font-semibold text-green-600">{stats.facturesPayees}</span>
@@ -1062,6 +1125,20 @@ const Rapport: React.FC = () => {
                   <span className="text-gray-600">Factures en retard</span>
                   <span className="font-semibold text-red-600">{stats.facturesEnRetard}</span>
                 </div>
+                <div className="flex justify-between items-center pb-2 border-b border-gray-200">
+                  <span className="text-gray-600">TVA collectée</span>
+                  <span className="font-semibold">{formatCurrency(stats.tvaCollectee)}</span>
+                </div>
+                <div className="flex justify-between items-center pb-2 border-b border-gray-200">
+                  <span className="text-gray-600">TVA déductible</span>
+                  <span className="font-semibold">{formatCurrency(stats.tvaDeductible)}</span>
+                </div>
+                <div className="flex justify-between items-center pb-2 border-b border-gray-200">
+                  <span className="text-gray-600">TVA nette à payer</span>
+                  <span className={`font-semibold ${stats.tvaCollectee - stats.tvaDeductible < 0 ? 'text-green-600' : 'text-orange-600'}`}>
+                    {formatCurrency(stats.tvaCollectee - stats.tvaDeductible)}
+                  </span>
+                </div>
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Taux de paiement</span>
                   <span className="font-semibold">
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Download, Printer, BookOpen, RefreshCw } from 'lucide-react';
+import { format, startOfYear } from 'date-fns';
+import { Client } from '../types';
+import { formatCurrency } from '../utils/currency';
+import { ReleveClient, getReleveClient } from '../utils/releveClient';
+import { generateReleveClientPDF } from '../utils/pdfGenerator';
+import { useDatabase } from '../hooks/useDatabase';
+import { useNotification } from '../contexts/NotificationContext';
+
+interface ReleveClientDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  client: Client | null;
+}
+
+const ReleveClientDialog: React.FC<ReleveClientDialogProps> = ({ isOpen, onClose, client }) => {
+  const [dateDebut, setDateDebut] = useState(format(startOfYear(new Date()), 'yyyy-MM-dd'));
+  const [dateFin, setDateFin] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [releve, setReleve] = useState<ReleveClient | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const { query, isReady, isElectron, savePDF } = useDatabase();
+  const { showNotification } = useNotification();
+
+  const loadReleve = useCallback(async () => {
+    if (!client) return;
+
+    setLoading(true);
+    try {
+      setReleve(await getReleveClient(client, new Date(`${dateDebut}T00:00:00`), new Date(`${dateFin}T00:00:00`), query));
+    } catch (error) {
+      console.error('Error loading releve de compte:', error);
+      showNotification('Erreur lors du chargement du relevé de compte', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [client, dateDebut, dateFin, query, showNotification]);
+
+  useEffect(() => {
+    if (isOpen && isReady && client && dateDebut && dateFin) {
+      loadReleve();
+    }
+  }, [isOpen, isReady, client, dateDebut, dateFin, loadReleve]);
+
+  const handleDownloadPDF = async () => {
+    if (!releve) return;
+
+    try {
+      const doc = await generateReleveClientPDF(releve);
+      const filename = `Releve_${releve.client.code}_${dateDebut}_${dateFin}.pdf`;
+
+      if (isElectron) {
+        await savePDF(new Uint8Array(doc.output('arraybuffer')), filename);
+      } else {
+        doc.save(filename);
+      }
+    } catch (error) {
+      console.error('Error generating releve PDF:', error);
+      showNotification('Erreur lors de la génération du PDF', 'error');
+    }
+  };
+
+  const handlePrint = async () => {
+    if (!releve) return;
+
+    try {
+      const doc = await generateReleveClientPDF(releve);
+      doc.autoPrint();
+      window.open(doc.output('bloburl'), '_blank');
+    } catch (error) {
+      console.error('Error generating releve PDF for print:', error);
+      showNotification('Erreur lors de la génération du PDF pour impression', 'error');
+    }
+  };
+
+  if (!isOpen || !client) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-xl font-semibold flex items-center">
+            <BookOpen className="w-6 h-6 mr-2 text-blue-600" />
+            Relevé de compte - {client.nom}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-80px)] space-y-4">
+          {/* Date range */}
+          <div className="flex items-center space-x-4 bg-gray-50 p-4 rounded-lg">
+            <span className="text-gray-700 font-medium">Du</span>
+            <input
+              type="date"
+              value={dateDebut}
+              onChange={(e) => setDateDebut(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-gray-700 font-medium">au</span>
+            <input
+              type="date"
+              value={dateFin}
+              onChange={(e) => setDateFin(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={loadReleve}
+              className="px-3 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors flex items-center space-x-1"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Actualiser</span>
+            </button>
+            <div className="ml-auto flex space-x-2">
+              <button
+                onClick={handleDownloadPDF}
+                disabled={!releve}
+                className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center space-x-1 disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                <span>PDF</span>
+              </button>
+              <button
+                onClick={handlePrint}
+                disabled={!releve}
+                className="px-3 py-1 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors flex items-center space-x-1 disabled:opacity-50"
+              >
+                <Printer className="w-4 h-4" />
+                <span>Imprimer</span>
+              </button>
+            </div>
+          </div>
+
+          {loading || !releve ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <>
+              <table className="min-w-full divide-y divide-gray-200 border">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pièce</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Libellé</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Débit</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Crédit</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Solde</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  <tr className="bg-gray-50">
+                    <td className="px-4 py-2 text-sm text-gray-500" colSpan={5}>
+                      Solde au {releve.dateDebut.toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right font-medium text-gray-900">{formatCurrency(releve.soldeInitial)}</td>
+                  </tr>
+                  {releve.mouvements.map((mouvement, index) => (
+                    <tr key={index}>
+                      <td className="px-4 py-2 text-sm text-gray-500">{mouvement.date.toLocaleDateString('fr-FR')}</td>
+                      <td className="px-4 py-2 text-sm font-medium text-gray-900">{mouvement.numero}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{mouvement.libelle}</td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-900">
+                        {mouvement.debit ? formatCurrency(mouvement.debit) : ''}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-green-600">
+                        {mouvement.credit ? formatCurrency(mouvement.credit) : ''}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-900">{formatCurrency(mouvement.solde)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-gray-50 font-semibold">
+                  <tr>
+                    <td className="px-4 py-2 text-sm text-gray-900" colSpan={3}>Totaux de la période</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">{formatCurrency(releve.totalDebit)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-green-600">{formatCurrency(releve.totalCredit)}</td>
+                    <td className="px-4 py-2 text-sm text-right text-gray-900">{formatCurrency(releve.soldeFinal)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+
+              {releve.mouvements.length === 0 && (
+                <p className="text-center text-gray-500">Aucun mouvement sur cette période</p>
+              )}
+
+              <div className="flex justify-end">
+                <div className={`px-4 py-2 rounded-lg font-semibold ${
+                  releve.soldeFinal > 0 ? 'bg-orange-50 text-orange-700' : 'bg-green-50 text-green-700'
+                }`}>
+                  {releve.soldeFinal < 0 ? 'Solde créditeur' : 'Solde dû'} au {releve.dateFin.toLocaleDateString('fr-FR')}: {formatCurrency(Math.abs(releve.soldeFinal))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReleveClientDialog;
@@ -1,12 +1,28 @@
 import React, { useState, useEffect } from 'react';
-import { Save, Upload, Download, RotateCcw, Settings as SettingsIcon, Building, Calculator, FileText, Shield, Lock, Eye, EyeOff, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Save, Download, Settings as SettingsIcon, Building, Calculator, FileText, Shield, HardDrive, Coins, Tags, CheckCircle, AlertTriangle } from 'lucide-react';
 import { useDatabase } from '../hooks/useDatabase';
+import { NumberingDocumentType, NumberingSettings, NumeroAnnule } from '../types';
 import DocumentTemplateSettings from './DocumentTemplateSettings';
 import TaxSettings from './TaxSettings';
+import UserSettings from './UserSettings';
+import BackupSettings from './BackupSettings';
+import ExchangeRateSettings from './ExchangeRateSettings';
+import PriceListSettings from './PriceListSettings';
 import { useNotification } from '../contexts/NotificationContext';
+import { loadAppSettings, saveAppSetting } from '../utils/appSettings';
+import { DEFAULT_ROUNDING_POLICY, RoundingPolicy } from '../utils/money';
+
+const numberingLabels: Record<NumberingDocumentType, string> = {
+  factures: 'Factures',
+  devis: 'Devis',
+  bonsLivraison: 'Bons de livraison',
+  commandesFournisseur: 'Commandes fournisseur',
+  avoirs: 'Avoirs',
+  bonsReception: 'Bons de réception'
+};
 
 const Settings: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'company' | 'numbering' | 'templates' | 'taxes' | 'security' | 'general'>('company');
+  const [activeTab, setActiveTab] = useState<'company' | 'numbering' | 'templates' | 'taxes' | 'devises' | 'tarifs' | 'users' | 'backups' | 'general'>('company');
   const [companyInfo, setCompanyInfo] = useState({
     nom: '',
     adresse: '',
@@ -20,34 +36,28 @@ const Settings: React.FC = () => {
     matriculeFiscal: ''
   });
 
-  const [numberingSettings, setNumberingSettings] = useState({
-    factures: { prefix: 'FA', startNumber: 1, currentNumber: 1, includeYear: true },
-    devis: { prefix: 'DV', startNumber: 1, currentNumber: 1, includeYear: true },
-    bonsLivraison: { prefix: 'BL', startNumber: 1, currentNumber: 1, includeYear: true },
-    commandesFournisseur: { prefix: 'CF', startNumber: 1, currentNumber: 1, includeYear: true }
-  });
-
-  const [securitySettings, setSecuritySettings] = useState({
-    passwordEnabled: false,
-    password: '',
-    confirmPassword: ''
+  const [numberingSettings, setNumberingSettings] = useState<Record<NumberingDocumentType, NumberingSettings>>({
+    factures: { prefix: 'FA', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' },
+    devis: { prefix: 'DV', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' },
+    bonsLivraison: { prefix: 'BL', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' },
+    commandesFournisseur: { prefix: 'CF', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' },
+    avoirs: { prefix: 'AV', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' },
+    bonsReception: { prefix: 'BR', startNumber: 1, pattern: '{PREFIX}-{YYYY}-{SEQ:3}' }
   });
+  const [nextNumbers, setNextNumbers] = useState<Partial<Record<NumberingDocumentType, string>>>({});
+  const [voidedNumbers, setVoidedNumbers] = useState<NumeroAnnule[]>([]);
 
   const [generalSettings, setGeneralSettings] = useState({
     autoEnableFodec: false,
     useEcheanceDate: true,
+    roundingPolicy: DEFAULT_ROUNDING_POLICY,
     allowNegativeStock: true,
     currencySymbol: '',
     currencyDecimals: 3,
     currencyPosition: 'after' as 'before' | 'after'
   });
 
-  const [showPassword, setShowPassword] = useState(false);
-  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [passwordError, setPasswordError] = useState('');
-  const [isSubmitting, setIsSubmitting] = useState(false);
-
-  const { query, backupDatabase, restoreDatabase, checkForUpdates, getAppVersion, isReady } = useDatabase();
+  const { query, previewDocumentNumber, listVoidedNumbers, checkForUpdates, getAppVersion, isReady } = useDatabase();
   const { showNotification } = useNotification();
 
   useEffect(() => {
@@ -70,56 +80,21 @@ const Settings: React.FC = () => {
       const numberingResult = await query('SELECT value FROM settings WHERE key = ?', ['numbering']);
       if (numberingResult.length > 0) {
         const loadedSettings = JSON.parse(numberingResult[0].value);
-        // Ensure backward compatibility - add includeYear if missing
-        Object.keys(loadedSettings).forEach(key => {
-          if (loadedSettings[key] && typeof loadedSettings[key].includeYear === 'undefined') {
-            loadedSettings[key].includeYear = true;
-          }
-        });
-        setNumberingSettings(loadedSettings);
-      }
-
-      // Load security settings
-      const passwordResult = await query('SELECT value FROM settings WHERE key = ?', ['appPassword']);
-      setSecuritySettings(prev => ({
-        ...prev,
-        passwordEnabled: passwordResult.length > 0,
-        password: '',
-        confirmPassword: ''
-      }));
-
-      // Load general settings
-      const generalResult = await query('SELECT value FROM settings WHERE key = ?', ['generalSettings']);
-      if (generalResult.length > 0) {
-        const loadedGeneral = JSON.parse(generalResult[0].value);
-        setGeneralSettings(prev => ({ ...prev, ...loadedGeneral }));
-      }
-
-      // Load invoice settings
-      const invoiceResult = await query('SELECT value FROM settings WHERE key = ?', ['invoiceSettings']);
-      if (invoiceResult.length > 0) {
-        const invoiceSettings = JSON.parse(invoiceResult[0].value);
-        setGeneralSettings(prev => ({ ...prev, useEcheanceDate: invoiceSettings.useEcheanceDate }));
-      }
-
-      // Load stock settings
-      const stockResult = await query('SELECT value FROM settings WHERE key = ?', ['stockSettings']);
-      if (stockResult.length > 0) {
-        const stockSettings = JSON.parse(stockResult[0].value);
-        setGeneralSettings(prev => ({ ...prev, allowNegativeStock: stockSettings.allowNegativeStock }));
-      }
-
-      // Load currency settings
-      const currencyResult = await query('SELECT value FROM settings WHERE key = ?', ['currencySettings']);
-      if (currencyResult.length > 0) {
-        const currencySettings = JSON.parse(currencyResult[0].value);
-        setGeneralSettings(prev => ({ 
-          ...prev, 
-          currencySymbol: currencySettings.symbol || '',
-          currencyDecimals: currencySettings.decimals || 3,
-          currencyPosition: currencySettings.position || 'after'
-        }));
+        setNumberingSettings(prev => ({ ...prev, ...loadedSettings }));
       }
+      await loadNumberingState();
+
+      // Preferences of the settings service
+      const appSettings = await loadAppSettings(query);
+      setGeneralSettings({
+        autoEnableFodec: appSettings.generalSettings.autoEnableFodec,
+        useEcheanceDate: appSettings.invoiceSettings.useEcheanceDate,
+        roundingPolicy: appSettings.invoiceSettings.roundingPolicy,
+        allowNegativeStock: appSettings.stockSettings.allowNegativeStock,
+        currencySymbol: appSettings.currencySettings.symbol,
+        currencyDecimals: appSettings.currencySettings.decimals,
+        currencyPosition: appSettings.currencySettings.position
+      });
 
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -141,14 +116,30 @@ const Settings: React.FC = () => {
     }
   };
 
+  // Next number of each sequence and numbers of deleted documents
+  const loadNumberingState = async () => {
+    const documentTypes = Object.keys(numberingLabels) as NumberingDocumentType[];
+    const previews = await Promise.all(documentTypes.map(docType => previewDocumentNumber(docType)));
+    setNextNumbers(Object.fromEntries(documentTypes.map((docType, index) => [docType, previews[index]])));
+    setVoidedNumbers(await listVoidedNumbers());
+  };
+
   const saveNumberingSettings = async () => {
     if (!isReady) return;
+
+    const invalidType = (Object.keys(numberingSettings) as NumberingDocumentType[])
+      .find(docType => !/\{SEQ(:\d+)?\}/.test(numberingSettings[docType].pattern));
+    if (invalidType) {
+      showNotification(`Le format des ${numberingLabels[invalidType].toLowerCase()} doit contenir {SEQ} ou {SEQ:n}`, 'error');
+      return;
+    }
     
     try {
       await query(
         'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
         ['numbering', JSON.stringify(numberingSettings)]
       );
+      await loadNumberingState();
       showNotification('Paramètres de numérotation sauvegardés avec succès', 'success');
     } catch (error) {
       console.error('Error saving numbering settings:', error);
@@ -156,123 +147,26 @@ const Settings: React.FC = () => {
     }
   };
 
-  const saveSecuritySettings = async () => {
-    if (!isReady) return;
-    
-    setIsSubmitting(true);
-    setPasswordError('');
-
-    try {
-      if (securitySettings.passwordEnabled) {
-        if (!securitySettings.password) {
-          setPasswordError('Le mot de passe est obligatoire');
-          setIsSubmitting(false);
-          return;
-        }
-
-        if (securitySettings.password !== securitySettings.confirmPassword) {
-          setPasswordError('Les mots de passe ne correspondent pas');
-          setIsSubmitting(false);
-          return;
-        }
-
-        if (securitySettings.password.length < 4) {
-          setPasswordError('Le mot de passe doit contenir au moins 4 caractères');
-          setIsSubmitting(false);
-          return;
-        }
-
-        await query(
-          'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
-          ['appPassword', securitySettings.password]
-        );
-      } else {
-        // Remove password protection
-        await query('DELETE FROM settings WHERE key = ?', ['appPassword']);
-      }
-
-      showNotification('Paramètres de sécurité sauvegardés avec succès', 'success');
-      
-      // Reset password fields
-      setSecuritySettings(prev => ({
-        ...prev,
-        password: '',
-        confirmPassword: ''
-      }));
-      
-    } catch (error) {
-      console.error('Error saving security settings:', error);
-      showNotification('Erreur lors de la sauvegarde des paramètres de sécurité', 'error');
-    } finally {
-      setIsSubmitting(false);
-    }
-  };
-
   const saveGeneralSettings = async () => {
     if (!isReady) return;
     
     try {
-      // Save general settings
-      await query(
-        'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
-        ['generalSettings', JSON.stringify(generalSettings)]
-      );
-
-      // Save invoice settings
-      await query(
-        'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
-        ['invoiceSettings', JSON.stringify({ useEcheanceDate: generalSettings.useEcheanceDate })]
-      );
-
-      // Save stock settings
-      await query(
-        'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
-        ['stockSettings', JSON.stringify({ allowNegativeStock: generalSettings.allowNegativeStock })]
-      );
-
-      // Save currency settings
-      await query(
-        'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
-        ['currencySettings', JSON.stringify({ 
-          symbol: generalSettings.currencySymbol,
-          decimals: generalSettings.currencyDecimals,
-          position: generalSettings.currencyPosition
-        })]
-      );
+      await saveAppSetting('generalSettings', { autoEnableFodec: generalSettings.autoEnableFodec }, query);
+      await saveAppSetting('invoiceSettings', {
+        useEcheanceDate: generalSettings.useEcheanceDate,
+        roundingPolicy: generalSettings.roundingPolicy
+      }, query);
+      await saveAppSetting('stockSettings', { allowNegativeStock: generalSettings.allowNegativeStock }, query);
+      await saveAppSetting('currencySettings', {
+        symbol: generalSettings.currencySymbol,
+        decimals: generalSettings.currencyDecimals,
+        position: generalSettings.currencyPosition
+      }, query);
 
       showNotification('Paramètres généraux sauvegardés avec succès', 'success');
     } catch (error) {
       console.error('Error saving general settings:', error);
-      showNotification('Erreur lors de la sauvegarde des paramètres généraux', 'error');
-    }
-  };
-
-  const handleBackup = async () => {
-    try {
-      const result = await backupDatabase();
-      if (result.success) {
-        showNotification(`Sauvegarde créée avec succès dans: ${result.path}`, 'success');
-      } else {
-        showNotification('Erreur lors de la sauvegarde', 'error');
-      }
-    } catch (error) {
-      console.error('Error backing up database:', error);
-      showNotification('Erreur lors de la sauvegarde de la base de données', 'error');
-    }
-  };
-
-  const handleRestore = async () => {
-    try {
-      const result = await restoreDatabase();
-      if (result.success) {
-        showNotification('Base de données restaurée avec succès. L\'application va redémarrer.', 'success');
-        window.location.reload();
-      } else {
-        showNotification('Restauration annulée ou échouée', 'warning');
-      }
-    } catch (error) {
-      console.error('Error restoring database:', error);
-      showNotification('Erreur lors de la restauration de la base de données', 'error');
+      showNotification(`Erreur lors de la sauvegarde des paramètres généraux: ${error instanceof Error ? error.message : 'Erreur inconnue'}`, 'error');
     }
   };
 
@@ -290,25 +184,16 @@ const Settings: React.FC = () => {
     }
   };
 
-  const resetNumbering = (docType: string) => {
-    if (window.confirm(`Êtes-vous sûr de vouloir remettre à zéro la numérotation des ${docType} ?`)) {
-      setNumberingSettings(prev => ({
-        ...prev,
-        [docType]: {
-          ...prev[docType as keyof typeof prev],
-          currentNumber: prev[docType as keyof typeof prev].startNumber
-        }
-      }));
-    }
-  };
-
   const tabs = [
     { id: 'company', label: 'Entreprise', icon: Building },
     { id: 'numbering', label: 'Numérotation', icon: Calculator },
     { id: 'general', label: 'Général', icon: SettingsIcon },
     { id: 'templates', label: 'Modèles', icon: FileText },
     { id: 'taxes', label: 'Taxes', icon: Calculator },
-    { id: 'security', label: 'Sécurité', icon: Shield }
+    { id: 'devises', label: 'Devises', icon: Coins },
+    { id: 'tarifs', label: 'Tarifs', icon: Tags },
+    { id: 'users', label: 'Utilisateurs', icon: Shield },
+    { id: 'backups', label: 'Sauvegardes', icon: HardDrive }
   ];
 
   if (!isReady) {
@@ -479,23 +364,22 @@ const Settings: React.FC = () => {
         <div className="bg-white rounded-lg shadow-sm border p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-6">Paramètres de numérotation</h3>
           
+          <p className="text-sm text-gray-500 mb-4">
+            Variables du format : {'{PREFIX}'}, {'{YYYY}'}, {'{YY}'} et {'{SEQ:n}'} (séquence sur n chiffres).
+            Lorsque le format contient l'année, la séquence repart du premier numéro à chaque exercice.
+            Les numéros sont attribués à l'enregistrement des documents, sans trou dans la séquence.
+          </p>
+
           <div className="space-y-6">
-            {Object.entries(numberingSettings).map(([docType, settings]) => (
+            {(Object.entries(numberingSettings) as [NumberingDocumentType, NumberingSettings][]).map(([docType, settings]) => (
               <div key={docType} className="border border-gray-200 rounded-lg p-4">
                 <div className="flex items-center justify-between mb-4">
-                  <h4 className="font-medium text-gray-900 capitalize">
-                    {docType === 'factures' ? 'Factures' :
-                     docType === 'devis' ? 'Devis' :
-                     docType === 'bonsLivraison' ? 'Bons de livraison' :
-                     'Commandes fournisseur'}
-                  </h4>
-                  <button
-                    onClick={() => resetNumbering(docType)}
-                    className="text-red-600 hover:text-red-800 text-sm flex items-center"
-                  >
-                    <RotateCcw className="w-4 h-4 mr-1" />
-                    Remettre à zéro
-                  </button>
+                  <h4 className="font-medium text-gray-900">{numberingLabels[docType]}</h4>
+                  {nextNumbers[docType] && (
+                    <span className="text-sm text-gray-500">
+                      Prochain numéro : <span className="font-medium text-gray-900">{nextNumbers[docType]}</span>
+                    </span>
+                  )}
                 </div>
                 
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -516,7 +400,7 @@ const Settings: React.FC = () => {
                   
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Numéro de départ
+                      Premier numéro
                     </label>
                     <input
                       type="number"
@@ -530,44 +414,22 @@ const Settings: React.FC = () => {
                     />
                   </div>
                   
-                  <div>
+                  <div className="md:col-span-2">
                     <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Numéro actuel
+                      Format
                     </label>
                     <input
-                      type="number"
-                      value={settings.currentNumber}
-                      onChange={(e) => setNumberingSettings(prev => ({
-                        ...prev,
-                        [docType]: { ...settings, currentNumber: parseInt(e.target.value) || 1 }
-                      }))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      min="1"
-                    />
-                  </div>
-                  
-                  <div className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={settings.includeYear}
+                      type="text"
+                      value={settings.pattern}
                       onChange={(e) => setNumberingSettings(prev => ({
                         ...prev,
-                        [docType]: { ...settings, includeYear: e.target.checked }
+                        [docType]: { ...settings, pattern: e.target.value }
                       }))}
-                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="{PREFIX}/{YYYY}/{SEQ:5}"
                     />
-                    <label className="ml-2 text-sm text-gray-700">
-                      Inclure l'année
-                    </label>
                   </div>
                 </div>
-                
-                <div className="mt-3 text-sm text-gray-500">
-                  Exemple: {settings.includeYear 
-                    ? `${settings.prefix}-${new Date().getFullYear()}-${String(settings.currentNumber).padStart(3, '0')}`
-                    : `${settings.prefix}-${String(settings.currentNumber).padStart(3, '0')}`
-                  }
-                </div>
               </div>
             ))}
           </div>
@@ -581,6 +443,37 @@ const Settings: React.FC = () => {
               Sauvegarder la numérotation
             </button>
           </div>
+
+          {/* Numbers of deleted documents */}
+          <div className="mt-8">
+            <h4 className="font-medium text-gray-900 mb-3">Numéros annulés</h4>
+            {voidedNumbers.length === 0 ? (
+              <p className="text-sm text-gray-500">Aucun numéro annulé</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 border">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Numéro</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Motif</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {voidedNumbers.map(voided => (
+                    <tr key={voided.id}>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {new Date(`${voided.created_at.replace(' ', 'T')}Z`).toLocaleString('fr-FR')}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{numberingLabels[voided.documentType] || voided.documentType}</td>
+                      <td className="px-4 py-2 text-sm font-medium text-gray-900">{voided.numero}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{voided.motif}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
         </div>
       )}
 
@@ -680,6 +573,21 @@ const Settings: React.FC = () => {
                   </label>
                 </div>
               </div>
+
+              <div className="p-4 border border-gray-200 rounded-lg mt-4">
+                <label className="block font-medium text-gray-900 mb-1">Arrondi des taxes</label>
+                <p className="text-sm text-gray-500 mb-2">
+                  Arrondir la FODEC et la TVA sur chaque ligne, ou une seule fois par taux sur le total du document
+                </p>
+                <select
+                  value={generalSettings.roundingPolicy}
+                  onChange={(e) => setGeneralSettings(prev => ({ ...prev, roundingPolicy: e.target.value as RoundingPolicy }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="ligne">Par ligne</option>
+                  <option value="document">Par taux, sur le document</option>
+                </select>
+              </div>
             </div>
 
             {/* Stock Settings */}
@@ -800,36 +708,6 @@ const Settings: React.FC = () => {
               </div>
             </div>
 
-            {/* Backup and Restore */}
-            <div className="border border-gray-200 rounded-lg p-4">
-              <h4 className="font-medium text-gray-900 mb-4">Sauvegarde et restauration</h4>
-              
-              <div className="flex space-x-4">
-                <button
-                  onClick={handleBackup}
-                  className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors flex items-center"
-                >
-                  <Download className="w-4 h-4 mr-2" />
-                  Sauvegarder la base de données
-                </button>
-                
-                <button
-                  onClick={handleRestore}
-                  className="bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 transition-colors flex items-center"
-                >
-                  <Upload className="w-4 h-4 mr-2" />
-                  Restaurer la base de données
-                </button>
-              </div>
-              
-              <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
-                <p className="text-sm text-yellow-800">
-                  <strong>Important :</strong> Effectuez régulièrement des sauvegardes de votre base de données. 
-                  La restauration remplacera toutes vos données actuelles.
-                </p>
-              </div>
-            </div>
-
             {/* Updates */}
             <div className="border border-gray-200 rounded-lg p-4">
               <h4 className="font-medium text-gray-900 mb-4">Mises à jour</h4>
@@ -856,275 +734,23 @@ const Settings: React.FC = () => {
         </div>
       )}
 
-      {/* Security Settings */}
-      {activeTab === 'security' && (
-        <div className="bg-white rounded-lg shadow-sm border p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-6">Paramètres de sécurité</h3>
-          
-          <div className="space-y-6">
-            <div className="border border-gray-200 rounded-lg p-4">
-              <h4 className="font-medium text-gray-900 mb-4">Protection par mot de passe</h4>
-              
-              <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg mb-4">
-                <div>
-                  <label className="font-medium text-gray-900">Activer la protection par mot de passe</label>
-                  <p className="text-sm text-gray-500 mt-1">
-                    Demander un mot de passe au démarrage de l'application
-                  </p>
-                </div>
-                <div className="relative inline-block w-12 mr-2 align-middle select-none">
-                  <input
-                    type="checkbox"
-                    id="toggle-password"
-                    checked={securitySettings.passwordEnabled}
-                    onChange={(e) => setSecuritySettings(prev => ({ 
-                      ...prev, 
-                      passwordEnabled: e.target.checked,
-                      password: '',
-                      confirmPassword: ''
-                    }))}
-                    className="sr-only"
-                  />
-                  <label
-                    htmlFor="toggle-password"
-                    className={`block overflow-hidden h-6 rounded-full cursor-pointer ${
-                      securitySettings.passwordEnabled ? 'bg-blue-600' : 'bg-gray-300'
-                    }`}
-                  >
-                    <span
-                      className={`block h-6 w-6 rounded-full bg-white shadow transform transition-transform ${
-                        securitySettings.passwordEnabled ? 'translate-x-6' : 'translate-x-0'
-                      }`}
-                    ></span>
-                  </label>
-                </div>
-              </div>
-
-              {securitySettings.passwordEnabled && (
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Nouveau mot de passe
-                    </label>
-                    <div className="relative">
-                      <input
-                        type={showPassword ? 'text' : 'password'}
-                        value={securitySettings.password}
-                        onChange={(e) => {
-                          setSecuritySettings(prev => ({ ...prev, password: e.target.value }));
-                          setPasswordError('');
-                        }}
-                        className={`w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent pr-10 ${
-                          passwordError ? 'border-red-300' : 'border-gray-300'
-                        }`}
-                        placeholder="Entrez votre mot de passe"
-                        disabled={isSubmitting}
-                      />
-                      <button
-                        type="button"
-                        onClick={() => setShowPassword(!showPassword)}
-                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                        disabled={isSubmitting}
-                      >
-                        {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                      </button>
-                    </div>
-                  </div>
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Confirmer le mot de passe
-                    </label>
-                    <div className="relative">
-                      <input
-                        type={showConfirmPassword ? 'text' : 'password'}
-                        value={securitySettings.confirmPassword}
-                        onChange={(e) => {
-                          setSecuritySettings(prev => ({ ...prev, confirmPassword: e.target.value }));
-                          setPasswordError('');
-                        }}
-                        className={`w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent pr-10 ${
-                          passwordError ? 'border-red-300' : 'border-gray-300'
-                        }`}
-                        placeholder="Confirmez votre mot de passe"
-                        disabled={isSubmitting}
-                      />
-                      <button
-                        type="button"
-                        onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                        disabled={isSubmitting}
-                      >
-                        {showConfirmPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                      </button>
-                    </div>
-                  </div>
-
-                  {passwordError && (
-                    <div className="text-red-600 text-sm">{passwordError}</div>
-                  )}
-
-                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-                    <div className="flex items-start">
-                      <Shield className="w-5 h-5 text-blue-600 mr-2 mt-0.5" />
-                      <div>
-                        <p className="text-sm text-blue-800 font-medium">Conseils de sécurité</p>
-                        <ul className="text-xs text-blue-700 mt-1 space-y-1">
-                          <li>• Utilisez un mot de passe d'au moins 4 caractères</li>
-                          <li>• Évitez les mots de passe trop simples</li>
-                          <li>• Gardez votre mot de passe en sécurité</li>
-                        </ul>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              )}
-            </div>
-          </div>
-
-          <div className="mt-6">
-            <button
-              onClick={saveGeneralSettings}
-              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
-              disabled={isSubmitting}
-            >
-              <Save className="w-4 h-4 mr-2" />
-              {isSubmitting ? 'Sauvegarde...' : 'Sauvegarder les paramètres généraux'}
-            </button>
-          </div>
-        </div>
-      )}
-
-      {/* Security Settings Tab */}
-      {activeTab === 'security' && (
-        <div className="bg-white rounded-lg shadow-sm border p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-6">Paramètres de sécurité</h3>
-          
-          <div className="space-y-6">
-            <div className="border border-gray-200 rounded-lg p-4">
-              <h4 className="font-medium text-gray-900 mb-4">Protection par mot de passe</h4>
-              
-              <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg mb-4">
-                <div>
-                  <label className="font-medium text-gray-900">Activer la protection par mot de passe</label>
-                  <p className="text-sm text-gray-500 mt-1">
-                    Demander un mot de passe au démarrage de l'application
-                  </p>
-                </div>
-                <div className="relative inline-block w-12 mr-2 align-middle select-none">
-                  <input
-                    type="checkbox"
-                    id="toggle-password-security"
-                    checked={securitySettings.passwordEnabled}
-                    onChange={(e) => setSecuritySettings(prev => ({ 
-                      ...prev, 
-                      passwordEnabled: e.target.checked,
-                      password: '',
-                      confirmPassword: ''
-                    }))}
-                    className="sr-only"
-                  />
-                  <label
-                    htmlFor="toggle-password-security"
-                    className={`block overflow-hidden h-6 rounded-full cursor-pointer ${
-                      securitySettings.passwordEnabled ? 'bg-blue-600' : 'bg-gray-300'
-                    }`}
-                  >
-                    <span
-                      className={`block h-6 w-6 rounded-full bg-white shadow transform transition-transform ${
-                        securitySettings.passwordEnabled ? 'translate-x-6' : 'translate-x-0'
-                      }`}
-                    ></span>
-                  </label>
-                </div>
-              </div>
-
-              {securitySettings.passwordEnabled && (
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Nouveau mot de passe
-                    </label>
-                    <div className="relative">
-                      <input
-                        type={showPassword ? 'text' : 'password'}
-                        value={securitySettings.password}
-                        onChange={(e) => {
-                          setSecuritySettings(prev => ({ ...prev, password: e.target.value }));
-                          setPasswordError('');
-                        }}
-                        className={`w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent pr-10 ${
-                          passwordError ? 'border-red-300' : 'border-gray-300'
-                        }`}
-                        placeholder="Entrez votre mot de passe"
-                        disabled={isSubmitting}
-                      />
-                      <button
-                        type="button"
-                        onClick={() => setShowPassword(!showPassword)}
-                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                        disabled={isSubmitting}
-                      >
-                        {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                      </button>
-                    </div>
-                  </div>
+      {/* User accounts */}
+      {activeTab === 'users' && <UserSettings />}
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Confirmer le mot de passe
-                    </label>
-                    <div className="relative">
-                      <input
-                        type={showConfirmPassword ? 'text' : 'password'}
-                        value={securitySettings.confirmPassword}
-                        onChange={(e) => {
-                          setSecuritySettings(prev => ({ ...prev, confirmPassword: e.target.value }));
-                          setPasswordError('');
-                        }}
-                        className={`w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent pr-10 ${
-                          passwordError ? 'border-red-300' : 'border-gray-300'
-                        }`}
-                        placeholder="Confirmez votre mot de passe"
-                        disabled={isSubmitting}
-                      />
-                      <button
-                        type="button"
-                        onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                        disabled={isSubmitting}
-                      >
-                        {showConfirmPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                      </button>
-                    </div>
-                  </div>
-
-                  {passwordError && (
-                    <div className="text-red-600 text-sm">{passwordError}</div>
-                  )}
-                </div>
-              )}
-
-              <div className="mt-4">
-                <button
-                  onClick={saveSecuritySettings}
-                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
-                  disabled={isSubmitting}
-                >
-                  <Save className="w-4 h-4 mr-2" />
-                  {isSubmitting ? 'Sauvegarde...' : 'Sauvegarder la sécurité'}
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
+      {/* Backups */}
+      {activeTab === 'backups' && <BackupSettings />}
 
       {/* Document Templates */}
       {activeTab === 'templates' && <DocumentTemplateSettings />}
 
       {/* Tax Settings */}
       {activeTab === 'taxes' && <TaxSettings />}
+
+      {/* Exchange rates */}
+      {activeTab === 'devises' && <ExchangeRateSettings />}
+
+      {/* Price lists */}
+      {activeTab === 'tarifs' && <PriceListSettings />}
     </div>
   );
 };
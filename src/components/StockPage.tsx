@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Package, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, Plus, Minus, RefreshCw, AlertTriangle, CheckCircle, Store, ShoppingCart, Settings, Save, X } from 'lucide-react';
-import { Produit } from '../types';
+import { Produit, StockSettings } from '../types';
 import { useDatabase } from '../hooks/useDatabase';
 import { formatCurrency } from '../utils/currency';
 import { useNotification } from '../contexts/NotificationContext';
+import { getAppSetting, saveAppSetting } from '../utils/appSettings';
 
 interface StockMovement {
   id: string;
@@ -18,10 +19,6 @@ interface StockMovement {
   sourceNumero: string;
 }
 
-interface StockSettings {
-  allowNegativeStock: boolean;
-}
-
 const StockPage: React.FC = () => {
   const [produits, setProduits] = useState<Produit[]>([]);
   const [stockMovements, setStockMovements] = useState<StockMovement[]>([]);
@@ -34,17 +31,14 @@ const StockPage: React.FC = () => {
   const [selectedProduct, setSelectedProduct] = useState<Produit | null>(null);
   const [showMovements, setShowMovements] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
-  const [stockSettings, setStockSettings] = useState<StockSettings>({
-    allowNegativeStock: true
-  });
+  const [stockSettings, setStockSettings] = useState<StockSettings>(() => getAppSetting('stockSettings'));
   
-  const { query, isElectron, isReady } = useDatabase();
+  const { query, trackStockMovement, isElectron, isReady } = useDatabase();
   const { showNotification } = useNotification();
 
   useEffect(() => {
     if (isReady) {
       loadProduits();
-      loadStockSettings();
     }
   }, [isReady]);
 
@@ -69,24 +63,6 @@ const StockPage: React.FC = () => {
     }
   };
 
-  const loadStockSettings = async () => {
-    try {
-      if (isElectron) {
-        const result = await query('SELECT value FROM settings WHERE key = ?', ['stockSettings']);
-        if (result.length > 0) {
-          setStockSettings(JSON.parse(result[0].value));
-        }
-      } else {
-        const savedSettings = localStorage.getItem('stockSettings');
-        if (savedSettings) {
-          setStockSettings(JSON.parse(savedSettings));
-        }
-      }
-    } catch (error) {
-      console.error('Error loading stock settings:', error);
-    }
-  };
-
   const saveStockSettings = async () => {
     if (!isReady) {
       showNotification('Base de données non prête. Veuillez patienter.', 'warning');
@@ -94,14 +70,7 @@ const StockPage: React.FC = () => {
     }
     
     try {
-      if (isElectron) {
-        await query(
-          'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
-          ['stockSettings', JSON.stringify(stockSettings)]
-        );
-      } else {
-        localStorage.setItem('stockSettings', JSON.stringify(stockSettings));
-      }
+      await saveAppSetting('stockSettings', stockSettings, query);
       showNotification('Paramètres de stock sauvegardés avec succès', 'success');
       setShowSettings(false);
     } catch (error) {
@@ -260,30 +229,23 @@ const StockPage: React.FC = () => {
 
     try {
       if (isElectron) {
-        // Update product stock
-        await query(
-          'UPDATE produits SET stock = stock + ? WHERE id = ?',
-          [adjustment, produitId]
-        );
-        
-        // Record stock movement
-        await query(
-          `INSERT INTO stock_movements 
-           (id, produitId, produitNom, produitRef, type, quantite, date, source, sourceId, sourceNumero)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            uuidv4(),
-            produitId,
-            produits.find(p => p.id === produitId)?.nom || '',
-            produits.find(p => p.id === produitId)?.ref || null,
-            adjustment > 0 ? 'entree' : 'sortie',
-            Math.abs(adjustment),
-            new Date().toISOString(),
-            'ajustement_manuel',
-            '',
-            'Ajustement manuel'
-          ]
-        );
+        // Applied with its stock movement by the main process
+        const produit = produits.find(p => p.id === produitId);
+        const result = await trackStockMovement({
+          id: uuidv4(),
+          produitId,
+          produitNom: produit?.nom || '',
+          produitRef: produit?.ref || null,
+          type: adjustment > 0 ? 'entree' : 'sortie',
+          quantite: Math.abs(adjustment),
+          date: new Date().toISOString(),
+          source: 'ajustement_manuel',
+          sourceId: '',
+          sourceNumero: 'Ajustement manuel'
+        });
+        if (!result.success) {
+          throw new Error(result.error);
+        }
       } else {
         // For web version, update in localStorage
         const updatedProduits = produits.map(p => {
@@ -747,7 +709,10 @@ const StockPage: React.FC = () => {
                             {movement.source === 'facture' ? 'Facture' : 
                              movement.source === 'bon_livraison' ? 'Bon de livraison' :
                              movement.source === 'commande' ? 'Commande fournisseur' :
-                             movement.source === 'ajustement_manuel' ? 'Ajustement manuel' : 
+                             movement.source === 'avoir' ? 'Avoir' :
+                             movement.source === 'bon_reception' ? 'Bon de réception' :
+                             movement.source === 'ajustement_manuel' ? 'Ajustement manuel' :
+                             movement.source === 'import' ? 'Import' : 
                              movement.source}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-blue-600">
@@ -0,0 +1,382 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Edit, Trash2, Save, Users, Shield, CheckCircle, AlertTriangle, X } from 'lucide-react';
+import { Utilisateur, UserRole } from '../types';
+import { useDatabase } from '../hooks/useDatabase';
+import { v4 as uuidv4 } from 'uuid';
+import { useNotification } from '../contexts/NotificationContext';
+import { useSession } from '../hooks/useSession';
+
+const roleLabels: Record<UserRole, { label: string; description: string }> = {
+  admin: { label: 'Administrateur', description: 'Accès complet, y compris les paramètres et les utilisateurs' },
+  vente: { label: 'Vente', description: 'Factures, devis, bons de livraison, paiements, clients et produits' },
+  stock: { label: 'Stock', description: 'Produits, stock, bons de livraison, commandes et fournisseurs' },
+  comptable: { label: 'Comptable', description: 'Factures, factures fournisseur, paiements et rapports' }
+};
+
+const UserSettings: React.FC = () => {
+  const [users, setUsers] = useState<Utilisateur[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingUser, setEditingUser] = useState<Utilisateur | null>(null);
+  const [formData, setFormData] = useState({
+    login: '',
+    nom: '',
+    role: 'vente' as UserRole,
+    actif: true,
+    password: '',
+    confirmPassword: ''
+  });
+
+  const { listUsers, saveUser, deleteUser, isReady } = useDatabase();
+  const { showNotification } = useNotification();
+  const { session, refreshSession } = useSession();
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setUsers(await listUsers());
+    } catch (error) {
+      console.error('Error loading users:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [listUsers]);
+
+  useEffect(() => {
+    if (isReady) {
+      loadUsers();
+    }
+  }, [isReady, loadUsers]);
+
+  const handleCreateNew = () => {
+    setEditingUser(null);
+    setFormData({
+      login: '',
+      nom: '',
+      // The first account has to be able to manage the others
+      role: users.length === 0 ? 'admin' : 'vente',
+      actif: true,
+      password: '',
+      confirmPassword: ''
+    });
+    setShowForm(true);
+  };
+
+  const handleEdit = (user: Utilisateur) => {
+    setEditingUser(user);
+    setFormData({
+      login: user.login,
+      nom: user.nom,
+      role: user.role,
+      actif: user.actif,
+      password: '',
+      confirmPassword: ''
+    });
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!formData.login.trim() || !formData.nom.trim()) {
+      showNotification('L\'identifiant et le nom sont obligatoires', 'warning');
+      return;
+    }
+
+    if (formData.password !== formData.confirmPassword) {
+      showNotification('Les mots de passe ne correspondent pas', 'warning');
+      return;
+    }
+
+    try {
+      const result = await saveUser({
+        id: editingUser?.id || uuidv4(),
+        login: formData.login.trim(),
+        nom: formData.nom.trim(),
+        role: formData.role,
+        actif: formData.actif
+      }, formData.password || undefined);
+
+      if (!result.success) {
+        showNotification(result.error || 'Erreur lors de la sauvegarde de l\'utilisateur', 'error');
+        return;
+      }
+
+      setShowForm(false);
+      setEditingUser(null);
+      loadUsers();
+      await refreshSession();
+      showNotification('Utilisateur sauvegardé avec succès', 'success');
+    } catch (error) {
+      console.error('Error saving user:', error);
+      showNotification('Erreur lors de la sauvegarde de l\'utilisateur', 'error');
+    }
+  };
+
+  const handleDelete = async (user: Utilisateur) => {
+    if (window.confirm(`Êtes-vous sûr de vouloir supprimer le compte ${user.login} ?`)) {
+      try {
+        const result = await deleteUser(user.id);
+        if (!result.success) {
+          showNotification(result.error || 'Erreur lors de la suppression de l\'utilisateur', 'error');
+          return;
+        }
+        loadUsers();
+        await refreshSession();
+        showNotification('Utilisateur supprimé avec succès', 'success');
+      } catch (error) {
+        console.error('Error deleting user:', error);
+        showNotification('Erreur lors de la suppression de l\'utilisateur', 'error');
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Utilisateurs</h3>
+          <p className="text-sm text-gray-600">Gérez les comptes et les profils d'accès</p>
+        </div>
+        <button
+          onClick={handleCreateNew}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Nouvel utilisateur</span>
+        </button>
+      </div>
+
+      {!session.usersEnabled && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-start">
+            <AlertTriangle className="w-5 h-5 text-yellow-600 mr-2 mt-0.5" />
+            <p className="text-sm text-yellow-800">
+              Aucun compte actif : l'application est accessible sans identification.
+              Créez un compte administrateur pour protéger l'accès à vos données.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Roles */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {(Object.keys(roleLabels) as UserRole[]).map(role => (
+          <div key={role} className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <div className="flex items-center mb-1">
+              <Shield className="w-4 h-4 text-blue-600 mr-2" />
+              <h4 className="font-medium text-blue-900">{roleLabels[role].label}</h4>
+            </div>
+            <p className="text-sm text-blue-700">{roleLabels[role].description}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Users Table */}
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Identifiant
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Nom
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Profil
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Statut
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {users.map(user => (
+              <tr key={user.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {user.login}
+                  {session.user?.id === user.id && <span className="ml-2 text-xs text-gray-500">(vous)</span>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{user.nom}</td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
+                    {roleLabels[user.role]?.label || user.role}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full ${
+                    user.actif ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                  }`}>
+                    {user.actif ? (
+                      <>
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Actif
+                      </>
+                    ) : (
+                      <>
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        Inactif
+                      </>
+                    )}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <div className="flex items-center justify-end space-x-2">
+                    <button
+                      onClick={() => handleEdit(user)}
+                      className="text-indigo-600 hover:text-indigo-900 p-1 hover:bg-indigo-50 rounded transition-colors"
+                      title="Modifier"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    {session.user?.id !== user.id && (
+                      <button
+                        onClick={() => handleDelete(user)}
+                        className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded transition-colors"
+                        title="Supprimer"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {users.length === 0 && (
+          <div className="text-center py-12">
+            <Users className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500">Aucun utilisateur</p>
+          </div>
+        )}
+      </div>
+
+      {/* User Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h2 className="text-xl font-semibold">
+                {editingUser ? 'Modifier l\'utilisateur' : 'Nouvel utilisateur'}
+              </h2>
+              <button
+                onClick={() => setShowForm(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6">
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Identifiant *
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.login}
+                    onChange={(e) => setFormData(prev => ({ ...prev, login: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Ex: caisse"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Nom *
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.nom}
+                    onChange={(e) => setFormData(prev => ({ ...prev, nom: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Profil *
+                  </label>
+                  <select
+                    value={formData.role}
+                    onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as UserRole }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {(Object.keys(roleLabels) as UserRole[]).map(role => (
+                      <option key={role} value={role}>{roleLabels[role].label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {editingUser ? 'Nouveau mot de passe' : 'Mot de passe *'}
+                  </label>
+                  <input
+                    type="password"
+                    value={formData.password}
+                    onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder={editingUser ? 'Laisser vide pour le conserver' : 'Au moins 4 caractères'}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Confirmer le mot de passe
+                  </label>
+                  <input
+                    type="password"
+                    value={formData.confirmPassword}
+                    onChange={(e) => setFormData(prev => ({ ...prev, confirmPassword: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={formData.actif}
+                    onChange={(e) => setFormData(prev => ({ ...prev, actif: e.target.checked }))}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <label className="ml-2 text-sm text-gray-700">Compte actif</label>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-4 p-6 border-t bg-gray-50">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Annuler
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Enregistrer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserSettings;
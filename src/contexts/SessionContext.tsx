@@ -0,0 +1,21 @@
+import React, { ReactNode, useCallback } from 'react';
+import { Session } from '../types';
+import { SessionContext } from '../hooks/useSession';
+
+interface SessionProviderProps {
+  session: Session;
+  refreshSession: () => Promise<void>;
+  logout: () => Promise<void>;
+  children: ReactNode;
+}
+
+// The session itself is held by App, which shows the login screen when there is none
+export const SessionProvider: React.FC<SessionProviderProps> = ({ session, refreshSession, logout, children }) => {
+  const canAccess = useCallback((page: string) => session.pages.includes(page), [session]);
+
+  return (
+    <SessionContext.Provider value={{ session, canAccess, refreshSession, logout }}>
+      {children}
+    </SessionContext.Provider>
+  );
+};
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { AppSettings, AppSettingKey } from '../types';
+import { getAppSetting, subscribeAppSettings } from '../utils/appSettings';
+
+// Current value of a setting, re-rendering the component when it is saved or reloaded
+export function useAppSetting<Key extends AppSettingKey>(key: Key): AppSettings[Key] {
+  const [value, setValue] = useState(() => getAppSetting(key));
+
+  useEffect(() => {
+    setValue(getAppSetting(key));
+    return subscribeAppSettings(changedKey => {
+      if (changedKey === key) {
+        setValue(getAppSetting(key));
+      }
+    });
+  }, [key]);
+
+  return value;
+}
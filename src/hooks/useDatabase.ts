@@ -1,16 +1,66 @@
 import { useState, useEffect, useCallback } from 'react';
+import { Client, FactureFilter, RepositoryResult, SavedDocumentTypes, DeletableDocumentType, DocumentStockMovement, NumberingDocumentType, NumeroAnnule, Facture, Avoir, AuditLogEntry, Session, Utilisateur, BackupEntry, BackupArchiveManifest, TauxChange, ListePrix, Payment, PaiementFournisseur, ImportRecord, ImportRecordsResult, Produit, Fournisseur, FactureFournisseur } from '../types';
 
 declare global {
   interface Window {
     electronAPI: {
       dbQuery: (query: string, params?: any[]) => Promise<any>;
-      getFactures: () => Promise<any[]>;
+      listClients: () => Promise<Client[]>;
+      saveClient: (client: Client) => Promise<RepositoryResult & { client?: Client }>;
+      deleteClient: (clientId: string) => Promise<RepositoryResult>;
+      deleteProduit: (produitId: string) => Promise<RepositoryResult>;
+      saveProduit: (produit: Produit) => Promise<RepositoryResult>;
+      saveFournisseur: (fournisseur: Fournisseur) => Promise<RepositoryResult>;
+      deleteFournisseur: (fournisseurId: string) => Promise<RepositoryResult>;
+      listFactures: (filter?: FactureFilter) => Promise<Facture[]>;
+      saveDocument: <T extends keyof SavedDocumentTypes>(
+        type: T,
+        document: SavedDocumentTypes[T],
+        stockMovements?: DocumentStockMovement[]
+      ) => Promise<RepositoryResult & { document?: SavedDocumentTypes[T] }>;
+      previewDocumentNumber: (documentType: NumberingDocumentType, documentDate?: string) => Promise<string>;
+      listVoidedNumbers: () => Promise<NumeroAnnule[]>;
+      deleteDocument: (type: DeletableDocumentType, documentId: string, stockMovements?: DocumentStockMovement[]) => Promise<RepositoryResult>;
+      updateDocumentStatut: (type: 'devis' | 'commandeFournisseur', documentId: string, statut: string) => Promise<RepositoryResult>;
+      deleteFacture: (factureId: string) => Promise<RepositoryResult>;
+      updateFactureStatut: (factureId: string, statut: Facture['statut']) => Promise<RepositoryResult>;
+      listAuditLog: (entityType: AuditLogEntry['entityType'], entityId: string) => Promise<AuditLogEntry[]>;
+      getSession: () => Promise<Session>;
+      login: (login: string, password: string) => Promise<RepositoryResult & { session?: Session }>;
+      logout: () => Promise<RepositoryResult>;
+      listUsers: () => Promise<Utilisateur[]>;
+      saveUser: (user: Utilisateur, password?: string) => Promise<RepositoryResult & { user?: Utilisateur; session?: Session }>;
+      deleteUser: (userId: string) => Promise<RepositoryResult>;
+      listExchangeRates: () => Promise<TauxChange[]>;
+      getExchangeRate: (devise: string, date: string) => Promise<TauxChange | null>;
+      saveExchangeRate: (rate: TauxChange) => Promise<RepositoryResult>;
+      deleteExchangeRate: (rateId: string) => Promise<RepositoryResult>;
+      listPriceLists: () => Promise<ListePrix[]>;
+      savePriceList: (liste: ListePrix) => Promise<RepositoryResult>;
+      deletePriceList: (listeId: string) => Promise<RepositoryResult>;
+      getAvoirs: () => Promise<Avoir[]>;
+      cancelAvoir: (avoirId: string) => Promise<RepositoryResult>;
+      savePayment: (payment: Payment) => Promise<RepositoryResult>;
+      deletePayment: (paymentId: string) => Promise<RepositoryResult>;
+      createFactureFournisseur: (factureFournisseur: FactureFournisseur) => Promise<RepositoryResult>;
+      cancelFactureFournisseur: (factureFournisseurId: string) => Promise<RepositoryResult>;
+      deleteFactureFournisseur: (factureFournisseurId: string) => Promise<RepositoryResult>;
+      savePaiementFournisseur: (paiement: PaiementFournisseur) => Promise<RepositoryResult>;
+      deletePaiementFournisseur: (paiementId: string) => Promise<RepositoryResult>;
+      importRecords: (type: 'clients' | 'produits', records: ImportRecord[]) => Promise<ImportRecordsResult>;
       trackStockMovement: (movement: any) => Promise<{ success: boolean; error?: string; currentStock?: number }>;
       savePDF: (pdfData: Uint8Array, filename: string) => Promise<{ success: boolean; path?: string; error?: string }>;
+      saveExcel: (excelData: Uint8Array, filename: string) => Promise<{ success: boolean; path?: string; error?: string }>;
+      saveTEIF: (factureId: string, xmlContent: string, filename: string) => Promise<{ success: boolean; path?: string; error?: string }>;
       checkForUpdates: () => Promise<{ updateAvailable: boolean; version?: string; error?: string }>;
       getAppVersion: () => Promise<string>;
       backupDatabase: () => Promise<{ success: boolean; path?: string; error?: string }>;
-      restoreDatabase: () => Promise<{ success: boolean; error?: string }>;
+      restoreDatabase: (backupPath?: string) => Promise<{ success: boolean; error?: string }>;
+      runBackup: () => Promise<{ success: boolean; entry?: BackupEntry; error?: string }>;
+      listBackups: () => Promise<BackupEntry[]>;
+      chooseBackupFolder: () => Promise<{ success: boolean; path?: string; error?: string }>;
+      exportBackupArchive: (password: string) => Promise<{ success: boolean; path?: string; manifest?: BackupArchiveManifest; error?: string }>;
+      restoreBackupArchive: (password: string) => Promise<{ success: boolean; manifest?: BackupArchiveManifest; error?: string }>;
       activateApp: (activationCode: string) => Promise<{ success: boolean; error?: string }>;
       checkActivation: () => Promise<{ 
         activated: boolean; 
@@ -88,20 +138,634 @@ export function useDatabase() {
     }
   }, []);
 
-  const getFactures = useCallback(async () => {
+  const listClients = useCallback(async () => {
     if (!window.electronAPI) {
       throw new Error('Database not available. This application must run in its desktop environment.');
     }
     
     try {
       setPendingQueries(prev => prev + 1);
-      
-      // Add a small delay to prevent UI blocking
-      await new Promise(resolve => setTimeout(resolve, 10));
-      
-      return await window.electronAPI.getFactures();
+      return await window.electronAPI.listClients();
+    } catch (error) {
+      console.error('Error listing clients:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const saveClient = useCallback(async (client: Client) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.saveClient(client);
+    } catch (error) {
+      console.error('Error saving client:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const deleteClient = useCallback(async (clientId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.deleteClient(clientId);
+    } catch (error) {
+      console.error('Error deleting client:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const deleteProduit = useCallback(async (produitId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.deleteProduit(produitId);
+    } catch (error) {
+      console.error('Error deleting produit:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const saveProduit = useCallback(async (produit: Produit) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.saveProduit(produit);
+    } catch (error) {
+      console.error('Error saving produit:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const saveFournisseur = useCallback(async (fournisseur: Fournisseur) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.saveFournisseur(fournisseur);
+    } catch (error) {
+      console.error('Error saving fournisseur:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const deleteFournisseur = useCallback(async (fournisseurId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.deleteFournisseur(fournisseurId);
+    } catch (error) {
+      console.error('Error deleting fournisseur:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const listFactures = useCallback(async (filter: FactureFilter = {}) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.listFactures(filter);
+    } catch (error) {
+      console.error('Error listing factures:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  // Numbering happens in the transaction: send new documents without a numero
+  const saveDocument = useCallback(async <T extends keyof SavedDocumentTypes>(
+    type: T,
+    document: SavedDocumentTypes[T],
+    stockMovements: DocumentStockMovement[] = []
+  ) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.saveDocument(type, document, stockMovements);
+    } catch (error) {
+      console.error(`Error saving ${type}:`, error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  // Preview only: the number is assigned when the document is saved
+  const previewDocumentNumber = useCallback(async (documentType: NumberingDocumentType, documentDate?: Date) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.previewDocumentNumber(documentType, documentDate?.toISOString());
+    } catch (error) {
+      console.error('Error previewing document number:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const listVoidedNumbers = useCallback(async () => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.listVoidedNumbers();
+    } catch (error) {
+      console.error('Error listing voided numbers:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const deleteDocument = useCallback(async (
+    type: DeletableDocumentType,
+    documentId: string,
+    stockMovements: DocumentStockMovement[] = []
+  ) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.deleteDocument(type, documentId, stockMovements);
+    } catch (error) {
+      console.error(`Error deleting ${type}:`, error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const updateDocumentStatut = useCallback(async (type: 'devis' | 'commandeFournisseur', documentId: string, statut: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.updateDocumentStatut(type, documentId, statut);
+    } catch (error) {
+      console.error('Error updating document statut:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const deleteFacture = useCallback(async (factureId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.deleteFacture(factureId);
+    } catch (error) {
+      console.error('Error deleting facture:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const updateFactureStatut = useCallback(async (factureId: string, statut: Facture['statut']) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.updateFactureStatut(factureId, statut);
+    } catch (error) {
+      console.error('Error updating facture statut:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const listAuditLog = useCallback(async (entityType: AuditLogEntry['entityType'], entityId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.listAuditLog(entityType, entityId);
+    } catch (error) {
+      console.error('Error listing audit log:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const getSession = useCallback(async () => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.getSession();
+    } catch (error) {
+      console.error('Error getting session:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const login = useCallback(async (login: string, password: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.login(login, password);
+    } catch (error) {
+      console.error('Error logging in:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const logout = useCallback(async () => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.logout();
+    } catch (error) {
+      console.error('Error logging out:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const listUsers = useCallback(async () => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.listUsers();
+    } catch (error) {
+      console.error('Error listing users:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const saveUser = useCallback(async (user: Utilisateur, password?: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.saveUser(user, password);
+    } catch (error) {
+      console.error('Error saving user:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const deleteUser = useCallback(async (userId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.deleteUser(userId);
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const listExchangeRates = useCallback(async () => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.listExchangeRates();
+    } catch (error) {
+      console.error('Error listing exchange rates:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const getExchangeRate = useCallback(async (devise: string, date: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.getExchangeRate(devise, date);
+    } catch (error) {
+      console.error('Error getting exchange rate:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const saveExchangeRate = useCallback(async (rate: TauxChange) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.saveExchangeRate(rate);
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const deleteExchangeRate = useCallback(async (rateId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.deleteExchangeRate(rateId);
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const listPriceLists = useCallback(async () => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.listPriceLists();
+    } catch (error) {
+      console.error('Error listing price lists:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const savePriceList = useCallback(async (liste: ListePrix) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.savePriceList(liste);
+    } catch (error) {
+      console.error('Error saving price list:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const deletePriceList = useCallback(async (listeId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.deletePriceList(listeId);
+    } catch (error) {
+      console.error('Error deleting price list:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const getAvoirs = useCallback(async () => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.getAvoirs();
+    } catch (error) {
+      console.error('Error getting avoirs:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const cancelAvoir = useCallback(async (avoirId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.cancelAvoir(avoirId);
+    } catch (error) {
+      console.error('Error cancelling avoir:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const savePayment = useCallback(async (payment: Payment) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.savePayment(payment);
+    } catch (error) {
+      console.error('Error saving payment:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const deletePayment = useCallback(async (paymentId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.deletePayment(paymentId);
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const createFactureFournisseur = useCallback(async (factureFournisseur: FactureFournisseur) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.createFactureFournisseur(factureFournisseur);
+    } catch (error) {
+      console.error('Error creating supplier invoice:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const cancelFactureFournisseur = useCallback(async (factureFournisseurId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.cancelFactureFournisseur(factureFournisseurId);
+    } catch (error) {
+      console.error('Error cancelling supplier invoice:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const deleteFactureFournisseur = useCallback(async (factureFournisseurId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.deleteFactureFournisseur(factureFournisseurId);
+    } catch (error) {
+      console.error('Error deleting supplier invoice:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const savePaiementFournisseur = useCallback(async (paiement: PaiementFournisseur) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.savePaiementFournisseur(paiement);
+    } catch (error) {
+      console.error('Error saving supplier payment:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const deletePaiementFournisseur = useCallback(async (paiementId: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.deletePaiementFournisseur(paiementId);
+    } catch (error) {
+      console.error('Error deleting supplier payment:', error);
+      throw error;
+    } finally {
+      setPendingQueries(prev => Math.max(0, prev - 1));
+    }
+  }, []);
+
+  const importRecords = useCallback(async (type: 'clients' | 'produits', records: ImportRecord[]) => {
+    if (!window.electronAPI) {
+      throw new Error('Database not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      setPendingQueries(prev => prev + 1);
+      return await window.electronAPI.importRecords(type, records);
     } catch (error) {
-      console.error('Error getting factures:', error);
+      console.error('Error importing records:', error);
       throw error;
     } finally {
       setPendingQueries(prev => Math.max(0, prev - 1));
@@ -137,6 +801,32 @@ export function useDatabase() {
     }
   }, []);
 
+  const saveExcel = useCallback(async (excelData: Uint8Array, filename: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Excel export not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      return await window.electronAPI.saveExcel(excelData, filename);
+    } catch (error) {
+      console.error('Error saving Excel file:', error);
+      throw error;
+    }
+  }, []);
+
+  const saveTEIF = useCallback(async (factureId: string, xmlContent: string, filename: string) => {
+    if (!window.electronAPI) {
+      throw new Error('TEIF export not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      return await window.electronAPI.saveTEIF(factureId, xmlContent, filename);
+    } catch (error) {
+      console.error('Error saving TEIF:', error);
+      throw error;
+    }
+  }, []);
+
   const backupDatabase = useCallback(async () => {
     if (!window.electronAPI) {
       throw new Error('Database backup not available. This application must run in its desktop environment.');
@@ -150,19 +840,84 @@ export function useDatabase() {
     }
   }, []);
 
-  const restoreDatabase = useCallback(async () => {
+  const restoreDatabase = useCallback(async (backupPath?: string) => {
     if (!window.electronAPI) {
       throw new Error('Database restore not available. This application must run in its desktop environment.');
     }
     
     try {
-      return await window.electronAPI.restoreDatabase();
+      return await window.electronAPI.restoreDatabase(backupPath);
     } catch (error) {
       console.error('Error restoring database:', error);
       throw error;
     }
   }, []);
 
+  const runBackup = useCallback(async () => {
+    if (!window.electronAPI) {
+      throw new Error('Database backup not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      return await window.electronAPI.runBackup();
+    } catch (error) {
+      console.error('Error running backup:', error);
+      throw error;
+    }
+  }, []);
+
+  const listBackups = useCallback(async () => {
+    if (!window.electronAPI) {
+      throw new Error('Database backup not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      return await window.electronAPI.listBackups();
+    } catch (error) {
+      console.error('Error listing backups:', error);
+      throw error;
+    }
+  }, []);
+
+  const chooseBackupFolder = useCallback(async () => {
+    if (!window.electronAPI) {
+      throw new Error('Database backup not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      return await window.electronAPI.chooseBackupFolder();
+    } catch (error) {
+      console.error('Error choosing backup folder:', error);
+      throw error;
+    }
+  }, []);
+
+  const exportBackupArchive = useCallback(async (password: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database backup not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      return await window.electronAPI.exportBackupArchive(password);
+    } catch (error) {
+      console.error('Error exporting backup archive:', error);
+      throw error;
+    }
+  }, []);
+
+  const restoreBackupArchive = useCallback(async (password: string) => {
+    if (!window.electronAPI) {
+      throw new Error('Database restore not available. This application must run in its desktop environment.');
+    }
+    
+    try {
+      return await window.electronAPI.restoreBackupArchive(password);
+    } catch (error) {
+      console.error('Error restoring backup archive:', error);
+      throw error;
+    }
+  }, []);
+
   const activateApp = useCallback(async (activationCode: string) => {
     if (!window.electronAPI) {
       throw new Error('Activation not available. This application must run in its desktop environment.');
@@ -204,11 +959,56 @@ export function useDatabase() {
     dbError,
     isBusy: pendingQueries > 0,
     query,
-    getFactures,
+    listClients,
+    saveClient,
+    deleteClient,
+    deleteProduit,
+    saveProduit,
+    saveFournisseur,
+    deleteFournisseur,
+    listFactures,
+    saveDocument,
+    previewDocumentNumber,
+    listVoidedNumbers,
+    deleteDocument,
+    updateDocumentStatut,
+    deleteFacture,
+    updateFactureStatut,
+    listAuditLog,
+    getSession,
+    login,
+    logout,
+    listUsers,
+    saveUser,
+    deleteUser,
+    listExchangeRates,
+    getExchangeRate,
+    saveExchangeRate,
+    deleteExchangeRate,
+    listPriceLists,
+    savePriceList,
+    deletePriceList,
+    getAvoirs,
+    cancelAvoir,
+    savePayment,
+    deletePayment,
+    createFactureFournisseur,
+    cancelFactureFournisseur,
+    deleteFactureFournisseur,
+    savePaiementFournisseur,
+    deletePaiementFournisseur,
+    importRecords,
     trackStockMovement,
     savePDF,
+    saveExcel,
+    saveTEIF,
     backupDatabase,
     restoreDatabase,
+    runBackup,
+    listBackups,
+    chooseBackupFolder,
+    exportBackupArchive,
+    restoreBackupArchive,
     activateApp,
     checkActivation,
     quitApp
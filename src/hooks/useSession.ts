@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { Session } from '../types';
+
+interface SessionContextType {
+  session: Session;
+  canAccess: (page: string) => boolean;
+  refreshSession: () => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+// Provided by SessionProvider, kept apart from it so the provider file only exports components
+export const SessionContext = createContext<SessionContextType | undefined>(undefined);
+
+export const useSession = () => {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+};
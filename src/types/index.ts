@@ -9,6 +9,7 @@ export interface Client {
   email: string;
   siret?: string;
   matriculeFiscal?: string; // Ajout du matricule fiscal
+  listePrixId?: string; // Default price list of the client's documents
 }
 
 export interface Fournisseur {
@@ -69,7 +70,7 @@ export interface ProductTaxCalculation {
 
 export interface LigneDocument {
   id: string;
-  produit: Produit;
+  produit: Produit; // Saved lines carry the TVA and FODEC rates they were computed with
   quantite: number;
   prixUnitaire: number;
   remise: number;
@@ -78,6 +79,45 @@ export interface LigneDocument {
   baseTVA: number; // NEW: TVA calculation base (HT + FODEC)
   montantTVA: number; // NEW: TVA amount
   montantTTC: number;
+  quantiteFacturee?: number; // Delivery note lines: quantity already invoiced
+  quantiteLivree?: number; // Devis lines: quantity already delivered
+  quantiteRecue?: number; // Supplier order lines: quantity already received
+  ligneDevisId?: string; // Delivery note lines: originating devis line
+  prixManuel?: boolean; // Factures and devis: unit price typed by hand, not repriced from the price list
+}
+
+// Document-level charge from the taxes settings (timbre fiscal, ...)
+export interface DocumentCharge {
+  taxId: string;
+  nom: string;
+  type: 'percentage' | 'fixed';
+  taux: number; // 0 for fixed charges
+  base: number; // 0 for fixed charges
+  montant: number;
+}
+
+// Discount on the whole document, apportioned over its TVA rates
+export interface RemiseGlobale {
+  type: 'percentage' | 'fixed';
+  valeur: number; // Percent of the lines HT, or amount in the document currency
+}
+
+// Shipping, packaging... billed on the document, taxed at the TVA rates of its lines
+export interface FraisDocument {
+  id: string;
+  libelle: string;
+  montantHT: number;
+}
+
+// Share of the global discount and fees of one (TVA, FODEC) rate pair, with the taxes they change
+export interface AjustementTaxe {
+  tauxTVA: number;
+  tauxFodec: number; // 0 when the lines bear no FODEC
+  remise: number; // Lowers the FODEC and TVA bases
+  frais: number; // Added to the TVA base only
+  montantFodec: number;
+  baseTVA: number;
+  montantTVA: number;
 }
 
 export interface TaxGroupSummary {
@@ -97,9 +137,28 @@ export interface Facture {
   totalHT: number;
   totalFodec: number; // NEW: Total FODEC
   totalTVA: number; // NEW: Total TVA
+  charges?: DocumentCharge[]; // Document-level charges included in totalTTC
+  totalCharges?: number;
+  remiseGlobale?: RemiseGlobale;
+  montantRemise?: number;
+  frais?: FraisDocument[];
+  totalFrais?: number;
+  ajustements?: AjustementTaxe[]; // Included in totalHT, totalFodec and totalTVA
   totalTTC: number;
   statut: 'brouillon' | 'envoyee' | 'payee' | 'annulee';
+  devisId?: string; // Set when invoiced directly from a devis
+  livraisons?: LivraisonFacturee[]; // Given when the invoice is created from delivery notes
   notes?: string;
+  devise?: string; // Currency of the amounts, TND when not set
+  tauxChange?: number; // Dinars for one unit of the currency
+}
+
+// Delivered quantity of a delivery note line covered by an invoice line
+export interface LivraisonFacturee {
+  bonLivraisonId: string;
+  ligneBonLivraisonId: string;
+  ligneFactureId: string;
+  quantite: number;
 }
 
 export interface Devis {
@@ -112,9 +171,16 @@ export interface Devis {
   totalHT: number;
   totalFodec: number; // NEW: Total FODEC
   totalTVA: number; // NEW: Total TVA
+  remiseGlobale?: RemiseGlobale;
+  montantRemise?: number;
+  frais?: FraisDocument[];
+  totalFrais?: number;
+  ajustements?: AjustementTaxe[]; // Included in totalHT, totalFodec and totalTVA
   totalTTC: number;
-  statut: 'brouillon' | 'envoye' | 'accepte' | 'refuse' | 'expire';
+  statut: 'brouillon' | 'envoye' | 'accepte' | 'refuse' | 'expire' | 'partiellement_livre' | 'livre' | 'annule';
   notes?: string;
+  devise?: string;
+  tauxChange?: number;
 }
 
 export interface BonLivraison {
@@ -124,7 +190,8 @@ export interface BonLivraison {
   client: Client;
   lignes: LigneDocument[];
   statut: 'prepare' | 'expedie' | 'livre';
-  factureId?: string;
+  devisId?: string;
+  factureId?: string; // Legacy single invoice link, see lignes_livraison_facturees
   notes?: string;
   totalHT?: number;
   totalFodec?: number; // NEW: Total FODEC
@@ -142,11 +209,76 @@ export interface CommandeFournisseur {
   totalHT: number;
   totalFodec: number; // NEW: Total FODEC
   totalTVA: number; // NEW: Total TVA
+  remiseGlobale?: RemiseGlobale;
+  montantRemise?: number;
+  frais?: FraisDocument[];
+  totalFrais?: number;
+  ajustements?: AjustementTaxe[]; // Included in totalHT, totalFodec and totalTVA
   totalTTC: number;
-  statut: 'brouillon' | 'envoyee' | 'confirmee' | 'recue' | 'annulee';
+  statut: 'brouillon' | 'envoyee' | 'confirmee' | 'partiellement_recue' | 'recue' | 'annulee';
+  factureFournisseurId?: string; // Supplier invoice covering the order
+  hasEcart?: boolean; // A reception differs from the ordered quantities
+  notes?: string;
+  devise?: string;
+  tauxChange?: number;
+}
+
+export interface LigneBonReception {
+  id: string;
+  ligneCommandeId: string;
+  produit: Produit;
+  quantiteCommandee: number;
+  quantiteRecue: number;
+  ecart: number; // Total received minus ordered, negative when missing
+}
+
+// Goods receipt of a supplier order, an order can be received in several times
+export interface BonReception {
+  id: string;
+  numero: string;
+  date: Date;
+  commandeId: string;
+  commandeNumero: string;
+  fournisseur: Fournisseur;
+  lignes: LigneBonReception[];
+  cloture: boolean; // Last reception, the remaining quantities will not be delivered
+  ecart: boolean;
   notes?: string;
 }
 
+export interface FactureFournisseur {
+  id: string;
+  numero: string; // Invoice number given by the supplier
+  date: Date;
+  dateEcheance: Date;
+  fournisseur: Fournisseur;
+  lignes: (LigneDocument & { commandeId?: string })[]; // commandeId: order the line comes from
+  commandes: { id: string; numero: string }[]; // Received orders being invoiced
+  totalHT: number;
+  totalFodec: number;
+  totalTVA: number; // Deductible TVA
+  timbre: number;
+  totalTTC: number;
+  ajustements?: AjustementTaxe[]; // Share of the orders' global discounts and fees
+  statut: 'a_payer' | 'partiellement_payee' | 'payee' | 'annulee';
+  notes?: string;
+}
+
+export interface PaiementFournisseur {
+  id: string;
+  factureFournisseurId: string;
+  factureNumero: string;
+  fournisseurId: string;
+  fournisseurNom: string;
+  montant: number;
+  montantFacture: number;
+  date: Date;
+  methode: 'especes' | 'cheque' | 'virement' | 'carte' | 'autre';
+  reference?: string;
+  notes?: string;
+  statut: 'valide' | 'en_attente' | 'annule';
+}
+
 export interface Payment {
   id: string;
   factureId: string;
@@ -155,9 +287,244 @@ export interface Payment {
   clientNom: string;
   montant: number;
   montantFacture: number;
+  devise?: string; // Currency of the invoice, the amounts are in it
+  tauxChange?: number; // Dinars for one unit of the invoice currency
+  tauxRetenue?: number; // Retenue à la source rate (1, 1.5 or 3 %)
+  montantRetenue?: number; // Amount withheld by the client, settles the invoice like a payment
   date: Date;
   methode: 'especes' | 'cheque' | 'virement' | 'carte' | 'autre';
   reference?: string;
   notes?: string;
   statut: 'valide' | 'en_attente' | 'annule';
-}
\ No newline at end of file
+}
+export interface LigneAvoir extends LigneDocument {
+  ligneFactureId?: string; // Line of the original invoice being credited
+}
+
+export interface Avoir {
+  id: string;
+  numero: string;
+  date: Date;
+  factureId: string;
+  factureNumero: string;
+  client: Client;
+  lignes: LigneAvoir[];
+  totalHT: number;
+  totalFodec: number;
+  totalTVA: number;
+  // Share of the invoice's global discount, fees and charges credited with the lines
+  montantRemise?: number;
+  frais?: FraisDocument[];
+  totalFrais?: number;
+  ajustements?: AjustementTaxe[]; // Included in totalHT, totalFodec and totalTVA
+  charges?: DocumentCharge[]; // Credited with the credit note that completes the crediting
+  totalCharges?: number;
+  totalTTC: number;
+  motif?: string;
+  restockage: boolean; // Credited quantities are put back into stock
+  statut: 'valide' | 'annule';
+  notes?: string;
+}
+
+// Criteria of the listFactures repository endpoint, dates as ISO strings
+export interface FactureFilter {
+  clientId?: string;
+  statut?: Facture['statut'];
+  dateDebut?: string;
+  dateFin?: string;
+}
+
+// Read access to the database from the renderer (useDatabase's query): the rows of a SELECT
+export type DatabaseQuery = <T = unknown>(sql: string, params?: unknown[]) => Promise<T>;
+
+// Outcome of a repository write in the main process
+export interface RepositoryResult {
+  success: boolean;
+  error?: string;
+}
+
+// Status write for the documents whose status follows their deliveries or receptions
+export type UpdateDocumentStatut = (
+  type: 'devis' | 'commandeFournisseur',
+  documentId: string,
+  statut: string
+) => Promise<RepositoryResult>;
+
+// Documents saved with their lines in a single transaction by the saveDocument endpoint
+export interface SavedDocumentTypes {
+  facture: Facture;
+  devis: Devis;
+  bonLivraison: BonLivraison;
+  commandeFournisseur: CommandeFournisseur;
+  bonReception: BonReception;
+  avoir: Avoir;
+}
+
+// Documents removed with their lines by the deleteDocument endpoint, factures have their own
+export type DeletableDocumentType = 'devis' | 'bonLivraison' | 'commandeFournisseur' | 'bonReception';
+
+export type NumberingDocumentType = 'factures' | 'devis' | 'bonsLivraison' | 'commandesFournisseur' | 'avoirs' | 'bonsReception';
+
+// Number format of a document type, the sequences themselves are kept by the main process
+export interface NumberingSettings {
+  prefix: string;
+  startNumber: number; // First number of each year, or of the sequence when the pattern has no year
+  pattern: string; // e.g. {PREFIX}/{YYYY}/{SEQ:5}
+}
+
+// Display of dinar amounts, stored in the 'currencySettings' setting
+export interface CurrencySettings {
+  symbol: string; // Empty to show amounts without a symbol
+  decimals: number;
+  position: 'before' | 'after';
+}
+
+export interface GeneralSettings {
+  autoEnableFodec: boolean; // New products get FODEC checked
+}
+
+export interface InvoiceSettings {
+  useEcheanceDate: boolean;
+  roundingPolicy: 'ligne' | 'document'; // How FODEC and TVA are rounded, see RoundingPolicy
+}
+
+export interface StockSettings {
+  allowNegativeStock: boolean;
+}
+
+// Preferences of the settings service, each stored under its own key of the settings table
+export interface AppSettings {
+  currencySettings: CurrencySettings;
+  generalSettings: GeneralSettings;
+  invoiceSettings: InvoiceSettings;
+  stockSettings: StockSettings;
+}
+
+export type AppSettingKey = keyof AppSettings;
+
+// Recorded change of an audited record with its state before and after
+export interface AuditLogEntry {
+  id: string;
+  entityType: 'facture' | 'avoir';
+  entityId: string;
+  action: 'creation' | 'modification' | 'validation' | 'statut' | 'suppression';
+  utilisateur: string;
+  avant: Record<string, unknown> | null;
+  apres: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export type UserRole = 'admin' | 'vente' | 'stock' | 'comptable';
+
+export interface Utilisateur {
+  id: string;
+  login: string;
+  nom: string;
+  role: UserRole;
+  actif: boolean;
+}
+
+// Logged-in account and the pages it can open
+export interface Session {
+  usersEnabled: boolean; // false until an account is created, the application is then open
+  user: Utilisateur | null;
+  pages: string[];
+  utilisateur: string; // Name stamped on the records created in this session
+}
+
+// Automatic backups, stored in the 'backupSettings' setting
+export interface BackupSettings {
+  enabled: boolean;
+  folder: string; // Empty for the backups folder of the application data
+  frequency: 'daily' | 'weekly' | 'none';
+  onQuit: boolean;
+  keepCount: number; // Automatic backups kept for each kind
+  keepDays: number; // Older automatic backups are removed, 0 to keep them
+}
+
+// Backup recorded in the history, with the result of its integrity check
+export interface BackupEntry {
+  id: string;
+  path: string;
+  type: 'manuelle' | 'quotidienne' | 'hebdomadaire' | 'fermeture' | 'avant_restauration';
+  date: string;
+  taille: number;
+  schemaVersion: number;
+  integrite: boolean;
+  erreur?: string;
+}
+
+// Description stored inside an encrypted backup archive
+export interface BackupArchiveManifest {
+  format: number;
+  appVersion: string;
+  schemaVersion: number;
+  date: string;
+  taille: number;
+  checksum: string; // SHA-256 of the database file
+}
+
+// Exchange rate recorded in the settings, in force from its date
+export interface TauxChange {
+  id: string;
+  devise: string;
+  date: string; // yyyy-MM-dd
+  taux: number; // Dinars for one unit of the currency
+}
+
+// Price of a product in a price list, from a minimum quantity
+export interface PrixListe {
+  id: string;
+  produitId: string;
+  quantiteMin: number;
+  type: 'prix' | 'pourcentage';
+  valeur: number; // Unit price in dinars, or percent added to the product price (negative for a discount)
+}
+
+// Named price list (wholesale, retail, contract...) assigned to clients
+export interface ListePrix {
+  id: string;
+  nom: string;
+  description?: string;
+  pourcentage: number; // Rule for the products without a price in the list, negative for a discount
+  dateDebut?: string; // yyyy-MM-dd, the list applies to documents dated within its validity
+  dateFin?: string;
+  actif: boolean;
+  prix: PrixListe[];
+}
+
+// Issued number whose document was deleted
+export interface NumeroAnnule {
+  id: string;
+  documentType: NumberingDocumentType;
+  numero: string;
+  documentId?: string;
+  motif?: string;
+  created_at: string;
+}
+
+// Row of a client or product import, written in a single transaction by the main process.
+// Only the mapped columns are given so an update keeps the unmapped data.
+export interface ImportRecord {
+  rowNumber: number;
+  existingId?: string;
+  columns: Record<string, string | number | null>;
+  stock?: number; // Products: quantity in stock reached through a stock movement
+}
+
+export interface ImportRecordsResult extends RepositoryResult {
+  imported?: number;
+  updated?: number;
+}
+
+// Stock movement applied in the same transaction, the source is the saved document
+export interface DocumentStockMovement {
+  id: string;
+  produitId: string;
+  produitNom: string;
+  produitRef?: string;
+  type: 'entree' | 'sortie';
+  quantite: number;
+  date: string;
+  source: string;
+}
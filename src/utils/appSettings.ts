@@ -0,0 +1,166 @@
+import { AppSettings, AppSettingKey, DatabaseQuery } from '../types';
+import { DEFAULT_ROUNDING_POLICY } from './money';
+
+// Typed access to the preferences of the settings table. Values are loaded once into memory so
+// formatting code can read them synchronously, and every save goes back to the database so the
+// preferences follow backups and restores.
+
+type FieldValidator = (value: unknown) => boolean;
+type SettingSchema<T> = { [Field in keyof T]: FieldValidator };
+
+const isBoolean: FieldValidator = value => typeof value === 'boolean';
+const isString: FieldValidator = value => typeof value === 'string';
+const isIntegerBetween = (min: number, max: number): FieldValidator => value =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+const isOneOf = (...values: string[]): FieldValidator => value => values.includes(value as string);
+
+const settingsSchema: { [Key in AppSettingKey]: SettingSchema<AppSettings[Key]> } = {
+  currencySettings: {
+    symbol: isString,
+    decimals: isIntegerBetween(0, 3),
+    position: isOneOf('before', 'after')
+  },
+  generalSettings: {
+    autoEnableFodec: isBoolean
+  },
+  invoiceSettings: {
+    useEcheanceDate: isBoolean,
+    roundingPolicy: isOneOf('ligne', 'document')
+  },
+  stockSettings: {
+    allowNegativeStock: isBoolean
+  }
+};
+
+export const defaultAppSettings: AppSettings = {
+  currencySettings: { symbol: '', decimals: 3, position: 'after' },
+  generalSettings: { autoEnableFodec: false },
+  invoiceSettings: { useEcheanceDate: true, roundingPolicy: DEFAULT_ROUNDING_POLICY },
+  stockSettings: { allowNegativeStock: true }
+};
+
+const settingKeys = Object.keys(settingsSchema) as AppSettingKey[];
+
+// Preferences formerly kept in the renderer's localStorage, moved to the settings table on first load
+const LEGACY_LOCAL_STORAGE_KEYS: AppSettingKey[] = ['currencySettings', 'invoiceSettings', 'stockSettings'];
+
+let currentSettings: AppSettings = { ...defaultAppSettings };
+const listeners = new Set<(key: AppSettingKey) => void>();
+
+// Fields of a value that do not match the schema of its setting
+const getInvalidFields = (key: AppSettingKey, value: Record<string, unknown>): string[] =>
+  Object.entries(settingsSchema[key])
+    .filter(([field, isValid]) => !(isValid as FieldValidator)(value[field]))
+    .map(([field]) => field);
+
+const isSettingValue = <Key extends AppSettingKey>(key: Key, value: Record<string, unknown>): value is Record<string, unknown> & AppSettings[Key] =>
+  getInvalidFields(key, value).length === 0;
+
+// Stored values keep their valid fields, missing or invalid ones fall back to the defaults.
+// Fields no longer part of the schema are dropped.
+const sanitizeSetting = <Key extends AppSettingKey>(key: Key, stored: unknown): AppSettings[Key] => {
+  const value = stored && typeof stored === 'object' ? stored as Record<string, unknown> : {};
+  const invalidFields = getInvalidFields(key, value);
+  const sanitized = Object.fromEntries(
+    Object.keys(settingsSchema[key]).map(field => [
+      field,
+      invalidFields.includes(field) ? (defaultAppSettings[key] as unknown as Record<string, unknown>)[field] : value[field]
+    ])
+  );
+
+  if (stored !== undefined && invalidFields.length > 0) {
+    console.warn(`Invalid fields in setting ${key}, defaults used:`, invalidFields);
+  }
+  return isSettingValue(key, sanitized) ? sanitized : defaultAppSettings[key];
+};
+
+const parseSetting = <Key extends AppSettingKey>(key: Key, raw: string | null | undefined): AppSettings[Key] => {
+  if (!raw) {
+    return sanitizeSetting(key, undefined);
+  }
+  try {
+    return sanitizeSetting(key, JSON.parse(raw));
+  } catch (error) {
+    console.error(`Error parsing setting ${key}:`, error);
+    return sanitizeSetting(key, undefined);
+  }
+};
+
+const notify = (key: AppSettingKey) => {
+  listeners.forEach(listener => listener(key));
+};
+
+// Returns the legacy values that could not be stored, they are used until an administrator logs in
+const migrateLocalStorage = async (storedKeys: Set<string>, query: DatabaseQuery) => {
+  const pending = new Map<string, string>();
+  if (typeof window === 'undefined' || !window.localStorage) return pending;
+
+  for (const key of LEGACY_LOCAL_STORAGE_KEYS) {
+    const legacy = window.localStorage.getItem(key);
+    if (legacy === null) continue;
+
+    // The database wins when both hold a value
+    if (!storedKeys.has(key)) {
+      try {
+        await query('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)', [key, JSON.stringify(parseSetting(key, legacy))]);
+      } catch {
+        // Only users allowed on the settings page can write them
+        pending.set(key, legacy);
+        continue;
+      }
+      storedKeys.add(key);
+    }
+    window.localStorage.removeItem(key);
+  }
+  return pending;
+};
+
+// Read every preference from the settings table, after moving the legacy localStorage values into it
+export const loadAppSettings = async (query: DatabaseQuery): Promise<AppSettings> => {
+  const placeholders = settingKeys.map(() => '?').join(', ');
+  const readRows = () =>
+    query<{ key: AppSettingKey; value: string }[]>(`SELECT key, value FROM settings WHERE key IN (${placeholders})`, settingKeys);
+
+  let rows = await readRows();
+  const storedKeys = new Set<string>(rows.map(row => row.key));
+  const storedBefore = storedKeys.size;
+  const pending = await migrateLocalStorage(storedKeys, query);
+  if (storedKeys.size !== storedBefore) {
+    rows = await readRows();
+  }
+
+  const values = new Map(rows.map(row => [row.key, row.value]));
+  currentSettings = Object.fromEntries(
+    settingKeys.map(key => [key, parseSetting(key, values.get(key) ?? pending.get(key))])
+  ) as unknown as AppSettings;
+
+  settingKeys.forEach(notify);
+  return currentSettings;
+};
+
+export const getAppSetting = <Key extends AppSettingKey>(key: Key): AppSettings[Key] => currentSettings[key];
+
+// Validate and store the changed fields of a setting. Invalid values are refused, not corrected.
+export const saveAppSetting = async <Key extends AppSettingKey>(
+  key: Key,
+  changes: Partial<AppSettings[Key]>,
+  query: DatabaseQuery
+): Promise<AppSettings[Key]> => {
+  const value: Record<string, unknown> = { ...currentSettings[key], ...changes };
+  if (!isSettingValue(key, value)) {
+    throw new Error(`Valeur invalide pour ${getInvalidFields(key, value).join(', ')}`);
+  }
+
+  await query('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)', [key, JSON.stringify(value)]);
+  currentSettings = { ...currentSettings, [key]: value };
+  notify(key);
+  return value;
+};
+
+// Called with the key of each setting that changes, returns the unsubscribe function
+export const subscribeAppSettings = (listener: (key: AppSettingKey) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
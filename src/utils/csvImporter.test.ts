@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { ImportRecord } from '../types';
+import {
+  PRODUIT_FIELDS,
+  ParsedImportFile,
+  detectDelimiter,
+  guessColumnMapping,
+  importValidatedRows,
+  normalizeHeader,
+  parseCSV,
+  parseImportNumber,
+  validateImportRows
+} from './csvImporter';
+
+describe('parseCSV', () => {
+  it('keeps separators, line breaks and escaped quotes inside quoted fields', () => {
+    const content = 'ref;nom;description\r\nV1;"Câble; 2 m";"Ligne 1\nLigne 2"\r\nV2;"Prise ""murale""";\r\n';
+    expect(parseCSV(content)).toEqual([
+      ['ref', 'nom', 'description'],
+      ['V1', 'Câble; 2 m', 'Ligne 1\nLigne 2'],
+      ['V2', 'Prise "murale"', '']
+    ]);
+  });
+
+  it('drops the byte order mark and blank lines', () => {
+    expect(parseCSV('\uFEFFcode,nom\n\nCL1,ABC\n,\n')).toEqual([['code', 'nom'], ['CL1', 'ABC']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('counts the separators of the first line outside quotes', () => {
+    expect(detectDelimiter('ref;nom;"prix, HT"\n1,2,3,4')).toBe(';');
+    expect(detectDelimiter('ref\tnom\tprix')).toBe('\t');
+    expect(detectDelimiter('ref')).toBe(',');
+  });
+});
+
+describe('parseImportNumber', () => {
+  it('reads decimal commas, points and thousands separators', () => {
+    expect(parseImportNumber('1500.5')).toBe(1500.5);
+    expect(parseImportNumber('1500,5')).toBe(1500.5);
+    expect(parseImportNumber('1 500,500')).toBe(1500.5);
+    expect(parseImportNumber('1 500,250')).toBe(1500.25);
+    expect(parseImportNumber('1.500,500')).toBe(1500.5);
+    expect(parseImportNumber('1,500.500')).toBe(1500.5);
+  });
+
+  it('gives NaN for empty or invalid values', () => {
+    expect(parseImportNumber('')).toBeNaN();
+    expect(parseImportNumber('abc')).toBeNaN();
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches headers by their normalized name or an alias', () => {
+    expect(normalizeHeader('Prix Unitaire HT')).toBe('prixunitaireht');
+    const mapping = guessColumnMapping(['Désignation', 'Référence', 'Prix Unitaire HT', 'Qté', 'Type'], PRODUIT_FIELDS);
+    expect(mapping).toMatchObject({ nom: 0, ref: 1, prixUnitaire: 2, stock: 3, type: 4, tva: -1 });
+  });
+});
+
+describe('importValidatedRows', () => {
+  const file: ParsedImportFile = {
+    fileName: 'produits.csv',
+    format: 'csv',
+    headers: ['ref', 'nom', 'prixUnitaire', 'stock', 'type'],
+    rows: [
+      ['V1', 'Câble', '12,500', '10', 'vente'],
+      ['V2', 'Prise', '3,2', '', 'Vente'],
+      ['V3', 'Disjoncteur', '-1', '2', 'vente'],
+      ['V4', 'Gaine', '1', '5', 'vente']
+    ]
+  };
+  const mapping = guessColumnMapping(file.headers, PRODUIT_FIELDS);
+  const existing = [{ id: 'p4', ref: 'V4', nom: 'Gaine', description: '', prixUnitaire: 1, tva: 19, fodecApplicable: false, tauxFodec: 1, type: 'vente' as const }];
+
+  it('sends the valid rows in one call with their parsed values and stock', async () => {
+    const rows = validateImportRows('produits', file, mapping, existing);
+    expect(rows[2].errors).toEqual(['Prix unitaire invalide "-1"']);
+    expect(rows[3].existingId).toBe('p4');
+
+    const calls: ImportRecord[][] = [];
+    const result = await importValidatedRows('produits', rows, mapping, false, async (_type, records) => {
+      calls.push(records);
+      return { success: true, imported: records.length, updated: 0 };
+    });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toEqual([
+      { rowNumber: 2, existingId: undefined, columns: { ref: 'V1', nom: 'Câble', prixUnitaire: 12.5, type: 'vente' }, stock: 10 },
+      { rowNumber: 3, existingId: undefined, columns: { ref: 'V2', nom: 'Prise', prixUnitaire: 3.2, type: 'vente' }, stock: undefined }
+    ]);
+    expect(result).toMatchObject({ success: true, imported: 2, updated: 0, duplicates: 1, skipped: 1 });
+  });
+
+  it('imports nothing when the transaction fails', async () => {
+    const rows = validateImportRows('produits', file, mapping, existing);
+    const result = await importValidatedRows('produits', rows, mapping, true, async () => ({
+      success: false,
+      error: 'Ligne 5: Stock insuffisant et stock négatif non autorisé'
+    }));
+
+    expect(result.success).toBe(false);
+    expect(result.imported + result.updated).toBe(0);
+    expect(result.skipped).toBe(4);
+    expect(result.errors).toContain('Ligne 5: Stock insuffisant et stock négatif non autorisé');
+  });
+});
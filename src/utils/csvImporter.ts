@@ -1,400 +1,403 @@
-import { Client, Produit } from '../types';
-import { v4 as uuidv4 } from 'uuid';
+import * as XLSX from 'xlsx';
+import { Client, ImportRecord, ImportRecordsResult, Produit } from '../types';
+
+export type ImportType = 'clients' | 'produits';
 
 export interface ImportResult {
   success: boolean;
   imported: number;
+  updated: number;
   errors: string[];
   duplicates: number;
   skipped: number;
 }
 
-export interface ClientCSVRow {
-  code: string;
-  nom: string;
-  adresse?: string;
-  codePostal?: string;
-  ville?: string;
-  telephone?: string;
-  email?: string;
-  siret?: string;
-  matriculeFiscal?: string;
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases: string[]; // Normalized header names recognised automatically
 }
 
-export interface ProduitCSVRow {
-  ref?: string;
-  nom: string;
-  description?: string;
-  prixUnitaire: string;
-  tva?: string;
-  stock?: string;
-  type: string;
+export interface ParsedImportFile {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+  format: 'csv' | 'xlsx';
+  delimiter?: string;
+  encoding?: string;
 }
 
-// Parse CSV content
-export const parseCSV = (csvContent: string): string[][] => {
-  const lines = csvContent.trim().split('\n');
+// Field key -> column index in the file (-1 when not imported)
+export type ColumnMapping = Record<string, number>;
+
+export interface ImportRowValidation {
+  rowNumber: number;
+  values: Record<string, string>;
+  errors: string[];
+  existingId?: string; // Set when the code/reference already exists
+}
+
+export const CLIENT_FIELDS: ImportField[] = [
+  { key: 'code', label: 'Code', required: true, aliases: ['code', 'codeclient', 'ref', 'reference'] },
+  { key: 'nom', label: 'Nom', required: true, aliases: ['nom', 'raisonsociale', 'client', 'nomclient', 'societe'] },
+  { key: 'adresse', label: 'Adresse', aliases: ['adresse', 'rue'] },
+  { key: 'codePostal', label: 'Code postal', aliases: ['codepostal', 'cp'] },
+  { key: 'ville', label: 'Ville', aliases: ['ville', 'localite'] },
+  { key: 'telephone', label: 'Téléphone', aliases: ['telephone', 'tel', 'phone', 'gsm'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'mail', 'courriel', 'adresseemail'] },
+  { key: 'siret', label: 'SIRET', aliases: ['siret'] },
+  { key: 'matriculeFiscal', label: 'Matricule fiscal', aliases: ['matriculefiscal', 'mf', 'matricule', 'identifiantfiscal'] }
+];
+
+export const PRODUIT_FIELDS: ImportField[] = [
+  { key: 'ref', label: 'Référence', aliases: ['ref', 'reference', 'code', 'codeproduit', 'codearticle'] },
+  { key: 'nom', label: 'Nom', required: true, aliases: ['nom', 'designation', 'libelle', 'produit', 'article'] },
+  { key: 'description', label: 'Description', aliases: ['description'] },
+  { key: 'prixUnitaire', label: 'Prix unitaire HT', required: true, aliases: ['prixunitaire', 'prix', 'prixht', 'prixunitaireht', 'pu', 'puht'] },
+  { key: 'tva', label: 'TVA (%)', aliases: ['tva', 'tauxtva'] },
+  { key: 'fodecApplicable', label: 'FODEC applicable', aliases: ['fodec', 'fodecapplicable'] },
+  { key: 'tauxFodec', label: 'Taux FODEC (%)', aliases: ['tauxfodec'] },
+  { key: 'stock', label: 'Stock', aliases: ['stock', 'quantite', 'qte'] },
+  { key: 'type', label: 'Type (vente/achat)', required: true, aliases: ['type', 'typeproduit'] }
+];
+
+export const getImportFields = (type: ImportType) => type === 'clients' ? CLIENT_FIELDS : PRODUIT_FIELDS;
+
+// Lowercase, without accents, spaces or punctuation: "Matricule Fiscal" -> "matriculefiscal"
+export const normalizeHeader = (header: string): string =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+// Pick the separator that occurs most often outside quotes in the first line
+export const detectDelimiter = (content: string): string => {
+  const candidates = [';', ',', '\t', '|'];
+  const counts: Record<string, number> = {};
+  let inQuotes = false;
+
+  for (const char of content) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && candidates.includes(char)) {
+      counts[char] = (counts[char] || 0) + 1;
+    }
+  }
+
+  return candidates.reduce((best, candidate) =>
+    (counts[candidate] || 0) > (counts[best] || 0) ? candidate : best, ',');
+};
+
+// RFC 4180 parsing: quoted fields may contain separators, line breaks and escaped quotes ("")
+export const parseCSV = (csvContent: string, delimiter = detectDelimiter(csvContent)): string[][] => {
+  const content = csvContent.replace(/^\uFEFF/, '');
   const result: string[][] = [];
-  
-  for (const line of lines) {
-    // Simple CSV parsing - handles quoted fields
-    const fields: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        fields.push(current.trim());
-        current = '';
+  let row: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
       } else {
         current += char;
       }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(current.trim());
+      current = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(current.trim());
+      result.push(row);
+      row = [];
+      current = '';
+    } else {
+      current += char;
     }
-    
-    fields.push(current.trim());
-    result.push(fields);
   }
-  
-  return result;
+
+  if (current || row.length > 0) {
+    row.push(current.trim());
+    result.push(row);
+  }
+
+  // Blank lines (often at the end of Excel exports) carry no data
+  return result.filter(fields => fields.some(field => field !== ''));
 };
 
-// Validate and import clients
-export const importClientsFromCSV = async (
-  csvContent: string,
-  existingClients: Client[],
-  query?: (sql: string, params?: any[]) => Promise<any>
-): Promise<ImportResult> => {
-  const result: ImportResult = {
-    success: false,
-    imported: 0,
-    errors: [],
-    duplicates: 0,
-    skipped: 0
-  };
-  
+// Excel saves CSV files in Windows-1252 unless UTF-8 is explicitly chosen
+export const decodeCSVBuffer = (buffer: ArrayBuffer): { text: string; encoding: string } => {
   try {
-    const rows = parseCSV(csvContent);
-    
-    if (rows.length === 0) {
-      result.errors.push('Le fichier CSV est vide');
-      return result;
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'UTF-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(buffer), encoding: 'Windows-1252' };
+  }
+};
+
+const toRows = (fileName: string, rows: string[][], format: ParsedImportFile['format']) => {
+  const [headers = [], ...dataRows] = rows;
+  return { fileName, headers: headers.map(header => String(header).trim()), rows: dataRows, format };
+};
+
+// Read a .csv, .txt or .xlsx file into a header row and data rows
+export const readImportFile = async (file: File): Promise<ParsedImportFile> => {
+  const buffer = await file.arrayBuffer();
+
+  if (/\.xlsx?$/i.test(file.name)) {
+    const workbook = XLSX.read(buffer, { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      throw new Error('Le classeur ne contient aucune feuille');
+    }
+    const rows = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, raw: false, defval: '', blankrows: false })
+      .map(row => row.map(cell => String(cell ?? '').trim()))
+      .filter(row => row.some(cell => cell !== ''));
+    return toRows(file.name, rows, 'xlsx');
+  }
+
+  const { text, encoding } = decodeCSVBuffer(buffer);
+  const delimiter = detectDelimiter(text.replace(/^\uFEFF/, ''));
+  return { ...toRows(file.name, parseCSV(text, delimiter), 'csv'), delimiter, encoding };
+};
+
+// Match file headers to fields by their normalized names
+export const guessColumnMapping = (headers: string[], fields: ImportField[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  for (const field of fields) {
+    const index = normalized.findIndex((header, i) =>
+      !used.has(i) && (header === normalizeHeader(field.key) || field.aliases.includes(header)));
+    mapping[field.key] = index;
+    if (index >= 0) {
+      used.add(index);
     }
-    
-    // Validate header
-    const header = rows[0].map(h => h.toLowerCase().trim());
-    const requiredFields = ['code', 'nom'];
-    const optionalFields = ['adresse', 'codepostal', 'ville', 'telephone', 'email', 'siret', 'matriculefiscal'];
-    
-    for (const field of requiredFields) {
-      if (!header.includes(field)) {
-        result.errors.push(`Colonne obligatoire manquante: ${field}`);
+  }
+
+  return mapping;
+};
+
+// Accepts "1500.5", "1500,5", "1 500,500" and "1.500,500"
+export const parseImportNumber = (value: string): number => {
+  let cleaned = value.replace(/[\s\u00a0\u202f]/g, '');
+  if (cleaned.includes(',') && cleaned.includes('.')) {
+    cleaned = cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else {
+    cleaned = cleaned.replace(',', '.');
+  }
+  return cleaned === '' ? NaN : Number(cleaned);
+};
+
+const parseBoolean = (value: string) => ['1', 'oui', 'o', 'yes', 'y', 'true', 'vrai', 'x'].includes(normalizeHeader(value));
+
+// Email validation helper
+const isValidEmail = (email: string): boolean => {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email);
+};
+
+const validateClientValues = (values: Record<string, string>, errors: string[]) => {
+  if (values.email && !isValidEmail(values.email)) {
+    errors.push(`Format email invalide "${values.email}"`);
+  }
+};
+
+const validateProduitValues = (values: Record<string, string>, errors: string[]) => {
+  if (values.prixUnitaire) {
+    const prixUnitaire = parseImportNumber(values.prixUnitaire);
+    if (isNaN(prixUnitaire) || prixUnitaire < 0) {
+      errors.push(`Prix unitaire invalide "${values.prixUnitaire}"`);
+    }
+  }
+
+  if (values.type && !['vente', 'achat'].includes(normalizeHeader(values.type))) {
+    errors.push(`Type invalide "${values.type}" (doit être "vente" ou "achat")`);
+  }
+
+  if (values.tva) {
+    const tva = parseImportNumber(values.tva.replace('%', ''));
+    if (isNaN(tva) || tva < 0 || tva > 100) {
+      errors.push(`TVA invalide "${values.tva}" (doit être entre 0 et 100)`);
+    }
+  }
+
+  if (values.tauxFodec) {
+    const tauxFodec = parseImportNumber(values.tauxFodec.replace('%', ''));
+    if (isNaN(tauxFodec) || tauxFodec < 0 || tauxFodec > 100) {
+      errors.push(`Taux FODEC invalide "${values.tauxFodec}"`);
+    }
+  }
+
+  if (values.stock) {
+    const stock = parseImportNumber(values.stock);
+    if (!Number.isInteger(stock) || stock < 0) {
+      errors.push(`Stock invalide "${values.stock}" (doit être un nombre entier positif)`);
+    }
+  }
+};
+
+// Extract the mapped values of every data row and list its problems, for the preview
+export const validateImportRows = (
+  type: ImportType,
+  file: ParsedImportFile,
+  mapping: ColumnMapping,
+  existingData: Client[] | Produit[]
+): ImportRowValidation[] => {
+  const fields = getImportFields(type);
+  const keyField = type === 'clients' ? 'code' : 'ref';
+  const existingIds = new Map<string, string>();
+  (existingData as Array<Client | Produit>).forEach(item => {
+    const key = type === 'clients' ? (item as Client).code : (item as Produit).ref;
+    if (key) {
+      existingIds.set(key.toLowerCase(), item.id);
+    }
+  });
+  const seenKeys = new Set<string>();
+
+  return file.rows.map((row, index) => {
+    const values: Record<string, string> = {};
+    const errors: string[] = [];
+
+    for (const field of fields) {
+      const column = mapping[field.key];
+      values[field.key] = column >= 0 ? (row[column] || '').trim() : '';
+      if (field.required && !values[field.key]) {
+        errors.push(`${field.label} manquant`);
       }
     }
-    
-    if (result.errors.length > 0) {
-      return result;
+
+    if (type === 'clients') {
+      validateClientValues(values, errors);
+    } else {
+      validateProduitValues(values, errors);
     }
-    
-    // Get column indices
-    const getColumnIndex = (fieldName: string) => header.indexOf(fieldName.toLowerCase());
-    
-    const codeIndex = getColumnIndex('code');
-    const nomIndex = getColumnIndex('nom');
-    const adresseIndex = getColumnIndex('adresse');
-    const codePostalIndex = getColumnIndex('codepostal');
-    const villeIndex = getColumnIndex('ville');
-    const telephoneIndex = getColumnIndex('telephone');
-    const emailIndex = getColumnIndex('email');
-    const siretIndex = getColumnIndex('siret');
-    const matriculeFiscalIndex = getColumnIndex('matriculefiscal');
-    
-    // Process data rows
-    const dataRows = rows.slice(1);
-    const existingCodes = new Set(existingClients.map(c => c.code.toLowerCase()));
-    
-    for (let i = 0; i < dataRows.length; i++) {
-      const row = dataRows[i];
-      const rowNumber = i + 2; // +2 because we start from row 2 (after header)
-      
-      try {
-        // Validate required fields
-        const code = row[codeIndex]?.trim();
-        const nom = row[nomIndex]?.trim();
-        
-        if (!code) {
-          result.errors.push(`Ligne ${rowNumber}: Code client manquant`);
-          result.skipped++;
-          continue;
-        }
-        
-        if (!nom) {
-          result.errors.push(`Ligne ${rowNumber}: Nom client manquant`);
-          result.skipped++;
-          continue;
-        }
-        
-        // Check for duplicates
-        if (existingCodes.has(code.toLowerCase())) {
-          result.errors.push(`Ligne ${rowNumber}: Code client "${code}" existe déjà`);
-          result.duplicates++;
-          continue;
-        }
-        
-        // Validate email format if provided
-        const email = row[emailIndex]?.trim();
-        if (email && !isValidEmail(email)) {
-          result.errors.push(`Ligne ${rowNumber}: Format email invalide "${email}"`);
-          result.skipped++;
-          continue;
-        }
-        
-        // Create client object
-        const client: Client = {
-          id: uuidv4(),
-          code,
-          nom,
-          adresse: row[adresseIndex]?.trim() || '',
-          codePostal: row[codePostalIndex]?.trim() || '',
-          ville: row[villeIndex]?.trim() || '',
-          telephone: row[telephoneIndex]?.trim() || '',
-          email: email || '',
-          siret: row[siretIndex]?.trim() || '',
-          matriculeFiscal: row[matriculeFiscalIndex]?.trim() || ''
-        };
-        
-        // Save to database if available
-        if (query) {
-          await query(
-            `INSERT INTO clients 
-             (id, code, nom, adresse, codePostal, ville, telephone, email, siret, matriculeFiscal)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-              client.id,
-              client.code,
-              client.nom,
-              client.adresse,
-              client.codePostal,
-              client.ville,
-              client.telephone,
-              client.email,
-              client.siret,
-              client.matriculeFiscal
-            ]
-          );
-        }
-        
-        existingCodes.add(code.toLowerCase());
-        result.imported++;
-        
-      } catch (error: any) {
-        result.errors.push(`Ligne ${rowNumber}: ${error.message}`);
-        result.skipped++;
+
+    const key = values[keyField]?.toLowerCase();
+    if (key) {
+      if (seenKeys.has(key)) {
+        errors.push(`${type === 'clients' ? 'Code' : 'Référence'} "${values[keyField]}" en double dans le fichier`);
       }
+      seenKeys.add(key);
     }
-    
-    result.success = result.imported > 0;
-    return result;
-    
-  } catch (error: any) {
-    result.errors.push(`Erreur lors de l'analyse du fichier: ${error.message}`);
-    return result;
-  }
+
+    // +2: the header is line 1 and lines are numbered from 1
+    return { rowNumber: index + 2, values, errors, existingId: key ? existingIds.get(key) : undefined };
+  });
+};
+
+const toClientColumns = (values: Record<string, string>, mapped: Set<string>) => {
+  const columns: Record<string, string> = {};
+  CLIENT_FIELDS.forEach(field => {
+    if (mapped.has(field.key)) {
+      columns[field.key] = values[field.key] || '';
+    }
+  });
+  return columns;
 };
 
-// Validate and import products
-export const importProduitsFromCSV = async (
-  csvContent: string,
-  existingProduits: Produit[],
-  query?: (sql: string, params?: any[]) => Promise<any>
+const toProduitColumns = (values: Record<string, string>, mapped: Set<string>) => {
+  const columns: ImportRecord['columns'] = {};
+  if (mapped.has('ref')) columns.ref = values.ref || null;
+  if (mapped.has('nom')) columns.nom = values.nom;
+  if (mapped.has('description')) columns.description = values.description || '';
+  if (mapped.has('prixUnitaire')) columns.prixUnitaire = parseImportNumber(values.prixUnitaire);
+  if (mapped.has('tva') && values.tva) columns.tva = parseImportNumber(values.tva.replace('%', ''));
+  if (mapped.has('fodecApplicable')) columns.fodecApplicable = parseBoolean(values.fodecApplicable) ? 1 : 0;
+  if (mapped.has('tauxFodec') && values.tauxFodec) columns.tauxFodec = parseImportNumber(values.tauxFodec.replace('%', ''));
+  if (mapped.has('type')) columns.type = normalizeHeader(values.type);
+  return columns;
+};
+
+// Import the valid rows in one transaction; rows whose code/reference exists are updated when
+// updateExisting is set. Only mapped columns are written on update so unmapped data is kept.
+export const importValidatedRows = async (
+  type: ImportType,
+  rows: ImportRowValidation[],
+  mapping: ColumnMapping,
+  updateExisting: boolean,
+  importRecords: (type: ImportType, records: ImportRecord[]) => Promise<ImportRecordsResult>
 ): Promise<ImportResult> => {
   const result: ImportResult = {
     success: false,
     imported: 0,
+    updated: 0,
     errors: [],
     duplicates: 0,
     skipped: 0
   };
-  
-  try {
-    const rows = parseCSV(csvContent);
-    
-    if (rows.length === 0) {
-      result.errors.push('Le fichier CSV est vide');
-      return result;
-    }
-    
-    // Validate header
-    const header = rows[0].map(h => h.toLowerCase().trim());
-    const requiredFields = ['nom', 'prixunitaire', 'type'];
-    const optionalFields = ['ref', 'description', 'tva', 'stock'];
-    
-    for (const field of requiredFields) {
-      if (!header.includes(field)) {
-        result.errors.push(`Colonne obligatoire manquante: ${field}`);
-      }
-    }
-    
-    if (result.errors.length > 0) {
-      return result;
+  const mapped = new Set(Object.keys(mapping).filter(key => mapping[key] >= 0));
+  const records: ImportRecord[] = [];
+
+  for (const row of rows) {
+    if (row.errors.length > 0) {
+      result.errors.push(`Ligne ${row.rowNumber}: ${row.errors.join(', ')}`);
+      result.skipped++;
+      continue;
     }
-    
-    // Get column indices
-    const getColumnIndex = (fieldName: string) => header.indexOf(fieldName.toLowerCase());
-    
-    const refIndex = getColumnIndex('ref');
-    const nomIndex = getColumnIndex('nom');
-    const descriptionIndex = getColumnIndex('description');
-    const prixUnitaireIndex = getColumnIndex('prixunitaire');
-    const tvaIndex = getColumnIndex('tva');
-    const stockIndex = getColumnIndex('stock');
-    const typeIndex = getColumnIndex('type');
-    
-    // Process data rows
-    const dataRows = rows.slice(1);
-    const existingRefs = new Set(existingProduits.filter(p => p.ref).map(p => p.ref!.toLowerCase()));
-    
-    for (let i = 0; i < dataRows.length; i++) {
-      const row = dataRows[i];
-      const rowNumber = i + 2;
-      
-      try {
-        // Validate required fields
-        const nom = row[nomIndex]?.trim();
-        const prixUnitaireStr = row[prixUnitaireIndex]?.trim();
-        const type = row[typeIndex]?.trim().toLowerCase();
-        
-        if (!nom) {
-          result.errors.push(`Ligne ${rowNumber}: Nom produit manquant`);
-          result.skipped++;
-          continue;
-        }
-        
-        if (!prixUnitaireStr) {
-          result.errors.push(`Ligne ${rowNumber}: Prix unitaire manquant`);
-          result.skipped++;
-          continue;
-        }
-        
-        const prixUnitaire = parseFloat(prixUnitaireStr.replace(',', '.'));
-        if (isNaN(prixUnitaire) || prixUnitaire < 0) {
-          result.errors.push(`Ligne ${rowNumber}: Prix unitaire invalide "${prixUnitaireStr}"`);
-          result.skipped++;
-          continue;
-        }
-        
-        if (!type || (type !== 'vente' && type !== 'achat')) {
-          result.errors.push(`Ligne ${rowNumber}: Type invalide "${type}" (doit être "vente" ou "achat")`);
-          result.skipped++;
-          continue;
-        }
-        
-        // Validate optional fields
-        const ref = row[refIndex]?.trim();
-        if (ref && existingRefs.has(ref.toLowerCase())) {
-          result.errors.push(`Ligne ${rowNumber}: Référence "${ref}" existe déjà`);
-          result.duplicates++;
-          continue;
-        }
-        
-        const tvaStr = row[tvaIndex]?.trim();
-        let tva = 19; // Default
-        if (tvaStr) {
-          tva = parseFloat(tvaStr.replace(',', '.'));
-          if (isNaN(tva) || tva < 0 || tva > 100) {
-            result.errors.push(`Ligne ${rowNumber}: TVA invalide "${tvaStr}" (doit être entre 0 et 100)`);
-            result.skipped++;
-            continue;
-          }
-        }
-        
-        const stockStr = row[stockIndex]?.trim();
-        let stock = 0; // Default
-        if (stockStr) {
-          stock = parseInt(stockStr);
-          if (isNaN(stock) || stock < 0) {
-            result.errors.push(`Ligne ${rowNumber}: Stock invalide "${stockStr}" (doit être un nombre positif)`);
-            result.skipped++;
-            continue;
-          }
-        }
-        
-        // Create product object
-        const produit: Produit = {
-          id: uuidv4(),
-          ref: ref || undefined,
-          nom,
-          description: row[descriptionIndex]?.trim() || '',
-          prixUnitaire,
-          tva,
-          stock,
-          type: type as 'vente' | 'achat'
-        };
-        
-        // Save to database if available
-        if (query) {
-          await query(
-            `INSERT INTO produits 
-             (id, ref, nom, description, prixUnitaire, tva, stock, type)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-              produit.id,
-              produit.ref || null,
-              produit.nom,
-              produit.description,
-              produit.prixUnitaire,
-              produit.tva,
-              produit.stock,
-              produit.type
-            ]
-          );
-        }
-        
-        if (ref) {
-          existingRefs.add(ref.toLowerCase());
-        }
-        result.imported++;
-        
-      } catch (error: any) {
-        result.errors.push(`Ligne ${rowNumber}: ${error.message}`);
-        result.skipped++;
-      }
+
+    if (row.existingId && !updateExisting) {
+      result.duplicates++;
+      continue;
     }
-    
-    result.success = result.imported > 0;
+
+    records.push({
+      rowNumber: row.rowNumber,
+      existingId: row.existingId,
+      columns: type === 'clients' ? toClientColumns(row.values, mapped) : toProduitColumns(row.values, mapped),
+      stock: type === 'produits' && mapped.has('stock') && row.values.stock ? parseImportNumber(row.values.stock) : undefined
+    });
+  }
+
+  if (records.length === 0) {
     return result;
-    
-  } catch (error: any) {
-    result.errors.push(`Erreur lors de l'analyse du fichier: ${error.message}`);
+  }
+
+  const saved = await importRecords(type, records);
+  if (!saved.success) {
+    result.errors.push(saved.error || "Erreur lors de l'importation");
+    result.skipped += records.length;
     return result;
   }
-};
 
-// Email validation helper
-const isValidEmail = (email: string): boolean => {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
+  result.imported = saved.imported || 0;
+  result.updated = saved.updated || 0;
+  result.success = result.imported + result.updated > 0;
+  return result;
 };
 
 // Generate CSV template for clients
 export const generateClientCSVTemplate = (): string => {
-  const header = 'code,nom,adresse,codePostal,ville,telephone,email,siret,matriculeFiscal';
-  const example1 = 'CL0001,"Entreprise ABC","123 Rue de la Paix",1000,Tunis,"+216 71 123 456","contact@abc.tn","12345678901234","123456789ABC"';
-  const example2 = 'CL0002,"Société XYZ","456 Avenue Bourguiba",2000,Sfax,"+216 74 789 012","info@xyz.tn","98765432109876","987654321XYZ"';
-  
-  return [header, example1, example2].join('\n');
+  const header = 'code;nom;adresse;codePostal;ville;telephone;email;siret;matriculeFiscal';
+  const example1 = 'CL0001;"Entreprise ABC";"123 Rue de la Paix";1000;Tunis;"+216 71 123 456";"contact@abc.tn";"12345678901234";"123456789ABC"';
+  const example2 = 'CL0002;"Société XYZ";"456 Avenue Bourguiba";2000;Sfax;"+216 74 789 012";"info@xyz.tn";"98765432109876";"987654321XYZ"';
+
+  return [header, example1, example2].join('\r\n');
 };
 
 // Generate CSV template for products
 export const generateProduitCSVTemplate = (): string => {
-  const header = 'ref,nom,description,prixUnitaire,tva,stock,type';
-  const example1 = 'V0001,"Consultation","Conseil en informatique",500.000,19,0,vente';
-  const example2 = 'V0002,"Développement web","Site vitrine responsive",1500.000,19,0,vente';
-  const example3 = 'A0001,"Hébergement serveur","Hébergement mensuel",200.000,19,0,achat';
-  const example4 = 'A0002,"Licence logiciel","Licence annuelle",800.000,19,0,achat';
-  
-  return [header, example1, example2, example3, example4].join('\n');
-};
\ No newline at end of file
+  const header = 'ref;nom;description;prixUnitaire;tva;fodecApplicable;tauxFodec;stock;type';
+  const example1 = 'V0001;"Consultation";"Conseil en informatique";500,000;19;non;1;0;vente';
+  const example2 = 'V0002;"Développement web";"Site vitrine responsive";1500,000;19;non;1;0;vente';
+  const example3 = 'A0001;"Hébergement serveur";"Hébergement mensuel";200,000;19;non;1;0;achat';
+  const example4 = 'A0002;"Licence logiciel";"Licence annuelle";800,000;19;oui;1;0;achat';
+
+  return [header, example1, example2, example3, example4].join('\r\n');
+};
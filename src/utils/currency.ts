@@ -1,31 +1,9 @@
-// Currency settings interface
-interface CurrencySettings {
-  symbol: string;
-  decimals: number;
-  position: 'before' | 'after';
-}
+import { CurrencySettings } from '../types';
+import { getAppSetting } from './appSettings';
+import { DINAR_DECIMALS, roundMoney } from './money';
 
-// Default currency settings
-const defaultCurrencySettings: CurrencySettings = {
-  symbol: '',
-  decimals: 3,
-  position: 'after'
-};
-
-// Get currency settings from localStorage or database
-const getCurrencySettings = (): CurrencySettings => {
-  try {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('currencySettings');
-      if (saved) {
-        return { ...defaultCurrencySettings, ...JSON.parse(saved) };
-      }
-    }
-  } catch (error) {
-    console.error('Error loading currency settings:', error);
-  }
-  return defaultCurrencySettings;
-};
+// Currency settings come from the settings service, loaded from the database at startup
+const getCurrencySettings = (): CurrencySettings => getAppSetting('currencySettings');
 
 export const formatCurrency = (amount: number): string => {
   const settings = getCurrencySettings();
@@ -43,16 +21,6 @@ export const formatCurrency = (amount: number): string => {
   }
 };
 
-export const setCurrencySettings = (settings: Partial<CurrencySettings>): void => {
-  try {
-    const currentSettings = getCurrencySettings();
-    const newSettings = { ...currentSettings, ...settings };
-    localStorage.setItem('currencySettings', JSON.stringify(newSettings));
-  } catch (error) {
-    console.error('Error saving currency settings:', error);
-  }
-};
-
 export const getCurrencySymbol = (): string => {
   return getCurrencySettings().symbol;
 };
@@ -61,6 +29,57 @@ export const getCurrencyDecimals = (): number => {
   return getCurrencySettings().decimals;
 };
 
+// Currencies documents can be issued in. Amounts are kept in the document's currency and
+// converted to dinars with the rate saved on the document.
+export const BASE_CURRENCY: string = 'TND';
+
+export const DOCUMENT_CURRENCIES: { code: string; nom: string; decimals: number }[] = [
+  { code: 'TND', nom: 'Dinar tunisien', decimals: 3 },
+  { code: 'EUR', nom: 'Euro', decimals: 2 },
+  { code: 'USD', nom: 'Dollar américain', decimals: 2 },
+  { code: 'GBP', nom: 'Livre sterling', decimals: 2 },
+  { code: 'CHF', nom: 'Franc suisse', decimals: 2 },
+  { code: 'CAD', nom: 'Dollar canadien', decimals: 2 },
+  { code: 'MAD', nom: 'Dirham marocain', decimals: 2 },
+  { code: 'DZD', nom: 'Dinar algérien', decimals: 2 }
+];
+
+export const isForeignCurrency = (devise?: string): boolean => !!devise && devise !== BASE_CURRENCY;
+
+export const getDocumentCurrencyDecimals = (devise?: string): number => {
+  if (!isForeignCurrency(devise)) {
+    return getCurrencyDecimals();
+  }
+  return DOCUMENT_CURRENCIES.find(currency => currency.code === devise)?.decimals ?? 2;
+};
+
+// Minor unit amounts of a document are computed in: the millime for the dinar whatever
+// the display settings, the currency's own decimals otherwise
+export const getMoneyDecimals = (devise?: string): number => {
+  if (!isForeignCurrency(devise)) {
+    return DINAR_DECIMALS;
+  }
+  return DOCUMENT_CURRENCIES.find(currency => currency.code === devise)?.decimals ?? 2;
+};
+
+// Dinar amounts use the currency settings, foreign ones are followed by their code
+export const formatDocumentAmount = (amount: number, devise?: string): string => {
+  if (!isForeignCurrency(devise)) {
+    return formatCurrency(amount);
+  }
+  return `${amount.toFixed(getDocumentCurrencyDecimals(devise))} ${devise}`;
+};
+
+export const toBaseCurrency = (amount: number, tauxChange?: number): number => roundMoney(amount * (tauxChange || 1));
+
+// Dinar price of a product expressed in the document's currency
+export const fromBaseCurrency = (amount: number, devise?: string, tauxChange?: number): number => {
+  if (!isForeignCurrency(devise) || !tauxChange) {
+    return amount;
+  }
+  return roundMoney(amount / tauxChange, getMoneyDecimals(devise));
+};
+
 export const parseCurrency = (value: string): number => {
   return parseFloat(value.replace(/[^\d.-]/g, '')) || 0;
 };
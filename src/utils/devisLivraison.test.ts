@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Devis, RepositoryResult } from '../types';
+import { canDeliverDevis, getResteALivrer, refreshDevisStatut } from './devisLivraison';
+
+// Answers the devis status query, then the delivered quantities of its lines
+const fakeQuery = (statut: Devis['statut'], lignes: { quantite: number; quantiteLivree: number }[]) =>
+  async <T>(sql: string) => (sql.includes('FROM lignes_devis') ? lignes : [{ statut }]) as T;
+
+const refresh = async (statut: Devis['statut'], lignes: { quantite: number; quantiteLivree: number }[]) => {
+  const updateDocumentStatut = vi.fn(async (): Promise<RepositoryResult> => ({ success: true }));
+  await refreshDevisStatut('d1', fakeQuery(statut, lignes), updateDocumentStatut);
+  return updateDocumentStatut;
+};
+
+describe('getResteALivrer', () => {
+  it('rounds the remaining quantity to the thousandth', () => {
+    expect(getResteALivrer({ quantite: 0.3, quantiteLivree: 0.1 + 0.2 })).toBe(0);
+    expect(getResteALivrer({ quantite: 5, quantiteLivree: 1.25 })).toBe(3.75);
+  });
+});
+
+describe('canDeliverDevis', () => {
+  const devis = (statut: Devis['statut'], quantiteLivree: number) => ({
+    statut,
+    lignes: [{ quantite: 2, quantiteLivree }]
+  }) as Devis;
+
+  it('needs a remaining quantity on a devis that is still open', () => {
+    expect(canDeliverDevis(devis('accepte', 1))).toBe(true);
+    expect(canDeliverDevis(devis('partiellement_livre', 2))).toBe(false);
+    expect(canDeliverDevis(devis('refuse', 0))).toBe(false);
+    expect(canDeliverDevis(devis('annule', 0))).toBe(false);
+  });
+});
+
+describe('refreshDevisStatut', () => {
+  it('marks the devis partially delivered while a line has a remaining quantity', async () => {
+    const update = await refresh('accepte', [{ quantite: 2, quantiteLivree: 2 }, { quantite: 3, quantiteLivree: 1 }]);
+    expect(update).toHaveBeenCalledWith('devis', 'd1', 'partiellement_livre');
+  });
+
+  it('marks the devis delivered once every line is, whatever the float sums', async () => {
+    const update = await refresh('partiellement_livre', [{ quantite: 0.3, quantiteLivree: 0.1 + 0.2 }]);
+    expect(update).toHaveBeenCalledWith('devis', 'd1', 'livre');
+  });
+
+  it('puts the devis back to accepted when its deliveries are deleted', async () => {
+    const update = await refresh('livre', [{ quantite: 2, quantiteLivree: 0 }]);
+    expect(update).toHaveBeenCalledWith('devis', 'd1', 'accepte');
+  });
+
+  it('keeps a status chosen by the user when nothing is delivered', async () => {
+    expect(await refresh('envoye', [{ quantite: 2, quantiteLivree: 0 }])).not.toHaveBeenCalled();
+  });
+
+  it('leaves cancelled devis and unchanged statuses alone', async () => {
+    expect(await refresh('annule', [{ quantite: 2, quantiteLivree: 1 }])).not.toHaveBeenCalled();
+    expect(await refresh('livre', [{ quantite: 2, quantiteLivree: 2 }])).not.toHaveBeenCalled();
+  });
+
+  it('fails when the status cannot be saved', async () => {
+    const updateDocumentStatut = async (): Promise<RepositoryResult> => ({ success: false, error: 'Accès refusé' });
+    await expect(refreshDevisStatut('d1', fakeQuery('accepte', [{ quantite: 2, quantiteLivree: 2 }]), updateDocumentStatut))
+      .rejects.toThrow('Accès refusé');
+  });
+});
@@ -0,0 +1,51 @@
+import { DatabaseQuery, Devis, UpdateDocumentStatut } from '../types';
+import { getQuantiteRestante, sumQuantites } from './money';
+
+// Statuses set from the deliveries, the others are chosen by the user
+const STATUTS_LIVRAISON: Devis['statut'][] = ['partiellement_livre', 'livre'];
+
+export const getResteALivrer = (ligne: { quantite: number; quantiteLivree?: number }) =>
+  getQuantiteRestante(ligne.quantite, ligne.quantiteLivree);
+
+// A devis can be delivered while it has a remaining quantity and was not refused or cancelled
+export const canDeliverDevis = (devis: Devis) =>
+  !['refuse', 'annule', 'livre'].includes(devis.statut) &&
+  devis.lignes.some(ligne => getResteALivrer(ligne) > 0);
+
+// Update the devis status from the quantities delivered by its delivery notes
+export const refreshDevisStatut = async (
+  devisId: string,
+  query: DatabaseQuery,
+  updateDocumentStatut: UpdateDocumentStatut
+) => {
+  const devisResult = await query<{ statut: Devis['statut'] }[]>('SELECT statut FROM devis WHERE id = ?', [devisId]);
+  if (devisResult.length === 0) return;
+  const currentStatut = devisResult[0].statut;
+
+  // Cancelled devis keep their status, the remaining quantities will not be delivered
+  if (currentStatut === 'annule') return;
+
+  const lignes = await query<{ quantite: number; quantiteLivree: number }[]>(`
+    SELECT ld.quantite,
+           COALESCE((SELECT SUM(lbl.quantite) FROM lignes_bon_livraison lbl WHERE lbl.ligneDevisId = ld.id), 0) as quantiteLivree
+    FROM lignes_devis ld
+    WHERE ld.devisId = ?
+  `, [devisId]);
+
+  const totalLivre = sumQuantites(lignes.map(ligne => ligne.quantiteLivree));
+  let statut = currentStatut;
+  if (totalLivre <= 0) {
+    if (STATUTS_LIVRAISON.includes(currentStatut)) {
+      statut = 'accepte';
+    }
+  } else if (lignes.every(ligne => getResteALivrer(ligne) === 0)) {
+    statut = 'livre';
+  } else {
+    statut = 'partiellement_livre';
+  }
+
+  if (statut !== currentStatut) {
+    const result = await updateDocumentStatut('devis', devisId, statut);
+    if (!result.success) throw new Error(result.error || 'Mise à jour du statut impossible');
+  }
+};
@@ -0,0 +1,97 @@
+import { DatabaseQuery } from '../types';
+
+export type DocumentChainType = 'devis' | 'bonLivraison' | 'facture';
+
+export interface DocumentChainRef {
+  type: DocumentChainType;
+  id: string;
+  numero: string;
+}
+
+// Documents linked together by conversions: devis -> bon(s) de livraison -> facture(s)
+export interface DocumentChain {
+  devis: DocumentChainRef[];
+  bonsLivraison: DocumentChainRef[];
+  factures: DocumentChainRef[];
+}
+
+interface DocumentLinkRow {
+  fromId: string;
+  fromNumero: string;
+  toId: string;
+  toNumero: string;
+}
+
+export const getDocumentChainKey = (type: DocumentChainType, id: string) => `${type}:${id}`;
+
+// Load every conversion link once and return the chain of each linked document, by chain key
+export const loadDocumentChains = async (
+  query: DatabaseQuery
+): Promise<Map<string, DocumentChain>> => {
+  const [devisBons, bonsFactures, devisFactures] = await Promise.all([
+    query<DocumentLinkRow[]>(`
+      SELECT d.id as fromId, d.numero as fromNumero, bl.id as toId, bl.numero as toNumero
+      FROM bons_livraison bl
+      JOIN devis d ON bl.devisId = d.id
+    `),
+    query<DocumentLinkRow[]>(`
+      SELECT DISTINCT bl.id as fromId, bl.numero as fromNumero, f.id as toId, f.numero as toNumero
+      FROM lignes_livraison_facturees llf
+      JOIN bons_livraison bl ON llf.bonLivraisonId = bl.id
+      JOIN factures f ON llf.factureId = f.id
+    `),
+    query<DocumentLinkRow[]>(`
+      SELECT d.id as fromId, d.numero as fromNumero, f.id as toId, f.numero as toNumero
+      FROM factures f
+      JOIN devis d ON f.devisId = d.id
+    `)
+  ]);
+
+  const refs = new Map<string, DocumentChainRef>();
+  const neighbours = new Map<string, Set<string>>();
+
+  const addLink = (fromType: DocumentChainType, toType: DocumentChainType, row: DocumentLinkRow) => {
+    const fromKey = getDocumentChainKey(fromType, row.fromId);
+    const toKey = getDocumentChainKey(toType, row.toId);
+    refs.set(fromKey, { type: fromType, id: row.fromId, numero: row.fromNumero });
+    refs.set(toKey, { type: toType, id: row.toId, numero: row.toNumero });
+    if (!neighbours.has(fromKey)) neighbours.set(fromKey, new Set());
+    if (!neighbours.has(toKey)) neighbours.set(toKey, new Set());
+    neighbours.get(fromKey)!.add(toKey);
+    neighbours.get(toKey)!.add(fromKey);
+  };
+
+  devisBons.forEach(row => addLink('devis', 'bonLivraison', row));
+  bonsFactures.forEach(row => addLink('bonLivraison', 'facture', row));
+  devisFactures.forEach(row => addLink('devis', 'facture', row));
+
+  // Every document of a connected group shares the same chain
+  const chains = new Map<string, DocumentChain>();
+  for (const startKey of Array.from(refs.keys())) {
+    if (chains.has(startKey)) continue;
+
+    const group: string[] = [];
+    const pending = [startKey];
+    const visited = new Set([startKey]);
+    while (pending.length > 0) {
+      const key = pending.pop()!;
+      group.push(key);
+      neighbours.get(key)!.forEach(next => {
+        if (!visited.has(next)) {
+          visited.add(next);
+          pending.push(next);
+        }
+      });
+    }
+
+    const members = group.map(key => refs.get(key)!).sort((a, b) => a.numero.localeCompare(b.numero));
+    const chain: DocumentChain = {
+      devis: members.filter(ref => ref.type === 'devis'),
+      bonsLivraison: members.filter(ref => ref.type === 'bonLivraison'),
+      factures: members.filter(ref => ref.type === 'facture')
+    };
+    group.forEach(key => chains.set(key, chain));
+  }
+
+  return chains;
+};
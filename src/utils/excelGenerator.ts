@@ -0,0 +1,45 @@
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { getCompanyInfo } from './numberGenerator';
+import { DeclarationTVA, getDeclarationTVASections } from './tva';
+import { DatabaseQuery } from '../types';
+
+// Monthly TVA declaration as a single sheet, same sections as the PDF
+export const generateDeclarationTVAExcel = async (
+  declaration: DeclarationTVA,
+  isElectron: boolean,
+  query?: DatabaseQuery
+): Promise<Uint8Array> => {
+  const companyInfo = await getCompanyInfo(isElectron, query);
+  const periode = format(new Date(declaration.annee, declaration.mois - 1, 1), 'MMMM yyyy', { locale: fr });
+
+  const rows: (string | number)[][] = [
+    ['DÉCLARATION MENSUELLE DES IMPÔTS'],
+    ['Période', periode],
+    ['Contribuable', companyInfo.nom],
+    ['Matricule fiscal', companyInfo.matriculeFiscal || ''],
+    ['Adresse', [companyInfo.adresse, companyInfo.codePostal, companyInfo.ville].filter(Boolean).join(' ')],
+    []
+  ];
+
+  getDeclarationTVASections(declaration).forEach(section => {
+    rows.push([section.titre.toUpperCase()], section.colonnes, ...section.lignes, []);
+  });
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [{ wch: 55 }, { wch: 24 }, { wch: 20 }];
+
+  // Amounts are kept as numbers with three decimals like the dinar
+  Object.keys(sheet)
+    .filter(address => !address.startsWith('!') && sheet[address].t === 'n')
+    .forEach(address => {
+      sheet[address].z = '#,##0.000';
+    });
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Déclaration TVA');
+
+  const data: ArrayBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return new Uint8Array(data);
+};
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Facture, RepositoryResult } from '../types';
+import { getClientBalances, getFacturesBalances, refreshFactureStatut } from './invoiceBalance';
+
+interface BalanceRow {
+  factureId: string;
+  factureNumero: string;
+  clientId: string;
+  clientNom: string;
+  statut: Facture['statut'];
+  devise: string;
+  tauxChange: number;
+  totalTTC: number;
+  totalAvoirs: number;
+  totalPaye: number;
+  totalRetenues: number;
+}
+
+const row = (overrides: Partial<BalanceRow> = {}): BalanceRow => ({
+  factureId: 'f1',
+  factureNumero: 'FA-001',
+  clientId: 'c1',
+  clientNom: 'Client',
+  statut: 'envoyee',
+  devise: 'TND',
+  tauxChange: 1,
+  totalTTC: 1190.5,
+  totalAvoirs: 0,
+  totalPaye: 0,
+  totalRetenues: 0,
+  ...overrides
+});
+
+const balancesOf = (...rows: BalanceRow[]) => getFacturesBalances(async <T>() => rows as T);
+
+describe('getFacturesBalances', () => {
+  it('deducts credit notes, payments and withholdings to the millime', async () => {
+    const [balance] = await balancesOf(row({ totalTTC: 0.3, totalPaye: 0.1, totalRetenues: 0.2 }));
+    expect(balance.resteAPayer).toBe(0);
+
+    const [partiel] = await balancesOf(row({ totalAvoirs: 190.5, totalPaye: 588.1, totalRetenues: 11.9 }));
+    expect(partiel.resteAPayer).toBe(400);
+  });
+
+  it('never owes a negative amount', async () => {
+    const [balance] = await balancesOf(row({ totalTTC: 100, totalPaye: 120 }));
+    expect(balance.resteAPayer).toBe(0);
+  });
+});
+
+describe('getClientBalances', () => {
+  it('converts foreign-currency invoices to dinars with their own rate', async () => {
+    const balances = await balancesOf(
+      row({ factureId: 'f1', totalTTC: 1000, totalPaye: 400 }),
+      row({ factureId: 'f2', devise: 'EUR', tauxChange: 3.345, totalTTC: 200, totalAvoirs: 50, totalPaye: 50 })
+    );
+    const [client] = getClientBalances(balances);
+    expect(client).toMatchObject({
+      totalFacture: 1669,
+      totalAvoirs: 167.25,
+      totalPaye: 567.25,
+      totalRetenues: 0,
+      solde: 934.5
+    });
+  });
+
+  it('sorts the clients by decreasing balance', async () => {
+    const balances = await balancesOf(
+      row({ factureId: 'f1', clientId: 'c1', totalTTC: 100 }),
+      row({ factureId: 'f2', clientId: 'c2', clientNom: 'Autre', totalTTC: 300 })
+    );
+    expect(getClientBalances(balances).map(client => client.clientId)).toEqual(['c2', 'c1']);
+  });
+});
+
+describe('refreshFactureStatut', () => {
+  const updateFactureStatut = vi.fn(async (): Promise<RepositoryResult> => ({ success: true }));
+
+  const refresh = async (overrides: Partial<BalanceRow>) => {
+    updateFactureStatut.mockClear();
+    vi.stubGlobal('window', { electronAPI: { updateFactureStatut } });
+    await refreshFactureStatut('f1', async <T>() => [row(overrides)] as T);
+    return updateFactureStatut;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('cancels an invoice fully credited', async () => {
+    expect(await refresh({ totalTTC: 119, totalAvoirs: 119 })).toHaveBeenCalledWith('f1', 'annulee');
+  });
+
+  it('marks an invoice paid once credit notes, payments and withholdings settle it', async () => {
+    expect(await refresh({ totalTTC: 0.3, totalAvoirs: 0.1, totalPaye: 0.1, totalRetenues: 0.1 }))
+      .toHaveBeenCalledWith('f1', 'payee');
+  });
+
+  it('reopens a paid invoice when a payment is removed', async () => {
+    expect(await refresh({ statut: 'payee', totalTTC: 119, totalPaye: 100 })).toHaveBeenCalledWith('f1', 'envoyee');
+  });
+
+  it('keeps the status of an invoice still owed', async () => {
+    expect(await refresh({ totalTTC: 119, totalPaye: 100 })).not.toHaveBeenCalled();
+  });
+
+  it('fails when the main process refuses the change', async () => {
+    updateFactureStatut.mockResolvedValueOnce({ success: false, error: 'Accès refusé' });
+    await expect(refresh({ totalPaye: 1190.5 })).rejects.toThrow('Accès refusé');
+  });
+});
@@ -0,0 +1,129 @@
+import { DatabaseQuery, Facture } from '../types';
+import { toBaseCurrency } from './currency';
+import { sumMoney, toMillimes } from './money';
+
+// Amounts in the currency of the invoice
+export interface FactureBalance {
+  factureId: string;
+  factureNumero: string;
+  clientId: string;
+  clientNom: string;
+  statut: Facture['statut'];
+  devise: string;
+  tauxChange: number; // Dinars for one unit of the currency
+  totalTTC: number;
+  totalAvoirs: number;
+  totalPaye: number;
+  totalRetenues: number;
+  resteAPayer: number;
+}
+
+// Amounts in dinars, the invoices in other currencies are converted with their own rate
+export interface ClientBalance {
+  clientId: string;
+  clientNom: string;
+  totalFacture: number;
+  totalAvoirs: number;
+  totalPaye: number;
+  totalRetenues: number;
+  solde: number;
+}
+
+// Condition on the invoices aliased f that were issued for good: drafts are not owed yet and
+// invoices cancelled without a credit note never were. Those cancelled by their credit notes
+// stay issued, the credit notes being deducted on their own date.
+export const FACTURES_COMPTABILISEES = `
+  f.statut != 'brouillon' AND (
+    f.statut != 'annulee' OR
+    EXISTS (SELECT 1 FROM avoirs ax WHERE ax.factureId = f.id AND ax.statut != 'annule')
+  )
+`;
+
+const balanceQuery = `
+  SELECT f.id as factureId, f.numero as factureNumero, f.clientId, c.nom as clientNom, f.statut, f.totalTTC,
+         COALESCE(f.devise, 'TND') as devise, COALESCE(f.tauxChange, 1) as tauxChange,
+         COALESCE((SELECT SUM(a.totalTTC) FROM avoirs a WHERE a.factureId = f.id AND a.statut != 'annule'), 0) as totalAvoirs,
+         COALESCE((SELECT SUM(p.montant) FROM payments p WHERE p.factureId = f.id AND p.statut = 'valide'), 0) as totalPaye,
+         COALESCE((SELECT SUM(p.montantRetenue) FROM payments p WHERE p.factureId = f.id AND p.statut = 'valide'), 0) as totalRetenues
+  FROM factures f
+  JOIN clients c ON f.clientId = c.id
+`;
+
+type FactureBalanceRow = Omit<FactureBalance, 'resteAPayer'>;
+
+const toBalance = (row: FactureBalanceRow): FactureBalance => ({
+  ...row,
+  resteAPayer: Math.max(0, sumMoney([row.totalTTC, -row.totalAvoirs, -row.totalPaye, -row.totalRetenues]))
+});
+
+// Outstanding amount of every invoice, net of credit notes, validated payments
+// and the amounts withheld at source by the client
+export const getFacturesBalances = async (
+  query: DatabaseQuery
+): Promise<FactureBalance[]> => {
+  const result = await query<FactureBalanceRow[]>(`${balanceQuery} ORDER BY f.date DESC`);
+  return result.map(toBalance);
+};
+
+export const getFactureBalance = async (
+  factureId: string,
+  query: DatabaseQuery
+): Promise<FactureBalance | null> => {
+  const result = await query<FactureBalanceRow[]>(`${balanceQuery} WHERE f.id = ?`, [factureId]);
+  return result.length > 0 ? toBalance(result[0]) : null;
+};
+
+// Group invoice balances per client, in dinars
+export const getClientBalances = (balances: FactureBalance[]): ClientBalance[] => {
+  const clients = new Map<string, ClientBalance>();
+
+  balances.forEach(balance => {
+    if (!clients.has(balance.clientId)) {
+      clients.set(balance.clientId, {
+        clientId: balance.clientId,
+        clientNom: balance.clientNom,
+        totalFacture: 0,
+        totalAvoirs: 0,
+        totalPaye: 0,
+        totalRetenues: 0,
+        solde: 0
+      });
+    }
+    const client = clients.get(balance.clientId)!;
+    const addDinars = (total: number, amount: number) => sumMoney([total, toBaseCurrency(amount, balance.tauxChange)]);
+    client.totalFacture = addDinars(client.totalFacture, balance.totalTTC);
+    client.totalAvoirs = addDinars(client.totalAvoirs, balance.totalAvoirs);
+    client.totalPaye = addDinars(client.totalPaye, balance.totalPaye);
+    client.totalRetenues = addDinars(client.totalRetenues, balance.totalRetenues);
+    client.solde = addDinars(client.solde, balance.resteAPayer);
+  });
+
+  return Array.from(clients.values()).sort((a, b) => b.solde - a.solde);
+};
+
+// Set the invoice status from its credit notes, payments and withholdings:
+// fully credited invoices are cancelled, settled ones are paid
+export const refreshFactureStatut = async (
+  factureId: string,
+  query: DatabaseQuery
+) => {
+  const balance = await getFactureBalance(factureId, query);
+  if (!balance) return;
+
+  let statut = balance.statut;
+  if (toMillimes(balance.totalAvoirs) >= toMillimes(balance.totalTTC)) {
+    statut = 'annulee';
+  } else if (balance.resteAPayer === 0) {
+    statut = 'payee';
+  } else if (statut === 'payee') {
+    statut = 'envoyee';
+  }
+
+  if (statut !== balance.statut) {
+    // Through the main process, which records the change in the invoice audit log
+    const result = await window.electronAPI.updateFactureStatut(factureId, statut);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { BonLivraison, LigneDocument, Produit } from '../types';
+import { getQuantitesFacturees, getResteAFacturer, getStatutFacturation } from './livraisonFacturation';
+
+const produit: Produit = {
+  id: 'p1',
+  nom: 'Produit',
+  description: '',
+  prixUnitaire: 10,
+  tva: 19,
+  fodecApplicable: false,
+  tauxFodec: 1,
+  type: 'vente'
+};
+
+const ligne = (quantite: number, quantiteFacturee?: number): LigneDocument => ({
+  id: `l${quantite}-${quantiteFacturee}`,
+  produit,
+  quantite,
+  prixUnitaire: 10,
+  remise: 0,
+  montantHT: quantite * 10,
+  montantFodec: 0,
+  baseTVA: quantite * 10,
+  montantTVA: quantite * 1.9,
+  montantTTC: quantite * 11.9,
+  quantiteFacturee
+});
+
+const bon = (lignes: LigneDocument[]): BonLivraison => ({
+  id: 'bl1',
+  numero: 'BL-001',
+  date: new Date('2026-03-01'),
+  client: { id: 'c1', code: 'C1', nom: 'Client', adresse: '', codePostal: '', ville: '', telephone: '', email: '' },
+  lignes,
+  statut: 'livre'
+});
+
+describe('getResteAFacturer', () => {
+  it('rounds the remaining quantity to the thousandth', () => {
+    expect(getResteAFacturer({ quantite: 0.3, quantiteFacturee: 0.1 + 0.2 })).toBe(0);
+    expect(getResteAFacturer({ quantite: 1.5, quantiteFacturee: 0.7 })).toBe(0.8);
+    expect(getResteAFacturer({ quantite: 2 })).toBe(2);
+  });
+});
+
+describe('getStatutFacturation', () => {
+  it('is not invoiced until a quantity is invoiced', () => {
+    expect(getStatutFacturation(bon([ligne(2), ligne(3, 0)]))).toBe('non_facture');
+  });
+
+  it('is partial while a line has a remaining quantity', () => {
+    expect(getStatutFacturation(bon([ligne(2, 2), ligne(3, 1)]))).toBe('partiel');
+    expect(getStatutFacturation(bon([ligne(2, 2), ligne(3)]))).toBe('partiel');
+  });
+
+  it('is invoiced once every line is, whatever the float sums', () => {
+    expect(getStatutFacturation(bon([ligne(2, 2), ligne(0.3, 0.1 + 0.2)]))).toBe('facture');
+  });
+});
+
+describe('getQuantitesFacturees', () => {
+  it('maps the invoiced quantity to each delivery note line', async () => {
+    const quantites = await getQuantitesFacturees('bl1', async <T>() => [
+      { ligneBonLivraisonId: 'a', quantite: 2 },
+      { ligneBonLivraisonId: 'b', quantite: 0.5 }
+    ] as T);
+    expect(quantites.get('a')).toBe(2);
+    expect(quantites.get('b')).toBe(0.5);
+    expect(quantites.has('c')).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import { BonLivraison, DatabaseQuery } from '../types';
+import { getQuantiteRestante, sumQuantites } from './money';
+
+export type StatutFacturation = 'non_facture' | 'partiel' | 'facture';
+
+// Quantity of each delivery note line already invoiced, by line id
+export const getQuantitesFacturees = async (
+  bonLivraisonId: string,
+  query: DatabaseQuery
+): Promise<Map<string, number>> => {
+  const result = await query<{ ligneBonLivraisonId: string; quantite: number }[]>(`
+    SELECT ligneBonLivraisonId, SUM(quantite) as quantite
+    FROM lignes_livraison_facturees
+    WHERE bonLivraisonId = ?
+    GROUP BY ligneBonLivraisonId
+  `, [bonLivraisonId]);
+  return new Map(result.map(row => [row.ligneBonLivraisonId, row.quantite]));
+};
+
+export const getResteAFacturer = (ligne: { quantite: number; quantiteFacturee?: number }) =>
+  getQuantiteRestante(ligne.quantite, ligne.quantiteFacturee);
+
+export const getStatutFacturation = (bon: BonLivraison): StatutFacturation => {
+  const totalFacture = sumQuantites(bon.lignes.map(ligne => ligne.quantiteFacturee || 0));
+  if (totalFacture <= 0) return 'non_facture';
+  return bon.lignes.every(ligne => getResteAFacturer(ligne) === 0) ? 'facture' : 'partiel';
+};
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allocateUnits,
+  dinarsSQL,
+  fromMillimes,
+  getQuantiteRestante,
+  lineAmountUnits,
+  percentOfUnits,
+  roundHalfUp,
+  roundMoney,
+  subtractMoney,
+  subtractQuantite,
+  sumMoney,
+  sumQuantites,
+  toMillimes,
+  toMinorUnits
+} from './money';
+
+describe('roundHalfUp', () => {
+  it('rounds half away from zero', () => {
+    expect(roundHalfUp(0.5)).toBe(1);
+    expect(roundHalfUp(2.5)).toBe(3);
+    expect(roundHalfUp(-0.5)).toBe(-1);
+    expect(roundHalfUp(-2.5)).toBe(-3);
+  });
+
+  it('never returns negative zero', () => {
+    expect(Object.is(roundHalfUp(-0.4), 0)).toBe(true);
+  });
+});
+
+describe('toMillimes', () => {
+  it('rounds halves that binary floats store just below the half', () => {
+    // 1.0005 * 1000 === 1000.4999999999999
+    expect(toMillimes(1.0005)).toBe(1001);
+    expect(toMillimes(-1.0005)).toBe(-1001);
+    expect(toMillimes(1.005)).toBe(1005);
+  });
+
+  it('handles large amounts', () => {
+    expect(toMillimes(123456789.1235)).toBe(123456789124);
+  });
+
+  it('treats missing amounts as zero', () => {
+    expect(toMillimes(NaN)).toBe(0);
+    expect(toMillimes(undefined as unknown as number)).toBe(0);
+  });
+
+  it('round-trips to dinars', () => {
+    expect(fromMillimes(toMillimes(19.999))).toBe(19.999);
+  });
+});
+
+describe('toMinorUnits', () => {
+  it('rounds to cents for 2-decimal currencies', () => {
+    // 12.345 * 100 === 1234.4999999999998
+    expect(toMinorUnits(12.345, 2)).toBe(1235);
+    expect(roundMoney(12.345, 2)).toBe(12.35);
+  });
+});
+
+describe('sumMoney and subtractMoney', () => {
+  it('adds without float drift', () => {
+    expect(0.1 + 0.2).not.toBe(0.3);
+    expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    expect(sumMoney(Array(1000).fill(0.001))).toBe(1);
+  });
+
+  it('rounds each amount before adding', () => {
+    // Three lines of 0.0005 each round to a millime, not 0.0015 rounded once
+    expect(sumMoney([0.0005, 0.0005, 0.0005])).toBe(0.003);
+  });
+
+  it('subtracts without float drift', () => {
+    expect(1.1 - 1).not.toBe(0.1);
+    expect(subtractMoney(1.1, 1)).toBe(0.1);
+    expect(subtractMoney(0.3, 0.7)).toBe(-0.4);
+  });
+});
+
+describe('quantities', () => {
+  it('rounds summed and remaining quantities to the thousandth', () => {
+    expect(sumQuantites([0.1, 0.2])).toBe(0.3);
+    expect(subtractQuantite(0.3, 0.1)).toBe(0.2);
+    expect(getQuantiteRestante(0.3, sumQuantites([0.1, 0.2]))).toBe(0);
+  });
+
+  it('never leaves a negative remaining quantity', () => {
+    expect(getQuantiteRestante(2, 2.5)).toBe(0);
+    expect(getQuantiteRestante(2)).toBe(2);
+  });
+});
+
+describe('percentOfUnits', () => {
+  it('rounds the tax to the millime', () => {
+    expect(percentOfUnits(1005, 19)).toBe(191); // 190.95
+    expect(percentOfUnits(250, 1)).toBe(3); // 2.5
+    expect(percentOfUnits(333, 7)).toBe(23); // 23.31
+  });
+});
+
+describe('lineAmountUnits', () => {
+  it('computes quantity x price less the discount', () => {
+    expect(lineAmountUnits(3, 1.115, 10)).toBe(3011); // 3.0105
+    expect(lineAmountUnits(0.333, 3, 0)).toBe(999);
+    expect(lineAmountUnits(1, 10, 100)).toBe(0);
+  });
+
+  it('rounds to the currency minor unit', () => {
+    // 3 * 3.335 === 10.004999999999999
+    expect(lineAmountUnits(3, 3.335, 0, 2)).toBe(1001);
+  });
+});
+
+describe('allocateUnits', () => {
+  it('always adds up to the total', () => {
+    expect(allocateUnits(10, [1, 1, 1])).toEqual([4, 3, 3]);
+    expect(allocateUnits(190, [333, 333, 333])).toEqual([64, 63, 63]);
+    expect(allocateUnits(-10, [1, 1, 1])).toEqual([-4, -3, -3]);
+  });
+
+  it('gives the remainder to the largest fractions', () => {
+    expect(allocateUnits(100, [1, 2, 3])).toEqual([17, 33, 50]);
+  });
+
+  it('handles zero weights', () => {
+    expect(allocateUnits(5, [0, 0])).toEqual([5, 0]);
+    expect(allocateUnits(5, [])).toEqual([]);
+  });
+});
+
+describe('dinarsSQL', () => {
+  it('converts and rounds per document', () => {
+    expect(dinarsSQL('totalTTC')).toBe('ROUND(totalTTC * COALESCE(tauxChange, 1), 3)');
+    expect(dinarsSQL('a.totalTTC', 'f.tauxChange')).toBe('ROUND(a.totalTTC * COALESCE(f.tauxChange, 1), 3)');
+  });
+});
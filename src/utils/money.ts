@@ -0,0 +1,99 @@
+// Exact money arithmetic. Amounts stay plain numbers in the documents and the database, but every
+// computation goes through integer minor units (millimes for the dinar, cents for 2-decimal currencies)
+// so that line amounts, tax tables and document totals always add up to the same millime.
+
+export const DINAR_DECIMALS = 3;
+
+// How FODEC and TVA are rounded on a document:
+// - 'ligne': each line's taxes are rounded, the document taxes are the sum of the rounded lines
+// - 'document': each rate's tax is computed on the summed base and rounded once, then spread back
+//   over the lines so that they still add up to the document amount
+export type RoundingPolicy = 'ligne' | 'document';
+
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = 'ligne';
+
+const unitsPerAmount = (decimals: number): number => Math.pow(10, decimals);
+
+// Round half away from zero. Products such as 1.005 * 1000 come out as 1004.9999999999999,
+// trimming to 15 significant digits drops that binary noise before rounding.
+export const roundHalfUp = (value: number): number => {
+  const cleaned = Number(value.toPrecision(15));
+  const rounded = Math.round(Math.abs(cleaned));
+  return (cleaned < 0 ? -rounded : rounded) || 0;
+};
+
+export const toMinorUnits = (amount: number, decimals: number = DINAR_DECIMALS): number =>
+  roundHalfUp((amount || 0) * unitsPerAmount(decimals));
+
+export const fromMinorUnits = (units: number, decimals: number = DINAR_DECIMALS): number =>
+  units / unitsPerAmount(decimals);
+
+export const toMillimes = (amount: number): number => toMinorUnits(amount, DINAR_DECIMALS);
+
+export const fromMillimes = (millimes: number): number => fromMinorUnits(millimes, DINAR_DECIMALS);
+
+export const roundMoney = (amount: number, decimals: number = DINAR_DECIMALS): number =>
+  fromMinorUnits(toMinorUnits(amount, decimals), decimals);
+
+// Sum of amounts each rounded to the minor unit first
+export const sumMoney = (amounts: number[], decimals: number = DINAR_DECIMALS): number =>
+  fromMinorUnits(amounts.reduce((sum, amount) => sum + toMinorUnits(amount, decimals), 0), decimals);
+
+export const subtractMoney = (amount: number, deduction: number, decimals: number = DINAR_DECIMALS): number =>
+  fromMinorUnits(toMinorUnits(amount, decimals) - toMinorUnits(deduction, decimals), decimals);
+
+// Quantities are kept to the thousandth of a unit. Remaining and summed quantities are rounded to it
+// so that statuses compare exact values: 0.1 + 0.2 delivered out of 0.3 leaves nothing to deliver.
+export const QUANTITE_DECIMALS = 3;
+
+export const sumQuantites = (quantites: number[]): number => sumMoney(quantites, QUANTITE_DECIMALS);
+
+export const subtractQuantite = (quantite: number, deduction: number): number =>
+  subtractMoney(quantite, deduction, QUANTITE_DECIMALS);
+
+// Quantity still to deliver, invoice or receive on a line, never negative
+export const getQuantiteRestante = (quantite: number, quantiteTraitee: number = 0): number =>
+  Math.max(0, subtractQuantite(quantite, quantiteTraitee));
+
+// Rate percent of a base already in minor units, rounded to the minor unit
+export const percentOfUnits = (baseUnits: number, rate: number): number => roundHalfUp((baseUnits * rate) / 100);
+
+// Line amount in minor units: quantity x unit price, less the line discount
+export const lineAmountUnits = (
+  quantite: number,
+  prixUnitaire: number,
+  remise: number = 0,
+  decimals: number = DINAR_DECIMALS
+): number => roundHalfUp((quantite || 0) * (prixUnitaire || 0) * (1 - (remise || 0) / 100) * unitsPerAmount(decimals));
+
+// Split a total in minor units proportionally to the weights, by largest remainder,
+// so that the parts always add up to the total exactly
+export const allocateUnits = (totalUnits: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0) {
+    return [];
+  }
+  if (totalWeight === 0) {
+    return weights.map((_, index) => (index === 0 ? totalUnits : 0));
+  }
+
+  const sign = totalUnits < 0 ? -1 : 1;
+  const absoluteTotal = Math.abs(totalUnits);
+  const shares = weights.map(weight => (absoluteTotal * weight) / totalWeight);
+  const parts = shares.map(share => Math.floor(share));
+  let remainder = absoluteTotal - parts.reduce((sum, part) => sum + part, 0);
+
+  const byFraction = shares
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (let i = 0; remainder > 0 && byFraction.length > 0; i = (i + 1) % byFraction.length) {
+    parts[byFraction[i].index] += 1;
+    remainder -= 1;
+  }
+
+  return parts.map(part => (sign * part) || 0);
+};
+
+// Report queries: a stored document amount converted to dinars, rounded to the millime per document
+export const dinarsSQL = (amount: string, tauxChange: string = 'tauxChange'): string =>
+  `ROUND(${amount} * COALESCE(${tauxChange}, 1), ${DINAR_DECIMALS})`;
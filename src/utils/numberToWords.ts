@@ -1,5 +1,8 @@
+import { getCurrencyDecimals } from './currency';
+
 // Convert numbers to French words for amount display
-export const numberToWords = (amount: number, currency: string = 'TND'): string => {
+// Decimals default to the currency settings; documents in a foreign currency pass their own
+export const numberToWords = (amount: number, currency: string = 'TND', currencyDecimals?: number): string => {
   const dinars = Math.floor(amount);
   
   // Ensure currency is 'TND' if not provided or empty, or if unrecognized
@@ -8,23 +11,7 @@ export const numberToWords = (amount: number, currency: string = 'TND'): string
     effectiveCurrency = 'TND'; // Default to TND if not specified or unrecognized
   }
   
-  // Get decimal places from currency settings
-  const getCurrencyDecimals = (): number => {
-    try {
-      if (typeof window !== 'undefined') {
-        const saved = localStorage.getItem('currencySettings');
-        if (saved) {
-          const settings = JSON.parse(saved);
-          return settings.decimals || 3;
-        }
-      }
-    } catch (error) {
-      console.error('Error loading currency settings:', error);
-    }
-    return 3; // Default to 3 decimals
-  };
-  
-  const decimals = getCurrencyDecimals();
+  const decimals = currencyDecimals ?? getCurrencyDecimals();
   const multiplier = Math.pow(10, decimals);
   const fractionalPart = Math.round((amount - dinars) * multiplier);
   
@@ -0,0 +1,101 @@
+import { DatabaseQuery } from '../types';
+import { subtractMoney, sumMoney } from './money';
+
+export interface FactureFournisseurBalance {
+  factureFournisseurId: string;
+  factureNumero: string;
+  fournisseurId: string;
+  fournisseurNom: string;
+  statut: string;
+  dateEcheance: Date;
+  totalTTC: number;
+  totalPaye: number;
+  resteAPayer: number;
+}
+
+// Outstanding amounts of a supplier split by days past the due date
+export interface FournisseurAging {
+  fournisseurId: string;
+  fournisseurNom: string;
+  nonEchu: number;
+  jours30: number;
+  jours60: number;
+  jours90: number;
+  plus90: number;
+  total: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const balanceQuery = `
+  SELECT ff.id as factureFournisseurId, ff.numero as factureNumero, ff.fournisseurId, f.nom as fournisseurNom,
+         ff.statut, ff.dateEcheance, ff.totalTTC,
+         COALESCE((SELECT SUM(p.montant) FROM paiements_fournisseur p WHERE p.factureFournisseurId = ff.id AND p.statut = 'valide'), 0) as totalPaye
+  FROM factures_fournisseur ff
+  JOIN fournisseurs f ON ff.fournisseurId = f.id
+`;
+
+type FactureFournisseurBalanceRow = Omit<FactureFournisseurBalance, 'dateEcheance' | 'resteAPayer'> & {
+  dateEcheance: string;
+};
+
+const toBalance = (row: FactureFournisseurBalanceRow): FactureFournisseurBalance => ({
+  ...row,
+  dateEcheance: new Date(row.dateEcheance),
+  resteAPayer: row.statut === 'annulee' ? 0 : Math.max(0, subtractMoney(row.totalTTC, row.totalPaye))
+});
+
+// Outstanding amount of every supplier invoice, net of validated payments
+export const getFacturesFournisseurBalances = async (
+  query: DatabaseQuery
+): Promise<FactureFournisseurBalance[]> => {
+  const result = await query<FactureFournisseurBalanceRow[]>(`${balanceQuery} ORDER BY ff.dateEcheance ASC`);
+  return result.map(toBalance);
+};
+
+export const getFactureFournisseurBalance = async (
+  factureFournisseurId: string,
+  query: DatabaseQuery
+): Promise<FactureFournisseurBalance | null> => {
+  const result = await query<FactureFournisseurBalanceRow[]>(`${balanceQuery} WHERE ff.id = ?`, [factureFournisseurId]);
+  return result.length > 0 ? toBalance(result[0]) : null;
+};
+
+// Group unpaid supplier invoices per supplier and age bucket (0-30, 31-60, 61-90, > 90 days late)
+export const getPayablesAging = (balances: FactureFournisseurBalance[], today = new Date()): FournisseurAging[] => {
+  const fournisseurs = new Map<string, FournisseurAging>();
+
+  balances.filter(balance => balance.resteAPayer > 0).forEach(balance => {
+    if (!fournisseurs.has(balance.fournisseurId)) {
+      fournisseurs.set(balance.fournisseurId, {
+        fournisseurId: balance.fournisseurId,
+        fournisseurNom: balance.fournisseurNom,
+        nonEchu: 0,
+        jours30: 0,
+        jours60: 0,
+        jours90: 0,
+        plus90: 0,
+        total: 0
+      });
+    }
+    const aging = fournisseurs.get(balance.fournisseurId)!;
+    const joursRetard = Math.floor((today.getTime() - balance.dateEcheance.getTime()) / DAY_MS);
+
+    let bucket: 'nonEchu' | 'jours30' | 'jours60' | 'jours90' | 'plus90';
+    if (joursRetard <= 0) {
+      bucket = 'nonEchu';
+    } else if (joursRetard <= 30) {
+      bucket = 'jours30';
+    } else if (joursRetard <= 60) {
+      bucket = 'jours60';
+    } else if (joursRetard <= 90) {
+      bucket = 'jours90';
+    } else {
+      bucket = 'plus90';
+    }
+    aging[bucket] = sumMoney([aging[bucket], balance.resteAPayer]);
+    aging.total = sumMoney([aging.total, balance.resteAPayer]);
+  });
+
+  return Array.from(fournisseurs.values()).sort((a, b) => b.total - a.total);
+};
@@ -1,16 +1,22 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { Facture, Devis, BonLivraison, CommandeFournisseur } from '../types';
+import { Facture, Devis, BonLivraison, CommandeFournisseur, Avoir, Payment, Client, DocumentCharge, AjustementTaxe, FraisDocument, LigneDocument } from '../types';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { formatCurrency } from './currency';
 import { getCompanyInfo } from './numberGenerator';
 import { numberToWords } from './numberToWords';
-import { getCurrencySymbol, getCurrencyDecimals } from './currency';
-import { calculateTaxesByGroup, loadTaxGroups } from './productTaxCalculator';
+import { getCurrencySymbol, getCurrencyDecimals, formatDocumentAmount, isForeignCurrency, getDocumentCurrencyDecimals, getMoneyDecimals } from './currency';
+import { fromMinorUnits, percentOfUnits, subtractMoney, sumMoney, toMinorUnits } from './money';
+import { loadDocumentCharges, calculateDocumentCharges } from './productTaxCalculator';
+import { DeclarationTVA, getDeclarationTVASections } from './tva';
+import { ReleveClient } from './releveClient';
 
 const formatDate = (date: Date) => format(date, 'dd/MM/yyyy', { locale: fr });
 
+// Bottom of the last table drawn by jspdf-autotable
+const getLastTableY = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
 // Load template settings with enhanced configuration
 const getTemplateSettings = async (isElectron: boolean, query?: any) => {
   const defaultSettings = {
@@ -195,6 +201,14 @@ const renderEnhancedTitle = (doc: jsPDF, settings: any, documentTitle: string, d
     doc.text(`Validité: ${formatDate(documentData.dateValidite)}`, rightX, currentY, { align: 'right' });
   } else if (documentData.type === 'commande') {
     doc.text(`Réception: ${formatDate(documentData.dateReception)}`, rightX, currentY, { align: 'right' });
+  } else if (documentData.type === 'avoir') {
+    doc.text(`Facture: ${documentData.factureNumero}`, rightX, currentY, { align: 'right' });
+  }
+  
+  // Documents in a foreign currency show the rate used for their dinar equivalent
+  if (isForeignCurrency(documentData.devise)) {
+    currentY += settings.spacing.line;
+    doc.text(`Devise: ${documentData.devise} (1 ${documentData.devise} = ${(documentData.tauxChange || 1).toFixed(4)} TND)`, rightX, currentY, { align: 'right' });
   }
   
   return currentY + settings.spacing.section;
@@ -249,6 +263,7 @@ const renderClientSection = (doc: jsPDF, settings: any, documentData: any, start
 const renderEnhancedTable = (doc: jsPDF, settings: any, documentData: any, startY: number) => {
   const pageWidth = doc.internal.pageSize.getWidth();
   const availableWidth = pageWidth - settings.margins.left - settings.margins.right;
+  const formatAmount = (amount: number) => formatDocumentAmount(amount, documentData.devise);
   
   // Table format without FODEC column (FODEC is included in calculations but not displayed)
   const tableHeaders = ['Réf', 'Désignation', 'Qté', 'Prix U.', 'Remise', 'Total HT', 'TVA', 'Total TTC'];
@@ -260,33 +275,17 @@ const renderEnhancedTable = (doc: jsPDF, settings: any, documentData: any, start
     typeof ligne.quantite === 'number'
   ) : [];
   
-  let tableData;
-  
-  if (documentData.type === 'bonLivraison') {
-    // For bon de livraison, show all columns with calculated values
-    tableData = validLines.map((ligne: any) => [
-      ligne.produit.ref || '-',
-      ligne.produit.nom,
-      ligne.quantite.toString(),
-      formatCurrency(ligne.produit.prixUnitaire),
-      '0%',
-      formatCurrency(ligne.produit.prixUnitaire * ligne.quantite),
-      `${ligne.produit.tva}%`,
-      formatCurrency(ligne.produit.prixUnitaire * ligne.quantite * (1 + ligne.produit.tva / 100))
-    ]);
-  } else {
-    // For other document types without FODEC column
-    tableData = validLines.map((ligne: any) => [
-      ligne.produit.ref || '-',
-      ligne.produit.nom,
-      ligne.quantite.toString(),
-      formatCurrency(ligne.prixUnitaire),
-      `${ligne.remise || 0}%`,
-      formatCurrency(ligne.montantHT),
-      `${ligne.produit.tva}%`,
-      formatCurrency(ligne.montantTTC)
-    ]);
-  }
+  // Prices, amounts and rates as saved on each line, so a regenerated document matches the original
+  let tableData = validLines.map((ligne: LigneDocument) => [
+    ligne.produit.ref || '-',
+    ligne.produit.nom,
+    ligne.quantite.toString(),
+    formatAmount(ligne.prixUnitaire),
+    `${ligne.remise || 0}%`,
+    formatAmount(ligne.montantHT),
+    `${ligne.produit.tva}%`,
+    formatAmount(ligne.montantTTC)
+  ]);
   
   // OPTIMIZED: Better column widths for table (8 columns) - more space for amounts
   const columnStyles = {
@@ -400,7 +399,7 @@ const renderEnhancedTable = (doc: jsPDF, settings: any, documentData: any, start
   });
   
   // Return the exact final Y position without any additional spacing
-  return (doc as any).lastAutoTable.finalY;
+  return getLastTableY(doc);
 };
 
 // Enhanced totals section
@@ -408,12 +407,16 @@ const renderEnhancedTotalsSection = async (doc: jsPDF, settings: any, documentDa
   const pageWidth = doc.internal.pageSize.getWidth();
   // CRITICAL: Use minimal spacing after table - start immediately after table
   let currentY = startY + 5; // Reduced from settings.spacing.section to just 5mm
+  const formatAmount = (amount: number) => formatDocumentAmount(amount, documentData.devise);
+  const decimals = getMoneyDecimals(documentData.devise);
+  const units = (amount: number) => toMinorUnits(amount, decimals);
   
   // Calculate taxes correctly from lignes AND include settings taxes
   const calculatedTaxes = [];
   const isElectron = typeof window !== 'undefined' && window.electronAPI ? true : false;
   
-  // 1. Group taxes by type and rate from product lines (FODEC and TVA)
+  // 1. Group taxes by type and rate from product lines (FODEC and TVA).
+  // Groups add up the stored line amounts in minor units so the table matches the saved totals.
   const taxGroups = new Map();
   
   if (documentData.lignes && Array.isArray(documentData.lignes)) {
@@ -432,9 +435,9 @@ const renderEnhancedTotalsSection = async (doc: jsPDF, settings: any, documentDa
           });
         }
         const fodecGroup = taxGroups.get(fodecKey);
-        fodecGroup.baseAmount += ligne.montantHT;
+        fodecGroup.baseAmount += units(ligne.montantHT);
         // Calculate FODEC amount properly - CRITICAL FIX for bon de livraison
-        const fodecAmount = ligne.montantFodec || (ligne.montantHT * (ligne.produit.tauxFodec || 1) / 100);
+        const fodecAmount = units(ligne.montantFodec) || percentOfUnits(units(ligne.montantHT), ligne.produit.tauxFodec || 1);
         fodecGroup.taxAmount += fodecAmount;
       }
       
@@ -451,74 +454,67 @@ const renderEnhancedTotalsSection = async (doc: jsPDF, settings: any, documentDa
         }
         const tvaGroup = taxGroups.get(tvaKey);
         // Calculate base TVA for this specific line
-        const lineFodec = ligne.produit.fodecApplicable ? (ligne.montantFodec || (ligne.montantHT * (ligne.produit.tauxFodec || 1) / 100)) : 0;
-        const lineBaseTVA = ligne.montantHT + lineFodec;
-        const lineTVA = ligne.montantTVA || (lineBaseTVA * (ligne.produit.tva / 100));
+        const lineFodec = ligne.produit.fodecApplicable ? (units(ligne.montantFodec) || percentOfUnits(units(ligne.montantHT), ligne.produit.tauxFodec || 1)) : 0;
+        const lineBaseTVA = units(ligne.montantHT) + lineFodec;
+        const lineTVA = units(ligne.montantTVA) || percentOfUnits(lineBaseTVA, ligne.produit.tva);
         
         tvaGroup.baseAmount += lineBaseTVA;
         tvaGroup.taxAmount += lineTVA;
       }
     });
   }
+
+  // Share of the global discount and fees of each rate, stored with the document
+  const ajustements: AjustementTaxe[] = Array.isArray(documentData.ajustements) ? documentData.ajustements : [];
+  ajustements.forEach(ajustement => {
+    const fodecGroup = taxGroups.get(`FODEC_${ajustement.tauxFodec}`);
+    if (fodecGroup) {
+      fodecGroup.baseAmount -= units(ajustement.remise);
+      fodecGroup.taxAmount += units(ajustement.montantFodec);
+    }
+    const tvaGroup = taxGroups.get(`TVA_${ajustement.tauxTVA}`);
+    if (tvaGroup) {
+      tvaGroup.baseAmount += units(ajustement.baseTVA);
+      tvaGroup.taxAmount += units(ajustement.montantTVA);
+    }
+  });
   
-  // 2. Add taxes from settings (like Timbre fiscal)
+  // 2. Document-level charges (like Timbre fiscal) - credit notes don't refund them.
+  // Invoices carry the charges included in their stored total; other documents
+  // get them from the current taxes settings.
   try {
-    if (isElectron && window.electronAPI) {
-      const query = window.electronAPI.dbQuery;
-      const settingsTaxes = await query(`
-        SELECT * FROM taxes 
-        WHERE actif = 1 AND json_extract(applicableDocuments, '$') LIKE '%${documentData.type === 'facture' ? 'factures' : documentData.type === 'devis' ? 'devis' : documentData.type === 'bonLivraison' ? 'bonsLivraison' : 'commandesFournisseur'}%'
-        ORDER BY ordre ASC
-      `);
-      
-      // Add settings taxes (like Timbre fiscal)
-      if (settingsTaxes && settingsTaxes.length > 0) {
-        for (const tax of settingsTaxes) {
-          // Skip if it's a TVA tax (already calculated from products)
-          if (tax.nom.toLowerCase().includes('tva')) continue;
-          
-          const taxKey = `SETTINGS_${tax.nom}`;
-          if (!taxGroups.has(taxKey)) {
-            let baseAmount = 0;
-            let taxAmount = 0;
-            
-            if (tax.type === 'fixed') {
-              baseAmount = 0;
-              taxAmount = tax.valeur;
-            } else {
-              // Percentage tax
-              if (tax.calculationBase === 'totalHT') {
-                baseAmount = documentData.totalHT;
-              } else {
-                // Calculate on HT + previous taxes
-                const previousTaxes = Array.from(taxGroups.values()).reduce((sum, group) => sum + group.taxAmount, 0);
-                baseAmount = documentData.totalHT + previousTaxes;
-              }
-              taxAmount = (baseAmount * tax.valeur) / 100;
-            }
-            
-            taxGroups.set(taxKey, {
-              type: tax.nom,
-              rate: tax.type === 'fixed' ? 0 : tax.valeur,
-              baseAmount,
-              taxAmount,
-              isFixed: tax.type === 'fixed'
-            });
-          }
-        }
-      }
+    let charges: DocumentCharge[] = [];
+    if (Array.isArray(documentData.charges)) {
+      charges = documentData.charges;
+    } else if (isElectron && window.electronAPI && documentData.type !== 'avoir') {
+      const documentType = documentData.type === 'facture' ? 'factures' :
+                           documentData.type === 'devis' ? 'devis' :
+                           documentData.type === 'bonLivraison' ? 'bonsLivraison' : 'commandesFournisseur';
+      const chargeTaxes = await loadDocumentCharges(documentType, window.electronAPI.dbQuery);
+      const lineTaxes = Array.from(taxGroups.values()).reduce((sum, group) => sum + group.taxAmount, 0);
+      charges = calculateDocumentCharges(chargeTaxes, documentData.totalHT, fromMinorUnits(lineTaxes, decimals), decimals);
     }
+
+    charges.forEach(charge => {
+      taxGroups.set(`CHARGE_${charge.nom}`, {
+        type: charge.nom,
+        rate: charge.taux,
+        baseAmount: units(charge.base),
+        taxAmount: units(charge.montant),
+        isFixed: charge.type === 'fixed'
+      });
+    });
   } catch (error) {
-    console.error('Error loading settings taxes:', error);
+    console.error('Error loading document charges:', error);
   }
   
   // 3. Convert tax groups to array and sort by type
   taxGroups.forEach((group) => {
     calculatedTaxes.push({
       nom: group.isFixed ? group.type : `${group.type} ${group.rate}%`,
-      base: group.isFixed ? 0 : group.baseAmount,
+      base: group.isFixed ? 0 : fromMinorUnits(group.baseAmount, decimals),
       taux: group.rate,
-      montant: group.taxAmount,
+      montant: fromMinorUnits(group.taxAmount, decimals),
       isFixed: group.isFixed || false
     });
   });
@@ -545,9 +541,9 @@ const renderEnhancedTotalsSection = async (doc: jsPDF, settings: any, documentDa
     const taxTableHeaders = ['Type de taxe', 'Base de calcul', 'Taux (%)', 'Montant'];
     const taxTableData = calculatedTaxes.map((tax: any) => [
       tax.nom,
-      tax.isFixed ? '-' : formatCurrency(tax.base),
+      tax.isFixed ? '-' : formatAmount(tax.base),
       tax.isFixed ? 'Fixe' : `${tax.taux}%`,
-      formatCurrency(tax.montant)
+      formatAmount(tax.montant)
     ]);
     
     // Render tax table
@@ -582,7 +578,7 @@ const renderEnhancedTotalsSection = async (doc: jsPDF, settings: any, documentDa
       }
     });
     
-    currentY = (doc as any).lastAutoTable.finalY + settings.spacing.element;
+    currentY = getLastTableY(doc) + settings.spacing.element;
   }
   
   // Clean totals - right aligned
@@ -592,9 +588,31 @@ const renderEnhancedTotalsSection = async (doc: jsPDF, settings: any, documentDa
   doc.setTextColor(...hexToRgb(settings.fonts.body.color));
   doc.setFont('helvetica', 'normal');
   
+  // Lines HT, global discount and fees, when the document has some
+  const frais: FraisDocument[] = Array.isArray(documentData.frais) ? documentData.frais : [];
+  if (documentData.montantRemise > 0 || frais.length > 0) {
+    const lignes: { montantHT: number }[] = documentData.lignes || [];
+    const totalLignesHT = sumMoney(lignes.map(ligne => ligne.montantHT), decimals);
+    doc.text(`Total HT lignes:`, rightX - 50, currentY);
+    doc.text(formatAmount(totalLignesHT), rightX, currentY, { align: 'right' });
+    currentY += settings.spacing.line;
+
+    if (documentData.montantRemise > 0) {
+      const remise = documentData.remiseGlobale;
+      doc.text(`Remise globale${remise && remise.type === 'percentage' ? ` ${remise.valeur}%` : ''}:`, rightX - 50, currentY);
+      doc.text(`-${formatAmount(documentData.montantRemise)}`, rightX, currentY, { align: 'right' });
+      currentY += settings.spacing.line;
+    }
+    frais.filter(item => item.montantHT > 0).forEach(item => {
+      doc.text(`${item.libelle || 'Frais'}:`, rightX - 50, currentY);
+      doc.text(formatAmount(item.montantHT), rightX, currentY, { align: 'right' });
+      currentY += settings.spacing.line;
+    });
+  }
+
   // Total HT
   doc.text(`Total HT:`, rightX - 50, currentY);
-  doc.text(formatCurrency(documentData.totalHT), rightX, currentY, { align: 'right' });
+  doc.text(formatAmount(documentData.totalHT), rightX, currentY, { align: 'right' });
   currentY += settings.spacing.line;
   
   // Individual tax lines (same as in tax detail table)
@@ -602,7 +620,7 @@ const renderEnhancedTotalsSection = async (doc: jsPDF, settings: any, documentDa
     doc.setFont('helvetica', 'normal');
     doc.setTextColor(...hexToRgb(settings.fonts.body.color));
     doc.text(`${tax.nom}:`, rightX - 50, currentY);
-    doc.text(formatCurrency(tax.montant), rightX, currentY, { align: 'right' });
+    doc.text(formatAmount(tax.montant), rightX, currentY, { align: 'right' });
     currentY += settings.spacing.line;
   });
   
@@ -612,18 +630,20 @@ const renderEnhancedTotalsSection = async (doc: jsPDF, settings: any, documentDa
   doc.setTextColor(...hexToRgb(settings.colors.primary));
   
   // Calculate correct TTC including all taxes
-  const totalCalculatedTaxes = calculatedTaxes.reduce((sum, tax) => sum + tax.montant, 0);
-  const correctTotalTTC = documentData.totalHT + totalCalculatedTaxes;
+  const totalCalculatedTaxes = sumMoney(calculatedTaxes.map(tax => tax.montant), decimals);
+  const correctTotalTTC = sumMoney([documentData.totalHT, totalCalculatedTaxes], decimals);
   
   doc.text(`Total TTC:`, rightX - 50, currentY);
-  doc.text(formatCurrency(correctTotalTTC), rightX, currentY, { align: 'right' });
+  doc.text(formatAmount(correctTotalTTC), rightX, currentY, { align: 'right' });
   currentY += settings.spacing.line;
   
   // Amount in words (if enabled) - MOVED HERE AFTER ALL TAXES
   if (settings.amountInWords.enabled) {
     currentY += settings.spacing.element; // Add some space before amount in words
     
-    const amountInWords = numberToWords(correctTotalTTC, getCurrencySymbol());
+    const amountInWords = isForeignCurrency(documentData.devise)
+      ? numberToWords(correctTotalTTC, documentData.devise, getDocumentCurrencyDecimals(documentData.devise))
+      : numberToWords(correctTotalTTC, getCurrencySymbol());
     doc.setFontSize(settings.amountInWords.fontSize);
     doc.setTextColor(...hexToRgb(settings.amountInWords.color));
     doc.setFont('helvetica', 'bold');
@@ -634,6 +654,7 @@ const renderEnhancedTotalsSection = async (doc: jsPDF, settings: any, documentDa
         case 'devis': return 'devis';
         case 'commande': return 'commande fournisseur';
         case 'bonLivraison': return 'bon de livraison';
+        case 'avoir': return 'avoir';
         default: return 'document';
       }
     };
@@ -883,6 +904,36 @@ export const generateFacturePDF = async (facture: Facture) => {
   }
 };
 
+export const generateAvoirPDF = async (avoir: Avoir) => {
+  try {
+    const documentData = {
+      ...avoir,
+      type: 'avoir',
+      notes: [avoir.motif ? `Motif: ${avoir.motif}` : '', avoir.notes || ''].filter(Boolean).join('\n')
+    };
+    
+    return await generateEnhancedDocument(documentData, 'AVOIR');
+  } catch (error) {
+    console.error('Error generating avoir PDF:', error);
+    throw new Error(`Erreur lors de la génération du PDF d'avoir: ${error}`);
+  }
+};
+
+// Totals of the stored lines, with the global discount and fees of the document
+const calculateLineTotals = (document: Devis | CommandeFournisseur) => {
+  const decimals = getMoneyDecimals(document.devise);
+  const ajustements = document.ajustements || [];
+  const totalHT = subtractMoney(
+    sumMoney([...document.lignes.map(ligne => ligne.montantHT), document.totalFrais || 0], decimals),
+    document.montantRemise || 0,
+    decimals
+  );
+  const totalFodec = sumMoney([...document.lignes, ...ajustements].map(item => item.montantFodec || 0), decimals);
+  const totalTVA = sumMoney([...document.lignes, ...ajustements].map(item => item.montantTVA || 0), decimals);
+
+  return { totalHT, totalFodec, totalTVA, totalTTC: sumMoney([totalHT, totalFodec, totalTVA], decimals) };
+};
+
 export const generateDevisPDF = async (devis: Devis) => {
   try {
     // Ensure lignes is an array
@@ -897,10 +948,7 @@ export const generateDevisPDF = async (devis: Devis) => {
       type: 'devis',
       dateValidite: devis.dateValidite,
       // Calculate totals using same logic as invoice
-      totalHT: devis.lignes.reduce((sum, ligne) => sum + ligne.montantHT, 0),
-      totalFodec: devis.lignes.reduce((sum, ligne) => sum + (ligne.montantFodec || 0), 0),
-      totalTVA: devis.lignes.reduce((sum, ligne) => sum + (ligne.montantTVA || 0), 0),
-      totalTTC: devis.lignes.reduce((sum, ligne) => sum + ligne.montantTTC, 0)
+      ...calculateLineTotals(devis)
     };
     
     return await generateEnhancedDocument(documentData, 'DEVIS');
@@ -923,10 +971,10 @@ export const generateBonLivraisonPDF = async (bonLivraison: BonLivraison) => {
       ...bonLivraison,
       type: 'bonLivraison',
       // Calculate totals using same logic as invoice
-      totalHT: bonLivraison.lignes.reduce((sum, ligne) => sum + ligne.montantHT, 0),
-      totalFodec: bonLivraison.lignes.reduce((sum, ligne) => sum + (ligne.montantFodec || 0), 0),
-      totalTVA: bonLivraison.lignes.reduce((sum, ligne) => sum + (ligne.montantTVA || 0), 0),
-      totalTTC: bonLivraison.lignes.reduce((sum, ligne) => sum + ligne.montantTTC, 0)
+      totalHT: sumMoney(bonLivraison.lignes.map(ligne => ligne.montantHT)),
+      totalFodec: sumMoney(bonLivraison.lignes.map(ligne => ligne.montantFodec || 0)),
+      totalTVA: sumMoney(bonLivraison.lignes.map(ligne => ligne.montantTVA || 0)),
+      totalTTC: sumMoney(bonLivraison.lignes.map(ligne => ligne.montantTTC))
     };
     
     return await generateEnhancedDocument(documentData, 'BON DE LIVRAISON');
@@ -950,10 +998,7 @@ export const generateCommandeFournisseurPDF = async (commande: CommandeFournisse
       type: 'commande',
       dateReception: commande.dateReception,
       // Calculate totals using same logic as invoice
-      totalHT: commande.lignes.reduce((sum, ligne) => sum + ligne.montantHT, 0),
-      totalFodec: commande.lignes.reduce((sum, ligne) => sum + (ligne.montantFodec || 0), 0),
-      totalTVA: commande.lignes.reduce((sum, ligne) => sum + (ligne.montantTVA || 0), 0),
-      totalTTC: commande.lignes.reduce((sum, ligne) => sum + ligne.montantTTC, 0)
+      ...calculateLineTotals(commande)
     };
     
     return await generateEnhancedDocument(documentData, 'COMMANDE FOURNISSEUR');
@@ -961,4 +1006,312 @@ export const generateCommandeFournisseurPDF = async (commande: CommandeFournisse
     console.error('Error generating commande fournisseur PDF:', error);
     throw new Error(`Erreur lors de la génération du PDF de commande fournisseur: ${error}`);
   }
-};
\ No newline at end of file
+};
+
+// Section with a label and the identity lines of a party
+// Identity fields shared by the client and the company information
+interface PartyInfo {
+  nom: string;
+  matriculeFiscal?: string;
+  adresse?: string;
+  codePostal?: string;
+  ville?: string;
+}
+
+const renderPartySection = (doc: jsPDF, settings: any, label: string, party: PartyInfo, startY: number) => {
+  let currentY = startY;
+
+  doc.setFontSize(settings.fonts.heading.size);
+  doc.setTextColor(...hexToRgb(settings.colors.primary));
+  doc.setFont('helvetica', 'bold');
+  doc.text(label, settings.margins.left, currentY);
+  currentY += settings.spacing.element;
+
+  doc.setFontSize(settings.fonts.body.size);
+  doc.setTextColor(...hexToRgb(settings.fonts.body.color));
+  doc.text(party.nom, settings.margins.left, currentY);
+  currentY += settings.spacing.line;
+
+  doc.setFont('helvetica', 'normal');
+  const partyLines = [
+    `Matricule Fiscal: ${party.matriculeFiscal || '-'}`,
+    party.adresse || '',
+    `${party.codePostal || ''} ${party.ville || ''}`
+  ].filter(line => line.trim());
+
+  partyLines.forEach(line => {
+    doc.text(line, settings.margins.left, currentY);
+    currentY += settings.spacing.line;
+  });
+
+  return currentY + settings.spacing.section;
+};
+
+// Certificate of withholding tax: the client (payer) withheld part of the invoice
+// on behalf of the company (beneficiary)
+export const generateCertificatRetenuePDF = async (payment: Payment, client: Client) => {
+  try {
+    const doc = new jsPDF();
+    const isElectron = typeof window !== 'undefined' && window.electronAPI ? true : false;
+    const query = isElectron ? window.electronAPI.dbQuery : undefined;
+
+    const settings = await getTemplateSettings(isElectron, query);
+    const companyInfo = await getCompanyInfo(isElectron, query);
+    const pageWidth = doc.internal.pageSize.getWidth();
+
+    const montantRetenue = payment.montantRetenue || 0;
+    const montantBrut = payment.montant + montantRetenue;
+
+    // Title
+    let currentY = settings.margins.top + 5;
+    doc.setFontSize(settings.title.fontSize - 4);
+    doc.setTextColor(...hexToRgb(settings.title.color));
+    doc.setFont('helvetica', 'bold');
+    doc.text('CERTIFICAT DE RETENUE A LA SOURCE', pageWidth / 2, currentY, { align: 'center' });
+    currentY += settings.spacing.element;
+
+    doc.setFontSize(settings.fonts.body.size);
+    doc.setTextColor(...hexToRgb(settings.fonts.body.color));
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Retenue effectuée le ${formatDate(payment.date)}`, pageWidth / 2, currentY, { align: 'center' });
+    currentY += settings.spacing.section * 2;
+
+    currentY = renderPartySection(doc, settings, 'A - PAYEUR (AGENT DE RETENUE)', client, currentY);
+    currentY = renderPartySection(doc, settings, 'B - BÉNÉFICIAIRE', companyInfo, currentY);
+
+    doc.setFontSize(settings.fonts.heading.size);
+    doc.setTextColor(...hexToRgb(settings.colors.primary));
+    doc.setFont('helvetica', 'bold');
+    doc.text('C - RETENUE EFFECTUÉE', settings.margins.left, currentY);
+    currentY += settings.spacing.line;
+
+    autoTable(doc, {
+      startY: currentY,
+      head: [['Facture', 'Date de paiement', 'Montant brut', 'Taux', 'Montant retenu', 'Montant net servi']],
+      body: [[
+        payment.factureNumero,
+        formatDate(payment.date),
+        formatCurrency(montantBrut),
+        `${payment.tauxRetenue || 0}%`,
+        formatCurrency(montantRetenue),
+        formatCurrency(payment.montant)
+      ]],
+      theme: 'grid',
+      margin: { left: settings.margins.left, right: settings.margins.right },
+      headStyles: {
+        fillColor: hexToRgb(settings.colors.primary),
+        textColor: [255, 255, 255],
+        fontSize: settings.table.headerFontSize,
+        fontStyle: 'bold',
+        halign: 'center'
+      },
+      bodyStyles: {
+        fontSize: settings.table.fontSize,
+        textColor: hexToRgb(settings.colors.text),
+        halign: 'center'
+      }
+    });
+    currentY = getLastTableY(doc) + settings.spacing.section;
+
+    // Withheld amount in words
+    doc.setFontSize(settings.fonts.body.size);
+    doc.setTextColor(...hexToRgb(settings.fonts.body.color));
+    doc.setFont('helvetica', 'normal');
+    const amountText = `Arrêté le présent certificat à la somme de : ${numberToWords(montantRetenue, getCurrencySymbol())}`;
+    const splitAmount = doc.splitTextToSize(amountText, pageWidth - settings.margins.left - settings.margins.right);
+    doc.text(splitAmount, settings.margins.left, currentY);
+    currentY += splitAmount.length * settings.spacing.line + settings.spacing.section * 2;
+
+    // Payer signature
+    doc.text(`Fait à ${client.ville || '................'}, le ${formatDate(payment.date)}`, pageWidth - settings.margins.right, currentY, { align: 'right' });
+    currentY += settings.spacing.element;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Cachet et signature du payeur', pageWidth - settings.margins.right, currentY, { align: 'right' });
+
+    return doc;
+  } catch (error) {
+    console.error('Error generating certificat de retenue PDF:', error);
+    throw new Error(`Erreur lors de la génération du certificat de retenue: ${error}`);
+  }
+};
+
+// Monthly TVA declaration, laid out like the Tunisian déclaration mensuelle
+export const generateDeclarationTVAPDF = async (declaration: DeclarationTVA) => {
+  try {
+    const doc = new jsPDF();
+    const isElectron = typeof window !== 'undefined' && window.electronAPI ? true : false;
+    const query = isElectron ? window.electronAPI.dbQuery : undefined;
+
+    const settings = await getTemplateSettings(isElectron, query);
+    const companyInfo = await getCompanyInfo(isElectron, query);
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const periode = format(new Date(declaration.annee, declaration.mois - 1, 1), 'MMMM yyyy', { locale: fr });
+
+    // Title
+    let currentY = settings.margins.top + 5;
+    doc.setFontSize(settings.title.fontSize - 4);
+    doc.setTextColor(...hexToRgb(settings.title.color));
+    doc.setFont('helvetica', 'bold');
+    doc.text('DÉCLARATION MENSUELLE DES IMPÔTS', pageWidth / 2, currentY, { align: 'center' });
+    currentY += settings.spacing.element;
+
+    doc.setFontSize(settings.fonts.body.size);
+    doc.setTextColor(...hexToRgb(settings.fonts.body.color));
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Période: ${periode}`, pageWidth / 2, currentY, { align: 'center' });
+    currentY += settings.spacing.section * 2;
+
+    currentY = renderPartySection(doc, settings, 'CONTRIBUABLE', companyInfo, currentY);
+
+    getDeclarationTVASections(declaration).forEach(section => {
+      if (currentY > doc.internal.pageSize.getHeight() - 50) {
+        doc.addPage();
+        currentY = settings.margins.top;
+      }
+
+      doc.setFontSize(settings.fonts.heading.size);
+      doc.setTextColor(...hexToRgb(settings.colors.primary));
+      doc.setFont('helvetica', 'bold');
+      doc.text(section.titre.toUpperCase(), settings.margins.left, currentY);
+      currentY += settings.spacing.line;
+
+      autoTable(doc, {
+        startY: currentY,
+        head: [section.colonnes],
+        body: section.lignes.map(ligne => ligne.map(cell => typeof cell === 'number' ? formatCurrency(cell) : cell)),
+        theme: 'grid',
+        margin: { left: settings.margins.left, right: settings.margins.right },
+        headStyles: {
+          fillColor: hexToRgb(settings.colors.primary),
+          textColor: [255, 255, 255],
+          fontSize: settings.table.headerFontSize,
+          fontStyle: 'bold'
+        },
+        bodyStyles: {
+          fontSize: settings.table.fontSize,
+          textColor: hexToRgb(settings.colors.text)
+        },
+        columnStyles: Object.fromEntries(section.colonnes.slice(1).map((_, index) => [index + 1, { halign: 'right' }])),
+        // Totals close the rate tables and the summary
+        didParseCell: (data) => {
+          if (data.section === 'body' && String((data.row.raw as (string | number)[])[0]).startsWith('Total')) {
+            data.cell.styles.fontStyle = 'bold';
+          }
+        }
+      });
+      currentY = getLastTableY(doc) + settings.spacing.section;
+    });
+
+    doc.setFontSize(settings.fonts.body.size);
+    doc.setTextColor(...hexToRgb(settings.fonts.body.color));
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Établie le ${formatDate(new Date())}`, pageWidth - settings.margins.right, currentY, { align: 'right' });
+
+    return doc;
+  } catch (error) {
+    console.error('Error generating declaration TVA PDF:', error);
+    throw new Error(`Erreur lors de la génération de la déclaration de TVA: ${error}`);
+  }
+};
+
+// Client account statement with the running balance, on the document template
+export const generateReleveClientPDF = async (releve: ReleveClient) => {
+  try {
+    const doc = new jsPDF();
+    const isElectron = typeof window !== 'undefined' && window.electronAPI ? true : false;
+    const query = isElectron ? window.electronAPI.dbQuery : undefined;
+
+    const settings = await getTemplateSettings(isElectron, query);
+    const logoUrl = await getTemplateLogo(isElectron, query);
+    const companyInfo = await getCompanyInfo(isElectron, query);
+    const pageWidth = doc.internal.pageSize.getWidth();
+
+    let currentY = renderEnhancedHeader(doc, settings, companyInfo, logoUrl);
+
+    // Title with the statement period
+    doc.setFontSize(settings.title.fontSize);
+    doc.setTextColor(...hexToRgb(settings.title.color));
+    doc.setFont('helvetica', settings.title.fontWeight);
+    doc.text('RELEVÉ DE COMPTE', pageWidth / 2, currentY, { align: 'center' });
+    currentY += settings.title.marginBottom;
+
+    doc.setDrawColor(...hexToRgb(settings.colors.border));
+    doc.setLineWidth(0.5);
+    doc.line(settings.margins.left, currentY, pageWidth - settings.margins.right, currentY);
+    currentY += settings.spacing.section;
+
+    doc.setFontSize(settings.fonts.body.size);
+    doc.setTextColor(...hexToRgb(settings.fonts.body.color));
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      `Période du ${formatDate(releve.dateDebut)} au ${formatDate(releve.dateFin)}`,
+      pageWidth - settings.margins.right,
+      currentY,
+      { align: 'right' }
+    );
+    currentY += settings.spacing.section;
+
+    currentY = renderClientSection(doc, settings, { type: 'releve', client: releve.client }, currentY);
+
+    autoTable(doc, {
+      startY: currentY,
+      head: [['Date', 'Pièce', 'Libellé', 'Débit', 'Crédit', 'Solde']],
+      body: [
+        ['', '', `Solde au ${formatDate(releve.dateDebut)}`, '', '', formatCurrency(releve.soldeInitial)],
+        ...releve.mouvements.map(mouvement => [
+          formatDate(mouvement.date),
+          mouvement.numero,
+          mouvement.libelle,
+          mouvement.debit ? formatCurrency(mouvement.debit) : '',
+          mouvement.credit ? formatCurrency(mouvement.credit) : '',
+          formatCurrency(mouvement.solde)
+        ])
+      ],
+      foot: [['', '', 'Totaux de la période', formatCurrency(releve.totalDebit), formatCurrency(releve.totalCredit), formatCurrency(releve.soldeFinal)]],
+      theme: settings.table.model === 'bordered' ? 'grid' : settings.table.model === 'minimal' ? 'striped' : 'plain',
+      margin: { left: settings.margins.left, right: settings.margins.right },
+      headStyles: {
+        fillColor: settings.table.model === 'simple' ? hexToRgb('#f8fafc') : hexToRgb(settings.colors.primary),
+        textColor: settings.table.model === 'simple' ? hexToRgb(settings.colors.text) : [255, 255, 255],
+        fontSize: settings.table.headerFontSize,
+        fontStyle: 'bold'
+      },
+      bodyStyles: {
+        fontSize: settings.table.fontSize,
+        textColor: hexToRgb(settings.colors.text),
+        cellPadding: settings.table.cellPadding
+      },
+      footStyles: {
+        fillColor: hexToRgb(settings.colors.light),
+        textColor: hexToRgb(settings.colors.text),
+        fontSize: settings.table.fontSize,
+        fontStyle: 'bold'
+      },
+      columnStyles: {
+        3: { halign: 'right' },
+        4: { halign: 'right' },
+        5: { halign: 'right' }
+      },
+      showFoot: 'lastPage'
+    });
+    currentY = getLastTableY(doc) + settings.spacing.section;
+
+    // Closing balance: positive is owed by the client
+    doc.setFontSize(settings.fonts.heading.size);
+    doc.setTextColor(...hexToRgb(settings.colors.primary));
+    doc.setFont('helvetica', 'bold');
+    doc.text(
+      `${releve.soldeFinal < 0 ? 'Solde créditeur' : 'Solde dû'} au ${formatDate(releve.dateFin)}: ${formatCurrency(Math.abs(releve.soldeFinal))}`,
+      pageWidth - settings.margins.right,
+      currentY,
+      { align: 'right' }
+    );
+
+    renderEnhancedFooter(doc, settings);
+
+    return doc;
+  } catch (error) {
+    console.error('Error generating releve de compte PDF:', error);
+    throw new Error(`Erreur lors de la génération du relevé de compte: ${error}`);
+  }
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { ListePrix, Produit } from '../types';
+import { resolvePrixUnitaire, validateListePrix } from './priceLists';
+
+const produit: Produit = {
+  id: 'p1',
+  nom: 'Produit',
+  description: '',
+  prixUnitaire: 10,
+  tva: 19,
+  fodecApplicable: false,
+  tauxFodec: 1,
+  type: 'vente'
+};
+
+const liste = (overrides: Partial<ListePrix> = {}): ListePrix => ({
+  id: 'l1',
+  nom: 'Grossistes',
+  pourcentage: -10,
+  actif: true,
+  prix: [
+    { id: 'x1', produitId: 'p1', quantiteMin: 10, type: 'prix', valeur: 8.5 },
+    { id: 'x2', produitId: 'p1', quantiteMin: 100, type: 'pourcentage', valeur: -25 }
+  ],
+  ...overrides
+});
+
+describe('resolvePrixUnitaire', () => {
+  it('keeps the product price without a price list', () => {
+    expect(resolvePrixUnitaire(produit, 50, undefined, '2026-03-01')).toBe(10);
+  });
+
+  it('uses the largest quantity break reached', () => {
+    expect(resolvePrixUnitaire(produit, 10, liste(), '2026-03-01')).toBe(8.5);
+    expect(resolvePrixUnitaire(produit, 99, liste(), '2026-03-01')).toBe(8.5);
+    expect(resolvePrixUnitaire(produit, 100, liste(), '2026-03-01')).toBe(7.5);
+  });
+
+  it('applies the list percentage below the first break and to other products', () => {
+    expect(resolvePrixUnitaire(produit, 1, liste(), '2026-03-01')).toBe(9);
+    expect(resolvePrixUnitaire({ ...produit, id: 'p2', prixUnitaire: 3.335 }, 1, liste(), '2026-03-01')).toBe(3.002); // 3.0015
+  });
+
+  it('ignores lists out of their validity or inactive', () => {
+    const validite = { dateDebut: '2026-01-01', dateFin: '2026-06-30' };
+    expect(resolvePrixUnitaire(produit, 10, liste(validite), '2026-06-30')).toBe(8.5);
+    expect(resolvePrixUnitaire(produit, 10, liste(validite), '2026-07-01')).toBe(10);
+    expect(resolvePrixUnitaire(produit, 10, liste({ actif: false }), '2026-03-01')).toBe(10);
+  });
+});
+
+describe('validateListePrix', () => {
+  it('refuses two prices of a product for the same quantity and inverted dates', () => {
+    const invalide = liste({
+      dateDebut: '2026-06-30',
+      dateFin: '2026-01-01',
+      prix: [
+        { id: 'x1', produitId: 'p1', quantiteMin: 10, type: 'prix', valeur: 8 },
+        { id: 'x2', produitId: 'p1', quantiteMin: 10, type: 'prix', valeur: 7 }
+      ]
+    });
+    expect(validateListePrix(invalide)).toHaveLength(2);
+    expect(validateListePrix(liste())).toEqual([]);
+  });
+});
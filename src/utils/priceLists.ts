@@ -0,0 +1,65 @@
+import { ListePrix, PrixListe, Produit } from '../types';
+import { roundMoney } from './money';
+
+// A price list applies to the documents dated within its validity, bounds included
+export const isListePrixValide = (liste: ListePrix, date: string): boolean =>
+  liste.actif && (!liste.dateDebut || liste.dateDebut <= date) && (!liste.dateFin || date <= liste.dateFin);
+
+const applyPourcentage = (prixUnitaire: number, pourcentage: number): number =>
+  roundMoney(prixUnitaire * (1 + pourcentage / 100));
+
+// Price of the list for the quantity: the product price with the largest minimum quantity reached
+export const findPrixListe = (liste: ListePrix, produitId: string, quantite: number): PrixListe | undefined =>
+  liste.prix
+    .filter(prix => prix.produitId === produitId && prix.quantiteMin <= (quantite || 0))
+    .sort((a, b) => b.quantiteMin - a.quantiteMin)[0];
+
+// Unit price in dinars of a product on a document dated `date` (yyyy-MM-dd). Without a list
+// valid on that date the product price applies; products without a price of their own in the
+// list, or below its first quantity break, get the list percentage.
+export const resolvePrixUnitaire = (
+  produit: Produit,
+  quantite: number,
+  liste: ListePrix | undefined,
+  date: string
+): number => {
+  if (!liste || !isListePrixValide(liste, date)) {
+    return produit.prixUnitaire;
+  }
+
+  const prix = findPrixListe(liste, produit.id, quantite);
+  if (!prix) {
+    return applyPourcentage(produit.prixUnitaire, liste.pourcentage || 0);
+  }
+  return prix.type === 'prix' ? roundMoney(prix.valeur) : applyPourcentage(produit.prixUnitaire, prix.valeur);
+};
+
+// Problems preventing a price list from being saved, empty when it is valid
+export const validateListePrix = (liste: ListePrix): string[] => {
+  const errors: string[] = [];
+  if (!liste.nom.trim()) {
+    errors.push('Le nom de la liste de prix est obligatoire');
+  }
+  if (liste.pourcentage <= -100) {
+    errors.push('Le pourcentage de la liste doit être supérieur à -100 %');
+  }
+  if (liste.dateDebut && liste.dateFin && liste.dateFin < liste.dateDebut) {
+    errors.push('La date de fin doit être postérieure à la date de début');
+  }
+
+  const paliers = new Set<string>();
+  liste.prix.forEach(prix => {
+    const palier = `${prix.produitId}|${prix.quantiteMin}`;
+    if (paliers.has(palier)) {
+      errors.push(`Deux prix du même produit à partir de la quantité ${prix.quantiteMin}`);
+    }
+    paliers.add(palier);
+    if (!(prix.quantiteMin > 0)) {
+      errors.push('La quantité minimale doit être supérieure à zéro');
+    }
+    if (prix.type === 'prix' ? prix.valeur < 0 : prix.valeur <= -100) {
+      errors.push(prix.type === 'prix' ? 'Un prix ne peut pas être négatif' : 'Une remise ne peut pas atteindre 100 %');
+    }
+  });
+  return errors;
+};
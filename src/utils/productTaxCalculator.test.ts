@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { LigneDocument, Produit, Tax } from '../types';
+import { calculateAvoirTotals, calculateDocumentTotals, calculateProductTaxes } from './productTaxCalculator';
+import { sumMoney } from './money';
+
+const produit = (overrides: Partial<Produit> = {}): Produit => ({
+  id: 'p1',
+  nom: 'Produit',
+  description: '',
+  prixUnitaire: 0,
+  tva: 19,
+  fodecApplicable: false,
+  tauxFodec: 1,
+  type: 'vente',
+  ...overrides
+});
+
+const ligne = (quantite: number, prixUnitaire: number, overrides: Partial<Produit> = {}, remise = 0): LigneDocument => ({
+  id: `l-${quantite}-${prixUnitaire}-${remise}`,
+  produit: produit(overrides),
+  quantite,
+  prixUnitaire,
+  remise,
+  montantHT: 0,
+  montantFodec: 0,
+  baseTVA: 0,
+  montantTVA: 0,
+  montantTTC: 0
+});
+
+const charge = (overrides: Partial<Tax>): Tax => ({
+  id: 't1',
+  nom: 'Timbre fiscal',
+  type: 'fixed',
+  valeur: 1,
+  calculationBase: 'totalHT',
+  applicableDocuments: ['factures'],
+  ordre: 1,
+  actif: true,
+  ...overrides
+});
+
+describe('calculateProductTaxes', () => {
+  it('rounds FODEC, its TVA base and TVA to the millime', () => {
+    const result = calculateProductTaxes(ligne(1, 10.555, { fodecApplicable: true }));
+    expect(result.montantHT).toBe(10.555);
+    expect(result.montantFodec).toBe(0.106); // 0.10555
+    expect(result.baseTVA).toBe(10.661);
+    expect(result.montantTVA).toBe(2.026); // 2.02559
+    expect(result.montantTTC).toBe(12.687);
+  });
+
+  it('applies the line discount before rounding', () => {
+    const result = calculateProductTaxes(ligne(3, 1.115, {}, 10));
+    expect(result.montantHT).toBe(3.011); // 3.0105
+    expect(result.montantTVA).toBe(0.572); // 0.57209
+    expect(result.montantTTC).toBe(3.583);
+  });
+
+  it('rounds to cents for a 2-decimal currency', () => {
+    const result = calculateProductTaxes(ligne(3, 3.335, { tva: 7 }), 2);
+    expect(result.montantHT).toBe(10.01);
+    expect(result.montantTVA).toBe(0.7); // 0.7007
+    expect(result.montantTTC).toBe(10.71);
+  });
+});
+
+describe('calculateDocumentTotals', () => {
+  const tiers = [ligne(1, 0.333), ligne(1, 0.333), ligne(1, 0.333)];
+
+  it('sums the rounded lines with the line policy', () => {
+    const totals = calculateDocumentTotals(tiers);
+    // 0.06327 per line rounds to 0.063, three times
+    expect(totals.lignes.map(l => l.montantTVA)).toEqual([0.063, 0.063, 0.063]);
+    expect(totals.totalTVA).toBe(0.189);
+    expect(totals.totalTTC).toBe(1.188);
+  });
+
+  it('rounds each rate once with the document policy and spreads it over the lines', () => {
+    const totals = calculateDocumentTotals(tiers, [], { policy: 'document' });
+    // 0.999 * 19 % = 0.18981
+    expect(totals.totalTVA).toBe(0.19);
+    expect(totals.lignes.map(l => l.montantTVA)).toEqual([0.064, 0.063, 0.063]);
+    expect(sumMoney(totals.lignes.map(l => l.montantTTC))).toBe(totals.totalTTC);
+  });
+
+  it('keeps lines, tax table and totals in agreement', () => {
+    const lignes = [
+      ligne(7, 1.333, { fodecApplicable: true }),
+      ligne(2.5, 4.129, { tva: 7 }, 5),
+      ligne(1, 0.1, { tva: 13 }),
+      ligne(11, 0.091, { fodecApplicable: true, tva: 7 })
+    ];
+
+    (['ligne', 'document'] as const).forEach(policy => {
+      const totals = calculateDocumentTotals(lignes, [], { policy });
+      const tva = totals.taxSummary.filter(group => group.type === 'TVA');
+      const fodec = totals.taxSummary.filter(group => group.type === 'FODEC');
+
+      expect(sumMoney(totals.lignes.map(l => l.montantHT))).toBe(totals.totalHT);
+      expect(sumMoney(totals.lignes.map(l => l.montantTVA))).toBe(totals.totalTVA);
+      expect(sumMoney(tva.map(group => group.taxAmount))).toBe(totals.totalTVA);
+      expect(sumMoney(fodec.map(group => group.taxAmount))).toBe(totals.totalFodec);
+      expect(sumMoney([totals.totalHT, totals.totalFodec, totals.totalTVA])).toBe(totals.totalTTC);
+    });
+  });
+
+  it('adds the document charges in minor units', () => {
+    const totals = calculateDocumentTotals(
+      [ligne(1, 100.005)],
+      [charge({}), charge({ id: 't2', nom: 'Taxe', type: 'percentage', valeur: 0.5, calculationBase: 'totalHTWithPreviousTaxes', ordre: 2 })]
+    );
+    // TVA 19.00095 -> 19.001, then 0.5 % of 100.005 + 19.001 + 1 = 0.60003
+    expect(totals.totalTVA).toBe(19.001);
+    expect(totals.charges.map(c => c.montant)).toEqual([1, 0.6]);
+    expect(totals.totalCharges).toBe(1.6);
+    expect(totals.totalTTC).toBe(120.606);
+  });
+
+  it('apportions the global discount and the fees over the TVA rates', () => {
+    const totals = calculateDocumentTotals([ligne(1, 100), ligne(1, 300, { tva: 7 })], [], {
+      remiseGlobale: { type: 'percentage', valeur: 10 },
+      frais: [{ id: 'f1', libelle: 'Transport', montantHT: 20 }]
+    });
+    // 40 of discount and 20 of fees split 1:3 between 19 % and 7 %
+    expect(totals.montantRemise).toBe(40);
+    expect(totals.ajustements.map(a => [a.tauxTVA, a.remise, a.frais, a.montantTVA])).toEqual([[19, 10, 5, -0.95], [7, 30, 15, -1.05]]);
+    expect(totals.taxSummary).toEqual([
+      { type: 'TVA', rate: 19, baseAmount: 95, taxAmount: 18.05 },
+      { type: 'TVA', rate: 7, baseAmount: 285, taxAmount: 19.95 }
+    ]);
+    expect(totals.totalHT).toBe(380);
+    expect(totals.totalTVA).toBe(38);
+    expect(totals.totalTTC).toBe(418);
+  });
+
+  it('lowers the FODEC base by the discount, never below zero', () => {
+    const fodec = { fodecApplicable: true };
+    const totals = calculateDocumentTotals([ligne(1, 100, fodec)], [], { remiseGlobale: { type: 'fixed', valeur: 10 } });
+    // 90 HT, 0.9 FODEC, 19 % of 90.9
+    expect(totals.totalHT).toBe(90);
+    expect(totals.totalFodec).toBe(0.9);
+    expect(totals.totalTVA).toBe(17.271);
+    expect(totals.totalTTC).toBe(108.171);
+
+    const capped = calculateDocumentTotals([ligne(1, 100, fodec)], [], { remiseGlobale: { type: 'fixed', valeur: 500 } });
+    expect(capped.montantRemise).toBe(100);
+    expect(capped.totalTTC).toBe(0);
+  });
+
+  it('uses the decimals of the document currency', () => {
+    const totals = calculateDocumentTotals([ligne(3, 3.335, { tva: 7 }), ligne(1, 0.005, { tva: 7 })], [], { devise: 'EUR' });
+    expect(totals.lignes.map(l => l.montantHT)).toEqual([10.01, 0.01]);
+    expect(totals.totalHT).toBe(10.02);
+    expect(totals.totalTVA).toBe(0.7);
+    expect(totals.totalTTC).toBe(10.72);
+  });
+});
+
+describe('calculateAvoirTotals', () => {
+  const facture = () => calculateDocumentTotals(
+    [ligne(3, 33.335, { fodecApplicable: true }), ligne(7, 12.111, { tva: 7 })],
+    [charge({})],
+    { remiseGlobale: { type: 'percentage', valeur: 12.5 }, frais: [{ id: 'f1', libelle: 'Transport', montantHT: 17.777 }] }
+  );
+  const aCrediter = (lignes: LigneDocument[], quantites: number[], dejaCredite: number[] = []) =>
+    lignes.map((ligneFacture, index) => ({
+      ligneFacture,
+      quantiteFacturee: ligneFacture.quantite,
+      quantiteCreditee: dejaCredite[index] || 0,
+      quantite: quantites[index]
+    }));
+
+  it('credits the full total of a discounted invoice with a timbre', () => {
+    const invoice = facture();
+    const avoir = calculateAvoirTotals(invoice, aCrediter(invoice.lignes, [3, 7]));
+
+    expect(avoir.montantRemise).toBe(invoice.montantRemise);
+    expect(avoir.totalFrais).toBe(invoice.totalFrais);
+    expect(avoir.charges).toEqual(invoice.charges);
+    expect(avoir.totalHT).toBe(invoice.totalHT);
+    expect(avoir.totalFodec).toBe(invoice.totalFodec);
+    expect(avoir.totalTVA).toBe(invoice.totalTVA);
+    expect(avoir.totalTTC).toBe(invoice.totalTTC);
+  });
+
+  it('adds up partial credit notes to the invoice total, the last one crediting the timbre', () => {
+    const invoice = facture();
+    const premier = calculateAvoirTotals(invoice, aCrediter(invoice.lignes, [1, 2]));
+    const second = calculateAvoirTotals(invoice, aCrediter(invoice.lignes, [2, 5], [1, 2]));
+
+    expect(premier.charges).toEqual([]);
+    expect(premier.totalCharges).toBe(0);
+    expect(premier.montantRemise).toBeGreaterThan(0);
+    expect(second.totalCharges).toBe(1);
+    expect(sumMoney([premier.totalHT, second.totalHT])).toBe(invoice.totalHT);
+    expect(sumMoney([premier.totalTVA, second.totalTVA])).toBe(invoice.totalTVA);
+    expect(sumMoney([premier.totalTTC, second.totalTTC])).toBe(invoice.totalTTC);
+  });
+});
@@ -1,53 +1,268 @@
-import { LigneDocument, TaxGroupSummary, Produit } from '../types';
+import { LigneDocument, TaxGroupSummary, Produit, Tax, DocumentCharge, RemiseGlobale, FraisDocument, AjustementTaxe, Facture, Avoir, DatabaseQuery } from '../types';
+import { fromBaseCurrency, getMoneyDecimals } from './currency';
+import {
+  DINAR_DECIMALS,
+  DEFAULT_ROUNDING_POLICY,
+  RoundingPolicy,
+  allocateUnits,
+  fromMinorUnits,
+  getQuantiteRestante,
+  lineAmountUnits,
+  percentOfUnits,
+  roundHalfUp,
+  sumMoney,
+  sumQuantites,
+  toMinorUnits
+} from './money';
 
-// Calculate taxes for a single product line using the new logic
-export const calculateProductTaxes = (ligne: LigneDocument): LigneDocument => {
-  const montantHT = ligne.quantite * ligne.prixUnitaire * (1 - ligne.remise / 100);
-  
-  // Step 1: Calculate FODEC
-  let montantFodec = 0;
-  if (ligne.produit.fodecApplicable) {
-    montantFodec = montantHT * (ligne.produit.tauxFodec / 100);
+// A line as entered, before its amounts are computed
+export type LigneSaisie = Omit<LigneDocument, 'montantHT' | 'montantFodec' | 'baseTVA' | 'montantTVA' | 'montantTTC'>;
+
+// Line amounts from HT, FODEC and TVA already rounded to minor units
+const withLineUnits = (
+  ligne: LigneSaisie,
+  htUnits: number,
+  fodecUnits: number,
+  tvaUnits: number,
+  decimals: number
+): LigneDocument => ({
+  ...ligne,
+  montantHT: fromMinorUnits(htUnits, decimals),
+  montantFodec: fromMinorUnits(fodecUnits, decimals),
+  baseTVA: fromMinorUnits(htUnits + fodecUnits, decimals), // TVA base is HT + FODEC
+  montantTVA: fromMinorUnits(tvaUnits, decimals),
+  montantTTC: fromMinorUnits(htUnits + fodecUnits + tvaUnits, decimals)
+});
+
+// Calculate taxes for a single product line, each amount rounded to the minor unit
+export const calculateProductTaxes = (ligne: LigneSaisie, decimals: number = DINAR_DECIMALS): LigneDocument => {
+  const htUnits = lineAmountUnits(ligne.quantite, ligne.prixUnitaire, ligne.remise, decimals);
+  const fodecUnits = ligne.produit.fodecApplicable ? percentOfUnits(htUnits, ligne.produit.tauxFodec) : 0;
+  const tvaUnits = percentOfUnits(htUnits + fodecUnits, ligne.produit.tva);
+
+  return withLineUnits(ligne, htUnits, fodecUnits, tvaUnits, decimals);
+};
+
+// Tax of each rate computed once on the summed bases of its lines, then spread back over them
+const allocateTaxByRate = (
+  lignes: LigneDocument[],
+  baseUnits: number[],
+  rateOf: (ligne: LigneDocument) => number
+): number[] => {
+  const taxUnits = lignes.map(() => 0);
+  const indexesByRate = new Map<number, number[]>();
+
+  lignes.forEach((ligne, index) => {
+    const rate = rateOf(ligne);
+    if (rate > 0) {
+      indexesByRate.set(rate, [...(indexesByRate.get(rate) || []), index]);
+    }
+  });
+
+  indexesByRate.forEach((indexes, rate) => {
+    const groupBase = indexes.reduce((sum, index) => sum + baseUnits[index], 0);
+    const parts = allocateUnits(percentOfUnits(groupBase, rate), indexes.map(index => baseUnits[index]));
+    indexes.forEach((index, position) => {
+      taxUnits[index] = parts[position];
+    });
+  });
+
+  return taxUnits;
+};
+
+const calculateLinesWithDocumentRounding = (lignes: LigneDocument[], decimals: number): LigneDocument[] => {
+  const htUnits = lignes.map(ligne => lineAmountUnits(ligne.quantite, ligne.prixUnitaire, ligne.remise, decimals));
+  const fodecUnits = allocateTaxByRate(lignes, htUnits, ligne => (ligne.produit.fodecApplicable ? ligne.produit.tauxFodec : 0));
+  const tvaUnits = allocateTaxByRate(lignes, htUnits.map((ht, index) => ht + fodecUnits[index]), ligne => ligne.produit.tva);
+
+  return lignes.map((ligne, index) => withLineUnits(ligne, htUnits[index], fodecUnits[index], tvaUnits[index], decimals));
+};
+
+// Calculate document-level charges in their configured order. Percentage charges
+// apply to the total HT or to the total HT plus the taxes computed before them.
+export const calculateDocumentCharges = (
+  chargeTaxes: Tax[],
+  totalHT: number,
+  totalLineTaxes: number,
+  decimals: number = DINAR_DECIMALS
+): DocumentCharge[] => {
+  const totalHTUnits = toMinorUnits(totalHT, decimals);
+  let previousTaxUnits = toMinorUnits(totalLineTaxes, decimals);
+
+  return [...chargeTaxes]
+    .sort((a, b) => a.ordre - b.ordre)
+    .map(tax => {
+      let baseUnits = 0;
+      let montantUnits = toMinorUnits(tax.valeur, decimals);
+
+      if (tax.type === 'percentage') {
+        baseUnits = tax.calculationBase === 'totalHT' ? totalHTUnits : totalHTUnits + previousTaxUnits;
+        montantUnits = percentOfUnits(baseUnits, tax.valeur);
+      }
+      previousTaxUnits += montantUnits;
+
+      return {
+        taxId: tax.id,
+        nom: tax.nom,
+        type: tax.type,
+        taux: tax.type === 'percentage' ? tax.valeur : 0,
+        base: fromMinorUnits(baseUnits, decimals),
+        montant: fromMinorUnits(montantUnits, decimals)
+      };
+    });
+};
+
+// Active document-level charges of the taxes settings for a document type.
+// TVA is computed per product line and is never a document charge.
+export const loadDocumentCharges = async (
+  documentType: Tax['applicableDocuments'][number],
+  query: DatabaseQuery
+): Promise<Tax[]> => {
+  try {
+    const result = await query<(Omit<Tax, 'applicableDocuments' | 'actif'> & { applicableDocuments: string | null; actif: number })[]>(
+      'SELECT * FROM taxes WHERE actif = 1 ORDER BY ordre ASC'
+    );
+    return result
+      .map((tax): Tax => ({
+        ...tax,
+        applicableDocuments: JSON.parse(tax.applicableDocuments || '[]'),
+        actif: Boolean(tax.actif)
+      }))
+      .filter(tax =>
+        tax.applicableDocuments.includes(documentType) && !tax.nom.toLowerCase().includes('tva')
+      );
+  } catch (error) {
+    console.error('Error loading document charges:', error);
+    return [];
   }
-  
-  // Step 2: Calculate TVA base (HT + FODEC if applicable)
-  const baseTVA = montantHT + montantFodec;
-  
-  // Step 3: Calculate TVA
-  const montantTVA = baseTVA * (ligne.produit.tva / 100);
-  
-  // Step 4: Calculate TTC
-  const montantTTC = montantHT + montantFodec + montantTVA;
-  
-  return {
-    ...ligne,
-    montantHT,
-    montantFodec,
-    baseTVA,
-    montantTVA,
-    montantTTC
-  };
 };
 
-// Calculate totals for all lines
-export const calculateDocumentTotals = (lignes: LigneDocument[]) => {
+// Fixed charges are set in dinars, documents in a foreign currency charge their converted amount
+export const convertDocumentCharges = (chargeTaxes: Tax[], devise?: string, tauxChange?: number): Tax[] =>
+  chargeTaxes.map(tax => tax.type === 'fixed' ? { ...tax, valeur: fromBaseCurrency(tax.valeur, devise, tauxChange) } : tax);
+
+export interface DocumentTotalsOptions {
+  devise?: string; // Document currency, sets the minor unit amounts are rounded to
+  policy?: RoundingPolicy;
+  remiseGlobale?: RemiseGlobale;
+  frais?: FraisDocument[];
+}
+
+// Global discount in minor units: a percentage of the lines HT, or a fixed amount never above them
+export const calculateMontantRemise = (remise: RemiseGlobale | undefined, lignesHTUnits: number, decimals: number): number => {
+  if (!remise || !(remise.valeur > 0) || lignesHTUnits <= 0) {
+    return 0;
+  }
+  return remise.type === 'percentage'
+    ? percentOfUnits(lignesHTUnits, Math.min(remise.valeur, 100))
+    : Math.min(toMinorUnits(remise.valeur, decimals), lignesHTUnits);
+};
+
+// The global discount and the fees are split over the (TVA, FODEC) rate pairs of the lines in
+// proportion to their HT, then taxed once per pair. The discount lowers the FODEC and TVA bases,
+// the fees bear TVA but no FODEC. Fees on a document without lines bear no tax.
+const calculateAjustements = (
+  lignes: LigneDocument[],
+  remiseUnits: number,
+  fraisUnits: number,
+  decimals: number
+): AjustementTaxe[] => {
+  if (remiseUnits === 0 && fraisUnits === 0) {
+    return [];
+  }
+
+  const groups = new Map<string, { tauxTVA: number; tauxFodec: number; htUnits: number }>();
+  lignes.forEach(ligne => {
+    const tauxFodec = ligne.produit.fodecApplicable ? ligne.produit.tauxFodec : 0;
+    const key = `${ligne.produit.tva}|${tauxFodec}`;
+    const group = groups.get(key) || { tauxTVA: ligne.produit.tva, tauxFodec, htUnits: 0 };
+    group.htUnits += toMinorUnits(ligne.montantHT, decimals);
+    groups.set(key, group);
+  });
+  if (groups.size === 0) {
+    groups.set('0|0', { tauxTVA: 0, tauxFodec: 0, htUnits: 0 });
+  }
+
+  const pairs = Array.from(groups.values());
+  const weights = pairs.map(group => group.htUnits);
+  const remiseParts = allocateUnits(remiseUnits, weights);
+  const fraisParts = allocateUnits(fraisUnits, weights);
+
+  return pairs.map((group, index) => {
+    const fodecUnits = percentOfUnits(-remiseParts[index], group.tauxFodec);
+    const baseTVAUnits = fraisParts[index] - remiseParts[index] + fodecUnits;
+    return {
+      tauxTVA: group.tauxTVA,
+      tauxFodec: group.tauxFodec,
+      remise: fromMinorUnits(remiseParts[index], decimals),
+      frais: fromMinorUnits(fraisParts[index], decimals),
+      montantFodec: fromMinorUnits(fodecUnits, decimals),
+      baseTVA: fromMinorUnits(baseTVAUnits, decimals),
+      montantTVA: fromMinorUnits(percentOfUnits(baseTVAUnits, group.tauxTVA), decimals)
+    };
+  });
+};
+
+// Global discount and fees of a devis or supplier order row, stored like the invoice charges
+export const parseDocumentAdjustments = (row: {
+  remiseType?: RemiseGlobale['type'] | null;
+  remiseValeur?: number;
+  montantRemise?: number;
+  frais?: string;
+  totalFrais?: number;
+  ajustements?: string;
+}): Pick<Facture, 'remiseGlobale' | 'montantRemise' | 'frais' | 'totalFrais' | 'ajustements'> => ({
+  remiseGlobale: row.remiseType ? { type: row.remiseType, valeur: row.remiseValeur || 0 } : undefined,
+  montantRemise: row.montantRemise || 0,
+  frais: JSON.parse(row.frais || '[]'),
+  totalFrais: row.totalFrais || 0,
+  ajustements: JSON.parse(row.ajustements || '[]')
+});
+
+// Calculate totals for all lines, plus the global discount, the fees and the document-level charges.
+// Totals are sums of the rounded line amounts and adjustments, so the lines, the tax table and the
+// stored totals always agree.
+export const calculateDocumentTotals = (
+  lignes: LigneDocument[],
+  chargeTaxes: Tax[] = [],
+  options: DocumentTotalsOptions = {}
+) => {
+  const decimals = getMoneyDecimals(options.devise);
+  const policy = options.policy || DEFAULT_ROUNDING_POLICY;
+
   // Recalculate each line first
-  const calculatedLignes = lignes.map(ligne => calculateProductTaxes(ligne));
-  
+  const calculatedLignes = policy === 'document'
+    ? calculateLinesWithDocumentRounding(lignes, decimals)
+    : lignes.map(ligne => calculateProductTaxes(ligne, decimals));
+
+  const units = (amount: number) => toMinorUnits(amount, decimals);
+  const amount = (minorUnits: number) => fromMinorUnits(minorUnits, decimals);
+
+  // Global discount and fees, apportioned over the rates of the lines
+  const totalLignesHTUnits = calculatedLignes.reduce((sum, ligne) => sum + units(ligne.montantHT), 0);
+  const remiseUnits = calculateMontantRemise(options.remiseGlobale, totalLignesHTUnits, decimals);
+  const frais = (options.frais || []).map(item => ({ ...item, montantHT: amount(units(item.montantHT)) }));
+  const totalFraisUnits = frais.reduce((sum, item) => sum + units(item.montantHT), 0);
+  const ajustements = calculateAjustements(calculatedLignes, remiseUnits, totalFraisUnits, decimals);
+
   // Calculate totals
-  const totalHT = calculatedLignes.reduce((sum, ligne) => sum + ligne.montantHT, 0);
-  const totalFodec = calculatedLignes.reduce((sum, ligne) => sum + ligne.montantFodec, 0);
-  const totalTVA = calculatedLignes.reduce((sum, ligne) => sum + ligne.montantTVA, 0);
-  const totalTTC = calculatedLignes.reduce((sum, ligne) => sum + ligne.montantTTC, 0);
-  
+  const totalHTUnits = totalLignesHTUnits - remiseUnits + totalFraisUnits;
+  const totalFodecUnits = calculatedLignes.reduce((sum, ligne) => sum + units(ligne.montantFodec), 0)
+    + ajustements.reduce((sum, ajustement) => sum + units(ajustement.montantFodec), 0);
+  const totalTVAUnits = calculatedLignes.reduce((sum, ligne) => sum + units(ligne.montantTVA), 0)
+    + ajustements.reduce((sum, ajustement) => sum + units(ajustement.montantTVA), 0);
+  const charges = calculateDocumentCharges(chargeTaxes, amount(totalHTUnits), amount(totalFodecUnits + totalTVAUnits), decimals);
+  const totalChargesUnits = charges.reduce((sum, charge) => sum + units(charge.montant), 0);
+  const totalTTCUnits = totalHTUnits + totalFodecUnits + totalTVAUnits + totalChargesUnits;
+
   // Create tax summary by type
   const taxSummary: TaxGroupSummary[] = [];
-  
+
   // FODEC summary (if any products have FODEC)
-  if (totalFodec > 0) {
+  if (totalFodecUnits > 0) {
     // Group by FODEC rate
     const fodecGroups = new Map<number, { baseAmount: number; taxAmount: number }>();
-    
+
     calculatedLignes.forEach(ligne => {
       if (ligne.produit.fodecApplicable && ligne.montantFodec > 0) {
         const rate = ligne.produit.tauxFodec;
@@ -55,25 +270,33 @@ export const calculateDocumentTotals = (lignes: LigneDocument[]) => {
           fodecGroups.set(rate, { baseAmount: 0, taxAmount: 0 });
         }
         const group = fodecGroups.get(rate)!;
-        group.baseAmount += ligne.montantHT;
-        group.taxAmount += ligne.montantFodec;
+        group.baseAmount += units(ligne.montantHT);
+        group.taxAmount += units(ligne.montantFodec);
       }
     });
-    
+
+    // The discount lowers the FODEC base of each rate
+    ajustements.filter(ajustement => ajustement.tauxFodec > 0).forEach(ajustement => {
+      const group = fodecGroups.get(ajustement.tauxFodec) || { baseAmount: 0, taxAmount: 0 };
+      group.baseAmount -= units(ajustement.remise);
+      group.taxAmount += units(ajustement.montantFodec);
+      fodecGroups.set(ajustement.tauxFodec, group);
+    });
+
     fodecGroups.forEach((group, rate) => {
       taxSummary.push({
         type: 'FODEC',
         rate,
-        baseAmount: group.baseAmount,
-        taxAmount: group.taxAmount
+        baseAmount: amount(group.baseAmount),
+        taxAmount: amount(group.taxAmount)
       });
     });
   }
-  
+
   // TVA summary (group by TVA rate)
-  if (totalTVA > 0) {
+  if (totalTVAUnits > 0) {
     const tvaGroups = new Map<number, { baseAmount: number; taxAmount: number }>();
-    
+
     calculatedLignes.forEach(ligne => {
       if (ligne.produit.tva > 0) {
         const rate = ligne.produit.tva;
@@ -81,31 +304,162 @@ export const calculateDocumentTotals = (lignes: LigneDocument[]) => {
           tvaGroups.set(rate, { baseAmount: 0, taxAmount: 0 });
         }
         const group = tvaGroups.get(rate)!;
-        group.baseAmount += ligne.baseTVA; // Use TVA base (HT + FODEC)
-        group.taxAmount += ligne.montantTVA;
+        group.baseAmount += units(ligne.baseTVA); // Use TVA base (HT + FODEC)
+        group.taxAmount += units(ligne.montantTVA);
       }
     });
-    
+
+    ajustements.filter(ajustement => ajustement.tauxTVA > 0).forEach(ajustement => {
+      const group = tvaGroups.get(ajustement.tauxTVA) || { baseAmount: 0, taxAmount: 0 };
+      group.baseAmount += units(ajustement.baseTVA);
+      group.taxAmount += units(ajustement.montantTVA);
+      tvaGroups.set(ajustement.tauxTVA, group);
+    });
+
     tvaGroups.forEach((group, rate) => {
       taxSummary.push({
         type: 'TVA',
         rate,
-        baseAmount: group.baseAmount,
-        taxAmount: group.taxAmount
+        baseAmount: amount(group.baseAmount),
+        taxAmount: amount(group.taxAmount)
       });
     });
   }
-  
+
   return {
     lignes: calculatedLignes,
-    totalHT,
-    totalFodec,
-    totalTVA,
-    totalTTC,
+    totalLignesHT: amount(totalLignesHTUnits),
+    montantRemise: amount(remiseUnits),
+    frais,
+    totalFrais: amount(totalFraisUnits),
+    ajustements,
+    totalHT: amount(totalHTUnits),
+    totalFodec: amount(totalFodecUnits),
+    totalTVA: amount(totalTVAUnits),
+    charges,
+    totalCharges: amount(totalChargesUnits),
+    totalTTC: amount(totalTTCUnits),
     taxSummary
   };
 };
 
+// A line of an invoice being credited, with its amounts as stored on the invoice
+export interface LigneACrediter {
+  ligneFacture: LigneDocument;
+  quantiteFacturee: number;
+  quantiteCreditee: number; // By the previous credit notes
+  quantite: number; // Credited by this credit note
+}
+
+export type AvoirTotals = Pick<Avoir,
+  'totalHT' | 'totalFodec' | 'totalTVA' | 'montantRemise' | 'frais' | 'totalFrais' | 'ajustements' | 'charges' | 'totalCharges' | 'totalTTC'
+> & { lignes: LigneDocument[] };
+
+// Totals of a credit note on an invoice. Each amount is what the invoice has credited once this
+// credit note is added, less what its previous credit notes credited: the invoice's global discount
+// and fees by rate in proportion to the HT credited, fully credited lines at their stored amounts.
+// Crediting every line therefore gives back the invoice totals to the millime, and the credit note
+// completing the crediting also credits the invoice charges (timbre fiscal).
+export const calculateAvoirTotals = (
+  facture: Pick<Facture, 'ajustements' | 'frais' | 'charges' | 'devise'>,
+  lignes: LigneACrediter[]
+): AvoirTotals => {
+  const decimals = getMoneyDecimals(facture.devise);
+  const units = (value: number) => toMinorUnits(value, decimals);
+  const amount = (minorUnits: number) => fromMinorUnits(minorUnits, decimals);
+
+  // Line amounts in minor units once `quantite` of the line is credited
+  const creditedUnits = (ligne: LigneACrediter, quantite: number) => {
+    const montants = getQuantiteRestante(ligne.quantiteFacturee, quantite) === 0
+      ? ligne.ligneFacture
+      : calculateProductTaxes({ ...ligne.ligneFacture, quantite }, decimals);
+    return { ht: units(montants.montantHT), fodec: units(montants.montantFodec), tva: units(montants.montantTVA) };
+  };
+
+  const pairKey = (ligne: LigneDocument) =>
+    `${ligne.produit.tva}|${ligne.produit.fodecApplicable ? ligne.produit.tauxFodec : 0}`;
+  const pairs = new Map<string, { facture: number; avant: number; apres: number }>();
+
+  const avoirLignes: LigneDocument[] = [];
+  lignes.forEach(ligne => {
+    const avant = creditedUnits(ligne, ligne.quantiteCreditee);
+    const apres = creditedUnits(ligne, sumQuantites([ligne.quantiteCreditee, ligne.quantite]));
+    const pair = pairs.get(pairKey(ligne.ligneFacture)) || { facture: 0, avant: 0, apres: 0 };
+    pair.facture += units(ligne.ligneFacture.montantHT);
+    pair.avant += avant.ht;
+    pair.apres += apres.ht;
+    pairs.set(pairKey(ligne.ligneFacture), pair);
+
+    if (ligne.quantite > 0) {
+      avoirLignes.push(withLineUnits(
+        { ...ligne.ligneFacture, quantite: ligne.quantite },
+        apres.ht - avant.ht,
+        apres.fodec - avant.fodec,
+        apres.tva - avant.tva,
+        decimals
+      ));
+    }
+  });
+
+  const toutCredite = lignes.every(ligne =>
+    getQuantiteRestante(ligne.quantiteFacturee, sumQuantites([ligne.quantiteCreditee, ligne.quantite])) === 0
+  );
+  const creditedShare = (total: number, key: string) => {
+    const pair = pairs.get(key);
+    if (!pair || pair.facture === 0) {
+      return toutCredite ? total : 0;
+    }
+    return roundHalfUp((total * pair.apres) / pair.facture) - roundHalfUp((total * pair.avant) / pair.facture);
+  };
+
+  const ajustements: AjustementTaxe[] = (facture.ajustements || [])
+    .map(ajustement => {
+      const key = `${ajustement.tauxTVA}|${ajustement.tauxFodec}`;
+      const remiseUnits = creditedShare(units(ajustement.remise), key);
+      const fraisUnits = creditedShare(units(ajustement.frais), key);
+      const fodecUnits = creditedShare(units(ajustement.montantFodec), key);
+      return {
+        tauxTVA: ajustement.tauxTVA,
+        tauxFodec: ajustement.tauxFodec,
+        remise: amount(remiseUnits),
+        frais: amount(fraisUnits),
+        montantFodec: amount(fodecUnits),
+        baseTVA: amount(fraisUnits - remiseUnits + fodecUnits),
+        montantTVA: amount(creditedShare(units(ajustement.montantTVA), key))
+      };
+    })
+    .filter(ajustement => ajustement.remise !== 0 || ajustement.frais !== 0 || ajustement.montantTVA !== 0);
+
+  const sumUnits = <T>(items: T[], value: (item: T) => number) => items.reduce((sum, item) => sum + units(value(item)), 0);
+  const remiseUnits = sumUnits(ajustements, ajustement => ajustement.remise);
+  const totalFraisUnits = sumUnits(ajustements, ajustement => ajustement.frais);
+  const fraisFacture = facture.frais || [];
+  const fraisParts = allocateUnits(totalFraisUnits, fraisFacture.map(item => units(item.montantHT)));
+  const frais = fraisFacture
+    .map((item, index) => ({ ...item, montantHT: amount(fraisParts[index]) }))
+    .filter(item => item.montantHT !== 0);
+  const charges = toutCredite ? facture.charges || [] : [];
+
+  const totalHTUnits = sumUnits(avoirLignes, ligne => ligne.montantHT) - remiseUnits + totalFraisUnits;
+  const totalFodecUnits = sumUnits(avoirLignes, ligne => ligne.montantFodec) + sumUnits(ajustements, ajustement => ajustement.montantFodec);
+  const totalTVAUnits = sumUnits(avoirLignes, ligne => ligne.montantTVA) + sumUnits(ajustements, ajustement => ajustement.montantTVA);
+  const totalChargesUnits = sumUnits(charges, charge => charge.montant);
+
+  return {
+    lignes: avoirLignes,
+    totalHT: amount(totalHTUnits),
+    totalFodec: amount(totalFodecUnits),
+    totalTVA: amount(totalTVAUnits),
+    montantRemise: amount(remiseUnits),
+    frais,
+    totalFrais: amount(totalFraisUnits),
+    ajustements,
+    charges,
+    totalCharges: amount(totalChargesUnits),
+    totalTTC: amount(totalHTUnits + totalFodecUnits + totalTVAUnits + totalChargesUnits)
+  };
+};
+
 // Legacy function for backward compatibility
 export const calculateTaxesByGroup = (
   lignes: LigneDocument[],
@@ -116,7 +470,7 @@ export const calculateTaxesByGroup = (
   
   return {
     taxGroupsSummary: result.taxSummary,
-    totalTaxes: result.totalFodec + result.totalTVA
+    totalTaxes: sumMoney([result.totalFodec, result.totalTVA])
   };
 };
 
@@ -147,7 +501,7 @@ export const calculateTaxesWithCascade = (lignes: LigneDocument[], taxGroups: an
   
   return {
     taxGroupsSummary: result.taxSummary,
-    totalTaxes: result.totalFodec + result.totalTVA
+    totalTaxes: sumMoney([result.totalFodec, result.totalTVA])
   };
 };
 
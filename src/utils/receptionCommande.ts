@@ -0,0 +1,34 @@
+import { CommandeFournisseur, DatabaseQuery } from '../types';
+import { getQuantiteRestante, subtractQuantite } from './money';
+
+export const getResteARecevoir = (ligne: { quantite: number; quantiteRecue?: number }) =>
+  getQuantiteRestante(ligne.quantite, ligne.quantiteRecue);
+
+// Sent or confirmed orders can be received while a line still has a remaining quantity
+export const canReceiveCommande = (commande: CommandeFournisseur) =>
+  ['envoyee', 'confirmee', 'partiellement_recue'].includes(commande.statut) &&
+  commande.lignes.some(ligne => getResteARecevoir(ligne) > 0);
+
+// Difference between the received and the ordered quantity of a line. Missing quantities are
+// only a discrepancy once the order is closed, until then they are still expected.
+export const getEcartReception = (quantiteCommandee: number, quantiteRecueTotale: number, cloture: boolean) => {
+  const ecart = subtractQuantite(quantiteRecueTotale, quantiteCommandee);
+  if (ecart === 0) return 0;
+  return cloture || ecart > 0 ? ecart : 0;
+};
+
+// Quantity received so far for each line of a supplier order
+export const getQuantitesRecues = async (
+  commandeId: string,
+  query: DatabaseQuery
+): Promise<Map<string, number>> => {
+  const result = await query<{ ligneCommandeId: string; quantiteRecue: number }[]>(`
+    SELECT lbr.ligneCommandeId, SUM(lbr.quantiteRecue) as quantiteRecue
+    FROM lignes_bon_reception lbr
+    JOIN bons_reception br ON lbr.bonReceptionId = br.id
+    WHERE br.commandeId = ?
+    GROUP BY lbr.ligneCommandeId
+  `, [commandeId]);
+
+  return new Map(result.map(row => [row.ligneCommandeId, row.quantiteRecue]));
+};
@@ -0,0 +1,177 @@
+import { Client, DatabaseQuery } from '../types';
+import { FACTURES_COMPTABILISEES } from './invoiceBalance';
+import { dinarsSQL, sumMoney } from './money';
+
+// Amounts in dinars, foreign-currency documents are converted with the rate of their invoice
+export interface MouvementReleve {
+  date: Date;
+  type: 'facture' | 'avoir' | 'paiement' | 'retenue';
+  numero: string;
+  libelle: string;
+  debit: number;
+  credit: number;
+  solde: number; // Running balance after this entry
+}
+
+export interface ReleveClient {
+  client: Client;
+  dateDebut: Date;
+  dateFin: Date;
+  soldeInitial: number;
+  mouvements: MouvementReleve[];
+  totalDebit: number;
+  totalCredit: number;
+  soldeFinal: number;
+}
+
+// Same-day entries are listed invoice first, then its credit notes and settlements
+const ORDRE_TYPES: MouvementReleve['type'][] = ['facture', 'avoir', 'paiement', 'retenue'];
+
+interface FactureReleveRow {
+  date: string;
+  numero: string;
+  totalTTC: number;
+}
+
+interface AvoirReleveRow extends FactureReleveRow {
+  factureNumero: string;
+}
+
+interface PaymentReleveRow {
+  date: string;
+  factureNumero: string;
+  montant: number;
+  montantRetenue: number | null;
+  tauxRetenue: number | null;
+  methode: string;
+  reference: string | null;
+}
+
+const getMethodLabel = (methode: string) => {
+  switch (methode) {
+    case 'especes': return 'Espèces';
+    case 'cheque': return 'Chèque';
+    case 'virement': return 'Virement';
+    case 'carte': return 'Carte bancaire';
+    case 'autre': return 'Autre';
+    default: return methode;
+  }
+};
+
+// All the entries of a client account up to the given date, oldest first
+const getMouvementsClient = async (
+  clientId: string,
+  dateFin: string,
+  query: DatabaseQuery
+): Promise<Omit<MouvementReleve, 'solde'>[]> => {
+  const [factures, avoirs, payments] = await Promise.all([
+    query<FactureReleveRow[]>(`
+      SELECT f.date, f.numero, ${dinarsSQL('f.totalTTC', 'f.tauxChange')} as totalTTC
+      FROM factures f
+      WHERE f.clientId = ? AND f.date <= ? AND ${FACTURES_COMPTABILISEES}
+    `, [clientId, dateFin]),
+    query<AvoirReleveRow[]>(`
+      SELECT a.date, a.numero, ${dinarsSQL('a.totalTTC', 'f.tauxChange')} as totalTTC, f.numero as factureNumero
+      FROM avoirs a
+      JOIN factures f ON a.factureId = f.id
+      WHERE a.clientId = ? AND a.date <= ? AND a.statut != 'annule' AND f.statut != 'brouillon'
+    `, [clientId, dateFin]),
+    query<PaymentReleveRow[]>(`
+      SELECT p.date, p.factureNumero, ${dinarsSQL('p.montant', 'f.tauxChange')} as montant,
+             ${dinarsSQL('p.montantRetenue', 'f.tauxChange')} as montantRetenue, p.tauxRetenue, p.methode, p.reference
+      FROM payments p
+      JOIN factures f ON p.factureId = f.id
+      WHERE p.clientId = ? AND p.date <= ? AND p.statut = 'valide'
+    `, [clientId, dateFin])
+  ]);
+
+  const mouvements: Omit<MouvementReleve, 'solde'>[] = [
+    ...factures.map(f => ({
+      date: new Date(f.date),
+      type: 'facture' as const,
+      numero: f.numero,
+      libelle: 'Facture',
+      debit: f.totalTTC,
+      credit: 0
+    })),
+    ...avoirs.map(a => ({
+      date: new Date(a.date),
+      type: 'avoir' as const,
+      numero: a.numero,
+      libelle: `Avoir sur facture ${a.factureNumero}`,
+      debit: 0,
+      credit: a.totalTTC
+    }))
+  ];
+
+  payments.forEach(p => {
+    mouvements.push({
+      date: new Date(p.date),
+      type: 'paiement',
+      numero: p.factureNumero,
+      libelle: `Règlement ${getMethodLabel(p.methode)}${p.reference ? ` (${p.reference})` : ''}`,
+      debit: 0,
+      credit: p.montant
+    });
+    // The withheld part also settles the invoice
+    if (p.montantRetenue && p.montantRetenue > 0) {
+      mouvements.push({
+        date: new Date(p.date),
+        type: 'retenue',
+        numero: p.factureNumero,
+        libelle: `Retenue à la source ${p.tauxRetenue || 0}%`,
+        debit: 0,
+        credit: p.montantRetenue
+      });
+    }
+  });
+
+  return mouvements.sort((a, b) =>
+    a.date.getTime() - b.date.getTime() ||
+    ORDRE_TYPES.indexOf(a.type) - ORDRE_TYPES.indexOf(b.type) ||
+    a.numero.localeCompare(b.numero)
+  );
+};
+
+// Chronological statement of a client account over a date range: the balance carried
+// from the earlier entries, then each invoice, credit note and payment with the running balance
+export const getReleveClient = async (
+  client: Client,
+  dateDebut: Date,
+  dateFin: Date,
+  query: DatabaseQuery
+): Promise<ReleveClient> => {
+  const debut = new Date(dateDebut);
+  debut.setHours(0, 0, 0, 0);
+  const fin = new Date(dateFin);
+  fin.setHours(23, 59, 59, 999);
+
+  const tousMouvements = await getMouvementsClient(client.id, fin.toISOString(), query);
+
+  let solde = 0;
+  const mouvements: MouvementReleve[] = [];
+  tousMouvements.forEach(mouvement => {
+    if (mouvement.date < debut) {
+      solde = sumMoney([solde, mouvement.debit, -mouvement.credit]);
+    }
+  });
+  const soldeInitial = solde;
+
+  tousMouvements
+    .filter(mouvement => mouvement.date >= debut)
+    .forEach(mouvement => {
+      solde = sumMoney([solde, mouvement.debit, -mouvement.credit]);
+      mouvements.push({ ...mouvement, solde });
+    });
+
+  return {
+    client,
+    dateDebut: debut,
+    dateFin: fin,
+    soldeInitial,
+    mouvements,
+    totalDebit: sumMoney(mouvements.map(mouvement => mouvement.debit)),
+    totalCredit: sumMoney(mouvements.map(mouvement => mouvement.credit)),
+    soldeFinal: solde
+  };
+};
@@ -0,0 +1,25 @@
+import { toBaseCurrency } from './currency';
+import { DINAR_DECIMALS, fromMinorUnits, percentOfUnits, subtractMoney, toMinorUnits } from './money';
+
+// Retenue à la source rates applied by public-sector and large clients (%)
+export const RETENUE_RATES = [1, 1.5, 3];
+
+// Invoices below this amount (TTC, in dinars) are not subject to withholding
+export const SEUIL_RETENUE = 1000;
+
+// Foreign-currency invoices are compared in dinars, with the rate saved on the invoice
+export const isRetenueApplicable = (totalTTC: number, tauxChange?: number) =>
+  toBaseCurrency(totalTTC, tauxChange) > SEUIL_RETENUE;
+
+// Amount withheld on a gross settlement, rounded to the minor unit of the invoice currency
+export const calculateRetenue = (montantBrut: number, taux: number, decimals: number = DINAR_DECIMALS) =>
+  fromMinorUnits(percentOfUnits(toMinorUnits(montantBrut, decimals), taux), decimals);
+
+// Split a gross settlement into the withheld amount and the net amount actually paid
+export const splitMontantBrut = (montantBrut: number, taux: number, decimals: number = DINAR_DECIMALS) => {
+  const montantRetenue = calculateRetenue(montantBrut, taux, decimals);
+  return {
+    montantRetenue,
+    montantNet: subtractMoney(montantBrut, montantRetenue, decimals)
+  };
+};
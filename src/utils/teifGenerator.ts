@@ -0,0 +1,245 @@
+import { AjustementTaxe, Facture, LigneDocument, TaxGroupSummary } from '../types';
+import { format } from 'date-fns';
+import { getCompanyInfo } from './numberGenerator';
+import { BASE_CURRENCY, getMoneyDecimals } from './currency';
+import { numberToWords } from './numberToWords';
+import { fromMinorUnits, sumMoney, toMinorUnits } from './money';
+
+// TEIF (El Fatoora) code lists
+const TEIF_VERSION = '1.8.8';
+const DOCUMENT_TYPE_FACTURE = 'I-11';
+const DATE_EMISSION = 'I-31';
+const DATE_ECHEANCE = 'I-32';
+const PARTNER_VENDEUR = 'I-62';
+const PARTNER_ACHETEUR = 'I-64';
+const IDENTIFIANT_MATRICULE_FISCAL = 'I-01';
+const TAX_TIMBRE = 'I-1601';
+const TAX_TVA = 'I-1602';
+const TAX_AUTRE = 'I-1603';
+const TAX_FODEC = 'I-162';
+const MONTANT_LIGNE_HT = 'I-171';
+const MONTANT_TOTAL_HT = 'I-176';
+const MONTANT_BASE_TAXE = 'I-177';
+const MONTANT_TAXE = 'I-178';
+const MONTANT_TOTAL_TTC = 'I-180';
+const MONTANT_TOTAL_TAXES = 'I-181';
+const PRIX_UNITAIRE_HT = 'I-183';
+
+interface TeifTax {
+  code: string;
+  nom: string;
+  rate: number;
+  base?: number;
+  montant: number;
+}
+
+const escapeXml = (value: string | number | undefined | null): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const formatAmount = (amount: number, decimals: number) => amount.toFixed(decimals);
+
+const formatRate = (rate: number) => String(Math.round(rate * 1000) / 1000);
+
+const formatTeifDate = (date: Date) => format(date, 'ddMMyy');
+
+// Matricule fiscal without separators, e.g. "1234567/A/B/M/000" -> "1234567ABM000"
+export const normalizeMatriculeFiscal = (matricule?: string) =>
+  (matricule || '').replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+
+const indentXml = (xml: string, indent: string) => xml.replace(/\n/g, `\n${indent}`);
+
+// Amounts are written in the invoice currency, with its own decimals
+interface TeifCurrency {
+  code: string;
+  decimals: number;
+}
+
+const amountElement = (tag: string, amountTypeCode: string, amount: number, currency: TeifCurrency, description?: string) => `
+<${tag}>
+  <Moa amountTypeCode="${amountTypeCode}" currencyCodeList="ISO_4217">
+    <Amount currencyIdentifier="${currency.code}">${formatAmount(amount, currency.decimals)}</Amount>${description ? `
+    <AmountDescription lang="fr">${escapeXml(description)}</AmountDescription>` : ''}
+  </Moa>
+</${tag}>`;
+
+const taxElement = (tag: string, tax: { code: string; nom: string; rate: number }) => `
+<${tag}>
+  <TaxTypeName code="${tax.code}">${escapeXml(tax.nom)}</TaxTypeName>
+  <TaxDetails>
+    <TaxRate>${formatRate(tax.rate)}</TaxRate>
+  </TaxDetails>
+</${tag}>`;
+
+const partnerElement = (functionCode: string, partner: {
+  matriculeFiscal?: string;
+  nom: string;
+  adresse?: string;
+  ville?: string;
+  codePostal?: string;
+}) => `
+      <PartnerDetails functionCode="${functionCode}">
+        <Nad>
+          <PartnerIdentifier type="${IDENTIFIANT_MATRICULE_FISCAL}">${escapeXml(normalizeMatriculeFiscal(partner.matriculeFiscal))}</PartnerIdentifier>
+          <PartnerNom nameType="Qualification">${escapeXml(partner.nom)}</PartnerNom>
+          <PartnerAdresses lang="fr">
+            <AdressDescription>${escapeXml([partner.adresse, partner.codePostal, partner.ville].filter(Boolean).join(' '))}</AdressDescription>
+            <Street>${escapeXml(partner.adresse)}</Street>
+            <CityName>${escapeXml(partner.ville)}</CityName>
+            <PostalCode>${escapeXml(partner.codePostal)}</PostalCode>
+            <Country codeList="ISO_3166-1">TN</Country>
+          </PartnerAdresses>
+        </Nad>
+      </PartnerDetails>`;
+
+// FODEC and TVA of each rate from the stored lines and the stored share of the global discount
+// and fees, added in minor units so that the breakdown matches the saved totals
+const summarizeStoredTaxes = (lignes: LigneDocument[], ajustements: AjustementTaxe[], decimals: number): TaxGroupSummary[] => {
+  const units = (amount: number) => toMinorUnits(amount, decimals);
+  const groups = new Map<string, { type: TaxGroupSummary['type']; rate: number; baseAmount: number; taxAmount: number }>();
+  const addToGroup = (type: TaxGroupSummary['type'], rate: number, baseAmount: number, taxAmount: number) => {
+    const key = `${type}_${rate}`;
+    const group = groups.get(key) || { type, rate, baseAmount: 0, taxAmount: 0 };
+    group.baseAmount += baseAmount;
+    group.taxAmount += taxAmount;
+    groups.set(key, group);
+  };
+
+  lignes.forEach(ligne => {
+    if (ligne.produit.fodecApplicable && ligne.produit.tauxFodec > 0) {
+      addToGroup('FODEC', ligne.produit.tauxFodec, units(ligne.montantHT), units(ligne.montantFodec));
+    }
+    if (ligne.produit.tva > 0) {
+      // Older lines were saved without their TVA base
+      addToGroup('TVA', ligne.produit.tva, units(ligne.baseTVA) || units(ligne.montantHT) + units(ligne.montantFodec), units(ligne.montantTVA));
+    }
+  });
+  ajustements.forEach(ajustement => {
+    if (ajustement.tauxFodec > 0) {
+      addToGroup('FODEC', ajustement.tauxFodec, -units(ajustement.remise), units(ajustement.montantFodec));
+    }
+    if (ajustement.tauxTVA > 0) {
+      addToGroup('TVA', ajustement.tauxTVA, units(ajustement.baseTVA), units(ajustement.montantTVA));
+    }
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => (a.type === b.type ? a.rate - b.rate : a.type === 'FODEC' ? -1 : 1))
+    .map(group => ({
+      ...group,
+      baseAmount: fromMinorUnits(group.baseAmount, decimals),
+      taxAmount: fromMinorUnits(group.taxAmount, decimals)
+    }));
+};
+
+// The XML carries the amounts saved with the invoice, lines, global discount, fees and charges,
+// so that it always agrees with the printed document
+export const generateFactureTEIF = async (facture: Facture): Promise<string> => {
+  const isElectron = typeof window !== 'undefined' && window.electronAPI ? true : false;
+  const query = isElectron ? window.electronAPI.dbQuery : undefined;
+  const companyInfo = await getCompanyInfo(isElectron, query);
+
+  const currency: TeifCurrency = {
+    code: facture.devise || BASE_CURRENCY,
+    decimals: getMoneyDecimals(facture.devise)
+  };
+  const lignes = facture.lignes || [];
+  const { totalHT, totalFodec, totalTVA, totalTTC } = facture;
+  // Invoices saved before the charges were stored have none in their total
+  const charges = Array.isArray(facture.charges) ? facture.charges : [];
+  const taxSummary = summarizeStoredTaxes(lignes, facture.ajustements || [], currency.decimals);
+
+  const taxes: TeifTax[] = taxSummary.map(group => ({
+    code: group.type === 'FODEC' ? TAX_FODEC : TAX_TVA,
+    nom: group.type === 'FODEC' ? 'FODEC' : 'TVA',
+    rate: group.rate,
+    base: group.baseAmount,
+    montant: group.taxAmount
+  }));
+  charges.forEach(charge => {
+    taxes.push({
+      code: charge.nom.toLowerCase().includes('timbre') ? TAX_TIMBRE : TAX_AUTRE,
+      nom: charge.nom,
+      rate: charge.taux,
+      base: charge.type === 'percentage' ? charge.base : undefined,
+      montant: charge.montant
+    });
+  });
+
+  const totalTaxes = sumMoney([totalFodec, totalTVA, ...charges.map(charge => charge.montant)], currency.decimals);
+
+  // The total HT is net of the global discount and includes the fees
+  const ajustementsHT = [
+    facture.montantRemise ? `remise ${formatAmount(facture.montantRemise, currency.decimals)}` : '',
+    facture.totalFrais ? `frais ${formatAmount(facture.totalFrais, currency.decimals)}` : ''
+  ].filter(Boolean).join(', ');
+
+  const linesXml = lignes.map((ligne, index) => {
+    const lineTaxes = [
+      ...(ligne.produit.fodecApplicable ? [{ code: TAX_FODEC, nom: 'FODEC', rate: ligne.produit.tauxFodec }] : []),
+      { code: TAX_TVA, nom: 'TVA', rate: ligne.produit.tva }
+    ];
+
+    return `
+      <Lin>
+        <ItemIdentifier>${index + 1}</ItemIdentifier>
+        <LinImd lang="fr">
+          <ItemCode>${escapeXml(ligne.produit.ref || ligne.produit.id)}</ItemCode>
+          <ItemDescription>${escapeXml(ligne.produit.nom)}</ItemDescription>
+        </LinImd>
+        <LinQty>
+          <Quantity measurementUnit="UNIT">${ligne.quantite}</Quantity>
+        </LinQty>${indentXml(lineTaxes.map(tax => taxElement('LinTax', tax)).join(''), '        ')}
+        <LinMoa>${indentXml(amountElement('MoaDetails', PRIX_UNITAIRE_HT, ligne.prixUnitaire, currency) + amountElement('MoaDetails', MONTANT_LIGNE_HT, ligne.montantHT, currency), '          ')}
+        </LinMoa>
+      </Lin>`;
+  }).join('');
+
+  const taxesXml = taxes.map(tax => `
+      <InvoiceTaxDetails>${indentXml(
+        taxElement('Tax', tax) +
+        (tax.base !== undefined ? amountElement('AmountDetails', MONTANT_BASE_TAXE, tax.base, currency) : '') +
+        amountElement('AmountDetails', MONTANT_TAXE, tax.montant, currency),
+        '        '
+      )}
+      </InvoiceTaxDetails>`).join('');
+
+  const companyMatricule = normalizeMatriculeFiscal(companyInfo.matriculeFiscal);
+  const clientMatricule = normalizeMatriculeFiscal(facture.client.matriculeFiscal);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<TEIF controlingAgency="TTN" version="${TEIF_VERSION}">
+  <InvoiceHeader>
+    <MessageSenderIdentifier type="${IDENTIFIANT_MATRICULE_FISCAL}">${escapeXml(companyMatricule)}</MessageSenderIdentifier>
+    <MessageRecieverIdentifier type="${IDENTIFIANT_MATRICULE_FISCAL}">${escapeXml(clientMatricule)}</MessageRecieverIdentifier>
+  </InvoiceHeader>
+  <InvoiceBody>
+    <Bgm>
+      <DocumentIdentifier>${escapeXml(facture.numero)}</DocumentIdentifier>
+      <DocumentType code="${DOCUMENT_TYPE_FACTURE}">Facture</DocumentType>
+    </Bgm>
+    <Dtm>
+      <DateText format="ddMMyy" functionCode="${DATE_EMISSION}">${formatTeifDate(facture.date)}</DateText>
+      <DateText format="ddMMyy" functionCode="${DATE_ECHEANCE}">${formatTeifDate(facture.dateEcheance)}</DateText>
+    </Dtm>
+    <PartnerSection>${partnerElement(PARTNER_VENDEUR, companyInfo)}${partnerElement(PARTNER_ACHETEUR, facture.client)}
+    </PartnerSection>
+    <LinSection>${linesXml}
+    </LinSection>
+    <InvoiceMoa>${indentXml(
+      amountElement('AmountDetails', MONTANT_TOTAL_HT, totalHT, currency, ajustementsHT ? `Après ${ajustementsHT}` : undefined) +
+      amountElement('AmountDetails', MONTANT_TOTAL_TAXES, totalTaxes, currency) +
+      amountElement('AmountDetails', MONTANT_TOTAL_TTC, totalTTC, currency, numberToWords(totalTTC, currency.code, currency.decimals)),
+      '      '
+    )}
+    </InvoiceMoa>
+    <InvoiceTax>${taxesXml}
+    </InvoiceTax>
+  </InvoiceBody>
+</TEIF>
+`;
+};
@@ -0,0 +1,318 @@
+import { dinarsSQL, fromMillimes, roundMoney, subtractMoney, sumMoney, toMillimes } from './money';
+import { toBaseCurrency } from './currency';
+import { FACTURES_COMPTABILISEES } from './invoiceBalance';
+import { AjustementTaxe, DatabaseQuery } from '../types';
+
+export interface TVAParTaux {
+  taux: number;
+  base: number; // HT + FODEC
+  montant: number;
+}
+
+// Monthly tax return: TVA, FODEC, timbre fiscal and withholdings of one month
+export interface DeclarationTVA {
+  annee: number;
+  mois: number; // 1-12
+  tvaCollectee: TVAParTaux[];
+  totalTVACollectee: number;
+  fodec: { base: number; montant: number };
+  tvaDeductible: TVAParTaux[];
+  totalTVADeductible: number;
+  creditAnterieur: number; // TVA credit carried over from the previous month
+  tvaAPayer: number;
+  creditAReporter: number;
+  timbre: { nombre: number; montant: number };
+  retenues: { nombre: number; montant: number };
+  totalAPayer: number;
+}
+
+interface TVAAggregatRow {
+  taux: number;
+  base: number;
+  montant: number;
+  baseFodec: number;
+  fodec: number;
+}
+
+interface AjustementsRow {
+  ajustements: string;
+  tauxChange: number | null;
+}
+
+interface ChargesRow {
+  charges: string | null;
+  tauxChange: number | null;
+}
+
+// Lines saved before baseTVA was stored only have HT and FODEC amounts
+const LINE_BASE_TVA = (alias: string) =>
+  `COALESCE(NULLIF(${alias}.baseTVA, 0), ${alias}.montantHT + COALESCE(${alias}.montantFodec, 0))`;
+
+// Invoices in a foreign currency, and their credit notes, are declared in dinars,
+// each line converted and rounded to the millime
+const EN_DINARS = (amount: string) => dinarsSQL(amount, 'f.tauxChange');
+
+// Sales of the period by TVA rate: invoices issued in the period, with their global discount and fees,
+// minus the credit notes of the period whatever the current status of their invoice
+const getVentesParTaux = async (
+  startDate: string,
+  endDate: string,
+  query: DatabaseQuery
+): Promise<TVAAggregatRow[]> => {
+  const [factures, avoirs, facturesAjustements, avoirsAjustements] = await Promise.all([
+    query<TVAAggregatRow[]>(`
+      SELECT lf.tauxTVA as taux, SUM(${EN_DINARS(LINE_BASE_TVA('lf'))}) as base, SUM(${EN_DINARS('lf.montantTVA')}) as montant,
+             SUM(${EN_DINARS(`CASE WHEN lf.montantFodec > 0 THEN lf.montantHT ELSE 0 END`)}) as baseFodec, SUM(${EN_DINARS('lf.montantFodec')}) as fodec
+      FROM lignes_facture lf
+      JOIN factures f ON lf.factureId = f.id
+      WHERE f.date BETWEEN ? AND ? AND ${FACTURES_COMPTABILISEES}
+      GROUP BY lf.tauxTVA
+    `, [startDate, endDate]),
+    query<TVAAggregatRow[]>(`
+      SELECT la.tauxTVA as taux, SUM(${EN_DINARS(LINE_BASE_TVA('la'))}) as base, SUM(${EN_DINARS('la.montantTVA')}) as montant,
+             SUM(${EN_DINARS(`CASE WHEN la.montantFodec > 0 THEN la.montantHT ELSE 0 END`)}) as baseFodec, SUM(${EN_DINARS('la.montantFodec')}) as fodec
+      FROM lignes_avoir la
+      JOIN avoirs a ON la.avoirId = a.id
+      JOIN factures f ON a.factureId = f.id
+      WHERE a.date BETWEEN ? AND ? AND a.statut != 'annule'
+      GROUP BY la.tauxTVA
+    `, [startDate, endDate]),
+    query<AjustementsRow[]>(`
+      SELECT f.ajustements, f.tauxChange FROM factures f
+      WHERE f.date BETWEEN ? AND ? AND ${FACTURES_COMPTABILISEES}
+        AND f.ajustements IS NOT NULL AND f.ajustements != '[]'
+    `, [startDate, endDate]),
+    query<AjustementsRow[]>(`
+      SELECT a.ajustements, f.tauxChange FROM avoirs a
+      JOIN factures f ON a.factureId = f.id
+      WHERE a.date BETWEEN ? AND ? AND a.statut != 'annule'
+        AND a.ajustements IS NOT NULL AND a.ajustements != '[]'
+    `, [startDate, endDate])
+  ]);
+
+  // Summed in millimes, credit notes deducted
+  const parTaux = new Map<number, TVAAggregatRow>();
+  const add = (row: TVAAggregatRow, sign: number) => {
+    const current = parTaux.get(row.taux) || { taux: row.taux, base: 0, montant: 0, baseFodec: 0, fodec: 0 };
+    current.base += sign * toMillimes(row.base);
+    current.montant += sign * toMillimes(row.montant);
+    current.baseFodec += sign * toMillimes(row.baseFodec);
+    current.fodec += sign * toMillimes(row.fodec);
+    parTaux.set(row.taux, current);
+  };
+  factures.forEach(row => add(row, 1));
+  avoirs.forEach(row => add(row, -1));
+
+  // The discount lowers the FODEC and TVA bases of each rate, the fees add to the TVA base.
+  // Credit notes carry back their share of them.
+  const addAjustements = (row: AjustementsRow, sign: number) => {
+    const enDinars = (amount: number) => toBaseCurrency(amount, row.tauxChange || 1);
+    const ajustements: AjustementTaxe[] = JSON.parse(row.ajustements || '[]');
+    ajustements.forEach(ajustement => add({
+      taux: ajustement.tauxTVA,
+      base: enDinars(ajustement.baseTVA),
+      montant: enDinars(ajustement.montantTVA),
+      baseFodec: ajustement.tauxFodec > 0 ? -enDinars(ajustement.remise) : 0,
+      fodec: enDinars(ajustement.montantFodec)
+    }, sign));
+  };
+  facturesAjustements.forEach(row => addAjustements(row, 1));
+  avoirsAjustements.forEach(row => addAjustements(row, -1));
+
+  return Array.from(parTaux.values())
+    .map(row => ({
+      taux: row.taux,
+      base: fromMillimes(row.base),
+      montant: fromMillimes(row.montant),
+      baseFodec: fromMillimes(row.baseFodec),
+      fodec: fromMillimes(row.fodec)
+    }))
+    .sort((a, b) => a.taux - b.taux);
+};
+
+// TVA charged on the sales of the period, net of credit notes
+export const getTVACollecteeParTaux = async (
+  startDate: string,
+  endDate: string,
+  query: DatabaseQuery
+): Promise<TVAParTaux[]> => {
+  const ventes = await getVentesParTaux(startDate, endDate, query);
+  return ventes.map(({ taux, base, montant }) => ({ taux, base, montant }));
+};
+
+// TVA paid on the supplier invoices of the period, recoverable on the VAT return
+export const getTVADeductibleParTaux = async (
+  startDate: string,
+  endDate: string,
+  query: DatabaseQuery
+): Promise<TVAParTaux[]> => {
+  const [lignes, ajustements] = await Promise.all([
+    query<{ taux: number; base: number | null; montant: number | null }[]>(`
+      SELECT lff.tauxTVA as taux, SUM(lff.baseTVA) as base, SUM(lff.montantTVA) as montant
+      FROM lignes_facture_fournisseur lff
+      JOIN factures_fournisseur ff ON lff.factureFournisseurId = ff.id
+      WHERE ff.date BETWEEN ? AND ? AND ff.statut != 'annulee'
+      GROUP BY lff.tauxTVA
+    `, [startDate, endDate]),
+    query<{ ajustements: string }[]>(`
+      SELECT ff.ajustements FROM factures_fournisseur ff
+      WHERE ff.date BETWEEN ? AND ? AND ff.statut != 'annulee'
+        AND ff.ajustements IS NOT NULL AND ff.ajustements != '[]'
+    `, [startDate, endDate])
+  ]);
+
+  // Summed in millimes. Supplier invoices are in dinars, the orders' discounts and fees
+  // change the TVA base of each rate like on the sales invoices.
+  const parTaux = new Map<number, { base: number; montant: number }>();
+  const add = (taux: number, base: number | null, montant: number | null) => {
+    const current = parTaux.get(taux) || { base: 0, montant: 0 };
+    current.base += toMillimes(base || 0);
+    current.montant += toMillimes(montant || 0);
+    parTaux.set(taux, current);
+  };
+  lignes.forEach(row => add(row.taux, row.base, row.montant));
+  ajustements.forEach(row => {
+    const items: AjustementTaxe[] = JSON.parse(row.ajustements || '[]');
+    items.forEach(ajustement => add(ajustement.tauxTVA, ajustement.baseTVA, ajustement.montantTVA));
+  });
+
+  return Array.from(parTaux.entries())
+    .map(([taux, row]) => ({ taux, base: fromMillimes(row.base), montant: fromMillimes(row.montant) }))
+    .sort((a, b) => a.taux - b.taux);
+};
+
+// Gather everything filed on the monthly declaration for the given month
+export const getDeclarationTVA = async (
+  annee: number,
+  mois: number,
+  creditAnterieur: number,
+  query: DatabaseQuery
+): Promise<DeclarationTVA> => {
+  const startDate = new Date(annee, mois - 1, 1).toISOString();
+  const endDate = new Date(annee, mois, 0, 23, 59, 59, 999).toISOString();
+
+  const [ventes, tvaDeductible, facturesCharges, avoirsCharges, retenuesResult] = await Promise.all([
+    getVentesParTaux(startDate, endDate, query),
+    getTVADeductibleParTaux(startDate, endDate, query),
+    query<ChargesRow[]>(`
+      SELECT f.charges, f.tauxChange FROM factures f
+      WHERE f.date BETWEEN ? AND ? AND ${FACTURES_COMPTABILISEES}
+    `, [startDate, endDate]),
+    query<ChargesRow[]>(`
+      SELECT a.charges, f.tauxChange FROM avoirs a
+      JOIN factures f ON a.factureId = f.id
+      WHERE a.date BETWEEN ? AND ? AND a.statut != 'annule'
+    `, [startDate, endDate]),
+    query<{ nombre: number; montant: number | null }[]>(`
+      SELECT COUNT(*) as nombre, SUM(montantRetenue) as montant
+      FROM payments
+      WHERE date BETWEEN ? AND ? AND statut = 'valide' AND montantRetenue > 0
+    `, [startDate, endDate])
+  ]);
+
+  // Timbre fiscal is stored among the document charges of each invoice, and given back
+  // by the credit note crediting the whole invoice
+  const timbre = { nombre: 0, montant: 0 };
+  const addTimbres = (row: ChargesRow, sign: number) => {
+    const charges: { nom: string; montant: number }[] = JSON.parse(row.charges || '[]');
+    const timbres = charges.filter(charge => charge.nom.toLowerCase().includes('timbre'));
+    if (timbres.length > 0) {
+      timbre.nombre += sign;
+      timbre.montant = sumMoney([timbre.montant, sign * toBaseCurrency(sumMoney(timbres.map(charge => charge.montant)), row.tauxChange || 1)]);
+    }
+  };
+  facturesCharges.forEach(row => addTimbres(row, 1));
+  avoirsCharges.forEach(row => addTimbres(row, -1));
+
+  const tvaCollectee = ventes.map(({ taux, base, montant }) => ({ taux, base, montant }));
+  const totalTVACollectee = sumMoney(tvaCollectee.map(ligne => ligne.montant));
+  const totalTVADeductible = sumMoney(tvaDeductible.map(ligne => ligne.montant));
+  const soldeTVA = subtractMoney(subtractMoney(totalTVACollectee, totalTVADeductible), creditAnterieur);
+  const fodec = {
+    base: sumMoney(ventes.map(ligne => ligne.baseFodec)),
+    montant: sumMoney(ventes.map(ligne => ligne.fodec))
+  };
+  const tvaAPayer = Math.max(0, soldeTVA);
+
+  return {
+    annee,
+    mois,
+    tvaCollectee,
+    totalTVACollectee,
+    fodec,
+    tvaDeductible,
+    totalTVADeductible,
+    creditAnterieur,
+    tvaAPayer,
+    creditAReporter: Math.max(0, -soldeTVA),
+    timbre,
+    retenues: {
+      nombre: retenuesResult[0]?.nombre || 0,
+      montant: roundMoney(retenuesResult[0]?.montant || 0)
+    },
+    totalAPayer: sumMoney([tvaAPayer, fodec.montant, timbre.montant])
+  };
+};
+
+export interface DeclarationTVASection {
+  titre: string;
+  colonnes: string[];
+  lignes: (string | number)[][];
+}
+
+// Sections in the order of the Tunisian monthly declaration, shared by the PDF and Excel exports.
+// Amounts are left as numbers so each export formats them its own way, counts are text.
+export const getDeclarationTVASections = (declaration: DeclarationTVA): DeclarationTVASection[] => [
+  {
+    titre: 'I - TVA collectée',
+    colonnes: ['Taux', 'Chiffre d\'affaires taxable', 'TVA due'],
+    lignes: [
+      ...declaration.tvaCollectee.map(ligne => [`${ligne.taux} %`, ligne.base, ligne.montant]),
+      ['Total', sumMoney(declaration.tvaCollectee.map(ligne => ligne.base)), declaration.totalTVACollectee]
+    ]
+  },
+  {
+    titre: 'II - TVA déductible sur achats locaux',
+    colonnes: ['Taux', 'Base des achats', 'TVA récupérable'],
+    lignes: [
+      ...declaration.tvaDeductible.map(ligne => [`${ligne.taux} %`, ligne.base, ligne.montant]),
+      ['Total', sumMoney(declaration.tvaDeductible.map(ligne => ligne.base)), declaration.totalTVADeductible]
+    ]
+  },
+  {
+    titre: 'III - Liquidation de la TVA',
+    colonnes: ['Rubrique', 'Montant'],
+    lignes: [
+      ['TVA collectée', declaration.totalTVACollectee],
+      ['TVA déductible', declaration.totalTVADeductible],
+      ['Crédit de TVA du mois précédent', declaration.creditAnterieur],
+      ['TVA à payer', declaration.tvaAPayer],
+      ['Crédit de TVA à reporter', declaration.creditAReporter]
+    ]
+  },
+  {
+    titre: 'IV - FODEC',
+    colonnes: ['Rubrique', 'Assiette', 'Montant'],
+    lignes: [['FODEC sur chiffre d\'affaires', declaration.fodec.base, declaration.fodec.montant]]
+  },
+  {
+    titre: 'V - Droit de timbre',
+    colonnes: ['Rubrique', 'Nombre de factures', 'Montant'],
+    lignes: [['Droit de timbre sur factures', String(declaration.timbre.nombre), declaration.timbre.montant]]
+  },
+  {
+    titre: 'VI - Retenues à la source subies',
+    colonnes: ['Rubrique', 'Nombre de paiements', 'Montant'],
+    lignes: [['Retenues opérées par les clients (imputables, hors total)', String(declaration.retenues.nombre), declaration.retenues.montant]]
+  },
+  {
+    titre: 'Récapitulatif',
+    colonnes: ['Impôt', 'Montant à payer'],
+    lignes: [
+      ['TVA', declaration.tvaAPayer],
+      ['FODEC', declaration.fodec.montant],
+      ['Droit de timbre', declaration.timbre.montant],
+      ['Total à payer', declaration.totalAPayer]
+    ]
+  }
+];